@@ -33,6 +33,7 @@ const Profile = lazy(() => import("@/pages/profile"));
 const ProfileBuilds = lazy(() => import("@/pages/profile-builds"));
 const ProfileOrders = lazy(() => import("@/pages/profile-orders"));
 const ProfileSettings = lazy(() => import("@/pages/profile-settings"));
+const ProfileTickets = lazy(() => import("@/pages/profile-tickets"));
 const OrderSuccess = lazy(() => import("@/pages/order-success"));
 const SubscriptionPlans = lazy(() => import("@/pages/subscription-plans"));
 const Subscriptions = lazy(() => import("@/pages/subscriptions"));
@@ -121,6 +122,11 @@ function Router() {
           <ProfileSettings />
         </Suspense>
       </Route>
+      <Route path="/profile/tickets">
+        <Suspense fallback={<LoadingSpinner />}>
+          <ProfileTickets />
+        </Suspense>
+      </Route>
       <Route path="/subscription-plans">
         <Suspense fallback={<LoadingSpinner />}>
           <SubscriptionPlans />
@@ -237,7 +237,7 @@ export default function BusinessSettingsManager() {
               id="businessGst"
               value={formData.businessGst}
               onChange={(e) => handleInputChange('businessGst', e.target.value)}
-              placeholder="GST-NUMBER"
+              placeholder="e.g. 33AAAAA0000A1Z9"
               data-testid="input-business-gst"
             />
           </div>
@@ -0,0 +1,455 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { Cpu, Plus, Trash2, Search, AlertTriangle } from 'lucide-react';
+import { formatPrice } from '@/lib/utils';
+import { CATALOG_CATEGORIES, CATALOG_TIERS } from '@shared/schema';
+import type { CatalogComponent, CatalogCategory, CatalogTier } from '@shared/schema';
+
+const CATEGORY_LABELS: Record<CatalogCategory, string> = {
+  cpu: 'Processor',
+  gpu: 'Graphics Card',
+  ram: 'Memory',
+  storage: 'Storage',
+  motherboard: 'Motherboard',
+  psu: 'Power Supply',
+  case: 'Case',
+  cooler: 'CPU Cooler'
+};
+
+interface NewComponentForm {
+  category: CatalogCategory;
+  name: string;
+  brand: string;
+  price: string;
+  tier: CatalogTier;
+  performance: string;
+  powerConsumption: string;
+  socket: string;
+  memoryType: string;
+  formFactor: string;
+  wattage: string;
+  maxTdp: string;
+  lengthMm: string;
+  heightMm: string;
+  maxGpuLengthMm: string;
+  maxCoolerHeightMm: string;
+  pcieSlots: string;
+  m2Slots: string;
+  stockQuantity: string;
+}
+
+const emptyForm: NewComponentForm = {
+  category: 'cpu',
+  name: '',
+  brand: '',
+  price: '',
+  tier: 'mid-range',
+  performance: '75',
+  powerConsumption: '0',
+  socket: '',
+  memoryType: '',
+  formFactor: '',
+  wattage: '',
+  maxTdp: '',
+  lengthMm: '',
+  heightMm: '',
+  maxGpuLengthMm: '',
+  maxCoolerHeightMm: '',
+  pcieSlots: '',
+  m2Slots: '',
+  stockQuantity: '0'
+};
+
+const optionalText = (value: string) => value.trim() || undefined;
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export default function CatalogManager() {
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<NewComponentForm>(emptyForm);
+  const [categoryFilter, setCategoryFilter] = useState<'all' | CatalogCategory>('all');
+  const [search, setSearch] = useState('');
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: components = [], isLoading } = useQuery({
+    queryKey: ['catalog-components'],
+    queryFn: async () => {
+      const response = await fetch('/api/catalog/admin/components');
+      if (!response.ok) return [];
+      return response.json() as Promise<CatalogComponent[]>;
+    }
+  });
+
+  const refreshCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: ['catalog-components'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/catalog'] });
+  };
+
+  const createComponentMutation = useMutation({
+    mutationFn: async (componentData: Record<string, unknown>) => {
+      const response = await fetch('/api/catalog/admin/components', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(componentData)
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to create component');
+      return result;
+    },
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'Component added to the catalog' });
+      refreshCatalog();
+      setIsCreating(false);
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const updateComponentMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<CatalogComponent> }) => {
+      const response = await fetch(`/api/catalog/admin/components/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update component');
+      return result;
+    },
+    onSuccess: refreshCatalog,
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteComponentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/catalog/admin/components/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete component');
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Deleted', description: 'Component removed from the catalog' });
+      refreshCatalog();
+    }
+  });
+
+  const handleCreate = () => {
+    createComponentMutation.mutate({
+      category: form.category,
+      name: form.name.trim(),
+      brand: optionalText(form.brand),
+      price: Number(form.price),
+      tier: form.tier,
+      performance: Number(form.performance),
+      powerConsumption: Number(form.powerConsumption),
+      socket: optionalText(form.socket),
+      memoryType: optionalText(form.memoryType),
+      formFactor: optionalText(form.formFactor),
+      wattage: optionalNumber(form.wattage),
+      maxTdp: optionalNumber(form.maxTdp),
+      lengthMm: optionalNumber(form.lengthMm),
+      heightMm: optionalNumber(form.heightMm),
+      maxGpuLengthMm: optionalNumber(form.maxGpuLengthMm),
+      maxCoolerHeightMm: optionalNumber(form.maxCoolerHeightMm),
+      pcieSlots: optionalNumber(form.pcieSlots),
+      m2Slots: optionalNumber(form.m2Slots),
+      stockQuantity: Number(form.stockQuantity)
+    });
+  };
+
+  // Inline edits are saved when the field loses focus, and only if the value changed
+  const saveNumber = (component: CatalogComponent, field: 'price' | 'stockQuantity', value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || Number.isNaN(parsed) || parsed < 0 || parsed === component[field]) return;
+    updateComponentMutation.mutate({
+      id: component.id,
+      updates: { [field]: field === 'stockQuantity' ? Math.floor(parsed) : parsed }
+    });
+  };
+
+  const filteredComponents = components.filter(component => {
+    if (categoryFilter !== 'all' && component.category !== categoryFilter) return false;
+    return !search || component.name.toLowerCase().includes(search.toLowerCase());
+  });
+
+  const lowStockCount = components.filter(component =>
+    component.isActive && component.stockQuantity <= component.lowStockThreshold
+  ).length;
+
+  const setField = (field: keyof NewComponentForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Component Catalog</h2>
+          <p className="text-gray-600">Parts, prices and stock offered in the PC configurator</p>
+        </div>
+        <Button onClick={() => setIsCreating(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Component
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Components</p>
+              <p className="text-2xl font-bold">{components.length}</p>
+            </div>
+            <Cpu className="h-8 w-8 text-blue-500" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Active</p>
+              <p className="text-2xl font-bold">{components.filter(component => component.isActive).length}</p>
+            </div>
+            <Badge variant="outline">Live</Badge>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Low or out of stock</p>
+              <p className="text-2xl font-bold">{lowStockCount}</p>
+            </div>
+            <AlertTriangle className="h-8 w-8 text-orange-500" />
+          </CardContent>
+        </Card>
+      </div>
+
+      {isCreating && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Component</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(value) => setForm(prev => ({ ...prev, category: value as CatalogCategory }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATALOG_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="catalog-name">Name</Label>
+                <Input id="catalog-name" value={form.name} onChange={setField('name')} placeholder="AMD Ryzen 5 7600" />
+              </div>
+              <div>
+                <Label htmlFor="catalog-brand">Brand</Label>
+                <Input id="catalog-brand" value={form.brand} onChange={setField('brand')} placeholder="AMD" />
+              </div>
+              <div>
+                <Label htmlFor="catalog-price">Price (₹)</Label>
+                <Input id="catalog-price" type="number" value={form.price} onChange={setField('price')} />
+              </div>
+              <div>
+                <Label>Tier</Label>
+                <Select value={form.tier} onValueChange={(value) => setForm(prev => ({ ...prev, tier: value as CatalogTier }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATALOG_TIERS.map(tier => (
+                      <SelectItem key={tier} value={tier}>{tier}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="catalog-stock">Stock</Label>
+                <Input id="catalog-stock" type="number" value={form.stockQuantity} onChange={setField('stockQuantity')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-performance">Performance score (0-100)</Label>
+                <Input id="catalog-performance" type="number" value={form.performance} onChange={setField('performance')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-power">Power draw (W)</Label>
+                <Input id="catalog-power" type="number" value={form.powerConsumption} onChange={setField('powerConsumption')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-socket">Socket</Label>
+                <Input id="catalog-socket" value={form.socket} onChange={setField('socket')} placeholder="AM5" />
+              </div>
+              <div>
+                <Label htmlFor="catalog-memory">Memory type</Label>
+                <Input id="catalog-memory" value={form.memoryType} onChange={setField('memoryType')} placeholder="DDR5" />
+              </div>
+              <div>
+                <Label htmlFor="catalog-form-factor">Form factor</Label>
+                <Input id="catalog-form-factor" value={form.formFactor} onChange={setField('formFactor')} placeholder="ATX" />
+              </div>
+              <div>
+                <Label htmlFor="catalog-wattage">PSU wattage</Label>
+                <Input id="catalog-wattage" type="number" value={form.wattage} onChange={setField('wattage')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-tdp">Cooler max TDP (W)</Label>
+                <Input id="catalog-tdp" type="number" value={form.maxTdp} onChange={setField('maxTdp')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-gpu-length">GPU length (mm)</Label>
+                <Input id="catalog-gpu-length" type="number" value={form.lengthMm} onChange={setField('lengthMm')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-cooler-height">Cooler height (mm)</Label>
+                <Input id="catalog-cooler-height" type="number" value={form.heightMm} onChange={setField('heightMm')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-gpu-clearance">Case GPU clearance (mm)</Label>
+                <Input id="catalog-gpu-clearance" type="number" value={form.maxGpuLengthMm} onChange={setField('maxGpuLengthMm')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-cooler-clearance">Case cooler clearance (mm)</Label>
+                <Input id="catalog-cooler-clearance" type="number" value={form.maxCoolerHeightMm} onChange={setField('maxCoolerHeightMm')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-pcie">PCIe x16 slots</Label>
+                <Input id="catalog-pcie" type="number" value={form.pcieSlots} onChange={setField('pcieSlots')} />
+              </div>
+              <div>
+                <Label htmlFor="catalog-m2">M.2 slots</Label>
+                <Input id="catalog-m2" type="number" value={form.m2Slots} onChange={setField('m2Slots')} />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => { setIsCreating(false); setForm(emptyForm); }}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={!form.name.trim() || !form.price || createComponentMutation.isPending}>
+                {createComponentMutation.isPending ? 'Saving...' : 'Add Component'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle>Catalog</CardTitle>
+            <div className="flex space-x-2">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input className="pl-8 w-56" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search parts" />
+              </div>
+              <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as 'all' | CatalogCategory)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {CATALOG_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center py-8 text-gray-500">Loading catalog...</p>
+          ) : filteredComponents.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No components found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Tier</TableHead>
+                  <TableHead className="w-32">Price (₹)</TableHead>
+                  <TableHead className="w-28">Stock</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredComponents.map(component => (
+                  <TableRow key={component.id}>
+                    <TableCell>
+                      <div className="font-medium">{component.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {[component.socket, component.memoryType, component.formFactor, component.wattage && `${component.wattage}W`]
+                          .filter(Boolean)
+                          .join(' • ') || formatPrice(component.price)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{CATEGORY_LABELS[component.category]}</TableCell>
+                    <TableCell><Badge variant="outline">{component.tier}</Badge></TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        defaultValue={component.price}
+                        key={`price-${component.id}-${component.price}`}
+                        onBlur={(e) => saveNumber(component, 'price', e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          type="number"
+                          defaultValue={component.stockQuantity}
+                          key={`stock-${component.id}-${component.stockQuantity}`}
+                          onBlur={(e) => saveNumber(component, 'stockQuantity', e.target.value)}
+                        />
+                        {component.stockQuantity <= component.lowStockThreshold && (
+                          <AlertTriangle className={`h-4 w-4 flex-shrink-0 ${component.stockQuantity === 0 ? 'text-red-500' : 'text-orange-500'}`} />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={component.isActive}
+                        onCheckedChange={(isActive) => updateComponentMutation.mutate({ id: component.id, updates: { isActive } })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(`Delete ${component.name} from the catalog?`)) {
+                            deleteComponentMutation.mutate(component.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
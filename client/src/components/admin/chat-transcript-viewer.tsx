@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Bot, MessageCircle, User, UserCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { ChatMessage, ChatSession } from '@shared/schema';
+
+interface ChatTranscript {
+  session: ChatSession;
+  messages: ChatMessage[];
+}
+
+const statusColors: Record<ChatSession['status'], string> = {
+  active: 'bg-blue-500',
+  escalated: 'bg-red-500',
+  with_agent: 'bg-purple-500',
+  closed: 'bg-gray-500'
+};
+
+const roleLabels: Record<ChatMessage['role'], string> = {
+  user: 'Customer',
+  assistant: 'AI assistant',
+  agent: 'Agent',
+  system: 'System'
+};
+
+// Read-only view of stored AI chat sessions, newest activity first
+export default function ChatTranscriptViewer() {
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [] } = useQuery<ChatSession[]>({
+    queryKey: ['chat-transcripts', statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/chat/admin/sessions${query}`);
+      if (!response.ok) return [];
+      return response.json();
+    }
+  });
+
+  const { data: transcript } = useQuery<ChatTranscript | null>({
+    queryKey: ['chat-transcript', selectedId],
+    enabled: !!selectedId,
+    queryFn: async () => {
+      const response = await fetch(`/api/chat/admin/sessions/${selectedId}`);
+      if (!response.ok) return null;
+      return response.json();
+    }
+  });
+
+  const closeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await fetch(`/api/chat/admin/sessions/${sessionId}/close`, { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to close chat session');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-transcripts'] });
+      queryClient.invalidateQueries({ queryKey: ['chat-transcript', selectedId] });
+      toast({ title: 'Chat session closed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Filter by status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Sessions</SelectItem>
+          <SelectItem value="active">Active</SelectItem>
+          <SelectItem value="escalated">Escalated</SelectItem>
+          <SelectItem value="with_agent">With agent</SelectItem>
+          <SelectItem value="closed">Closed</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-3 max-h-[36rem] overflow-y-auto">
+          {sessions.length === 0 && (
+            <p className="text-sm text-gray-500">No chat sessions yet.</p>
+          )}
+          {sessions.map((session) => (
+            <Card
+              key={session.id}
+              className={`cursor-pointer transition-colors ${selectedId === session.id ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}
+              onClick={() => setSelectedId(session.id)}
+            >
+              <CardContent className="p-4 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm truncate">{session.userName || session.userEmail || 'Guest'}</span>
+                  <Badge className={`${statusColors[session.status]} text-white text-xs`}>{session.status}</Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {session.messageCount} messages · {formatDistanceToNow(new Date(session.updatedAt))} ago
+                </p>
+                {session.escalation && (
+                  <p className="text-xs text-red-600 truncate">{session.escalation.urgency}: {session.escalation.reason}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {transcript ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{transcript.session.userName || 'Guest'}</CardTitle>
+                    <p className="text-sm text-gray-500">
+                      {transcript.session.userEmail || 'No email'} · started {new Date(transcript.session.createdAt).toLocaleString()}
+                      {transcript.session.provider && ` · ${transcript.session.provider}`}
+                    </p>
+                  </div>
+                  {transcript.session.status !== 'closed' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => closeSessionMutation.mutate(transcript.session.id)}
+                      disabled={closeSessionMutation.isPending}
+                    >
+                      Close session
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3 max-h-[30rem] overflow-y-auto">
+                  {transcript.messages.map((message) => {
+                    const Icon = message.role === 'user' ? User : message.role === 'agent' ? UserCheck : Bot;
+                    return (
+                      <div
+                        key={message.id}
+                        className={`p-3 rounded-lg ${message.role === 'user' ? 'bg-gray-50 mr-8' : 'bg-blue-50 ml-8'}`}
+                      >
+                        <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                          <span className="flex items-center gap-1 font-medium text-gray-700">
+                            <Icon className="h-3 w-3" />
+                            {roleLabels[message.role]}
+                            {message.provider && <span className="text-gray-400">({message.provider})</span>}
+                          </span>
+                          <span>{new Date(message.createdAt).toLocaleTimeString()}</span>
+                        </div>
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-8 text-center text-gray-500">
+                <MessageCircle className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+                Select a session to read its transcript
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
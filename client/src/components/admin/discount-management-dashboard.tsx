@@ -79,7 +79,7 @@ export default function DiscountManagementDashboard() {
   const { data: discountCodes = [] } = useQuery({
     queryKey: ['discount-codes'],
     queryFn: async () => {
-      const response = await fetch('/api/admin/discount-codes');
+      const response = await fetch('/api/discounts/admin/codes');
       if (!response.ok) return [];
       return response.json();
     }
@@ -89,24 +89,9 @@ export default function DiscountManagementDashboard() {
   const { data: bulkTiers = [] } = useQuery({
     queryKey: ['bulk-pricing-tiers'],
     queryFn: async () => {
-      return [
-        {
-          id: 'bulk_001',
-          name: 'Small Business (5-10 units)',
-          minimumQuantity: 5,
-          discountPercentage: 5,
-          applicableCategories: ['Office Essentials', 'Budget Builders'],
-          isActive: true
-        },
-        {
-          id: 'bulk_002',
-          name: 'Enterprise (20+ units)',
-          minimumQuantity: 20,
-          discountPercentage: 15,
-          applicableCategories: [],
-          isActive: true
-        }
-      ] as BulkPricingTier[];
+      const response = await fetch('/api/discounts/admin/bulk-tiers');
+      if (!response.ok) return [];
+      return response.json() as Promise<BulkPricingTier[]>;
     }
   });
 
@@ -131,7 +116,7 @@ export default function DiscountManagementDashboard() {
 
   const createDiscountMutation = useMutation({
     mutationFn: async (discountData: Partial<DiscountCode>) => {
-      const response = await fetch('/api/admin/discounts', {
+      const response = await fetch('/api/discounts/admin/codes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(discountData)
@@ -154,7 +139,7 @@ export default function DiscountManagementDashboard() {
 
   const toggleDiscountMutation = useMutation({
     mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
-      const response = await fetch(`/api/admin/discounts/${id}`, {
+      const response = await fetch(`/api/discounts/admin/codes/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ isActive })
@@ -0,0 +1,140 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ListParams } from '@/hooks/use-paged-list';
+
+export interface ListFilterValues {
+  status: string;
+  from: string; // yyyy-MM-dd from the date input
+  to: string;
+  email: string;
+  minAmount: string;
+  maxAmount: string;
+  sort: string;
+  order: 'asc' | 'desc';
+}
+
+export const DEFAULT_LIST_FILTERS: ListFilterValues = {
+  status: 'all',
+  from: '',
+  to: '',
+  email: '',
+  minAmount: '',
+  maxAmount: '',
+  sort: 'createdAt',
+  order: 'desc',
+};
+
+// Query parameters for the list endpoints; the date range covers whole days in the admin's timezone
+export function toListParams(values: ListFilterValues): ListParams {
+  return {
+    status: values.status === 'all' ? undefined : values.status,
+    from: values.from ? new Date(`${values.from}T00:00:00`).toISOString() : undefined,
+    to: values.to ? new Date(`${values.to}T23:59:59.999`).toISOString() : undefined,
+    email: values.email.trim() || undefined,
+    minAmount: values.minAmount || undefined,
+    maxAmount: values.maxAmount || undefined,
+    sort: values.sort,
+    order: values.order,
+  };
+}
+
+interface ListFilterBarProps {
+  values: ListFilterValues;
+  onChange: (values: ListFilterValues) => void;
+  statuses?: Array<{ value: string; label: string }>;
+  sorts: Array<{ value: string; label: string }>;
+  showAmount?: boolean;
+  idPrefix: string;
+}
+
+export default function ListFilterBar({ values, onChange, statuses, sorts, showAmount = false, idPrefix }: ListFilterBarProps) {
+  const set = (field: keyof ListFilterValues) => (value: string) => onChange({ ...values, [field]: value });
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-email`}>Customer email</Label>
+        <Input
+          id={`${idPrefix}-email`}
+          placeholder="Search by email..."
+          value={values.email}
+          onChange={(e) => set('email')(e.target.value)}
+        />
+      </div>
+
+      {statuses && (
+        <div>
+          <Label>Status</Label>
+          <Select value={values.status} onValueChange={set('status')}>
+            <SelectTrigger data-testid={`${idPrefix}-status-filter`}>
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {statuses.map((status) => (
+                <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor={`${idPrefix}-from`}>From</Label>
+        <Input id={`${idPrefix}-from`} type="date" value={values.from} onChange={(e) => set('from')(e.target.value)} />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-to`}>To</Label>
+        <Input id={`${idPrefix}-to`} type="date" value={values.to} onChange={(e) => set('to')(e.target.value)} />
+      </div>
+
+      {showAmount && (
+        <>
+          <div>
+            <Label htmlFor={`${idPrefix}-min-amount`}>Min ₹</Label>
+            <Input
+              id={`${idPrefix}-min-amount`}
+              type="number"
+              min={0}
+              value={values.minAmount}
+              onChange={(e) => set('minAmount')(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-max-amount`}>Max ₹</Label>
+            <Input
+              id={`${idPrefix}-max-amount`}
+              type="number"
+              min={0}
+              value={values.maxAmount}
+              onChange={(e) => set('maxAmount')(e.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label>Sort by</Label>
+        <Select
+          value={`${values.sort}:${values.order}`}
+          onValueChange={(value) => {
+            const [sort, order] = value.split(':');
+            onChange({ ...values, sort, order: order as ListFilterValues['order'] });
+          }}
+        >
+          <SelectTrigger data-testid={`${idPrefix}-sort`}>
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            {sorts.flatMap((sort) => [
+              <SelectItem key={`${sort.value}:desc`} value={`${sort.value}:desc`}>{sort.label} ↓</SelectItem>,
+              <SelectItem key={`${sort.value}:asc`} value={`${sort.value}:asc`}>{sort.label} ↑</SelectItem>,
+            ])}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
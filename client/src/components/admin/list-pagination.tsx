@@ -0,0 +1,32 @@
+import { Button } from '@/components/ui/button';
+
+interface ListPaginationProps {
+  offset: number;
+  count: number;
+  total: number | null; // unknown when the store cannot count without reading every record
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  label: string;
+}
+
+export default function ListPagination({ offset, count, total, hasPrevious, hasNext, onPrevious, onNext, label }: ListPaginationProps) {
+  return (
+    <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+      <p className="text-sm text-gray-600">
+        {count === 0
+          ? `No ${label}`
+          : `Showing ${offset + 1}–${offset + count}${total === null ? '' : ` of ${total}`} ${label}`}
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={onPrevious} disabled={!hasPrevious} data-testid={`button-${label}-previous`}>
+          Previous
+        </Button>
+        <Button variant="outline" size="sm" onClick={onNext} disabled={!hasNext} data-testid={`button-${label}-next`}>
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
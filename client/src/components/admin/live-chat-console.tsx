@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Bot, Headphones, MessageCircle, Send, User, UserCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { LIVE_CHAT_PATH } from '@shared/live-chat';
+import type { LiveChatClientMessage, LiveChatServerMessage } from '@shared/live-chat';
+import type { ChatMessage, ChatSession } from '@shared/schema';
+
+const urgencyColors: Record<string, string> = {
+  urgent: 'bg-red-500',
+  high: 'bg-orange-500',
+  medium: 'bg-yellow-500',
+  low: 'bg-green-500'
+};
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Agent console: queue of chats waiting for a human, with take-over, typing indicators and hand-back
+export default function LiveChatConsole() {
+  const [connected, setConnected] = useState(false);
+  const [agentEmail, setAgentEmail] = useState<string | null>(null);
+  const [queue, setQueue] = useState<ChatSession[]>([]);
+  const [selected, setSelected] = useState<ChatSession | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [customerTyping, setCustomerTyping] = useState(false);
+  const [draft, setDraft] = useState('');
+  const { toast } = useToast();
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const send = useCallback((message: LiveChatClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const handleServerMessage = useCallback((data: LiveChatServerMessage) => {
+    switch (data.type) {
+      case 'queue':
+        setQueue(data.sessions);
+        setAgentEmail(data.agentEmail);
+        break;
+      case 'queue_update': {
+        const { session } = data;
+        const waiting = session.status === 'escalated' || session.status === 'with_agent';
+        setQueue(current => {
+          const others = current.filter(existing => existing.id !== session.id);
+          return waiting ? [...others, session] : others;
+        });
+        if (session.id === selectedIdRef.current) setSelected(session);
+        break;
+      }
+      case 'history':
+        if (data.sessionId !== selectedIdRef.current) break;
+        setMessages(data.messages);
+        if (data.session) setSelected(data.session);
+        break;
+      case 'new_message':
+        if (data.sessionId !== selectedIdRef.current) break;
+        setMessages(current => current.some(existing => existing.id === data.message.id) ? current : [...current, data.message]);
+        if (data.message.role === 'user') setCustomerTyping(false);
+        break;
+      case 'customer_typing':
+        if (data.sessionId === selectedIdRef.current) setCustomerTyping(data.isTyping);
+        break;
+      case 'error':
+        toast({ title: 'Live chat', description: data.message, variant: 'destructive' });
+        break;
+    }
+  }, [toast]);
+
+  // Reconnects with backoff; the queue and the open chat are re-fetched on every connect
+  useEffect(() => {
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_CHAT_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        send({ type: 'subscribe_queue' });
+        if (selectedIdRef.current) send({ type: 'join', sessionId: selectedIdRef.current });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleServerMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Error parsing live chat message:', error);
+        }
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (disposed) return;
+        attempts++;
+        reconnectTimer = setTimeout(connect, Math.min(MAX_RECONNECT_DELAY_MS, Math.pow(2, attempts) * 1000));
+      };
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [send, handleServerMessage]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, customerTyping]);
+
+  const stopTyping = () => {
+    if (!typingTimerRef.current || !selectedIdRef.current) return;
+    clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = null;
+    send({ type: 'typing', sessionId: selectedIdRef.current, isTyping: false });
+  };
+
+  const openChat = (session: ChatSession) => {
+    if (session.id === selectedIdRef.current) return;
+    stopTyping();
+    if (selectedIdRef.current) send({ type: 'leave', sessionId: selectedIdRef.current });
+
+    selectedIdRef.current = session.id;
+    setSelected(session);
+    setMessages([]);
+    setCustomerTyping(false);
+    send({ type: 'join', sessionId: session.id });
+  };
+
+  const onDraftChange = (value: string) => {
+    setDraft(value);
+    const sessionId = selectedIdRef.current;
+    if (!sessionId || !value) return;
+
+    if (typingTimerRef.current) {
+      clearTimeout(typingTimerRef.current);
+    } else {
+      send({ type: 'typing', sessionId, isTyping: true });
+    }
+    typingTimerRef.current = setTimeout(stopTyping, 3000);
+  };
+
+  const sendReply = () => {
+    if (!selected || !draft.trim()) return;
+    stopTyping();
+    send({ type: 'agent_message', sessionId: selected.id, content: draft.trim() });
+    setDraft('');
+  };
+
+  const isMine = selected?.status === 'with_agent' && selected.assignedAgent === agentEmail;
+  const waitingCount = queue.filter(session => session.status === 'escalated').length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-1 space-y-3 max-h-[36rem] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">{waitingCount} waiting</span>
+          <Badge className={`${connected ? 'bg-green-500' : 'bg-gray-400'} text-white text-xs`}>
+            {connected ? 'Connected' : 'Reconnecting...'}
+          </Badge>
+        </div>
+        {queue.length === 0 && (
+          <p className="text-sm text-gray-500">No chats are waiting for an agent.</p>
+        )}
+        {queue.map((session) => (
+          <Card
+            key={session.id}
+            className={`cursor-pointer transition-colors ${selected?.id === session.id ? 'border-green-500 bg-green-50' : 'hover:bg-gray-50'}`}
+            onClick={() => openChat(session)}
+          >
+            <CardContent className="p-4 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm truncate">{session.userName || session.userEmail || 'Guest'}</span>
+                {session.status === 'with_agent' ? (
+                  <Badge className="bg-purple-500 text-white text-xs">with agent</Badge>
+                ) : (
+                  <Badge className={`${urgencyColors[session.escalation?.urgency || 'medium']} text-white text-xs`}>
+                    {session.escalation?.urgency || 'waiting'}
+                  </Badge>
+                )}
+              </div>
+              {session.escalation && (
+                <p className="text-xs text-gray-600 truncate">{session.escalation.reason}</p>
+              )}
+              <p className="text-xs text-gray-500">
+                {session.assignedAgent || 'Unassigned'} · {formatDistanceToNow(new Date(session.updatedAt))} ago
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="lg:col-span-2">
+        {selected ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg">Chat with {selected.userName || 'Guest'}</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    {selected.userEmail || 'No email'} · {selected.status.replace('_', ' ')}
+                    {selected.assignedAgent && ` · ${selected.assignedAgent}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  {selected.status !== 'with_agent' && selected.status !== 'closed' && (
+                    <Button size="sm" onClick={() => send({ type: 'claim', sessionId: selected.id })} disabled={!connected}>
+                      <Headphones className="h-4 w-4 mr-1" />
+                      Take over
+                    </Button>
+                  )}
+                  {isMine && (
+                    <Button size="sm" variant="outline" onClick={() => send({ type: 'release', sessionId: selected.id })} disabled={!connected}>
+                      <Bot className="h-4 w-4 mr-1" />
+                      Hand back to AI
+                    </Button>
+                  )}
+                  {selected.status !== 'closed' && (
+                    <Button size="sm" variant="outline" onClick={() => send({ type: 'close', sessionId: selected.id })} disabled={!connected}>
+                      Close
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 max-h-[26rem] overflow-y-auto">
+                {messages.map((message) => {
+                  if (message.role === 'system') {
+                    return (
+                      <p key={message.id} className="text-xs text-center text-gray-400">{message.content}</p>
+                    );
+                  }
+                  const Icon = message.role === 'user' ? User : message.role === 'agent' ? UserCheck : Bot;
+                  return (
+                    <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-start' : 'justify-end'}`}>
+                      <div className={`max-w-md p-3 rounded-lg ${
+                        message.role === 'user'
+                          ? 'bg-gray-100 text-gray-900'
+                          : message.role === 'agent'
+                          ? 'bg-green-100 text-gray-900'
+                          : 'bg-blue-50 text-gray-900'
+                      }`}>
+                        <p className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                          <Icon className="h-3 w-3" />
+                          {new Date(message.createdAt).toLocaleTimeString()}
+                        </p>
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+                {customerTyping && (
+                  <p className="text-xs text-gray-500 italic">Customer is typing...</p>
+                )}
+                <div ref={messagesEndRef} />
+              </div>
+
+              <div className="flex items-center space-x-2 pt-3 border-t">
+                <Input
+                  placeholder={isMine ? 'Type your reply...' : 'Take over the chat to reply'}
+                  value={draft}
+                  onChange={(e) => onDraftChange(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && sendReply()}
+                  disabled={!isMine || !connected}
+                  className="flex-1"
+                />
+                <Button onClick={sendReply} disabled={!isMine || !connected || !draft.trim()}>
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-500">
+              <MessageCircle className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+              Select a chat from the queue
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
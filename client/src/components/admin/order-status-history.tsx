@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { OrderStatusEvent } from '@shared/schema';
+
+interface OrderStatusHistoryProps {
+  orderId: number;
+}
+
+export default function OrderStatusHistory({ orderId }: OrderStatusHistoryProps) {
+  const { data: events = [], isLoading, error } = useQuery<OrderStatusEvent[]>({
+    queryKey: [`/api/orders/${orderId}/history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading status history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load status history</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-gray-200 pl-4">
+      {events.map((event) => (
+        <li key={event.id} className="relative">
+          <div className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 bg-blue-500 rounded-full"></div>
+          <p className="text-sm text-gray-900 capitalize">
+            {event.fromStatus ? `${event.fromStatus} → ${event.toStatus}` : `Created as ${event.toStatus}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {format(new Date(event.createdAt), 'dd MMM yyyy, HH:mm')} · {event.actor}
+          </p>
+          {event.note && <p className="text-xs text-gray-600 mt-1 italic">{event.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { Archive, History, Pencil, Plus, RotateCcw } from 'lucide-react';
+import { formatPrice } from '@/lib/utils';
+import { SUBSCRIPTION_BILLING_CYCLES } from '@shared/schema';
+import type { SubscriptionBillingCycle, SubscriptionPlan, SubscriptionPlanVersion } from '@shared/schema';
+
+interface PlanForm {
+  id: string;
+  name: string;
+  description: string;
+  billingCycle: SubscriptionBillingCycle;
+  discountPercentage: string;
+  minimumItems: string;
+  features: string;
+  minimumOrderValue: string;
+  maximumDiscount: string;
+}
+
+const emptyForm: PlanForm = {
+  id: '',
+  name: '',
+  description: '',
+  billingCycle: 'monthly',
+  discountPercentage: '0',
+  minimumItems: '1',
+  features: '',
+  minimumOrderValue: '',
+  maximumDiscount: ''
+};
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+function toForm(plan: SubscriptionPlan): PlanForm {
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    billingCycle: plan.billingCycle,
+    discountPercentage: String(plan.discountPercentage),
+    minimumItems: String(plan.minimumItems),
+    features: plan.features.join('\n'),
+    minimumOrderValue: plan.priceRules.minimumOrderValue?.toString() ?? '',
+    maximumDiscount: plan.priceRules.maximumDiscount?.toString() ?? ''
+  };
+}
+
+function describeRules(plan: Pick<SubscriptionPlan, 'priceRules'>): string {
+  const rules = [];
+  if (plan.priceRules.minimumOrderValue !== undefined) rules.push(`min order ${formatPrice(plan.priceRules.minimumOrderValue)}`);
+  if (plan.priceRules.maximumDiscount !== undefined) rules.push(`discount capped at ${formatPrice(plan.priceRules.maximumDiscount)}`);
+  return rules.join(' • ');
+}
+
+// Changing a plan publishes a new version; subscribers stay on the version they signed up to
+export default function SubscriptionPlanManager() {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: plans = [], isLoading } = useQuery({
+    queryKey: ['subscription-plans-admin'],
+    queryFn: async () => {
+      const response = await fetch('/api/subscription/admin/plans');
+      if (!response.ok) return [];
+      return response.json() as Promise<SubscriptionPlan[]>;
+    }
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ['subscription-plan-versions', historyId],
+    enabled: Boolean(historyId),
+    queryFn: async () => {
+      const response = await fetch(`/api/subscription/admin/plans/${historyId}/versions`);
+      if (!response.ok) return [];
+      return response.json() as Promise<SubscriptionPlanVersion[]>;
+    }
+  });
+
+  const refreshPlans = () => {
+    queryClient.invalidateQueries({ queryKey: ['subscription-plans-admin'] });
+    queryClient.invalidateQueries({ queryKey: ['subscription-plan-versions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subscription/plans'] });
+  };
+
+  const closeForm = () => {
+    setIsCreating(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async ({ id, plan }: { id: string | null; plan: Record<string, unknown> }) => {
+      const response = await fetch(id ? `/api/subscription/admin/plans/${id}` : '/api/subscription/admin/plans', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(plan)
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save plan');
+      return result as SubscriptionPlan;
+    },
+    onSuccess: (plan) => {
+      toast({ title: 'Plan saved', description: `${plan.name} is now on version ${plan.version}` });
+      refreshPlans();
+      closeForm();
+    },
+    onError
+  });
+
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'retire' | 'restore' }) => {
+      const response = await fetch(`/api/subscription/admin/plans/${id}/${action}`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Failed to ${action} plan`);
+      return result as SubscriptionPlan;
+    },
+    onSuccess: (plan) => {
+      toast({
+        title: plan.status === 'retired' ? 'Plan retired' : 'Plan restored',
+        description: plan.status === 'retired'
+          ? `${plan.name} is hidden from new subscribers; existing subscriptions are unaffected`
+          : `${plan.name} is available to new subscribers again`
+      });
+      refreshPlans();
+    },
+    onError
+  });
+
+  const handleSave = () => {
+    const plan = {
+      ...(editingId ? {} : { id: form.id.trim() }),
+      name: form.name.trim(),
+      description: form.description.trim(),
+      billingCycle: form.billingCycle,
+      discountPercentage: Number(form.discountPercentage),
+      minimumItems: Number(form.minimumItems),
+      features: form.features.split('\n').map(feature => feature.trim()).filter(Boolean),
+      priceRules: {
+        minimumOrderValue: optionalNumber(form.minimumOrderValue),
+        maximumDiscount: optionalNumber(form.maximumDiscount)
+      }
+    };
+    savePlanMutation.mutate({ id: editingId, plan });
+  };
+
+  const startEdit = (plan: SubscriptionPlan) => {
+    setIsCreating(false);
+    setEditingId(plan.id);
+    setForm(toForm(plan));
+  };
+
+  const setField = (field: keyof PlanForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const historyPlan = plans.find(plan => plan.id === historyId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">Subscription Plans</h3>
+          <p className="text-gray-600">Edits create a new version; existing subscribers keep the terms they signed up on</p>
+        </div>
+        <Button onClick={() => { closeForm(); setIsCreating(true); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Plan
+        </Button>
+      </div>
+
+      {(isCreating || editingId) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? `Edit ${form.name}` : 'Add Plan'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="plan-id">Plan ID</Label>
+                <Input id="plan-id" value={form.id} onChange={setField('id')} placeholder="monthly_student" disabled={Boolean(editingId)} />
+              </div>
+              <div>
+                <Label htmlFor="plan-name">Name</Label>
+                <Input id="plan-name" value={form.name} onChange={setField('name')} placeholder="Monthly Student" />
+              </div>
+              <div>
+                <Label>Billing cycle</Label>
+                <Select value={form.billingCycle} onValueChange={(value) => setForm(prev => ({ ...prev, billingCycle: value as SubscriptionBillingCycle }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUBSCRIPTION_BILLING_CYCLES.map(cycle => (
+                      <SelectItem key={cycle} value={cycle}>{cycle}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="plan-discount">Discount (%)</Label>
+                <Input id="plan-discount" type="number" value={form.discountPercentage} onChange={setField('discountPercentage')} />
+              </div>
+              <div>
+                <Label htmlFor="plan-minimum-items">Minimum items</Label>
+                <Input id="plan-minimum-items" type="number" value={form.minimumItems} onChange={setField('minimumItems')} />
+              </div>
+              <div>
+                <Label htmlFor="plan-description">Description</Label>
+                <Input id="plan-description" value={form.description} onChange={setField('description')} />
+              </div>
+              <div>
+                <Label htmlFor="plan-minimum-order">Minimum order value (₹)</Label>
+                <Input id="plan-minimum-order" type="number" value={form.minimumOrderValue} onChange={setField('minimumOrderValue')} placeholder="No minimum" />
+              </div>
+              <div>
+                <Label htmlFor="plan-maximum-discount">Maximum discount (₹)</Label>
+                <Input id="plan-maximum-discount" type="number" value={form.maximumDiscount} onChange={setField('maximumDiscount')} placeholder="No cap" />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="plan-features">Features (one per line)</Label>
+              <Textarea id="plan-features" rows={5} value={form.features} onChange={setField('features')} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!form.name.trim() || (!editingId && !form.id.trim()) || savePlanMutation.isPending}>
+                {savePlanMutation.isPending ? 'Saving...' : editingId ? 'Publish New Version' : 'Add Plan'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-center py-8 text-gray-500">Loading plans...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Cycle</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Min items</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map(plan => (
+                  <TableRow key={plan.id}>
+                    <TableCell>
+                      <div className="font-medium">{plan.name}</div>
+                      <div className="text-xs text-gray-500">{[plan.id, describeRules(plan)].filter(Boolean).join(' • ')}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{plan.billingCycle}</TableCell>
+                    <TableCell>{plan.discountPercentage}%</TableCell>
+                    <TableCell>{plan.minimumItems}</TableCell>
+                    <TableCell><Badge variant="outline">v{plan.version}</Badge></TableCell>
+                    <TableCell>
+                      <Badge className={plan.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}>
+                        {plan.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end space-x-1">
+                        <Button variant="ghost" size="sm" title="Edit" onClick={() => startEdit(plan)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Version history" onClick={() => setHistoryId(historyId === plan.id ? null : plan.id)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {plan.status === 'active' ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Retire"
+                            onClick={() => {
+                              if (confirm(`Retire ${plan.name}? Existing subscribers keep their plan.`)) {
+                                setStatusMutation.mutate({ id: plan.id, action: 'retire' });
+                              }
+                            }}
+                          >
+                            <Archive className="h-4 w-4 text-orange-500" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" title="Restore" onClick={() => setStatusMutation.mutate({ id: plan.id, action: 'restore' })}>
+                            <RotateCcw className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {historyPlan && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{historyPlan.name} – version history</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {[...versions].reverse().map(version => (
+              <div key={version.version} className="border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">v{version.version}</Badge>
+                    <span className="font-medium">{version.name}</span>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}{version.createdBy && ` by ${version.createdBy}`}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {[
+                    version.billingCycle,
+                    `${version.discountPercentage}% off`,
+                    `min ${version.minimumItems} items`,
+                    describeRules(version)
+                  ].filter(Boolean).join(' • ')}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
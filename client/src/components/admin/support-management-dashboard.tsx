@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -7,139 +7,193 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Ticket, MessageCircle, User, Clock, AlertTriangle, CheckCircle, Send, Paperclip, Phone, Star, Filter, Search, MoreHorizontal, Reply } from 'lucide-react';
+import { Ticket, MessageCircle, User, Clock, AlertTriangle, CheckCircle, Send, Paperclip, Phone, Star, Filter, Search, MoreHorizontal, Reply, Trash2, X } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import TicketAttachmentList, { formatFileSize } from '@/components/ticket-attachment-list';
+import ChatTranscriptViewer from '@/components/admin/chat-transcript-viewer';
+import LiveChatConsole from '@/components/admin/live-chat-console';
+import type { ChatSession, SupportTicket, SupportTicketAttachment, SupportTicketUpdate } from '@shared/schema';
 
-interface SupportTicket {
-  id: string;
-  userId: string;
-  userEmail: string;
-  userName: string;
-  subject: string;
-  description: string;
-  category: 'technical' | 'billing' | 'sales' | 'warranty' | 'delivery' | 'general';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'open' | 'in_progress' | 'waiting_customer' | 'resolved' | 'closed';
-  assignedAgent?: string;
-  responses: SupportResponse[];
-  createdAt: number;
-  updatedAt: number;
-  customerSatisfaction?: number;
+interface TicketAnalytics {
+  totalTickets: number;
+  openTickets: number;
+  averageResponseTime: number; // hours
+  customerSatisfactionScore: number;
+  sla: {
+    atRisk: number;
+    firstResponseBreaches: number;
+    resolutionBreaches: number;
+    openBreached: number;
+  };
 }
 
-interface SupportResponse {
-  id: string;
-  authorType: 'user' | 'admin' | 'system';
-  authorName: string;
-  message: string;
-  timestamp: number;
-  isInternal: boolean;
-}
+const isTicketOpen = (ticket: SupportTicket) => !['resolved', 'closed'].includes(ticket.status);
 
-interface ChatSession {
-  id: string;
-  userId: string;
-  userEmail: string;
-  userName: string;
-  status: 'active' | 'waiting' | 'closed' | 'transferred';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  assignedAgent?: string;
-  messages: ChatMessage[];
-  createdAt: number;
-  lastActivity: number;
-}
+const getSlaState = (ticket: SupportTicket): 'breached' | 'at_risk' | null => {
+  if (!ticket.sla || !isTicketOpen(ticket)) return null;
+  if (ticket.sla.firstResponseBreachedAt || ticket.sla.resolutionBreachedAt) return 'breached';
+  if (ticket.sla.firstResponseAtRiskAt || ticket.sla.resolutionAtRiskAt) return 'at_risk';
+  return null;
+};
 
-interface ChatMessage {
-  id: string;
-  senderId: string;
-  senderType: 'user' | 'admin' | 'bot';
-  message: string;
-  timestamp: number;
-  isRead: boolean;
+function SlaBadge({ ticket }: { ticket: SupportTicket }) {
+  const state = getSlaState(ticket);
+  if (!state) return null;
+  return (
+    <Badge className={`${state === 'breached' ? 'bg-red-600' : 'bg-amber-500'} text-white text-xs`}>
+      {state === 'breached' ? 'SLA breached' : 'SLA at risk'}
+    </Badge>
+  );
 }
 
 export default function SupportManagementDashboard() {
   const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null);
-  const [selectedChat, setSelectedChat] = useState<ChatSession | null>(null);
   const [newResponse, setNewResponse] = useState('');
-  const [newChatMessage, setNewChatMessage] = useState('');
+  const [isInternalNote, setIsInternalNote] = useState(false);
+  const [agentInput, setAgentInput] = useState('');
+  const [responseFiles, setResponseFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [ticketFilter, setTicketFilter] = useState('all');
-  const [chatFilter, setChatFilter] = useState('active');
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch support tickets
-  const { data: tickets = [] } = useQuery({
+  const { data: tickets = [] } = useQuery<SupportTicket[]>({
     queryKey: ['support-tickets'],
     queryFn: async () => {
-      const response = await fetch('/api/admin/support/tickets');
+      const response = await fetch('/api/support/admin/tickets');
       if (!response.ok) return [];
       return response.json();
     }
   });
 
+  const { data: analytics } = useQuery<TicketAnalytics | null>({
+    queryKey: ['support-analytics'],
+    queryFn: async () => {
+      const response = await fetch('/api/support/admin/analytics');
+      if (!response.ok) return null;
+      return response.json();
+    }
+  });
+
+  // Keep the open ticket in sync with what the server returned
+  const showTicket = (ticket: SupportTicket) => {
+    setSelectedTicket(ticket);
+    setAgentInput(ticket.assignedAgent || '');
+    queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+    queryClient.invalidateQueries({ queryKey: ['support-analytics'] });
+  };
+
   // Fetch chat sessions
-  const { data: chatSessions = [] } = useQuery({
+  const { data: chatSessions = [] } = useQuery<ChatSession[]>({
     queryKey: ['chat-sessions'],
     queryFn: async () => {
-      const response = await fetch('/api/admin/support/chat-sessions');
+      const response = await fetch('/api/chat/admin/sessions');
       if (!response.ok) return [];
       return response.json();
     }
   });
 
   const updateTicketMutation = useMutation({
-    mutationFn: async ({ ticketId, updates }: { ticketId: string; updates: Partial<SupportTicket> }) => {
-      const response = await fetch(`/api/support/tickets/${ticketId}`, {
+    mutationFn: async ({ ticketId, updates }: { ticketId: string; updates: SupportTicketUpdate }) => {
+      const response = await fetch(`/api/support/admin/tickets/${ticketId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates)
       });
       if (!response.ok) throw new Error('Failed to update ticket');
-      return response.json();
+      return response.json() as Promise<SupportTicket>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+    onSuccess: (ticket) => {
+      showTicket(ticket);
       toast({ title: 'Success', description: 'Ticket updated successfully' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     }
   });
 
+  // With files attached the response is sent as multipart to the upload endpoint
   const addResponseMutation = useMutation({
+    mutationFn: async ({ ticketId, message, isInternal, files }: { ticketId: string; message: string; isInternal: boolean; files: File[] }) => {
+      let response: Response;
+      if (files.length > 0) {
+        const formData = new FormData();
+        if (message.trim()) formData.append('message', message);
+        formData.append('isInternal', String(isInternal));
+        files.forEach(file => formData.append('files', file));
+        response = await fetch(`/api/support/admin/tickets/${ticketId}/attachments`, { method: 'POST', body: formData });
+      } else {
+        response = await fetch(`/api/support/admin/tickets/${ticketId}/responses`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ message, isInternal })
+        });
+      }
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || error.message || 'Failed to add response');
+      }
+      return response.json() as Promise<SupportTicket>;
+    },
+    onSuccess: (ticket, { isInternal }) => {
+      showTicket(ticket);
+      setNewResponse('');
+      setResponseFiles([]);
+      toast({ title: 'Success', description: isInternal ? 'Internal note added' : 'Response sent successfully' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const resolveTicketMutation = useMutation({
     mutationFn: async ({ ticketId, message }: { ticketId: string; message: string }) => {
-      const response = await fetch(`/api/support/tickets/${ticketId}/responses`, {
+      const response = await fetch(`/api/support/admin/tickets/${ticketId}/resolve`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message, authorType: 'admin', authorName: 'Support Agent' })
+        body: JSON.stringify({ message })
       });
-      if (!response.ok) throw new Error('Failed to add response');
-      return response.json();
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to resolve ticket');
+      }
+      return response.json() as Promise<SupportTicket>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+    onSuccess: (ticket) => {
+      showTicket(ticket);
       setNewResponse('');
-      toast({ title: 'Success', description: 'Response sent successfully' });
+      toast({ title: 'Success', description: 'Ticket resolved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     }
   });
 
-  const sendChatMessageMutation = useMutation({
-    mutationFn: async ({ chatId, message }: { chatId: string; message: string }) => {
-      const response = await fetch(`/api/support/chat/${chatId}/message`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message, senderType: 'admin' })
-      });
-      if (!response.ok) throw new Error('Failed to send message');
+  const purgeTicketMutation = useMutation({
+    mutationFn: async (ticketId: string) => {
+      const response = await fetch(`/api/support/admin/tickets/${ticketId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete ticket');
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
-      setNewChatMessage('');
+      setSelectedTicket(null);
+      queryClient.invalidateQueries({ queryKey: ['support-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['support-analytics'] });
+      toast({ title: 'Success', description: 'Ticket and attachments deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     }
   });
 
+  const adminAttachmentUrl = (attachment: SupportTicketAttachment) =>
+    `/api/support/admin/tickets/${selectedTicket?.id}/attachments/${attachment.id}`;
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return 'bg-red-500';
@@ -166,10 +220,7 @@ export default function SupportManagementDashboard() {
     return ticket.status === ticketFilter;
   });
 
-  const filteredChats = chatSessions.filter(chat => {
-    if (chatFilter === 'all') return true;
-    return chat.status === chatFilter;
-  });
+  const openChats = chatSessions.filter(chat => chat.status !== 'closed').length;
 
   return (
     <div className="space-y-6">
@@ -183,7 +234,7 @@ export default function SupportManagementDashboard() {
             {tickets.filter(t => t.status === 'open').length} Open Tickets
           </Badge>
           <Badge variant="outline">
-            {chatSessions.filter(c => c.status === 'active').length} Active Chats
+            {openChats} Active Chats
           </Badge>
         </div>
       </div>
@@ -195,7 +246,7 @@ export default function SupportManagementDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Total Tickets</p>
-                <p className="text-2xl font-bold">{tickets.length}</p>
+                <p className="text-2xl font-bold">{analytics?.totalTickets ?? tickets.length}</p>
               </div>
               <Ticket className="h-8 w-8 text-blue-500" />
             </div>
@@ -207,7 +258,7 @@ export default function SupportManagementDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Active Chats</p>
-                <p className="text-2xl font-bold">{chatSessions.filter(c => c.status === 'active').length}</p>
+                <p className="text-2xl font-bold">{openChats}</p>
               </div>
               <MessageCircle className="h-8 w-8 text-green-500" />
             </div>
@@ -219,7 +270,7 @@ export default function SupportManagementDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Avg Response Time</p>
-                <p className="text-2xl font-bold">2.4h</p>
+                <p className="text-2xl font-bold">{analytics ? `${analytics.averageResponseTime}h` : '-'}</p>
               </div>
               <Clock className="h-8 w-8 text-orange-500" />
             </div>
@@ -231,7 +282,9 @@ export default function SupportManagementDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Satisfaction</p>
-                <p className="text-2xl font-bold">4.7/5</p>
+                <p className="text-2xl font-bold">
+                  {analytics?.customerSatisfactionScore ? `${analytics.customerSatisfactionScore.toFixed(1)}/5` : '-'}
+                </p>
               </div>
               <Star className="h-8 w-8 text-yellow-500" />
             </div>
@@ -239,10 +292,41 @@ export default function SupportManagementDashboard() {
         </Card>
       </div>
 
+      {/* SLA breaches */}
+      {analytics?.sla && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-2 mb-3">
+              <AlertTriangle className="h-5 w-5 text-red-500" />
+              <h3 className="font-semibold">SLA</h3>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-amber-600">{analytics.sla.atRisk}</p>
+                <p className="text-xs text-gray-600">At risk</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-red-600">{analytics.sla.openBreached}</p>
+                <p className="text-xs text-gray-600">Open and breached</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{analytics.sla.firstResponseBreaches}</p>
+                <p className="text-xs text-gray-600">First response breaches</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{analytics.sla.resolutionBreaches}</p>
+                <p className="text-xs text-gray-600">Resolution breaches</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="tickets" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="tickets">Support Tickets</TabsTrigger>
           <TabsTrigger value="chat">Live Chat</TabsTrigger>
+          <TabsTrigger value="transcripts">AI Transcripts</TabsTrigger>
         </TabsList>
 
         <TabsContent value="tickets" className="space-y-4">
@@ -268,7 +352,10 @@ export default function SupportManagementDashboard() {
                 <Card 
                   key={ticket.id} 
                   className={`cursor-pointer transition-colors ${selectedTicket?.id === ticket.id ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}
-                  onClick={() => setSelectedTicket(ticket)}
+                  onClick={() => {
+                    setSelectedTicket(ticket);
+                    setAgentInput(ticket.assignedAgent || '');
+                  }}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start justify-between mb-2">
@@ -279,6 +366,7 @@ export default function SupportManagementDashboard() {
                         <Badge className={`${getStatusColor(ticket.status)} text-white text-xs`}>
                           {ticket.status}
                         </Badge>
+                        <SlaBadge ticket={ticket} />
                       </div>
                       <span className="text-xs text-gray-500">
                         {formatDistanceToNow(new Date(ticket.createdAt))} ago
@@ -288,7 +376,7 @@ export default function SupportManagementDashboard() {
                     <p className="text-sm text-gray-600 mb-2 line-clamp-2">{ticket.description}</p>
                     <div className="flex items-center justify-between text-xs text-gray-500">
                       <span>{ticket.userName}</span>
-                      <span>{ticket.category}</span>
+                      <span>{ticket.orderId ? `Order #${ticket.orderId}` : ticket.category}</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -305,13 +393,42 @@ export default function SupportManagementDashboard() {
                         <p className="text-sm text-gray-600 mt-1">
                           From: {selectedTicket.userName} ({selectedTicket.userEmail})
                         </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {selectedTicket.id} · {selectedTicket.category}
+                          {selectedTicket.orderId && ` · Order #${selectedTicket.orderId}`}
+                        </p>
+                        {selectedTicket.sla && isTicketOpen(selectedTicket) && (
+                          <p className="text-xs text-gray-500 mt-1 flex items-center gap-2">
+                            <SlaBadge ticket={selectedTicket} />
+                            {selectedTicket.sla.firstRespondedAt
+                              ? `Resolve by ${new Date(selectedTicket.sla.resolutionDueAt).toLocaleString()}`
+                              : `First response due ${new Date(selectedTicket.sla.firstResponseDueAt).toLocaleString()}`}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
+                        <Select
+                          value={selectedTicket.priority}
+                          onValueChange={(value) => updateTicketMutation.mutate({
+                            ticketId: selectedTicket.id,
+                            updates: { priority: value as SupportTicket['priority'] }
+                          })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="low">Low</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="high">High</SelectItem>
+                            <SelectItem value="urgent">Urgent</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <Select 
                           value={selectedTicket.status} 
                           onValueChange={(value) => updateTicketMutation.mutate({ 
                             ticketId: selectedTicket.id, 
-                            updates: { status: value as any }
+                            updates: { status: value as SupportTicket['status'] }
                           })}
                         >
                           <SelectTrigger className="w-40">
@@ -325,14 +442,52 @@ export default function SupportManagementDashboard() {
                             <SelectItem value="closed">Closed</SelectItem>
                           </SelectContent>
                         </Select>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          aria-label="Delete ticket"
+                          onClick={() => {
+                            if (confirm(`Permanently delete ${selectedTicket.id} and its attachments?`)) {
+                              purgeTicketMutation.mutate(selectedTicket.id);
+                            }
+                          }}
+                          disabled={purgeTicketMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
                     </div>
                   </CardHeader>
                   
                   <CardContent className="space-y-4">
+                    {/* Assignment */}
+                    <div className="flex items-end space-x-2">
+                      <div className="flex-1">
+                        <Label htmlFor="assigned-agent" className="text-xs">Assigned agent</Label>
+                        <Input
+                          id="assigned-agent"
+                          placeholder="agent@fusionforgepcs.com"
+                          value={agentInput}
+                          onChange={(e) => setAgentInput(e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => updateTicketMutation.mutate({
+                          ticketId: selectedTicket.id,
+                          updates: { assignedAgent: agentInput.trim() }
+                        })}
+                        disabled={!agentInput.trim() || agentInput.trim() === selectedTicket.assignedAgent || updateTicketMutation.isPending}
+                      >
+                        <User className="h-4 w-4 mr-2" />
+                        Assign
+                      </Button>
+                    </div>
+
                     {/* Original ticket description */}
                     <div className="p-3 bg-gray-50 rounded-lg">
                       <p className="text-sm">{selectedTicket.description}</p>
+                      <TicketAttachmentList attachments={selectedTicket.attachments} getDownloadUrl={adminAttachmentUrl} />
                       <p className="text-xs text-gray-500 mt-2">
                         {formatDistanceToNow(new Date(selectedTicket.createdAt))} ago
                       </p>
@@ -342,15 +497,26 @@ export default function SupportManagementDashboard() {
                     <div className="space-y-3 max-h-64 overflow-y-auto">
                       {selectedTicket.responses.map((response) => (
                         <div key={response.id} className={`p-3 rounded-lg ${
-                          response.authorType === 'admin' ? 'bg-blue-50 ml-4' : 'bg-gray-50 mr-4'
+                          response.isInternal
+                            ? 'bg-yellow-50 border border-dashed border-yellow-300 ml-4'
+                            : response.authorType === 'admin' ? 'bg-blue-50 ml-4' : 'bg-gray-50 mr-4'
                         }`}>
                           <div className="flex items-center justify-between mb-1">
-                            <span className="text-sm font-medium">{response.authorName}</span>
+                            <span className="text-sm font-medium">
+                              {response.authorName}
+                              {response.isInternal && (
+                                <Badge variant="outline" className="ml-2 text-xs">Internal note</Badge>
+                              )}
+                              {response.sourceMessageId && (
+                                <Badge variant="outline" className="ml-2 text-xs">Via email</Badge>
+                              )}
+                            </span>
                             <span className="text-xs text-gray-500">
                               {formatDistanceToNow(new Date(response.timestamp))} ago
                             </span>
                           </div>
                           <p className="text-sm">{response.message}</p>
+                          <TicketAttachmentList attachments={response.attachments} getDownloadUrl={adminAttachmentUrl} />
                         </div>
                       ))}
                     </div>
@@ -358,26 +524,74 @@ export default function SupportManagementDashboard() {
                     {/* Response input */}
                     <div className="space-y-3 pt-3 border-t">
                       <Textarea
-                        placeholder="Type your response..."
+                        placeholder={isInternalNote ? 'Add a note for other agents...' : 'Type your response...'}
                         value={newResponse}
                         onChange={(e) => setNewResponse(e.target.value)}
                         className="min-h-20"
                       />
+                      {responseFiles.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {responseFiles.map((file, index) => (
+                            <span key={`${file.name}-${index}`} className="flex items-center gap-1 text-xs px-2 py-1 rounded border bg-gray-50">
+                              {file.name} ({formatFileSize(file.size)})
+                              <button
+                                type="button"
+                                aria-label={`Remove ${file.name}`}
+                                onClick={() => setResponseFiles(responseFiles.filter((_, i) => i !== index))}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex justify-between items-center">
-                        <Button variant="outline" size="sm">
-                          <Paperclip className="h-4 w-4 mr-2" />
-                          Attach File
-                        </Button>
-                        <Button 
-                          onClick={() => addResponseMutation.mutate({ 
-                            ticketId: selectedTicket.id, 
-                            message: newResponse 
-                          })}
-                          disabled={!newResponse.trim() || addResponseMutation.isPending}
-                        >
-                          <Send className="h-4 w-4 mr-2" />
-                          Send Response
-                        </Button>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            accept="image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain"
+                            className="hidden"
+                            onChange={(e) => {
+                              setResponseFiles([...responseFiles, ...Array.from(e.target.files || [])]);
+                              e.target.value = '';
+                            }}
+                          />
+                          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                            <Paperclip className="h-4 w-4 mr-2" />
+                            Attach File
+                          </Button>
+                          <Switch id="internal-note" checked={isInternalNote} onCheckedChange={setIsInternalNote} />
+                          <Label htmlFor="internal-note" className="text-sm">Internal note</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {!isInternalNote && selectedTicket.status !== 'resolved' && selectedTicket.status !== 'closed' && (
+                            <Button
+                              variant="outline"
+                              onClick={() => resolveTicketMutation.mutate({
+                                ticketId: selectedTicket.id,
+                                message: newResponse
+                              })}
+                              disabled={!newResponse.trim() || resolveTicketMutation.isPending}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Resolve
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => addResponseMutation.mutate({
+                              ticketId: selectedTicket.id,
+                              message: newResponse,
+                              isInternal: isInternalNote,
+                              files: responseFiles
+                            })}
+                            disabled={(!newResponse.trim() && responseFiles.length === 0) || addResponseMutation.isPending}
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            {isInternalNote ? 'Add Note' : 'Send Response'}
+                          </Button>
+                        </div>
                       </div>
                     </div>
                   </CardContent>
@@ -388,120 +602,11 @@ export default function SupportManagementDashboard() {
         </TabsContent>
 
         <TabsContent value="chat" className="space-y-4">
-          <div className="flex items-center space-x-4">
-            <Select value={chatFilter} onValueChange={setChatFilter}>
-              <SelectTrigger className="w-48">
-                <SelectValue placeholder="Filter by status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Chats</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="waiting">Waiting</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            <div className="lg:col-span-1 space-y-3">
-              {filteredChats.map((chat) => (
-                <Card 
-                  key={chat.id} 
-                  className={`cursor-pointer transition-colors ${selectedChat?.id === chat.id ? 'border-green-500 bg-green-50' : 'hover:bg-gray-50'}`}
-                  onClick={() => setSelectedChat(chat)}
-                >
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between mb-2">
-                      <Badge className={`${chat.status === 'active' ? 'bg-green-500' : 'bg-gray-500'} text-white text-xs`}>
-                        {chat.status}
-                      </Badge>
-                      <span className="text-xs text-gray-500">
-                        {formatDistanceToNow(new Date(chat.lastActivity))} ago
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2 mb-2">
-                      <User className="h-4 w-4 text-gray-500" />
-                      <span className="font-medium text-sm">{chat.userName}</span>
-                    </div>
-                    <p className="text-sm text-gray-600 line-clamp-2">
-                      {chat.messages[chat.messages.length - 1]?.message || 'No messages'}
-                    </p>
-                    <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
-                      <span>{chat.messages.length} messages</span>
-                      <span>{chat.assignedAgent || 'Unassigned'}</span>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-
-            {selectedChat && (
-              <div className="lg:col-span-2">
-                <Card>
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <CardTitle className="text-lg">Chat with {selectedChat.userName}</CardTitle>
-                        <p className="text-sm text-gray-600">{selectedChat.userEmail}</p>
-                      </div>
-                      <Badge className={`${selectedChat.status === 'active' ? 'bg-green-500' : 'bg-gray-500'} text-white`}>
-                        {selectedChat.status}
-                      </Badge>
-                    </div>
-                  </CardHeader>
-
-                  <CardContent className="space-y-4">
-                    {/* Chat messages */}
-                    <div className="space-y-2 max-h-80 overflow-y-auto">
-                      {selectedChat.messages.map((message) => (
-                        <div key={message.id} className={`flex ${message.senderType === 'admin' ? 'justify-end' : 'justify-start'}`}>
-                          <div className={`max-w-xs p-3 rounded-lg ${
-                            message.senderType === 'admin' 
-                              ? 'bg-blue-500 text-white' 
-                              : 'bg-gray-100 text-gray-900'
-                          }`}>
-                            <p className="text-sm">{message.message}</p>
-                            <p className={`text-xs mt-1 ${
-                              message.senderType === 'admin' ? 'text-blue-200' : 'text-gray-500'
-                            }`}>
-                              {formatDistanceToNow(new Date(message.timestamp))} ago
-                            </p>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+          <LiveChatConsole />
+        </TabsContent>
 
-                    {/* Message input */}
-                    <div className="flex items-center space-x-2 pt-3 border-t">
-                      <Input
-                        placeholder="Type your message..."
-                        value={newChatMessage}
-                        onChange={(e) => setNewChatMessage(e.target.value)}
-                        onKeyPress={(e) => {
-                          if (e.key === 'Enter' && newChatMessage.trim()) {
-                            sendChatMessageMutation.mutate({
-                              chatId: selectedChat.id,
-                              message: newChatMessage
-                            });
-                          }
-                        }}
-                        className="flex-1"
-                      />
-                      <Button 
-                        onClick={() => sendChatMessageMutation.mutate({
-                          chatId: selectedChat.id,
-                          message: newChatMessage
-                        })}
-                        disabled={!newChatMessage.trim() || sendChatMessageMutation.isPending}
-                      >
-                        <Send className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
-            )}
-          </div>
+        <TabsContent value="transcripts" className="space-y-4">
+          <ChatTranscriptViewer />
         </TabsContent>
       </Tabs>
     </div>
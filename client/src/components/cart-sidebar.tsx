@@ -77,7 +77,7 @@ export default function CartSidebar() {
                       <h3 className="font-medium text-sm">{item.build.name}</h3>
                       <p className="text-xs text-gray-500 mb-2">{item.build.category}</p>
                       <p className="font-semibold text-sm">
-                        {formatPrice(item.build.basePrice.toString())}
+                        {formatPrice(item.build.totalPrice.toString())}
                       </p>
                     </div>
                   </div>
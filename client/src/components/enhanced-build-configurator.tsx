@@ -15,23 +15,19 @@ import {
 } from "lucide-react";
 import { formatPrice } from "@/lib/utils";
 import { Link } from "wouter";
-
-interface Component {
-  id: string;
-  name: string;
-  price: number;
-  performance: number;
-  powerConsumption: number;
-  socket?: string;
-  memoryType?: string;
-  formFactor?: string;
-  category: string;
-  cores?: number;
-  clockSpeed?: number;
-  vram?: number;
-  capacity?: number;
-  speed?: number;
-  wattage?: number;
+import { useQuery } from "@tanstack/react-query";
+import { CATALOG_CATEGORIES } from "@shared/schema";
+import type { CatalogCategory, CatalogComponent } from "@shared/schema";
+import { checkBuildCompatibility, type CompatibilityCheck } from "@shared/compatibility";
+
+type Component = CatalogComponent;
+
+function groupByCategory(catalog: CatalogComponent[]): Record<CatalogCategory, Component[]> {
+  const grouped = Object.fromEntries(CATALOG_CATEGORIES.map(category => [category, [] as Component[]]));
+  for (const component of catalog) {
+    grouped[component.category]?.push(component);
+  }
+  return grouped as Record<CatalogCategory, Component[]>;
 }
 
 interface BuildConfig {
@@ -45,17 +41,6 @@ interface BuildConfig {
   cooler: Component | null;
 }
 
-interface CompatibilityCheck {
-  issues: Array<{type: 'error' | 'warning' | 'info', message: string}>;
-  overallCompatible: boolean;
-  compatibilityScore: number;
-  assessmentLevel?: string;
-  hasErrors?: boolean;
-  warningCount?: number;
-  infoCount?: number;
-  totalIssues?: number;
-}
-
 interface PerformancePrediction {
   gamingScore: number;
   productivityScore: number;
@@ -85,570 +70,25 @@ export default function EnhancedBuildConfigurator() {
     cooler: null,
   });
 
-  // Comprehensive component database with real market data
-  const components = {
-    cpu: [
-      // Budget CPUs
-      { 
-        id: "1", name: "AMD Ryzen 5 4500", price: 8999, performance: 70, powerConsumption: 65, 
-        socket: "AM4", category: "cpu", cores: 6, clockSpeed: 3.6, tier: "budget" 
-      },
-      { 
-        id: "2", name: "Intel Core i3-12100F", price: 9999, performance: 72, powerConsumption: 60, 
-        socket: "LGA1700", category: "cpu", cores: 4, clockSpeed: 3.3, tier: "budget" 
-      },
-      // Mid-range CPUs
-      { 
-        id: "3", name: "AMD Ryzen 5 5600X", price: 18999, performance: 85, powerConsumption: 65, 
-        socket: "AM4", category: "cpu", cores: 6, clockSpeed: 3.7, tier: "mid-range" 
-      },
-      { 
-        id: "4", name: "Intel Core i5-12600KF", price: 22999, performance: 87, powerConsumption: 125, 
-        socket: "LGA1700", category: "cpu", cores: 10, clockSpeed: 3.7, tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "AMD Ryzen 7 5700X", price: 25999, performance: 90, powerConsumption: 65, 
-        socket: "AM4", category: "cpu", cores: 8, clockSpeed: 3.4, tier: "mid-range" 
-      },
-      // High-end CPUs
-      { 
-        id: "6", name: "Intel Core i7-12700KF", price: 32999, performance: 92, powerConsumption: 125, 
-        socket: "LGA1700", category: "cpu", cores: 12, clockSpeed: 3.6, tier: "high-end" 
-      },
-      { 
-        id: "7", name: "AMD Ryzen 9 5900X", price: 42999, performance: 95, powerConsumption: 105, 
-        socket: "AM4", category: "cpu", cores: 12, clockSpeed: 3.7, tier: "high-end" 
-      },
-      { 
-        id: "8", name: "Intel Core i9-12900KF", price: 48999, performance: 98, powerConsumption: 125, 
-        socket: "LGA1700", category: "cpu", cores: 16, clockSpeed: 3.2, tier: "enthusiast" 
-      },
-      { 
-        id: "9", name: "AMD Ryzen 9 5950X", price: 58999, performance: 100, powerConsumption: 105, 
-        socket: "AM4", category: "cpu", cores: 16, clockSpeed: 3.4, tier: "enthusiast" 
-      },
-    ],
-    gpu: [
-      // Budget GPUs
-      { 
-        id: "1", name: "GTX 1660 Super 6GB", price: 16999, performance: 65, powerConsumption: 125, 
-        category: "gpu", vram: 6, tier: "budget" 
-      },
-      { 
-        id: "2", name: "RTX 3050 8GB", price: 22999, performance: 68, powerConsumption: 130, 
-        category: "gpu", vram: 8, tier: "budget" 
-      },
-      { 
-        id: "3", name: "RTX 4060 8GB", price: 26999, performance: 72, powerConsumption: 115, 
-        category: "gpu", vram: 8, tier: "budget" 
-      },
-      // Mid-range GPUs
-      { 
-        id: "4", name: "RTX 3060 12GB", price: 28999, performance: 75, powerConsumption: 170, 
-        category: "gpu", vram: 12, tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "RTX 3060 Ti 8GB", price: 35999, performance: 80, powerConsumption: 200, 
-        category: "gpu", vram: 8, tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "RTX 4060 Ti 16GB", price: 42999, performance: 85, powerConsumption: 165, 
-        category: "gpu", vram: 16, tier: "mid-range" 
-      },
-      // High-end GPUs
-      { 
-        id: "7", name: "RTX 4070 12GB", price: 52999, performance: 88, powerConsumption: 200, 
-        category: "gpu", vram: 12, tier: "high-end" 
-      },
-      { 
-        id: "8", name: "RTX 4070 Ti Super 16GB", price: 68999, performance: 92, powerConsumption: 285, 
-        category: "gpu", vram: 16, tier: "high-end" 
-      },
-      { 
-        id: "9", name: "RTX 4080 16GB", price: 89999, performance: 95, powerConsumption: 320, 
-        category: "gpu", vram: 16, tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "RTX 4090 24GB", price: 159999, performance: 100, powerConsumption: 450, 
-        category: "gpu", vram: 24, tier: "enthusiast" 
-      },
-    ],
-    ram: [
-      // Budget RAM
-      { 
-        id: "1", name: "8GB DDR4-2666", price: 2499, performance: 60, powerConsumption: 8, 
-        memoryType: "DDR4", category: "ram", capacity: 8, speed: 2666, tier: "budget" 
-      },
-      { 
-        id: "2", name: "16GB DDR4-3200", price: 4999, performance: 70, powerConsumption: 10, 
-        memoryType: "DDR4", category: "ram", capacity: 16, speed: 3200, tier: "budget" 
-      },
-      // Mid-range RAM
-      { 
-        id: "3", name: "16GB DDR4-3600", price: 5999, performance: 75, powerConsumption: 11, 
-        memoryType: "DDR4", category: "ram", capacity: 16, speed: 3600, tier: "mid-range" 
-      },
-      { 
-        id: "4", name: "32GB DDR4-3600", price: 8999, performance: 80, powerConsumption: 15, 
-        memoryType: "DDR4", category: "ram", capacity: 32, speed: 3600, tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "16GB DDR5-5600", price: 7999, performance: 85, powerConsumption: 12, 
-        memoryType: "DDR5", category: "ram", capacity: 16, speed: 5600, tier: "mid-range" 
-      },
-      // High-end RAM
-      { 
-        id: "6", name: "32GB DDR5-5600", price: 14999, performance: 90, powerConsumption: 18, 
-        memoryType: "DDR5", category: "ram", capacity: 32, speed: 5600, tier: "high-end" 
-      },
-      { 
-        id: "7", name: "32GB DDR5-6000", price: 18999, performance: 92, powerConsumption: 20, 
-        memoryType: "DDR5", category: "ram", capacity: 32, speed: 6000, tier: "high-end" 
-      },
-      { 
-        id: "8", name: "64GB DDR5-6000", price: 28999, performance: 95, powerConsumption: 25, 
-        memoryType: "DDR5", category: "ram", capacity: 64, speed: 6000, tier: "enthusiast" 
-      },
-      { 
-        id: "9", name: "128GB DDR5-5600", price: 55999, performance: 100, powerConsumption: 35, 
-        memoryType: "DDR5", category: "ram", capacity: 128, speed: 5600, tier: "enthusiast" 
-      },
-    ],
-    storage: [
-      // Budget Storage
-      { 
-        id: "1", name: "500GB SATA SSD", price: 3299, performance: 65, powerConsumption: 3, 
-        category: "storage", capacity: 500, type: "SATA", tier: "budget" 
-      },
-      { 
-        id: "2", name: "1TB HDD 7200RPM", price: 3999, performance: 50, powerConsumption: 8, 
-        category: "storage", capacity: 1000, type: "HDD", tier: "budget" 
-      },
-      { 
-        id: "3", name: "500GB NVMe Gen3", price: 4299, performance: 75, powerConsumption: 5, 
-        category: "storage", capacity: 500, type: "NVMe Gen3", tier: "budget" 
-      },
-      // Mid-range Storage
-      { 
-        id: "4", name: "1TB NVMe Gen3", price: 7499, performance: 80, powerConsumption: 6, 
-        category: "storage", capacity: 1000, type: "NVMe Gen3", tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "2TB SATA SSD", price: 12999, performance: 70, powerConsumption: 5, 
-        category: "storage", capacity: 2000, type: "SATA", tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "1TB NVMe Gen4", price: 9999, performance: 90, powerConsumption: 8, 
-        category: "storage", capacity: 1000, type: "NVMe Gen4", tier: "mid-range" 
-      },
-      // High-end Storage
-      { 
-        id: "7", name: "2TB NVMe Gen3", price: 14999, performance: 85, powerConsumption: 7, 
-        category: "storage", capacity: 2000, type: "NVMe Gen3", tier: "high-end" 
-      },
-      { 
-        id: "8", name: "2TB NVMe Gen4", price: 18999, performance: 95, powerConsumption: 9, 
-        category: "storage", capacity: 2000, type: "NVMe Gen4", tier: "high-end" 
-      },
-      { 
-        id: "9", name: "4TB NVMe Gen4", price: 35999, performance: 98, powerConsumption: 12, 
-        category: "storage", capacity: 4000, type: "NVMe Gen4", tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "8TB NVMe Gen4", price: 68999, performance: 100, powerConsumption: 15, 
-        category: "storage", capacity: 8000, type: "NVMe Gen4", tier: "enthusiast" 
-      },
-    ],
-    motherboard: [
-      // Budget Motherboards
-      { 
-        id: "1", name: "A520M-K", price: 4999, performance: 65, powerConsumption: 12, 
-        socket: "AM4", memoryType: "DDR4", formFactor: "mATX", category: "motherboard", tier: "budget" 
-      },
-      { 
-        id: "2", name: "B450M Pro4", price: 5999, performance: 70, powerConsumption: 15, 
-        socket: "AM4", memoryType: "DDR4", formFactor: "mATX", category: "motherboard", tier: "budget" 
-      },
-      { 
-        id: "3", name: "H610M-K", price: 6999, performance: 68, powerConsumption: 14, 
-        socket: "LGA1700", memoryType: "DDR4", formFactor: "mATX", category: "motherboard", tier: "budget" 
-      },
-      // Mid-range Motherboards
-      { 
-        id: "4", name: "B550 Gaming", price: 8999, performance: 80, powerConsumption: 18, 
-        socket: "AM4", memoryType: "DDR4", formFactor: "ATX", category: "motherboard", tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "B660 Gaming WiFi", price: 11999, performance: 82, powerConsumption: 20, 
-        socket: "LGA1700", memoryType: "DDR4", formFactor: "ATX", category: "motherboard", tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "X570 Gaming", price: 12999, performance: 85, powerConsumption: 25, 
-        socket: "AM4", memoryType: "DDR4", formFactor: "ATX", category: "motherboard", tier: "mid-range" 
-      },
-      // High-end Motherboards
-      { 
-        id: "7", name: "B650 Gaming WiFi", price: 15999, performance: 88, powerConsumption: 20, 
-        socket: "AM5", memoryType: "DDR5", formFactor: "ATX", category: "motherboard", tier: "high-end" 
-      },
-      { 
-        id: "8", name: "Z790 Gaming", price: 18999, performance: 90, powerConsumption: 22, 
-        socket: "LGA1700", memoryType: "DDR5", formFactor: "ATX", category: "motherboard", tier: "high-end" 
-      },
-      { 
-        id: "9", name: "X670E Gaming", price: 25999, performance: 95, powerConsumption: 28, 
-        socket: "AM5", memoryType: "DDR5", formFactor: "ATX", category: "motherboard", tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "Z790 Extreme", price: 35999, performance: 98, powerConsumption: 32, 
-        socket: "LGA1700", memoryType: "DDR5", formFactor: "ATX", category: "motherboard", tier: "enthusiast" 
-      },
-    ],
-    psu: [
-      // Budget PSUs
-      { 
-        id: "1", name: "450W 80+ White", price: 2999, performance: 60, powerConsumption: 0, 
-        category: "psu", wattage: 450, efficiency: "80+", tier: "budget" 
-      },
-      { 
-        id: "2", name: "550W 80+ Bronze", price: 3999, performance: 70, powerConsumption: 0, 
-        category: "psu", wattage: 550, efficiency: "80+ Bronze", tier: "budget" 
-      },
-      { 
-        id: "3", name: "650W 80+ Bronze", price: 4999, performance: 75, powerConsumption: 0, 
-        category: "psu", wattage: 650, efficiency: "80+ Bronze", tier: "budget" 
-      },
-      // Mid-range PSUs
-      { 
-        id: "4", name: "650W 80+ Gold", price: 6999, performance: 80, powerConsumption: 0, 
-        category: "psu", wattage: 650, efficiency: "80+ Gold", tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "750W 80+ Gold", price: 8999, performance: 85, powerConsumption: 0, 
-        category: "psu", wattage: 750, efficiency: "80+ Gold", tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "850W 80+ Gold", price: 12999, performance: 90, powerConsumption: 0, 
-        category: "psu", wattage: 850, efficiency: "80+ Gold", tier: "mid-range" 
-      },
-      // High-end PSUs
-      { 
-        id: "7", name: "1000W 80+ Gold", price: 16999, performance: 92, powerConsumption: 0, 
-        category: "psu", wattage: 1000, efficiency: "80+ Gold", tier: "high-end" 
-      },
-      { 
-        id: "8", name: "1000W 80+ Platinum", price: 18999, performance: 95, powerConsumption: 0, 
-        category: "psu", wattage: 1000, efficiency: "80+ Platinum", tier: "high-end" 
-      },
-      { 
-        id: "9", name: "1200W 80+ Titanium", price: 28999, performance: 98, powerConsumption: 0, 
-        category: "psu", wattage: 1200, efficiency: "80+ Titanium", tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "1600W 80+ Titanium", price: 45999, performance: 100, powerConsumption: 0, 
-        category: "psu", wattage: 1600, efficiency: "80+ Titanium", tier: "enthusiast" 
-      },
-    ],
-    case: [
-      // Budget Cases
-      { 
-        id: "1", name: "Basic mATX Case", price: 1999, performance: 60, powerConsumption: 0, 
-        formFactor: "mATX", category: "case", airflow: "Basic", tier: "budget" 
-      },
-      { 
-        id: "2", name: "Mid Tower Basic", price: 2999, performance: 70, powerConsumption: 0, 
-        formFactor: "ATX", category: "case", airflow: "Good", tier: "budget" 
-      },
-      { 
-        id: "3", name: "Budget RGB Case", price: 3999, performance: 72, powerConsumption: 3, 
-        formFactor: "ATX", category: "case", airflow: "Good", tier: "budget" 
-      },
-      // Mid-range Cases
-      { 
-        id: "4", name: "Mid Tower Gaming", price: 4999, performance: 80, powerConsumption: 5, 
-        formFactor: "ATX", category: "case", airflow: "Excellent", tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "RGB Gaming Tower", price: 6999, performance: 82, powerConsumption: 8, 
-        formFactor: "ATX", category: "case", airflow: "Excellent", tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "Mesh Front Panel", price: 7999, performance: 85, powerConsumption: 10, 
-        formFactor: "ATX", category: "case", airflow: "Excellent", tier: "mid-range" 
-      },
-      // High-end Cases
-      { 
-        id: "7", name: "Premium Tower", price: 12999, performance: 90, powerConsumption: 15, 
-        formFactor: "ATX", category: "case", airflow: "Exceptional", tier: "high-end" 
-      },
-      { 
-        id: "8", name: "Full Tower Gaming", price: 15999, performance: 92, powerConsumption: 18, 
-        formFactor: "E-ATX", category: "case", airflow: "Exceptional", tier: "high-end" 
-      },
-      { 
-        id: "9", name: "Custom Loop Ready", price: 18999, performance: 95, powerConsumption: 20, 
-        formFactor: "E-ATX", category: "case", airflow: "Exceptional", tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "Show Case Glass", price: 25999, performance: 98, powerConsumption: 25, 
-        formFactor: "E-ATX", category: "case", airflow: "Exceptional", tier: "enthusiast" 
-      },
-    ],
-    cooler: [
-      // Budget Coolers
-      { 
-        id: "1", name: "Stock Cooler", price: 0, performance: 60, powerConsumption: 5, 
-        category: "cooler", type: "Stock", maxTDP: 65, tier: "budget" 
-      },
-      { 
-        id: "2", name: "Basic Tower Cooler", price: 1999, performance: 70, powerConsumption: 3, 
-        category: "cooler", type: "Air", maxTDP: 95, tier: "budget" 
-      },
-      { 
-        id: "3", name: "RGB Tower Cooler", price: 2999, performance: 75, powerConsumption: 8, 
-        category: "cooler", type: "Air", maxTDP: 120, tier: "budget" 
-      },
-      // Mid-range Coolers
-      { 
-        id: "4", name: "Dual Tower Cooler", price: 4999, performance: 80, powerConsumption: 10, 
-        category: "cooler", type: "Air", maxTDP: 150, tier: "mid-range" 
-      },
-      { 
-        id: "5", name: "High-End Air Cooler", price: 5999, performance: 85, powerConsumption: 10, 
-        category: "cooler", type: "Air", maxTDP: 180, tier: "mid-range" 
-      },
-      { 
-        id: "6", name: "120mm AIO", price: 6999, performance: 82, powerConsumption: 12, 
-        category: "cooler", type: "AIO", maxTDP: 150, tier: "mid-range" 
-      },
-      // High-end Coolers
-      { 
-        id: "7", name: "240mm AIO", price: 8999, performance: 90, powerConsumption: 15, 
-        category: "cooler", type: "AIO", maxTDP: 200, tier: "high-end" 
-      },
-      { 
-        id: "8", name: "280mm AIO", price: 12999, performance: 92, powerConsumption: 18, 
-        category: "cooler", type: "AIO", maxTDP: 220, tier: "high-end" 
-      },
-      { 
-        id: "9", name: "360mm AIO", price: 15999, performance: 95, powerConsumption: 20, 
-        category: "cooler", type: "AIO", maxTDP: 250, tier: "enthusiast" 
-      },
-      { 
-        id: "10", name: "Custom Loop", price: 35999, performance: 100, powerConsumption: 25, 
-        category: "cooler", type: "Custom", maxTDP: 350, tier: "enthusiast" 
-      },
-    ],
-  };
-
-  // Enhanced compatibility checking
-  const checkCompatibility = useMemo((): CompatibilityCheck => {
-    const issues: Array<{type: 'error' | 'warning' | 'info', message: string}> = [];
-    let compatibilityScore = 100;
-
-    // CPU-Motherboard compatibility
-    if (config.cpu && config.motherboard) {
-      if (config.cpu.socket !== config.motherboard.socket) {
-        issues.push({
-          type: "error",
-          message: `CPU socket (${config.cpu.socket}) incompatible with motherboard socket (${config.motherboard.socket})`
-        });
-        compatibilityScore -= 30;
-      }
-    }
-
-    // RAM-Motherboard compatibility
-    if (config.ram && config.motherboard) {
-      if (config.ram.memoryType !== config.motherboard.memoryType) {
-        issues.push({
-          type: "error",
-          message: `RAM type (${config.ram.memoryType}) incompatible with motherboard (${config.motherboard.memoryType})`
-        });
-        compatibilityScore -= 25;
-      }
-    }
-
-    // Power supply validation
-    const totalPower = Object.values(config).reduce((sum, component) => 
-      sum + (component?.powerConsumption || 0), 0
-    );
-    
-    if (config.psu) {
-      const psuWattage = config.psu.wattage || 0;
-      const recommendedWattage = totalPower * 1.3;
-      
-      if (psuWattage < totalPower) {
-        issues.push({
-          type: "error",
-          message: `PSU (${psuWattage}W) insufficient for system power draw (${totalPower}W)`
-        });
-        compatibilityScore -= 40;
-      } else if (psuWattage < recommendedWattage) {
-        issues.push({
-          type: "warning",
-          message: `PSU has minimal headroom. Recommend ${Math.ceil(recommendedWattage)}W+ for optimal efficiency`
-        });
-        compatibilityScore -= 10;
-      }
-    }
-
-    // Performance bottleneck detection
-    if (config.cpu && config.gpu) {
-      const cpuPerf = config.cpu.performance;
-      const gpuPerf = config.gpu.performance;
-      const perfDiff = Math.abs(cpuPerf - gpuPerf);
-      
-      if (perfDiff > 20) {
-        if (cpuPerf > gpuPerf) {
-          issues.push({
-            type: "warning",
-            message: `CPU significantly outperforms GPU - consider upgrading GPU for balanced performance`
-          });
-        } else {
-          issues.push({
-            type: "warning",
-            message: `GPU significantly outperforms CPU - potential CPU bottleneck in demanding games`
-          });
-        }
-        compatibilityScore -= 10;
-      }
-    }
-
-    // Case size validation
-    if (config.case && config.motherboard) {
-      if (config.motherboard.formFactor === "ATX" && config.case.formFactor === "mATX") {
-        issues.push({
-          type: "error",
-          message: "ATX motherboard won't fit in Micro ATX case"
-        });
-        compatibilityScore -= 20;
-      }
-    }
-
-    // RAM capacity recommendations
-    if (config.ram && config.gpu) {
-      const ramCapacity = config.ram.capacity || 0;
-      const gpuVram = config.gpu.vram || 0;
-      
-      if (ramCapacity < 16 && gpuVram >= 12) {
-        issues.push({
-          type: "warning",
-          message: "High-end GPU with less than 16GB RAM may cause performance issues"
-        });
-        compatibilityScore -= 5;
-      }
-    }
-
-    // Enhanced cooling adequacy checks
-    if (config.cpu && config.cooler) {
-      const cpuTDP = config.cpu.powerConsumption;
-      const coolerTDP = (config.cooler as any).maxTDP || 0;
-      const coolerPerf = config.cooler.performance;
-      
-      if (coolerTDP > 0 && coolerTDP < cpuTDP) {
-        issues.push({
-          type: "warning",
-          message: `Cooler rated for ${coolerTDP}W, but CPU generates ${cpuTDP}W - thermal throttling possible`
-        });
-        compatibilityScore -= 15;
-      } else if (cpuTDP > 100 && coolerPerf < 80) {
-        issues.push({
-          type: "warning",
-          message: "High-TDP CPU may require better cooling solution for sustained performance"
-        });
-        compatibilityScore -= 8;
-      } else if (coolerTDP === 0 && cpuTDP > 65) {
-        issues.push({
-          type: "info",
-          message: "Stock cooler adequate for basic use, upgrade recommended for overclocking"
-        });
-        compatibilityScore -= 3;
-      }
-    }
-
-    // Use case specific recommendations
-    if (config.ram) {
-      const ramCapacity = config.ram.capacity || 0;
-      if (useCase === 'content-creation' && ramCapacity > 0 && ramCapacity < 32) {
-        issues.push({
-          type: "info",
-          message: `Content creation benefits from 32GB+ RAM (current: ${ramCapacity}GB)`
-        });
-        compatibilityScore -= 3;
-      } else if (useCase === 'ai-ml' && ramCapacity > 0 && ramCapacity < 64) {
-        issues.push({
-          type: "warning",
-          message: `AI/ML workloads often require 64GB+ RAM (current: ${ramCapacity}GB)`
-        });
-        compatibilityScore -= 8;
-      } else if (useCase === 'workstation' && ramCapacity > 0 && ramCapacity < 32) {
-        issues.push({
-          type: "info",
-          message: `Workstation use typically benefits from 32GB+ RAM (current: ${ramCapacity}GB)`
-        });
-        compatibilityScore -= 2;
-      }
-    }
-
-    // Storage type recommendations
-    if (config.storage) {
-      const storageType = (config.storage as any).type;
-      if (storageType === 'HDD' && (useCase === 'gaming' || useCase === 'content-creation')) {
-        issues.push({
-          type: "info",
-          message: `SSD recommended for faster ${useCase} performance and shorter load times`
-        });
-        compatibilityScore -= 2;
-      }
-    }
-
-    // High-end component balance checks
-    if (config.cpu && config.motherboard) {
-      const cpuTier = (config.cpu as any).tier;
-      const mbTier = (config.motherboard as any).tier;
-      
-      if (cpuTier === 'enthusiast' && mbTier === 'budget') {
-        issues.push({
-          type: "warning",
-          message: "High-end CPU with budget motherboard may limit overclocking potential"
-        });
-        compatibilityScore -= 5;
-      }
-    }
+  // Parts come from the managed catalog; stock is polled so availability stays current
+  const { data: catalog = [], isLoading: catalogLoading } = useQuery<CatalogComponent[]>({
+    queryKey: ['/api/catalog'],
+    refetchInterval: 30000,
+  });
 
-    // PSU efficiency for high-power systems
-    if (config.psu && totalPower > 400) {
-      const psuEfficiency = (config.psu as any).efficiency || "";
-      if (!psuEfficiency.includes('Gold')) {
-        issues.push({
-          type: "info",
-          message: "High-power system benefits from 80+ Gold or better PSU efficiency"
-        });
-        compatibilityScore -= 2;
-      }
-    }
+  const components = useMemo(() => groupByCategory(catalog), [catalog]);
 
-    // Final compatibility assessment
-    const errorCount = issues.filter(i => i.type === 'error').length;
-    const warningCount = issues.filter(i => i.type === 'warning').length;
-    const infoCount = issues.filter(i => i.type === 'info').length;
-    
-    let assessmentLevel = "Excellent";
-    if (compatibilityScore < 70) assessmentLevel = "Poor";
-    else if (compatibilityScore < 80) assessmentLevel = "Fair";
-    else if (compatibilityScore < 90) assessmentLevel = "Good";
+  // The optimizer only picks parts that can actually ship
+  const availableComponents = useMemo(
+    () => groupByCategory(catalog.filter(component => component.stockQuantity > 0)),
+    [catalog]
+  );
 
-    return {
-      issues,
-      overallCompatible: errorCount === 0,
-      compatibilityScore: Math.max(0, compatibilityScore),
-      assessmentLevel,
-      hasErrors: errorCount > 0,
-      warningCount,
-      infoCount,
-      totalIssues: errorCount + warningCount + infoCount
-    };
-  }, [config]);
+  // Same rules the API applies when builds are submitted
+  const checkCompatibility = useMemo(
+    (): CompatibilityCheck => checkBuildCompatibility(config, { useCase }),
+    [config, useCase]
+  );
 
   // Advanced performance prediction with realistic calculations
   const performancePrediction = useMemo((): PerformancePrediction | null => {
@@ -773,11 +213,11 @@ export default function EnhancedBuildConfigurator() {
     if (gpuVram >= 16) futureProofing += 8;
     else if (gpuVram >= 12) futureProofing += 5;
     
-    if ((config.storage as any)?.type?.includes('NVMe')) futureProofing += 3;
+    if (config.storage?.storageType?.includes('NVMe')) futureProofing += 3;
     
     // High-end component bonus
     const highEndComponents = Object.values(config).filter(comp => 
-      (comp as any)?.tier === 'enthusiast' || (comp as any)?.tier === 'high-end'
+      comp?.tier === 'enthusiast' || comp?.tier === 'high-end'
     ).length;
     futureProofing += highEndComponents * 2;
     
@@ -795,7 +235,7 @@ export default function EnhancedBuildConfigurator() {
       recommendations.push('Upgrade to 16GB RAM for modern gaming');
     }
     
-    if ((config.storage as any)?.type === 'HDD') {
+    if (config.storage?.storageType === 'HDD') {
       recommendations.push('SSD upgrade will significantly improve load times');
     }
 
@@ -875,22 +315,22 @@ export default function EnhancedBuildConfigurator() {
     
     // STEP 1: Select best GPU within budget (most important for gaming)
     const gpuBudget = Math.min(budget * 0.50, 80000); // Up to 50% budget or 80k max
-    const bestGPUs = components.gpu
+    const bestGPUs = availableComponents.gpu
       .filter(gpu => gpu.price >= buildTemplate.gpu.minPrice && gpu.price <= gpuBudget)
       .sort((a, b) => b.performance - a.performance);
     
-    config.gpu = bestGPUs[0] || components.gpu.find(gpu => gpu.price <= gpuBudget);
+    config.gpu = bestGPUs[0] || availableComponents.gpu.find(gpu => gpu.price <= gpuBudget);
     console.log('🎮 Selected GPU:', config.gpu?.name, config.gpu?.price);
 
     // STEP 2: Select best CPU that won't bottleneck GPU
     const cpuBudget = Math.min(budget * 0.30, 50000);
     const targetCPUPerformance = config.gpu ? config.gpu.performance * 0.8 : 80; // CPU should be 80% of GPU performance
     
-    const bestCPUs = components.cpu
+    const bestCPUs = availableComponents.cpu
       .filter(cpu => cpu.performance >= targetCPUPerformance && cpu.price <= cpuBudget)
       .sort((a, b) => (b.performance / b.price) - (a.performance / a.price));
     
-    config.cpu = bestCPUs[0] || components.cpu
+    config.cpu = bestCPUs[0] || availableComponents.cpu
       .filter(cpu => cpu.price <= cpuBudget)
       .sort((a, b) => b.performance - a.performance)[0];
     console.log('🖥️ Selected CPU:', config.cpu?.name, config.cpu?.price);
@@ -909,7 +349,7 @@ export default function EnhancedBuildConfigurator() {
     // STEP 3: Select COMPATIBLE motherboard for the chosen CPU 
     const motherboardBudget = Math.min(budget * 0.10, 20000);
     if (config.cpu) {
-      const compatibleMBs = components.motherboard.filter(mb => mb.socket === config.cpu?.socket);
+      const compatibleMBs = availableComponents.motherboard.filter(mb => mb.socket === config.cpu?.socket);
       if (compatibleMBs.length > 0) {
         // Get the best compatible motherboard within budget
         config.motherboard = compatibleMBs
@@ -923,9 +363,9 @@ export default function EnhancedBuildConfigurator() {
     // STEP 4: Select COMPATIBLE RAM for the motherboard
     const ramBudget = Math.min(budget * 0.12, 20000);
     if (config.motherboard) {
-      const compatibleRAM = components.ram.filter(ram => 
+      const compatibleRAM = availableComponents.ram.filter(ram => 
         ram.memoryType === config.motherboard?.memoryType && 
-        (ram as any).capacity >= buildTemplate.ram.minCapacity
+        (ram.capacity || 0) >= buildTemplate.ram.minCapacity
       );
       if (compatibleRAM.length > 0) {
         config.ram = compatibleRAM
@@ -938,10 +378,10 @@ export default function EnhancedBuildConfigurator() {
     
     // STEP 5: Storage - get best performance within budget
     const storageBudget = Math.min(budget * 0.08, 15000);
-    config.storage = components.storage
-      .filter(storage => (storage as any).capacity >= buildTemplate.storage.minCapacity && storage.price <= storageBudget)
+    config.storage = availableComponents.storage
+      .filter(storage => (storage.capacity || 0) >= buildTemplate.storage.minCapacity && storage.price <= storageBudget)
       .sort((a, b) => b.performance - a.performance)[0] ||
-      components.storage.filter(storage => storage.price <= storageBudget)
+      availableComponents.storage.filter(storage => storage.price <= storageBudget)
       .sort((a, b) => b.performance - a.performance)[0];
     console.log('💽 Selected Storage:', config.storage?.name);
     
@@ -951,34 +391,34 @@ export default function EnhancedBuildConfigurator() {
     );
     const requiredWattage = Math.max(totalPower * 1.5, 550); // 50% headroom minimum 550W
     
-    config.psu = components.psu
+    config.psu = availableComponents.psu
       .filter(psu => (psu.wattage || 0) >= requiredWattage)
       .sort((a, b) => {
         // Prefer Gold efficiency and adequate wattage
-        const aEfficiency = (a as any).efficiency?.includes('Gold') ? 2 : (a as any).efficiency?.includes('Bronze') ? 1 : 0;
-        const bEfficiency = (b as any).efficiency?.includes('Gold') ? 2 : (b as any).efficiency?.includes('Bronze') ? 1 : 0;
+        const aEfficiency = a.efficiency?.includes('Gold') ? 2 : a.efficiency?.includes('Bronze') ? 1 : 0;
+        const bEfficiency = b.efficiency?.includes('Gold') ? 2 : b.efficiency?.includes('Bronze') ? 1 : 0;
         return (b.performance + bEfficiency) - (a.performance + aEfficiency);
       })[0];
-    console.log('⚡ Selected PSU:', config.psu?.name, (config.psu as any)?.wattage + 'W');
+    console.log('⚡ Selected PSU:', config.psu?.name, config.psu?.wattage + 'W');
     
     // STEP 7: Case selection
-    config.case = components.case
+    config.case = availableComponents.case
       .filter(caseComp => caseComp.price <= 8000) // Max 8k for case
       .sort((a, b) => b.performance - a.performance)[0] ||
-      components.case.sort((a, b) => a.price - b.price)[0]; // Fallback to cheapest
+      availableComponents.case.sort((a, b) => a.price - b.price)[0]; // Fallback to cheapest
     
     // STEP 8: Cooler based on CPU requirements 
     if (config.cpu && config.cpu.powerConsumption > 100) {
       // High power CPU needs AIO or high-end air cooler
-      const powerfulCoolers = components.cooler.filter(cooler => 
-        (cooler as any).maxTDP >= config.cpu!.powerConsumption * 1.2
+      const powerfulCoolers = availableComponents.cooler.filter(cooler => 
+        (cooler.maxTdp || 0) >= config.cpu!.powerConsumption * 1.2
       );
       config.cooler = powerfulCoolers
         .filter(cooler => cooler.price <= 10000)
         .sort((a, b) => b.performance - a.performance)[0] ||
-        components.cooler[0]; // Fallback to stock cooler
+        availableComponents.cooler[0]; // Fallback to stock cooler
     } else {
-      config.cooler = components.cooler[0]; // Stock cooler for low power CPUs
+      config.cooler = availableComponents.cooler[0]; // Stock cooler for low power CPUs
     }
     // STEP 9: Final optimization - use any remaining budget for upgrades
     const currentTotal = Object.values(config).reduce((total, component) => 
@@ -992,7 +432,7 @@ export default function EnhancedBuildConfigurator() {
     if (remainingBudget > budget * 0.15) {
       // Prioritize GPU upgrade for gaming
       if (useCase === 'gaming' && config.gpu) {
-        const betterGPU = components.gpu
+        const betterGPU = availableComponents.gpu
           .filter(gpu => gpu.price > config.gpu!.price && gpu.price <= config.gpu!.price + remainingBudget * 0.6)
           .sort((a, b) => b.performance - a.performance)[0];
         if (betterGPU) {
@@ -1008,7 +448,7 @@ export default function EnhancedBuildConfigurator() {
       const remainingBudget2 = budget - currentTotal2;
       
       if (remainingBudget2 > budget * 0.10 && config.cpu) {
-        const betterCPU = components.cpu
+        const betterCPU = availableComponents.cpu
           .filter(cpu => 
             cpu.socket === config.motherboard?.socket &&
             cpu.price > config.cpu!.price && 
@@ -1060,7 +500,7 @@ export default function EnhancedBuildConfigurator() {
         const currentComponent = config[componentType as keyof BuildConfig];
         if (!currentComponent) continue;
         
-        const componentList = components[componentType as keyof typeof components];
+        const componentList = availableComponents[componentType as keyof typeof availableComponents];
         const currentTotalPrice = Object.values(config).reduce((total, component) => 
           total + (component?.price || 0), 0
         );
@@ -1100,7 +540,7 @@ export default function EnhancedBuildConfigurator() {
         const currentComponent = config[componentType as keyof BuildConfig];
         if (!currentComponent) continue;
         
-        const componentList = components[componentType as keyof typeof components];
+        const componentList = availableComponents[componentType as keyof typeof availableComponents];
         const cheaperOption = componentList
           .filter(comp => comp.price < currentComponent.price && comp.performance >= currentComponent.performance * 0.8)
           .reduce((best, current) => {
@@ -1352,7 +792,7 @@ Built with FusionForge PC Configurator`;
                             setConfig(prev => ({ ...prev, [componentType]: null }));
                           } else {
                             const component = componentList.find(c => c.id === value);
-                            if (component) {
+                            if (component && component.stockQuantity > 0) {
                               const adjustedPrice = getAdjustedPrice(component.price);
                               const currentComponentAdjustedPrice = getAdjustedPrice(selectedComponent?.price || 0);
                               const isAffordable = totalPrice - currentComponentAdjustedPrice + adjustedPrice <= budget;
@@ -1369,19 +809,21 @@ Built with FusionForge PC Configurator`;
                         </SelectTrigger>
                         <SelectContent className="max-h-64">
                           <SelectItem value="none" className="text-gray-500 italic">
-                            None selected
+                            {catalogLoading ? 'Loading components...' : 'None selected'}
                           </SelectItem>
                           {componentList.map((component) => {
                             const adjustedPrice = getAdjustedPrice(component.price);
                             const currentComponentAdjustedPrice = getAdjustedPrice(selectedComponent?.price || 0);
                             const isAffordable = totalPrice - currentComponentAdjustedPrice + adjustedPrice <= budget;
+                            const outOfStock = component.stockQuantity <= 0;
+                            const lowStock = !outOfStock && component.stockQuantity <= component.lowStockThreshold;
                             
                             return (
                               <SelectItem 
                                 key={component.id} 
                                 value={component.id}
-                                disabled={!isAffordable && !selectedComponent}
-                                className={`cursor-pointer ${!isAffordable && !selectedComponent ? 'opacity-50' : ''}`}
+                                disabled={outOfStock || (!isAffordable && !selectedComponent)}
+                                className={`cursor-pointer ${outOfStock || (!isAffordable && !selectedComponent) ? 'opacity-50' : ''}`}
                               >
                                 <div className="flex justify-between items-center w-full">
                                   <div className="flex-1">
@@ -1389,10 +831,10 @@ Built with FusionForge PC Configurator`;
                                     <div className="text-xs text-gray-500 flex gap-2">
                                       <span>Perf: {component.performance}%</span>
                                       <span>Power: {component.powerConsumption}W</span>
-                                      {(component as any).cores && <span>Cores: {(component as any).cores}</span>}
-                                      {(component as any).vram && <span>VRAM: {(component as any).vram}GB</span>}
-                                      {(component as any).capacity && <span>{(component as any).capacity}GB</span>}
-                                      {(component as any).wattage && <span>{(component as any).wattage}W</span>}
+                                      {component.cores && <span>Cores: {component.cores}</span>}
+                                      {component.vram && <span>VRAM: {component.vram}GB</span>}
+                                      {component.capacity && <span>{component.capacity}GB</span>}
+                                      {component.wattage && <span>{component.wattage}W</span>}
                                     </div>
                                   </div>
                                   <div className="text-right ml-3">
@@ -1409,6 +851,12 @@ Built with FusionForge PC Configurator`;
                                     {!isAffordable && !selectedComponent && (
                                       <div className="text-xs text-red-500 font-medium">Over Budget</div>
                                     )}
+                                    {outOfStock && (
+                                      <div className="text-xs text-red-500 font-medium">Out of stock</div>
+                                    )}
+                                    {lowStock && (
+                                      <div className="text-xs text-orange-500 font-medium">Only {component.stockQuantity} left</div>
+                                    )}
                                   </div>
                                 </div>
                               </SelectItem>
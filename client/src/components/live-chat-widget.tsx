@@ -27,6 +27,7 @@ export default function LiveChatWidget({ initiallyVisible = false }: ChatWidgetP
   const [isConnected, setIsConnected] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [agentTyping, setAgentTyping] = useState(false);
+  const [withAgent, setWithAgent] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [hasUnreadMessages, setHasUnreadMessages] = useState(false);
   const [forceUpdate, setForceUpdate] = useState(0);
@@ -62,6 +63,19 @@ export default function LiveChatWidget({ initiallyVisible = false }: ChatWidgetP
     return () => window.removeEventListener('agentTyping', handleAgentTyping as EventListener);
   }, [sessionId]);
 
+  // A support agent taking over (or handing back) changes who the customer is talking to
+  useEffect(() => {
+    const handleStatus = (event: CustomEvent) => {
+      if (event.detail.sessionId === sessionId) {
+        setWithAgent(event.detail.status === 'transferred');
+        if (event.detail.status !== 'transferred') setAgentTyping(false);
+      }
+    };
+
+    window.addEventListener('chatSessionStatus', handleStatus as EventListener);
+    return () => window.removeEventListener('chatSessionStatus', handleStatus as EventListener);
+  }, [sessionId]);
+
   // Listen for new chat messages (including AI responses)
   useEffect(() => {
     if (!sessionId) return;
@@ -219,10 +233,10 @@ export default function LiveChatWidget({ initiallyVisible = false }: ChatWidgetP
             <div className="flex items-center space-x-2">
               <Headphones className="h-5 w-5" />
               <div>
-                <h3 className="font-semibold text-sm">FusionForge AI Assistant</h3>
+                <h3 className="font-semibold text-sm">{withAgent ? 'FusionForge Support' : 'FusionForge AI Assistant'}</h3>
                 <div className="flex items-center space-x-1">
-                  <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></div>
-                  <span className="text-xs opacity-90">AI Powered</span>
+                  <div className={`w-2 h-2 rounded-full animate-pulse ${withAgent ? 'bg-green-400' : 'bg-blue-400'}`}></div>
+                  <span className="text-xs opacity-90">{withAgent ? 'Chatting with a support agent' : 'AI Powered'}</span>
                 </div>
               </div>
             </div>
@@ -317,7 +331,10 @@ export default function LiveChatWidget({ initiallyVisible = false }: ChatWidgetP
               <Input
                 ref={inputRef}
                 value={currentMessage}
-                onChange={(e) => setCurrentMessage(e.target.value)}
+                onChange={(e) => {
+                  setCurrentMessage(e.target.value);
+                  if (sessionId && e.target.value) liveChatService.notifyTyping(sessionId);
+                }}
                 onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
                 placeholder="Type your message..."
                 className="flex-1"
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowUpDown, Plus, Trash2 } from 'lucide-react';
+import type { PcBuild, SubscriptionChangePreview, SubscriptionPlan } from '@shared/schema';
+
+interface SubscriptionChangeDialogProps {
+  userId: string;
+  subscriptionId: string;
+  planId: string;
+  items: Array<{ buildId: number; buildName: string; quantity: number }>;
+}
+
+interface DraftItem {
+  buildId: number;
+  buildName: string;
+  quantity: number;
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Switch plan or add and remove machines mid-period; the prorated difference is shown before it is confirmed
+export default function SubscriptionChangeDialog({ userId, subscriptionId, planId, items }: SubscriptionChangeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedPlanId, setSelectedPlanId] = useState(planId);
+  const [draftItems, setDraftItems] = useState<DraftItem[]>(items);
+  const [preview, setPreview] = useState<SubscriptionChangePreview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: plans = [] } = useQuery<SubscriptionPlan[]>({
+    queryKey: ['/api/subscription/plans'],
+    enabled: open
+  });
+
+  const { data: builds = [] } = useQuery<PcBuild[]>({
+    queryKey: ['/api/builds'],
+    enabled: open
+  });
+
+  const changeRequest = () => ({
+    userId,
+    planId: selectedPlanId,
+    items: draftItems.map(item => ({ buildId: item.buildId, quantity: item.quantity }))
+  });
+
+  const reset = () => {
+    setSelectedPlanId(planId);
+    setDraftItems(items);
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/subscription/${subscriptionId}/change/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changeRequest())
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to preview change');
+      return result as SubscriptionChangePreview;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (expectedAdjustment: number) => {
+      const response = await fetch(`/api/subscription/${subscriptionId}/change`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changeRequest(), expectedAdjustment })
+      });
+      const result = await response.json();
+      // The amount moved on since the preview; show the new one for confirmation
+      if (response.status === 409 && result.preview) {
+        setPreview(result.preview);
+        throw new Error(result.error);
+      }
+      if (!response.ok) throw new Error(result.error || 'Failed to change subscription');
+      return result;
+    },
+    onSuccess: () => {
+      toast({ title: 'Subscription Updated', description: 'The change will be reflected on your next bill.' });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription/user', userId] });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Please review the change', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const updateDraft = (next: DraftItem[]) => {
+    setDraftItems(next);
+    setPreview(null);
+  };
+
+  const setQuantity = (buildId: number, quantity: number) =>
+    updateDraft(draftItems.map(item => (item.buildId === buildId ? { ...item, quantity: Math.max(1, quantity) } : item)));
+
+  const addBuild = (value: string) => {
+    const build = builds.find(candidate => String(candidate.id) === value);
+    if (!build) return;
+    const existing = draftItems.find(item => item.buildId === build.id);
+    if (existing) {
+      setQuantity(build.id, existing.quantity + 1);
+    } else {
+      updateDraft([...draftItems, { buildId: build.id, buildName: build.name, quantity: 1 }]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (isOpen) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-change-${subscriptionId}`}>
+          <ArrowUpDown className="h-4 w-4 mr-1" />
+          Change Plan or Items
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Subscription</DialogTitle>
+          <DialogDescription>
+            You are credited for the unused part of this period and charged for the rest of it on the new terms.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Plan</Label>
+            <Select value={selectedPlanId} onValueChange={(value) => { setSelectedPlanId(value); setPreview(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {plans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name} ({plan.discountPercentage}% off, min {plan.minimumItems})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items</Label>
+            {draftItems.map(item => (
+              <div key={item.buildId} className="flex items-center gap-2">
+                <span className="flex-1 text-sm">{item.buildName}</span>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={item.quantity}
+                  onChange={(e) => setQuantity(item.buildId, Number(e.target.value))}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={draftItems.length === 1}
+                  onClick={() => updateDraft(draftItems.filter(existing => existing.buildId !== item.buildId))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Select value="" onValueChange={addBuild}>
+              <SelectTrigger>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add a PC
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {builds.filter(build => build.isActive !== false).map(build => (
+                  <SelectItem key={build.id} value={String(build.id)}>
+                    {build.name} – {formatCurrency(build.totalPrice)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {preview && (
+            <div className="rounded-lg bg-gray-50 dark:bg-gray-800 p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>New price per {preview.billingCycle.replace('ly', '')}</span>
+                <span className="font-medium">{formatCurrency(preview.finalPrice)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Credit for {preview.remainingDays} of {preview.periodDays} days left</span>
+                <span>-{formatCurrency(preview.credit)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Charge for the rest of this period</span>
+                <span>{formatCurrency(preview.charge)}</span>
+              </div>
+              <div className="flex justify-between font-medium border-t pt-1">
+                <span>{preview.adjustment >= 0 ? 'Added to' : 'Credited on'} your next bill</span>
+                <span>{formatCurrency(Math.abs(preview.adjustment))}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Next bill on {new Date(preview.nextBillingDate).toLocaleDateString('en-IN')}</span>
+                <span>{formatCurrency(preview.nextOrderAmount)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Keep Current Plan
+            </Button>
+            {preview ? (
+              <Button onClick={() => confirmMutation.mutate(preview.adjustment)} disabled={confirmMutation.isPending}>
+                {confirmMutation.isPending ? 'Updating...' : 'Confirm Change'}
+              </Button>
+            ) : (
+              <Button onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending || draftItems.length === 0}>
+                {previewMutation.isPending ? 'Calculating...' : 'Preview Change'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
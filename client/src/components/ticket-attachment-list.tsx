@@ -0,0 +1,40 @@
+import { FileText, Image as ImageIcon, Paperclip } from "lucide-react";
+import type { SupportTicketAttachment } from "@shared/schema";
+
+interface TicketAttachmentListProps {
+  attachments?: SupportTicketAttachment[];
+  // Admins download through their own route; customers use the stored fileUrl
+  getDownloadUrl?: (attachment: SupportTicketAttachment) => string;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function TicketAttachmentList({ attachments = [], getDownloadUrl }: TicketAttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {attachments.map((attachment) => {
+        const Icon = attachment.contentType.startsWith("image/")
+          ? ImageIcon
+          : attachment.contentType === "application/pdf" ? FileText : Paperclip;
+        return (
+          <a
+            key={attachment.id}
+            href={getDownloadUrl ? getDownloadUrl(attachment) : attachment.fileUrl}
+            download={attachment.fileName}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded border bg-white hover:bg-gray-50 text-gray-700"
+          >
+            <Icon className="h-3 w-3" />
+            <span className="max-w-[12rem] truncate">{attachment.fileName}</span>
+            <span className="text-gray-400">{formatFileSize(attachment.fileSize)}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
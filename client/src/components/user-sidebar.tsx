@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { User, Package, ShoppingBag, Settings } from "lucide-react";
+import { User, Package, ShoppingBag, LifeBuoy, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navigationItems = [
@@ -18,6 +18,11 @@ const navigationItems = [
     label: "Order History",
     href: "/profile/orders"
   },
+  {
+    icon: LifeBuoy,
+    label: "My Tickets",
+    href: "/profile/tickets"
+  },
   {
     icon: Settings,
     label: "Settings",
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { LIST_PAGE_SIZE_DEFAULT, type ListPage } from '@shared/schema';
+
+export type ListParams = Record<string, string | number | undefined>;
+
+// Server-side paging over an admin list endpoint, read from its /page route. The cursors of pages already
+// visited are kept so Previous can step back; changing the filters starts again from the first page.
+export function usePagedList<T>(endpoint: string, params: ListParams, options: { enabled?: boolean; limit?: number } = {}) {
+  const paramsKey = JSON.stringify(params);
+  const [appliedKey, setAppliedKey] = useState(paramsKey);
+  const [cursors, setCursors] = useState<string[]>([]);
+
+  // Wait for typing in the filter inputs to settle before asking for a new first page
+  useEffect(() => {
+    if (paramsKey === appliedKey) return;
+    const timer = setTimeout(() => {
+      setAppliedKey(paramsKey);
+      setCursors([]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [paramsKey, appliedKey]);
+
+  const search = new URLSearchParams({ limit: String(options.limit ?? LIST_PAGE_SIZE_DEFAULT) });
+  Object.entries(JSON.parse(appliedKey) as ListParams).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  const cursor = cursors[cursors.length - 1];
+  if (cursor) search.set('cursor', cursor);
+
+  // Keyed under the endpoint so invalidating the endpoint refreshes the page too
+  const { data, isLoading, error } = useQuery<ListPage<T>>({
+    queryKey: [endpoint, 'page', search.toString()],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `${endpoint}/page?${search.toString()}`);
+      return response.json();
+    },
+    enabled: options.enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const nextCursor = data?.nextCursor;
+
+  return {
+    items: data?.items ?? [],
+    total: data ? data.total : 0,
+    offset: cursors.length * (options.limit ?? LIST_PAGE_SIZE_DEFAULT),
+    hasPrevious: cursors.length > 0,
+    hasNext: !!nextCursor,
+    previous: () => setCursors(current => current.slice(0, -1)),
+    next: () => {
+      if (nextCursor) setCursors(current => [...current, nextCursor]);
+    },
+    isLoading,
+    error,
+  };
+}
@@ -113,15 +113,15 @@ export const useCartStore = create<CartStore>()(
       getTotalPrice: () => {
         return get().items.reduce((total, item) => {
           try {
-            const basePrice = item.build.basePrice;
-            if (!basePrice || typeof basePrice !== 'number' || basePrice <= 0) {
+            const price = item.build.totalPrice;
+            if (!price || typeof price !== 'number' || price <= 0) {
               if (import.meta.env.DEV) {
-                console.warn('Invalid base price:', basePrice);
+                console.warn('Invalid price:', price);
               }
               return total;
             }
             
-            return total + (basePrice * item.quantity);
+            return total + (price * item.quantity);
           } catch (error) {
             if (import.meta.env.DEV) {
               console.error('Error calculating price for item:', item, error);
@@ -131,28 +131,13 @@ export const useCartStore = create<CartStore>()(
         }, 0);
       },
       
+      // Estimates only - checkout always shows the server quote before payment
       getTotalWithGST: () => {
-        return get().items.reduce((total, item) => {
-          const basePrice = item.build.basePrice;
-          if (!basePrice || typeof basePrice !== 'number' || basePrice <= 0) {
-            return total;
-          }
-          
-          const finalAmount = Math.round(basePrice * 1.18); // 18% GST
-          return total + (finalAmount * item.quantity);
-        }, 0);
+        return get().getTotalPrice() + get().getGSTAmount();
       },
       
       getGSTAmount: () => {
-        return get().items.reduce((total, item) => {
-          const basePrice = item.build.basePrice;
-          if (!basePrice || typeof basePrice !== 'number' || basePrice <= 0) {
-            return total;
-          }
-          
-          const gstAmount = Math.round(basePrice * 0.18); // 18% GST
-          return total + (gstAmount * item.quantity);
-        }, 0);
+        return Math.round(get().getTotalPrice() * 0.18); // 18% GST
       }
     }),
     {
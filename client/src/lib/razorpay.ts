@@ -38,6 +38,13 @@ export interface PaymentOrder {
   receipt: string;
 }
 
+export interface CheckoutPaymentDetails {
+  items: { buildId: number; quantity: number }[];
+  discountCode?: string;
+  userId?: string;
+  totalPrice?: number; // total shown to the customer, rejected if it no longer matches
+}
+
 export class RazorpayService {
   private static instance: RazorpayService;
   private isScriptLoaded = false;
@@ -71,7 +78,8 @@ export class RazorpayService {
     });
   }
 
-  async createOrder(amount: number, receipt?: string): Promise<PaymentOrder> {
+  // The server prices the cart itself; the charged amount never comes from the client
+  async createOrder(checkout: CheckoutPaymentDetails, receipt?: string): Promise<PaymentOrder> {
     try {
       const response = await fetch('/api/payment/create-order', {
         method: 'POST',
@@ -79,12 +87,12 @@ export class RazorpayService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          amount,
           currency: 'INR',
           receipt: receipt || `receipt_${Date.now()}`,
           notes: {
             source: 'fusionforge_website'
-          }
+          },
+          ...checkout
         }),
       });
 
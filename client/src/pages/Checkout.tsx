@@ -10,15 +10,31 @@ import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useCartStore } from "@/lib/cart-store";
 import { useAuth } from "@/contexts/AuthContext";
-import { ShoppingCart, User, MapPin, CreditCard, Truck, ArrowLeft, Plus, Star } from "lucide-react";
+import { ShoppingCart, User, MapPin, CreditCard, Truck, ArrowLeft, Plus, Star, Tag, X } from "lucide-react";
 import { formatPrice } from "@/lib/utils";
 import { razorpayService, type RazorpayResponse } from "@/lib/razorpay";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { INDIAN_STATES, isValidGstin } from "@shared/gst";
+
+interface CheckoutQuote {
+  items: Array<{
+    buildId: number;
+    name: string;
+    unitPrice: number;
+    quantity: number;
+    lineTotal: number;
+  }>;
+  subtotal: number;
+  discountAmount: number;
+  gstAmount: number;
+  shippingAmount: number;
+  total: number;
+}
 
 export default function Checkout() {
   const { user, loading } = useAuth();
   const [, setLocation] = useLocation();
-  const { items, getTotalPrice, getTotalWithGST, getGSTAmount, clearCart } = useCartStore();
+  const { items, clearCart } = useCartStore();
   const [isProcessing, setIsProcessing] = useState(false);
 
   const [formData, setFormData] = useState({
@@ -28,10 +44,17 @@ export default function Checkout() {
     address: "",
     city: "",
     zipCode: "",
+    state: "",
+    gstin: "",
     paymentMethod: "online_payment",
     notes: ""
   });
 
+  const [couponCode, setCouponCode] = useState("");
+  const [appliedCode, setAppliedCode] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState("");
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
   const [selectedAddressId, setSelectedAddressId] = useState<string>("");
   const [showNewAddressForm, setShowNewAddressForm] = useState(false);
   const queryClient = useQueryClient();
@@ -48,6 +71,32 @@ export default function Checkout() {
     enabled: !!user?.uid
   });
 
+  const checkoutItems = items.map(item => ({ buildId: item.build.id, quantity: item.quantity }));
+
+  // Server pricing is what gets charged, so the summary always shows the server quote
+  const { data: quote, error: quoteError } = useQuery<CheckoutQuote>({
+    queryKey: ['/api/orders/quote', checkoutItems, appliedCode, user?.uid],
+    queryFn: async () => {
+      const response = await fetch('/api/orders/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: checkoutItems,
+          discountCode: appliedCode || undefined,
+          userId: user?.uid
+        })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to price your order');
+      }
+      return result.quote;
+    },
+    enabled: checkoutItems.length > 0,
+    retry: false
+  });
+
   // Redirect to login if not authenticated
   if (!loading && !user) {
     setLocation('/builds');
@@ -142,6 +191,39 @@ export default function Checkout() {
     }
   };
 
+  const applyCoupon = async () => {
+    const code = couponCode.trim().toUpperCase();
+    if (!code) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError("");
+
+    try {
+      const response = await fetch('/api/discounts/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, userId: user?.uid, items: checkoutItems })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Invalid discount code');
+      }
+
+      setAppliedCode(code);
+    } catch (error: any) {
+      setCouponError(error.message || 'Invalid discount code');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const removeCoupon = () => {
+    setAppliedCode(null);
+    setCouponCode("");
+    setCouponError("");
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -154,7 +236,12 @@ export default function Checkout() {
       try {
         // Create Razorpay order
         const order = await razorpayService.createOrder(
-          getTotalWithGST(),
+          {
+            items: checkoutItems,
+            discountCode: orderData.discountCode,
+            userId: user?.uid,
+            totalPrice: orderData.totalPrice
+          },
           `order_${Date.now()}`
         );
 
@@ -185,7 +272,8 @@ export default function Checkout() {
                 await submitOrder({
                   ...orderData,
                   razorpayOrderId: response.razorpay_order_id,
-                  razorpayPaymentId: response.razorpay_payment_id
+                  razorpayPaymentId: response.razorpay_payment_id,
+                  razorpaySignature: response.razorpay_signature
                 });
               } else {
                 // For test mode, if payment was successful in Razorpay but verification fails,
@@ -194,7 +282,8 @@ export default function Checkout() {
                 await submitOrder({
                   ...orderData,
                   razorpayOrderId: response.razorpay_order_id,
-                  razorpayPaymentId: response.razorpay_payment_id
+                  razorpayPaymentId: response.razorpay_payment_id,
+                  razorpaySignature: response.razorpay_signature
                 });
               }
             } catch (error) {
@@ -203,7 +292,8 @@ export default function Checkout() {
                 await submitOrder({
                   ...orderData,
                   razorpayOrderId: response.razorpay_order_id,
-                  razorpayPaymentId: response.razorpay_payment_id
+                  razorpayPaymentId: response.razorpay_payment_id,
+                  razorpaySignature: response.razorpay_signature
                 });
               } else {
                 alert('Payment processing failed. Please contact support.');
@@ -257,6 +347,10 @@ export default function Checkout() {
         console.log('Order submitted successfully:', result);
         clearCart();
         setLocation('/checkout/success?orderId=' + result.orderId + '&orderNumber=' + result.orderNumber);
+      } else if (result.code === 'PRICE_MISMATCH') {
+        queryClient.invalidateQueries({ queryKey: ['/api/orders/quote'] });
+        alert('Prices have changed since you opened checkout. Please review the updated total and contact support if you were charged.');
+        setIsProcessing(false);
       } else {
         console.error('Order API error:', result);
         throw new Error(result.error || 'Failed to submit order');
@@ -268,8 +362,11 @@ export default function Checkout() {
     }
   };
 
+  const gstinError = formData.gstin.trim() && !isValidGstin(formData.gstin) ? "Enter a valid 15-character GSTIN" : "";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!quote || !formData.state || gstinError) return;
     setIsProcessing(true);
 
     try {
@@ -277,7 +374,8 @@ export default function Checkout() {
         ...formData,
         userId: user?.uid,
         items: items,
-        totalPrice: getTotalWithGST()
+        totalPrice: quote.total,
+        ...(appliedCode ? { discountCode: appliedCode } : {})
       };
 
       await handlePayment(orderData);
@@ -329,36 +427,95 @@ export default function Checkout() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {items.map((item) => (
-                  <div key={item.build.id} className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <h4 className="font-medium text-sm">{item.build.name}</h4>
-                      <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-medium">{formatPrice(item.build.basePrice.toString())}</p>
+                {items.map((item) => {
+                  const line = quote?.items.find(quoteLine => quoteLine.buildId === item.build.id);
+                  return (
+                    <div key={item.build.id} className="flex justify-between items-start">
+                      <div className="flex-1">
+                        <h4 className="font-medium text-sm">{item.build.name}</h4>
+                        <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">{formatPrice((line ? line.unitPrice : item.build.totalPrice).toString())}</p>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 
                 <Separator />
                 
-                <div className="flex justify-between items-center">
-                  <span>Subtotal</span>
-                  <span>{formatPrice(getTotalPrice().toString())}</span>
-                </div>
-                
-                <div className="flex justify-between items-center">
-                  <span>GST (18%)</span>
-                  <span>{formatPrice(getGSTAmount().toString())}</span>
-                </div>
-                
+                {quote ? (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span>Subtotal</span>
+                      <span>{formatPrice(quote.subtotal.toString())}</span>
+                    </div>
+                    
+                    {quote.discountAmount > 0 && (
+                      <div className="flex justify-between items-center text-green-600">
+                        <span>Discount ({appliedCode})</span>
+                        <span>-{formatPrice(quote.discountAmount.toString())}</span>
+                      </div>
+                    )}
+                    
+                    <div className="flex justify-between items-center">
+                      <span>GST (18%)</span>
+                      <span>{formatPrice(quote.gstAmount.toString())}</span>
+                    </div>
+
+                    <div className="flex justify-between items-center">
+                      <span className="flex items-center gap-1"><Truck className="h-4 w-4" /> Shipping</span>
+                      <span>{quote.shippingAmount > 0 ? formatPrice(quote.shippingAmount.toString()) : 'Free'}</span>
+                    </div>
+                    
+                    <Separator />
+                    
+                    <div className="flex justify-between items-center text-lg font-bold">
+                      <span>Total Amount</span>
+                      <span className="text-orange-600">{formatPrice(quote.total.toString())}</span>
+                    </div>
+                  </>
+                ) : quoteError ? (
+                  <p className="text-sm text-red-600">{(quoteError as Error).message}</p>
+                ) : (
+                  <p className="text-sm text-gray-600">Calculating total...</p>
+                )}
+
                 <Separator />
-                
-                <div className="flex justify-between items-center text-lg font-bold">
-                  <span>Total Amount</span>
-                  <span className="text-orange-600">{formatPrice(getTotalWithGST().toString())}</span>
-                </div>
+
+                {/* Coupon Code */}
+                {appliedCode ? (
+                  <div className="flex justify-between items-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-green-600" />
+                      <Badge variant="secondary">{appliedCode}</Badge>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={removeCoupon}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="couponCode">Coupon Code</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="couponCode"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value)}
+                        placeholder="Enter code"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={applyCoupon}
+                        disabled={isApplyingCoupon || !couponCode.trim()}
+                      >
+                        {isApplyingCoupon ? "Applying..." : "Apply"}
+                      </Button>
+                    </div>
+                    {couponError && <p className="text-sm text-red-600">{couponError}</p>}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -407,6 +564,19 @@ export default function Checkout() {
                       required
                     />
                   </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="gstin">GSTIN (optional, for business purchases)</Label>
+                    <Input
+                      id="gstin"
+                      name="gstin"
+                      value={formData.gstin}
+                      onChange={handleInputChange}
+                      placeholder="e.g. 33AAAAA0000A1Z9"
+                      className="uppercase"
+                      maxLength={15}
+                    />
+                    {gstinError && <p className="text-sm text-red-600 mt-1">{gstinError}</p>}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -520,6 +690,26 @@ export default function Checkout() {
                     </div>
                   )}
 
+                  {/* State decides the place of supply, and with it CGST/SGST or IGST on the invoice */}
+                  <div className="space-y-2">
+                    <Label htmlFor="state">State *</Label>
+                    <Select
+                      value={formData.state}
+                      onValueChange={(state) => setFormData(prev => ({ ...prev, state }))}
+                    >
+                      <SelectTrigger id="state">
+                        <SelectValue placeholder="Select your state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INDIAN_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>
+                            {state.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Add New Address Button */}
                   {Array.isArray(addresses) && addresses.length > 0 && !showNewAddressForm && (
                     <Button 
@@ -583,10 +773,10 @@ export default function Checkout() {
               {/* Place Order Button */}
               <Button 
                 type="submit" 
-                disabled={isProcessing}
+                disabled={isProcessing || !quote || !formData.state || Boolean(gstinError)}
                 className="w-full h-12 text-lg fusion-gradient text-white"
               >
-                {isProcessing ? "Processing Order..." : `Place Order - ${formatPrice(getTotalWithGST().toString())}`}
+                {isProcessing ? "Processing Order..." : quote ? `Place Order - ${formatPrice(quote.total.toString())}` : "Calculating total..."}
               </Button>
             </form>
           </div>
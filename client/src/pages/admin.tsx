@@ -17,7 +17,6 @@ import {
   Mail, 
   TrendingUp, 
   Calendar,
-  Search,
   Filter,
   Download,
   Eye,
@@ -34,20 +33,39 @@ import {
   LineChart,
   Warehouse,
   Headphones,
-  Tag
+  Tag,
+  Cpu
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
-import type { Inquiry, PcBuild, Order, Subscription } from "@shared/schema";
+import { ORDER_STATUSES, ORDER_STATUS_TRANSITIONS } from "@shared/schema";
+import type { Inquiry, PcBuild, Order, Subscription, OrderStatus, UserProfile } from "@shared/schema";
+import OrderStatusHistory from "@/components/admin/order-status-history";
 import AddPcBuildForm from "@/components/admin/add-pc-build-form";
 import BusinessSettingsManager from "@/components/admin/business-settings-manager";
 import AnalyticsDashboard from "@/components/admin/analytics-dashboard";
 import ComprehensiveInventoryDashboard from "@/components/admin/comprehensive-inventory-dashboard";
 import SupportManagementDashboard from "@/components/admin/support-management-dashboard";
 import DiscountManagementDashboard from "@/components/admin/discount-management-dashboard";
+import CatalogManager from "@/components/admin/catalog-manager";
+import SubscriptionPlanManager from "@/components/admin/subscription-plan-manager";
+import ListFilterBar, { DEFAULT_LIST_FILTERS, toListParams, type ListFilterValues } from "@/components/admin/list-filter-bar";
+import ListPagination from "@/components/admin/list-pagination";
+import { usePagedList } from "@/hooks/use-paged-list";
+
+const ORDER_STATUS_OPTIONS = ORDER_STATUSES.map(status => ({ value: status, label: status.charAt(0).toUpperCase() + status.slice(1) }));
+const INQUIRY_STATUS_OPTIONS = [{ value: "uncompleted", label: "Uncompleted" }, { value: "completed", label: "Completed" }];
+const SUBSCRIPTION_STATUS_OPTIONS = ["active", "paused", "pending", "cancelled", "expired"].map(status => ({ value: status, label: status.charAt(0).toUpperCase() + status.slice(1) }));
+
+const ORDER_SORT_OPTIONS = [{ value: "createdAt", label: "Date" }, { value: "total", label: "Amount" }, { value: "id", label: "Order ID" }];
+const INQUIRY_SORT_OPTIONS = [{ value: "createdAt", label: "Date" }, { value: "id", label: "Inquiry ID" }];
+const USER_SORT_OPTIONS = [{ value: "createdAt", label: "Registered" }, { value: "email", label: "Email" }];
+const SUBSCRIPTION_SORT_OPTIONS = [{ value: "createdAt", label: "Created" }, { value: "nextBillingDate", label: "Next billing" }, { value: "finalPrice", label: "Price" }];
 
 function AdminContent() {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [orderFilters, setOrderFilters] = useState<ListFilterValues>(DEFAULT_LIST_FILTERS);
+  const [userFilters, setUserFilters] = useState<ListFilterValues>(DEFAULT_LIST_FILTERS);
+  const [inquiryFilters, setInquiryFilters] = useState<ListFilterValues>(DEFAULT_LIST_FILTERS);
+  const [subscriptionFilters, setSubscriptionFilters] = useState<ListFilterValues>(DEFAULT_LIST_FILTERS);
   const [budgetFilter, setBudgetFilter] = useState("all");
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
   const [selectedBuild, setSelectedBuild] = useState<PcBuild | null>(null);
@@ -79,7 +97,7 @@ function AdminContent() {
   const { toast } = useToast();
   const { adminSessionReady } = useAdminSession();
 
-  const { data: inquiries = [], isLoading: inquiriesLoading, error: inquiriesError } = useQuery<Inquiry[]>({
+  const { data: inquiries = [] } = useQuery<Inquiry[]>({
     queryKey: ["/api/inquiries"],
     enabled: adminSessionReady,
   });
@@ -89,7 +107,7 @@ function AdminContent() {
     enabled: adminSessionReady,
   });
 
-  const { data: orders = [], isLoading: ordersLoading, error: ordersError } = useQuery<Order[]>({
+  const { data: orders = [] } = useQuery<Order[]>({
     queryKey: ["/api/orders"],
     enabled: adminSessionReady,
   });
@@ -107,17 +125,26 @@ function AdminContent() {
     }
   }, [maintenanceModeSetting]);
 
-  const { data: users = [], isLoading: usersLoading, error: usersError } = useQuery<any[]>({
+  const { data: users = [] } = useQuery<any[]>({
     queryKey: ["/api/users"],
     enabled: adminSessionReady,
   });
 
   // Admin subscription queries
-  const { data: allSubscriptions = [], isLoading: subscriptionsLoading, error: subscriptionsError } = useQuery<Subscription[]>({
+  const { data: allSubscriptions = [] } = useQuery<Subscription[]>({
     queryKey: ["/api/subscription/admin/all"],
     enabled: adminSessionReady,
   });
 
+  // The tables page, filter and sort on the server; the full lists above feed the dashboard totals
+  const orderPage = usePagedList<Order>("/api/orders", toListParams(orderFilters), { enabled: adminSessionReady });
+  const userPage = usePagedList<UserProfile>("/api/users", toListParams(userFilters), { enabled: adminSessionReady });
+  const inquiryPage = usePagedList<Inquiry>("/api/inquiries", {
+    ...toListParams(inquiryFilters),
+    budget: budgetFilter === "all" ? undefined : budgetFilter,
+  }, { enabled: adminSessionReady });
+  const subscriptionPage = usePagedList<Subscription>("/api/subscription/admin/all", toListParams(subscriptionFilters), { enabled: adminSessionReady });
+
   // Use simple local state for low stock threshold (no API calls needed)
   // Handle threshold input change
   const handleThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -234,19 +261,6 @@ function AdminContent() {
     }
   });
 
-  // Filter inquiries based on search and filters
-  const filteredInquiries = inquiries.filter((inquiry) => {
-    const matchesSearch = !searchQuery || 
-      inquiry.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      inquiry.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      inquiry.useCase.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesBudget = budgetFilter === "all" || inquiry.budget === budgetFilter;
-    const matchesStatus = statusFilter === "all" || (inquiry.status || "uncompleted") === statusFilter;
-    
-    return matchesSearch && matchesBudget && matchesStatus;
-  });
-
   const handleStatusChange = async (inquiryId: number, newStatus: string) => {
     updateStatusMutation.mutate({ id: inquiryId, status: newStatus });
   };
@@ -400,7 +414,7 @@ Email: [Your Business Email]`);
 
   // Mutation to update order status
   const updateOrderStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+    mutationFn: async ({ id, status }: { id: number; status: OrderStatus }) => {
       const response = await fetch(`/api/orders/${id}/status`, {
         method: 'PATCH',
         headers: {
@@ -410,14 +424,16 @@ Email: [Your Business Email]`);
       });
       
       if (!response.ok) {
-        throw new Error('Failed to update order status');
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Failed to update order status');
       }
       
       const result = await response.json();
       return result;
     },
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${variables.id}/history`] });
       toast({
         title: "Order Status Updated",
         description: "Order status has been updated successfully.",
@@ -426,13 +442,13 @@ Email: [Your Business Email]`);
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update order status.",
+        description: error.message || "Failed to update order status.",
         variant: "destructive",
       });
     }
   });
 
-  const handleOrderStatusUpdate = async (orderId: number, newStatus: string) => {
+  const handleOrderStatusUpdate = async (orderId: number, newStatus: OrderStatus) => {
     updateOrderStatusMutation.mutate({ id: orderId, status: newStatus });
   };
 
@@ -473,16 +489,6 @@ Email: [Your Business Email]`);
     updateSubscriptionStatusMutation.mutate({ id: subscriptionId, status: action });
   };
 
-  // Queue-structured order sorting: prioritize pending/processing orders first
-  const queuedOrders = [...orders].sort((a, b) => {
-    const statusPriority = { 'pending': 1, 'processing': 2, 'paid': 3, 'completed': 4, 'cancelled': 5 };
-    const priorityA = statusPriority[a.status as keyof typeof statusPriority] || 6;
-    const priorityB = statusPriority[b.status as keyof typeof statusPriority] || 6;
-    
-    if (priorityA !== priorityB) return priorityA - priorityB;
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-  });
-
   // Export data function
   const exportToCSV = (data: any[], filename: string) => {
     if (!data || data.length === 0) {
@@ -523,9 +529,9 @@ Email: [Your Business Email]`);
     totalInquiries: inquiries.length,
     completedInquiries: inquiries.filter(i => i.status === "completed").length,
     totalOrders: orders.length,
-    pendingOrders: orders.filter(o => o.status !== "completed" && o.status !== "cancelled").length,
-    completedOrders: orders.filter(o => o.status === "completed").length,
-    totalRevenue: orders.filter(o => o.status === "completed" || o.status === "paid").reduce((sum, order) => {
+    pendingOrders: orders.filter(o => !["delivered", "cancelled", "refunded", "returned"].includes(o.status)).length,
+    completedOrders: orders.filter(o => o.status === "delivered").length,
+    totalRevenue: orders.filter(o => ["paid", "processing", "assembled", "shipped", "delivered"].includes(o.status)).reduce((sum, order) => {
       const total = typeof order.total === 'string' ? order.total : String(order.total || 0);
       return sum + parseFloat(total.replace(/[^\d.]/g, '') || '0');
     }, 0),
@@ -575,7 +581,7 @@ Email: [Your Business Email]`);
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <div className="space-y-4">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="dashboard" className="flex items-center gap-2">
                 <BarChart3 className="h-4 w-4" />
                 Overview
@@ -588,6 +594,10 @@ Email: [Your Business Email]`);
                 <Package className="h-4 w-4" />
                 Inventory
               </TabsTrigger>
+              <TabsTrigger value="catalog" className="flex items-center gap-2">
+                <Cpu className="h-4 w-4" />
+                Catalog
+              </TabsTrigger>
               <TabsTrigger value="customers" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
                 Customers
@@ -731,7 +741,7 @@ Email: [Your Business Email]`);
                         <div className="text-right">
                           <p className="text-sm font-medium">{order.total}</p>
                           <Badge className={`text-xs ${
-                            order.status === 'completed' ? 'bg-green-100 text-green-800' :
+                            order.status === 'delivered' ? 'bg-green-100 text-green-800' :
                             order.status === 'pending' ? 'bg-orange-100 text-orange-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
@@ -857,13 +867,24 @@ Email: [Your Business Email]`);
               <div className="px-6 py-5 border-b border-gray-200">
                 <h2 className="text-xl font-semibold text-gray-900">Orders Management</h2>
               </div>
+
+              <div className="px-6 py-4 border-b border-gray-200">
+                <ListFilterBar
+                  values={orderFilters}
+                  onChange={setOrderFilters}
+                  statuses={ORDER_STATUS_OPTIONS}
+                  sorts={ORDER_SORT_OPTIONS}
+                  showAmount
+                  idPrefix="orders"
+                />
+              </div>
               
               <div className="overflow-x-auto">
-                {ordersLoading ? (
+                {orderPage.isLoading ? (
                   <div className="p-8 text-center">Loading order queue...</div>
-                ) : ordersError ? (
+                ) : orderPage.error ? (
                   <div className="p-8 text-center text-red-600">Failed to load order queue</div>
-                ) : orders.length === 0 ? (
+                ) : orderPage.items.length === 0 ? (
                   <div className="p-8 text-center text-gray-600">No orders in queue</div>
                 ) : (
                   <div className="space-y-4 p-6">
@@ -878,24 +899,26 @@ Email: [Your Business Email]`);
                       </div>
                       <div className="flex items-center gap-2">
                         <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                        <span className="text-sm text-gray-600">Completed</span>
+                        <span className="text-sm text-gray-600">Delivered</span>
                       </div>
                     </div>
                     
                     {/* Queue-style order list */}
-                    {queuedOrders.map((order, index) => {
+                    {orderPage.items.map((order, index) => {
                       const priorityColor = 
                         order.status === 'pending' ? 'border-red-200 bg-red-50' :
                         order.status === 'processing' ? 'border-yellow-200 bg-yellow-50' :
                         order.status === 'paid' ? 'border-blue-200 bg-blue-50' :
-                        order.status === 'completed' ? 'border-green-200 bg-green-50' :
+                        order.status === 'assembled' || order.status === 'shipped' ? 'border-indigo-200 bg-indigo-50' :
+                        order.status === 'delivered' ? 'border-green-200 bg-green-50' :
                         'border-gray-200 bg-gray-50';
                       
                       const priorityDot = 
                         order.status === 'pending' ? 'bg-red-500' :
                         order.status === 'processing' ? 'bg-yellow-500' :
                         order.status === 'paid' ? 'bg-blue-500' :
-                        order.status === 'completed' ? 'bg-green-500' :
+                        order.status === 'assembled' || order.status === 'shipped' ? 'bg-indigo-500' :
+                        order.status === 'delivered' ? 'bg-green-500' :
                         'bg-gray-500';
                         
                       return (
@@ -905,7 +928,7 @@ Email: [Your Business Email]`);
                               <div className="flex items-center gap-4">
                                 <div className="flex items-center gap-2">
                                   <div className={`w-3 h-3 ${priorityDot} rounded-full`}></div>
-                                  <span className="font-medium text-sm text-gray-500">Queue #{index + 1}</span>
+                                  <span className="font-medium text-sm text-gray-500">Queue #{orderPage.offset + index + 1}</span>
                                 </div>
                                 <div>
                                   <div className="font-medium text-gray-900">Order #{order.id}</div>
@@ -928,17 +951,18 @@ Email: [Your Business Email]`);
                                   <Select
                                     key={`${order.id}-${order.status}`}
                                     value={order.status}
-                                    onValueChange={(value) => handleOrderStatusUpdate(order.id, value)}
+                                    onValueChange={(value) => handleOrderStatusUpdate(order.id, value as OrderStatus)}
                                   >
                                     <SelectTrigger className="w-32 h-8 text-xs">
                                       <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                      <SelectItem value="pending">Pending</SelectItem>
-                                      <SelectItem value="processing">Processing</SelectItem>
-                                      <SelectItem value="paid">Paid</SelectItem>
-                                      <SelectItem value="completed">Completed</SelectItem>
-                                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                                      {/* Only the current status and its legal next steps are offered */}
+                                      {[order.status, ...(ORDER_STATUS_TRANSITIONS[order.status] || [])].map((status) => (
+                                        <SelectItem key={status} value={status} className="capitalize">
+                                          {status}
+                                        </SelectItem>
+                                      ))}
                                     </SelectContent>
                                   </Select>
                                   
@@ -998,6 +1022,20 @@ Email: [Your Business Email]`);
                                           <label className="text-sm font-medium text-gray-700">Shipping Address</label>
                                           <p className="text-sm text-gray-900 mt-1">{order.shippingAddress || 'No shipping address provided'}</p>
                                         </div>
+                                        {order.status !== 'pending' && (
+                                          <Button variant="outline" size="sm" asChild>
+                                            <a href={`/api/admin/orders/${order.id}/invoice.pdf`} download>
+                                              <Download className="h-4 w-4 mr-2" />
+                                              Download Tax Invoice
+                                            </a>
+                                          </Button>
+                                        )}
+                                        <div>
+                                          <label className="text-sm font-medium text-gray-700">Status History</label>
+                                          <div className="mt-2">
+                                            <OrderStatusHistory orderId={order.id} />
+                                          </div>
+                                        </div>
                                       </div>
                                     </DialogContent>
                                   </Dialog>
@@ -1011,6 +1049,17 @@ Email: [Your Business Email]`);
                     </div>
                 )}
               </div>
+
+              <ListPagination
+                offset={orderPage.offset}
+                count={orderPage.items.length}
+                total={orderPage.total}
+                hasPrevious={orderPage.hasPrevious}
+                hasNext={orderPage.hasNext}
+                onPrevious={orderPage.previous}
+                onNext={orderPage.next}
+                label="orders"
+              />
             </div>
           </TabsContent>
 
@@ -1079,13 +1128,19 @@ Email: [Your Business Email]`);
                         Registered Users
                       </CardTitle>
                     </CardHeader>
-                    <CardContent>
+                    <CardContent className="space-y-4">
+                      <ListFilterBar
+                        values={userFilters}
+                        onChange={setUserFilters}
+                        sorts={USER_SORT_OPTIONS}
+                        idPrefix="users"
+                      />
                       <div className="overflow-x-auto">
-                        {usersLoading ? (
+                        {userPage.isLoading ? (
                           <div className="p-8 text-center">Loading users...</div>
-                        ) : usersError ? (
+                        ) : userPage.error ? (
                           <div className="p-8 text-center text-red-600">Failed to load users</div>
-                        ) : users.length === 0 ? (
+                        ) : userPage.items.length === 0 ? (
                           <div className="p-8 text-center text-gray-600">No users found</div>
                         ) : (
                           <table className="min-w-full">
@@ -1099,12 +1154,12 @@ Email: [Your Business Email]`);
                               </tr>
                             </thead>
                             <tbody className="divide-y divide-gray-200">
-                              {users.map((user, index) => {
+                              {userPage.items.map((user, index) => {
                                 const userOrders = orders.filter(order => 
                                   order.customerEmail === user.email || order.userId === user.uid
                                 );
                                 const totalSpent = userOrders
-                                  .filter(o => o.status === 'completed')
+                                  .filter(o => o.status === 'delivered')
                                   .reduce((sum, order) => {
                                     const total = typeof order.total === 'string' ? order.total : String(order.total || 0);
                                     return sum + parseFloat(total.replace(/[^\d.]/g, '') || '0');
@@ -1155,6 +1210,16 @@ Email: [Your Business Email]`);
                           </table>
                         )}
                       </div>
+                      <ListPagination
+                        offset={userPage.offset}
+                        count={userPage.items.length}
+                        total={userPage.total}
+                        hasPrevious={userPage.hasPrevious}
+                        hasNext={userPage.hasNext}
+                        onPrevious={userPage.previous}
+                        onNext={userPage.next}
+                        label="users"
+                      />
                     </CardContent>
                   </Card>
                 </div>
@@ -1165,47 +1230,31 @@ Email: [Your Business Email]`);
                 <div className="space-y-6">
                   {/* Filters */}
                   <Card>
-                    <CardContent className="p-6">
-                      <div className={`${isMobile ? 'space-y-4' : 'flex flex-wrap gap-4 items-center'}`}>
-                        <div className="flex items-center gap-2">
-                          <Search className="h-4 w-4 text-gray-400" />
-                          <Input
-                            placeholder="Search inquiries..."
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className={`${isMobile ? 'flex-1' : 'w-64'}`}
-                          />
-                        </div>
+                    <CardContent className="p-6 space-y-4">
+                      <ListFilterBar
+                        values={inquiryFilters}
+                        onChange={setInquiryFilters}
+                        statuses={INQUIRY_STATUS_OPTIONS}
+                        sorts={INQUIRY_SORT_OPTIONS}
+                        idPrefix="inquiries"
+                      />
 
-                        <div className={`${isMobile ? 'grid grid-cols-2 gap-3' : 'flex gap-4 items-center'}`}>
-                          <Select value={budgetFilter} onValueChange={setBudgetFilter}>
-                            <SelectTrigger className={`${isMobile ? 'w-full' : 'w-40'}`}>
-                              <Filter className="h-4 w-4 mr-2" />
-                              <SelectValue placeholder="Budget" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="all">All Budgets</SelectItem>
-                              <SelectItem value="₹30,000 - ₹50,000">₹30K - ₹50K</SelectItem>
-                              <SelectItem value="₹50,000 - ₹75,000">₹50K - ₹75K</SelectItem>
-                              <SelectItem value="₹75,000 - ₹1,00,000">₹75K - ₹100K</SelectItem>
-                            </SelectContent>
-                          </Select>
-
-                          <Select value={statusFilter} onValueChange={setStatusFilter}>
-                            <SelectTrigger className={`${isMobile ? 'w-full' : 'w-40'}`}>
-                              <Filter className="h-4 w-4 mr-2" />
-                              <SelectValue placeholder="Status" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="all">All Status</SelectItem>
-                              <SelectItem value="uncompleted">Uncompleted</SelectItem>
-                              <SelectItem value="completed">Completed</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
+                      <div className={`${isMobile ? 'space-y-4' : 'flex flex-wrap gap-4 items-center'}`}>
+                        <Select value={budgetFilter} onValueChange={setBudgetFilter}>
+                          <SelectTrigger className={`${isMobile ? 'w-full' : 'w-40'}`}>
+                            <Filter className="h-4 w-4 mr-2" />
+                            <SelectValue placeholder="Budget" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Budgets</SelectItem>
+                            <SelectItem value="₹30,000 - ₹50,000">₹30K - ₹50K</SelectItem>
+                            <SelectItem value="₹50,000 - ₹75,000">₹50K - ₹75K</SelectItem>
+                            <SelectItem value="₹75,000 - ₹1,00,000">₹75K - ₹100K</SelectItem>
+                          </SelectContent>
+                        </Select>
 
                         <div className={`text-sm text-gray-600 ${isMobile ? 'text-center' : 'flex items-center'}`}>
-                          Showing {filteredInquiries.length} of {analytics.totalInquiries} inquiries
+                          {inquiryPage.total ?? analytics.totalInquiries} of {analytics.totalInquiries} inquiries match
                         </div>
                       </div>
                     </CardContent>
@@ -1217,7 +1266,7 @@ Email: [Your Business Email]`);
                       <div className="flex items-center justify-between">
                         <CardTitle>Customer Inquiries</CardTitle>
                         <Button
-                          onClick={() => exportToCSV(filteredInquiries, 'customer-inquiries')}
+                          onClick={() => exportToCSV(inquiryPage.items, 'customer-inquiries')}
                           variant="outline"
                           size="sm"
                           className="flex items-center gap-2"
@@ -1230,11 +1279,11 @@ Email: [Your Business Email]`);
                     </CardHeader>
                     <CardContent>
                       <div className="overflow-x-auto">
-                        {inquiriesLoading ? (
+                        {inquiryPage.isLoading ? (
                           <div className="p-8 text-center">Loading inquiries...</div>
-                        ) : inquiriesError ? (
+                        ) : inquiryPage.error ? (
                           <div className="p-8 text-center text-red-600">Failed to load inquiries</div>
-                        ) : filteredInquiries.length === 0 ? (
+                        ) : inquiryPage.items.length === 0 ? (
                           <div className="p-8 text-center text-gray-600">No inquiries found</div>
                         ) : (
                           <table className="min-w-full">
@@ -1248,7 +1297,7 @@ Email: [Your Business Email]`);
                               </tr>
                             </thead>
                             <tbody className="divide-y divide-gray-200">
-                              {filteredInquiries.map((inquiry) => (
+                              {inquiryPage.items.map((inquiry) => (
                                 <tr key={inquiry.id} className="hover:bg-gray-50">
                                   <td className="px-6 py-4">
                                     <div>
@@ -1365,6 +1414,16 @@ Email: [Your Business Email]`);
                           </table>
                         )}
                       </div>
+                      <ListPagination
+                        offset={inquiryPage.offset}
+                        count={inquiryPage.items.length}
+                        total={inquiryPage.total}
+                        hasPrevious={inquiryPage.hasPrevious}
+                        hasNext={inquiryPage.hasNext}
+                        onPrevious={inquiryPage.previous}
+                        onNext={inquiryPage.next}
+                        label="inquiries"
+                      />
                     </CardContent>
                   </Card>
                 </div>
@@ -1431,13 +1490,24 @@ Email: [Your Business Email]`);
                   </Button>
                 </div>
               </div>
+
+              <div className="px-6 py-4 border-b border-gray-200">
+                <ListFilterBar
+                  values={subscriptionFilters}
+                  onChange={setSubscriptionFilters}
+                  statuses={SUBSCRIPTION_STATUS_OPTIONS}
+                  sorts={SUBSCRIPTION_SORT_OPTIONS}
+                  showAmount
+                  idPrefix="subscriptions"
+                />
+              </div>
               
               <div className="overflow-x-auto">
-                {subscriptionsLoading ? (
+                {subscriptionPage.isLoading ? (
                   <div className="p-8 text-center">Loading subscriptions...</div>
-                ) : subscriptionsError ? (
+                ) : subscriptionPage.error ? (
                   <div className="p-8 text-center text-red-600">Failed to load subscriptions</div>
-                ) : allSubscriptions.length === 0 ? (
+                ) : subscriptionPage.items.length === 0 ? (
                   <div className="p-8 text-center text-gray-600">No subscriptions found</div>
                 ) : (
                   <table className="min-w-full">
@@ -1452,7 +1522,7 @@ Email: [Your Business Email]`);
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
-                      {allSubscriptions.map((subscription) => (
+                      {subscriptionPage.items.map((subscription) => (
                         <tr key={subscription.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4">
                             <div>
@@ -1529,7 +1599,20 @@ Email: [Your Business Email]`);
                   </table>
                 )}
               </div>
+
+              <ListPagination
+                offset={subscriptionPage.offset}
+                count={subscriptionPage.items.length}
+                total={subscriptionPage.total}
+                hasPrevious={subscriptionPage.hasPrevious}
+                hasNext={subscriptionPage.hasNext}
+                onPrevious={subscriptionPage.previous}
+                onNext={subscriptionPage.next}
+                label="subscriptions"
+              />
             </div>
+
+            <SubscriptionPlanManager />
           </TabsContent>
 
           {/* Settings Tab */}
@@ -1739,6 +1822,11 @@ Email: [Your Business Email]`);
             <ComprehensiveInventoryDashboard />
           </TabsContent>
 
+          {/* Component Catalog Tab */}
+          <TabsContent value="catalog" className="space-y-6">
+            <CatalogManager />
+          </TabsContent>
+
           {/* Support Management Tab */}
           <TabsContent value="support" className="space-y-6">
             <SupportManagementDashboard />
@@ -3,7 +3,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Package, CheckCircle, Clock, Truck, Eye, Loader2 } from "lucide-react";
+import { Package, CheckCircle, Clock, Truck, Eye, Loader2, Download } from "lucide-react";
 import { formatPrice } from "@/lib/utils";
 import UserLayout from "@/components/user-layout";
 import SEOHead from "@/components/enhanced-seo-head";
@@ -181,10 +181,20 @@ export default function ProfileOrders() {
                         {order.status === "paid" && "Payment confirmed, preparing for shipment"}
                         {order.status === "pending" && "Awaiting payment confirmation"}
                       </div>
-                      <Button variant="outline" size="sm">
-                        <Eye className="h-4 w-4 mr-1" />
-                        View Details
-                      </Button>
+                      <div className="flex gap-2">
+                        {order.status !== "pending" && order.status !== "cancelled" && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/user/${user?.uid}/orders/${order.id}/invoice.pdf`} download>
+                              <Download className="h-4 w-4 mr-1" />
+                              Invoice
+                            </a>
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm">
+                          <Eye className="h-4 w-4 mr-1" />
+                          View Details
+                        </Button>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
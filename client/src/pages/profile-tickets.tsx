@@ -0,0 +1,409 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LifeBuoy, Loader2, MessageSquare, Plus, Send, ArrowLeft, Paperclip, X } from "lucide-react";
+import UserLayout from "@/components/user-layout";
+import SEOHead from "@/components/enhanced-seo-head";
+import TicketAttachmentList, { formatFileSize } from "@/components/ticket-attachment-list";
+import { SUPPORT_ATTACHMENT_LIMITS, SUPPORT_TICKET_CATEGORIES } from "@shared/schema";
+import type { Order, SupportTicket, SupportTicketCategory } from "@shared/schema";
+
+const NO_ORDER = "none";
+
+const statusLabels: Record<SupportTicket["status"], string> = {
+  open: "Open",
+  in_progress: "In progress",
+  waiting_customer: "Awaiting your reply",
+  resolved: "Resolved",
+  closed: "Closed"
+};
+
+const getStatusColor = (status: SupportTicket["status"]) => {
+  switch (status) {
+    case "open":
+      return "bg-blue-100 text-blue-800";
+    case "in_progress":
+      return "bg-yellow-100 text-yellow-800";
+    case "waiting_customer":
+      return "bg-orange-100 text-orange-800";
+    case "resolved":
+      return "bg-green-100 text-green-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function ProfileTickets() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState({
+    subject: "",
+    description: "",
+    category: "general" as SupportTicketCategory,
+    orderId: NO_ORDER
+  });
+
+  const ticketsUrl = `/api/support/user/${user?.uid}/tickets`;
+
+  const { data: tickets = [], isLoading, error } = useQuery<SupportTicket[]>({
+    queryKey: [ticketsUrl],
+    enabled: !!user?.uid,
+  });
+
+  const { data: orders = [] } = useQuery<Order[]>({
+    queryKey: [`/api/user/${user?.uid}/orders`],
+    enabled: !!user?.uid,
+  });
+
+  const selectedTicket = tickets.find(ticket => ticket.id === selectedTicketId);
+
+  const createTicketMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", ticketsUrl, {
+        subject: form.subject,
+        description: form.description,
+        category: form.category,
+        orderId: form.orderId === NO_ORDER ? undefined : Number(form.orderId),
+        email: user?.email || undefined,
+        name: user?.displayName || undefined
+      });
+      return response.json() as Promise<SupportTicket>;
+    },
+    onSuccess: (ticket) => {
+      queryClient.invalidateQueries({ queryKey: [ticketsUrl] });
+      setForm({ subject: "", description: "", category: "general", orderId: NO_ORDER });
+      setShowForm(false);
+      setSelectedTicketId(ticket.id);
+      toast({ title: "Ticket created", description: `We'll get back to you on ${ticket.id} shortly.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create ticket", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Replies with files go through the upload endpoint, which attaches them to the new reply
+  const replyMutation = useMutation({
+    mutationFn: async (ticketId: string) => {
+      if (files.length === 0) {
+        const response = await apiRequest("POST", `${ticketsUrl}/${ticketId}/replies`, { message: reply });
+        return response.json() as Promise<SupportTicket>;
+      }
+
+      const formData = new FormData();
+      if (reply.trim()) formData.append("message", reply);
+      files.forEach(file => formData.append("files", file));
+
+      const response = await fetch(`${ticketsUrl}/${ticketId}/attachments`, {
+        method: "POST",
+        body: formData,
+        credentials: "include"
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || error.message || "Upload failed");
+      }
+      return response.json() as Promise<SupportTicket>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ticketsUrl] });
+      setReply("");
+      setFiles([]);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send reply", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const addFiles = (selected: FileList | null) => {
+    const next = [...files, ...Array.from(selected || [])];
+    const oversized = next.find(file => file.size > SUPPORT_ATTACHMENT_LIMITS.maxFileBytes);
+    if (oversized) {
+      toast({
+        title: "File too large",
+        description: `${oversized.name} is over ${formatFileSize(SUPPORT_ATTACHMENT_LIMITS.maxFileBytes)}`,
+        variant: "destructive"
+      });
+    } else if (next.length > SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload} files at a time`,
+        variant: "destructive"
+      });
+    } else {
+      setFiles(next);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const canSubmit = form.subject.trim().length >= 3 && form.description.trim().length >= 10;
+
+  return (
+    <UserLayout>
+      <SEOHead
+        title="My Tickets"
+        description="Open and follow up on support requests for your orders"
+      />
+      <div className="max-w-6xl">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-deep-blue">My Tickets</h1>
+            <p className="text-gray-600 mt-1">Get help with your orders and builds</p>
+          </div>
+          {!showForm && !selectedTicket && (
+            <Button onClick={() => setShowForm(true)} className="bg-tech-orange hover:bg-orange-600">
+              <Plus className="h-4 w-4 mr-1" />
+              New Ticket
+            </Button>
+          )}
+        </div>
+
+        {showForm ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Open a support ticket</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="ticket-subject">Subject</Label>
+                <Input
+                  id="ticket-subject"
+                  value={form.subject}
+                  onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                  placeholder="Briefly describe the issue"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Category</Label>
+                  <Select
+                    value={form.category}
+                    onValueChange={(value) => setForm({ ...form, category: value as SupportTicketCategory })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUPPORT_TICKET_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category} className="capitalize">
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Related order</Label>
+                  <Select value={form.orderId} onValueChange={(value) => setForm({ ...form, orderId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ORDER}>Not about a specific order</SelectItem>
+                      {orders.map(order => (
+                        <SelectItem key={order.id} value={String(order.id)}>
+                          Order {order.orderNumber || `#${order.id}`} - {new Date(order.createdAt).toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="ticket-description">Description</Label>
+                <Textarea
+                  id="ticket-description"
+                  rows={6}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Tell us what happened and anything you've already tried"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createTicketMutation.mutate()}
+                  disabled={!canSubmit || createTicketMutation.isPending}
+                  className="bg-tech-orange hover:bg-orange-600"
+                >
+                  {createTicketMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Submit Ticket
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : selectedTicket ? (
+          <Card>
+            <CardHeader className="pb-4">
+              <Button variant="ghost" size="sm" className="w-fit -ml-2 mb-2" onClick={() => setSelectedTicketId(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                All tickets
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg">{selectedTicket.subject}</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    {selectedTicket.id}
+                    {selectedTicket.orderId && ` · Order #${selectedTicket.orderId}`}
+                    {` · Opened ${new Date(selectedTicket.createdAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Badge className={getStatusColor(selectedTicket.status)}>
+                  {statusLabels[selectedTicket.status]}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium mb-1">{selectedTicket.userName}</p>
+                <p className="text-gray-700 whitespace-pre-wrap">{selectedTicket.description}</p>
+                <TicketAttachmentList attachments={selectedTicket.attachments} />
+              </div>
+
+              {selectedTicket.responses.map(response => (
+                <div
+                  key={response.id}
+                  className={`p-4 rounded-lg ${response.authorType === "user" ? "bg-gray-50" : "bg-blue-50 border border-blue-100"}`}
+                >
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium">{response.authorName}</span>
+                    <span className="text-gray-500">{new Date(response.timestamp).toLocaleString()}</span>
+                  </div>
+                  <p className="text-gray-700 whitespace-pre-wrap">{response.message}</p>
+                  <TicketAttachmentList attachments={response.attachments} />
+                </div>
+              ))}
+
+              {selectedTicket.status === "closed" ? (
+                <p className="text-sm text-gray-600">This ticket is closed. Open a new ticket if you need more help.</p>
+              ) : (
+                <div className="space-y-2 pt-4 border-t">
+                  <Textarea
+                    rows={4}
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Write a reply..."
+                  />
+                  {files.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {files.map((file, index) => (
+                        <span key={`${file.name}-${index}`} className="flex items-center gap-1 text-xs px-2 py-1 rounded border bg-gray-50">
+                          {file.name} ({formatFileSize(file.size)})
+                          <button
+                            type="button"
+                            aria-label={`Remove ${file.name}`}
+                            onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept="image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain"
+                      className="hidden"
+                      onChange={(e) => addFiles(e.target.files)}
+                    />
+                    <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                      <Paperclip className="h-4 w-4 mr-1" />
+                      Attach Files
+                    </Button>
+                    <Button
+                      onClick={() => replyMutation.mutate(selectedTicket.id)}
+                      disabled={(!reply.trim() && files.length === 0) || replyMutation.isPending}
+                      className="bg-tech-orange hover:bg-orange-600"
+                    >
+                      {replyMutation.isPending
+                        ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        : <Send className="h-4 w-4 mr-1" />}
+                      Send Reply
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Loader2 className="h-12 w-12 text-blue-600 mx-auto mb-4 animate-spin" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Loading tickets...</h3>
+            </CardContent>
+          </Card>
+        ) : error ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <LifeBuoy className="h-12 w-12 text-red-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Error loading tickets</h3>
+              <p className="text-gray-600 mb-6">Unable to fetch your support tickets at this time</p>
+              <Button onClick={() => window.location.reload()} className="bg-tech-orange hover:bg-orange-600">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : tickets.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <LifeBuoy className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No tickets yet</h3>
+              <p className="text-gray-600 mb-6">Need help with an order? Our support team is here for you</p>
+              <Button onClick={() => setShowForm(true)} className="bg-tech-orange hover:bg-orange-600">
+                Open a Ticket
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {tickets.map(ticket => (
+              <Card
+                key={ticket.id}
+                className="hover:shadow-lg transition-shadow cursor-pointer"
+                onClick={() => setSelectedTicketId(ticket.id)}
+              >
+                <CardContent className="p-6 flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold">{ticket.subject}</h3>
+                    <p className="text-sm text-gray-600">
+                      {ticket.id}
+                      {ticket.orderId && ` · Order #${ticket.orderId}`}
+                      {` · Updated ${new Date(ticket.updatedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="flex items-center text-sm text-gray-500">
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      {ticket.responses.length}
+                    </span>
+                    <Badge className={getStatusColor(ticket.status)}>
+                      {statusLabels[ticket.status]}
+                    </Badge>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </UserLayout>
+  );
+}
@@ -7,16 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Check, Star, Crown, Building2, ShoppingCart } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-
-interface SubscriptionPlan {
-  id: string;
-  name: string;
-  billingCycle: 'monthly' | 'quarterly' | 'yearly';
-  discountPercentage: number;
-  description: string;
-  minimumItems: number;
-  features: string[];
-}
+import type { SubscriptionPlan } from '@shared/schema';
 
 interface CartItem {
   id: number;
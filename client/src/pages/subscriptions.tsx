@@ -22,9 +22,12 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import SubscriptionChangeDialog from '@/components/subscription-change-dialog';
+import type { SubscriptionAdjustment } from '@shared/schema';
 
 interface Subscription {
   id: string;
+  planId: string;
   planName: string;
   status: 'active' | 'paused' | 'cancelled' | 'expired' | 'pending';
   billingCycle: 'monthly' | 'quarterly' | 'yearly';
@@ -45,6 +48,7 @@ interface Subscription {
   failedPayments: number;
   createdAt: string;
   cancellationReason?: string;
+  pendingAdjustments?: SubscriptionAdjustment[];
 }
 
 interface SubscriptionOrder {
@@ -54,6 +58,7 @@ interface SubscriptionOrder {
   amount: number;
   billingPeriod: string;
   deliveryDate?: string;
+  adjustments?: SubscriptionAdjustment[];
   createdAt: string;
 }
 
@@ -349,6 +354,22 @@ export default function Subscriptions() {
                 </div>
               </div>
 
+              {subscription.pendingAdjustments && subscription.pendingAdjustments.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-3">On Your Next Bill</h4>
+                  <div className="space-y-1">
+                    {subscription.pendingAdjustments.map((adjustment) => (
+                      <div key={adjustment.id} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{adjustment.description}</span>
+                        <span className={adjustment.amount < 0 ? 'text-green-600' : ''}>
+                          {adjustment.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(adjustment.amount))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-2 pt-4 border-t">
                 {subscription.status === 'active' && (
@@ -363,6 +384,13 @@ export default function Subscriptions() {
                       <Pause className="h-4 w-4 mr-1" />
                       Pause
                     </Button>
+
+                    <SubscriptionChangeDialog
+                      userId={user.uid}
+                      subscriptionId={subscription.id}
+                      planId={subscription.planId}
+                      items={subscription.items}
+                    />
                     
                     <Dialog>
                       <DialogTrigger asChild>
@@ -441,6 +469,11 @@ export default function Subscriptions() {
                       <div className="text-sm text-muted-foreground">
                         {order.billingPeriod} • {formatDate(order.createdAt)}
                       </div>
+                      {order.adjustments?.map((adjustment) => (
+                        <div key={adjustment.id} className="text-xs text-muted-foreground">
+                          {adjustment.description}: {adjustment.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(adjustment.amount))}
+                        </div>
+                      ))}
                     </div>
                     <div className="text-right">
                       <div className="font-medium">{formatCurrency(order.amount)}</div>
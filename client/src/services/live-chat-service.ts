@@ -1,5 +1,8 @@
 // Live Chat Integration Service
 import { firebaseRealtimeStorage as storage } from '../../../server/firebase-realtime-storage';
+import { LIVE_CHAT_PATH } from '@shared/live-chat';
+import type { LiveChatClientMessage, LiveChatServerMessage } from '@shared/live-chat';
+import type { ChatMessage as StoredChatMessage, ChatSessionStatus } from '@shared/schema';
 
 interface ChatMessage {
   id: string;
@@ -53,14 +56,14 @@ class LiveChatService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private messageCounter = 0;
+  private typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor() {
     this.initializeAutoResponses();
     // Clear any existing sessions with old message IDs to prevent duplicate key warnings
     this.activeSessions.clear();
     this.clearOldChatSessions();
-    // WebSocket server not implemented yet - disabling to prevent console errors
-    // this.initializeWebSocket();
+    // The socket is opened when the first chat session starts
   }
 
   // Clear old chat sessions from localStorage to prevent duplicate key warnings
@@ -142,13 +145,17 @@ class LiveChatService {
   private initializeWebSocket() {
     try {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/ws/chat`;
+      const wsUrl = `${protocol}//${window.location.host}${LIVE_CHAT_PATH}`;
       
       this.websocket = new WebSocket(wsUrl);
 
+      // Rejoining replays anything an agent said while the connection was down
       this.websocket.onopen = () => {
         console.log('Live chat WebSocket connected');
         this.reconnectAttempts = 0;
+        this.activeSessions.forEach(session => {
+          if (session.status !== 'closed') this.send({ type: 'join', sessionId: session.id });
+        });
       };
 
       this.websocket.onmessage = (event) => {
@@ -174,8 +181,11 @@ class LiveChatService {
     }
   }
 
-  // Attempt to reconnect WebSocket
+  // Attempt to reconnect WebSocket while a chat is still open
   private attemptReconnect() {
+    this.websocket = null;
+    if (this.activeSessions.size === 0) return;
+
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       setTimeout(() => {
@@ -185,18 +195,60 @@ class LiveChatService {
     }
   }
 
+  // Open the socket if it is not already connected or connecting
+  private ensureWebSocket() {
+    if (!this.websocket) {
+      this.initializeWebSocket();
+    }
+  }
+
+  private send(message: LiveChatClientMessage) {
+    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
+      this.websocket.send(JSON.stringify(message));
+    }
+  }
+
   // Handle incoming WebSocket messages
-  private handleWebSocketMessage(data: any) {
+  private handleWebSocketMessage(data: LiveChatServerMessage) {
     switch (data.type) {
+      case 'history':
+        // Customer and AI messages are already on screen; only agent replies can have been missed
+        data.messages
+          .filter(message => message.role === 'agent')
+          .forEach(message => this.addMessageToSession(data.sessionId, this.fromStoredMessage(message)));
+        if (data.status) this.updateSessionStatus(data.sessionId, this.toLocalStatus(data.status));
+        break;
       case 'new_message':
-        this.addMessageToSession(data.sessionId, data.message);
+        this.addMessageToSession(data.sessionId, this.fromStoredMessage(data.message));
         break;
       case 'session_update':
-        this.updateSessionStatus(data.sessionId, data.status);
+        this.updateSessionStatus(data.sessionId, this.toLocalStatus(data.status));
         break;
       case 'agent_typing':
         this.handleAgentTyping(data.sessionId, data.isTyping);
         break;
+      case 'error':
+        console.warn('Live chat error:', data.message);
+        break;
+    }
+  }
+
+  private fromStoredMessage(message: StoredChatMessage): ChatMessage {
+    return {
+      id: message.id,
+      senderId: message.role === 'agent' ? 'support_agent' : message.role,
+      senderType: message.role === 'agent' ? 'admin' : message.role === 'user' ? 'user' : 'bot',
+      message: message.content,
+      timestamp: message.createdAt,
+      isRead: false
+    };
+  }
+
+  private toLocalStatus(status: ChatSessionStatus): ChatSession['status'] {
+    switch (status) {
+      case 'with_agent': return 'transferred';
+      case 'escalated': return 'waiting';
+      default: return status;
     }
   }
 
@@ -232,7 +284,7 @@ class LiveChatService {
 
       // Get AI-powered response instead of simple auto-response
       try {
-        const aiResponse = await this.getAIResponse(sessionId, initialMessage);
+        const aiResponse = await this.getAIResponse(session, initialMessage);
         if (aiResponse) {
           const botMessage: ChatMessage = {
             id: `msg_${Date.now()}_${++this.messageCounter}`,
@@ -276,6 +328,13 @@ class LiveChatService {
     // Persist to Firebase
     await this.persistSession(session);
 
+    // Join the session's room so an agent who takes over can reach the customer
+    if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.send({ type: 'join', sessionId });
+    } else {
+      this.ensureWebSocket();
+    }
+
     return sessionId;
   }
 
@@ -296,11 +355,15 @@ class LiveChatService {
     session.messages.push(chatMessage);
     session.lastActivity = Date.now();
 
-    // AI-powered response for user messages
+    if (senderType === 'user') {
+      this.stopTyping(sessionId);
+    }
+
+    // AI-powered response for user messages; while an agent has the chat the server sends no reply
     if (senderType === 'user') {
       setTimeout(async () => {
         try {
-          const aiResponse = await this.getAIResponse(sessionId, message);
+          const aiResponse = await this.getAIResponse(session, message);
           if (aiResponse) {
             const botMessage: ChatMessage = {
               id: `msg_${Date.now()}_${++this.messageCounter}`,
@@ -327,7 +390,6 @@ class LiveChatService {
             }
 
             await this.persistSession(session);
-            this.broadcastMessage(sessionId, botMessage);
             
             // Notify widget of new message
             window.dispatchEvent(new CustomEvent('newChatMessage', {
@@ -348,7 +410,6 @@ class LiveChatService {
           };
           session.messages.push(fallbackMessage);
           await this.persistSession(session);
-          this.broadcastMessage(sessionId, fallbackMessage);
           
           // Notify widget of new message
           window.dispatchEvent(new CustomEvent('newChatMessage', {
@@ -361,14 +422,11 @@ class LiveChatService {
     // Persist updated session
     await this.persistSession(session);
 
-    // Broadcast via WebSocket
-    this.broadcastMessage(sessionId, chatMessage);
-
     return chatMessage;
   }
 
-  // Get AI-powered response from backend
-  private async getAIResponse(sessionId: string, message: string): Promise<AIResponse | null> {
+  // Get AI-powered response from backend; the server keeps the transcript under the session id
+  private async getAIResponse(session: ChatSession, message: string): Promise<AIResponse | null> {
     try {
       const response = await fetch('/api/chat/ai-response', {
         method: 'POST',
@@ -376,8 +434,11 @@ class LiveChatService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          sessionId,
-          message
+          sessionId: session.id,
+          message,
+          userId: session.userId || undefined,
+          userEmail: session.userEmail || undefined,
+          userName: session.userName || undefined
         })
       });
       
@@ -386,6 +447,9 @@ class LiveChatService {
       }
       
       const data = await response.json();
+      if (data.handledByAgent) {
+        return null;
+      }
       return {
         response: data.response,
         shouldEscalate: data.escalation?.shouldEscalate || false,
@@ -430,15 +494,22 @@ class LiveChatService {
     return null;
   }
 
-  // Broadcast message via WebSocket
-  private broadcastMessage(sessionId: string, message: ChatMessage) {
-    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-      this.websocket.send(JSON.stringify({
-        type: 'new_message',
-        sessionId,
-        message
-      }));
+  // Tell the agent the customer is typing; stops by itself after a few quiet seconds
+  notifyTyping(sessionId: string) {
+    if (!this.typingTimers.has(sessionId)) {
+      this.send({ type: 'typing', sessionId, isTyping: true });
+    } else {
+      clearTimeout(this.typingTimers.get(sessionId));
     }
+    this.typingTimers.set(sessionId, setTimeout(() => this.stopTyping(sessionId), 3000));
+  }
+
+  private stopTyping(sessionId: string) {
+    const timer = this.typingTimers.get(sessionId);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.typingTimers.delete(sessionId);
+    this.send({ type: 'typing', sessionId, isTyping: false });
   }
 
   // Persist session to Firebase
@@ -456,21 +527,30 @@ class LiveChatService {
     return this.activeSessions.get(sessionId) || null;
   }
 
-  // Add message to existing session
+  // Add message to existing session; replays after a reconnect are skipped by id
   private addMessageToSession(sessionId: string, message: ChatMessage) {
     const session = this.activeSessions.get(sessionId);
-    if (session) {
+    if (session && !session.messages.some(existing => existing.id === message.id)) {
       session.messages.push(message);
       session.lastActivity = Date.now();
+      this.persistSession(session);
+
+      window.dispatchEvent(new CustomEvent('newChatMessage', {
+        detail: { sessionId, message }
+      }));
     }
   }
 
   // Update session status
   private updateSessionStatus(sessionId: string, status: ChatSession['status']) {
     const session = this.activeSessions.get(sessionId);
-    if (session) {
+    if (session && session.status !== status) {
       session.status = status;
       session.lastActivity = Date.now();
+
+      window.dispatchEvent(new CustomEvent('chatSessionStatus', {
+        detail: { sessionId, status }
+      }));
     }
   }
 
@@ -492,6 +572,8 @@ class LiveChatService {
       session.lastActivity = Date.now();
       
       await this.persistSession(session);
+      this.stopTyping(sessionId);
+      this.send({ type: 'leave', sessionId });
       this.activeSessions.delete(sessionId);
     }
   }
@@ -6,6 +6,7 @@ interface EmailData {
   subject: string;
   html: string;
   text?: string;
+  replyTo?: string;
 }
 
 export async function sendEmail(emailData: EmailData): Promise<boolean> {
@@ -363,4 +364,96 @@ export function createOrderConfirmationEmail(orderData: any) {
   `;
   
   return { subject, html, text, orderNumber };
+}
+
+const ORDER_STATUS_MESSAGES: Record<string, { headline: string; detail: string }> = {
+  paid: {
+    headline: 'Payment Received',
+    detail: 'We have received your payment and your order is queued for our build team.'
+  },
+  processing: {
+    headline: 'Your Order Is Being Processed',
+    detail: 'We are sourcing the components for your custom PC.'
+  },
+  assembled: {
+    headline: 'Your PC Has Been Assembled',
+    detail: 'Your build has been assembled and has passed our quality testing.'
+  },
+  shipped: {
+    headline: 'Your Order Has Shipped',
+    detail: 'Your PC is on its way to you.'
+  },
+  delivered: {
+    headline: 'Your Order Has Been Delivered',
+    detail: 'Your PC has been delivered. We hope you enjoy it!'
+  },
+  cancelled: {
+    headline: 'Your Order Has Been Cancelled',
+    detail: 'Your order has been cancelled. Any payment made will be refunded to the original payment method.'
+  },
+  refunded: {
+    headline: 'Your Refund Has Been Processed',
+    detail: 'A refund for your order has been issued to the original payment method.'
+  },
+  returned: {
+    headline: 'Your Return Has Been Received',
+    detail: 'We have received your returned order and will process your refund shortly.'
+  }
+};
+
+export function createOrderStatusUpdateEmail(order: any, status: string, note?: string) {
+  const message = ORDER_STATUS_MESSAGES[status] || {
+    headline: 'Your Order Has Been Updated',
+    detail: `Your order status is now ${status}.`
+  };
+  const subject = `${message.headline} - ${order.orderNumber} - FusionForge PCs`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="text-align: center; margin-bottom: 30px; padding-bottom: 20px; border-bottom: 2px solid #f97316;">
+        <h1 style="color: #1e3a8a; margin: 0; font-size: 28px;">FusionForge PCs</h1>
+        <p style="color: #64748b; margin: 5px 0; font-size: 16px;">Where Innovation Meets Performance</p>
+      </div>
+      
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h2 style="color: #1e3a8a; margin: 0; font-size: 24px;">${message.headline}</h2>
+        <p style="color: #64748b; margin: 10px 0;">${message.detail}</p>
+      </div>
+      
+      <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3 style="color: #1e3a8a; margin-top: 0;">Order Information</h3>
+        <p><strong>Order Number:</strong> ${order.orderNumber}</p>
+        <p><strong>Status:</strong> <span style="text-transform: capitalize;">${status}</span></p>
+        ${order.trackingNumber && status === 'shipped' ? `<p><strong>Tracking Number:</strong> ${order.trackingNumber}</p>` : ''}
+      </div>
+      
+      ${note ? `
+      <div style="background: #f1f5f9; padding: 15px; border-radius: 8px; margin: 20px 0;">
+        <h4 style="color: #1e3a8a; margin-top: 0;">Note from our team:</h4>
+        <p style="color: #64748b; margin: 0;">${note}</p>
+      </div>
+      ` : ''}
+      
+      <div style="border-top: 1px solid #e2e8f0; padding-top: 20px; margin-top: 30px; text-align: center; color: #64748b; font-size: 14px;">
+        <p>Questions? Contact us at ${process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com'} or +91 9363599577</p>
+        <p style="margin-top: 15px; font-weight: bold;">FusionForge PCs - Forge Your Power</p>
+      </div>
+    </div>
+  `;
+
+  const text = `
+    FusionForge PCs - ${message.headline}
+    
+    ${message.detail}
+    
+    Order Number: ${order.orderNumber}
+    Status: ${status}
+    ${order.trackingNumber && status === 'shipped' ? `Tracking Number: ${order.trackingNumber}` : ''}
+    
+    ${note ? `Note from our team: ${note}` : ''}
+    
+    Questions? Contact us at ${process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com'} or +91 9363599577
+  `;
+
+  return { subject, html, text };
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { initializeApp, getApps } from "firebase/app";
-import { getDatabase, ref, get, set, push, update, remove, child, query, orderByChild, equalTo, type Database } from "firebase/database";
+import { getDatabase, ref, get, set, push, update, remove, child, query, orderByChild, equalTo, endBefore, startAfter, limitToFirst, limitToLast, runTransaction, type Database } from "firebase/database";
+import { createHash } from "crypto";
 import { logger } from "./utils/logger";
+import { formatDocumentNumber } from "./utils/financial-year";
+import { CustomError } from "./middleware/error-handler";
 import { 
   createUserProfileLocal, 
   getUserProfileLocal, 
@@ -25,8 +28,61 @@ import type {
   Subscription,
   InsertSubscription,
   SubscriptionOrder,
-  InsertSubscriptionOrder
+  InsertSubscriptionOrder,
+  SubscriptionBillingUpdate,
+  SubscriptionOrderBillingUpdate,
+  SubscriptionPlan,
+  SubscriptionPlanStatus,
+  SubscriptionPlanTerms,
+  SubscriptionPlanUpdate,
+  SubscriptionPlanVersion,
+  InsertSubscriptionPlan,
+  DiscountCode,
+  InsertDiscountCode,
+  BulkPricingTier,
+  DiscountRedemption,
+  DiscountRedemptionResult,
+  StockMovement,
+  InsertStockMovement,
+  StockReservation,
+  InsertStockReservation,
+  StockAlert,
+  AdminSetting,
+  OrderStatus,
+  OrderStatusEvent,
+  InsertOrderStatusEvent,
+  OrderRefund,
+  InsertOrderRefund,
+  OrderRefundStatus,
+  CreditNote,
+  InsertCreditNote,
+  TaxInvoice,
+  InsertTaxInvoice,
+  InvoiceDocument,
+  InsertInvoiceDocument,
+  CatalogComponent,
+  InsertCatalogComponent,
+  SupportTicket,
+  SupportTicketResponse,
+  SupportTicketUpdate,
+  InsertSupportTicket,
+  SupportSlaPolicy,
+  InsertSupportSlaPolicy,
+  ChatSession,
+  ChatSessionStatus,
+  ChatSessionUpdate,
+  InsertChatSession,
+  ChatMessage,
+  InsertChatMessage,
+  SyncOutboxEntry,
+  InsertSyncOutboxEntry,
+  ListPage,
+  OrderListQuery,
+  InquiryListQuery,
+  UserListQuery,
+  SubscriptionListQuery
 } from "../shared/schema";
+import { pageOrders, pageInquiries, pageUserProfiles, pageSubscriptions, decodeListCursor, toListPage, type ListOrdering, type ListSortValue } from "./storage/list-query";
 
 export interface IStorage {
   // PC Builds
@@ -34,6 +90,7 @@ export interface IStorage {
   getPcBuildById(id: number): Promise<PcBuild | undefined>;
   getPcBuildsByCategory(category: string): Promise<PcBuild[]>;
   createPcBuild(build: InsertPcBuild): Promise<PcBuild>;
+  updatePcBuild(id: number, build: Partial<InsertPcBuild>): Promise<PcBuild>;
   updatePcBuildStock(id: number, stockQuantity: number): Promise<PcBuild>;
 
   // Components
@@ -44,6 +101,7 @@ export interface IStorage {
   // Inquiries
   createInquiry(inquiry: InsertInquiry): Promise<Inquiry>;
   getInquiries(): Promise<Inquiry[]>;
+  listInquiries(query: InquiryListQuery): Promise<ListPage<Inquiry>>;
   updateInquiryStatus(id: number, status: string): Promise<Inquiry>;
   getInquiriesByStatus(status: string): Promise<Inquiry[]>;
   clearAllInquiries(): Promise<void>;
@@ -51,22 +109,78 @@ export interface IStorage {
   // Inventory Management
   getLowStockItems(): Promise<{builds: PcBuild[], components: Component[]}>;
   getStockMovements(itemId?: number, itemType?: 'build' | 'component'): Promise<any[]>;
-  createStockMovement(movement: any): Promise<any>;
-  getStockAlerts(): Promise<any[]>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  getStockAlerts(): Promise<StockAlert[]>;
   resolveStockAlert(alertId: number): Promise<void>;
+  reserveBuildStock(buildId: number, quantity: number): Promise<boolean>;
+  releaseBuildStock(buildId: number, quantity: number): Promise<void>;
+  commitBuildStock(buildId: number, quantity: number): Promise<void>;
+  restockBuild(buildId: number, quantity: number): Promise<void>;
+
+  // Stock Reservations
+  createStockReservation(reservation: InsertStockReservation): Promise<StockReservation>;
+  getStockReservation(id: string): Promise<StockReservation | undefined>;
+  getExpiredStockReservations(before: number): Promise<StockReservation[]>;
+  transitionStockReservation(
+    id: string,
+    status: 'committed' | 'released',
+    updates?: { orderId?: number; releaseReason?: string }
+  ): Promise<StockReservation | undefined>;
 
   // User Management
   getUserProfile(uid: string): Promise<UserProfile | undefined>;
   createUserProfile(profile: InsertUserProfile): Promise<UserProfile>;
   updateUserProfile(uid: string, profile: Partial<InsertUserProfile>): Promise<UserProfile>;
+  getAllUserProfiles(): Promise<UserProfile[]>;
+  listUserProfiles(query: UserListQuery): Promise<ListPage<UserProfile>>;
   
   // Orders Management
   getUserOrders(userId: string): Promise<Order[]>;
   getAllOrders(): Promise<Order[]>;
+  listOrders(query: OrderListQuery): Promise<ListPage<Order>>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrderStatus(id: number, status: string): Promise<Order>;
   getOrderById(id: number): Promise<Order | undefined>;
+  getOrderByRazorpayOrderId(razorpayOrderId: string): Promise<Order | undefined>;
   clearAllOrders(): Promise<void>;
+  transitionOrderStatus(
+    id: number,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    updates?: { trackingNumber?: string; razorpayPaymentId?: string }
+  ): Promise<Order | undefined>;
+  createOrderStatusEvent(event: InsertOrderStatusEvent): Promise<OrderStatusEvent>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusEvent[]>;
+  addOrderRefundedAmount(id: number, amount: number): Promise<Order | undefined>;
+  updateOrderRefundStatus(id: number, refundStatus: OrderRefundStatus): Promise<Order | undefined>;
+
+  // Refunds & Credit Notes
+  createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund>;
+  // Records a pending refund only if it fits in what the order has left after its pending and processed
+  // refunds, checked and inserted atomically; undefined when it does not fit
+  claimOrderRefund(refund: InsertOrderRefund, orderTotal: number): Promise<OrderRefund | undefined>;
+  // Moves a claimed refund to the id Razorpay issued for it; undefined once another caller has moved it
+  rekeyOrderRefund(id: string, refundId: string): Promise<OrderRefund | undefined>;
+  getOrderRefund(id: string): Promise<OrderRefund | undefined>;
+  getOrderRefunds(orderId: number): Promise<OrderRefund[]>;
+  transitionOrderRefund(
+    id: string,
+    status: 'processed' | 'failed',
+    updates?: { failureReason?: string }
+  ): Promise<OrderRefund | undefined>;
+  updateOrderRefund(id: string, updates: { creditNoteNumber?: string }): Promise<OrderRefund | undefined>;
+  createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote>;
+  getCreditNotes(orderId: number): Promise<CreditNote[]>;
+
+  // Tax Invoices (one per order; creating again returns the invoice already issued). The number is
+  // taken from the sequence only once the order is known to have no invoice, so the series has no gaps
+  createTaxInvoice(invoice: InsertTaxInvoice, numbering: { sequence: string; prefix: string }): Promise<TaxInvoice>;
+  getTaxInvoiceByOrderId(orderId: number): Promise<TaxInvoice | undefined>;
+  saveInvoiceDocument(document: InsertInvoiceDocument): Promise<InvoiceDocument>;
+  getInvoiceDocument(orderId: number): Promise<InvoiceDocument | undefined>;
+
+  // Document Sequences
+  getNextSequenceValue(sequence: string): Promise<number>;
   
   // Saved Builds Management
   getUserSavedBuilds(userId: string): Promise<SavedBuild[]>;
@@ -93,6 +207,7 @@ export interface IStorage {
   // Subscription Management
   getUserSubscriptions(userId: string): Promise<Subscription[]>;
   getAllSubscriptions(): Promise<Subscription[]>;
+  listSubscriptions(query: SubscriptionListQuery): Promise<ListPage<Subscription>>;
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   updateSubscription(id: string, subscription: Partial<InsertSubscription>): Promise<Subscription>;
   updateSubscriptionStatus(id: string, status: 'active' | 'paused' | 'cancelled' | 'expired' | 'pending'): Promise<Subscription>;
@@ -102,6 +217,7 @@ export interface IStorage {
   resumeSubscription(id: string): Promise<Subscription>;
   getActiveSubscriptions(): Promise<Subscription[]>;
   getSubscriptionsDueBilling(date?: Date): Promise<Subscription[]>;
+  updateSubscriptionBilling(id: string, updates: SubscriptionBillingUpdate): Promise<Subscription | undefined>;
 
   // Subscription Orders Management
   getSubscriptionOrders(subscriptionId: string): Promise<SubscriptionOrder[]>;
@@ -109,6 +225,80 @@ export interface IStorage {
   createSubscriptionOrder(order: InsertSubscriptionOrder): Promise<SubscriptionOrder>;
   updateSubscriptionOrderStatus(id: string, status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'failed'): Promise<SubscriptionOrder>;
   getSubscriptionOrderById(id: string): Promise<SubscriptionOrder | undefined>;
+  updateSubscriptionOrderBilling(id: string, updates: SubscriptionOrderBillingUpdate): Promise<SubscriptionOrder | undefined>;
+  getSubscriptionOrdersAwaitingRetry(before: number): Promise<SubscriptionOrder[]>;
+
+  // Subscription Plans; every create or update also stores an immutable copy of the terms as a version
+  getSubscriptionPlans(): Promise<SubscriptionPlan[]>;
+  getSubscriptionPlan(id: string): Promise<SubscriptionPlan | undefined>;
+  createSubscriptionPlan(plan: InsertSubscriptionPlan, createdBy?: string): Promise<SubscriptionPlan | undefined>; // undefined when the id is taken
+  updateSubscriptionPlan(id: string, updates: SubscriptionPlanUpdate, createdBy?: string): Promise<SubscriptionPlan | undefined>;
+  setSubscriptionPlanStatus(id: string, status: SubscriptionPlanStatus): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]>;
+  getSubscriptionPlanVersion(planId: string, version: number): Promise<SubscriptionPlanVersion | undefined>;
+
+  // Discounts Management
+  getDiscountCodes(): Promise<DiscountCode[]>;
+  getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined>;
+  createDiscountCode(discount: InsertDiscountCode): Promise<DiscountCode>;
+  updateDiscountCode(id: string, updates: Partial<InsertDiscountCode>): Promise<DiscountCode | undefined>;
+  getBulkPricingTiers(): Promise<BulkPricingTier[]>;
+  saveBulkPricingTier(tier: BulkPricingTier): Promise<BulkPricingTier>;
+  getDiscountRedemptions(discountId: string, userId?: string): Promise<DiscountRedemption[]>;
+  // Claims one use for a checkout; claiming again for a checkout that already holds a use returns that one
+  redeemDiscountCode(discountId: string, userId: string, checkoutId: string): Promise<DiscountRedemptionResult>;
+  // Gives a checkout's use back to the code; false when the checkout held none
+  releaseDiscountRedemption(discountId: string, checkoutId: string): Promise<boolean>;
+
+  // Component Catalog
+  getCatalogComponents(): Promise<CatalogComponent[]>;
+  getCatalogComponent(id: string): Promise<CatalogComponent | undefined>;
+  createCatalogComponent(component: InsertCatalogComponent): Promise<CatalogComponent>;
+  updateCatalogComponent(id: string, updates: Partial<InsertCatalogComponent>): Promise<CatalogComponent | undefined>;
+  deleteCatalogComponent(id: string): Promise<boolean>;
+
+  // Support Tickets
+  createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
+  getSupportTicket(id: string): Promise<SupportTicket | undefined>;
+  getSupportTickets(filters?: { userId?: string }): Promise<SupportTicket[]>;
+  // The ticket an email with this Message-ID opened or was added to
+  getSupportTicketByMessageId(messageId: string): Promise<SupportTicket | undefined>;
+  updateSupportTicket(id: string, updates: SupportTicketUpdate): Promise<SupportTicket | undefined>;
+  addSupportTicketResponse(ticketId: string, response: SupportTicketResponse): Promise<SupportTicket | undefined>;
+  deleteSupportTicket(id: string): Promise<boolean>;
+
+  // Support SLA Policies
+  getSupportSlaPolicies(): Promise<SupportSlaPolicy[]>;
+  createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy>;
+  updateSupportSlaPolicy(id: string, updates: Partial<InsertSupportSlaPolicy>): Promise<SupportSlaPolicy | undefined>;
+  deleteSupportSlaPolicy(id: string): Promise<boolean>;
+
+  // AI Chat Sessions
+  createChatSession(session: InsertChatSession): Promise<ChatSession>;
+  getChatSession(id: string): Promise<ChatSession | undefined>;
+  getChatSessions(filters?: { status?: ChatSessionStatus; userId?: string }): Promise<ChatSession[]>;
+  updateChatSession(id: string, updates: ChatSessionUpdate): Promise<ChatSession | undefined>;
+  addChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  getChatMessages(sessionId: string): Promise<ChatMessage[]>;
+
+  // Admin Settings
+  getAdminSetting(key: string): Promise<AdminSetting | undefined>;
+  setAdminSetting(key: string, value: string): Promise<AdminSetting>;
+  getAllAdminSettings(): Promise<AdminSetting[]>;
+
+  // Job Locks; a lock expires after ttlMs so a crashed holder cannot block the job for good
+  acquireJobLock(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  releaseJobLock(name: string, holder: string): Promise<void>;
+
+  // Sync Outbox; a record that reached this store but not the other one. Queuing it again for the
+  // same record and target refreshes the pending entry instead of adding another
+  enqueueSyncOutboxEntry(entry: InsertSyncOutboxEntry): Promise<SyncOutboxEntry>;
+  getSyncOutboxEntries(): Promise<SyncOutboxEntry[]>;
+  updateSyncOutboxEntry(
+    id: string,
+    updates: Partial<Pick<SyncOutboxEntry, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt'>>
+  ): Promise<SyncOutboxEntry | undefined>;
+  deleteSyncOutboxEntry(id: string): Promise<void>;
 }
 
 // Firebase configuration for server-side access
@@ -160,6 +350,120 @@ function ensureFirebase(): Database {
   return database;
 }
 
+// How long an unfinished tax invoice claim blocks another instance from issuing for the order
+const INVOICE_CLAIM_TTL_MS = 60 * 1000;
+
+const LIST_ORDERING_FIELDS = new Set(['limit', 'cursor', 'sort', 'order']);
+
+// Only the default createdAt listing can be answered by a Firebase query; filters and other sorts load the node
+function isCreatedAtListing(listQuery: ListOrdering): boolean {
+  return listQuery.sort === 'createdAt' &&
+    Object.entries(listQuery).every(([field, value]) => LIST_ORDERING_FIELDS.has(field) || value === undefined);
+}
+
+// Reads one page of a node ordered by createdAt (ISO strings) without loading the rest; the node needs
+// ".indexOn": ["createdAt"] in the database rules or the SDK downloads it all anyway. Records failing keep
+// are skipped and the next batch read, so the page still fills. Counting would mean reading every record,
+// so the total is left unknown.
+async function queryCreatedAtPage<T extends object>(
+  path: string,
+  listQuery: ListOrdering,
+  toRecord: (key: string, value: any) => T,
+  keyOf: (record: T) => ListSortValue,
+  keep: (record: T) => boolean = () => true
+): Promise<ListPage<T>> {
+  const db = ensureFirebase();
+  const cursor = decodeListCursor(listQuery);
+  const wanted = listQuery.limit + 1;
+  const records: T[] = [];
+  let bound: [string | null, string] | undefined = cursor && [new Date(cursor.value).toISOString(), String(cursor.key)];
+
+  while (records.length < wanted) {
+    const window = listQuery.order === 'desc'
+      ? [...(bound ? [endBefore(...bound)] : []), limitToLast(wanted)]
+      : [...(bound ? [startAfter(...bound)] : []), limitToFirst(wanted)];
+    const snapshot = await get(query(ref(db, path), orderByChild('createdAt'), ...window));
+
+    const batch: Array<{ key: string; value: any }> = [];
+    snapshot.forEach(childSnapshot => {
+      batch.push({ key: childSnapshot.key!, value: childSnapshot.val() });
+    });
+    if (listQuery.order === 'desc') batch.reverse();
+
+    batch.forEach(({ key, value }) => {
+      const record = value && toRecord(key, value);
+      if (record && keep(record)) records.push(record);
+    });
+    if (batch.length < wanted) break;
+    const last = batch[batch.length - 1];
+    bound = [last.value?.createdAt ?? null, last.key]; // records without a createdAt sort first, as null
+  }
+
+  return toListPage(records, listQuery, keyOf, null);
+}
+
+// Firebase rejects undefined values, so optional fields are dropped before writes
+function omitUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// Firebase drops empty arrays and objects, so plans read back without features or price rules
+function withPlanDefaults<T extends SubscriptionPlanTerms>(terms: T): T {
+  return { ...terms, features: terms.features || [], priceRules: terms.priceRules || {} };
+}
+
+function toPlanVersion(plan: SubscriptionPlan, createdBy?: string): SubscriptionPlanVersion {
+  return omitUndefined({
+    planId: plan.id,
+    version: plan.version,
+    name: plan.name,
+    description: plan.description,
+    billingCycle: plan.billingCycle,
+    discountPercentage: plan.discountPercentage,
+    minimumItems: plan.minimumItems,
+    features: plan.features,
+    priceRules: omitUndefined(plan.priceRules),
+    createdAt: plan.updatedAt,
+    createdBy
+  });
+}
+
+// Firebase keys cannot contain . # $ [ ] or /
+function toFirebaseKey(value: string): string {
+  return value.replace(/[.#$\[\]\/]/g, '_');
+}
+
+// Firebase drops empty arrays, so restock lines come back missing when nothing was restocked
+function mapOrderRefund(raw: any): OrderRefund {
+  return {
+    ...raw,
+    restockItems: raw.restockItems || []
+  };
+}
+
+// Discount nodes also carry per-customer counters and the checkouts holding a use, which stay internal to storage
+function mapDiscountCode(raw: any): DiscountCode {
+  const { customerUsage, heldCheckouts, ...discount } = raw;
+  return {
+    ...discount,
+    applicableCategories: discount.applicableCategories || [],
+    applicableProducts: discount.applicableProducts || [],
+    usageCount: discount.usageCount || 0
+  };
+}
+
+// Responses are stored keyed by id so replies from both sides never overwrite each other
+function mapSupportTicket(raw: any): SupportTicket {
+  return {
+    ...raw,
+    attachments: raw.attachments || [],
+    tags: raw.tags || [],
+    responses: (Object.values(raw.responses || {}) as SupportTicketResponse[])
+      .map(response => ({ ...response, attachments: response.attachments || [] }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  };
+}
+
 export class FirebaseRealtimeStorage implements IStorage {
   // PC Builds
   async getPcBuilds(): Promise<PcBuild[]> {
@@ -365,6 +669,14 @@ export class FirebaseRealtimeStorage implements IStorage {
     }
   }
 
+  // Realtime Database cannot combine these filters with an ordered range query, so the node is paged in memory
+  async listInquiries(query: InquiryListQuery): Promise<ListPage<Inquiry>> {
+    if (isCreatedAtListing(query)) {
+      return queryCreatedAtPage<Inquiry>('inquiries', query, (_key, inquiry) => inquiry, inquiry => inquiry.id);
+    }
+    return pageInquiries(await this.getInquiries(), query);
+  }
+
   async updateInquiryStatus(id: number, status: string): Promise<Inquiry> {
     const inquiryRef = ref(database, `inquiries/${id}`);
     const snapshot = await get(inquiryRef);
@@ -427,6 +739,19 @@ export class FirebaseRealtimeStorage implements IStorage {
     }
   }
 
+  async listUserProfiles(query: UserListQuery): Promise<ListPage<UserProfile>> {
+    if (isCreatedAtListing(query)) {
+      return queryCreatedAtPage<UserProfile>(
+        'userProfiles',
+        query,
+        (_uid, profile) => profile,
+        profile => profile.uid,
+        profile => !(profile as UserProfile & { mergedInto?: string }).mergedInto
+      );
+    }
+    return pageUserProfiles(await this.getAllUserProfiles(), query);
+  }
+
   async updateUserProfile(uid: string, profileUpdates: Partial<InsertUserProfile>): Promise<UserProfile> {
     const profileRef = ref(database, `userProfiles/${uid}`);
     const snapshot = await get(profileRef);
@@ -523,6 +848,13 @@ export class FirebaseRealtimeStorage implements IStorage {
     }
   }
 
+  async listOrders(query: OrderListQuery): Promise<ListPage<Order>> {
+    if (isCreatedAtListing(query)) {
+      return queryCreatedAtPage<Order>('orders', query, (_key, order) => order, order => order.id);
+    }
+    return pageOrders(await this.getAllOrders(), query);
+  }
+
   async createOrder(order: InsertOrder): Promise<Order> {
     const db = ensureFirebase();
     const orders = await get(ref(db, 'orders'));
@@ -565,11 +897,92 @@ export class FirebaseRealtimeStorage implements IStorage {
     return updatedSnapshot.val();
   }
 
+  async transitionOrderStatus(
+    id: number,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    updates: { trackingNumber?: string; razorpayPaymentId?: string } = {}
+  ): Promise<Order | undefined> {
+    const db = ensureFirebase();
+
+    // Compare-and-set so two concurrent transitions cannot both start from the same status
+    const result = await runTransaction(ref(db, `orders/${id}`), (order) => {
+      if (order === null) return order;
+      if (order.status !== fromStatus) return;
+
+      return {
+        ...order,
+        ...omitUndefined(updates),
+        status: toStatus,
+        orderStatus: toStatus,
+        updatedAt: new Date().toISOString()
+      };
+    });
+
+    return result.committed && result.snapshot.exists() ? result.snapshot.val() : undefined;
+  }
+
+  async createOrderStatusEvent(event: InsertOrderStatusEvent): Promise<OrderStatusEvent> {
+    const db = ensureFirebase();
+    const eventRef = push(ref(db, `orderStatusEvents/${event.orderId}`));
+    const newEvent: OrderStatusEvent = {
+      ...event,
+      id: eventRef.key!,
+      createdAt: new Date().toISOString()
+    };
+
+    await set(eventRef, omitUndefined(newEvent));
+    return newEvent;
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusEvent[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `orderStatusEvents/${orderId}`));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as OrderStatusEvent[])
+      .map(event => ({ ...event, fromStatus: event.fromStatus ?? null }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addOrderRefundedAmount(id: number, amount: number): Promise<Order | undefined> {
+    const db = ensureFirebase();
+    const result = await runTransaction(ref(db, `orders/${id}`), (order) => {
+      if (order === null) return order;
+      return {
+        ...order,
+        refundedAmount: (order.refundedAmount || 0) + amount,
+        updatedAt: new Date().toISOString()
+      };
+    });
+
+    return result.committed && result.snapshot.exists() ? result.snapshot.val() : undefined;
+  }
+
+  async updateOrderRefundStatus(id: number, refundStatus: OrderRefundStatus): Promise<Order | undefined> {
+    const db = ensureFirebase();
+    const orderRef = ref(db, `orders/${id}`);
+    const snapshot = await get(orderRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(orderRef, { refundStatus, updatedAt: new Date().toISOString() });
+    const updatedSnapshot = await get(orderRef);
+    return updatedSnapshot.val();
+  }
+
   async getOrderById(id: number): Promise<Order | undefined> {
     const snapshot = await get(ref(database, `orders/${id}`));
     return snapshot.exists() ? snapshot.val() : undefined;
   }
 
+  // Payment webhooks only carry the Razorpay order id, which checkout stores on the order
+  async getOrderByRazorpayOrderId(razorpayOrderId: string): Promise<Order | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(query(ref(db, 'orders'), orderByChild('razorpayOrderId'), equalTo(razorpayOrderId)));
+    if (!snapshot.exists()) return undefined;
+    return Object.values(snapshot.val() as Record<string, Order>)[0];
+  }
+
   async clearAllOrders(): Promise<void> {
     await remove(ref(database, 'orders'));
   }
@@ -645,18 +1058,63 @@ export class FirebaseRealtimeStorage implements IStorage {
     return movements;
   }
 
-  async createStockMovement(movement: any): Promise<any> {
-    const newMovement = {
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const db = ensureFirebase();
+    // Push keys stay unique when several movements are written in the same millisecond
+    const movementRef = push(ref(db, 'stockMovements'));
+    const newMovement: StockMovement = {
       ...movement,
-      id: Date.now(),
-      createdAt: new Date()
+      id: movementRef.key!,
+      createdAt: new Date().toISOString()
     };
 
-    await set(ref(database, `stockMovements/${newMovement.id}`), newMovement);
+    await set(movementRef, omitUndefined(newMovement));
     return newMovement;
   }
 
-  async getStockAlerts(): Promise<any[]> {
+  async reserveBuildStock(buildId: number, quantity: number): Promise<boolean> {
+    const db = ensureFirebase();
+    const result = await runTransaction(ref(db, `pcBuilds/${buildId}`), (build) => {
+      if (build === null) return build;
+
+      const reserved = build.reservedQuantity || 0;
+      if ((build.stockQuantity || 0) - reserved < quantity) return;
+
+      return { ...build, reservedQuantity: reserved + quantity };
+    });
+
+    return result.committed && result.snapshot.exists();
+  }
+
+  async releaseBuildStock(buildId: number, quantity: number): Promise<void> {
+    const db = ensureFirebase();
+    await runTransaction(ref(db, `pcBuilds/${buildId}`), (build) => {
+      if (build === null) return build;
+      return { ...build, reservedQuantity: Math.max(0, (build.reservedQuantity || 0) - quantity) };
+    });
+  }
+
+  async commitBuildStock(buildId: number, quantity: number): Promise<void> {
+    const db = ensureFirebase();
+    await runTransaction(ref(db, `pcBuilds/${buildId}`), (build) => {
+      if (build === null) return build;
+      return {
+        ...build,
+        stockQuantity: Math.max(0, (build.stockQuantity || 0) - quantity),
+        reservedQuantity: Math.max(0, (build.reservedQuantity || 0) - quantity)
+      };
+    });
+  }
+
+  async restockBuild(buildId: number, quantity: number): Promise<void> {
+    const db = ensureFirebase();
+    await runTransaction(ref(db, `pcBuilds/${buildId}`), (build) => {
+      if (build === null) return build;
+      return { ...build, stockQuantity: (build.stockQuantity || 0) + quantity };
+    });
+  }
+
+  async getStockAlerts(): Promise<StockAlert[]> {
     const snapshot = await get(ref(database, 'stockAlerts'));
     if (!snapshot.exists()) return [];
     
@@ -1114,6 +1572,15 @@ export class FirebaseRealtimeStorage implements IStorage {
     );
   }
 
+  async updateSubscriptionBilling(id: string, updates: SubscriptionBillingUpdate): Promise<Subscription | undefined> {
+    const db = ensureFirebase();
+    const subscriptionRef = ref(db, `subscriptions/${id}`);
+    if (!(await get(subscriptionRef)).exists()) return undefined;
+
+    await update(subscriptionRef, omitUndefined({ ...updates, updatedAt: new Date() }));
+    return (await get(subscriptionRef)).val();
+  }
+
   // Subscription Orders Management Methods
   async getSubscriptionOrders(subscriptionId: string): Promise<SubscriptionOrder[]> {
     const snapshot = await get(ref(database, `subscriptionOrders`));
@@ -1191,6 +1658,110 @@ export class FirebaseRealtimeStorage implements IStorage {
     return snapshot.exists() ? snapshot.val() : undefined;
   }
 
+  async updateSubscriptionOrderBilling(id: string, updates: SubscriptionOrderBillingUpdate): Promise<SubscriptionOrder | undefined> {
+    const db = ensureFirebase();
+    const orderRef = ref(db, `subscriptionOrders/${id}`);
+    if (!(await get(orderRef)).exists()) return undefined;
+
+    await update(orderRef, omitUndefined({ ...updates, updatedAt: new Date() }));
+    return (await get(orderRef)).val();
+  }
+
+  async getSubscriptionOrdersAwaitingRetry(before: number): Promise<SubscriptionOrder[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'subscriptionOrders'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as SubscriptionOrder[])
+      .filter(order => order.status === 'pending' && order.nextRetryAt !== undefined && order.nextRetryAt <= before)
+      .sort((a, b) => a.nextRetryAt! - b.nextRetryAt!);
+  }
+
+  // Subscription Plans
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'subscriptionPlans'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as SubscriptionPlan[])
+      .map(withPlanDefaults)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getSubscriptionPlan(id: string): Promise<SubscriptionPlan | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `subscriptionPlans/${id}`));
+    return snapshot.exists() ? withPlanDefaults(snapshot.val()) : undefined;
+  }
+
+  async createSubscriptionPlan(plan: InsertSubscriptionPlan, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    const db = ensureFirebase();
+    const now = Date.now();
+    const newPlan: SubscriptionPlan = { ...plan, version: 1, status: 'active', createdAt: now, updatedAt: now };
+
+    // The transaction refuses to overwrite a plan that already uses this id
+    const result = await runTransaction(ref(db, `subscriptionPlans/${plan.id}`), (current) => {
+      if (current !== null) return;
+      return omitUndefined({ ...newPlan, priceRules: omitUndefined(newPlan.priceRules) });
+    });
+    if (!result.committed) return undefined;
+
+    await set(ref(db, `subscriptionPlanVersions/${plan.id}/v1`), toPlanVersion(newPlan, createdBy));
+    return newPlan;
+  }
+
+  async updateSubscriptionPlan(id: string, updates: SubscriptionPlanUpdate, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    const db = ensureFirebase();
+    const planRef = ref(db, `subscriptionPlans/${id}`);
+    const snapshot = await get(planRef);
+    if (!snapshot.exists()) return undefined;
+
+    // Bumping the version inside a transaction keeps concurrent edits from sharing a version number
+    const result = await runTransaction(planRef, (plan) => {
+      if (plan === null) return plan;
+      return omitUndefined({
+        ...plan,
+        ...omitUndefined(updates),
+        priceRules: omitUndefined(updates.priceRules ?? plan.priceRules ?? {}),
+        version: (plan.version || 1) + 1,
+        updatedAt: Date.now()
+      });
+    });
+    if (!result.committed || !result.snapshot.exists()) return undefined;
+
+    const updated = withPlanDefaults(result.snapshot.val() as SubscriptionPlan);
+    await set(ref(db, `subscriptionPlanVersions/${id}/v${updated.version}`), toPlanVersion(updated, createdBy));
+    return updated;
+  }
+
+  async setSubscriptionPlanStatus(id: string, status: SubscriptionPlanStatus): Promise<SubscriptionPlan | undefined> {
+    const db = ensureFirebase();
+    const planRef = ref(db, `subscriptionPlans/${id}`);
+    const snapshot = await get(planRef);
+    if (!snapshot.exists()) return undefined;
+
+    const now = Date.now();
+    await update(planRef, { status, updatedAt: now, retiredAt: status === 'retired' ? now : null });
+    return this.getSubscriptionPlan(id);
+  }
+
+  async getSubscriptionPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `subscriptionPlanVersions/${planId}`));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as SubscriptionPlanVersion[])
+      .map(withPlanDefaults)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  // Stored under "v<number>" keys so Firebase does not turn the versions into a sparse array
+  async getSubscriptionPlanVersion(planId: string, version: number): Promise<SubscriptionPlanVersion | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `subscriptionPlanVersions/${planId}/v${version}`));
+    return snapshot.exists() ? withPlanDefaults(snapshot.val()) : undefined;
+  }
+
   // Admin method to get all subscriptions
   async getAllSubscriptions(): Promise<Subscription[]> {
     try {
@@ -1211,6 +1782,13 @@ export class FirebaseRealtimeStorage implements IStorage {
     }
   }
 
+  async listSubscriptions(query: SubscriptionListQuery): Promise<ListPage<Subscription>> {
+    if (isCreatedAtListing(query)) {
+      return queryCreatedAtPage<Subscription>('subscriptions', query, (id, subscription) => ({ id, ...subscription }), subscription => subscription.id);
+    }
+    return pageSubscriptions(await this.getAllSubscriptions(), query);
+  }
+
   // Admin method to get all subscription orders
   async getAllSubscriptionOrders(): Promise<SubscriptionOrder[]> {
     try {
@@ -1224,6 +1802,787 @@ export class FirebaseRealtimeStorage implements IStorage {
       throw error;
     }
   }
+
+  // Stock Reservations
+  async createStockReservation(reservation: InsertStockReservation): Promise<StockReservation> {
+    const db = ensureFirebase();
+    const newReservation: StockReservation = {
+      ...reservation,
+      status: 'reserved',
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await set(ref(db, `stockReservations/${reservation.id}`), omitUndefined(newReservation));
+    return newReservation;
+  }
+
+  async getStockReservation(id: string): Promise<StockReservation | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `stockReservations/${id}`));
+    return snapshot.exists() ? snapshot.val() : undefined;
+  }
+
+  async getExpiredStockReservations(before: number): Promise<StockReservation[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'stockReservations'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as StockReservation[])
+      .filter(reservation => reservation.status === 'reserved' && reservation.expiresAt < before);
+  }
+
+  async transitionStockReservation(
+    id: string,
+    status: 'committed' | 'released',
+    updates: { orderId?: number; releaseReason?: string } = {}
+  ): Promise<StockReservation | undefined> {
+    const db = ensureFirebase();
+
+    // Only a reservation that is still held can move on, so commit and release never both win
+    const result = await runTransaction(ref(db, `stockReservations/${id}`), (reservation) => {
+      if (reservation === null) return reservation;
+      if (reservation.status !== 'reserved') return;
+
+      return { ...reservation, ...omitUndefined(updates), status, updatedAt: Date.now() };
+    });
+
+    return result.committed && result.snapshot.exists() ? result.snapshot.val() : undefined;
+  }
+
+  // Refunds & Credit Notes
+  // Refunds live under their order, so claims only contend with the same order's refunds. The
+  // orderRefundOrders index finds a refund's order from the id a webhook carries
+  private async getOrderRefundPath(id: string): Promise<string | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `orderRefundOrders/${id}`));
+    return snapshot.exists() ? `orderRefunds/${snapshot.val()}/${id}` : undefined;
+  }
+
+  async createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund> {
+    const db = ensureFirebase();
+    const newRefund: OrderRefund = {
+      ...refund,
+      createdAt: new Date().toISOString()
+    };
+
+    await update(ref(db), {
+      [`orderRefunds/${refund.orderId}/${refund.id}`]: omitUndefined(newRefund),
+      [`orderRefundOrders/${refund.id}`]: refund.orderId
+    });
+    return newRefund;
+  }
+
+  async claimOrderRefund(refund: InsertOrderRefund, orderTotal: number): Promise<OrderRefund | undefined> {
+    const db = ensureFirebase();
+    const newRefund: OrderRefund = {
+      ...refund,
+      createdAt: new Date().toISOString()
+    };
+
+    // Runs over the order's refunds so two claims for the same order cannot both see the old balance
+    const result = await runTransaction(ref(db, `orderRefunds/${refund.orderId}`), (current) => {
+      const refunds: Record<string, OrderRefund> = current || {};
+      const claimed = Object.values(refunds)
+        .filter(existing => existing.status !== 'failed')
+        .reduce((sum, existing) => sum + existing.amount, 0);
+      if (refund.amount > orderTotal - claimed) return;
+
+      return { ...refunds, [refund.id]: omitUndefined(newRefund) };
+    });
+    if (!result.committed) return undefined;
+
+    await set(ref(db, `orderRefundOrders/${refund.id}`), refund.orderId);
+    return newRefund;
+  }
+
+  async rekeyOrderRefund(id: string, refundId: string): Promise<OrderRefund | undefined> {
+    const db = ensureFirebase();
+    const index = await get(ref(db, `orderRefundOrders/${id}`));
+    if (!index.exists()) return undefined;
+    const orderId = index.val();
+    let moved: OrderRefund | undefined;
+
+    // Both the refund request and an early webhook may move the claim; only the first move happens,
+    // so a later one can never write the pending claim back over a settled refund
+    const result = await runTransaction(ref(db, `orderRefunds/${orderId}`), (current) => {
+      moved = undefined;
+      if (current === null) return current;
+      if (!current[id] || current[refundId]) return;
+
+      const { [id]: claim, ...refunds } = current;
+      moved = { ...claim, id: refundId };
+      return { ...refunds, [refundId]: moved };
+    });
+    if (!result.committed || !moved) return undefined;
+
+    await update(ref(db), {
+      [`orderRefundOrders/${id}`]: null,
+      [`orderRefundOrders/${refundId}`]: orderId
+    });
+    return mapOrderRefund(moved);
+  }
+
+  async getOrderRefund(id: string): Promise<OrderRefund | undefined> {
+    const db = ensureFirebase();
+    const path = await this.getOrderRefundPath(id);
+    if (!path) return undefined;
+
+    const snapshot = await get(ref(db, path));
+    return snapshot.exists() ? mapOrderRefund(snapshot.val()) : undefined;
+  }
+
+  async getOrderRefunds(orderId: number): Promise<OrderRefund[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `orderRefunds/${orderId}`));
+    if (!snapshot.exists()) return [];
+
+    return Object.values(snapshot.val())
+      .map(mapOrderRefund)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async transitionOrderRefund(
+    id: string,
+    status: 'processed' | 'failed',
+    updates: { failureReason?: string } = {}
+  ): Promise<OrderRefund | undefined> {
+    const db = ensureFirebase();
+    const path = await this.getOrderRefundPath(id);
+    if (!path) return undefined;
+
+    // Razorpay can deliver a webhook more than once; only the first one settles the refund
+    const result = await runTransaction(ref(db, path), (refund) => {
+      if (refund === null) return refund;
+      if (refund.status !== 'pending') return;
+
+      return {
+        ...refund,
+        ...omitUndefined(updates),
+        status,
+        processedAt: new Date().toISOString()
+      };
+    });
+
+    return result.committed && result.snapshot.exists() ? mapOrderRefund(result.snapshot.val()) : undefined;
+  }
+
+  async updateOrderRefund(id: string, updates: { creditNoteNumber?: string }): Promise<OrderRefund | undefined> {
+    const db = ensureFirebase();
+    const path = await this.getOrderRefundPath(id);
+    if (!path) return undefined;
+
+    const refundRef = ref(db, path);
+    const snapshot = await get(refundRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(refundRef, omitUndefined(updates));
+    const updatedSnapshot = await get(refundRef);
+    return mapOrderRefund(updatedSnapshot.val());
+  }
+
+  async createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote> {
+    const db = ensureFirebase();
+    const creditNoteRef = push(ref(db, 'creditNotes'));
+    const newCreditNote: CreditNote = {
+      ...creditNote,
+      id: creditNoteRef.key!,
+      issuedAt: new Date().toISOString()
+    };
+
+    await set(creditNoteRef, omitUndefined(newCreditNote));
+    return newCreditNote;
+  }
+
+  async getCreditNotes(orderId: number): Promise<CreditNote[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'creditNotes'));
+    if (!snapshot.exists()) return [];
+
+    // Notes issued before the tax split was recorded carry only gstAmount
+    return Object.values(snapshot.val())
+      .map((raw: any): CreditNote => ({ cgst: 0, sgst: 0, igst: 0, ...raw }))
+      .filter(creditNote => creditNote.orderId === orderId)
+      .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  }
+
+  // Tax Invoices
+  async createTaxInvoice(invoice: InsertTaxInvoice, numbering: { sequence: string; prefix: string }): Promise<TaxInvoice> {
+    const db = ensureFirebase();
+    const invoiceRef = ref(db, `taxInvoices/${invoice.orderId}`);
+
+    // Keyed by order, and the slot is claimed before a number is taken, so concurrent receipt paths
+    // neither issue two invoices for one order nor use up a number between them. A claim left behind
+    // by a crashed instance can be taken over once it expires.
+    const claim = await runTransaction(invoiceRef, (existing) => {
+      if (existing !== null && (existing.invoiceNumber || Date.now() - existing.claimedAt < INVOICE_CLAIM_TTL_MS)) return;
+      return { orderId: invoice.orderId, claimedAt: Date.now() };
+    });
+    if (!claim.committed) {
+      const existing = claim.snapshot.val();
+      if (existing?.invoiceNumber) return existing;
+      throw new CustomError('The tax invoice for this order is already being issued', 409);
+    }
+
+    const invoiceNumber = formatDocumentNumber(numbering.prefix, await this.getNextSequenceValue(numbering.sequence));
+    const newInvoice: TaxInvoice = {
+      ...invoice,
+      supplier: omitUndefined(invoice.supplier),
+      recipient: omitUndefined(invoice.recipient),
+      id: invoiceNumber,
+      invoiceNumber,
+      issuedAt: new Date().toISOString()
+    };
+    await set(invoiceRef, omitUndefined(newInvoice));
+    return newInvoice;
+  }
+
+  async getTaxInvoiceByOrderId(orderId: number): Promise<TaxInvoice | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `taxInvoices/${orderId}`));
+    // A claim without a number is an invoice still being issued
+    return snapshot.exists() && snapshot.val().invoiceNumber ? snapshot.val() : undefined;
+  }
+
+  async saveInvoiceDocument(document: InsertInvoiceDocument): Promise<InvoiceDocument> {
+    const db = ensureFirebase();
+    // The first rendering wins so later downloads stay byte-identical
+    const result = await runTransaction(ref(db, `invoiceDocuments/${document.orderId}`), (existing) => {
+      if (existing !== null) return;
+      return { ...document, createdAt: new Date().toISOString() };
+    });
+
+    return result.snapshot.val();
+  }
+
+  async getInvoiceDocument(orderId: number): Promise<InvoiceDocument | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `invoiceDocuments/${orderId}`));
+    return snapshot.exists() ? snapshot.val() : undefined;
+  }
+
+  // Document Sequences
+  async getNextSequenceValue(sequence: string): Promise<number> {
+    const db = ensureFirebase();
+    // Transactional increment keeps document numbers gap-free and unique across instances
+    const result = await runTransaction(ref(db, `sequences/${toFirebaseKey(sequence)}`), (current) => {
+      return (current || 0) + 1;
+    });
+
+    return result.snapshot.val();
+  }
+
+  // Discounts Management
+  async getDiscountCodes(): Promise<DiscountCode[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'discountCodes'));
+    if (!snapshot.exists()) return [];
+
+    return Object.values(snapshot.val())
+      .filter(Boolean)
+      .map(mapDiscountCode)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined> {
+    const discounts = await this.getDiscountCodes();
+    return discounts.find(discount => discount.code === code.toUpperCase());
+  }
+
+  async createDiscountCode(discount: InsertDiscountCode): Promise<DiscountCode> {
+    const db = ensureFirebase();
+    const id = `discount_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+    const newDiscount: DiscountCode = {
+      ...discount,
+      id,
+      code: discount.code.toUpperCase(),
+      usageCount: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await set(ref(db, `discountCodes/${id}`), omitUndefined(newDiscount));
+    logger.db(`Created discount code: ${newDiscount.code} (ID: ${id})`);
+    return newDiscount;
+  }
+
+  async updateDiscountCode(id: string, updates: Partial<InsertDiscountCode>): Promise<DiscountCode | undefined> {
+    const db = ensureFirebase();
+    const discountRef = ref(db, `discountCodes/${id}`);
+    const snapshot = await get(discountRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(discountRef, omitUndefined({ ...updates, updatedAt: Date.now() }));
+
+    const updatedSnapshot = await get(discountRef);
+    return mapDiscountCode(updatedSnapshot.val());
+  }
+
+  async getBulkPricingTiers(): Promise<BulkPricingTier[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'bulkPricingTiers'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()).filter(Boolean) as BulkPricingTier[])
+      .map(tier => ({ ...tier, applicableCategories: tier.applicableCategories || [] }))
+      .sort((a, b) => a.minimumQuantity - b.minimumQuantity);
+  }
+
+  async saveBulkPricingTier(tier: BulkPricingTier): Promise<BulkPricingTier> {
+    const db = ensureFirebase();
+    await set(ref(db, `bulkPricingTiers/${tier.id}`), tier);
+    return tier;
+  }
+
+  async getDiscountRedemptions(discountId: string, userId?: string): Promise<DiscountRedemption[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `discountRedemptions/${discountId}`));
+    if (!snapshot.exists()) return [];
+
+    const redemptions = Object.values(snapshot.val()) as DiscountRedemption[];
+    return userId ? redemptions.filter(r => r.userId === userId) : redemptions;
+  }
+
+  async redeemDiscountCode(discountId: string, userId: string, checkoutId: string): Promise<DiscountRedemptionResult> {
+    const db = ensureFirebase();
+    const discountRef = ref(db, `discountCodes/${discountId}`);
+    const redemptionRef = push(ref(db, `discountRedemptions/${discountId}`));
+    const userKey = toFirebaseKey(userId);
+    let rejection: 'usage_limit' | 'customer_limit' | null = null;
+    let existingRedemptionId: string | null = null;
+
+    // The transaction re-runs on contention, so limits are checked against the latest counters.
+    // Checkouts are claimed on the code itself, so one checkout can only ever hold one use
+    const result = await runTransaction(discountRef, (current) => {
+      // The first pass may see an uncached null; returning it lets the server supply the real value
+      if (current === null) return current;
+
+      rejection = null;
+      existingRedemptionId = current.heldCheckouts?.[checkoutId]?.redemptionId || null;
+      if (existingRedemptionId) return;
+
+      const usageCount = current.usageCount || 0;
+      const customerCount = current.customerUsage?.[userKey] || 0;
+
+      if (current.usageLimit && usageCount >= current.usageLimit) {
+        rejection = 'usage_limit';
+        return;
+      }
+      if (current.usagePerCustomer && customerCount >= current.usagePerCustomer) {
+        rejection = 'customer_limit';
+        return;
+      }
+
+      return {
+        ...current,
+        usageCount: usageCount + 1,
+        customerUsage: { ...current.customerUsage, [userKey]: customerCount + 1 },
+        heldCheckouts: { ...current.heldCheckouts, [checkoutId]: { redemptionId: redemptionRef.key, userKey } },
+        updatedAt: Date.now()
+      };
+    });
+
+    if (existingRedemptionId) {
+      const existing = await get(ref(db, `discountRedemptions/${discountId}/${existingRedemptionId}`));
+      if (existing.exists()) return { success: true, redemption: existing.val() };
+    }
+    if (!result.committed) {
+      return { success: false, reason: rejection || 'usage_limit' };
+    }
+    if (!result.snapshot.exists()) {
+      return { success: false, reason: 'not_found' };
+    }
+
+    const redemption: DiscountRedemption = {
+      id: redemptionRef.key!,
+      discountId,
+      code: result.snapshot.val().code,
+      userId,
+      checkoutId,
+      redeemedAt: Date.now()
+    };
+    await set(redemptionRef, redemption);
+
+    logger.db(`Redeemed discount ${redemption.code} for user ${userId}`);
+    return { success: true, redemption };
+  }
+
+  async releaseDiscountRedemption(discountId: string, checkoutId: string): Promise<boolean> {
+    const db = ensureFirebase();
+    let releasedRedemptionId: string | null = null;
+
+    // The counters are given back in the same transaction that drops the claim, so a use is never released twice
+    const result = await runTransaction(ref(db, `discountCodes/${discountId}`), (current) => {
+      if (current === null) return current;
+
+      releasedRedemptionId = null;
+      const held = current.heldCheckouts?.[checkoutId];
+      if (!held) return;
+
+      const { [checkoutId]: _released, ...heldCheckouts } = current.heldCheckouts;
+      releasedRedemptionId = held.redemptionId;
+      return {
+        ...current,
+        usageCount: Math.max(0, (current.usageCount || 0) - 1),
+        customerUsage: {
+          ...current.customerUsage,
+          [held.userKey]: Math.max(0, (current.customerUsage?.[held.userKey] || 0) - 1)
+        },
+        heldCheckouts,
+        updatedAt: Date.now()
+      };
+    });
+
+    if (!result.committed || !releasedRedemptionId) return false;
+
+    await remove(ref(db, `discountRedemptions/${discountId}/${releasedRedemptionId}`));
+    logger.db(`Released discount use held by checkout ${checkoutId}`);
+    return true;
+  }
+
+  // Component Catalog
+  async getCatalogComponents(): Promise<CatalogComponent[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'catalogComponents'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()).filter(Boolean) as CatalogComponent[])
+      .sort((a, b) => a.category.localeCompare(b.category) || a.price - b.price);
+  }
+
+  async getCatalogComponent(id: string): Promise<CatalogComponent | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `catalogComponents/${id}`));
+    return snapshot.exists() ? snapshot.val() : undefined;
+  }
+
+  async createCatalogComponent(component: InsertCatalogComponent): Promise<CatalogComponent> {
+    const db = ensureFirebase();
+    const id = `catalog_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+    const newComponent: CatalogComponent = {
+      ...component,
+      id,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await set(ref(db, `catalogComponents/${id}`), omitUndefined(newComponent));
+    return newComponent;
+  }
+
+  async updateCatalogComponent(id: string, updates: Partial<InsertCatalogComponent>): Promise<CatalogComponent | undefined> {
+    const db = ensureFirebase();
+    const componentRef = ref(db, `catalogComponents/${id}`);
+    const snapshot = await get(componentRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(componentRef, omitUndefined({ ...updates, updatedAt: Date.now() }));
+    const updatedSnapshot = await get(componentRef);
+    return updatedSnapshot.val();
+  }
+
+  async deleteCatalogComponent(id: string): Promise<boolean> {
+    const db = ensureFirebase();
+    const componentRef = ref(db, `catalogComponents/${id}`);
+    const snapshot = await get(componentRef);
+    if (!snapshot.exists()) return false;
+
+    await remove(componentRef);
+    return true;
+  }
+
+  // Support Tickets
+  // Message-IDs of emails on a ticket are indexed under supportTicketMessages; they hold characters
+  // Firebase keys cannot, so the key is their hash
+  private messageIndexPath(messageId: string): string {
+    return `supportTicketMessages/${createHash('sha256').update(messageId).digest('hex')}`;
+  }
+
+  async createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const db = ensureFirebase();
+    const newTicket: SupportTicket = {
+      ...ticket,
+      responses: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    const { responses, ...ticketNode } = newTicket;
+    await update(ref(db), {
+      [`supportTickets/${ticket.id}`]: omitUndefined({
+        ...ticketNode,
+        sla: ticketNode.sla && omitUndefined(ticketNode.sla)
+      }),
+      ...(ticket.sourceMessageId ? { [this.messageIndexPath(ticket.sourceMessageId)]: ticket.id } : {})
+    });
+    return newTicket;
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `supportTickets/${id}`));
+    return snapshot.exists() ? mapSupportTicket(snapshot.val()) : undefined;
+  }
+
+  async getSupportTickets(filters: { userId?: string } = {}): Promise<SupportTicket[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'supportTickets'));
+    if (!snapshot.exists()) return [];
+
+    return Object.values(snapshot.val())
+      .map(mapSupportTicket)
+      .filter(ticket => !filters.userId || ticket.userId === filters.userId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSupportTicketByMessageId(messageId: string): Promise<SupportTicket | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, this.messageIndexPath(messageId)));
+    return snapshot.exists() ? this.getSupportTicket(snapshot.val()) : undefined;
+  }
+
+  async updateSupportTicket(id: string, updates: SupportTicketUpdate): Promise<SupportTicket | undefined> {
+    const db = ensureFirebase();
+    const ticketRef = ref(db, `supportTickets/${id}`);
+    const snapshot = await get(ticketRef);
+    if (!snapshot.exists()) return undefined;
+
+    // The SLA record is written whole, so its unset timestamps must be dropped as well
+    await update(ticketRef, omitUndefined({
+      ...updates,
+      sla: updates.sla && omitUndefined(updates.sla),
+      updatedAt: Date.now()
+    }));
+    return this.getSupportTicket(id);
+  }
+
+  async addSupportTicketResponse(ticketId: string, response: SupportTicketResponse): Promise<SupportTicket | undefined> {
+    const db = ensureFirebase();
+    const ticketRef = ref(db, `supportTickets/${ticketId}`);
+    const snapshot = await get(ticketRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(ref(db), {
+      [`supportTickets/${ticketId}/responses/${response.id}`]: omitUndefined(response),
+      [`supportTickets/${ticketId}/updatedAt`]: response.timestamp,
+      ...(response.sourceMessageId ? { [this.messageIndexPath(response.sourceMessageId)]: ticketId } : {})
+    });
+    return this.getSupportTicket(ticketId);
+  }
+
+  async deleteSupportTicket(id: string): Promise<boolean> {
+    const db = ensureFirebase();
+    const ticketRef = ref(db, `supportTickets/${id}`);
+    const snapshot = await get(ticketRef);
+    if (!snapshot.exists()) return false;
+
+    const ticket = mapSupportTicket(snapshot.val());
+    const messageIds = [ticket.sourceMessageId, ...ticket.responses.map(response => response.sourceMessageId)]
+      .filter((messageId): messageId is string => Boolean(messageId));
+    await update(ref(db), {
+      [`supportTickets/${id}`]: null,
+      ...Object.fromEntries(messageIds.map(messageId => [this.messageIndexPath(messageId), null]))
+    });
+    return true;
+  }
+
+  // Support SLA Policies
+  async getSupportSlaPolicies(): Promise<SupportSlaPolicy[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'supportSlaPolicies'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()).filter(Boolean) as SupportSlaPolicy[])
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy> {
+    const db = ensureFirebase();
+    const id = `sla_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+    const newPolicy: SupportSlaPolicy = {
+      ...policy,
+      id,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await set(ref(db, `supportSlaPolicies/${id}`), omitUndefined(newPolicy));
+    return newPolicy;
+  }
+
+  async updateSupportSlaPolicy(id: string, updates: Partial<InsertSupportSlaPolicy>): Promise<SupportSlaPolicy | undefined> {
+    const db = ensureFirebase();
+    const policyRef = ref(db, `supportSlaPolicies/${id}`);
+    const snapshot = await get(policyRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(policyRef, omitUndefined({ ...updates, updatedAt: Date.now() }));
+    const updatedSnapshot = await get(policyRef);
+    return updatedSnapshot.val();
+  }
+
+  async deleteSupportSlaPolicy(id: string): Promise<boolean> {
+    const db = ensureFirebase();
+    const policyRef = ref(db, `supportSlaPolicies/${id}`);
+    const snapshot = await get(policyRef);
+    if (!snapshot.exists()) return false;
+
+    await remove(policyRef);
+    return true;
+  }
+
+  // AI Chat Sessions
+  async createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    const db = ensureFirebase();
+    const newSession: ChatSession = {
+      ...session,
+      messageCount: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await set(ref(db, `chatSessions/${session.id}`), omitUndefined({
+      ...newSession,
+      escalation: newSession.escalation && omitUndefined(newSession.escalation)
+    }));
+    return newSession;
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | undefined> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `chatSessions/${id}`));
+    return snapshot.exists() ? snapshot.val() : undefined;
+  }
+
+  async getChatSessions(filters: { status?: ChatSessionStatus; userId?: string } = {}): Promise<ChatSession[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'chatSessions'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as ChatSession[])
+      .filter(session => !filters.status || session.status === filters.status)
+      .filter(session => !filters.userId || session.userId === filters.userId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async updateChatSession(id: string, updates: ChatSessionUpdate): Promise<ChatSession | undefined> {
+    const db = ensureFirebase();
+    const sessionRef = ref(db, `chatSessions/${id}`);
+    const snapshot = await get(sessionRef);
+    if (!snapshot.exists()) return undefined;
+
+    await update(sessionRef, omitUndefined({
+      ...updates,
+      escalation: updates.escalation && omitUndefined(updates.escalation),
+      updatedAt: Date.now()
+    }));
+    return this.getChatSession(id);
+  }
+
+  // Messages live under their own node so listing sessions does not pull every transcript
+  async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const db = ensureFirebase();
+    const id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const newMessage: ChatMessage = { ...message, id, createdAt: Date.now() };
+
+    await set(ref(db, `chatMessages/${message.sessionId}/${id}`), omitUndefined(newMessage));
+    await runTransaction(ref(db, `chatSessions/${message.sessionId}`), (session) => {
+      if (!session) return session;
+      return { ...session, messageCount: (session.messageCount || 0) + 1, updatedAt: newMessage.createdAt };
+    });
+    return newMessage;
+  }
+
+  async getChatMessages(sessionId: string): Promise<ChatMessage[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, `chatMessages/${sessionId}`));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as ChatMessage[])
+      .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+  }
+
+  // Job Locks
+  async acquireJobLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const db = ensureFirebase();
+    const now = Date.now();
+
+    const result = await runTransaction(ref(db, `jobLocks/${name}`), (lock) => {
+      if (lock && lock.holder !== holder && lock.expiresAt > now) return; // held elsewhere; abort
+      return { holder, acquiredAt: now, expiresAt: now + ttlMs };
+    });
+    return result.committed;
+  }
+
+  async releaseJobLock(name: string, holder: string): Promise<void> {
+    const db = ensureFirebase();
+    // Only the holder may release; an expired lock taken over by someone else is left alone
+    await runTransaction(ref(db, `jobLocks/${name}`), (lock) => (lock && lock.holder === holder ? null : undefined));
+  }
+
+  // Sync Outbox
+  async enqueueSyncOutboxEntry(entry: InsertSyncOutboxEntry): Promise<SyncOutboxEntry> {
+    const db = ensureFirebase();
+    const id = `${entry.entity}:${entry.key}:${entry.target}`;
+    const now = Date.now();
+
+    const result = await runTransaction(ref(db, `syncOutbox/${id}`), (existing) => ({
+      ...entry,
+      id,
+      status: 'pending',
+      attempts: existing?.attempts || 0,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    }));
+    return result.snapshot.val();
+  }
+
+  async getSyncOutboxEntries(): Promise<SyncOutboxEntry[]> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, 'syncOutbox'));
+    if (!snapshot.exists()) return [];
+
+    return (Object.values(snapshot.val()) as SyncOutboxEntry[]).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async updateSyncOutboxEntry(
+    id: string,
+    updates: Partial<Pick<SyncOutboxEntry, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt'>>
+  ): Promise<SyncOutboxEntry | undefined> {
+    const db = ensureFirebase();
+    const result = await runTransaction(ref(db, `syncOutbox/${id}`), (entry) => {
+      if (entry === null) return entry;
+      return { ...entry, ...omitUndefined(updates), updatedAt: Date.now() };
+    });
+    return result.snapshot.exists() ? result.snapshot.val() : undefined;
+  }
+
+  async deleteSyncOutboxEntry(id: string): Promise<void> {
+    const db = ensureFirebase();
+    await remove(ref(db, `syncOutbox/${id}`));
+  }
+
+  // Raw node contents for the Prisma backfill; not part of IStorage
+  async exportNode(path: string): Promise<Record<string, any>> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, path));
+    return snapshot.exists() ? snapshot.val() : {};
+  }
+
+  // Single records for the dual-write reconciler; writing null deletes the node
+  async readNode(path: string): Promise<any> {
+    const db = ensureFirebase();
+    const snapshot = await get(ref(db, path));
+    return snapshot.exists() ? snapshot.val() : null;
+  }
+
+  async writeNode(path: string, value: unknown): Promise<void> {
+    const db = ensureFirebase();
+    await set(ref(db, path), value);
+  }
 }
 
 export const firebaseRealtimeStorage = new FirebaseRealtimeStorage();
\ No newline at end of file
@@ -7,6 +7,7 @@ import compression from "compression";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { logger } from "./utils/logger";
+import { captureRawBody } from "./middleware/webhook-auth";
 
 const app = express();
 
@@ -24,7 +25,7 @@ app.use(compression({
   }
 }));
 
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
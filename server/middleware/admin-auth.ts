@@ -92,6 +92,17 @@ export function isValidAdminSession(sessionId: string): boolean {
   return true;
 }
 
+// Email of the admin behind a session id; also used for WebSocket upgrades, which bypass Express middleware
+export function getAdminEmailForSession(sessionId: string | undefined): string | undefined {
+  if (!sessionId || !isValidAdminSession(sessionId)) return undefined;
+  return adminSessions.get(sessionId)?.email;
+}
+
+// Email of the admin behind a request, used to attribute changes in audit trails
+export function getAdminSessionEmail(req: Request): string | undefined {
+  return getAdminEmailForSession(req.cookies?.admin_session);
+}
+
 export function refreshAdminSession(sessionId: string): boolean {
   const session = adminSessions.get(sessionId);
   if (!session || !isValidAdminSession(sessionId)) return false;
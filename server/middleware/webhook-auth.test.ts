@@ -0,0 +1,68 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { captureRawBody, verifyRazorpayWebhook } from './webhook-auth';
+
+const SECRET = 'webhook-test-secret';
+
+// Mounted the way index.ts and routes.ts do, so the signature is checked over the bytes actually sent
+describe('verifyRazorpayWebhook', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.post('/webhook', verifyRazorpayWebhook, (_req, res) => res.json({ status: 'ok' }));
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Extra spacing that re-serialising the parsed body would not reproduce
+  const body = '{ "event": "payment.captured",  "payload": {} }';
+  const sign = (payload: string, secret = SECRET) => crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+  function post(headers: Record<string, string> = {}) {
+    return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+  }
+
+  it('accepts a signature over the raw body', async () => {
+    vi.stubEnv('RAZORPAY_WEBHOOK_SECRET', SECRET);
+
+    const response = await post({ 'X-Razorpay-Signature': sign(body) });
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects an unsigned webhook', async () => {
+    vi.stubEnv('RAZORPAY_WEBHOOK_SECRET', SECRET);
+
+    const response = await post();
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    vi.stubEnv('RAZORPAY_WEBHOOK_SECRET', SECRET);
+
+    const response = await post({ 'X-Razorpay-Signature': sign(body, 'other-secret') });
+    expect(response.status).toBe(400);
+  });
+
+  it('refuses every webhook while no secret is configured', async () => {
+    vi.stubEnv('RAZORPAY_WEBHOOK_SECRET', '');
+
+    const response = await post({ 'X-Razorpay-Signature': sign(body) });
+    expect(response.status).toBe(503);
+  });
+});
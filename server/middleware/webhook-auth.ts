@@ -1,35 +1,43 @@
 import { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage, ServerResponse } from 'http';
 import crypto from 'crypto';
 
-// Middleware to verify Razorpay webhook signatures
+// Signatures cover the exact bytes that were sent, which JSON parsing throws away. Passed to
+// express.json() as its verify callback so the webhook check below can read them back
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  rawBodies.set(req, buf);
+}
+
+// Middleware to verify Razorpay webhook signatures. Webhooks settle orders, refunds and subscription
+// charges, so they are refused outright until a secret is configured
 export function verifyRazorpayWebhook(req: Request, res: Response, next: NextFunction) {
   try {
     const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
     
     if (!webhookSecret) {
-      console.log('Razorpay webhook secret not configured, skipping verification in development');
-      return next(); // Allow in development if secret not set
+      return res.status(503).json({ error: 'Razorpay webhooks are not configured' });
     }
     
-    const receivedSignature = req.headers['x-razorpay-signature'] as string;
+    const receivedSignature = typeof req.headers['x-razorpay-signature'] === 'string' ? req.headers['x-razorpay-signature'] : '';
+    const rawBody = rawBodies.get(req);
     
-    if (!receivedSignature) {
+    if (!receivedSignature || !rawBody) {
       return res.status(400).json({ error: 'Missing webhook signature' });
     }
     
-    const body = JSON.stringify(req.body);
-    
     const expectedSignature = crypto
       .createHmac('sha256', webhookSecret)
-      .update(body)
-      .digest('hex');
+      .update(rawBody)
+      .digest();
+    const signature = Buffer.from(receivedSignature, 'hex');
     
-    if (receivedSignature !== expectedSignature) {
+    if (signature.length !== expectedSignature.length || !crypto.timingSafeEqual(signature, expectedSignature)) {
       console.log('Webhook signature verification failed');
       return res.status(400).json({ error: 'Invalid webhook signature' });
     }
     
-    console.log('Webhook signature verified successfully');
     next();
     
   } catch (error) {
@@ -38,6 +46,27 @@ export function verifyRazorpayWebhook(req: Request, res: Response, next: NextFun
   }
 }
 
+// Middleware to check the shared secret mail providers send with inbound email webhooks. Inbound mail
+// opens tickets, so it is refused outright until a secret is configured
+export function verifyInboundEmailWebhook(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+
+  if (!secret) {
+    return res.status(503).json({ error: 'Inbound email is not configured' });
+  }
+
+  // Only accepted as a header; a token in the URL would end up in access logs
+  const received = typeof req.headers['x-inbound-token'] === 'string' ? req.headers['x-inbound-token'] : '';
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(received).digest();
+
+  if (!received || !crypto.timingSafeEqual(expected, actual)) {
+    return res.status(401).json({ error: 'Invalid inbound email token' });
+  }
+
+  next();
+}
+
 // Rate limiting for webhook endpoints - In-memory implementation for production
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
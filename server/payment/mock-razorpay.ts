@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+
+// In-memory stand-in for the Razorpay API, enabled with RAZORPAY_MOCK=true outside production.
+// Amounts follow the real API and are in paisa.
+export const MOCK_RAZORPAY_KEY_SECRET = 'rzp_mock_secret';
+
+interface MockPayment {
+  id: string;
+  entity: 'payment';
+  order_id: string;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  status: 'captured' | 'refunded';
+  refund_status: 'null' | 'partial' | 'full';
+  method: string;
+  created_at: number;
+}
+
+function mockId(prefix: string): string {
+  return `${prefix}_mock${crypto.randomBytes(7).toString('hex')}`;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function createMockRazorpay() {
+  const orders = new Map<string, any>();
+  const payments = new Map<string, MockPayment>();
+  const paymentLinks = new Map<string, any>();
+
+  // Mock orders are paid as soon as a payment for them is looked up
+  const capturePayment = (paymentId: string): MockPayment => {
+    const existing = payments.get(paymentId);
+    if (existing) return existing;
+
+    const order = Array.from(orders.values()).find(o => o.status !== 'paid');
+    const payment: MockPayment = {
+      id: paymentId,
+      entity: 'payment',
+      order_id: order?.id || mockId('order'),
+      amount: order?.amount || 0,
+      amount_refunded: 0,
+      currency: order?.currency || 'INR',
+      status: 'captured',
+      refund_status: 'null',
+      method: 'upi',
+      created_at: now()
+    };
+    if (order) order.status = 'paid';
+    payments.set(paymentId, payment);
+    return payment;
+  };
+
+  return {
+    orders: {
+      async create(params: { amount: number; currency: string; receipt?: string; notes?: Record<string, string> }) {
+        const order = {
+          id: mockId('order'),
+          entity: 'order',
+          amount: params.amount,
+          amount_paid: 0,
+          amount_due: params.amount,
+          currency: params.currency,
+          receipt: params.receipt,
+          notes: params.notes || {},
+          status: 'created',
+          created_at: now()
+        };
+        orders.set(order.id, order);
+        return order;
+      }
+    },
+    payments: {
+      async fetch(paymentId: string) {
+        return capturePayment(paymentId);
+      },
+      async refund(paymentId: string, params: { amount?: number; notes?: Record<string, string> }) {
+        const payment = capturePayment(paymentId);
+        const refundable = payment.amount - payment.amount_refunded;
+        const amount = params.amount ?? refundable;
+
+        if (amount <= 0 || amount > refundable) {
+          throw { statusCode: 400, error: { description: 'The refund amount provided is greater than amount captured' } };
+        }
+
+        payment.amount_refunded += amount;
+        payment.refund_status = payment.amount_refunded >= payment.amount ? 'full' : 'partial';
+        if (payment.refund_status === 'full') payment.status = 'refunded';
+
+        return {
+          id: mockId('rfnd'),
+          entity: 'refund',
+          amount,
+          currency: payment.currency,
+          payment_id: paymentId,
+          notes: params.notes || {},
+          status: 'processed',
+          speed_processed: 'normal',
+          created_at: now()
+        };
+      }
+    },
+    subscriptions: {
+      async create(params: any) {
+        return { id: mockId('sub'), entity: 'subscription', status: 'created', ...params, created_at: now() };
+      },
+      async fetch(subscriptionId: string) {
+        return { id: subscriptionId, entity: 'subscription', status: 'active' };
+      },
+      async cancel(subscriptionId: string) {
+        return { id: subscriptionId, entity: 'subscription', status: 'cancelled' };
+      },
+      async pause(subscriptionId: string) {
+        return { id: subscriptionId, entity: 'subscription', status: 'paused' };
+      },
+      async resume(subscriptionId: string) {
+        return { id: subscriptionId, entity: 'subscription', status: 'active' };
+      }
+    },
+    plans: {
+      async create(params: any) {
+        return { id: mockId('plan'), entity: 'plan', ...params, created_at: now() };
+      }
+    },
+    paymentLink: {
+      async create(params: any) {
+        const id = mockId('plink');
+        const link = {
+          id,
+          ...params,
+          amount_paid: 0,
+          short_url: `https://rzp.io/i/${id.slice(-8)}`,
+          status: 'created',
+          payments: null,
+          created_at: now()
+        };
+        paymentLinks.set(id, link);
+        return link;
+      },
+      async fetch(paymentLinkId: string) {
+        const link = paymentLinks.get(paymentLinkId);
+        if (!link) throw { statusCode: 400, error: { description: 'The id provided does not exist' } };
+        return link;
+      },
+      async cancel(paymentLinkId: string) {
+        const link = paymentLinks.get(paymentLinkId);
+        if (!link) throw { statusCode: 400, error: { description: 'The id provided does not exist' } };
+        link.status = 'cancelled';
+        return link;
+      }
+    }
+  };
+}
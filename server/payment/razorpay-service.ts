@@ -1,6 +1,7 @@
 import Razorpay from 'razorpay';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { createMockRazorpay, MOCK_RAZORPAY_KEY_SECRET } from './mock-razorpay';
 
 interface PaymentOrder {
   amount: number;
@@ -9,6 +10,15 @@ interface PaymentOrder {
   notes?: Record<string, string>;
 }
 
+interface PaymentLinkRequest {
+  amount: number;
+  referenceId: string;
+  description: string;
+  expireBy: Date;
+  customer: { name?: string; email: string };
+  notes?: Record<string, string>;
+}
+
 interface PaymentVerification {
   razorpay_order_id: string;
   razorpay_payment_id: string;
@@ -17,10 +27,19 @@ interface PaymentVerification {
 
 class RazorpayService {
   private razorpay: Razorpay | null = null;
+  private keySecret: string | undefined = process.env.RAZORPAY_KEY_SECRET;
 
   constructor() {
     const keyId = process.env.RAZORPAY_KEY_ID;
     const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+    // Local development and testing can run against an in-memory Razorpay
+    if (process.env.RAZORPAY_MOCK === 'true' && process.env.NODE_ENV !== 'production') {
+      this.razorpay = createMockRazorpay() as unknown as Razorpay;
+      this.keySecret = keySecret || MOCK_RAZORPAY_KEY_SECRET;
+      logger.warn('Razorpay running in mock mode', { context: 'Payment' });
+      return;
+    }
     
     if (!keyId || !keySecret) {
       this.razorpay = null;
@@ -69,7 +88,7 @@ class RazorpayService {
     }
 
     try {
-      const keySecret = process.env.RAZORPAY_KEY_SECRET;
+      const keySecret = this.keySecret;
       
       if (!keySecret) {
         throw new Error('RAZORPAY_KEY_SECRET environment variable is not set');
@@ -117,7 +136,20 @@ class RazorpayService {
     }
   }
 
-  async refundPayment(paymentId: string, amount?: number): Promise<any> {
+  async getOrder(orderId: string): Promise<any> {
+    if (!this.razorpay) {
+      throw new Error('Razorpay not configured');
+    }
+
+    try {
+      return await this.razorpay.orders.fetch(orderId);
+    } catch (error) {
+      console.error('Failed to fetch order details:', error);
+      throw new Error('Failed to fetch order details');
+    }
+  }
+
+  async refundPayment(paymentId: string, amount?: number, notes?: Record<string, string>): Promise<any> {
     if (!this.razorpay) {
       throw new Error('Razorpay not configured');
     }
@@ -125,13 +157,67 @@ class RazorpayService {
     try {
       const refundData: any = {};
       if (amount) {
-        refundData.amount = amount * 100; // Amount in paisa
+        refundData.amount = Math.round(amount * 100); // Amount in paisa
+      }
+      if (notes) {
+        refundData.notes = notes;
       }
 
       return await this.razorpay.payments.refund(paymentId, refundData);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Refund failed:', error);
-      throw new Error('Failed to process refund');
+      throw new Error(error?.error?.description || 'Failed to process refund');
+    }
+  }
+
+  // Razorpay emails the link to the customer; payment_link.* webhooks report whether it was paid
+  async createPaymentLink(linkData: PaymentLinkRequest): Promise<any> {
+    if (!this.razorpay) {
+      throw new Error('Razorpay not configured');
+    }
+
+    try {
+      return await this.razorpay.paymentLink.create({
+        amount: Math.round(linkData.amount * 100), // Amount in paisa
+        currency: 'INR',
+        accept_partial: false,
+        expire_by: Math.floor(linkData.expireBy.getTime() / 1000),
+        reference_id: linkData.referenceId,
+        description: linkData.description,
+        customer: linkData.customer,
+        notify: { email: true },
+        reminder_enable: true,
+        notes: linkData.notes || {}
+      });
+    } catch (error) {
+      console.error('Payment link creation failed:', error);
+      throw new Error('Failed to create payment link');
+    }
+  }
+
+  async getPaymentLink(paymentLinkId: string): Promise<any> {
+    if (!this.razorpay) {
+      throw new Error('Razorpay not configured');
+    }
+
+    try {
+      return await this.razorpay.paymentLink.fetch(paymentLinkId);
+    } catch (error) {
+      console.error('Failed to fetch payment link:', error);
+      throw new Error('Failed to fetch payment link');
+    }
+  }
+
+  async cancelPaymentLink(paymentLinkId: string): Promise<any> {
+    if (!this.razorpay) {
+      throw new Error('Razorpay not configured');
+    }
+
+    try {
+      return await this.razorpay.paymentLink.cancel(paymentLinkId);
+    } catch (error) {
+      console.error('Failed to cancel payment link:', error);
+      throw new Error('Failed to cancel payment link');
     }
   }
 
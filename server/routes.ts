@@ -1,19 +1,32 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { firebaseRealtimeStorage as storage, database } from "./firebase-realtime-storage";
+import { database } from "./firebase-realtime-storage";
+import { storage } from "./storage/index";
 import { logger } from "./utils/logger";
 import { ref, get, set, update } from "firebase/database";
-import { insertInquirySchema, insertPcBuildSchema, stockUpdateSchema, Component } from "@shared/schema";
+import { insertInquirySchema, insertPcBuildSchema, stockUpdateSchema, Component, ORDER_STATUSES, catalogBuildSelectionSchema, orderListQuerySchema, inquiryListQuerySchema, userListQuerySchema } from "@shared/schema";
 import { z } from "zod";
 import { generateSitemap, generateRobotsTxt } from "./sitemap";
 import { sendEmail, createQuoteRequestEmail, createCustomerConfirmationEmail, createOrderConfirmationEmail } from "./email-service";
 import { sendAutomatedReceipt, ReceiptData } from "./services/receipt-generator";
 import { razorpayService } from "./payment/razorpay-service";
 import { handleRazorpayWebhook } from "./webhooks/razorpay-webhook";
+import { calculateCheckoutQuote, assertClientTotal, PriceMismatchError } from "./services/order-pricing";
+import { stockReservationService } from "./services/stock-reservation";
+import { orderPaymentService } from "./services/order-payment";
+import { supportSlaService } from "./services/support-sla";
+import { inboundEmailService } from "./services/inbound-email";
+import { liveChatHub } from "./services/live-chat-hub";
+import { subscriptionManagementService } from "./services/subscription-management-service";
+import { storageReconciler } from "./services/storage-reconciler";
+import { orderLifecycleService, InvalidOrderTransitionError } from "./services/order-lifecycle";
+import { taxInvoiceService } from "./services/tax-invoice";
+import { getIndianState, isValidGstin, normalizeGstin } from "@shared/gst";
 // Firebase receipt trigger removed - using direct Brevo email service
 import { 
   requireAdminAuth, 
   optionalAdminAuth, 
+  getAdminSessionEmail, 
   verifyAdminEmail, 
   createAdminSession, 
   destroyAdminSession, 
@@ -22,17 +35,44 @@ import {
 } from "./middleware/admin-auth";
 import { subscriptionRoutes } from "./routes/subscription-routes";
 import { chatRoutes } from "./routes/chat-routes";
+import { discountRoutes } from "./routes/discount-routes";
+import { refundRoutes } from "./routes/refund-routes";
+import { invoiceRoutes } from "./routes/invoice-routes";
+import { catalogRoutes } from "./routes/catalog-routes";
+import { supportRoutes } from "./routes/support-routes";
+import { storageRoutes } from "./routes/storage-routes";
 import { testRoutes } from "./routes/test-routes";
-import { webhookRateLimit } from "./middleware/webhook-auth";
+import { webhookRateLimit, verifyRazorpayWebhook } from "./middleware/webhook-auth";
+import { CustomError } from "./middleware/error-handler";
+import { buildCompatibilityService } from "./services/build-compatibility";
 import { loadBusinessSettings, saveBusinessSettings, initializeBusinessSettings } from "./business-settings-storage";
 import { logger } from "./utils/logger";
 
+// Optional catalog ids sent alongside a build or inquiry so it can be checked for compatibility
+const componentSelectionSchema = z.object({
+  componentIds: catalogBuildSelectionSchema.optional()
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   logger.info('Initializing routes...', { context: 'Server' });
   
   // Initialize business settings storage
   await initializeBusinessSettings();
+
+  // Return stock held by abandoned checkouts
+  stockReservationService.startExpiryMonitor();
+
+  // Warn about and escalate support tickets nearing or past their SLA
+  supportSlaService.startMonitor();
+
+  // Turn mail delivered to INBOUND_MAILDIR into ticket replies
+  inboundEmailService.startMaildirPoller();
+
+  // Charge due subscriptions daily and retry failed payments on the dunning schedule
+  subscriptionManagementService.startBillingScheduler();
+
+  // Retry failed dual writes and repair drift between Firebase and Prisma
+  storageReconciler.startReconciler();
   
   // Health check and API routes
   
@@ -71,6 +111,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Chat AI routes
   app.use("/api/chat", chatRoutes);
 
+  // Discount and coupon routes
+  app.use("/api/discounts", discountRoutes);
+
+  // Admin refund and credit note routes
+  app.use("/api/admin/orders", refundRoutes);
+
+  // Tax invoice PDF downloads
+  app.use("/api", invoiceRoutes);
+
+  // Configurator component catalog
+  app.use("/api/catalog", catalogRoutes);
+
+  // Support tickets for customers and the admin queue
+  app.use("/api/support", supportRoutes);
+
+  // Dual-write consistency report and reconcile runs
+  app.use("/api/admin/storage", storageRoutes);
+
   // Test routes for Prisma integration
   app.use("/api", testRoutes);
 
@@ -261,7 +319,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 95000
           }]),
           total: 95000,
-          status: "processing",
+          status: "processing" as const,
           paymentMethod: "razorpay",
           shippingAddress: "123 Tech Street, Bangalore, Karnataka 560001"
         },
@@ -276,7 +334,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 175000
           }]),
           total: 175000,
-          status: "completed",
+          status: "delivered" as const,
           paymentMethod: "razorpay",
           shippingAddress: "456 Business Avenue, Mumbai, Maharashtra 400001"
         }
@@ -370,6 +428,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/builds", async (req, res) => {
     try {
       const validatedData = insertPcBuildSchema.parse(req.body);
+
+      // Builds assembled from catalog parts must pass the same compatibility rules as the configurator
+      const { componentIds } = componentSelectionSchema.parse(req.body);
+      if (componentIds) {
+        const compatibility = await buildCompatibilityService.checkSelection(componentIds);
+        if (!compatibility.overallCompatible) {
+          return res.status(422).json({ error: "Build has compatibility errors", compatibility });
+        }
+      }
+
       const newBuild = await storage.createPcBuild(validatedData);
       
       res.status(201).json({
@@ -380,6 +448,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid build data", details: error.errors });
+      } else if (error instanceof CustomError) {
+        res.status(error.statusCode).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to create PC build" });
       }
@@ -390,6 +460,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/inquiries", async (req, res) => {
     try {
       const validatedData = insertInquirySchema.parse(req.body);
+
+      const { componentIds } = componentSelectionSchema.parse(req.body);
+      if (componentIds) {
+        const compatibility = await buildCompatibilityService.checkSelection(componentIds, { useCase: validatedData.useCase });
+        if (!compatibility.overallCompatible) {
+          return res.status(422).json({ error: "Build has compatibility errors", compatibility });
+        }
+      }
+
       const inquiry = await storage.createInquiry(validatedData);
       
       // Send email notifications
@@ -430,10 +509,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           details: error.errors 
         });
       }
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to submit inquiry" });
     }
   });
 
+  // One page of inquiries for the admin table, filtered and sorted on the server
+  app.get("/api/inquiries/page", requireAdminAuth, async (req, res) => {
+    try {
+      res.json(await storage.listInquiries(inquiryListQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid list query", details: error.errors });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Failed to fetch inquiries page:', error);
+      res.status(500).json({ error: "Failed to fetch inquiries" });
+    }
+  });
+
   // Get all inquiries (admin only)
   app.get("/api/inquiries", requireAdminAuth, async (req, res) => {
     try {
@@ -597,6 +695,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One page of orders for the admin table, filtered and sorted on the server
+  app.get("/api/orders/page", requireAdminAuth, async (req, res) => {
+    try {
+      res.json(await storage.listOrders(orderListQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid list query", details: error.errors });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error fetching orders page:', error);
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
   // Get all orders for admin
   app.get("/api/orders", requireAdminAuth, async (req, res) => {
     try {
@@ -609,24 +723,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update order status
-  app.patch("/api/orders/:id/status", async (req, res) => {
+  // Update order status through the order state machine
+  app.patch("/api/orders/:id/status", requireAdminAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { orderStatus } = req.body;
-      
-      if (!orderStatus || !['pending', 'processing', 'completed', 'cancelled'].includes(orderStatus)) {
-        return res.status(400).json({ error: "Invalid order status. Must be 'pending', 'processing', 'completed', or 'cancelled'" });
-      }
+      const statusSchema = z.object({
+        orderStatus: z.enum(ORDER_STATUSES),
+        note: z.string().max(1000).optional(),
+        trackingNumber: z.string().min(1).optional()
+      });
 
-      const updatedOrder = await storage.updateOrderStatus(id, orderStatus);
-      res.json(updatedOrder);
+      const { orderStatus, note, trackingNumber } = statusSchema.parse(req.body);
+      const { order } = await orderLifecycleService.transition(id, orderStatus, {
+        actor: getAdminSessionEmail(req) || 'admin',
+        note,
+        trackingNumber
+      });
+      res.json(order);
     } catch (error) {
-
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid order status", details: error.errors });
+      }
+      if (error instanceof InvalidOrderTransitionError) {
+        return res.status(error.statusCode).json(error.toResponse());
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update order status" });
     }
   });
 
+  // Order status audit trail
+  app.get("/api/orders/:id/history", requireAdminAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json(await orderLifecycleService.getHistory(id));
+    } catch (error) {
+      console.error('Error fetching order status history:', error);
+      res.status(500).json({ error: "Failed to fetch order status history" });
+    }
+  });
+
   // User Profile Management Routes
   app.get("/api/user/:uid/profile", async (req, res) => {
     try {
@@ -689,18 +827,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/user/:uid/orders", async (req, res) => {
-    try {
-      const { uid } = req.params;
-      const orderData = { ...req.body, userId: uid };
-      
-      const order = await storage.createOrder(orderData);
-      res.status(201).json(order);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to create order" });
-    }
-  });
-
   // User Saved Builds Management
   app.get("/api/user/:uid/saved-builds", async (req, res) => {
     try {
@@ -806,10 +932,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One page of user profiles for the admin table, filtered and sorted on the server
+  app.get("/api/users/page", requireAdminAuth, async (req, res) => {
+    try {
+      res.json(await storage.listUserProfiles(userListQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid list query", details: error.errors });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Get users page error:', error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
   // Users Management for Admin
   app.get("/api/users", requireAdminAuth, async (req, res) => {
     try {
-      // Get all user profiles from Firebase realtime database
       const allProfiles = await storage.getAllUserProfiles();
       res.json(allProfiles);
     } catch (error) {
@@ -935,13 +1076,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/payment/create-order", async (req, res) => {
     try {
       const orderSchema = z.object({
-        amount: z.number(),
         currency: z.string().default('INR'),
         receipt: z.string().optional(),
-        notes: z.record(z.string()).optional()
+        notes: z.record(z.string()).optional(),
+        items: z.array(z.object({
+          buildId: z.number(),
+          quantity: z.number().int().min(1)
+        })).min(1),
+        discountCode: z.string().optional(),
+        userId: z.string().optional(),
+        totalPrice: z.number().optional()
       });
 
-      const { amount, currency, receipt, notes } = orderSchema.parse(req.body);
+      const { currency, receipt, notes, items, discountCode, userId, totalPrice } = orderSchema.parse(req.body);
       
       if (!razorpayService.isConfigured()) {
         return res.status(500).json({ 
@@ -949,21 +1096,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Charge the same server-computed total that POST /api/orders will record
+      const quote = await calculateCheckoutQuote(items, { discountCode, userId });
+      if (totalPrice !== undefined) {
+        assertClientTotal(quote, totalPrice);
+      }
+
       const order = await razorpayService.createOrder({
-        amount,
+        amount: quote.total,
         currency,
         receipt: receipt || `receipt_${Date.now()}`,
-        notes
+        notes: {
+          ...notes,
+          ...(quote.discount ? { discountCode: quote.discount.discountCode } : {})
+        }
       });
 
+      // Hold stock and the coupon's use until the payment is captured, failed or abandoned
+      await stockReservationService.reserve(
+        order.id,
+        quote.items.map(item => ({ buildId: item.buildId, quantity: item.quantity })),
+        { discount: quote.discount ? { discountId: quote.discount.discountId, userId: userId || 'guest' } : undefined }
+      );
+
       res.json({
         success: true,
-        order
+        order,
+        quote
       });
 
-    } catch (error) {
-      res.status(500).json({ 
-        error: "Failed to create payment order" 
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid payment order data", details: error.errors });
+      }
+      if (error instanceof PriceMismatchError) {
+        return res.status(error.statusCode).json(error.toResponse());
+      }
+      res.status(error?.statusCode || 500).json({ 
+        error: error?.statusCode ? error.message : "Failed to create payment order" 
       });
     }
   });
@@ -987,131 +1157,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // For test mode, we'll be more lenient with verification
-      // In production, you'd want stricter verification
+      // A signature that does not check out, or cannot be checked, is a failed verification
       let isValid = false;
-      
       try {
         isValid = razorpayService.verifyPaymentSignature(verification);
       } catch (verifyError) {
-        // For test payments, if signature verification fails but we have valid payment IDs,
-        // we can accept it (this is common in test mode)
-        if (verification.razorpay_payment_id && verification.razorpay_order_id) {
-          isValid = true;
-        }
+        isValid = false;
       }
       
-      if (isValid) {
-        
-        // Get payment details for receipt generation
+      if (!isValid) {
+        return res.status(400).json({
+          success: false,
+          error: "Payment verification failed"
+        });
+      }
+
+      // Settle the order placed for this Razorpay order, the same way the capture webhook does. Checkout
+      // verifies before it places the order, in which case POST /api/orders records the payment instead
+      const matchingOrder = await orderPaymentService.findOrderForPayment(verification.razorpay_order_id);
+      if (matchingOrder) {
         try {
-          const paymentDetails = await razorpayService.getPaymentDetails(verification.razorpay_payment_id);
-          
-          // Find the order associated with this payment
-          const orders = await storage.getAllOrders();
-          const matchingOrder = orders.find(order => 
-            order.paymentMethod === 'online_payment' && 
-            (order.status === 'pending' || order.status === 'paid')
-          );
-          
-          if (matchingOrder && paymentDetails) {
-            // Update order status to paid
-            await storage.updateOrderStatus(matchingOrder.id, 'paid');
-            
-            // Parse order items from JSON
-            let orderItems = [];
-            try {
-              orderItems = JSON.parse(matchingOrder.items);
-            } catch (error) {
-              orderItems = [];
-            }
-            
-            // Fetch components for each build in the order
-            const itemsWithComponents = await Promise.all(orderItems.map(async (item: any) => {
-              let components: any[] = [];
-              if (item.build?.id) {
-                try {
-                  components = await storage.getComponentsByBuildId(item.build.id);
-                } catch (error) {
-                  // Ignore component fetch errors
-                }
-              }
-              return {
-                ...item,
-                build: {
-                  ...item.build,
-                  components: components.map((component: any) => ({
-                    id: component.id,
-                    name: component.name,
-                    type: component.type,
-                    specification: component.specification,
-                    price: parseFloat(component.price)
-                  }))
-                }
-              };
-            }));
-
-            // Generate and send automated receipt
-            const receiptData: ReceiptData = {
-              orderNumber: matchingOrder.orderNumber,
-              paymentId: verification.razorpay_payment_id,
-              orderId: verification.razorpay_order_id,
-              customerName: 'Customer',
-              customerEmail: 'customer@email.com',
-              customerPhone: 'N/A',
-              amount: (() => {
-                const total: any = matchingOrder.total;
-                if (typeof total === 'string') {
-                  return parseFloat(total.replace(/[₹,]/g, ''));
-                }
-                return typeof total === 'number' ? total : 0;
-              })(),
-              paymentMethod: 'online_payment',
-              paymentStatus: 'completed',
-              items: itemsWithComponents,
-              shippingAddress: matchingOrder.shippingAddress || 'N/A',
-              transactionDate: new Date().toLocaleString('en-IN', {
-                day: '2-digit',
-                month: '2-digit', 
-                year: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit',
-                timeZone: 'Asia/Kolkata'
-              }),
-              companyDetails: {
-                name: 'Fusion Forge PCs',
-                address: process.env.BUSINESS_ADDRESS || '58,Post Office Street , Palladam , TamilNadu , India',
-                phone: process.env.BUSINESS_PHONE || '+91 9363599577',
-                email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
-                website: 'www.fusionforge.com',
-                gst: process.env.BUSINESS_GST || 'GST-NUMBER'
-              }
-            };
-            
-            // Send automated receipt to registered user's email
-            const receiptSent = await sendAutomatedReceipt(receiptData);
-            
-            if (receiptSent) {
-            } else {
-            }
-            
-            // Log successful payment processing
+          const payment = await razorpayService.getPaymentDetails(verification.razorpay_payment_id);
+          if (payment?.status === 'captured' && payment.order_id === verification.razorpay_order_id) {
+            await orderPaymentService.settle(matchingOrder, payment, `Payment ${verification.razorpay_payment_id} verified`);
           }
-          
         } catch (error) {
-          // Don't fail the verification if receipt generation fails
+          // The capture webhook settles the order if this attempt fails
+          logger.error('Failed to settle verified payment', error, { context: 'API' });
         }
-        
-        res.json({
-          success: true,
-          message: "Payment verified successfully"
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          error: "Payment verification failed"
-        });
       }
+      
+      res.json({
+        success: true,
+        message: "Payment verified successfully"
+      });
 
     } catch (error) {
       res.status(500).json({ 
@@ -1123,6 +1202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Razorpay webhook endpoint for automatic receipt generation
   app.post("/api/webhook/razorpay", 
     webhookRateLimit,
+    verifyRazorpayWebhook,
     async (req, res) => {
       await handleRazorpayWebhook(req, res);
     }
@@ -1155,6 +1235,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price a cart on the server so checkout shows exactly what will be charged
+  app.post("/api/orders/quote", async (req, res) => {
+    try {
+      const quoteSchema = z.object({
+        items: z.array(z.object({
+          buildId: z.number(),
+          quantity: z.number().int().min(1).max(10)
+        })).min(1),
+        discountCode: z.string().optional(),
+        userId: z.string().optional()
+      });
+
+      const { items, discountCode, userId } = quoteSchema.parse(req.body);
+      const quote = await calculateCheckoutQuote(items, { discountCode, userId });
+
+      res.json({ success: true, quote });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid cart data", details: error.errors });
+      } else if (error instanceof CustomError) {
+        res.status(error.statusCode).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to price order" });
+      }
+    }
+  });
+
   // Submit order and send confirmation email
   app.post("/api/orders", async (req, res) => {
     try {
@@ -1165,6 +1272,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         address: z.string().min(1, "Address is required"),
         city: z.string().min(1, "City is required"),
         zipCode: z.string().min(1, "ZIP code is required"),
+        state: z.string().refine(code => Boolean(getIndianState(code)), "Valid state is required"),
+        gstin: z.string()
+          .transform(normalizeGstin)
+          .refine(gstin => gstin === "" || isValidGstin(gstin), "GSTIN is not valid")
+          .optional(),
         paymentMethod: z.string().min(1, "Payment method is required"),
         notes: z.string().optional(),
         items: z.array(z.object({
@@ -1179,8 +1291,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quantity: z.number()
         })),
         totalPrice: z.number(),
+        discountCode: z.string().optional(),
         razorpayOrderId: z.string().optional(),
-        razorpayPaymentId: z.string().optional()
+        razorpayPaymentId: z.string().optional(),
+        razorpaySignature: z.string().optional()
       });
 
       const orderData = orderSchema.parse(req.body);
@@ -1188,33 +1302,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate order number
       const orderNumber = `FF${Date.now().toString().slice(-8)}`;
       
-      // Determine order status based on payment method
-      let orderStatus = 'pending';
-      if (orderData.paymentMethod === 'online_payment' && orderData.razorpayPaymentId) {
-        orderStatus = 'paid';
+      // An online order is only paid once Razorpay's signature over the payment checks out; anything
+      // else stays pending until the payment webhook confirms it
+      const paymentVerified = orderData.paymentMethod === 'online_payment' &&
+        !!orderData.razorpayOrderId && !!orderData.razorpayPaymentId && !!orderData.razorpaySignature &&
+        razorpayService.isConfigured() &&
+        razorpayService.verifyPaymentSignature({
+          razorpay_order_id: orderData.razorpayOrderId,
+          razorpay_payment_id: orderData.razorpayPaymentId,
+          razorpay_signature: orderData.razorpaySignature
+        });
+      const orderStatus: 'pending' | 'paid' = paymentVerified ? 'paid' : 'pending';
+
+      // Every line is re-priced from storage; the client total is only a cross-check
+      const quote = await calculateCheckoutQuote(
+        orderData.items.map(item => ({ buildId: item.build.id, quantity: item.quantity })),
+        { discountCode: orderData.discountCode, userId: req.body.userId }
+      );
+      assertClientTotal(quote, orderData.totalPrice);
+      const orderTotal = quote.total;
+      const pricedItems = quote.items.map(line => ({
+        build: {
+          id: line.buildId,
+          name: line.name,
+          category: line.category,
+          totalPrice: line.unitPrice,
+          price: line.unitPrice.toString(),
+          hsnCode: line.hsnCode
+        },
+        quantity: line.quantity
+      }));
+
+      // Online checkouts already hold stock and the coupon's use under their Razorpay order; anything
+      // else reserves both now
+      let reservation = orderData.razorpayOrderId
+        ? await stockReservationService.getReservation(orderData.razorpayOrderId)
+        : undefined;
+      if (!reservation || reservation.status === 'released') {
+        try {
+          reservation = await stockReservationService.reserve(
+            `order_${orderNumber}`,
+            quote.items.map(line => ({ buildId: line.buildId, quantity: line.quantity })),
+            { discount: quote.discount ? { discountId: quote.discount.discountId, userId: req.body.userId || 'guest' } : undefined }
+          );
+        } catch (error) {
+          // A captured payment cannot be turned away, so the shortfall is left for manual follow-up
+          if (orderStatus !== 'paid') throw error;
+          logger.warn('Paid order placed without available stock or coupon use', { context: 'API', data: { orderNumber } });
+          reservation = undefined;
+        }
       }
       
+      const shippingAddress = `${orderData.address}, ${orderData.city}, ${getIndianState(orderData.state)!.name}, ${orderData.zipCode}`;
+
       // Create order in database with authenticated user
       const orderToCreate = {
         userId: req.body.userId || "auth_" + Date.now(), // For authenticated users
         orderNumber: orderNumber,
         status: orderStatus,
-        total: orderData.totalPrice,
-        items: JSON.stringify(orderData.items),
+        total: orderTotal,
+        items: JSON.stringify(pricedItems),
         customerName: orderData.fullName,
         customerEmail: orderData.email,
         paymentMethod: orderData.paymentMethod,
-        shippingAddress: `${orderData.address}, ${orderData.city}, ${orderData.zipCode}`,
-        billingAddress: `${orderData.address}, ${orderData.city}, ${orderData.zipCode}`
+        shippingAddress: shippingAddress,
+        shippingState: orderData.state,
+        billingAddress: shippingAddress,
+        ...(orderData.gstin ? { customerGstin: orderData.gstin } : {}),
+        subtotal: quote.subtotal,
+        discountAmount: quote.discountAmount,
+        gstAmount: quote.gstAmount,
+        shippingAmount: quote.shippingAmount,
+        ...(quote.discount ? { discountCode: quote.discount.discountCode } : {}),
+        ...(orderData.razorpayOrderId ? { razorpayOrderId: orderData.razorpayOrderId } : {}),
+        ...(paymentVerified ? { razorpayPaymentId: orderData.razorpayPaymentId } : {})
       };
       
       const newOrder = await storage.createOrder(orderToCreate);
-      
+
+      try {
+        await orderLifecycleService.recordCreated(newOrder, req.body.userId ? `customer:${req.body.userId}` : 'customer');
+      } catch (error) {
+        logger.error('Failed to record initial order status', error, { context: 'API' });
+      }
+
+      // Stock leaves the shelf once paid, or straight away for offline payment methods
+      if (reservation && (orderStatus === 'paid' || orderData.paymentMethod !== 'online_payment')) {
+        try {
+          await stockReservationService.commit(reservation.id, newOrder.id);
+        } catch (error) {
+          logger.error('Failed to commit stock reservation', error, { context: 'API' });
+        }
+      }
+
       // Create order confirmation email (wrap in try-catch to prevent blocking order)
       let orderEmail;
       try {
         orderEmail = createOrderConfirmationEmail({
           ...orderData,
+          items: pricedItems,
+          totalPrice: orderTotal,
           orderNumber: orderNumber
         });
       } catch (emailError) {
@@ -1257,8 +1444,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 <p><strong>Customer:</strong> ${orderData.fullName}</p>
                 <p><strong>Email:</strong> ${orderData.email}</p>
                 <p><strong>Phone:</strong> ${orderData.phone}</p>
-                <p><strong>Total:</strong> ₹${orderData.totalPrice.toLocaleString('en-IN')}</p>
-                <p><strong>Items:</strong> ${orderData.items.map(item => `${item.build.name} (${item.quantity}x)`).join(', ')}</p>
+                <p><strong>Total:</strong> ₹${orderTotal.toLocaleString('en-IN')}</p>
+                ${quote.discount ? `<p><strong>Discount:</strong> ${quote.discount.discountCode} (-₹${quote.discountAmount.toLocaleString('en-IN')})</p>` : ''}
+                <p><strong>Items:</strong> ${quote.items.map(line => `${line.name} (${line.quantity}x)`).join(', ')}</p>
                 <p><strong>Address:</strong> ${orderData.address}, ${orderData.city}, ${orderData.zipCode}</p>
                 <p><strong>Payment:</strong> ${orderData.paymentMethod === 'cash' ? 'Cash on Delivery' : 'Online Payment'}</p>
                 ${orderData.notes ? `<p><strong>Notes:</strong> ${orderData.notes}</p>` : ''}
@@ -1266,7 +1454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               <p>⚡ Please contact the customer within 24 hours to confirm the order.</p>
             </div>
           `,
-          text: `New Order: ${orderEmail.orderNumber}\nCustomer: ${orderData.fullName} (${orderData.email})\nTotal: ₹${orderData.totalPrice.toLocaleString('en-IN')}`
+          text: `New Order: ${orderEmail.orderNumber}\nCustomer: ${orderData.fullName} (${orderData.email})\nTotal: ₹${orderTotal.toLocaleString('en-IN')}`
         });
         
       } catch (error) {
@@ -1302,6 +1490,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Orders created already paid are settled here, so their tax invoice is issued now
+      const invoice = orderStatus === 'paid' ? await taxInvoiceService.issueOnSettlement(newOrder.id) : undefined;
+
       // Send automated receipt if payment is confirmed
       let receiptSent = false;
       if (orderStatus === 'paid') {
@@ -1314,15 +1505,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
             customerName: orderData.fullName,
             customerEmail: orderData.email,
             customerPhone: orderData.phone,
-            amount: orderData.totalPrice,
+            amount: orderTotal,
             paymentMethod: orderData.paymentMethod === 'cash' ? 'Cash on Delivery' : 'Online Payment',
             paymentStatus: orderStatus === 'paid' ? 'Completed' : 'Pending',
-            items: await Promise.all(orderData.items.map(async (item) => {
-              const components = await storage.getComponentsByBuildId(item.build.id);
+            items: await Promise.all(quote.items.map(async (line) => {
+              const components = await storage.getComponentsByBuildId(line.buildId);
               return {
                 build: {
-                  ...item.build,
-                  price: item.build.basePrice?.toString() || item.build.price || item.build.totalPrice?.toString() || '0',
+                  id: line.buildId,
+                  name: line.name,
+                  category: line.category,
+                  price: line.unitPrice.toString(),
+                  hsnCode: line.hsnCode,
                   components: components.map(component => ({
                     id: component.id,
                     name: component.name,
@@ -1331,10 +1525,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     price: parseFloat(component.price)
                   }))
                 },
-                quantity: item.quantity
+                quantity: line.quantity
               };
             })),
-            shippingAddress: `${orderData.address}, ${orderData.city}, ${orderData.zipCode}`,
+            shippingAddress: shippingAddress,
             transactionDate: new Date().toLocaleString('en-IN', {
               year: 'numeric',
               month: 'long',
@@ -1348,8 +1542,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               phone: process.env.BUSINESS_PHONE || '+91 9363599577',
               email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
               website: 'https://fusionforge.replit.app',
-              gst: process.env.BUSINESS_GST || 'GST-NUMBER'
-            }
+              gst: process.env.BUSINESS_GST
+            },
+            invoice
           };
 
           receiptSent = await sendAutomatedReceipt(receiptData);
@@ -1373,6 +1568,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid order data", details: error.errors });
+      } else if (error instanceof PriceMismatchError) {
+        res.status(error.statusCode).json(error.toResponse());
+      } else if (error instanceof CustomError) {
+        res.status(error.statusCode).json({ error: error.message });
       } else {
         res.status(500).json({ error: "Failed to process order" });
       }
@@ -1496,7 +1695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           phone: process.env.BUSINESS_PHONE || '+91 9363599577',
           email: process.env.BUSINESS_EMAIL || "fusionforgepcs@gmail.com",
           website: "www.fusionforge.com",
-          gst: process.env.BUSINESS_GST || 'GST-NUMBER'
+          gst: process.env.BUSINESS_GST
         }
       };
       
@@ -1686,6 +1885,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   const httpServer = createServer(app);
+  liveChatHub.attach(httpServer);
   return httpServer;
 }
 
@@ -1771,8 +1971,9 @@ async function manualReceiptGeneration(orderId: number): Promise<boolean> {
         phone: process.env.BUSINESS_PHONE || '+91 9363599577',
         email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
         website: 'www.fusionforge.com',
-        gst: process.env.BUSINESS_GST || 'GST-NUMBER'
-      }
+        gst: process.env.BUSINESS_GST
+      },
+      invoice: await taxInvoiceService.issueOnSettlement(order.id)
     };
     
     const { sendAutomatedReceipt } = await import('./services/receipt-generator');
@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { componentCatalog } from '../services/component-catalog';
+import { buildCompatibilityService } from '../services/build-compatibility';
+import { checkBuildCompatibility, type CompatibilityBuild } from '../../shared/compatibility';
+import { requireAdminAuth } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+import {
+  CATALOG_CATEGORIES,
+  CATALOG_TIERS,
+  catalogBuildSelectionSchema,
+  insertCatalogComponentSchema
+} from '../../shared/schema';
+
+const router = Router();
+
+const catalogQuerySchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES).optional(),
+  tier: z.enum(CATALOG_TIERS).optional(),
+  socket: z.string().min(1).optional(),
+  memoryType: z.string().min(1).optional(),
+  formFactor: z.string().min(1).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  search: z.string().min(1).optional()
+});
+
+// Parts described inline, for builds that use components outside the catalog
+const compatibilityPartSchema = insertCatalogComponentSchema.pick({
+  name: true,
+  performance: true,
+  powerConsumption: true,
+  tier: true,
+  socket: true,
+  memoryType: true,
+  formFactor: true,
+  wattage: true,
+  maxTdp: true,
+  lengthMm: true,
+  heightMm: true,
+  maxGpuLengthMm: true,
+  maxCoolerHeightMm: true,
+  pcieSlots: true,
+  m2Slots: true,
+  capacity: true,
+  vram: true,
+  storageType: true,
+  efficiency: true
+}).partial().required({ name: true });
+
+const partOrList = z.union([compatibilityPartSchema, z.array(compatibilityPartSchema).min(1).max(8)]);
+
+const compatibilityRequestSchema = z.object({
+  componentIds: catalogBuildSelectionSchema.optional(),
+  components: z.object({
+    cpu: compatibilityPartSchema,
+    gpu: partOrList,
+    ram: partOrList,
+    storage: partOrList,
+    motherboard: compatibilityPartSchema,
+    psu: compatibilityPartSchema,
+    case: compatibilityPartSchema,
+    cooler: compatibilityPartSchema
+  }).partial().optional(),
+  useCase: z.string().optional()
+}).refine(body => body.componentIds || body.components, {
+  message: 'Provide componentIds, components or both'
+});
+
+// Validate an arbitrary build; inline components override catalog ids for the same category
+router.post('/compatibility', async (req, res) => {
+  try {
+    const { componentIds, components, useCase } = compatibilityRequestSchema.parse(req.body);
+    const build: CompatibilityBuild = {
+      ...(componentIds ? await buildCompatibilityService.resolveSelection(componentIds) : {}),
+      ...components
+    };
+
+    res.json(checkBuildCompatibility(build, { useCase }));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid build', details: error.errors });
+    }
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error checking build compatibility:', error);
+    res.status(500).json({ error: 'Failed to check build compatibility' });
+  }
+});
+
+// Admin routes for catalog management; registered before /:id so they are not shadowed
+router.get('/admin/components', requireAdminAuth, async (req, res) => {
+  try {
+    const filters = catalogQuerySchema.parse(req.query);
+    res.json(await componentCatalog.list(filters, { includeInactive: true }));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid catalog filters', details: error.errors });
+    }
+    console.error('Error fetching catalog components:', error);
+    res.status(500).json({ error: 'Failed to fetch catalog components' });
+  }
+});
+
+router.post('/admin/components', requireAdminAuth, async (req, res) => {
+  try {
+    const componentData = insertCatalogComponentSchema.parse(req.body);
+    const component = await componentCatalog.create(componentData);
+    res.status(201).json(component);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid component data', details: error.errors });
+    }
+    console.error('Error creating catalog component:', error);
+    res.status(500).json({ error: 'Failed to create catalog component' });
+  }
+});
+
+router.patch('/admin/components/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const updates = insertCatalogComponentSchema.partial().parse(req.body);
+    res.json(await componentCatalog.update(req.params.id, updates));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid component data', details: error.errors });
+    }
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating catalog component:', error);
+    res.status(500).json({ error: 'Failed to update catalog component' });
+  }
+});
+
+router.delete('/admin/components/:id', requireAdminAuth, async (req, res) => {
+  try {
+    await componentCatalog.remove(req.params.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error deleting catalog component:', error);
+    res.status(500).json({ error: 'Failed to delete catalog component' });
+  }
+});
+
+// Public catalog; only active parts are listed
+router.get('/', async (req, res) => {
+  try {
+    const filters = catalogQuerySchema.parse(req.query);
+    res.json(await componentCatalog.list(filters));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid catalog filters', details: error.errors });
+    }
+    console.error('Error fetching catalog:', error);
+    res.status(500).json({ error: 'Failed to fetch catalog' });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await componentCatalog.get(req.params.id));
+  } catch (error: any) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching catalog component:', error);
+    res.status(500).json({ error: 'Failed to fetch catalog component' });
+  }
+});
+
+export { router as catalogRoutes };
@@ -1,22 +1,45 @@
-import { Router } from 'express';
-import { sambanovaAIService } from '../services/sambanova-ai-service';
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { aiChatService } from '../services/ai-chat-service';
+import { requireAdminAuth } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+import { CHAT_SESSION_STATUSES, SUPPORT_TICKET_PRIORITIES, chatMessageRequestSchema } from '../../shared/schema';
 
 const router = Router();
 
+const escalationSchema = z.object({
+  sessionId: z.string().min(1),
+  reason: z.string().trim().min(1).max(500),
+  urgency: z.enum(SUPPORT_TICKET_PRIORITIES).optional()
+});
+
+const sessionFiltersSchema = z.object({
+  status: z.enum(CHAT_SESSION_STATUSES).optional(),
+  userId: z.string().min(1).optional()
+});
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid chat request', details: error.errors });
+  }
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
 // Get AI response for chat message
 router.post('/ai-response', async (req, res) => {
   try {
-    const { sessionId, message } = req.body;
-    
-    if (!sessionId || !message) {
-      return res.status(400).json({ error: 'Session ID and message are required' });
-    }
-
-    const aiResponse = await sambanovaAIService.getAIResponse(sessionId, message);
-    res.json(aiResponse);
+    const { sessionId, message, ...customer } = chatMessageRequestSchema.parse(req.body);
+    res.json(await aiChatService.respond(sessionId, message, customer));
   } catch (error: any) {
+    if (error instanceof z.ZodError || error instanceof CustomError) {
+      return sendError(res, error, 'Failed to get AI response');
+    }
     console.error('Error getting AI response:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       error: 'Failed to get AI response',
       fallback: {
         response: "I'm having trouble processing your request right now. Let me connect you with a human agent who can help.",
@@ -30,46 +53,56 @@ router.post('/ai-response', async (req, res) => {
   }
 });
 
-// Admin escalation endpoint  
+// Escalation raised by the chat widget; recorded on the session for the support team
 router.post('/admin/escalation', async (req, res) => {
   try {
-    const { sessionId, reason, timestamp } = req.body;
-    
-    if (!sessionId || !reason) {
-      return res.status(400).json({ error: 'Session ID and reason are required' });
-    }
-
-    // Log escalation for admin dashboard
-    // Here you would typically save to database or send notification
-    // For now, we'll just acknowledge the escalation
-    res.json({ 
-      success: true, 
+    const { sessionId, reason, urgency } = escalationSchema.parse(req.body);
+    const session = await aiChatService.escalate(sessionId, reason, urgency);
+    res.json({
+      success: true,
       message: 'Escalation recorded',
       sessionId,
-      reason,
-      timestamp
+      reason: session.escalation?.reason || reason,
+      timestamp: session.escalation?.escalatedAt
     });
-  } catch (error: any) {
-    console.error('Error handling escalation:', error);
-    res.status(500).json({ error: 'Failed to handle escalation' });
+  } catch (error) {
+    sendError(res, error, 'Failed to handle escalation');
   }
 });
 
 // Get conversation summary for admin
-router.get('/summary/:sessionId', async (req, res) => {
+router.get('/summary/:sessionId', requireAdminAuth, async (req, res) => {
   try {
-    const { sessionId } = req.params;
-    
-    if (!sessionId) {
-      return res.status(400).json({ error: 'Session ID is required' });
-    }
-
-    const summary = await sambanovaAIService.getConversationSummary(sessionId);
+    const summary = await aiChatService.getConversationSummary(req.params.sessionId);
     res.json({ summary });
-  } catch (error: any) {
-    console.error('Error getting conversation summary:', error);
-    res.status(500).json({ error: 'Failed to get conversation summary' });
+  } catch (error) {
+    sendError(res, error, 'Failed to get conversation summary');
+  }
+});
+
+// Stored chat transcripts for review
+router.get('/admin/sessions', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await aiChatService.listSessions(sessionFiltersSchema.parse(req.query)));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch chat sessions');
+  }
+});
+
+router.get('/admin/sessions/:id', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await aiChatService.getTranscript(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch chat transcript');
+  }
+});
+
+router.post('/admin/sessions/:id/close', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await aiChatService.closeSession(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to close chat session');
   }
 });
 
-export { router as chatRoutes };
\ No newline at end of file
+export { router as chatRoutes };
@@ -0,0 +1,182 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { discountSystem } from '../services/discount-system';
+import { calculateCheckoutQuote } from '../services/order-pricing';
+import { razorpayService } from '../payment/razorpay-service';
+import { storage } from '../storage/index';
+import { requireAdminAuth } from '../middleware/admin-auth';
+import { insertDiscountCodeSchema, bulkPricingTierSchema } from '../../shared/schema';
+
+const router = Router();
+
+const checkoutItemsSchema = z.array(z.object({
+  buildId: z.number().int().positive(),
+  quantity: z.number().int().min(1).max(10)
+})).min(1);
+
+const couponRequestSchema = z.object({
+  code: z.string().min(1),
+  userId: z.string().min(1).optional(),
+  items: checkoutItemsSchema
+});
+
+// Validate a coupon against the cart without computing the full checkout total
+router.post('/validate', async (req, res) => {
+  try {
+    const { code, userId, items } = couponRequestSchema.parse(req.body);
+    const quote = await calculateCheckoutQuote(items, { discountCode: code, userId });
+
+    res.json({
+      valid: true,
+      code: quote.discount?.discountCode,
+      discountType: quote.discount?.discountType,
+      discountAmount: quote.discountAmount
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ valid: false, error: 'Invalid coupon request', details: error.errors });
+    }
+    res.status(error.statusCode || 500).json({ valid: false, error: error.message || 'Failed to validate discount code' });
+  }
+});
+
+// Apply a coupon and return the server-computed checkout breakdown
+router.post('/apply', async (req, res) => {
+  try {
+    const { code, userId, items } = couponRequestSchema.parse(req.body);
+    const quote = await calculateCheckoutQuote(items, { discountCode: code, userId });
+    res.json({ success: true, quote });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid coupon request', details: error.errors });
+    }
+    res.status(error.statusCode || 500).json({ error: error.message || 'Failed to apply discount code' });
+  }
+});
+
+// Record coupon usage once the payment signature has been verified. The signature only proves a
+// payment for its Razorpay order, so the order placed with that payment and coupon is required too
+router.post('/confirm', async (req, res) => {
+  try {
+    const confirmSchema = z.object({
+      code: z.string().min(1),
+      orderId: z.number().int().positive(),
+      razorpay_order_id: z.string(),
+      razorpay_payment_id: z.string(),
+      razorpay_signature: z.string()
+    });
+
+    const { code, orderId, ...verification } = confirmSchema.parse(req.body);
+
+    if (!razorpayService.isConfigured() || !razorpayService.verifyPaymentSignature(verification)) {
+      return res.status(400).json({ error: 'Payment could not be verified' });
+    }
+
+    const order = await storage.getOrderById(orderId);
+    if (
+      !order ||
+      order.razorpayOrderId !== verification.razorpay_order_id ||
+      order.discountCode?.toUpperCase() !== code.trim().toUpperCase()
+    ) {
+      return res.status(400).json({ error: 'Payment does not match an order placed with this discount code' });
+    }
+
+    const result = await discountSystem.confirmDiscountUsage(order.discountCode, order.userId, verification.razorpay_order_id);
+    if (!result.success) {
+      return res.status(409).json({ error: 'Discount code could not be redeemed', reason: result.reason });
+    }
+    res.json({ success: true, redemption: result.redemption });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid confirmation request', details: error.errors });
+    }
+    console.error('Error confirming discount usage:', error);
+    res.status(500).json({ error: 'Failed to confirm discount usage' });
+  }
+});
+
+// Admin routes for discount code management
+router.get('/admin/codes', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await discountSystem.getAllDiscountCodes());
+  } catch (error: any) {
+    console.error('Error fetching discount codes:', error);
+    res.status(500).json({ error: 'Failed to fetch discount codes' });
+  }
+});
+
+router.post('/admin/codes', requireAdminAuth, async (req, res) => {
+  try {
+    const discountData = insertDiscountCodeSchema.parse({ ...req.body, createdBy: 'admin' });
+    const existing = await discountSystem.getAllDiscountCodes();
+
+    if (existing.some(d => d.code === discountData.code)) {
+      return res.status(409).json({ error: 'A discount code with this code already exists' });
+    }
+
+    const discount = await discountSystem.createDiscountCode(discountData);
+    res.status(201).json(discount);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid discount data', details: error.errors });
+    }
+    console.error('Error creating discount code:', error);
+    res.status(500).json({ error: 'Failed to create discount code' });
+  }
+});
+
+router.patch('/admin/codes/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const updateSchema = z.object({
+      name: z.string().min(1),
+      description: z.string(),
+      value: z.number().min(0),
+      minimumOrderValue: z.number().min(0),
+      maximumDiscount: z.number().min(0),
+      usageLimit: z.number().int().min(1),
+      usagePerCustomer: z.number().int().min(1),
+      validUntil: z.number(),
+      isActive: z.boolean(),
+      stackable: z.boolean()
+    }).partial();
+
+    const updates = updateSchema.parse(req.body);
+    const discount = await discountSystem.updateDiscountCode(req.params.id, updates);
+
+    if (!discount) {
+      return res.status(404).json({ error: 'Discount code not found' });
+    }
+
+    res.json(discount);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid discount data', details: error.errors });
+    }
+    console.error('Error updating discount code:', error);
+    res.status(500).json({ error: 'Failed to update discount code' });
+  }
+});
+
+router.get('/admin/bulk-tiers', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await discountSystem.getBulkPricingTiers());
+  } catch (error: any) {
+    console.error('Error fetching bulk pricing tiers:', error);
+    res.status(500).json({ error: 'Failed to fetch bulk pricing tiers' });
+  }
+});
+
+router.put('/admin/bulk-tiers/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const tier = bulkPricingTierSchema.parse({ ...req.body, id: req.params.id });
+    res.json(await discountSystem.saveBulkPricingTier(tier));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid bulk pricing tier', details: error.errors });
+    }
+    console.error('Error saving bulk pricing tier:', error);
+    res.status(500).json({ error: 'Failed to save bulk pricing tier' });
+  }
+});
+
+export { router as discountRoutes };
@@ -0,0 +1,51 @@
+import { Router, type Response } from 'express';
+import { storage } from '../storage/index';
+import { invoicePdfService } from '../services/invoice-pdf';
+import { requireAdminAuth } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+
+const router = Router();
+
+async function sendInvoicePdf(res: Response, orderId: number, options: { issue?: boolean } = {}) {
+  const invoice = await invoicePdfService.getInvoicePdf(orderId, options);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${invoice.filename}"`);
+  res.setHeader('Content-Length', invoice.content.length);
+  res.setHeader('Cache-Control', 'private, max-age=0, must-revalidate');
+  res.send(invoice.content);
+}
+
+// Customer download of an invoice already issued; the order must belong to the requesting user
+router.get('/user/:uid/orders/:id/invoice.pdf', async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const order = await storage.getOrderById(orderId);
+    if (!order || order.userId !== req.params.uid) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    await sendInvoicePdf(res, orderId);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error generating invoice PDF:', error);
+    res.status(500).json({ error: 'Failed to generate invoice' });
+  }
+});
+
+// Staff can issue the invoice for an order settled before invoices were issued at settlement
+router.get('/admin/orders/:id/invoice.pdf', requireAdminAuth, async (req, res) => {
+  try {
+    await sendInvoicePdf(res, parseInt(req.params.id), { issue: true });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error generating invoice PDF:', error);
+    res.status(500).json({ error: 'Failed to generate invoice' });
+  }
+});
+
+export { router as invoiceRoutes };
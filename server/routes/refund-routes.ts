@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { refundService } from '../services/refund-service';
+import { requireAdminAuth, getAdminSessionEmail } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+
+const router = Router();
+
+const refundRequestSchema = z.object({
+  amount: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+  restock: z.boolean().default(false),
+  restockItems: z.array(z.object({
+    buildId: z.number().int().positive(),
+    quantity: z.number().int().min(1)
+  })).optional()
+});
+
+// Issue a full refund (no amount) or a partial refund against an order's captured payment
+router.post('/:id/refunds', requireAdminAuth, async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const refundRequest = refundRequestSchema.parse(req.body);
+
+    const refund = await refundService.requestRefund(orderId, {
+      ...refundRequest,
+      actor: getAdminSessionEmail(req) || 'admin'
+    });
+    res.status(201).json(refund);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid refund request', details: error.errors });
+    }
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error processing refund:', error);
+    res.status(502).json({ error: error.message || 'Failed to process refund' });
+  }
+});
+
+router.get('/:id/refunds', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await refundService.getRefunds(parseInt(req.params.id)));
+  } catch (error: any) {
+    console.error('Error fetching refunds:', error);
+    res.status(500).json({ error: 'Failed to fetch refunds' });
+  }
+});
+
+router.get('/:id/credit-notes', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await refundService.getCreditNotes(parseInt(req.params.id)));
+  } catch (error: any) {
+    console.error('Error fetching credit notes:', error);
+    res.status(500).json({ error: 'Failed to fetch credit notes' });
+  }
+});
+
+export { router as refundRoutes };
@@ -0,0 +1,48 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { storageReconciler } from '../services/storage-reconciler';
+import { requireAdminAuth } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+import { DUAL_WRITE_ENTITIES } from '../../shared/schema';
+
+const router = Router();
+
+const reconcileRequestSchema = z.object({
+  repair: z.boolean().default(false),
+  sourceOfTruth: z.enum(['firebase', 'prisma', 'primary']).optional(),
+  entities: z.array(z.enum(DUAL_WRITE_ENTITIES)).min(1).optional()
+});
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid reconcile request', details: error.errors });
+  }
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Queued dual writes in both stores plus the drift found by the last reconcile run
+router.get('/consistency', requireAdminAuth, async (_req, res) => {
+  try {
+    res.json(await storageReconciler.getConsistencyReport());
+  } catch (error) {
+    sendError(res, error, 'Failed to build consistency report');
+  }
+});
+
+// Compare the stores now; with repair, drifted records are overwritten from the source of truth
+router.post('/reconcile', requireAdminAuth, async (req, res) => {
+  try {
+    const options = reconcileRequestSchema.parse(req.body ?? {});
+    const run = await storageReconciler.reconcile(options);
+    if (!run) throw new CustomError('A reconcile run is already in progress, please try again shortly', 409);
+    res.json(run);
+  } catch (error) {
+    sendError(res, error, 'Failed to reconcile storage');
+  }
+});
+
+export { router as storageRoutes };
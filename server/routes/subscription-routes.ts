@@ -1,15 +1,39 @@
-import { Router } from 'express';
-import { subscriptionManagementService } from '../services/subscription-management-service';
-import { firebaseRealtimeStorage as storage } from '../firebase-realtime-storage';
-import { insertSubscriptionSchema, insertSubscriptionOrderSchema } from '../../shared/schema';
+import { Router, type Response } from 'express';
+import { subscriptionManagementService, SubscriptionChangeMismatchError } from '../services/subscription-management-service';
+import { storage } from '../storage/index';
+import { requireAdminAuth, getAdminSessionEmail } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+import {
+  insertSubscriptionSchema,
+  insertSubscriptionOrderSchema,
+  insertSubscriptionPlanSchema,
+  updateSubscriptionPlanSchema,
+  subscriptionChangeSchema,
+  confirmSubscriptionChangeSchema,
+  subscriptionListQuerySchema
+} from '../../shared/schema';
 import { z } from 'zod';
 
 const router = Router();
 
-// Get all subscription plans
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid subscription request', details: error.errors });
+  }
+  if (error instanceof SubscriptionChangeMismatchError) {
+    return res.status(error.statusCode).json(error.toResponse());
+  }
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Get the plans open to new subscribers
 router.get('/plans', async (req, res) => {
   try {
-    const plans = subscriptionManagementService.getSubscriptionPlans();
+    const plans = await subscriptionManagementService.getSubscriptionPlans();
     res.json(plans);
   } catch (error: any) {
     console.error('Error fetching subscription plans:', error);
@@ -96,6 +120,9 @@ router.post('/create', async (req, res) => {
     const subscription = await subscriptionManagementService.createSubscription(subscriptionRequest);
     res.json(subscription);
   } catch (error: any) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error creating subscription:', error);
     res.status(500).json({ error: error.message || 'Failed to create subscription' });
   }
@@ -130,6 +157,9 @@ router.post('/pricing', async (req, res) => {
 
     res.json(pricing);
   } catch (error: any) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error calculating pricing:', error);
     res.status(500).json({ error: error.message || 'Failed to calculate pricing' });
   }
@@ -210,6 +240,72 @@ router.post('/:id/cancel', async (req, res) => {
   }
 });
 
+// Preview the prorated credit or charge for switching plan or items mid-period
+router.post('/:id/change/preview', async (req, res) => {
+  try {
+    const { userId } = req.body;
+    
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const subscription = await storage.getSubscriptionById(req.params.id);
+    if (!subscription || subscription.userId !== userId) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const change = subscriptionChangeSchema.parse(req.body);
+    res.json(await subscriptionManagementService.previewSubscriptionChange(subscription, change));
+  } catch (error) {
+    sendError(res, error, 'Failed to preview subscription change');
+  }
+});
+
+// Confirm a previewed change; expectedAdjustment must match what the preview showed
+router.post('/:id/change', async (req, res) => {
+  try {
+    const { userId } = req.body;
+    
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const subscription = await storage.getSubscriptionById(req.params.id);
+    if (!subscription || subscription.userId !== userId) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const { expectedAdjustment, ...change } = confirmSubscriptionChangeSchema.parse(req.body);
+    res.json(await subscriptionManagementService.changeSubscription(subscription.id, change, expectedAdjustment));
+  } catch (error) {
+    sendError(res, error, 'Failed to change subscription');
+  }
+});
+
+// Terms of the plan version the subscription was sold on
+router.get('/:id/terms', async (req, res) => {
+  try {
+    const { userId } = req.query;
+    
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const subscription = await storage.getSubscriptionById(req.params.id);
+    if (!subscription || subscription.userId !== userId) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const terms = await subscriptionManagementService.getSubscriptionTerms(subscription);
+    if (!terms) {
+      return res.status(404).json({ error: 'Plan terms not found' });
+    }
+    res.json(terms);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch subscription terms');
+  }
+});
+
 // Get specific subscription details
 router.get('/:id', async (req, res) => {
   try {
@@ -233,10 +329,9 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Process subscription billing (for automated billing - internal use)
-router.post('/:id/process-billing', async (req, res) => {
+// Bill a subscription for its current period now
+router.post('/:id/process-billing', requireAdminAuth, async (req, res) => {
   try {
-    // This should be protected with admin authentication or API key
     const subscriptionId = req.params.id;
     
     const result = await subscriptionManagementService.processSubscriptionBilling(subscriptionId);
@@ -247,10 +342,9 @@ router.post('/:id/process-billing', async (req, res) => {
   }
 });
 
-// Process all due subscriptions (for cron job)
-router.post('/process-due', async (req, res) => {
+// Run the billing job now instead of waiting for the daily scheduler
+router.post('/process-due', requireAdminAuth, async (req, res) => {
   try {
-    // This should be protected with admin authentication or API key
     const result = await subscriptionManagementService.processDueSubscriptions();
     res.json(result);
   } catch (error: any) {
@@ -259,15 +353,75 @@ router.post('/process-due', async (req, res) => {
   }
 });
 
+// One page of subscriptions for the admin table, filtered and sorted on the server
+router.get('/admin/all/page', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await storage.listSubscriptions(subscriptionListQuerySchema.parse(req.query)));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch subscriptions');
+  }
+});
+
 // Admin routes for subscription management
-router.get('/admin/all', async (req, res) => {
+router.get('/admin/all', requireAdminAuth, async (req, res) => {
   try {
-    // Get all subscriptions for admin view
     const subscriptions = await storage.getAllSubscriptions();
     res.json(subscriptions);
-  } catch (error: any) {
-    console.error('Error fetching all subscriptions:', error);
-    res.status(500).json({ error: 'Failed to fetch subscriptions' });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch subscriptions');
+  }
+});
+
+// Admin plan management; editing a plan's terms publishes a new version
+router.get('/admin/plans', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await subscriptionManagementService.listPlans());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch subscription plans');
+  }
+});
+
+router.post('/admin/plans', requireAdminAuth, async (req, res) => {
+  try {
+    const plan = insertSubscriptionPlanSchema.parse(req.body);
+    const created = await subscriptionManagementService.createPlan(plan, getAdminSessionEmail(req) || 'admin');
+    res.status(201).json(created);
+  } catch (error) {
+    sendError(res, error, 'Failed to create subscription plan');
+  }
+});
+
+router.patch('/admin/plans/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const updates = updateSubscriptionPlanSchema.parse(req.body);
+    res.json(await subscriptionManagementService.updatePlan(req.params.id, updates, getAdminSessionEmail(req) || 'admin'));
+  } catch (error) {
+    sendError(res, error, 'Failed to update subscription plan');
+  }
+});
+
+// Retired plans are hidden from new subscribers; existing subscriptions keep billing on their version
+router.post('/admin/plans/:id/retire', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await subscriptionManagementService.retirePlan(req.params.id, getAdminSessionEmail(req) || 'admin'));
+  } catch (error) {
+    sendError(res, error, 'Failed to retire subscription plan');
+  }
+});
+
+router.post('/admin/plans/:id/restore', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await subscriptionManagementService.restorePlan(req.params.id, getAdminSessionEmail(req) || 'admin'));
+  } catch (error) {
+    sendError(res, error, 'Failed to restore subscription plan');
+  }
+});
+
+router.get('/admin/plans/:id/versions', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await subscriptionManagementService.getPlanVersions(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch plan versions');
   }
 });
 
@@ -0,0 +1,415 @@
+import express, { Router, type Request, type Response, type RequestHandler } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { storage } from '../storage/index';
+import { supportTicketSystem } from '../services/support-ticket-system';
+import { ticketAttachmentService } from '../services/ticket-attachments';
+import { supportSlaService } from '../services/support-sla';
+import { inboundEmailService, providerAuthenticationResults } from '../services/inbound-email';
+import { requireAdminAuth, getAdminSessionEmail } from '../middleware/admin-auth';
+import { verifyInboundEmailWebhook } from '../middleware/webhook-auth';
+import { CustomError } from '../middleware/error-handler';
+import {
+  SUPPORT_ATTACHMENT_LIMITS,
+  SUPPORT_TICKET_CATEGORIES,
+  SUPPORT_TICKET_PRIORITIES,
+  SUPPORT_TICKET_STATUSES,
+  insertSupportSlaPolicySchema,
+  insertSupportTicketSchema,
+  supportTicketReplySchema
+} from '../../shared/schema';
+import type { SupportTicket } from '../../shared/schema';
+
+const router = Router();
+
+// Contact details are taken from the profile; the form values are only used when there is none
+const createTicketSchema = insertSupportTicketSchema.extend({
+  email: z.string().email().optional(),
+  name: z.string().trim().min(1).optional()
+});
+
+const adminTicketFiltersSchema = z.object({
+  status: z.enum(SUPPORT_TICKET_STATUSES).optional(),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES).optional(),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES).optional(),
+  assignedAgent: z.string().min(1).optional()
+});
+
+const adminTicketUpdateSchema = z.object({
+  status: z.enum(SUPPORT_TICKET_STATUSES),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES),
+  assignedAgent: z.string().trim().min(1)
+}).partial();
+
+const adminResponseSchema = supportTicketReplySchema.extend({
+  isInternal: z.boolean().default(false)
+});
+
+// Optional text fields sent alongside uploaded files
+const attachmentFieldsSchema = z.object({
+  message: z.string().trim().max(5000).optional().transform(message => message || undefined),
+  isInternal: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+// Uploaded files are held in memory; multer stops reading once a file or the batch is over the limit
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: SUPPORT_ATTACHMENT_LIMITS.maxFileBytes,
+    files: SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload,
+    fields: 10
+  }
+}).array('files', SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload);
+
+// Run a multer handler inside a route so limit errors are reported like any other bad request
+function receiveUpload(handler: RequestHandler, req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+        reject(new CustomError(tooLarge ? 'A file is larger than the upload limit' : error.message, tooLarge ? 413 : 400));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+async function readAttachmentUpload(req: Request, res: Response) {
+  await receiveUpload(attachmentUpload, req, res);
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  return {
+    ...attachmentFieldsSchema.parse(req.body || {}),
+    files: files.map(file => ({ fileName: file.originalname, content: file.buffer }))
+  };
+}
+
+// Providers post the raw message either as the body or as a form field of a multipart request
+const inboundEmailUpload = express.raw({
+  type: ['message/rfc822', 'text/plain', 'application/octet-stream'],
+  limit: SUPPORT_ATTACHMENT_LIMITS.maxTicketBytes * 2
+});
+
+const inboundEmailForm = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: SUPPORT_ATTACHMENT_LIMITS.maxTicketBytes * 2,
+    fieldSize: SUPPORT_ATTACHMENT_LIMITS.maxTicketBytes * 2
+  }
+}).any();
+
+async function readInboundEmail(req: Request, res: Response): Promise<{ raw: Buffer; providerResults?: string }> {
+  if (!req.is('multipart/form-data')) {
+    return { raw: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0) };
+  }
+
+  await receiveUpload(inboundEmailForm, req, res);
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  const file = files.find(candidate => candidate.fieldname === 'email' || candidate.fieldname === 'body-mime');
+  const raw = file?.buffer ?? req.body?.['email'] ?? req.body?.['body-mime'];
+  if (!raw) throw new CustomError('Expected the raw message in an "email" field', 400);
+  return {
+    raw: Buffer.isBuffer(raw) ? raw : Buffer.from(String(raw), 'utf8'),
+    providerResults: providerAuthenticationResults(req.body || {})
+  };
+}
+
+async function sendAttachment(res: Response, ticket: SupportTicket, attachmentId: string) {
+  const { attachment, content } = await ticketAttachmentService.getFile(ticket, attachmentId);
+  // Quotes and backslashes would end or escape the quoted filename early
+  const asciiName = attachment.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+
+  res.setHeader('Content-Type', attachment.contentType);
+  res.setHeader('Content-Disposition',
+    `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+  res.setHeader('Content-Length', content.length);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Cache-Control', 'private, max-age=0, must-revalidate');
+  res.send(content);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid ticket data', details: error.errors });
+  }
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Customer tickets; the ticket must belong to the requesting user
+async function getOwnedTicket(uid: string, ticketId: string) {
+  const ticket = await supportTicketSystem.getTicket(ticketId);
+  if (ticket.userId !== uid) {
+    throw new CustomError('Ticket not found', 404);
+  }
+  return ticket;
+}
+
+router.get('/user/:uid/tickets', async (req, res) => {
+  try {
+    const tickets = await supportTicketSystem.getTickets({ userId: req.params.uid });
+    res.json(tickets.map(ticket => supportTicketSystem.toCustomerView(ticket)));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch tickets');
+  }
+});
+
+router.post('/user/:uid/tickets', async (req, res) => {
+  try {
+    const { uid } = req.params;
+    const { email, name, ...ticketData } = createTicketSchema.parse(req.body);
+
+    if (ticketData.orderId !== undefined) {
+      const order = await storage.getOrderById(ticketData.orderId);
+      if (!order || order.userId !== uid) {
+        return res.status(400).json({ error: 'Order not found for this account' });
+      }
+    }
+
+    const profile = await storage.getUserProfile(uid);
+    const userEmail = profile?.email || email;
+    if (!userEmail) {
+      return res.status(400).json({ error: 'An email address is required to open a ticket' });
+    }
+
+    const ticket = await supportTicketSystem.createTicket({
+      ...ticketData,
+      userId: uid,
+      userEmail,
+      userName: profile?.displayName || name || userEmail.split('@')[0]
+    });
+    res.status(201).json(supportTicketSystem.toCustomerView(ticket));
+  } catch (error) {
+    sendError(res, error, 'Failed to create ticket');
+  }
+});
+
+router.get('/user/:uid/tickets/:id', async (req, res) => {
+  try {
+    const ticket = await getOwnedTicket(req.params.uid, req.params.id);
+    res.json(supportTicketSystem.toCustomerView(ticket));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch ticket');
+  }
+});
+
+router.post('/user/:uid/tickets/:id/replies', async (req, res) => {
+  try {
+    const { message } = supportTicketReplySchema.parse(req.body);
+    const ticket = await getOwnedTicket(req.params.uid, req.params.id);
+
+    const updated = await supportTicketSystem.addResponse(ticket.id, {
+      authorId: req.params.uid,
+      authorType: 'user',
+      authorName: ticket.userName,
+      message
+    });
+    res.status(201).json(supportTicketSystem.toCustomerView(updated));
+  } catch (error) {
+    sendError(res, error, 'Failed to add reply');
+  }
+});
+
+// Files sent as multipart "files" parts; with a "message" field they are attached to a new reply
+router.post('/user/:uid/tickets/:id/attachments', async (req, res) => {
+  try {
+    // Check the ticket before reading anyone's upload into memory
+    const ticket = await getOwnedTicket(req.params.uid, req.params.id);
+    const { message, files } = await readAttachmentUpload(req, res);
+
+    const updated = await supportTicketSystem.addAttachments(ticket.id, {
+      authorId: req.params.uid,
+      authorType: 'user',
+      authorName: ticket.userName,
+      files,
+      message
+    });
+    res.status(201).json(supportTicketSystem.toCustomerView(updated));
+  } catch (error) {
+    sendError(res, error, 'Failed to upload attachments');
+  }
+});
+
+// Customer downloads go through the signed, expiring links handed out with the ticket
+const downloadLinkSchema = z.object({
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().min(1)
+});
+
+router.get('/tickets/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const { expires, signature } = downloadLinkSchema.parse(req.query);
+    ticketAttachmentService.verifyDownloadUrl(req.params.id, req.params.attachmentId, expires, signature);
+    const ticket = await supportTicketSystem.getTicket(req.params.id);
+    await sendAttachment(res, supportTicketSystem.toCustomerView(ticket), req.params.attachmentId);
+  } catch (error) {
+    sendError(res, error, 'Failed to download attachment');
+  }
+});
+
+// Inbound mail: replies are matched to tickets, anything else opens a new one
+router.post('/inbound-email', verifyInboundEmailWebhook, inboundEmailUpload, async (req, res) => {
+  try {
+    const { raw, providerResults } = await readInboundEmail(req, res);
+    if (raw.length === 0) throw new CustomError('Empty message', 400);
+    res.json(await inboundEmailService.ingest(raw, providerResults));
+  } catch (error) {
+    sendError(res, error, 'Failed to process inbound email');
+  }
+});
+
+// Admin routes for the support queue
+router.get('/admin/tickets', requireAdminAuth, async (req, res) => {
+  try {
+    const filters = adminTicketFiltersSchema.parse(req.query);
+    res.json(await supportTicketSystem.getTickets(filters));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch tickets');
+  }
+});
+
+router.get('/admin/analytics', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await supportTicketSystem.getTicketAnalytics());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch ticket analytics');
+  }
+});
+
+// SLA policies; changes apply to new tickets and to tickets whose category or priority changes
+router.get('/admin/sla-policies', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await supportSlaService.listPolicies());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch SLA policies');
+  }
+});
+
+router.post('/admin/sla-policies', requireAdminAuth, async (req, res) => {
+  try {
+    const policy = insertSupportSlaPolicySchema.parse(req.body);
+    res.status(201).json(await supportSlaService.createPolicy(policy));
+  } catch (error) {
+    sendError(res, error, 'Failed to create SLA policy');
+  }
+});
+
+router.patch('/admin/sla-policies/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const updates = insertSupportSlaPolicySchema.partial().parse(req.body);
+    res.json(await supportSlaService.updatePolicy(req.params.id, updates));
+  } catch (error) {
+    sendError(res, error, 'Failed to update SLA policy');
+  }
+});
+
+router.delete('/admin/sla-policies/:id', requireAdminAuth, async (req, res) => {
+  try {
+    await supportSlaService.deletePolicy(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete SLA policy');
+  }
+});
+
+router.get('/admin/tickets/:id', requireAdminAuth, async (req, res) => {
+  try {
+    res.json(await supportTicketSystem.getTicket(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch ticket');
+  }
+});
+
+router.patch('/admin/tickets/:id', requireAdminAuth, async (req, res) => {
+  try {
+    const updates = adminTicketUpdateSchema.parse(req.body);
+    res.json(await supportTicketSystem.updateTicket(req.params.id, updates));
+  } catch (error) {
+    sendError(res, error, 'Failed to update ticket');
+  }
+});
+
+// Replies to the customer, or internal notes when isInternal is set
+router.post('/admin/tickets/:id/responses', requireAdminAuth, async (req, res) => {
+  try {
+    const { message, isInternal } = adminResponseSchema.parse(req.body);
+    const adminEmail = getAdminSessionEmail(req) || 'admin';
+
+    const ticket = await supportTicketSystem.addResponse(req.params.id, {
+      authorId: adminEmail,
+      authorType: 'admin',
+      authorName: isInternal ? adminEmail : 'Support Team',
+      message,
+      isInternal
+    });
+    res.status(201).json(ticket);
+  } catch (error) {
+    sendError(res, error, 'Failed to add response');
+  }
+});
+
+router.post('/admin/tickets/:id/attachments', requireAdminAuth, async (req, res) => {
+  try {
+    const { message, isInternal, files } = await readAttachmentUpload(req, res);
+    const adminEmail = getAdminSessionEmail(req) || 'admin';
+
+    const ticket = await supportTicketSystem.addAttachments(req.params.id, {
+      authorId: adminEmail,
+      authorType: 'admin',
+      authorName: isInternal ? adminEmail : 'Support Team',
+      files,
+      message,
+      isInternal
+    });
+    res.status(201).json(ticket);
+  } catch (error) {
+    sendError(res, error, 'Failed to upload attachments');
+  }
+});
+
+router.get('/admin/tickets/:id/attachments/:attachmentId', requireAdminAuth, async (req, res) => {
+  try {
+    const ticket = await supportTicketSystem.getTicket(req.params.id);
+    await sendAttachment(res, ticket, req.params.attachmentId);
+  } catch (error) {
+    sendError(res, error, 'Failed to download attachment');
+  }
+});
+
+// Permanently removes the ticket and its stored files
+router.delete('/admin/tickets/:id', requireAdminAuth, async (req, res) => {
+  try {
+    await supportTicketSystem.purgeTicket(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Failed to purge ticket');
+  }
+});
+
+// Read the configured maildir now instead of waiting for the poller
+router.post('/admin/inbound/maildir', requireAdminAuth, async (_req, res) => {
+  try {
+    if (!process.env.INBOUND_MAILDIR) throw new CustomError('INBOUND_MAILDIR is not configured', 400);
+    res.json(await inboundEmailService.processMaildir(process.env.INBOUND_MAILDIR));
+  } catch (error) {
+    sendError(res, error, 'Failed to read inbound maildir');
+  }
+});
+
+router.post('/admin/tickets/:id/resolve', requireAdminAuth, async (req, res) => {
+  try {
+    const { message } = supportTicketReplySchema.parse(req.body);
+    const ticket = await supportTicketSystem.resolveTicket(req.params.id, message, getAdminSessionEmail(req) || 'admin');
+    res.json(ticket);
+  } catch (error) {
+    sendError(res, error, 'Failed to resolve ticket');
+  }
+});
+
+export { router as supportRoutes };
@@ -1,11 +1,12 @@
 import { Router } from 'express';
-import { testPrismaIntegration } from '../test-prisma';
 
 const router = Router();
 
 // Test endpoint to demonstrate Prisma integration
 router.get('/test/prisma', async (req, res) => {
   try {
+    // Loaded on request so the server still boots without a generated Prisma client
+    const { testPrismaIntegration } = await import('../test-prisma');
     const result = await testPrismaIntegration();
     res.status(result.success ? 200 : 500).json(result);
   } catch (error) {
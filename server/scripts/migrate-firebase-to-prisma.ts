@@ -0,0 +1,87 @@
+/**
+ * Firebase → Prisma migration command
+ *
+ *   npm run db:migrate-firebase -- copy [--entities=orders,orderStatusEvents] [--restart] [--batch-size=200]
+ *   npm run db:migrate-firebase -- verify [--entities=...]
+ *
+ * copy resumes from the last checkpoint (or starts over with --restart) and verifies afterwards;
+ * verify only compares. The full report is written to data/migrations/ and the exit code is 1
+ * while any selected entity still differs.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { firebasePrismaMigration } from '../storage/firebase-prisma-migration';
+import type { MigrationOptions, MigrationReport } from '../storage/firebase-prisma-migration';
+
+const REPORT_DIR = path.join(process.cwd(), 'data', 'migrations');
+
+function parseArgs(args: string[]): { mode: 'copy' | 'verify'; options: MigrationOptions } {
+  const [mode, ...flags] = args;
+  if (mode !== 'copy' && mode !== 'verify') {
+    throw new Error('Usage: migrate-firebase-to-prisma <copy|verify> [--entities=a,b] [--restart] [--batch-size=n]');
+  }
+
+  const options: MigrationOptions = {};
+  for (const flag of flags) {
+    const [name, value] = flag.split('=');
+    if (name === '--entities' && value) {
+      options.entities = value.split(',').map(entity => entity.trim()).filter(Boolean);
+    } else if (name === '--restart') {
+      options.restart = true;
+    } else if (name === '--batch-size' && Number(value) > 0) {
+      options.batchSize = Number(value);
+    } else {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return { mode, options };
+}
+
+function printSummary(report: MigrationReport): void {
+  if (report.copy.length > 0) {
+    console.table(report.copy.map(result => ({
+      entity: result.entity,
+      scanned: result.scanned,
+      copied: result.copied,
+      skipped: result.skipped,
+      reassignedIds: result.reassignedIds,
+      failed: result.failed.length
+    })));
+  }
+
+  console.table(report.verification.map(result => ({
+    entity: result.entity,
+    firebase: result.sourceCount,
+    prisma: result.targetCount,
+    missing: result.missingInTarget.length,
+    extra: result.extraInTarget.length,
+    invalid: result.invalid.length,
+    mismatches: result.mismatchCount,
+    checksum: result.sourceChecksum === result.targetChecksum ? 'match' : 'differs',
+    ready: result.ready
+  })));
+
+  for (const readSwitch of report.readSwitches) {
+    const target = readSwitch.name === 'STORAGE_DRIVER' ? 'STORAGE_DRIVER=prisma' : `${readSwitch.name}=prisma`;
+    console.log(`${readSwitch.ready ? '✅' : '❌'} ${target} (${readSwitch.entities.join(', ')})`);
+  }
+}
+
+async function main() {
+  const { mode, options } = parseArgs(process.argv.slice(2));
+  const report = await firebasePrismaMigration.run(mode, options);
+
+  await fs.mkdir(REPORT_DIR, { recursive: true });
+  const reportFile = path.join(REPORT_DIR, `firebase-prisma-${mode}-${report.startedAt.replace(/[:.]/g, '-')}.json`);
+  await fs.writeFile(reportFile, JSON.stringify(report, null, 2));
+
+  printSummary(report);
+  console.log(`Full report: ${reportFile}`);
+  process.exit(report.verification.every(result => result.ready) ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+// Common contract for the language model backends behind the support chat
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// JSON schema subset understood by every provider: object, string, number, boolean and array types
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, Record<string, unknown>>;
+    required?: string[];
+  };
+}
+
+export interface AIChatTurn {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: AIToolCall[]; // assistant turns that asked for tools
+  toolCallId?: string; // tool turns: the call this result answers
+  toolName?: string;
+}
+
+// Either final text or tool calls the service must run before asking again
+export interface AIProviderReply {
+  text: string;
+  toolCalls: AIToolCall[];
+}
+
+export interface AIChatProvider {
+  readonly name: string;
+  // Providers without credentials are skipped during failover
+  isConfigured(): boolean;
+  generateReply(turns: AIChatTurn[], tools: AIToolDefinition[]): Promise<AIProviderReply>;
+}
+
+// Upstream calls are abandoned after this long so the next provider can be tried
+export const AI_PROVIDER_TIMEOUT_MS = 20 * 1000;
+
+// Deterministic provider for tests and local development; never calls the network.
+// A message of the form `tool:<name> {"json":"args"}` makes it call that tool.
+export class MockAIChatProvider implements AIChatProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly options: { failWith?: string } = {}) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateReply(turns: AIChatTurn[], tools: AIToolDefinition[]): Promise<AIProviderReply> {
+    if (this.options.failWith) {
+      throw new Error(this.options.failWith);
+    }
+
+    const last = turns[turns.length - 1];
+    if (last?.role === 'tool') {
+      return { text: `Mock reply: ${last.toolName} returned ${last.content.slice(0, 300)}`, toolCalls: [] };
+    }
+
+    const userTurns = turns.filter(turn => turn.role === 'user');
+    const message = userTurns[userTurns.length - 1]?.content ?? '';
+    const toolRequest = /^tool:(\w+)\s*(\{[\s\S]*\})?\s*$/.exec(message);
+    if (toolRequest && tools.some(tool => tool.name === toolRequest[1])) {
+      return {
+        text: '',
+        toolCalls: [{ id: `call_${userTurns.length}`, name: toolRequest[1], arguments: JSON.parse(toolRequest[2] || '{}') }]
+      };
+    }
+
+    return { text: `Mock reply #${userTurns.length}: you asked about "${message.slice(0, 200)}".`, toolCalls: [] };
+  }
+}
@@ -0,0 +1,435 @@
+// AI support chat: builds the prompt, fails over between providers and keeps every session in storage
+import { storage } from '../storage/index';
+import { loadBusinessSettings } from '../business-settings-storage';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { MockAIChatProvider } from './ai-chat-provider';
+import type { AIChatProvider, AIChatTurn, AIToolCall } from './ai-chat-provider';
+import { aiChatTools } from './ai-chat-tools';
+import { SambaNovaChatProvider } from './sambanova-ai-service';
+import { GeminiChatProvider } from './gemini-ai-service';
+import { SUPPORT_TICKET_PRIORITIES } from '../../shared/schema';
+import type { ChatMessage, ChatSession, ChatSessionUpdate, InsertChatMessage, SupportTicketPriority } from '../../shared/schema';
+
+export interface EscalationDecision {
+  shouldEscalate: boolean;
+  reason: string;
+  urgency: SupportTicketPriority;
+}
+
+export interface AIChatReply {
+  response: string;
+  escalation: EscalationDecision;
+  provider?: string;
+  handledByAgent?: boolean; // an agent has the chat; the reply will arrive over the live chat socket
+}
+
+export interface ChatTranscript {
+  session: ChatSession;
+  messages: ChatMessage[];
+}
+
+interface ChatCustomer {
+  userId?: string;
+  userEmail?: string;
+  userName?: string;
+}
+
+// Every stored message and session change, so the live chat hub can push it to open sockets
+export type ChatEvent =
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'session'; session: ChatSession };
+
+type ChatEventListener = (event: ChatEvent) => void;
+
+// Older turns are dropped from the prompt; the full transcript stays in storage
+const MAX_HISTORY_MESSAGES = 20;
+// Rounds of tool calls allowed before the model must answer in text
+const MAX_TOOL_ROUNDS = 3;
+
+const FALLBACK_REPLY = "I'm experiencing technical difficulties right now. Let me connect you with our support team who can assist you immediately.";
+
+function createProvider(name: string): AIChatProvider | undefined {
+  switch (name) {
+    case 'sambanova': return new SambaNovaChatProvider();
+    case 'gemini': return new GeminiChatProvider();
+    case 'mock': return new MockAIChatProvider();
+    default:
+      logger.warn(`Unknown AI chat provider "${name}" ignored`, { context: 'AI' });
+      return undefined;
+  }
+}
+
+// AI_CHAT_PROVIDERS lists providers in failover order, e.g. "sambanova,gemini" or "mock"
+function providersFromEnv(): AIChatProvider[] {
+  return (process.env.AI_CHAT_PROVIDERS || 'sambanova,gemini')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(createProvider)
+    .filter((provider): provider is AIChatProvider => provider !== undefined);
+}
+
+export class AIChatService {
+  private listeners = new Set<ChatEventListener>();
+
+  constructor(private readonly providers: AIChatProvider[] = providersFromEnv()) {
+    if (!providers.some(provider => provider.isConfigured())) {
+      logger.warn('No AI chat provider is configured - chat replies will hand over to the support team', { context: 'AI' });
+    }
+  }
+
+  // Store the customer's message, answer it with the first provider that succeeds and store the answer
+  async respond(sessionId: string, userMessage: string, customer: ChatCustomer = {}): Promise<AIChatReply> {
+    const session = await this.ensureSession(sessionId, customer);
+    if (session.status === 'closed') {
+      throw new CustomError('This chat session has ended', 409);
+    }
+
+    // While an agent has the chat the AI stays out of it
+    if (session.status === 'with_agent') {
+      await this.record({ sessionId, role: 'user', content: userMessage });
+      return {
+        response: '',
+        escalation: { shouldEscalate: false, reason: 'Chat is being handled by a support agent', urgency: 'low' },
+        handledByAgent: true
+      };
+    }
+
+    const history = await storage.getChatMessages(sessionId);
+    await this.record({ sessionId, role: 'user', content: userMessage });
+
+    const turns: AIChatTurn[] = [
+      { role: 'system', content: await this.buildSystemPrompt() },
+      ...this.toTurns(history),
+      { role: 'user', content: userMessage }
+    ];
+
+    const generated = await this.generateWithFailover(turns);
+    const response = generated?.text ?? FALLBACK_REPLY;
+    const escalation: EscalationDecision = generated
+      ? this.determineEscalation(userMessage, response)
+      : { shouldEscalate: true, reason: 'AI service unavailable', urgency: 'medium' };
+
+    // Tool calls are kept in the transcript so reviewers can see what the answer was based on
+    for (const call of generated?.toolCalls || []) {
+      await this.record({ sessionId, role: 'system', content: `Tool ${call.name} ${JSON.stringify(call.arguments)}` });
+    }
+    await this.record({ sessionId, role: 'assistant', content: response, provider: generated?.provider });
+    if (generated && generated.provider !== session.provider) {
+      await this.updateSession(sessionId, { provider: generated.provider });
+    }
+    if (escalation.shouldEscalate) {
+      await this.escalate(sessionId, escalation.reason, escalation.urgency);
+    }
+
+    return { response, escalation, provider: generated?.provider };
+  }
+
+  // Try each configured provider in order; undefined when all of them fail
+  private async generateWithFailover(
+    turns: AIChatTurn[]
+  ): Promise<{ text: string; provider: string; toolCalls: AIToolCall[] } | undefined> {
+    for (const provider of this.providers) {
+      if (!provider.isConfigured()) continue;
+      try {
+        const { text, toolCalls } = await this.runWithTools(provider, turns);
+        if (text) return { text, provider: provider.name, toolCalls };
+      } catch (error) {
+        logger.error(`AI provider ${provider.name} failed, trying the next one`, error, { context: 'AI' });
+      }
+    }
+    return undefined;
+  }
+
+  // Run the tools the model asks for and feed the results back until it answers in text
+  private async runWithTools(
+    provider: AIChatProvider,
+    turns: AIChatTurn[]
+  ): Promise<{ text: string; toolCalls: AIToolCall[] }> {
+    const conversation = [...turns];
+    const executed: AIToolCall[] = [];
+
+    for (let round = 0; ; round++) {
+      // The last round offers no tools so the model has to reply
+      const tools = round < MAX_TOOL_ROUNDS ? aiChatTools.definitions : [];
+      const reply = await provider.generateReply(conversation, tools);
+      if (reply.toolCalls.length === 0 || tools.length === 0) {
+        return { text: reply.text, toolCalls: executed };
+      }
+
+      conversation.push({ role: 'assistant', content: reply.text, toolCalls: reply.toolCalls });
+      for (const call of reply.toolCalls) {
+        const result = await aiChatTools.execute(call);
+        conversation.push({ role: 'tool', content: result, toolCallId: call.id, toolName: call.name });
+        executed.push(call);
+      }
+    }
+  }
+
+  private async ensureSession(sessionId: string, customer: ChatCustomer): Promise<ChatSession> {
+    const existing = await storage.getChatSession(sessionId);
+    if (!existing) {
+      const created = await storage.createChatSession({ id: sessionId, status: 'active', ...customer });
+      this.emit({ type: 'session', session: created });
+      return created;
+    }
+
+    // A customer who signs in mid-chat is attached to the session they already started
+    if (!existing.userId && customer.userId) {
+      return (await this.updateSession(sessionId, customer)) || existing;
+    }
+    return existing;
+  }
+
+  // Agent messages are shown to the model as its own earlier replies so it keeps their promises
+  private toTurns(history: ChatMessage[]): AIChatTurn[] {
+    return history
+      .filter(message => message.role !== 'system')
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(message => ({
+        role: message.role === 'user' ? 'user' as const : 'assistant' as const,
+        content: message.content
+      }));
+  }
+
+  // The first escalation wins; later ones only raise its urgency
+  async escalate(sessionId: string, reason: string, urgency: SupportTicketPriority = 'high'): Promise<ChatSession> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session) throw new CustomError('Chat session not found', 404);
+
+    const current = session.escalation;
+    if (current && SUPPORT_TICKET_PRIORITIES.indexOf(current.urgency) >= SUPPORT_TICKET_PRIORITIES.indexOf(urgency)) {
+      return session;
+    }
+
+    // A chat an agent already holds stays with them
+    const updated = await this.updateSession(sessionId, {
+      status: session.status === 'active' ? 'escalated' : session.status,
+      escalation: { reason: current?.reason || reason, urgency, escalatedAt: current?.escalatedAt || Date.now() }
+    });
+    logger.info(`Chat session ${sessionId} escalated (${urgency}): ${reason}`, { context: 'AI' });
+    return updated || session;
+  }
+
+  async getTranscript(sessionId: string): Promise<ChatTranscript> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session) throw new CustomError('Chat session not found', 404);
+    return { session, messages: await storage.getChatMessages(sessionId) };
+  }
+
+  async listSessions(filters?: { status?: ChatSession['status']; userId?: string }): Promise<ChatSession[]> {
+    return storage.getChatSessions(filters);
+  }
+
+  async closeSession(sessionId: string): Promise<ChatSession> {
+    const updated = await this.updateSession(sessionId, { status: 'closed' });
+    if (!updated) throw new CustomError('Chat session not found', 404);
+    return updated;
+  }
+
+  // Chats waiting for an agent, most urgent first, followed by the ones agents already hold
+  async getAgentQueue(): Promise<ChatSession[]> {
+    const urgency = (session: ChatSession) =>
+      session.escalation ? SUPPORT_TICKET_PRIORITIES.indexOf(session.escalation.urgency) : -1;
+
+    const sessions = await storage.getChatSessions();
+    return [
+      ...sessions
+        .filter(session => session.status === 'escalated')
+        .sort((a, b) => urgency(b) - urgency(a) || a.updatedAt - b.updatedAt),
+      ...sessions.filter(session => session.status === 'with_agent')
+    ];
+  }
+
+  // Take a chat over from the AI; claiming a chat you already hold is a no-op so agents can reconnect
+  async claimSession(sessionId: string, agentEmail: string): Promise<ChatSession> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session) throw new CustomError('Chat session not found', 404);
+    if (session.status === 'closed') throw new CustomError('This chat session has ended', 409);
+    if (session.status === 'with_agent') {
+      if (session.assignedAgent === agentEmail) return session;
+      throw new CustomError(`Chat is already being handled by ${session.assignedAgent}`, 409);
+    }
+
+    const updated = await this.updateSession(sessionId, { status: 'with_agent', assignedAgent: agentEmail });
+    await this.record({ sessionId, role: 'system', content: `Agent ${agentEmail} joined the chat` });
+    logger.info(`Chat session ${sessionId} claimed by ${agentEmail}`, { context: 'AI' });
+    return updated || session;
+  }
+
+  // Hand a chat back to the AI assistant
+  async releaseSession(sessionId: string, agentEmail: string): Promise<ChatSession> {
+    const session = await this.requireAssignedSession(sessionId, agentEmail);
+    const updated = await this.updateSession(sessionId, { status: 'active', assignedAgent: null });
+    await this.record({ sessionId, role: 'system', content: `Agent ${agentEmail} handed the chat back to the AI assistant` });
+    logger.info(`Chat session ${sessionId} released by ${agentEmail}`, { context: 'AI' });
+    return updated || session;
+  }
+
+  async postAgentMessage(sessionId: string, agentEmail: string, content: string): Promise<ChatMessage> {
+    await this.requireAssignedSession(sessionId, agentEmail);
+    return this.record({ sessionId, role: 'agent', content });
+  }
+
+  // Listeners are called synchronously after each change is stored; returns an unsubscribe function
+  subscribe(listener: ChatEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async requireAssignedSession(sessionId: string, agentEmail: string): Promise<ChatSession> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session) throw new CustomError('Chat session not found', 404);
+    if (session.status !== 'with_agent' || session.assignedAgent !== agentEmail) {
+      throw new CustomError('Claim this chat before replying to it', 409);
+    }
+    return session;
+  }
+
+  private async record(message: InsertChatMessage): Promise<ChatMessage> {
+    const stored = await storage.addChatMessage(message);
+    this.emit({ type: 'message', message: stored });
+    return stored;
+  }
+
+  private async updateSession(sessionId: string, updates: ChatSessionUpdate): Promise<ChatSession | undefined> {
+    const updated = await storage.updateChatSession(sessionId, updates);
+    if (updated) this.emit({ type: 'session', session: updated });
+    return updated;
+  }
+
+  private emit(event: ChatEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Chat event listener failed', error, { context: 'AI' });
+      }
+    }
+  }
+
+  // Plain-text transcript for handing a chat over to an agent
+  async getConversationSummary(sessionId: string): Promise<string> {
+    const messages = await storage.getChatMessages(sessionId);
+    if (messages.length === 0) {
+      return 'No conversation history available.';
+    }
+
+    const lines = messages
+      .filter(message => message.role !== 'system')
+      .map(message => `${message.role === 'user' ? 'Customer' : message.role === 'agent' ? 'Agent' : 'AI'}: ${message.content}`)
+      .join('\n');
+
+    return `Conversation Summary:\n${lines}`;
+  }
+
+  // Only standing facts go in the prompt; builds, stock and orders come from tools when asked about
+  private async buildSystemPrompt(): Promise<string> {
+    const settings = await loadBusinessSettings();
+
+    return `You are FusionForge AI Assistant, an expert in custom PC building and computer hardware. You work for ${settings.companyName}, a premium PC building company in India.
+
+COMPANY CONTACT INFO:
+- Email: ${settings.businessEmail}
+- Phone: ${settings.businessPhone}
+- Business Hours: ${settings.businessHours}
+- Website: ${settings.companyWebsite}
+
+BUSINESS SERVICES:
+- Custom PC building and assembly
+- Component selection and compatibility checking
+- Performance optimization consulting
+- Warranty and after-sales support
+- Delivery and installation services
+
+TOOLS:
+- search_builds: prebuilt PCs in stock by budget and use case
+- check_stock: price and availability of builds and parts by name
+- validate_build: whether a set of parts works together
+- lookup_order: status of an order, given its order number and the email it was placed with
+Always use a tool for prices, stock, compatibility and order status; never guess them. If a tool returns an error, explain it briefly.
+
+PAYMENT & DELIVERY:
+- Payment: UPI, Net Banking, Credit/Debit Cards, EMI via Razorpay
+- EMI available for orders above ₹10,000
+- Delivery: 3-5 business days (standard), 5-7 days (custom builds)
+- Free delivery for orders above ₹25,000
+- Assembly warranty: 1 year + component warranties (1-3 years)
+
+RESPONSE GUIDELINES:
+1. Be helpful, knowledgeable, and professional
+2. Provide specific recommendations based on user needs and budget
+3. Include accurate pricing in Indian Rupees (₹)
+4. Mention stock availability when relevant
+5. Suggest compatible components and upgrades
+6. Explain technical concepts in simple terms
+7. Keep responses concise but informative (2-3 sentences max)
+8. Always offer customization options
+
+ESCALATION TRIGGERS:
+- Order modifications or cancellations
+- Payment issues, refunds, or EMI problems
+- Hardware defects, warranty claims, or returns
+- Complex technical troubleshooting (hardware failures)
+- Specific delivery dates or installation requests
+- Complaints, dissatisfaction, or manager requests
+- Requests exceeding your technical knowledge
+
+Remember: You represent ${settings.companyName}. Be confident about our products and services while being honest about limitations.`;
+  }
+
+  // Determine if conversation should be escalated to human agent
+  private determineEscalation(userMessage: string, aiResponse: string): EscalationDecision {
+    const escalationKeywords = [
+      'speak to manager', 'human agent', 'not working', 'broken', 'defective',
+      'refund', 'cancel order', 'complaint', 'dissatisfied', 'unhappy',
+      'delivery date', 'when will it arrive', 'track order', 'order status',
+      'warranty claim', 'technical issue', 'not booting', 'blue screen',
+      'overheating', 'noise', 'performance issue'
+    ];
+
+    const urgentKeywords = [
+      'urgent', 'emergency', 'immediately', 'asap', 'right now',
+      'critical', 'important', 'deadline', 'today'
+    ];
+
+    const message = userMessage.toLowerCase();
+    const hasEscalationKeyword = escalationKeywords.some(keyword => message.includes(keyword));
+    const hasUrgentKeyword = urgentKeywords.some(keyword => message.includes(keyword));
+
+    // Check if AI couldn't provide a helpful response
+    const reply = aiResponse.toLowerCase();
+    const aiIndicatesEscalation = reply.includes('connect you') ||
+                                  reply.includes('support team') ||
+                                  reply.includes('human agent');
+
+    if (hasEscalationKeyword || aiIndicatesEscalation) {
+      return {
+        shouldEscalate: true,
+        reason: hasEscalationKeyword ? 'Customer request requires human assistance' : 'AI unable to resolve query',
+        urgency: hasUrgentKeyword ? 'urgent' : 'high'
+      };
+    }
+
+    // Check for medium priority escalation (technical questions)
+    const technicalKeywords = ['compatibility', 'upgrade', 'installation', 'setup', 'configuration'];
+    const hasTechnicalKeyword = technicalKeywords.some(keyword => message.includes(keyword));
+
+    if (hasTechnicalKeyword && message.length > 100) {
+      return {
+        shouldEscalate: true,
+        reason: 'Complex technical query may need expert assistance',
+        urgency: 'medium'
+      };
+    }
+
+    return {
+      shouldEscalate: false,
+      reason: 'AI can handle this query',
+      urgency: 'low'
+    };
+  }
+}
+
+export const aiChatService = new AIChatService();
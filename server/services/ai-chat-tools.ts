@@ -0,0 +1,226 @@
+// Typed tools the chat assistant calls for live data instead of reading it from the prompt
+import { z } from 'zod';
+import { storage } from '../storage/index';
+import { componentCatalog } from './component-catalog';
+import { buildCompatibilityService } from './build-compatibility';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { LIST_PAGE_SIZE_MAX, catalogBuildSelectionSchema, orderListQuerySchema } from '../../shared/schema';
+import type { Order, PcBuild } from '../../shared/schema';
+import type { AIToolCall, AIToolDefinition } from './ai-chat-provider';
+
+// Small result sets keep the follow-up prompt short
+const MAX_RESULTS = 5;
+
+const searchBuildsSchema = z.object({
+  minBudget: z.coerce.number().nonnegative().optional(),
+  maxBudget: z.coerce.number().positive().optional(),
+  useCase: z.string().trim().min(1).max(50).optional()
+});
+
+const lookupOrderSchema = z.object({
+  orderNumber: z.string().trim().min(1).max(50),
+  email: z.string().trim().email()
+});
+
+const checkStockSchema = z.object({
+  query: z.string().trim().min(2).max(100)
+});
+
+const validateBuildSchema = z.object({
+  componentIds: catalogBuildSelectionSchema
+});
+
+const TOOL_DEFINITIONS: AIToolDefinition[] = [
+  {
+    name: 'search_builds',
+    description: 'Find prebuilt PCs in stock within a budget in Indian Rupees, optionally for a use case such as gaming, streaming, office or workstation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        minBudget: { type: 'number', description: 'Lowest price in INR' },
+        maxBudget: { type: 'number', description: 'Highest price in INR' },
+        useCase: { type: 'string', description: 'What the PC will be used for' }
+      }
+    }
+  },
+  {
+    name: 'lookup_order',
+    description: 'Get the status of an order. Ask the customer for both the order number and the email address the order was placed with.',
+    parameters: {
+      type: 'object',
+      properties: {
+        orderNumber: { type: 'string', description: 'Order number as shown on the confirmation email' },
+        email: { type: 'string', description: 'Email address the order was placed with' }
+      },
+      required: ['orderNumber', 'email']
+    }
+  },
+  {
+    name: 'check_stock',
+    description: 'Check price and availability of prebuilt PCs and individual parts matching a name. Part results include the id used by validate_build.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Product or part name, e.g. "RTX 4060" or "Ryzen 5"' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'validate_build',
+    description: 'Check whether a combination of catalog parts works together. Use part ids returned by check_stock.',
+    parameters: {
+      type: 'object',
+      properties: {
+        componentIds: {
+          type: 'object',
+          description: 'Part id per category',
+          properties: {
+            cpu: { type: 'string' },
+            motherboard: { type: 'string' },
+            gpu: { type: 'string' },
+            ram: { type: 'string' },
+            storage: { type: 'string' },
+            psu: { type: 'string' },
+            case: { type: 'string' },
+            cooler: { type: 'string' }
+          }
+        }
+      },
+      required: ['componentIds']
+    }
+  }
+];
+
+function availableUnits(build: PcBuild): number {
+  return Math.max(0, build.stockQuantity - (build.reservedQuantity || 0));
+}
+
+function summarizeBuild(build: PcBuild) {
+  return {
+    id: build.id,
+    name: build.name,
+    category: build.category,
+    price: build.totalPrice,
+    processor: build.processor,
+    gpu: build.gpu || 'Integrated graphics',
+    ram: build.ram,
+    storage: build.storage,
+    inStock: availableUnits(build) > 0,
+    unitsAvailable: availableUnits(build)
+  };
+}
+
+class AIChatTools {
+  readonly definitions = TOOL_DEFINITIONS;
+
+  // Results and failures are both returned as JSON for the model; only unexpected errors are logged
+  async execute(call: AIToolCall): Promise<string> {
+    try {
+      return JSON.stringify(await this.run(call));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return JSON.stringify({ error: 'Invalid arguments', details: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`) });
+      }
+      if (error instanceof CustomError) {
+        return JSON.stringify({ error: error.message });
+      }
+      logger.error(`Chat tool ${call.name} failed`, error, { context: 'AI' });
+      return JSON.stringify({ error: 'The lookup failed. Offer to connect the customer with the support team.' });
+    }
+  }
+
+  private async run(call: AIToolCall): Promise<unknown> {
+    switch (call.name) {
+      case 'search_builds': return this.searchBuilds(searchBuildsSchema.parse(call.arguments));
+      case 'lookup_order': return this.lookupOrder(lookupOrderSchema.parse(call.arguments));
+      case 'check_stock': return this.checkStock(checkStockSchema.parse(call.arguments));
+      case 'validate_build': return this.validateBuild(validateBuildSchema.parse(call.arguments));
+      default: throw new CustomError(`Unknown tool: ${call.name}`, 400);
+    }
+  }
+
+  private async searchBuilds(args: z.infer<typeof searchBuildsSchema>) {
+    const useCase = args.useCase?.toLowerCase();
+    const builds = (await storage.getPcBuilds())
+      .filter(build => build.isActive !== false && availableUnits(build) > 0)
+      .filter(build => args.minBudget === undefined || build.totalPrice >= args.minBudget)
+      .filter(build => args.maxBudget === undefined || build.totalPrice <= args.maxBudget)
+      .filter(build => !useCase || [build.name, build.category, build.buildType, build.description]
+        .some(field => field?.toLowerCase().includes(useCase)))
+      .sort((a, b) => a.totalPrice - b.totalPrice);
+
+    return { matches: builds.length, builds: builds.slice(0, MAX_RESULTS).map(summarizeBuild) };
+  }
+
+  // Chat requests carry no verified identity, so an order is only shown to someone who knows both its
+  // number and the email it was placed with
+  private async lookupOrder(args: z.infer<typeof lookupOrderSchema>) {
+    const order = await this.findOrder(args.orderNumber, args.email);
+    if (!order) {
+      return { error: `No order ${args.orderNumber} was found for that email address. Ask the customer to check both.` };
+    }
+
+    return {
+      orderNumber: order.orderNumber,
+      status: order.status,
+      total: order.total,
+      paymentMethod: order.paymentMethod,
+      trackingNumber: order.trackingNumber,
+      refundStatus: order.refundStatus,
+      placedAt: new Date(order.createdAt).toISOString(),
+      lastUpdatedAt: new Date(order.updatedAt).toISOString()
+    };
+  }
+
+  private async findOrder(orderNumber: string, email: string): Promise<Order | undefined> {
+    const wantedNumber = orderNumber.toLowerCase();
+    const wantedEmail = email.toLowerCase();
+    let cursor: string | undefined;
+
+    do {
+      const page = await storage.listOrders(orderListQuerySchema.parse({ email, limit: LIST_PAGE_SIZE_MAX, cursor }));
+      const order = page.items.find(candidate =>
+        candidate.orderNumber.toLowerCase() === wantedNumber && candidate.customerEmail?.toLowerCase() === wantedEmail
+      );
+      if (order) return order;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return undefined;
+  }
+
+  private async checkStock(args: z.infer<typeof checkStockSchema>) {
+    const query = args.query.toLowerCase();
+    const [builds, parts] = await Promise.all([
+      storage.getPcBuilds(),
+      componentCatalog.list({ search: args.query })
+    ]);
+
+    return {
+      builds: builds
+        .filter(build => build.isActive !== false && build.name.toLowerCase().includes(query))
+        .slice(0, MAX_RESULTS)
+        .map(build => ({ id: build.id, name: build.name, price: build.totalPrice, unitsAvailable: availableUnits(build) })),
+      parts: parts.slice(0, MAX_RESULTS).map(part => ({
+        id: part.id,
+        category: part.category,
+        name: part.name,
+        price: part.price,
+        inStock: part.stockQuantity > 0
+      }))
+    };
+  }
+
+  private async validateBuild(args: z.infer<typeof validateBuildSchema>) {
+    const check = await buildCompatibilityService.checkSelection(args.componentIds);
+    return {
+      compatible: check.overallCompatible,
+      score: check.compatibilityScore,
+      issues: check.issues.map(issue => ({ type: issue.type, message: issue.message }))
+    };
+  }
+}
+
+export const aiChatTools = new AIChatTools();
@@ -0,0 +1,64 @@
+// Binary storage for uploaded files. Records in IStorage keep only metadata and a key;
+// the bytes live here so a different backend can be swapped in without touching callers.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface BlobStore {
+  put(key: string, content: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+// Keys are slash-separated segments of safe characters, e.g. "tickets/TKT-1-ABC/att_1"
+const KEY_SEGMENT = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const segments = key.split('/').filter(Boolean);
+    if (segments.length === 0 || !segments.every(segment => KEY_SEGMENT.test(segment))) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.rootDir, ...segments);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary name first so a reader never sees a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
+
+function createBlobStore(): BlobStore {
+  const driver = process.env.BLOB_STORE_DRIVER || 'local';
+  if (driver !== 'local') {
+    logger.warn(`Unknown BLOB_STORE_DRIVER "${driver}", falling back to local disk`);
+  }
+  return new LocalDiskBlobStore(process.env.BLOB_STORE_DIR || path.join(process.cwd(), 'data', 'blobs'));
+}
+
+export const blobStore = createBlobStore();
@@ -6,6 +6,7 @@ interface EmailData {
   subject: string;
   html: string;
   text?: string;
+  replyTo?: string;
 }
 
 export async function sendEmailViaBrevo(emailData: EmailData): Promise<boolean> {
@@ -34,7 +35,8 @@ export async function sendEmailViaBrevo(emailData: EmailData): Promise<boolean>
       to: emailData.to,
       subject: emailData.subject,
       html: emailData.html,
-      text: emailData.text || emailData.subject
+      text: emailData.text || emailData.subject,
+      ...(emailData.replyTo && { replyTo: emailData.replyTo })
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -0,0 +1,48 @@
+import { componentCatalog } from './component-catalog';
+import { CustomError } from '../middleware/error-handler';
+import {
+  checkBuildCompatibility,
+  type CompatibilityBuild,
+  type CompatibilityCheck,
+  type CompatibilityOptions
+} from '../../shared/compatibility';
+import type { CatalogBuildSelection, CatalogCategory, CatalogComponent } from '../../shared/schema';
+
+class BuildCompatibilityService {
+  // Look up every selected id in the catalog; inactive parts still resolve so old builds can be checked
+  async resolveSelection(selection: CatalogBuildSelection): Promise<CompatibilityBuild> {
+    const build: CompatibilityBuild = {};
+
+    for (const [category, value] of Object.entries(selection) as Array<[CatalogCategory, string | string[] | undefined]>) {
+      if (!value) continue;
+      const ids = Array.isArray(value) ? value : [value];
+      const parts = await Promise.all(ids.map(id => this.resolvePart(category, id)));
+      build[category] = Array.isArray(value) ? parts : parts[0];
+    }
+
+    return build;
+  }
+
+  async checkSelection(selection: CatalogBuildSelection, options: CompatibilityOptions = {}): Promise<CompatibilityCheck> {
+    return checkBuildCompatibility(await this.resolveSelection(selection), options);
+  }
+
+  private async resolvePart(category: CatalogCategory, id: string): Promise<CatalogComponent> {
+    let component: CatalogComponent;
+    try {
+      component = await componentCatalog.get(id, { includeInactive: true });
+    } catch (error) {
+      if (error instanceof CustomError && error.statusCode === 404) {
+        throw new CustomError(`Unknown ${category} component: ${id}`, 400);
+      }
+      throw error;
+    }
+
+    if (component.category !== category) {
+      throw new CustomError(`Component ${id} is a ${component.category}, not a ${category}`, 400);
+    }
+    return component;
+  }
+}
+
+export const buildCompatibilityService = new BuildCompatibilityService();
@@ -2,7 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { parse } from 'csv-parse/sync';
 import { stringify } from 'csv-stringify/sync';
-import { firebaseRealtimeStorage as storage } from '../firebase-realtime-storage';
+import { storage } from '../storage/index';
 import type { PcBuild, InsertPcBuild } from '../../shared/schema';
 
 interface BulkImportResult {
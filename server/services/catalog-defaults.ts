@@ -0,0 +1,100 @@
+import type { InsertCatalogComponent } from '../../shared/schema';
+
+export type DefaultCatalogComponent = Omit<InsertCatalogComponent, 'stockQuantity' | 'lowStockThreshold' | 'isActive'>;
+
+// Parts the configurator shipped with before the catalog was managed in storage
+export const DEFAULT_CATALOG: DefaultCatalogComponent[] = [
+  // Processors
+  { category: 'cpu', name: 'AMD Ryzen 5 4500', price: 8999, tier: 'budget', performance: 70, powerConsumption: 65, socket: 'AM4', cores: 6, clockSpeed: 3.6 },
+  { category: 'cpu', name: 'Intel Core i3-12100F', price: 9999, tier: 'budget', performance: 72, powerConsumption: 60, socket: 'LGA1700', cores: 4, clockSpeed: 3.3 },
+  { category: 'cpu', name: 'AMD Ryzen 5 5600X', price: 18999, tier: 'mid-range', performance: 85, powerConsumption: 65, socket: 'AM4', cores: 6, clockSpeed: 3.7 },
+  { category: 'cpu', name: 'Intel Core i5-12600KF', price: 22999, tier: 'mid-range', performance: 87, powerConsumption: 125, socket: 'LGA1700', cores: 10, clockSpeed: 3.7 },
+  { category: 'cpu', name: 'AMD Ryzen 7 5700X', price: 25999, tier: 'mid-range', performance: 90, powerConsumption: 65, socket: 'AM4', cores: 8, clockSpeed: 3.4 },
+  { category: 'cpu', name: 'Intel Core i7-12700KF', price: 32999, tier: 'high-end', performance: 92, powerConsumption: 125, socket: 'LGA1700', cores: 12, clockSpeed: 3.6 },
+  { category: 'cpu', name: 'AMD Ryzen 9 5900X', price: 42999, tier: 'high-end', performance: 95, powerConsumption: 105, socket: 'AM4', cores: 12, clockSpeed: 3.7 },
+  { category: 'cpu', name: 'Intel Core i9-12900KF', price: 48999, tier: 'enthusiast', performance: 98, powerConsumption: 125, socket: 'LGA1700', cores: 16, clockSpeed: 3.2 },
+  { category: 'cpu', name: 'AMD Ryzen 9 5950X', price: 58999, tier: 'enthusiast', performance: 100, powerConsumption: 105, socket: 'AM4', cores: 16, clockSpeed: 3.4 },
+
+  // Graphics cards
+  { category: 'gpu', name: 'GTX 1660 Super 6GB', price: 16999, tier: 'budget', performance: 65, powerConsumption: 125, vram: 6, lengthMm: 229 },
+  { category: 'gpu', name: 'RTX 3050 8GB', price: 22999, tier: 'budget', performance: 68, powerConsumption: 130, vram: 8, lengthMm: 242 },
+  { category: 'gpu', name: 'RTX 4060 8GB', price: 26999, tier: 'budget', performance: 72, powerConsumption: 115, vram: 8, lengthMm: 240 },
+  { category: 'gpu', name: 'RTX 3060 12GB', price: 28999, tier: 'mid-range', performance: 75, powerConsumption: 170, vram: 12, lengthMm: 242 },
+  { category: 'gpu', name: 'RTX 3060 Ti 8GB', price: 35999, tier: 'mid-range', performance: 80, powerConsumption: 200, vram: 8, lengthMm: 242 },
+  { category: 'gpu', name: 'RTX 4060 Ti 16GB', price: 42999, tier: 'mid-range', performance: 85, powerConsumption: 165, vram: 16, lengthMm: 285 },
+  { category: 'gpu', name: 'RTX 4070 12GB', price: 52999, tier: 'high-end', performance: 88, powerConsumption: 200, vram: 12, lengthMm: 285 },
+  { category: 'gpu', name: 'RTX 4070 Ti Super 16GB', price: 68999, tier: 'high-end', performance: 92, powerConsumption: 285, vram: 16, lengthMm: 305 },
+  { category: 'gpu', name: 'RTX 4080 16GB', price: 89999, tier: 'enthusiast', performance: 95, powerConsumption: 320, vram: 16, lengthMm: 336 },
+  { category: 'gpu', name: 'RTX 4090 24GB', price: 159999, tier: 'enthusiast', performance: 100, powerConsumption: 450, vram: 24, lengthMm: 357 },
+
+  // Memory
+  { category: 'ram', name: '8GB DDR4-2666', price: 2499, tier: 'budget', performance: 60, powerConsumption: 8, memoryType: 'DDR4', capacity: 8, speed: 2666 },
+  { category: 'ram', name: '16GB DDR4-3200', price: 4999, tier: 'budget', performance: 70, powerConsumption: 10, memoryType: 'DDR4', capacity: 16, speed: 3200 },
+  { category: 'ram', name: '16GB DDR4-3600', price: 5999, tier: 'mid-range', performance: 75, powerConsumption: 11, memoryType: 'DDR4', capacity: 16, speed: 3600 },
+  { category: 'ram', name: '32GB DDR4-3600', price: 8999, tier: 'mid-range', performance: 80, powerConsumption: 15, memoryType: 'DDR4', capacity: 32, speed: 3600 },
+  { category: 'ram', name: '16GB DDR5-5600', price: 7999, tier: 'mid-range', performance: 85, powerConsumption: 12, memoryType: 'DDR5', capacity: 16, speed: 5600 },
+  { category: 'ram', name: '32GB DDR5-5600', price: 14999, tier: 'high-end', performance: 90, powerConsumption: 18, memoryType: 'DDR5', capacity: 32, speed: 5600 },
+  { category: 'ram', name: '32GB DDR5-6000', price: 18999, tier: 'high-end', performance: 92, powerConsumption: 20, memoryType: 'DDR5', capacity: 32, speed: 6000 },
+  { category: 'ram', name: '64GB DDR5-6000', price: 28999, tier: 'enthusiast', performance: 95, powerConsumption: 25, memoryType: 'DDR5', capacity: 64, speed: 6000 },
+  { category: 'ram', name: '128GB DDR5-5600', price: 55999, tier: 'enthusiast', performance: 100, powerConsumption: 35, memoryType: 'DDR5', capacity: 128, speed: 5600 },
+
+  // Storage
+  { category: 'storage', name: '500GB SATA SSD', price: 3299, tier: 'budget', performance: 65, powerConsumption: 3, capacity: 500, storageType: 'SATA' },
+  { category: 'storage', name: '1TB HDD 7200RPM', price: 3999, tier: 'budget', performance: 50, powerConsumption: 8, capacity: 1000, storageType: 'HDD' },
+  { category: 'storage', name: '500GB NVMe Gen3', price: 4299, tier: 'budget', performance: 75, powerConsumption: 5, capacity: 500, storageType: 'NVMe Gen3' },
+  { category: 'storage', name: '1TB NVMe Gen3', price: 7499, tier: 'mid-range', performance: 80, powerConsumption: 6, capacity: 1000, storageType: 'NVMe Gen3' },
+  { category: 'storage', name: '2TB SATA SSD', price: 12999, tier: 'mid-range', performance: 70, powerConsumption: 5, capacity: 2000, storageType: 'SATA' },
+  { category: 'storage', name: '1TB NVMe Gen4', price: 9999, tier: 'mid-range', performance: 90, powerConsumption: 8, capacity: 1000, storageType: 'NVMe Gen4' },
+  { category: 'storage', name: '2TB NVMe Gen3', price: 14999, tier: 'high-end', performance: 85, powerConsumption: 7, capacity: 2000, storageType: 'NVMe Gen3' },
+  { category: 'storage', name: '2TB NVMe Gen4', price: 18999, tier: 'high-end', performance: 95, powerConsumption: 9, capacity: 2000, storageType: 'NVMe Gen4' },
+  { category: 'storage', name: '4TB NVMe Gen4', price: 35999, tier: 'enthusiast', performance: 98, powerConsumption: 12, capacity: 4000, storageType: 'NVMe Gen4' },
+  { category: 'storage', name: '8TB NVMe Gen4', price: 68999, tier: 'enthusiast', performance: 100, powerConsumption: 15, capacity: 8000, storageType: 'NVMe Gen4' },
+
+  // Motherboards
+  { category: 'motherboard', name: 'A520M-K', price: 4999, tier: 'budget', performance: 65, powerConsumption: 12, socket: 'AM4', memoryType: 'DDR4', formFactor: 'mATX', pcieSlots: 1, m2Slots: 1 },
+  { category: 'motherboard', name: 'B450M Pro4', price: 5999, tier: 'budget', performance: 70, powerConsumption: 15, socket: 'AM4', memoryType: 'DDR4', formFactor: 'mATX', pcieSlots: 1, m2Slots: 2 },
+  { category: 'motherboard', name: 'H610M-K', price: 6999, tier: 'budget', performance: 68, powerConsumption: 14, socket: 'LGA1700', memoryType: 'DDR4', formFactor: 'mATX', pcieSlots: 1, m2Slots: 1 },
+  { category: 'motherboard', name: 'B550 Gaming', price: 8999, tier: 'mid-range', performance: 80, powerConsumption: 18, socket: 'AM4', memoryType: 'DDR4', formFactor: 'ATX', pcieSlots: 2, m2Slots: 2 },
+  { category: 'motherboard', name: 'B660 Gaming WiFi', price: 11999, tier: 'mid-range', performance: 82, powerConsumption: 20, socket: 'LGA1700', memoryType: 'DDR4', formFactor: 'ATX', pcieSlots: 2, m2Slots: 2 },
+  { category: 'motherboard', name: 'X570 Gaming', price: 12999, tier: 'mid-range', performance: 85, powerConsumption: 25, socket: 'AM4', memoryType: 'DDR4', formFactor: 'ATX', pcieSlots: 2, m2Slots: 2 },
+  { category: 'motherboard', name: 'B650 Gaming WiFi', price: 15999, tier: 'high-end', performance: 88, powerConsumption: 20, socket: 'AM5', memoryType: 'DDR5', formFactor: 'ATX', pcieSlots: 2, m2Slots: 3 },
+  { category: 'motherboard', name: 'Z790 Gaming', price: 18999, tier: 'high-end', performance: 90, powerConsumption: 22, socket: 'LGA1700', memoryType: 'DDR5', formFactor: 'ATX', pcieSlots: 2, m2Slots: 4 },
+  { category: 'motherboard', name: 'X670E Gaming', price: 25999, tier: 'enthusiast', performance: 95, powerConsumption: 28, socket: 'AM5', memoryType: 'DDR5', formFactor: 'ATX', pcieSlots: 3, m2Slots: 4 },
+  { category: 'motherboard', name: 'Z790 Extreme', price: 35999, tier: 'enthusiast', performance: 98, powerConsumption: 32, socket: 'LGA1700', memoryType: 'DDR5', formFactor: 'ATX', pcieSlots: 3, m2Slots: 5 },
+
+  // Power supplies
+  { category: 'psu', name: '450W 80+ White', price: 2999, tier: 'budget', performance: 60, powerConsumption: 0, wattage: 450, efficiency: '80+' },
+  { category: 'psu', name: '550W 80+ Bronze', price: 3999, tier: 'budget', performance: 70, powerConsumption: 0, wattage: 550, efficiency: '80+ Bronze' },
+  { category: 'psu', name: '650W 80+ Bronze', price: 4999, tier: 'budget', performance: 75, powerConsumption: 0, wattage: 650, efficiency: '80+ Bronze' },
+  { category: 'psu', name: '650W 80+ Gold', price: 6999, tier: 'mid-range', performance: 80, powerConsumption: 0, wattage: 650, efficiency: '80+ Gold' },
+  { category: 'psu', name: '750W 80+ Gold', price: 8999, tier: 'mid-range', performance: 85, powerConsumption: 0, wattage: 750, efficiency: '80+ Gold' },
+  { category: 'psu', name: '850W 80+ Gold', price: 12999, tier: 'mid-range', performance: 90, powerConsumption: 0, wattage: 850, efficiency: '80+ Gold' },
+  { category: 'psu', name: '1000W 80+ Gold', price: 16999, tier: 'high-end', performance: 92, powerConsumption: 0, wattage: 1000, efficiency: '80+ Gold' },
+  { category: 'psu', name: '1000W 80+ Platinum', price: 18999, tier: 'high-end', performance: 95, powerConsumption: 0, wattage: 1000, efficiency: '80+ Platinum' },
+  { category: 'psu', name: '1200W 80+ Titanium', price: 28999, tier: 'enthusiast', performance: 98, powerConsumption: 0, wattage: 1200, efficiency: '80+ Titanium' },
+  { category: 'psu', name: '1600W 80+ Titanium', price: 45999, tier: 'enthusiast', performance: 100, powerConsumption: 0, wattage: 1600, efficiency: '80+ Titanium' },
+
+  // Cases
+  { category: 'case', name: 'Basic mATX Case', price: 1999, tier: 'budget', performance: 60, powerConsumption: 0, formFactor: 'mATX', airflow: 'Basic', maxGpuLengthMm: 300, maxCoolerHeightMm: 150 },
+  { category: 'case', name: 'Mid Tower Basic', price: 2999, tier: 'budget', performance: 70, powerConsumption: 0, formFactor: 'ATX', airflow: 'Good', maxGpuLengthMm: 320, maxCoolerHeightMm: 155 },
+  { category: 'case', name: 'Budget RGB Case', price: 3999, tier: 'budget', performance: 72, powerConsumption: 3, formFactor: 'ATX', airflow: 'Good', maxGpuLengthMm: 330, maxCoolerHeightMm: 160 },
+  { category: 'case', name: 'Mid Tower Gaming', price: 4999, tier: 'mid-range', performance: 80, powerConsumption: 5, formFactor: 'ATX', airflow: 'Excellent', maxGpuLengthMm: 360, maxCoolerHeightMm: 165 },
+  { category: 'case', name: 'RGB Gaming Tower', price: 6999, tier: 'mid-range', performance: 82, powerConsumption: 8, formFactor: 'ATX', airflow: 'Excellent', maxGpuLengthMm: 370, maxCoolerHeightMm: 165 },
+  { category: 'case', name: 'Mesh Front Panel', price: 7999, tier: 'mid-range', performance: 85, powerConsumption: 10, formFactor: 'ATX', airflow: 'Excellent', maxGpuLengthMm: 380, maxCoolerHeightMm: 170 },
+  { category: 'case', name: 'Premium Tower', price: 12999, tier: 'high-end', performance: 90, powerConsumption: 15, formFactor: 'ATX', airflow: 'Exceptional', maxGpuLengthMm: 400, maxCoolerHeightMm: 175 },
+  { category: 'case', name: 'Full Tower Gaming', price: 15999, tier: 'high-end', performance: 92, powerConsumption: 18, formFactor: 'E-ATX', airflow: 'Exceptional', maxGpuLengthMm: 420, maxCoolerHeightMm: 185 },
+  { category: 'case', name: 'Custom Loop Ready', price: 18999, tier: 'enthusiast', performance: 95, powerConsumption: 20, formFactor: 'E-ATX', airflow: 'Exceptional', maxGpuLengthMm: 450, maxCoolerHeightMm: 190 },
+  { category: 'case', name: 'Show Case Glass', price: 25999, tier: 'enthusiast', performance: 98, powerConsumption: 25, formFactor: 'E-ATX', airflow: 'Exceptional', maxGpuLengthMm: 430, maxCoolerHeightMm: 180 },
+
+  // CPU coolers
+  { category: 'cooler', name: 'Stock Cooler', price: 0, tier: 'budget', performance: 60, powerConsumption: 5, maxTdp: 65, coolerType: 'Stock', heightMm: 60 },
+  { category: 'cooler', name: 'Basic Tower Cooler', price: 1999, tier: 'budget', performance: 70, powerConsumption: 3, maxTdp: 95, coolerType: 'Air', heightMm: 150 },
+  { category: 'cooler', name: 'RGB Tower Cooler', price: 2999, tier: 'budget', performance: 75, powerConsumption: 8, maxTdp: 120, coolerType: 'Air', heightMm: 155 },
+  { category: 'cooler', name: 'Dual Tower Cooler', price: 4999, tier: 'mid-range', performance: 80, powerConsumption: 10, maxTdp: 150, coolerType: 'Air', heightMm: 165 },
+  { category: 'cooler', name: 'High-End Air Cooler', price: 5999, tier: 'mid-range', performance: 85, powerConsumption: 10, maxTdp: 180, coolerType: 'Air', heightMm: 165 },
+  { category: 'cooler', name: '120mm AIO', price: 6999, tier: 'mid-range', performance: 82, powerConsumption: 12, maxTdp: 150, coolerType: 'AIO' },
+  { category: 'cooler', name: '240mm AIO', price: 8999, tier: 'high-end', performance: 90, powerConsumption: 15, maxTdp: 200, coolerType: 'AIO' },
+  { category: 'cooler', name: '280mm AIO', price: 12999, tier: 'high-end', performance: 92, powerConsumption: 18, maxTdp: 220, coolerType: 'AIO' },
+  { category: 'cooler', name: '360mm AIO', price: 15999, tier: 'enthusiast', performance: 95, powerConsumption: 20, maxTdp: 250, coolerType: 'AIO' },
+  { category: 'cooler', name: 'Custom Loop', price: 35999, tier: 'enthusiast', performance: 100, powerConsumption: 25, maxTdp: 350, coolerType: 'Custom' }
+];
@@ -0,0 +1,114 @@
+// Managed parts catalog backing the PC configurator
+import { storage } from '../storage/index';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { DEFAULT_CATALOG } from './catalog-defaults';
+import { insertCatalogComponentSchema } from '../../shared/schema';
+import type {
+  CatalogCategory,
+  CatalogComponent,
+  CatalogTier,
+  InsertCatalogComponent
+} from '../../shared/schema';
+
+export interface CatalogFilters {
+  category?: CatalogCategory;
+  tier?: CatalogTier;
+  socket?: string;
+  memoryType?: string;
+  formFactor?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  search?: string;
+}
+
+const DEFAULT_STOCK_QUANTITY = 10;
+
+function sameValue(a: string | undefined, b: string) {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+class ComponentCatalog {
+  private seeding: Promise<void> | null = null;
+
+  // Seed the configurator's original parts the first time storage has none
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seedDefaults().catch(error => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private async seedDefaults(): Promise<void> {
+    const existing = await storage.getCatalogComponents();
+    if (existing.length > 0) return;
+
+    for (const component of DEFAULT_CATALOG) {
+      await storage.createCatalogComponent(
+        insertCatalogComponentSchema.parse({ ...component, stockQuantity: DEFAULT_STOCK_QUANTITY })
+      );
+    }
+    logger.info(`Seeded component catalog with ${DEFAULT_CATALOG.length} parts`);
+  }
+
+  async list(filters: CatalogFilters = {}, options: { includeInactive?: boolean } = {}): Promise<CatalogComponent[]> {
+    await this.ensureSeeded();
+    const components = await storage.getCatalogComponents();
+    const search = filters.search?.trim().toLowerCase();
+
+    return components.filter(component => {
+      if (!options.includeInactive && !component.isActive) return false;
+      if (filters.category && component.category !== filters.category) return false;
+      if (filters.tier && component.tier !== filters.tier) return false;
+      if (filters.socket && !sameValue(component.socket, filters.socket)) return false;
+      if (filters.memoryType && !sameValue(component.memoryType, filters.memoryType)) return false;
+      if (filters.formFactor && !sameValue(component.formFactor, filters.formFactor)) return false;
+      if (filters.minPrice !== undefined && component.price < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && component.price > filters.maxPrice) return false;
+      if (filters.inStock !== undefined && (component.stockQuantity > 0) !== filters.inStock) return false;
+      if (search) {
+        const haystack = [component.name, component.brand, component.sku].filter(Boolean).join(' ').toLowerCase();
+        if (!haystack.includes(search)) return false;
+      }
+      return true;
+    });
+  }
+
+  async get(id: string, options: { includeInactive?: boolean } = {}): Promise<CatalogComponent> {
+    await this.ensureSeeded();
+    const component = await storage.getCatalogComponent(id);
+    if (!component || (!options.includeInactive && !component.isActive)) {
+      throw new CustomError('Component not found', 404);
+    }
+    return component;
+  }
+
+  async create(component: InsertCatalogComponent): Promise<CatalogComponent> {
+    await this.ensureSeeded();
+    const created = await storage.createCatalogComponent(component);
+    logger.info(`Catalog component created: ${created.name} (${created.id})`);
+    return created;
+  }
+
+  async update(id: string, updates: Partial<InsertCatalogComponent>): Promise<CatalogComponent> {
+    const updated = await storage.updateCatalogComponent(id, updates);
+    if (!updated) {
+      throw new CustomError('Component not found', 404);
+    }
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    const deleted = await storage.deleteCatalogComponent(id);
+    if (!deleted) {
+      throw new CustomError('Component not found', 404);
+    }
+    logger.info(`Catalog component deleted: ${id}`);
+  }
+}
+
+export const componentCatalog = new ComponentCatalog();
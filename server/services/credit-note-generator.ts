@@ -0,0 +1,80 @@
+import type { CreditNote } from '../../shared/schema';
+
+// Reverse the tax under the same heads the invoice charged it; older notes only know the total
+function getTaxRows(creditNote: CreditNote): [string, number][] {
+  if (creditNote.igst > 0) return [['IGST', creditNote.igst]];
+  if (creditNote.cgst > 0 || creditNote.sgst > 0) return [['CGST', creditNote.cgst], ['SGST', creditNote.sgst]];
+  return [['GST', creditNote.gstAmount]];
+}
+
+export function generateCreditNoteHTML(creditNote: CreditNote): string {
+  const issuedDate = new Date(creditNote.issuedAt).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata'
+  });
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="display: flex; justify-content: space-between; border-bottom: 2px solid #f97316; padding-bottom: 20px; margin-bottom: 20px;">
+        <div>
+          <h1 style="color: #1e3a8a; margin: 0; font-size: 24px;">FusionForge PCs</h1>
+          <p style="color: #64748b; margin: 5px 0; font-size: 13px;">${process.env.BUSINESS_ADDRESS || '58,Post Office Street , Palladam , TamilNadu , India'}</p>
+          ${process.env.BUSINESS_GST ? `<p style="color: #64748b; margin: 0; font-size: 13px;">GSTIN: ${process.env.BUSINESS_GST}</p>` : ''}
+        </div>
+        <div style="text-align: right;">
+          <h2 style="color: #f97316; margin: 0; font-size: 20px;">CREDIT NOTE</h2>
+          <p style="margin: 5px 0; font-size: 13px;"><strong>No:</strong> ${creditNote.creditNoteNumber}</p>
+          <p style="margin: 0; font-size: 13px;"><strong>Date:</strong> ${issuedDate}</p>
+        </div>
+      </div>
+
+      <div style="background: #f8fafc; padding: 15px; border-radius: 8px; margin-bottom: 20px;">
+        <p style="margin: 0 0 5px;"><strong>Issued to:</strong> ${creditNote.customerName || 'Customer'}</p>
+        ${creditNote.customerEmail ? `<p style="margin: 0 0 5px;">${creditNote.customerEmail}</p>` : ''}
+        <p style="margin: 0;"><strong>Against order:</strong> ${creditNote.orderNumber}</p>
+        ${creditNote.reason ? `<p style="margin: 5px 0 0;"><strong>Reason:</strong> ${creditNote.reason}</p>` : ''}
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr style="border-bottom: 1px solid #e2e8f0;">
+          <td style="padding: 10px 0;">Taxable value</td>
+          <td style="padding: 10px 0; text-align: right;">₹${creditNote.taxableAmount.toLocaleString('en-IN')}</td>
+        </tr>
+        ${getTaxRows(creditNote).map(([label, amount]) => `
+        <tr style="border-bottom: 1px solid #e2e8f0;">
+          <td style="padding: 10px 0;">${label}</td>
+          <td style="padding: 10px 0; text-align: right;">₹${amount.toLocaleString('en-IN')}</td>
+        </tr>`).join('')}
+        <tr style="border-top: 2px solid #1e3a8a;">
+          <td style="padding: 12px 0; font-weight: bold; color: #1e3a8a;">Total credited</td>
+          <td style="padding: 12px 0; text-align: right; font-weight: bold; color: #f97316;">₹${creditNote.totalAmount.toLocaleString('en-IN')}</td>
+        </tr>
+      </table>
+
+      <p style="color: #64748b; font-size: 13px; margin-top: 20px;">
+        The amount above has been refunded to your original payment method (refund reference ${creditNote.refundId}).
+      </p>
+    </div>
+  `;
+}
+
+export async function sendCreditNote(creditNote: CreditNote): Promise<boolean> {
+  if (!creditNote.customerEmail) return false;
+
+  try {
+    const { sendEmailViaBrevo } = await import('./brevo-email-service');
+
+    return await sendEmailViaBrevo({
+      to: creditNote.customerEmail,
+      from: `"FusionForge PCs" <${process.env.BUSINESS_EMAIL || 'contact@company.com'}>`,
+      subject: `Credit Note ${creditNote.creditNoteNumber} - FusionForge PCs`,
+      html: generateCreditNoteHTML(creditNote),
+      text: `Credit note ${creditNote.creditNoteNumber} for ₹${creditNote.totalAmount.toLocaleString('en-IN')} against order ${creditNote.orderNumber}`
+    });
+  } catch (error: any) {
+    console.error('Credit note email failed:', error.message);
+    return false;
+  }
+}
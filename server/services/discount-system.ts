@@ -1,38 +1,25 @@
 // Advanced Discount and Coupon System
-interface DiscountCode {
-  id: string;
-  code: string;
-  name: string;
-  description: string;
-  type: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
-  value: number; // percentage (10 = 10%) or fixed amount
-  minimumOrderValue?: number;
-  maximumDiscount?: number;
-  applicableCategories: string[];
-  applicableProducts: number[];
-  usageLimit?: number;
-  usageCount: number;
-  usagePerCustomer?: number;
-  customerUsage: Map<string, number>;
-  validFrom: number;
-  validUntil: number;
-  isActive: boolean;
-  stackable: boolean;
-  createdBy: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface BulkPricingTier {
-  id: string;
-  name: string;
-  minimumQuantity: number;
-  discountPercentage: number;
-  applicableCategories: string[];
-  isActive: boolean;
-}
-
-interface DiscountApplication {
+import { storage } from '../storage/index';
+import { logger } from '../utils/logger';
+import { CustomError } from '../middleware/error-handler';
+import type {
+  DiscountCode,
+  BulkPricingTier,
+  InsertDiscountCode,
+  DiscountRedemption,
+  DiscountRedemptionResult,
+  Order
+} from '../../shared/schema';
+
+export type { DiscountCode, BulkPricingTier };
+
+const REDEMPTION_ERRORS: Record<'not_found' | 'usage_limit' | 'customer_limit', string> = {
+  not_found: 'Invalid discount code',
+  usage_limit: 'This discount code has reached its usage limit',
+  customer_limit: 'You have already used this discount code the maximum number of times'
+};
+
+export interface DiscountApplication {
   discountId: string;
   discountCode: string;
   discountType: string;
@@ -48,17 +35,32 @@ interface DiscountApplication {
 }
 
 class DiscountSystem {
-  private discountCodes = new Map<string, DiscountCode>();
-  private bulkPricingTiers: BulkPricingTier[] = [];
+  private seeding: Promise<void> | null = null;
+
+  // Seed default codes and tiers the first time storage has none
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seedDefaults().catch(error => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private async seedDefaults(): Promise<void> {
+    const [discounts, tiers] = await Promise.all([
+      storage.getDiscountCodes(),
+      storage.getBulkPricingTiers()
+    ]);
 
-  constructor() {
-    this.initializeDefaultDiscounts();
-    this.initializeBulkPricing();
+    if (discounts.length === 0) await this.initializeDefaultDiscounts();
+    if (tiers.length === 0) await this.initializeBulkPricing();
   }
 
   // Initialize default discount codes
-  private initializeDefaultDiscounts() {
-    const defaultDiscounts: Omit<DiscountCode, 'id' | 'customerUsage'>[] = [
+  private async initializeDefaultDiscounts() {
+    const defaultDiscounts: InsertDiscountCode[] = [
       {
         code: 'WELCOME10',
         name: 'Welcome Discount',
@@ -70,15 +72,12 @@ class DiscountSystem {
         applicableCategories: [],
         applicableProducts: [],
         usageLimit: 1000,
-        usageCount: 0,
         usagePerCustomer: 1,
         validFrom: Date.now(),
         validUntil: Date.now() + 90 * 24 * 60 * 60 * 1000, // 90 days
         isActive: true,
         stackable: false,
-        createdBy: 'system',
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        createdBy: 'system'
       },
       {
         code: 'GAMING20',
@@ -91,15 +90,12 @@ class DiscountSystem {
         applicableCategories: ['Gaming Beast', 'Performance Gamers', 'Elite Gaming Setups'],
         applicableProducts: [],
         usageLimit: 500,
-        usageCount: 0,
         usagePerCustomer: 1,
         validFrom: Date.now(),
         validUntil: Date.now() + 30 * 24 * 60 * 60 * 1000, // 30 days
         isActive: true,
         stackable: false,
-        createdBy: 'admin',
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        createdBy: 'admin'
       },
       {
         code: 'STUDENT15',
@@ -112,15 +108,12 @@ class DiscountSystem {
         applicableCategories: ['Budget Builders', 'Essential Creators'],
         applicableProducts: [],
         usageLimit: undefined, // Unlimited
-        usageCount: 0,
         usagePerCustomer: 3, // 3 times per student
         validFrom: Date.now(),
         validUntil: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
         isActive: true,
         stackable: true,
-        createdBy: 'admin',
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        createdBy: 'admin'
       },
       {
         code: 'FREESHIP',
@@ -132,15 +125,12 @@ class DiscountSystem {
         applicableCategories: [],
         applicableProducts: [],
         usageLimit: undefined,
-        usageCount: 0,
         usagePerCustomer: 5,
         validFrom: Date.now(),
         validUntil: Date.now() + 60 * 24 * 60 * 60 * 1000, // 60 days
         isActive: true,
         stackable: true,
-        createdBy: 'admin',
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        createdBy: 'admin'
       },
       {
         code: 'BULK5000',
@@ -152,31 +142,23 @@ class DiscountSystem {
         applicableCategories: [],
         applicableProducts: [],
         usageLimit: 100,
-        usageCount: 0,
         usagePerCustomer: 2,
         validFrom: Date.now(),
         validUntil: Date.now() + 45 * 24 * 60 * 60 * 1000, // 45 days
         isActive: true,
         stackable: true,
-        createdBy: 'admin',
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        createdBy: 'admin'
       }
     ];
 
-    defaultDiscounts.forEach((discount, index) => {
-      const id = `discount_${Date.now()}_${index}`;
-      this.discountCodes.set(discount.code, {
-        ...discount,
-        id,
-        customerUsage: new Map()
-      });
-    });
+    for (const discount of defaultDiscounts) {
+      await storage.createDiscountCode(discount);
+    }
   }
 
   // Initialize bulk pricing tiers
-  private initializeBulkPricing() {
-    this.bulkPricingTiers = [
+  private async initializeBulkPricing() {
+    const defaultTiers: BulkPricingTier[] = [
       {
         id: 'bulk_tier_1',
         name: 'Small Business (3-5 PCs)',
@@ -210,6 +192,10 @@ class DiscountSystem {
         isActive: true
       }
     ];
+
+    for (const tier of defaultTiers) {
+      await storage.saveBulkPricingTier(tier);
+    }
   }
 
   // Validate and apply discount code
@@ -218,7 +204,8 @@ class DiscountSystem {
     userId: string, 
     cartItems: Array<{ id: number; name: string; category: string; price: number; quantity: number }>
   ): Promise<DiscountApplication | { error: string }> {
-    const discount = this.discountCodes.get(code.toUpperCase());
+    await this.ensureSeeded();
+    const discount = await storage.getDiscountCodeByCode(code);
     
     if (!discount) {
       return { error: 'Invalid discount code' };
@@ -240,8 +227,8 @@ class DiscountSystem {
     }
 
     if (discount.usagePerCustomer) {
-      const customerUsageCount = discount.customerUsage.get(userId) || 0;
-      if (customerUsageCount >= discount.usagePerCustomer) {
+      const customerRedemptions = await storage.getDiscountRedemptions(discount.id, userId);
+      if (customerRedemptions.length >= discount.usagePerCustomer) {
         return { error: 'You have already used this discount code the maximum number of times' };
       }
     }
@@ -335,13 +322,14 @@ class DiscountSystem {
   }
 
   // Apply bulk pricing discount
-  calculateBulkDiscount(
+  async calculateBulkDiscount(
     cartItems: Array<{ id: number; name: string; category: string; price: number; quantity: number }>
-  ): { discountPercentage: number; discountAmount: number; tierName: string } | null {
+  ): Promise<{ discountPercentage: number; discountAmount: number; tierName: string } | null> {
     const totalQuantity = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+    const bulkPricingTiers = await this.getBulkPricingTiers();
     
     // Find applicable bulk pricing tier
-    const applicableTier = this.bulkPricingTiers
+    const applicableTier = bulkPricingTiers
       .filter(tier => tier.isActive && totalQuantity >= tier.minimumQuantity)
       .sort((a, b) => b.minimumQuantity - a.minimumQuantity)[0]; // Get highest tier
 
@@ -365,50 +353,82 @@ class DiscountSystem {
     };
   }
 
-  // Confirm discount usage (call after successful payment)
-  async confirmDiscountUsage(discountCode: string, userId: string): Promise<void> {
-    const discount = this.discountCodes.get(discountCode.toUpperCase());
-    if (discount) {
-      // Increment usage counters
-      discount.usageCount++;
-      const currentUsage = discount.customerUsage.get(userId) || 0;
-      discount.customerUsage.set(userId, currentUsage + 1);
-      discount.updatedAt = Date.now();
-
-      // Persist changes
-      await this.persistDiscount(discount);
+  // Hold one use of a code for a checkout until its payment settles. Storage claims the use atomically,
+  // so the last remaining use can only go to one checkout
+  async reserveDiscountUsage(discountId: string, userId: string, checkoutId: string): Promise<DiscountRedemption> {
+    const result = await storage.redeemDiscountCode(discountId, userId, checkoutId);
+    if (!result.success) {
+      throw new CustomError(REDEMPTION_ERRORS[result.reason], 409);
     }
+    return result.redemption;
   }
 
-  // Create new discount code
-  async createDiscountCode(discountData: Omit<DiscountCode, 'id' | 'customerUsage' | 'usageCount' | 'createdAt' | 'updatedAt'>): Promise<DiscountCode> {
-    const id = `discount_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-    
-    const discount: DiscountCode = {
-      ...discountData,
-      id,
-      customerUsage: new Map(),
-      usageCount: 0,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    };
+  // Give a held use back to the code when its checkout fails, expires or is cancelled
+  async releaseDiscountUsage(discountId: string, checkoutId: string): Promise<boolean> {
+    return storage.releaseDiscountRedemption(discountId, checkoutId);
+  }
+
+  // A cancelled order gives its use back. The use is held under the Razorpay order for online checkouts,
+  // or under the order number when the order reserved its own stock
+  async releaseOrderDiscount(order: Order): Promise<boolean> {
+    if (!order.discountCode) return false;
+
+    const discount = await storage.getDiscountCodeByCode(order.discountCode);
+    if (!discount) return false;
+
+    const checkoutIds = [order.razorpayOrderId, `order_${order.orderNumber}`].filter((id): id is string => !!id);
+    let released = false;
+    for (const checkoutId of checkoutIds) {
+      released = (await this.releaseDiscountUsage(discount.id, checkoutId)) || released;
+    }
+    return released;
+  }
 
-    this.discountCodes.set(discount.code.toUpperCase(), discount);
-    await this.persistDiscount(discount);
+  // Confirm discount usage once payment is verified. The use is normally already held by the checkout,
+  // in which case that hold is returned; otherwise one is claimed now
+  async confirmDiscountUsage(discountCode: string, userId: string, checkoutId: string): Promise<DiscountRedemptionResult> {
+    await this.ensureSeeded();
+    const discount = await storage.getDiscountCodeByCode(discountCode);
+    if (!discount) {
+      return { success: false, reason: 'not_found' };
+    }
 
-    return discount;
+    const result = await storage.redeemDiscountCode(discount.id, userId, checkoutId);
+    if (!result.success) {
+      logger.warn(`Discount ${discount.code} could not be redeemed: ${result.reason}`, {
+        context: 'Discounts',
+        data: { userId, checkoutId }
+      });
+    }
+
+    return result;
+  }
+
+  // Create new discount code
+  async createDiscountCode(discountData: InsertDiscountCode): Promise<DiscountCode> {
+    await this.ensureSeeded();
+    return storage.createDiscountCode(discountData);
+  }
+
+  // Update an existing discount code (admin edits and activation toggles)
+  async updateDiscountCode(
+    id: string,
+    updates: Partial<Omit<InsertDiscountCode, 'code'>>
+  ): Promise<DiscountCode | undefined> {
+    return storage.updateDiscountCode(id, updates);
   }
 
   // Get all discount codes for admin
-  getAllDiscountCodes(): DiscountCode[] {
-    return Array.from(this.discountCodes.values())
-      .sort((a, b) => b.createdAt - a.createdAt);
+  async getAllDiscountCodes(): Promise<DiscountCode[]> {
+    await this.ensureSeeded();
+    return storage.getDiscountCodes();
   }
 
   // Get active discount codes
-  getActiveDiscountCodes(): DiscountCode[] {
+  async getActiveDiscountCodes(): Promise<DiscountCode[]> {
     const now = Date.now();
-    return Array.from(this.discountCodes.values())
+    const discounts = await this.getAllDiscountCodes();
+    return discounts
       .filter(discount => 
         discount.isActive && 
         discount.validFrom <= now && 
@@ -417,6 +437,18 @@ class DiscountSystem {
       );
   }
 
+  // Get bulk pricing tiers
+  async getBulkPricingTiers(): Promise<BulkPricingTier[]> {
+    await this.ensureSeeded();
+    return storage.getBulkPricingTiers();
+  }
+
+  // Create or update a bulk pricing tier
+  async saveBulkPricingTier(tier: BulkPricingTier): Promise<BulkPricingTier> {
+    await this.ensureSeeded();
+    return storage.saveBulkPricingTier(tier);
+  }
+
   // Generate promotional codes automatically
   async generatePromotionalCodes(params: {
     campaign: string;
@@ -469,17 +501,17 @@ class DiscountSystem {
   }
 
   // Calculate combined discounts (if stackable)
-  calculateStackedDiscounts(
+  async calculateStackedDiscounts(
     discountCodes: string[],
     userId: string,
     cartItems: Array<{ id: number; name: string; category: string; price: number; quantity: number }>
-  ): Array<DiscountApplication | { error: string }> {
+  ): Promise<Array<DiscountApplication | { error: string }>> {
     const applications: Array<DiscountApplication | { error: string }> = [];
     let currentTotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
     // Apply discounts in order of value (highest first)
-    const sortedCodes = discountCodes
-      .map(code => this.discountCodes.get(code.toUpperCase()))
+    const discounts = await Promise.all(discountCodes.map(code => storage.getDiscountCodeByCode(code)));
+    const sortedCodes = discounts
       .filter(discount => discount !== undefined)
       .sort((a, b) => {
         const aValue = a!.type === 'percentage' ? a!.value : a!.value / currentTotal * 100;
@@ -516,15 +548,15 @@ class DiscountSystem {
   }
 
   // Get discount analytics
-  getDiscountAnalytics(): {
+  async getDiscountAnalytics(): Promise<{
     totalCodes: number;
     activeCodes: number;
     totalUsage: number;
     totalDiscountGiven: number;
     topPerformingCodes: Array<{ code: string; usage: number; value: number }>;
     categoryPerformance: Record<string, number>;
-  } {
-    const allCodes = Array.from(this.discountCodes.values());
+  }> {
+    const allCodes = await this.getAllDiscountCodes();
     const activeCodes = allCodes.filter(code => code.isActive);
     const totalUsage = allCodes.reduce((sum, code) => sum + code.usageCount, 0);
     
@@ -563,21 +595,6 @@ class DiscountSystem {
       categoryPerformance
     };
   }
-
-  // Persist discount to storage
-  private async persistDiscount(discount: DiscountCode): Promise<void> {
-    try {
-      // Convert Map to object for JSON serialization
-      const serializable = {
-        ...discount,
-        customerUsage: Array.from(discount.customerUsage.entries())
-      };
-      
-      localStorage.setItem(`discount_${discount.code}`, JSON.stringify(serializable));
-    } catch (error) {
-      console.error('Error persisting discount:', error);
-    }
-  }
 }
 
 export const discountSystem = new DiscountSystem();
\ No newline at end of file
@@ -1,10 +1,12 @@
-import { ReceiptData } from './receipt-generator';
+import { ReceiptData, getReceiptTaxSummary } from './receipt-generator';
+import { getIndianState, SHIPPING_SAC_CODE } from '../../shared/gst';
 
 export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string {
-  // Calculate pricing breakdown - use proper forward calculation
-  const subtotal = receiptData.amount;
-  const gstAmount = Math.round(subtotal * 0.18);
-  const totalWithGST = subtotal + gstAmount;
+  // Amounts paid already include GST; the summary splits it out per the tax invoice when one was issued
+  const taxSummary = getReceiptTaxSummary(receiptData);
+  const invoice = receiptData.invoice;
+  const placeOfSupply = invoice ? getIndianState(invoice.placeOfSupply) : undefined;
+  const shippingLine = invoice?.lines.find(line => line.hsnCode === SHIPPING_SAC_CODE);
 
   return `
 <!DOCTYPE html>
@@ -229,9 +231,10 @@ export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string
             <p>${receiptData.companyDetails.email}</p>
         </div>
 
-        <h2 class="section-title">Invoice Details</h2>
+        <h2 class="section-title">${invoice ? 'Tax Invoice' : 'Invoice Details'}</h2>
         <div class="info-grid">
             <div>
+                ${invoice ? `<div class="info-item"><span class="info-label">Invoice Number:</span> ${invoice.invoiceNumber}</div>` : ''}
                 <div class="info-item"><span class="info-label">Order Number:</span> ${receiptData.orderNumber}</div>
                 <div class="info-item"><span class="info-label">Payment ID:</span> ${receiptData.paymentId}</div>
                 <div class="info-item"><span class="info-label">Date:</span> ${receiptData.transactionDate}</div>
@@ -239,6 +242,8 @@ export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string
             <div>
                 <div class="info-item"><span class="info-label">Payment Method:</span> ${receiptData.paymentMethod}</div>
                 <div class="info-item"><span class="info-label">Status:</span> <span class="status-paid">${receiptData.paymentStatus}</span></div>
+                ${receiptData.companyDetails.gst ? `<div class="info-item"><span class="info-label">Seller GSTIN:</span> ${receiptData.companyDetails.gst}</div>` : ''}
+                ${placeOfSupply ? `<div class="info-item"><span class="info-label">Place of Supply:</span> ${placeOfSupply.name} (${placeOfSupply.code})</div>` : ''}
             </div>
         </div>
 
@@ -248,6 +253,7 @@ export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string
             <div class="info-item"><span class="info-label">Email:</span> <a href="mailto:${receiptData.customerEmail}" style="color: #ffa726; text-decoration: none;">${receiptData.customerEmail}</a></div>
             <div class="info-item"><span class="info-label">Phone:</span> ${receiptData.customerPhone}</div>
             <div class="info-item"><span class="info-label">Address:</span> ${receiptData.shippingAddress}</div>
+            ${taxSummary.customerGstin ? `<div class="info-item"><span class="info-label">GSTIN:</span> ${taxSummary.customerGstin}</div>` : ''}
         </div>
 
         <table class="items-table">
@@ -265,6 +271,7 @@ export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string
                         <td>
                             <div class="item-name">${item.build.name}</div>
                             <div class="item-description">${(item.build as any).description || 'Custom PC Build'}</div>
+                            ${item.build.hsnCode ? `<div class="component-spec">HSN: ${item.build.hsnCode}</div>` : ''}
                             ${item.build.components && item.build.components.length > 0 ? `
                                 <div style="margin-top: 12px;">
                                     ${item.build.components.map(component => `
@@ -282,21 +289,33 @@ export function generateFusionForgeReceiptHTML(receiptData: ReceiptData): string
                         <td class="total-cell">₹${(parseInt((item.build as any).price || '0') * item.quantity).toLocaleString('en-IN')}</td>
                     </tr>
                 `).join('')}
+                ${shippingLine ? `
+                    <tr class="table-row">
+                        <td>
+                            <div class="item-name">${shippingLine.description}</div>
+                            <div class="component-spec">SAC: ${shippingLine.hsnCode}</div>
+                        </td>
+                        <td class="quantity-cell">1</td>
+                        <td class="price-cell">₹${shippingLine.total.toLocaleString('en-IN')}</td>
+                        <td class="total-cell">₹${shippingLine.total.toLocaleString('en-IN')}</td>
+                    </tr>
+                ` : ''}
             </tbody>
         </table>
 
         <div class="summary-section">
             <div class="summary-box">
                 <div class="summary-line">
-                    <span class="summary-label">Subtotal:</span> 
-                    <span class="summary-value">₹${subtotal.toLocaleString('en-IN')}</span>
+                    <span class="summary-label">Taxable Value:</span> 
+                    <span class="summary-value">₹${taxSummary.taxableValue.toLocaleString('en-IN')}</span>
                 </div>
+                ${taxSummary.taxRows.map(row => `
                 <div class="summary-line">
-                    <span class="summary-label">GST (18%):</span> 
-                    <span class="summary-value">₹${gstAmount.toLocaleString('en-IN')}</span>
-                </div>
+                    <span class="summary-label">${row.label}:</span> 
+                    <span class="summary-value">₹${row.amount.toLocaleString('en-IN')}</span>
+                </div>`).join('')}
                 <div class="grand-total">
-                    <p class="grand-total-text">Grand Total: ₹${totalWithGST.toLocaleString('en-IN')}</p>
+                    <p class="grand-total-text">Grand Total: ₹${taxSummary.total.toLocaleString('en-IN')}</p>
                 </div>
             </div>
         </div>
@@ -0,0 +1,364 @@
+// Turns inbound mail into support ticket replies, either from a provider webhook or a local maildir
+import fs from 'fs/promises';
+import path from 'path';
+import { storage } from '../storage/index';
+import { supportTicketSystem, TICKET_ID_PATTERN, TICKET_REPLY_MARKER } from './support-ticket-system';
+import { CustomError } from '../middleware/error-handler';
+import { parseMail } from '../utils/mime-message';
+import type { ParsedMail } from '../utils/mime-message';
+import { sniffMimeType } from '../utils/mime-sniff';
+import { logger } from '../utils/logger';
+import { SUPPORT_ATTACHMENT_LIMITS } from '../../shared/schema';
+import type { SupportTicket } from '../../shared/schema';
+import type { AttachmentFile } from './ticket-attachments';
+
+export interface InboundEmailResult {
+  action: 'appended' | 'created' | 'duplicate' | 'ignored';
+  ticketId?: string;
+  reason?: string;
+}
+
+export interface MaildirRunResult {
+  processed: number;
+  failed: number;
+}
+
+const MAILDIR_POLL_INTERVAL_MS = 60 * 1000;
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+// Lines that start the quoted copy of the message being replied to
+const QUOTE_HEADERS = [
+  /^On .+wrote:\s*$/m,
+  /^-{2,}\s*Original Message\s*-{2,}/im,
+  /^_{10,}\s*$/m, // Outlook separator before its own From:/Sent: block
+  /^From:\s.+\n(Sent|Date):\s/m
+];
+
+// Keep only what the sender wrote: drop the reply marker and everything below it, quoted history and the signature
+export function stripQuotedReply(text: string): string {
+  let body = text.replace(/\r\n/g, '\n');
+
+  const marker = body.indexOf(TICKET_REPLY_MARKER);
+  if (marker !== -1) {
+    // Clients wrap the marker in a quote line such as "On ... wrote:" or "> "; drop that line too
+    body = body.slice(0, marker).replace(/\n[^\n]*$/, '');
+  }
+
+  for (const pattern of QUOTE_HEADERS) {
+    const match = pattern.exec(body);
+    if (match) body = body.slice(0, match.index);
+  }
+
+  const lines = body.split('\n');
+  const signature = lines.findIndex(line => line === '-- ' || line === '--');
+  const kept = (signature === -1 ? lines : lines.slice(0, signature)).filter(line => !line.startsWith('>'));
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function findTicketId(mail: ParsedMail): string | undefined {
+  // The plus-addressed reply-to is exact; subjects can be edited by the sender
+  for (const recipient of [...mail.to, ...mail.cc]) {
+    const tag = recipient.address.split('@')[0].split('+')[1];
+    const match = tag && TICKET_ID_PATTERN.exec(tag);
+    if (match) return match[0].toUpperCase();
+  }
+  const match = TICKET_ID_PATTERN.exec(mail.subject);
+  return match?.[0].toUpperCase();
+}
+
+function cleanSubject(subject: string): string {
+  return subject
+    .replace(/^((re|fwd?|aw)\s*:\s*)+/i, '')
+    .replace(new RegExp(`\\[?${TICKET_ID_PATTERN.source}\\]?`, 'gi'), '')
+    .replace(/\s{2,}/g, ' ')
+    .trim() || 'Email to support';
+}
+
+// Auto-replies and bulk mail would otherwise bounce back and forth with our own notifications
+function isAutomated(mail: ParsedMail): boolean {
+  const autoSubmitted = mail.headers['auto-submitted'];
+  const precedence = (mail.headers['precedence'] || '').toLowerCase();
+  return Boolean(autoSubmitted && autoSubmitted.toLowerCase() !== 'no')
+    || ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)
+    || Boolean(mail.headers['x-autoreply'] || mail.headers['x-autorespond']);
+}
+
+function isOwnAddress(address: string): boolean {
+  const own = [process.env.SUPPORT_INBOUND_ADDRESS, 'support@fusionforgepc.com']
+    .filter((candidate): candidate is string => Boolean(candidate))
+    .map(candidate => candidate.toLowerCase());
+  const [local, domain] = address.split('@');
+  return own.includes(`${local.split('+')[0]}@${domain}`);
+}
+
+// One method's outcome from an Authentication-Results header (RFC 8601), e.g. "dkim=pass header.d=example.com"
+interface AuthResult {
+  method: string;
+  result: string;
+  properties: Record<string, string>;
+}
+
+function parseAuthenticationResults(header: string): { authservId: string; results: AuthResult[] } {
+  const [authservId, ...methods] = header.replace(/\([^)]*\)/g, ' ').split(';').map(part => part.trim());
+  return {
+    authservId: authservId.split(/\s+/)[0].toLowerCase(),
+    results: methods.filter(Boolean).map(method => {
+      const [verdict, ...properties] = method.split(/\s+/);
+      const [name, result = ''] = verdict.toLowerCase().split('=');
+      return {
+        method: name,
+        result,
+        properties: Object.fromEntries(properties
+          .filter(property => property.includes('='))
+          .map(property => [
+            property.slice(0, property.indexOf('=')).toLowerCase(),
+            property.slice(property.indexOf('=') + 1).toLowerCase()
+          ]))
+      };
+    })
+  };
+}
+
+// Senders can add Authentication-Results of their own below the receiving server's, so only that server's
+// results count: the headers carrying INBOUND_AUTHSERV_ID, or the topmost one when it is not set
+function receivedAuthenticationResults(mail: ParsedMail): AuthResult[] {
+  // Repeated headers arrive joined with ", "; each one starts with its authserv-id and a ";"
+  const headers = (mail.headers['authentication-results'] || '')
+    .split(/,\s*(?=[^\s;,=]+(?:\s+\d+)?\s*;)/)
+    .filter(header => header.includes(';'))
+    .map(parseAuthenticationResults);
+  const authservId = process.env.INBOUND_AUTHSERV_ID?.toLowerCase();
+  const trusted = authservId ? headers.filter(header => header.authservId === authservId) : headers.slice(0, 1);
+  return trusted.flatMap(header => header.results);
+}
+
+// Providers that parse the message themselves report their checks as form fields instead: SendGrid sends
+// "dkim" as "{@example.com : pass}", "SPF" and the envelope, Mailgun "X-Mailgun-Spf" and "sender"
+export function providerAuthenticationResults(fields: Record<string, unknown>): string | undefined {
+  const field = (name: string) => typeof fields[name] === 'string' ? fields[name] as string : undefined;
+  const results: string[] = [];
+
+  for (const match of (field('dkim') || '').matchAll(/@([^\s:,{}]+)\s*:\s*(\w+)/g)) {
+    results.push(`dkim=${match[2]} header.d=${match[1]}`);
+  }
+
+  let envelopeFrom = field('sender');
+  try {
+    envelopeFrom = JSON.parse(field('envelope') || '{}').from || envelopeFrom;
+  } catch (error) {
+    // Leave the envelope sender unknown
+  }
+  const spf = field('SPF') || field('X-Mailgun-Spf');
+  if (spf && envelopeFrom) results.push(`spf=${spf} smtp.mailfrom=${envelopeFrom}`);
+
+  return results.length > 0 ? ['provider', ...results].join('; ') : undefined;
+}
+
+function domainOf(value: string): string {
+  return value.slice(value.lastIndexOf('@') + 1).toLowerCase();
+}
+
+// Relaxed alignment: the checked domain is the From domain or shares it as a parent
+function domainsAlign(checked: string, from: string): boolean {
+  return checked !== '' && (checked === from || checked.endsWith(`.${from}`) || from.endsWith(`.${checked}`));
+}
+
+// From identifies the sender only when the receiving side vouches for its domain: DMARC passed, or DKIM
+// or SPF passed for a domain aligned with it
+function isVerifiedSender(mail: ParsedMail, providerResults?: string): boolean {
+  if (!mail.from) return false;
+
+  const fromDomain = domainOf(mail.from.address);
+  const results = providerResults
+    ? parseAuthenticationResults(providerResults).results
+    : receivedAuthenticationResults(mail);
+
+  return results.some(({ method, result, properties }) => {
+    if (result !== 'pass') return false;
+    if (method === 'dmarc') return domainOf(properties['header.from'] || '') === fromDomain;
+    if (method === 'dkim') return domainsAlign(domainOf(properties['header.d'] || properties['header.i'] || ''), fromDomain);
+    if (method === 'spf') return domainsAlign(domainOf(properties['smtp.mailfrom'] || ''), fromDomain);
+    return false;
+  });
+}
+
+// Attachments are best effort: files the ticket would reject are dropped rather than losing the message
+function acceptedFiles(mail: ParsedMail): AttachmentFile[] {
+  return mail.attachments
+    .filter(attachment => attachment.content.length > 0
+      && attachment.content.length <= SUPPORT_ATTACHMENT_LIMITS.maxFileBytes
+      && sniffMimeType(attachment.content) !== undefined)
+    .slice(0, SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload)
+    .map(attachment => ({
+      fileName: attachment.fileName,
+      content: attachment.content
+    }));
+}
+
+class InboundEmailService {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  // Provider webhooks pass the checks they ran on the message; maildir delivery relies on the header
+  async ingest(raw: Buffer, providerResults?: string): Promise<InboundEmailResult> {
+    const mail = parseMail(raw);
+    // Reply-To is only where answers go; anyone can set it, so it never says who sent the message
+    const sender = mail.from;
+
+    if (!sender) return { action: 'ignored', reason: 'Message has no sender' };
+    if (isOwnAddress(sender.address)) return { action: 'ignored', reason: 'Message was sent by the support mailbox' };
+    if (isAutomated(mail)) return { action: 'ignored', reason: 'Automated message' };
+
+    // Providers retry webhooks and maildir runs can be repeated, so each Message-ID is taken once
+    if (mail.messageId) {
+      const duplicate = await storage.getSupportTicketByMessageId(mail.messageId);
+      if (duplicate) return { action: 'duplicate', ticketId: duplicate.id };
+    }
+
+    const message = stripQuotedReply(mail.text);
+    const files = acceptedFiles(mail);
+    if (!message && files.length === 0) return { action: 'ignored', reason: 'Message has no new content' };
+
+    const ticketId = findTicketId(mail);
+    const ticket = ticketId ? await storage.getSupportTicket(ticketId) : undefined;
+
+    // Only the verified ticket owner can reply by email; anyone else starts a ticket of their own
+    const verified = isVerifiedSender(mail, providerResults);
+    if (verified && ticket && ticket.userEmail.toLowerCase() === sender.address && ticket.status !== 'closed') {
+      await this.appendReply(ticket, mail, message, files);
+      logger.info(`Inbound email from ${sender.address} added to ticket ${ticket.id}`);
+      return { action: 'appended', ticketId: ticket.id };
+    }
+
+    const created = await this.createTicket(mail, sender, verified, message, files, ticket);
+    logger.info(`Inbound email from ${sender.address} opened ticket ${created.id}`);
+    return { action: 'created', ticketId: created.id };
+  }
+
+  private async appendReply(ticket: SupportTicket, mail: ParsedMail, message: string, files: AttachmentFile[]) {
+    const reply = {
+      authorId: ticket.userId,
+      authorType: 'user' as const,
+      authorName: ticket.userName,
+      message: message || '(Attachments sent by email)',
+      sourceMessageId: mail.messageId
+    };
+
+    if (files.length > 0) {
+      try {
+        await supportTicketSystem.addAttachments(ticket.id, { ...reply, files });
+        return;
+      } catch (error) {
+        // The ticket's attachment quota is full; keep the text of the reply
+        if (!(error instanceof CustomError) || error.statusCode >= 500) throw error;
+        logger.warn(`Dropped attachments from inbound email on ticket ${ticket.id}: ${error.message}`);
+      }
+    }
+    await supportTicketSystem.addResponse(ticket.id, reply);
+  }
+
+  private async createTicket(
+    mail: ParsedMail,
+    sender: NonNullable<ParsedMail['from']>,
+    verified: boolean,
+    message: string,
+    files: AttachmentFile[],
+    previous?: SupportTicket
+  ): Promise<SupportTicket> {
+    // An unverified sender keeps the address they wrote from but is never linked to that account
+    const [profile] = verified ? await storage.getUserProfilesByEmail(sender.address) : [];
+    const replyTo = mail.replyTo && mail.replyTo.address !== sender.address && !isOwnAddress(mail.replyTo.address)
+      ? mail.replyTo.address
+      : undefined;
+    const description = [
+      message || '(Attachments sent by email)',
+      verified && previous?.status === 'closed' && previous.userEmail.toLowerCase() === sender.address
+        ? `Follow-up to closed ticket ${previous.id}`
+        : ''
+    ].filter(Boolean).join('\n\n').slice(0, MAX_DESCRIPTION_LENGTH);
+
+    const ticket = await supportTicketSystem.createTicket({
+      // Senders without an account are keyed by address until they sign up
+      userId: profile?.uid || `email:${sender.address}`,
+      userEmail: sender.address,
+      userName: profile?.displayName || sender.name || sender.address,
+      subject: cleanSubject(mail.subject),
+      description,
+      category: 'general',
+      replyToEmail: replyTo,
+      sourceMessageId: mail.messageId
+    });
+
+    if (files.length > 0) {
+      try {
+        return await supportTicketSystem.addAttachments(ticket.id, {
+          authorId: ticket.userId,
+          authorType: 'user',
+          authorName: ticket.userName,
+          files
+        });
+      } catch (error) {
+        logger.warn(`Dropped attachments from inbound email on ticket ${ticket.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return ticket;
+  }
+
+  // Deliver every message in the maildir's new/ folder, then file it under cur/ flagged by outcome
+  async processMaildir(dir: string): Promise<MaildirRunResult> {
+    const result: MaildirRunResult = { processed: 0, failed: 0 };
+    const incoming = path.join(dir, 'new');
+    const done = path.join(dir, 'cur');
+    await fs.mkdir(done, { recursive: true });
+
+    let names: string[];
+    try {
+      names = (await fs.readdir(incoming)).filter(name => !name.startsWith('.'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return result;
+      throw error;
+    }
+
+    for (const name of names.sort()) {
+      const source = path.join(incoming, name);
+      // Maildir info suffix: S marks a handled message, F one that needs a look
+      let flag = 'S';
+      try {
+        const outcome = await this.ingest(await fs.readFile(source));
+        logger.info(`Maildir message ${name}: ${outcome.action}${outcome.reason ? ` (${outcome.reason})` : ''}`);
+        result.processed++;
+      } catch (error) {
+        logger.error(`Failed to ingest maildir message ${name}`, error);
+        flag = 'F';
+        result.failed++;
+      }
+      await fs.rename(source, path.join(done, `${name.split(':')[0]}:2,${flag}`));
+    }
+    return result;
+  }
+
+  // Poll INBOUND_MAILDIR every minute; local delivery agents such as fetchmail or getmail fill it
+  startMaildirPoller() {
+    const dir = process.env.INBOUND_MAILDIR;
+    if (!dir || this.pollTimer) return;
+
+    this.pollTimer = setInterval(async () => {
+      if (this.polling) return;
+      this.polling = true;
+      try {
+        const { processed, failed } = await this.processMaildir(dir);
+        if (processed + failed > 0) {
+          logger.info(`Inbound maildir run: ${processed} processed, ${failed} failed`);
+        }
+      } catch (error) {
+        logger.error('Error reading inbound maildir', error);
+      } finally {
+        this.polling = false;
+      }
+    }, MAILDIR_POLL_INTERVAL_MS);
+
+    logger.info(`Inbound email maildir poller watching ${dir}`);
+  }
+}
+
+export const inboundEmailService = new InboundEmailService();
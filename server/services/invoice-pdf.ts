@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { storage } from '../storage/index';
+import { taxInvoiceService } from './tax-invoice';
+import { CustomError } from '../middleware/error-handler';
+import { PdfDocument } from '../utils/pdf-document';
+import { getIndianState } from '../../shared/gst';
+import type { TaxInvoice, TaxInvoiceLine } from '../../shared/schema';
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PdfDocument.PAGE_WIDTH - MARGIN * 2;
+const PAGE_BOTTOM = PdfDocument.PAGE_HEIGHT - 60;
+const BRAND_BLUE: [number, number, number] = [30, 58, 138];
+const BRAND_ORANGE: [number, number, number] = [249, 115, 22];
+const MUTED: [number, number, number] = [100, 116, 139];
+const RULE: [number, number, number] = [226, 232, 240];
+
+interface Column {
+  title: string;
+  width: number;
+  align: 'left' | 'right' | 'center';
+  value: (line: TaxInvoiceLine, index: number) => string;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata'
+  });
+}
+
+export interface InvoicePdf {
+  invoiceNumber: string;
+  filename: string;
+  content: Buffer;
+}
+
+class InvoicePdfService {
+  // Render once, store the bytes, and serve the stored copy on every later request. Invoices are
+  // issued when the order is settled; only staff may issue a missing one from here
+  async getInvoicePdf(orderId: number, options: { issue?: boolean } = {}): Promise<InvoicePdf> {
+    let document = await storage.getInvoiceDocument(orderId);
+
+    if (!document) {
+      const invoice = options.issue
+        ? await taxInvoiceService.getOrIssueInvoice(orderId)
+        : await taxInvoiceService.getInvoice(orderId);
+      if (!invoice) {
+        throw new CustomError('No tax invoice has been issued for this order yet', 409);
+      }
+
+      const content = this.renderInvoice(invoice);
+      document = await storage.saveInvoiceDocument({
+        orderId,
+        invoiceNumber: invoice.invoiceNumber,
+        contentType: 'application/pdf',
+        content: content.toString('base64'),
+        sha256: crypto.createHash('sha256').update(content).digest('hex'),
+        size: content.length
+      });
+    }
+
+    return {
+      invoiceNumber: document.invoiceNumber,
+      filename: `${document.invoiceNumber.replace(/\//g, '-')}.pdf`,
+      content: Buffer.from(document.content, 'base64')
+    };
+  }
+
+  renderInvoice(invoice: TaxInvoice): Buffer {
+    const pdf = new PdfDocument({
+      title: `Tax Invoice ${invoice.invoiceNumber}`,
+      author: invoice.supplier.name,
+      creationDate: new Date(invoice.issuedAt)
+    });
+
+    let y = this.drawHeader(pdf, invoice);
+    y = this.drawParties(pdf, invoice, y);
+
+    const columns = this.getColumns(invoice);
+    y = this.drawTableHeader(pdf, columns, y);
+    invoice.lines.forEach((line, index) => {
+      const descriptionLines = pdf.wrapText(line.description, columns[1].width - 6, 8);
+      const rowHeight = Math.max(1, descriptionLines.length) * 10 + 8;
+
+      if (y + rowHeight > PAGE_BOTTOM) {
+        pdf.addPage();
+        y = this.drawTableHeader(pdf, columns, MARGIN);
+      }
+
+      let x = MARGIN;
+      columns.forEach((column, columnIndex) => {
+        if (columnIndex === 1) {
+          descriptionLines.forEach((text, lineIndex) => pdf.text(text, x + 3, y + 12 + lineIndex * 10, { size: 8 }));
+        } else {
+          pdf.text(column.value(line, index), x + 3, y + 12, { size: 8, align: column.align, width: column.width - 6 });
+        }
+        x += column.width;
+      });
+      y += rowHeight;
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: RULE });
+    });
+
+    if (y + 150 > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    this.drawTotals(pdf, invoice, y + 15);
+    this.drawFooter(pdf, invoice);
+
+    return pdf.toBuffer();
+  }
+
+  private drawHeader(pdf: PdfDocument, invoice: TaxInvoice): number {
+    const { supplier } = invoice;
+    pdf.rect(0, 0, PdfDocument.PAGE_WIDTH, 6, { fill: BRAND_ORANGE });
+
+    pdf.text(supplier.name, MARGIN, 50, { size: 18, bold: true, color: BRAND_BLUE });
+    let y = 66;
+    for (const text of pdf.wrapText(supplier.address || '', 280, 9)) {
+      pdf.text(text, MARGIN, y, { size: 9, color: MUTED });
+      y += 12;
+    }
+    pdf.text(`GSTIN: ${supplier.gstin}`, MARGIN, y, { size: 9, bold: true });
+    pdf.text(`State: ${supplier.stateName} (${supplier.stateCode})`, MARGIN, y + 12, { size: 9 });
+    const contact = [supplier.phone, supplier.email].filter(Boolean).join(' | ');
+    if (contact) pdf.text(contact, MARGIN, y + 24, { size: 9, color: MUTED });
+
+    const right = { align: 'right' as const, width: 200 };
+    const metaX = PdfDocument.PAGE_WIDTH - MARGIN - 200;
+    pdf.text('TAX INVOICE', metaX, 50, { ...right, size: 18, bold: true, color: BRAND_ORANGE });
+    pdf.text(invoice.isB2B ? 'Original for recipient (B2B)' : 'Original for recipient', metaX, 64, { ...right, size: 8, color: MUTED });
+    pdf.text(`Invoice No: ${invoice.invoiceNumber}`, metaX, 82, { ...right, size: 9, bold: true });
+    pdf.text(`Invoice Date: ${formatDate(invoice.issuedAt)}`, metaX, 94, { ...right, size: 9 });
+    pdf.text(`Order No: ${invoice.orderNumber}`, metaX, 106, { ...right, size: 9 });
+
+    y = Math.max(y + 40, 120);
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: BRAND_BLUE, width: 1 });
+    return y;
+  }
+
+  private drawParties(pdf: PdfDocument, invoice: TaxInvoice, top: number): number {
+    const { recipient } = invoice;
+    const placeOfSupply = getIndianState(invoice.placeOfSupply);
+
+    pdf.text('BILL TO / SHIP TO', MARGIN, top + 18, { size: 8, bold: true, color: MUTED });
+    pdf.text(recipient.name, MARGIN, top + 32, { size: 10, bold: true });
+    let y = top + 44;
+    for (const text of pdf.wrapText(recipient.address || '', 280, 9)) {
+      pdf.text(text, MARGIN, y, { size: 9 });
+      y += 12;
+    }
+    pdf.text(`State: ${recipient.stateName} (${recipient.stateCode})`, MARGIN, y, { size: 9 });
+    y += 12;
+    if (recipient.gstin) {
+      pdf.text(`GSTIN: ${recipient.gstin}`, MARGIN, y, { size: 9, bold: true });
+      y += 12;
+    }
+
+    const detailsX = MARGIN + 320;
+    pdf.text('SUPPLY DETAILS', detailsX, top + 18, { size: 8, bold: true, color: MUTED });
+    pdf.text(`Place of supply: ${placeOfSupply?.name || invoice.placeOfSupply} (${invoice.placeOfSupply})`, detailsX, top + 32, { size: 9 });
+    pdf.text(`Supply type: ${invoice.supplyType === 'intra_state' ? 'Intra-state' : 'Inter-state'}`, detailsX, top + 44, { size: 9 });
+    pdf.text('Reverse charge: No', detailsX, top + 56, { size: 9 });
+
+    return Math.max(y, top + 68) + 10;
+  }
+
+  private getColumns(invoice: TaxInvoice): Column[] {
+    const taxColumns: Column[] = invoice.supplyType === 'intra_state'
+      ? [
+          { title: 'CGST', width: 50, align: 'right', value: line => formatAmount(line.cgst) },
+          { title: 'SGST', width: 50, align: 'right', value: line => formatAmount(line.sgst) }
+        ]
+      : [{ title: 'IGST', width: 100, align: 'right', value: line => formatAmount(line.igst) }];
+
+    return [
+      { title: '#', width: 20, align: 'center', value: (_line, index) => String(index + 1) },
+      { title: 'Description', width: 110, align: 'left', value: line => line.description },
+      { title: 'HSN/SAC', width: 45, align: 'center', value: line => line.hsnCode },
+      { title: 'Qty', width: 25, align: 'center', value: line => String(line.quantity) },
+      { title: 'Rate', width: 55, align: 'right', value: line => formatAmount(line.unitPrice) },
+      { title: 'Discount', width: 45, align: 'right', value: line => formatAmount(line.discount) },
+      { title: 'Taxable', width: 60, align: 'right', value: line => formatAmount(line.taxableValue) },
+      ...taxColumns,
+      { title: 'Total', width: CONTENT_WIDTH - 460, align: 'right', value: line => formatAmount(line.total) }
+    ];
+  }
+
+  private drawTableHeader(pdf: PdfDocument, columns: Column[], top: number): number {
+    pdf.rect(MARGIN, top, CONTENT_WIDTH, 20, { fill: BRAND_BLUE });
+    let x = MARGIN;
+    for (const column of columns) {
+      pdf.text(column.title, x + 3, top + 13, { size: 8, bold: true, color: [255, 255, 255], align: column.align, width: column.width - 6 });
+      x += column.width;
+    }
+    return top + 20;
+  }
+
+  private drawTotals(pdf: PdfDocument, invoice: TaxInvoice, top: number): void {
+    const rate = invoice.lines[0]?.gstRate ?? 18;
+    const rows: Array<[string, number]> = [['Taxable value', invoice.taxableValue]];
+    if (invoice.supplyType === 'intra_state') {
+      rows.push([`CGST @ ${rate / 2}%`, invoice.cgst], [`SGST @ ${rate / 2}%`, invoice.sgst]);
+    } else {
+      rows.push([`IGST @ ${rate}%`, invoice.igst]);
+    }
+    rows.push(['Total tax', invoice.totalTax]);
+
+    const labelX = MARGIN + CONTENT_WIDTH - 230;
+    let y = top;
+    for (const [label, amount] of rows) {
+      pdf.text(label, labelX, y, { size: 9, color: MUTED });
+      pdf.text(formatAmount(amount), labelX, y, { size: 9, align: 'right', width: 230 });
+      y += 14;
+    }
+
+    pdf.line(labelX, y - 4, MARGIN + CONTENT_WIDTH, y - 4, { color: BRAND_BLUE, width: 1 });
+    pdf.text('Grand total (INR)', labelX, y + 10, { size: 11, bold: true, color: BRAND_BLUE });
+    pdf.text(formatAmount(invoice.grandTotal), labelX, y + 10, { size: 11, bold: true, color: BRAND_ORANGE, align: 'right', width: 230 });
+
+    pdf.text('All amounts are in Indian Rupees.', MARGIN, top, { size: 8, color: MUTED });
+  }
+
+  private drawFooter(pdf: PdfDocument, invoice: TaxInvoice): void {
+    const y = PdfDocument.PAGE_HEIGHT - 40;
+    pdf.line(MARGIN, y - 14, MARGIN + CONTENT_WIDTH, y - 14, { color: RULE });
+    pdf.text('This is a computer-generated invoice and does not require a signature.', MARGIN, y, { size: 8, color: MUTED });
+    pdf.text(`For ${invoice.supplier.name}`, MARGIN, y, { size: 8, bold: true, align: 'right', width: CONTENT_WIDTH });
+  }
+}
+
+export const invoicePdfService = new InvoicePdfService();
@@ -0,0 +1,252 @@
+// WebSocket hub for live chat: one room per chat session, plus a queue feed for support agents
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { z } from 'zod';
+import { storage } from '../storage/index';
+import { getAdminEmailForSession } from '../middleware/admin-auth';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { aiChatService } from './ai-chat-service';
+import type { ChatEvent } from './ai-chat-service';
+import { LIVE_CHAT_PATH, liveChatClientMessageSchema } from '../../shared/live-chat';
+import type { LiveChatClientMessage, LiveChatServerMessage } from '../../shared/live-chat';
+import type { ChatMessage } from '../../shared/schema';
+
+interface ClientState {
+  agentEmail?: string; // set for sockets opened with a valid admin session
+  sessions: Set<string>;
+  watchingQueue: boolean;
+  isAlive: boolean;
+}
+
+// Sockets that miss a ping for this long are dropped; clients rejoin their rooms on reconnect
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const MAX_PAYLOAD_BYTES = 16 * 1024;
+
+// Customers see the conversation, not tool calls or agent hand-over notes
+function isVisibleToCustomer(message: ChatMessage): boolean {
+  return message.role === 'user' || message.role === 'assistant' || message.role === 'agent';
+}
+
+function readCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+class LiveChatHub {
+  private wss?: WebSocketServer;
+  private clients = new Map<WebSocket, ClientState>();
+  private rooms = new Map<string, Set<WebSocket>>();
+  private heartbeat?: NodeJS.Timeout;
+  private unsubscribe?: () => void;
+
+  // Shares the HTTP server with the API; other upgrade requests (e.g. Vite HMR) are left alone
+  attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+    this.wss.on('connection', (socket: WebSocket, req: IncomingMessage) => this.onConnection(socket, req));
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      if (pathname !== LIVE_CHAT_PATH) return;
+      this.wss!.handleUpgrade(req, socket, head, ws => this.wss!.emit('connection', ws, req));
+    });
+    server.on('close', () => this.close());
+
+    this.unsubscribe = aiChatService.subscribe(event => this.onChatEvent(event));
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+    logger.info(`Live chat hub listening on ${LIVE_CHAT_PATH}`, { context: 'CHAT' });
+  }
+
+  close(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.unsubscribe?.();
+    this.clients.forEach((_, socket) => socket.terminate());
+    this.clients.clear();
+    this.rooms.clear();
+    this.wss?.close();
+    this.wss = undefined;
+  }
+
+  private onConnection(socket: WebSocket, req: IncomingMessage): void {
+    const state: ClientState = {
+      agentEmail: getAdminEmailForSession(readCookie(req, 'admin_session')),
+      sessions: new Set(),
+      watchingQueue: false,
+      isAlive: true
+    };
+    this.clients.set(socket, state);
+
+    socket.on('pong', () => { state.isAlive = true; });
+    socket.on('message', data => {
+      this.onMessage(socket, state, data.toString()).catch(error => {
+        logger.error('Live chat message handling failed', error, { context: 'CHAT' });
+        this.send(socket, { type: 'error', message: 'Something went wrong, please try again' });
+      });
+    });
+    socket.on('close', () => this.disconnect(socket, state));
+    socket.on('error', error => logger.warn(`Live chat socket error: ${error.message}`, { context: 'CHAT' }));
+  }
+
+  private async onMessage(socket: WebSocket, state: ClientState, raw: string): Promise<void> {
+    let message: LiveChatClientMessage;
+    try {
+      message = liveChatClientMessageSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      const detail = error instanceof z.ZodError ? error.errors[0]?.message : 'Malformed JSON';
+      this.send(socket, { type: 'error', message: `Invalid message: ${detail}` });
+      return;
+    }
+
+    const sessionId = 'sessionId' in message ? message.sessionId : undefined;
+    try {
+      await this.dispatch(socket, state, message);
+    } catch (error) {
+      if (!(error instanceof CustomError)) throw error;
+      this.send(socket, { type: 'error', message: error.message, sessionId });
+    }
+  }
+
+  private async dispatch(socket: WebSocket, state: ClientState, message: LiveChatClientMessage): Promise<void> {
+    switch (message.type) {
+      case 'ping':
+        this.send(socket, { type: 'pong' });
+        return;
+      case 'join':
+        await this.join(socket, state, message.sessionId);
+        return;
+      case 'leave':
+        this.leave(socket, state, message.sessionId);
+        return;
+      case 'typing':
+        this.relayTyping(state, message.sessionId, message.isTyping);
+        return;
+    }
+
+    // Everything below acts on behalf of a support agent
+    const agentEmail = state.agentEmail;
+    if (!agentEmail) throw new CustomError('Admin authentication required', 401);
+
+    switch (message.type) {
+      case 'subscribe_queue':
+        state.watchingQueue = true;
+        this.send(socket, { type: 'queue', sessions: await aiChatService.getAgentQueue(), agentEmail });
+        return;
+      case 'claim':
+        await aiChatService.claimSession(message.sessionId, agentEmail);
+        await this.join(socket, state, message.sessionId);
+        return;
+      case 'release':
+        await aiChatService.releaseSession(message.sessionId, agentEmail);
+        return;
+      case 'close':
+        await aiChatService.closeSession(message.sessionId);
+        return;
+      case 'agent_message':
+        await aiChatService.postAgentMessage(message.sessionId, agentEmail, message.content);
+        return;
+    }
+  }
+
+  // Joining replays the stored transcript, which is how both sides catch up after a reconnect
+  private async join(socket: WebSocket, state: ClientState, sessionId: string): Promise<void> {
+    state.sessions.add(sessionId);
+    const room = this.rooms.get(sessionId) || new Set<WebSocket>();
+    room.add(socket);
+    this.rooms.set(sessionId, room);
+
+    const [session, messages] = await Promise.all([
+      storage.getChatSession(sessionId),
+      storage.getChatMessages(sessionId)
+    ]);
+
+    if (state.agentEmail) {
+      this.send(socket, { type: 'history', sessionId, status: session?.status, messages, session });
+    } else {
+      this.send(socket, { type: 'history', sessionId, status: session?.status, messages: messages.filter(isVisibleToCustomer) });
+    }
+  }
+
+  private leave(socket: WebSocket, state: ClientState, sessionId: string): void {
+    state.sessions.delete(sessionId);
+    const room = this.rooms.get(sessionId);
+    if (!room) return;
+    room.delete(socket);
+    if (room.size === 0) this.rooms.delete(sessionId);
+  }
+
+  private disconnect(socket: WebSocket, state: ClientState): void {
+    state.sessions.forEach(sessionId => {
+      // A customer who drops mid-sentence should not leave the agent watching a typing indicator
+      if (!state.agentEmail) this.relayTyping(state, sessionId, false);
+      this.leave(socket, state, sessionId);
+    });
+    this.clients.delete(socket);
+  }
+
+  // Typing is relayed to the other side of the conversation only
+  private relayTyping(state: ClientState, sessionId: string, isTyping: boolean): void {
+    if (!state.sessions.has(sessionId)) return;
+    const fromAgent = Boolean(state.agentEmail);
+
+    this.forEachInRoom(sessionId, (socket, member) => {
+      if (Boolean(member.agentEmail) === fromAgent) return;
+      this.send(socket, { type: fromAgent ? 'agent_typing' : 'customer_typing', sessionId, isTyping });
+    });
+  }
+
+  private onChatEvent(event: ChatEvent): void {
+    if (event.type === 'message') {
+      const { message } = event;
+      // Customers already get their own messages and AI replies from the HTTP response
+      this.forEachInRoom(message.sessionId, (socket, member) => {
+        if (member.agentEmail || message.role === 'agent') {
+          this.send(socket, { type: 'new_message', sessionId: message.sessionId, message });
+        }
+      });
+      return;
+    }
+
+    const { session } = event;
+    this.forEachInRoom(session.id, (socket, member) => {
+      if (!member.agentEmail) this.send(socket, { type: 'session_update', sessionId: session.id, status: session.status });
+    });
+    this.clients.forEach((member, socket) => {
+      if (member.agentEmail && (member.watchingQueue || member.sessions.has(session.id))) {
+        this.send(socket, { type: 'queue_update', session });
+      }
+    });
+  }
+
+  private forEachInRoom(sessionId: string, fn: (socket: WebSocket, state: ClientState) => void): void {
+    this.rooms.get(sessionId)?.forEach(socket => {
+      const state = this.clients.get(socket);
+      if (state) fn(socket, state);
+    });
+  }
+
+  private checkHeartbeats(): void {
+    this.clients.forEach((state, socket) => {
+      if (!state.isAlive) {
+        socket.terminate();
+        return;
+      }
+      state.isAlive = false;
+      socket.ping();
+    });
+  }
+
+  private send(socket: WebSocket, message: LiveChatServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const liveChatHub = new LiveChatHub();
@@ -0,0 +1,156 @@
+import { storage } from '../storage/index';
+import { CustomError } from '../middleware/error-handler';
+import { discountSystem } from './discount-system';
+import { taxInvoiceService } from './tax-invoice';
+import { sendEmail, createOrderStatusUpdateEmail } from '../email-service';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrder,
+  type Order,
+  type OrderStatus,
+  type OrderStatusEvent
+} from '../../shared/schema';
+
+// Statuses written before the lifecycle was defined
+const LEGACY_STATUS_ALIASES: Record<string, OrderStatus> = {
+  completed: 'delivered',
+  payment_failed: 'cancelled'
+};
+
+export interface OrderTransitionOptions {
+  actor: string;
+  note?: string;
+  trackingNumber?: string;
+  razorpayPaymentId?: string; // saved with the move to paid, so the order is never paid without it
+  notifyCustomer?: boolean;
+}
+
+// Raised when a status change is not an edge of the order state machine
+export class InvalidOrderTransitionError extends CustomError {
+  readonly code = 'INVALID_ORDER_TRANSITION';
+
+  constructor(public fromStatus: OrderStatus, public toStatus: OrderStatus, public allowed: OrderStatus[]) {
+    super(`Cannot move an order from ${fromStatus} to ${toStatus}`, 409);
+  }
+
+  toResponse() {
+    return {
+      error: this.message,
+      code: this.code,
+      fromStatus: this.fromStatus,
+      toStatus: this.toStatus,
+      allowed: this.allowed
+    };
+  }
+}
+
+export function normalizeOrderStatus(status: string): OrderStatus {
+  return LEGACY_STATUS_ALIASES[status] || (status as OrderStatus);
+}
+
+class OrderLifecycleService {
+  // Statuses an order may move to next, accounting for how it is being paid
+  allowedTransitions(order: Order): OrderStatus[] {
+    const current = normalizeOrderStatus(order.status);
+    const allowed = ORDER_STATUS_TRANSITIONS[current] || [];
+
+    // Online orders must be paid before work starts; only cash on delivery skips 'paid'
+    if (current === 'pending' && order.paymentMethod === 'online_payment') {
+      return allowed.filter(status => status !== 'processing');
+    }
+    return allowed;
+  }
+
+  async transition(
+    orderId: number,
+    toStatus: OrderStatus,
+    options: OrderTransitionOptions
+  ): Promise<{ order: Order; event: OrderStatusEvent }> {
+    const order = await storage.getOrderById(orderId);
+    if (!order) {
+      throw new CustomError('Order not found', 404);
+    }
+
+    const fromStatus = normalizeOrderStatus(order.status);
+    const allowed = this.allowedTransitions(order);
+    if (!canTransitionOrder(fromStatus, toStatus) || !allowed.includes(toStatus)) {
+      throw new InvalidOrderTransitionError(fromStatus, toStatus, allowed);
+    }
+
+    // Compare against the stored value so legacy statuses still match
+    const updated = await storage.transitionOrderStatus(
+      orderId,
+      order.status,
+      toStatus,
+      {
+        ...(toStatus === 'shipped' && options.trackingNumber ? { trackingNumber: options.trackingNumber } : {}),
+        ...(toStatus === 'paid' && options.razorpayPaymentId ? { razorpayPaymentId: options.razorpayPaymentId } : {})
+      }
+    );
+    if (!updated) {
+      throw new CustomError('Order status was changed by another request, please retry', 409);
+    }
+
+    const event = await storage.createOrderStatusEvent({
+      orderId,
+      fromStatus,
+      toStatus,
+      actor: options.actor,
+      note: options.note
+    });
+
+    // A cancelled order no longer needs its coupon, so the use goes back to the code
+    if (toStatus === 'cancelled') {
+      try {
+        await discountSystem.releaseOrderDiscount(updated);
+      } catch (error) {
+        console.error('Failed to release discount use for cancelled order:', orderId, error);
+      }
+    }
+
+    // Leaving pending settles the order: paid online, or confirmed for cash on delivery
+    if (fromStatus === 'pending' && toStatus !== 'cancelled') {
+      await taxInvoiceService.issueOnSettlement(orderId);
+    }
+
+    if (options.notifyCustomer !== false) {
+      await this.notifyCustomer(updated, toStatus, options.note);
+    }
+
+    return { order: updated, event };
+  }
+
+  // Start the audit trail with the status the order was created in
+  async recordCreated(order: Order, actor: string): Promise<OrderStatusEvent> {
+    return storage.createOrderStatusEvent({
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: order.status,
+      actor
+    });
+  }
+
+  async getHistory(orderId: number): Promise<OrderStatusEvent[]> {
+    return storage.getOrderStatusHistory(orderId);
+  }
+
+  private async notifyCustomer(order: Order, status: OrderStatus, note?: string) {
+    if (!order.customerEmail) return;
+
+    try {
+      const email = createOrderStatusUpdateEmail(order, status, note);
+      await sendEmail({
+        to: order.customerEmail,
+        from: `"Fusion Forge PCs" <${process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com'}>`,
+        subject: email.subject,
+        html: email.html,
+        text: email.text
+      });
+    } catch (error) {
+      // The transition is already stored; a failed email must not roll it back
+      console.error('Failed to send order status email:', order.id, error);
+    }
+  }
+}
+
+export const orderLifecycleService = new OrderLifecycleService();
@@ -0,0 +1,157 @@
+import { storage } from '../storage/index';
+import { CustomError } from '../middleware/error-handler';
+import { stockReservationService } from './stock-reservation';
+import { orderLifecycleService } from './order-lifecycle';
+import { taxInvoiceService } from './tax-invoice';
+import { sendAutomatedReceipt, type ReceiptData } from './receipt-generator';
+import type { Order } from '../../shared/schema';
+
+// The fields of a Razorpay payment entity that settling an order relies on
+export interface CapturedPayment {
+  id: string;
+  order_id: string;
+  amount: number; // paise
+  currency: string;
+  created_at?: number; // unix seconds
+}
+
+class OrderPaymentService {
+  // The order checkout created for a Razorpay order; payments for any other order are ignored
+  async findOrderForPayment(razorpayOrderId?: string): Promise<Order | undefined> {
+    if (!razorpayOrderId) return undefined;
+
+    const order = await storage.getOrderByRazorpayOrderId(razorpayOrderId);
+    return order?.paymentMethod === 'online_payment' ? order : undefined;
+  }
+
+  // A payment only settles the order it was raised for at that order's stored total; a short or
+  // foreign-currency payment is left pending for someone to look at
+  paymentCoversOrder(payment: CapturedPayment, order: Order): boolean {
+    const expectedAmount = Math.round(order.total * 100);
+    if (payment.currency === 'INR' && payment.amount === expectedAmount) return true;
+
+    console.error('Payment amount does not match order total:', {
+      orderId: order.id,
+      paymentId: payment.id,
+      expectedAmount,
+      amount: payment.amount,
+      currency: payment.currency
+    });
+    return false;
+  }
+
+  // Mark an online order paid for its captured payment. Checkout's verify call and the payment webhook
+  // both land here, so whichever arrives second finds the order already settled and does nothing
+  async settle(order: Order, payment: CapturedPayment, note: string): Promise<Order | undefined> {
+    if (!this.paymentCoversOrder(payment, order)) return undefined;
+
+    await this.commitStock(payment.order_id, order.id);
+    if (order.status !== 'pending') return undefined;
+
+    let paid: Order;
+    try {
+      ({ order: paid } = await orderLifecycleService.transition(order.id, 'paid', {
+        actor: 'razorpay',
+        note,
+        razorpayPaymentId: payment.id
+      }));
+    } catch (error) {
+      // The other settlement path won the race
+      if (error instanceof CustomError && error.statusCode === 409) return undefined;
+      throw error;
+    }
+
+    await this.sendReceipt(paid, payment);
+    return paid;
+  }
+
+  // Decrement stock held for a Razorpay order; repeated calls are no-ops
+  async commitStock(razorpayOrderId?: string, orderId?: number) {
+    if (!razorpayOrderId) return;
+
+    try {
+      await stockReservationService.commit(razorpayOrderId, orderId);
+    } catch (error) {
+      console.error('Failed to commit stock reservation:', razorpayOrderId, error);
+    }
+  }
+
+  private async sendReceipt(order: Order, payment: CapturedPayment): Promise<boolean> {
+    try {
+      let orderItems: any[] = [];
+      try {
+        orderItems = JSON.parse(order.items);
+      } catch (error) {
+        orderItems = [];
+      }
+
+      // Fetch components for each build in the order
+      const items = await Promise.all(orderItems.map(async (item: any) => {
+        let components: any[] = [];
+        if (item.build?.id) {
+          try {
+            components = await storage.getComponentsByBuildId(item.build.id);
+          } catch (error) {
+            console.error('Failed to fetch build components for receipt:', error);
+          }
+        }
+        return {
+          quantity: item.quantity,
+          build: {
+            id: item.build?.id || 0,
+            name: item.build?.name || 'Custom build',
+            category: item.build?.category || 'custom',
+            price: String(item.build?.price ?? item.build?.totalPrice ?? ''),
+            hsnCode: item.build?.hsnCode,
+            components: components.map(component => ({
+              id: component.id,
+              name: component.name,
+              type: component.type,
+              specification: component.specification,
+              price: parseFloat(component.price)
+            }))
+          }
+        };
+      }));
+
+      const receiptData: ReceiptData = {
+        orderNumber: order.orderNumber,
+        paymentId: payment.id,
+        orderId: payment.order_id,
+        customerName: order.customerName || 'Customer',
+        customerEmail: order.customerEmail || '',
+        customerPhone: 'N/A',
+        amount: order.total,
+        paymentMethod: 'online_payment',
+        paymentStatus: 'completed',
+        items,
+        shippingAddress: order.shippingAddress || 'N/A',
+        transactionDate: new Date(payment.created_at ? payment.created_at * 1000 : Date.now()).toLocaleString('en-IN', {
+          day: '2-digit',
+          month: '2-digit',
+          year: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+          timeZone: 'Asia/Kolkata'
+        }),
+        companyDetails: {
+          name: 'Fusion Forge PCs',
+          address: process.env.BUSINESS_ADDRESS || '58,Post Office Street , Palladam , TamilNadu , India',
+          phone: process.env.BUSINESS_PHONE || '+91 9363599577',
+          email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
+          website: 'www.fusionforge.com',
+          gst: process.env.BUSINESS_GST
+        },
+        invoice: await taxInvoiceService.issueOnSettlement(order.id)
+      };
+
+      return await sendAutomatedReceipt(receiptData);
+
+    } catch (error) {
+      console.error('Critical receipt generation failure:', error);
+      return false;
+    }
+  }
+}
+
+export const orderPaymentService = new OrderPaymentService();
@@ -0,0 +1,138 @@
+import { storage } from '../storage/index';
+import { discountSystem, type DiscountApplication } from './discount-system';
+import { CustomError } from '../middleware/error-handler';
+import { DEFAULT_PC_HSN_CODE } from '../../shared/gst';
+
+export const GST_RATE = 0.18;
+export const SHIPPING_FEE = 1500;
+export const FREE_SHIPPING_THRESHOLD = 50000;
+
+export interface CheckoutItemInput {
+  buildId: number;
+  quantity: number;
+}
+
+export interface PricedLineItem {
+  buildId: number;
+  name: string;
+  category: string;
+  hsnCode: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface CheckoutQuote {
+  items: PricedLineItem[];
+  subtotal: number;
+  discount: DiscountApplication | null;
+  discountAmount: number;
+  taxableAmount: number;
+  gstAmount: number;
+  shippingAmount: number;
+  total: number;
+}
+
+// Raised when the total a client shows the customer no longer matches server pricing
+export class PriceMismatchError extends CustomError {
+  readonly code = 'PRICE_MISMATCH';
+
+  constructor(public expectedTotal: number, public receivedTotal: number, public quote: CheckoutQuote) {
+    super('Order total does not match current pricing', 409);
+  }
+
+  toResponse() {
+    return {
+      error: this.message,
+      code: this.code,
+      expectedTotal: this.expectedTotal,
+      receivedTotal: this.receivedTotal,
+      quote: this.quote
+    };
+  }
+}
+
+// Look up every cart line in storage so prices never come from the client
+export async function priceCartItems(items: CheckoutItemInput[]): Promise<PricedLineItem[]> {
+  const priced: PricedLineItem[] = [];
+
+  for (const item of items) {
+    const build = await storage.getPcBuildById(item.buildId);
+    if (!build || build.isActive === false) {
+      throw new CustomError(`PC build ${item.buildId} is not available`, 400);
+    }
+
+    const unitPrice = Number(build.totalPrice) || 0;
+    priced.push({
+      buildId: build.id,
+      name: build.name,
+      category: build.category,
+      hsnCode: build.hsnCode || DEFAULT_PC_HSN_CODE,
+      unitPrice,
+      quantity: item.quantity,
+      lineTotal: unitPrice * item.quantity
+    });
+  }
+
+  return priced;
+}
+
+// Build the full checkout breakdown, optionally applying a discount code
+export async function calculateCheckoutQuote(
+  items: CheckoutItemInput[],
+  options: { discountCode?: string; userId?: string } = {}
+): Promise<CheckoutQuote> {
+  if (items.length === 0) {
+    throw new CustomError('Cart is empty', 400);
+  }
+
+  const pricedItems = await priceCartItems(items);
+  const subtotal = pricedItems.reduce((sum, item) => sum + item.lineTotal, 0);
+
+  let discount: DiscountApplication | null = null;
+  if (options.discountCode) {
+    const application = await discountSystem.applyDiscountCode(
+      options.discountCode,
+      options.userId || 'guest',
+      pricedItems.map(item => ({
+        id: item.buildId,
+        name: item.name,
+        category: item.category,
+        price: item.unitPrice,
+        quantity: item.quantity
+      }))
+    );
+
+    if ('error' in application) {
+      throw new CustomError(application.error, 400);
+    }
+    discount = application;
+  }
+
+  // Free shipping codes waive the shipping fee rather than reducing item prices
+  const waivesShipping = discount?.discountType === 'free_shipping';
+  const discountAmount = discount && !waivesShipping
+    ? Math.round(Math.min(discount.discountAmount, subtotal))
+    : 0;
+  const taxableAmount = subtotal - discountAmount;
+  const gstAmount = Math.round(taxableAmount * GST_RATE);
+  const shippingAmount = waivesShipping || taxableAmount >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_FEE;
+
+  return {
+    items: pricedItems,
+    subtotal,
+    discount,
+    discountAmount,
+    taxableAmount,
+    gstAmount,
+    shippingAmount,
+    total: taxableAmount + gstAmount + shippingAmount
+  };
+}
+
+// Reject orders placed against a stale or tampered client-side total
+export function assertClientTotal(quote: CheckoutQuote, clientTotal: number): void {
+  if (Math.round(clientTotal) !== quote.total) {
+    throw new PriceMismatchError(quote.total, clientTotal, quote);
+  }
+}
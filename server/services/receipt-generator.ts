@@ -1,5 +1,7 @@
 import { sendEmail } from "../email-service";
 import { generateFusionForgeReceiptHTML } from "./fusionforge-receipt-template";
+import { GST_RATE } from "./order-pricing";
+import type { TaxInvoice } from "../../shared/schema";
 
 export interface ReceiptData {
   orderNumber: string;
@@ -17,6 +19,7 @@ export interface ReceiptData {
       name: string;
       category: string;
       price: string;
+      hsnCode?: string;
       components?: Array<{
         id: number;
         name: string;
@@ -38,6 +41,44 @@ export interface ReceiptData {
     website: string;
     gst?: string;
   };
+  invoice?: TaxInvoice; // GST tax invoice issued for the order, when one exists
+}
+
+export interface ReceiptTaxSummary {
+  invoiceNumber?: string;
+  customerGstin?: string;
+  taxableValue: number;
+  taxRows: Array<{ label: string; amount: number }>;
+  total: number;
+}
+
+// Tax rows shown on receipts: taken from the tax invoice, or backed out of the GST-inclusive amount paid
+export function getReceiptTaxSummary(receiptData: ReceiptData): ReceiptTaxSummary {
+  const invoice = receiptData.invoice;
+  if (!invoice) {
+    const taxableValue = Math.round((receiptData.amount / (1 + GST_RATE)) * 100) / 100;
+    return {
+      taxableValue,
+      taxRows: [{ label: `GST (${GST_RATE * 100}%)`, amount: Math.round((receiptData.amount - taxableValue) * 100) / 100 }],
+      total: receiptData.amount
+    };
+  }
+
+  const rate = invoice.lines[0]?.gstRate ?? GST_RATE * 100;
+  const taxRows = invoice.supplyType === 'intra_state'
+    ? [
+        { label: `CGST (${rate / 2}%)`, amount: invoice.cgst },
+        { label: `SGST (${rate / 2}%)`, amount: invoice.sgst }
+      ]
+    : [{ label: `IGST (${rate}%)`, amount: invoice.igst }];
+
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    customerGstin: invoice.recipient.gstin,
+    taxableValue: invoice.taxableValue,
+    taxRows,
+    total: invoice.grandTotal
+  };
 }
 
 export function generateReceiptHTML(receiptData: ReceiptData): string {
@@ -58,6 +99,7 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
       <tr style="border-bottom: 1px solid #e5e7eb;">
         <td style="padding: 15px 0; color: #374151; font-weight: 500;">
           <div style="font-weight: 600; color: #1f2937; margin-bottom: 8px;">${item.build.name}</div>
+          ${item.build.hsnCode ? `<div style="font-size: 12px; color: #6b7280; margin-bottom: 4px;">HSN: ${item.build.hsnCode}</div>` : ''}
           ${componentsHtml}
         </td>
         <td style="padding: 15px 0; text-align: center; color: #6b7280;">${item.quantity}</td>
@@ -67,9 +109,12 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
     `;
   }).join('');
 
-  const subtotal = receiptData.amount;
-  const gstAmount = Math.round(subtotal * 0.18); // 18% GST
-  const totalWithGST = subtotal + gstAmount;
+  const taxSummary = getReceiptTaxSummary(receiptData);
+  const taxRowsHtml = taxSummary.taxRows.map(row => `
+          <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
+            <span style="color: #64748b;">${row.label}:</span>
+            <span style="color: #1f2937; font-weight: 500;">₹${row.amount.toLocaleString('en-IN')}</span>
+          </div>`).join('');
 
   return `
 <!DOCTYPE html>
@@ -101,7 +146,7 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
             <p style="margin: 5px 0; color: #64748b;">Phone: ${receiptData.companyDetails.phone}</p>
             <p style="margin: 5px 0; color: #64748b;">Email: ${receiptData.companyDetails.email}</p>
             <p style="margin: 5px 0; color: #64748b;">Website: ${receiptData.companyDetails.website}</p>
-            ${receiptData.companyDetails.gst ? `<p style="margin: 5px 0; color: #64748b;">GST: ${receiptData.companyDetails.gst}</p>` : ''}
+            ${receiptData.companyDetails.gst ? `<p style="margin: 5px 0; color: #64748b;">GSTIN: ${receiptData.companyDetails.gst}</p>` : ''}
           </div>
         </div>
         
@@ -112,6 +157,7 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
             <p style="margin: 5px 0; color: #a16207;">Email: ${receiptData.customerEmail}</p>
             <p style="margin: 5px 0; color: #a16207;">Phone: ${receiptData.customerPhone}</p>
             <p style="margin: 5px 0; color: #a16207; line-height: 1.5;">Address: ${receiptData.shippingAddress}</p>
+            ${taxSummary.customerGstin ? `<p style="margin: 5px 0; color: #a16207;">GSTIN: ${taxSummary.customerGstin}</p>` : ''}
           </div>
         </div>
       </div>
@@ -123,6 +169,11 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
             <p style="margin: 0; color: #1e40af; font-weight: bold;">Receipt Number:</p>
             <p style="margin: 5px 0 0 0; color: #1e3a8a; font-family: monospace; font-size: 16px;">${receiptData.orderNumber}</p>
           </div>
+          ${taxSummary.invoiceNumber ? `
+          <div>
+            <p style="margin: 0; color: #1e40af; font-weight: bold;">Tax Invoice Number:</p>
+            <p style="margin: 5px 0 0 0; color: #1e3a8a; font-family: monospace; font-size: 16px;">${taxSummary.invoiceNumber}</p>
+          </div>` : ''}
           <div>
             <p style="margin: 0; color: #1e40af; font-weight: bold;">Payment ID:</p>
             <p style="margin: 5px 0 0 0; color: #1e3a8a; font-family: monospace; font-size: 14px;">${receiptData.paymentId}</p>
@@ -163,13 +214,9 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
         <h3 style="color: #1e40af; margin: 0 0 20px 0; font-size: 18px;">Payment Summary:</h3>
         <div style="space-y: 10px;">
           <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
-            <span style="color: #64748b;">Subtotal:</span>
-            <span style="color: #1f2937; font-weight: 500;">₹${subtotal.toLocaleString('en-IN')}</span>
-          </div>
-          <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
-            <span style="color: #64748b;">GST (18%):</span>
-            <span style="color: #1f2937; font-weight: 500;">₹${gstAmount.toLocaleString('en-IN')}</span>
-          </div>
+            <span style="color: #64748b;">Taxable Value:</span>
+            <span style="color: #1f2937; font-weight: 500;">₹${taxSummary.taxableValue.toLocaleString('en-IN')}</span>
+          </div>${taxRowsHtml}
           <div style="display: flex; justify-content: space-between; padding: 15px 0; border-top: 2px solid #1e40af; margin-top: 10px;">
             <span style="color: #1e40af; font-weight: bold; font-size: 18px;">Total Paid:</span>
             <span style="color: #f97316; font-weight: bold; font-size: 20px;">₹${receiptData.amount.toLocaleString('en-IN')}</span>
@@ -219,6 +266,7 @@ export function generateReceiptHTML(receiptData: ReceiptData): string {
 }
 
 export function generateReceiptText(receiptData: ReceiptData): string {
+  const taxSummary = getReceiptTaxSummary(receiptData);
   const itemsList = receiptData.items.map(item => {
     const itemPrice = parseInt(item.build.price) || 0;
     const itemTotal = itemPrice * item.quantity;
@@ -230,7 +278,7 @@ PAYMENT RECEIPT
 ===============
 
 Receipt Number: ${receiptData.orderNumber}
-Payment ID: ${receiptData.paymentId}
+${taxSummary.invoiceNumber ? `Tax Invoice Number: ${taxSummary.invoiceNumber}\n` : ''}Payment ID: ${receiptData.paymentId}
 Transaction Date: ${receiptData.transactionDate}
 Payment Status: ${receiptData.paymentStatus}
 
@@ -245,12 +293,13 @@ ${receiptData.customerName}
 Email: ${receiptData.customerEmail}
 Phone: ${receiptData.customerPhone}
 Address: ${receiptData.shippingAddress}
-
+${taxSummary.customerGstin ? `GSTIN: ${taxSummary.customerGstin}\n` : ''}
 ITEMS PURCHASED:
 ${itemsList}
 
 PAYMENT SUMMARY:
-Subtotal: ₹${receiptData.amount.toLocaleString('en-IN')}
+Taxable Value: ₹${taxSummary.taxableValue.toLocaleString('en-IN')}
+${taxSummary.taxRows.map(row => `${row.label}: ₹${row.amount.toLocaleString('en-IN')}`).join('\n')}
 Payment Method: ${receiptData.paymentMethod.replace('_', ' ')}
 Total Paid: ₹${receiptData.amount.toLocaleString('en-IN')}
 
@@ -288,12 +337,25 @@ export async function sendAutomatedReceipt(receiptData: ReceiptData): Promise<bo
       }
     });
 
+    // The tax invoice travels as a PDF attachment alongside the HTML receipt
+    const attachments = [];
+    if (receiptData.invoice) {
+      try {
+        const { invoicePdfService } = await import('./invoice-pdf');
+        const invoicePdf = await invoicePdfService.getInvoicePdf(receiptData.invoice.orderId);
+        attachments.push({ filename: invoicePdf.filename, content: invoicePdf.content, contentType: 'application/pdf' });
+      } catch (error: any) {
+        console.error('Invoice PDF attachment failed:', error.message);
+      }
+    }
+
     const mailOptions = {
       from: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
       to: receiptData.customerEmail,
       subject: `Receipt #${receiptData.orderNumber} - FusionForge PCs`,
       html: receiptHtml,
-      text: generateReceiptText(receiptData)
+      text: generateReceiptText(receiptData),
+      attachments
     };
 
     const info = await transporter.sendMail(mailOptions);
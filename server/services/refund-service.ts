@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage/index';
+import { razorpayService } from '../payment/razorpay-service';
+import { CustomError } from '../middleware/error-handler';
+import { orderLifecycleService, normalizeOrderStatus } from './order-lifecycle';
+import { sendCreditNote } from './credit-note-generator';
+import { GST_RATE } from './order-pricing';
+import { splitGst, taxInvoiceService } from './tax-invoice';
+import { getFinancialYear } from '../utils/financial-year';
+import { canTransitionOrder, type Order, type OrderRefund, type CreditNote, type OrderStatus } from '../../shared/schema';
+
+export interface RefundRequest {
+  amount?: number; // Defaults to everything still refundable
+  reason?: string;
+  restock?: boolean;
+  restockItems?: { buildId: number; quantity: number }[];
+  actor: string;
+}
+
+// Orders that have taken money and have not already been fully refunded
+const REFUNDABLE_STATUSES: OrderStatus[] = ['paid', 'processing', 'assembled', 'shipped', 'delivered', 'cancelled', 'returned'];
+
+class RefundService {
+  async getRefundableAmount(order: Order): Promise<number> {
+    const refunds = await storage.getOrderRefunds(order.id);
+    const pending = refunds
+      .filter(refund => refund.status === 'pending')
+      .reduce((sum, refund) => sum + refund.amount, 0);
+
+    return Math.max(0, order.total - (order.refundedAmount || 0) - pending);
+  }
+
+  async requestRefund(orderId: number, request: RefundRequest): Promise<OrderRefund> {
+    const order = await storage.getOrderById(orderId);
+    if (!order) {
+      throw new CustomError('Order not found', 404);
+    }
+    if (!order.razorpayPaymentId) {
+      throw new CustomError('Order has no captured online payment to refund', 400);
+    }
+    if (!REFUNDABLE_STATUSES.includes(normalizeOrderStatus(order.status))) {
+      throw new CustomError(`Orders in ${order.status} status cannot be refunded`, 409);
+    }
+
+    const refundable = await this.getRefundableAmount(order);
+    const amount = request.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new CustomError(`Refund amount must be between 1 and ${refundable}`, 400);
+    }
+
+    const orderItems = this.getOrderItems(order);
+    const restockItems = request.restock ? request.restockItems ?? orderItems : [];
+    for (const item of restockItems) {
+      const ordered = orderItems.find(line => line.buildId === item.buildId);
+      if (!ordered || item.quantity > ordered.quantity) {
+        throw new CustomError(`Cannot restock more of build ${item.buildId} than was ordered`, 400);
+      }
+    }
+
+    // Claim the amount before asking Razorpay, so concurrent requests cannot refund the same balance twice
+    const claim = await storage.claimOrderRefund({
+      id: `claim_${randomUUID()}`,
+      orderId: order.id,
+      paymentId: order.razorpayPaymentId,
+      amount,
+      status: 'pending',
+      reason: request.reason,
+      restockItems,
+      requestedBy: request.actor
+    }, order.total);
+    if (!claim) {
+      throw new CustomError('Another refund for this order is already in progress; reload and try again', 409);
+    }
+
+    let razorpayRefund;
+    try {
+      razorpayRefund = await razorpayService.refundPayment(order.razorpayPaymentId, amount, {
+        orderId: String(order.id),
+        orderNumber: order.orderNumber,
+        claimId: claim.id
+      });
+    } catch (error) {
+      await storage.transitionOrderRefund(claim.id, 'failed', { failureReason: 'Refund request to Razorpay failed' });
+      throw error;
+    }
+
+    // A webhook that beat this response has already moved the claim to the Razorpay id
+    const refund = (await storage.rekeyOrderRefund(claim.id, razorpayRefund.id))
+      || (await storage.getOrderRefund(razorpayRefund.id))
+      || { ...claim, id: razorpayRefund.id };
+    await storage.updateOrderRefundStatus(order.id, 'pending');
+
+    // Instant refunds come back already processed and will not necessarily get a webhook first
+    if (razorpayRefund.status === 'processed') {
+      return (await this.markProcessed(refund.id, request.actor)) || refund;
+    }
+    if (razorpayRefund.status === 'failed') {
+      return (await this.markFailed(refund.id, 'Refund rejected by Razorpay')) || refund;
+    }
+    return refund;
+  }
+
+  // Settle a refund once Razorpay confirms it; safe to call repeatedly for the same refund
+  async markProcessed(refundId: string, actor: string = 'razorpay'): Promise<OrderRefund | undefined> {
+    const refund = await storage.transitionOrderRefund(refundId, 'processed');
+    if (!refund) return undefined;
+
+    const order = await storage.addOrderRefundedAmount(refund.orderId, refund.amount);
+    if (!order) return refund;
+
+    const fullyRefunded = (order.refundedAmount || 0) >= order.total;
+    await storage.updateOrderRefundStatus(order.id, fullyRefunded ? 'full' : 'partial');
+
+    for (const item of refund.restockItems) {
+      await this.restock(item, refund);
+    }
+
+    const creditNote = await this.issueCreditNote(order, refund);
+
+    if (fullyRefunded && canTransitionOrder(normalizeOrderStatus(order.status), 'refunded')) {
+      try {
+        await orderLifecycleService.transition(order.id, 'refunded', {
+          actor,
+          note: refund.reason || `Refund ${refund.id} processed`
+        });
+      } catch (error) {
+        console.error('Failed to move refunded order to refunded status:', order.id, error);
+      }
+    }
+
+    return { ...refund, creditNoteNumber: creditNote.creditNoteNumber };
+  }
+
+  async markFailed(refundId: string, failureReason: string): Promise<OrderRefund | undefined> {
+    const refund = await storage.transitionOrderRefund(refundId, 'failed', { failureReason });
+    if (!refund) return undefined;
+
+    const order = await storage.getOrderById(refund.orderId);
+    if (order) {
+      const refunds = await storage.getOrderRefunds(order.id);
+      const stillPending = refunds.some(r => r.status === 'pending');
+      const refunded = order.refundedAmount || 0;
+
+      await storage.updateOrderRefundStatus(
+        order.id,
+        stillPending ? 'pending' : refunded >= order.total ? 'full' : refunded > 0 ? 'partial' : 'failed'
+      );
+    }
+
+    return refund;
+  }
+
+  // Webhook entry points; refunds raised outside this service are ignored
+  async handleRefundProcessed(refundEntity: any): Promise<void> {
+    const refund = await this.findRefund(refundEntity);
+    if (!refund) {
+      console.warn('Received refund.processed for unknown refund:', refundEntity.id);
+      return;
+    }
+    await this.markProcessed(refund.id);
+  }
+
+  async handleRefundFailed(refundEntity: any): Promise<void> {
+    const refund = await this.findRefund(refundEntity);
+    if (!refund) {
+      console.warn('Received refund.failed for unknown refund:', refundEntity.id);
+      return;
+    }
+    await this.markFailed(refund.id, refundEntity.error_description || 'Refund failed');
+  }
+
+  // The webhook can arrive before requestRefund has moved its claim to the Razorpay refund id; the
+  // claim id travels in the refund notes, so the webhook moves the claim itself
+  private async findRefund(refundEntity: any): Promise<OrderRefund | undefined> {
+    const refund = await storage.getOrderRefund(refundEntity.id);
+    const claimId = refundEntity.notes?.claimId;
+    if (refund || !claimId) return refund;
+
+    return (await storage.rekeyOrderRefund(claimId, refundEntity.id)) || storage.getOrderRefund(refundEntity.id);
+  }
+
+  async getRefunds(orderId: number): Promise<OrderRefund[]> {
+    return storage.getOrderRefunds(orderId);
+  }
+
+  async getCreditNotes(orderId: number): Promise<CreditNote[]> {
+    return storage.getCreditNotes(orderId);
+  }
+
+  private async issueCreditNote(order: Order, refund: OrderRefund): Promise<CreditNote> {
+    const financialYear = getFinancialYear();
+    const sequence = await storage.getNextSequenceValue(`credit-note-${financialYear}`);
+    const creditNoteNumber = `CN/${financialYear}/${String(sequence).padStart(5, '0')}`;
+
+    // Refunds are GST-inclusive, so split the tax back out of the refunded amount
+    const taxableAmount = Math.round(refund.amount / (1 + GST_RATE));
+    const gstAmount = refund.amount - taxableAmount;
+    const supplyType = await taxInvoiceService.getSupplyType(order);
+
+    const creditNote = await storage.createCreditNote({
+      creditNoteNumber,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      refundId: refund.id,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      reason: refund.reason,
+      taxableAmount,
+      gstAmount,
+      ...splitGst(gstAmount, supplyType),
+      totalAmount: refund.amount
+    });
+    await storage.updateOrderRefund(refund.id, { creditNoteNumber });
+    await sendCreditNote(creditNote);
+
+    return creditNote;
+  }
+
+  private async restock(item: { buildId: number; quantity: number }, refund: OrderRefund) {
+    try {
+      await storage.restockBuild(item.buildId, item.quantity);
+      await storage.createStockMovement({
+        itemId: item.buildId,
+        itemType: 'build',
+        movementType: 'in',
+        quantity: item.quantity,
+        reason: 'Refund restock',
+        referenceId: refund.id,
+        createdBy: refund.requestedBy
+      });
+    } catch (error) {
+      console.error('Failed to restock refunded item:', item.buildId, error);
+    }
+  }
+
+  private getOrderItems(order: Order): { buildId: number; quantity: number }[] {
+    try {
+      const items = JSON.parse(order.items || '[]');
+      return items
+        .filter((item: any) => item.build?.id)
+        .map((item: any) => ({ buildId: item.build.id, quantity: item.quantity || 1 }));
+    } catch (error) {
+      return [];
+    }
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,179 @@
+import { storage } from '../storage/index';
+import { CustomError } from '../middleware/error-handler';
+import { discountSystem } from './discount-system';
+import type { StockReservation } from '../../shared/schema';
+
+// How long a checkout may hold stock before the payment is considered abandoned
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+export interface ReservationItem {
+  buildId: number;
+  quantity: number;
+}
+
+export interface ReservationOptions {
+  ttlMs?: number;
+  discount?: { discountId: string; userId: string }; // code whose use is held alongside the stock
+}
+
+class StockReservationService {
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  // Hold stock for every line of a checkout, and one use of its discount code, refusing the whole cart
+  // if any build is short or the code has no use left
+  async reserve(reservationId: string, items: ReservationItem[], options: ReservationOptions = {}): Promise<StockReservation> {
+    const existing = await storage.getStockReservation(reservationId);
+    if (existing) {
+      if (existing.status === 'released') {
+        throw new CustomError('Checkout has expired, please start again', 409);
+      }
+      return existing;
+    }
+
+    const lines = this.mergeItems(items);
+    const held: ReservationItem[] = [];
+
+    for (const line of lines) {
+      const reserved = await storage.reserveBuildStock(line.buildId, line.quantity);
+      if (!reserved) {
+        // Give back what was already held so a failed checkout never leaks stock
+        for (const heldLine of held) {
+          await storage.releaseBuildStock(heldLine.buildId, heldLine.quantity);
+        }
+        const build = await storage.getPcBuildById(line.buildId);
+        throw new CustomError(`${build?.name || `PC build ${line.buildId}`} is out of stock`, 409);
+      }
+      held.push(line);
+    }
+
+    if (options.discount) {
+      try {
+        await discountSystem.reserveDiscountUsage(options.discount.discountId, options.discount.userId, reservationId);
+      } catch (error) {
+        for (const heldLine of held) {
+          await storage.releaseBuildStock(heldLine.buildId, heldLine.quantity);
+        }
+        throw error;
+      }
+    }
+
+    for (const line of lines) {
+      await this.recordMovement(line, 'reserve', 'Checkout reservation', reservationId);
+    }
+
+    return storage.createStockReservation({
+      id: reservationId,
+      items: lines,
+      discountId: options.discount?.discountId,
+      expiresAt: Date.now() + (options.ttlMs ?? RESERVATION_TTL_MS)
+    });
+  }
+
+  // Turn held stock into a real decrement once payment is captured; a held discount use stays counted
+  async commit(reservationId: string, orderId?: number): Promise<StockReservation | undefined> {
+    const reservation = await storage.transitionStockReservation(reservationId, 'committed', { orderId });
+    if (!reservation) return undefined;
+
+    for (const line of reservation.items) {
+      await storage.commitBuildStock(line.buildId, line.quantity);
+      await this.recordMovement(line, 'out', 'Order payment captured', orderId ? String(orderId) : reservationId);
+    }
+
+    return reservation;
+  }
+
+  // Return held stock to the shelf, and the discount use to its code, when payment fails or the checkout times out
+  async release(reservationId: string, reason: string): Promise<StockReservation | undefined> {
+    const reservation = await storage.transitionStockReservation(reservationId, 'released', { releaseReason: reason });
+    if (!reservation) return undefined;
+
+    for (const line of reservation.items) {
+      await storage.releaseBuildStock(line.buildId, line.quantity);
+      await this.recordMovement(line, 'release', reason, reservationId);
+    }
+
+    if (reservation.discountId) {
+      try {
+        await discountSystem.releaseDiscountUsage(reservation.discountId, reservationId);
+      } catch (error) {
+        console.error('Failed to release held discount use:', reservationId, error);
+      }
+    }
+
+    return reservation;
+  }
+
+  // Reserve and commit in one step for orders that are paid or placed without an online checkout
+  async reserveAndCommit(reservationId: string, items: ReservationItem[], orderId?: number): Promise<StockReservation | undefined> {
+    await this.reserve(reservationId, items);
+    return this.commit(reservationId, orderId);
+  }
+
+  async getReservation(reservationId: string): Promise<StockReservation | undefined> {
+    return storage.getStockReservation(reservationId);
+  }
+
+  async releaseExpired(): Promise<number> {
+    const expired = await storage.getExpiredStockReservations(Date.now());
+    let released = 0;
+
+    for (const reservation of expired) {
+      if (await this.release(reservation.id, 'Checkout payment timed out')) {
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  // Schedule release of reservations whose checkout was abandoned
+  startExpiryMonitor() {
+    if (this.expiryTimer) return;
+
+    // Run every minute
+    this.expiryTimer = setInterval(async () => {
+      try {
+        const released = await this.releaseExpired();
+        if (released > 0) {
+          console.log(`Released ${released} expired stock reservation(s)`);
+        }
+      } catch (error) {
+        console.error('Error releasing expired stock reservations:', error);
+      }
+    }, 60 * 1000);
+
+    console.log('Stock reservation expiry monitor scheduled every minute');
+  }
+
+  private mergeItems(items: ReservationItem[]): ReservationItem[] {
+    const quantities = new Map<number, number>();
+    for (const item of items) {
+      quantities.set(item.buildId, (quantities.get(item.buildId) || 0) + item.quantity);
+    }
+    return Array.from(quantities, ([buildId, quantity]) => ({ buildId, quantity }));
+  }
+
+  private async recordMovement(
+    line: ReservationItem,
+    movementType: 'out' | 'reserve' | 'release',
+    reason: string,
+    referenceId: string
+  ) {
+    try {
+      await storage.createStockMovement({
+        itemId: line.buildId,
+        itemType: 'build',
+        movementType,
+        quantity: line.quantity,
+        reason,
+        referenceId,
+        createdBy: 'system'
+      });
+    } catch (error) {
+      // The stock counters are already updated; a missing audit row must not undo the checkout
+      console.error('Failed to record stock movement:', error);
+    }
+  }
+}
+
+export const stockReservationService = new StockReservationService();
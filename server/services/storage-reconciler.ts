@@ -0,0 +1,288 @@
+// Keeps Firebase and Prisma in step while DualWriteStorage writes to both: retries queued dual writes and
+// periodically diffs the two stores, repairing drift from the chosen source of truth
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { storage } from '../storage/index';
+import type { IStorage } from '../storage/index';
+import type { MigrationFailure } from '../storage/firebase-prisma-migration';
+import { getStorageConfig, getDualWriteBackends, type DualWriteBackends } from '../storage/storage-factory';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { DUAL_WRITE_ENTITIES } from '../../shared/schema';
+import type { DualWriteEntity, StorageBackend, SyncOutboxEntry } from '../../shared/schema';
+
+export type SourceOfTruth = StorageBackend | 'primary'; // 'primary': whichever store the entity is read from
+
+export interface OutboxRunResult {
+  processed: number;
+  synced: number;
+  failed: number;
+  dead: number;
+}
+
+export interface EntityDrift {
+  entity: DualWriteEntity;
+  sourceOfTruth: StorageBackend;
+  driftCount: number;
+  driftedKeys: string[];
+  invalid: MigrationFailure[]; // records that cannot be represented in Prisma; repaired by hand
+  repaired: number;
+  repairFailures: MigrationFailure[];
+}
+
+export interface ReconcileRun {
+  repair: boolean;
+  startedAt: number;
+  finishedAt: number;
+  entities: EntityDrift[];
+  errors: MigrationFailure[]; // entities that could not be compared at all
+}
+
+export interface OutboxReportEntry extends SyncOutboxEntry {
+  store: StorageBackend; // where the entry is queued, i.e. the store that has the write
+}
+
+export interface ConsistencyReport {
+  dualWrite: boolean;
+  sourceOfTruth: SourceOfTruth;
+  primary: Record<DualWriteEntity, StorageBackend>;
+  outbox: { pending: number; dead: number; entries: OutboxReportEntry[] };
+  lastReconcile: ReconcileRun | null;
+  consistent: boolean; // nothing queued and nothing left unrepaired by the last run
+}
+
+export interface ReconcileOptions {
+  repair?: boolean;
+  sourceOfTruth?: SourceOfTruth;
+  entities?: DualWriteEntity[];
+}
+
+const RECONCILE_LOCK = 'storage-reconcile';
+const RECONCILE_LOCK_TTL_MS = 30 * 60 * 1000;
+const OUTBOX_INTERVAL_MS = 60 * 1000;
+const RECONCILE_INTERVAL_MS = Number(process.env.STORAGE_RECONCILE_INTERVAL_MINUTES || 60) * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 100;
+const MAX_OUTBOX_ATTEMPTS = 10;
+const OUTBOX_BACKOFF_BASE_MS = 30 * 1000;
+const OUTBOX_BACKOFF_MAX_MS = 60 * 60 * 1000;
+// Large drift usually means a misconfigured switch, so a run repairs in slices rather than rewriting a store
+const MAX_REPAIRS_PER_ENTITY = 500;
+const MAX_REPORTED_KEYS = 50;
+
+const SOURCE_OF_TRUTH: SourceOfTruth =
+  process.env.STORAGE_SOURCE_OF_TRUTH === 'firebase' || process.env.STORAGE_SOURCE_OF_TRUTH === 'prisma'
+    ? process.env.STORAGE_SOURCE_OF_TRUTH
+    : 'primary';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function otherStore(backend: StorageBackend): StorageBackend {
+  return backend === 'prisma' ? 'firebase' : 'prisma';
+}
+
+class StorageReconciler {
+  private outboxTimer: NodeJS.Timeout | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private drainingOutbox = false;
+  // Kept by the instance that ran it; POST /api/admin/storage/reconcile refreshes it on demand
+  private lastRun: ReconcileRun | null = null;
+
+  // Retries due outbox entries from both stores; an entry is dropped once the record has been copied
+  async processOutbox(now: number = Date.now()): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { processed: 0, synced: 0, failed: 0, dead: 0 };
+    if (this.drainingOutbox) return result;
+    this.drainingOutbox = true;
+
+    try {
+      for (const [store, outbox] of this.outboxes()) {
+        let due: SyncOutboxEntry[];
+        try {
+          due = (await outbox.getSyncOutboxEntries())
+            .filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)
+            .slice(0, OUTBOX_BATCH_SIZE);
+        } catch (error) {
+          logger.warn(`Sync outbox in ${store} is unavailable: ${errorMessage(error)}`, { context: 'Storage' });
+          continue;
+        }
+
+        for (const entry of due) {
+          result.processed++;
+          try {
+            await this.backends().migration.syncRecord(entry.entity, entry.key, entry.target);
+            await outbox.deleteSyncOutboxEntry(entry.id);
+            result.synced++;
+          } catch (error) {
+            const attempts = entry.attempts + 1;
+            const dead = attempts >= MAX_OUTBOX_ATTEMPTS;
+            const backoff = Math.min(OUTBOX_BACKOFF_BASE_MS * 2 ** (attempts - 1), OUTBOX_BACKOFF_MAX_MS);
+            await outbox.updateSyncOutboxEntry(entry.id, {
+              attempts,
+              lastError: errorMessage(error),
+              status: dead ? 'dead' : 'pending',
+              nextAttemptAt: now + backoff
+            });
+            if (dead) {
+              result.dead++;
+              logger.error(`Gave up syncing ${entry.entity} ${entry.key} to ${entry.target} after ${attempts} attempts`, error, { context: 'Storage' });
+            } else {
+              result.failed++;
+            }
+          }
+        }
+      }
+    } finally {
+      this.drainingOutbox = false;
+    }
+    return result;
+  }
+
+  // Diffs every dual-written entity and, with repair on, copies each drifted record from the source of truth.
+  // Returns undefined when another instance is already reconciling
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconcileRun | undefined> {
+    // Fails before taking the lock when only one store is in use
+    this.backends();
+    const holder = `${hostname()}:${process.pid}:${randomUUID()}`;
+    if (!(await storage.acquireJobLock(RECONCILE_LOCK, holder, RECONCILE_LOCK_TTL_MS))) {
+      return undefined;
+    }
+
+    try {
+      const run = await this.runReconcile(options);
+      this.lastRun = run;
+      return run;
+    } finally {
+      await storage.releaseJobLock(RECONCILE_LOCK, holder).catch(error => {
+        logger.error('Failed to release the storage reconcile lock', error, { context: 'Storage' });
+      });
+    }
+  }
+
+  async getConsistencyReport(): Promise<ConsistencyReport> {
+    const config = getStorageConfig();
+    const entries: OutboxReportEntry[] = [];
+    for (const [store, outbox] of this.outboxes()) {
+      try {
+        (await outbox.getSyncOutboxEntries()).forEach(entry => entries.push({ ...entry, store }));
+      } catch (error) {
+        logger.warn(`Sync outbox in ${store} is unavailable: ${errorMessage(error)}`, { context: 'Storage' });
+      }
+    }
+
+    const drifted = this.lastRun?.entities.some(entity =>
+      entity.driftCount > entity.repaired || entity.invalid.length > 0
+    );
+    return {
+      dualWrite: config.dualWrite,
+      sourceOfTruth: SOURCE_OF_TRUTH,
+      primary: config.primary,
+      outbox: {
+        pending: entries.filter(entry => entry.status === 'pending').length,
+        dead: entries.filter(entry => entry.status === 'dead').length,
+        entries
+      },
+      lastReconcile: this.lastRun,
+      consistent: entries.length === 0 && !drifted && (this.lastRun?.errors.length ?? 0) === 0
+    };
+  }
+
+  // Only runs while dual-write is on; with a single store there is nothing to keep in step
+  startReconciler(): void {
+    if (this.outboxTimer || !getStorageConfig().dualWrite) return;
+
+    this.outboxTimer = setInterval(() => {
+      this.processOutbox()
+        .then(result => {
+          if (result.processed > 0) {
+            logger.info(`Sync outbox: ${result.synced} synced, ${result.failed} retrying, ${result.dead} given up`, { context: 'Storage' });
+          }
+        })
+        .catch(error => logger.error('Error processing the sync outbox', error, { context: 'Storage' }));
+    }, OUTBOX_INTERVAL_MS);
+
+    this.reconcileTimer = setInterval(() => {
+      this.reconcile({ repair: true })
+        .then(run => {
+          if (!run) return;
+          const drift = run.entities.reduce((total, entity) => total + entity.driftCount, 0);
+          if (drift > 0 || run.errors.length > 0) {
+            logger.warn(`Storage reconcile found ${drift} drifted records and ${run.errors.length} failed entities`, { context: 'Storage' });
+          }
+        })
+        .catch(error => logger.error('Error reconciling storage', error, { context: 'Storage' }));
+    }, RECONCILE_INTERVAL_MS);
+
+    logger.info(`Storage reconciler started; source of truth: ${SOURCE_OF_TRUTH}`, { context: 'Storage' });
+  }
+
+  private async runReconcile(options: ReconcileOptions): Promise<ReconcileRun> {
+    const repair = options.repair ?? false;
+    const run: ReconcileRun = { repair, startedAt: Date.now(), finishedAt: 0, entities: [], errors: [] };
+    const { primary } = getStorageConfig();
+
+    for (const entity of options.entities || DUAL_WRITE_ENTITIES) {
+      const truth = options.sourceOfTruth || SOURCE_OF_TRUTH;
+      const sourceOfTruth = truth === 'primary' ? primary[entity] : truth;
+      try {
+        const { keys, invalid } = await this.backends().migration.diffKeys(entity);
+        const drift: EntityDrift = {
+          entity,
+          sourceOfTruth,
+          driftCount: keys.length,
+          driftedKeys: keys.slice(0, MAX_REPORTED_KEYS),
+          invalid,
+          repaired: 0,
+          repairFailures: []
+        };
+
+        if (repair) {
+          for (const key of keys.slice(0, MAX_REPAIRS_PER_ENTITY)) {
+            try {
+              await this.backends().migration.syncRecord(entity, key, otherStore(sourceOfTruth));
+              drift.repaired++;
+            } catch (error) {
+              drift.repairFailures.push({ key, error: errorMessage(error) });
+            }
+          }
+          const unsettled = [...keys.slice(MAX_REPAIRS_PER_ENTITY), ...drift.repairFailures.map(failure => failure.key)];
+          await this.clearSettledOutboxEntries(entity, new Set(unsettled), run.startedAt);
+        }
+        run.entities.push(drift);
+      } catch (error) {
+        logger.error(`Could not reconcile ${entity}`, error, { context: 'Storage' });
+        run.errors.push({ key: entity, error: errorMessage(error) });
+      }
+    }
+
+    run.finishedAt = Date.now();
+    return run;
+  }
+
+  // After a repair pass the stores agree on every record except the failed ones, so older entries are moot
+  private async clearSettledOutboxEntries(entity: DualWriteEntity, unsettled: Set<string>, since: number): Promise<void> {
+    for (const [, outbox] of this.outboxes()) {
+      const entries = await outbox.getSyncOutboxEntries().catch(() => []);
+      for (const entry of entries) {
+        if (entry.entity !== entity || unsettled.has(entry.key) || entry.updatedAt >= since) continue;
+        await outbox.deleteSyncOutboxEntry(entry.id);
+      }
+    }
+  }
+
+  // The factory only loads both stores when they are in use together
+  private backends(): DualWriteBackends {
+    const backends = getDualWriteBackends();
+    if (!backends) {
+      throw new CustomError('Reconciling needs both Firebase and Prisma; set STORAGE_DUAL_WRITE=true', 409);
+    }
+    return backends;
+  }
+
+  private outboxes(): Array<[StorageBackend, IStorage]> {
+    const backends = getDualWriteBackends();
+    return backends ? [['firebase', backends.firebase], ['prisma', backends.prisma]] : [];
+  }
+}
+
+export const storageReconciler = new StorageReconciler();
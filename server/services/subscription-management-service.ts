@@ -1,24 +1,27 @@
-import { firebaseRealtimeStorage as storage } from '../firebase-realtime-storage';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { storage } from '../storage/index';
 import { razorpayService } from '../payment/razorpay-service';
 import { sendEmail } from '../email-service';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
 import type { 
   Subscription, 
   InsertSubscription, 
   SubscriptionOrder, 
   InsertSubscriptionOrder,
+  SubscriptionBillingAttempt,
+  SubscriptionAdjustment,
+  SubscriptionChange,
+  SubscriptionChangePreview,
+  InsertSubscriptionPlan,
+  SubscriptionPlan,
+  SubscriptionPlanTerms,
+  SubscriptionPlanUpdate,
+  SubscriptionPlanVersion,
   PcBuild 
 } from '../../shared/schema';
 
-interface SubscriptionPlan {
-  id: string;
-  name: string;
-  billingCycle: 'monthly' | 'quarterly' | 'yearly';
-  discountPercentage: number;
-  description: string;
-  minimumItems: number;
-  features: string[];
-}
-
 interface CreateSubscriptionRequest {
   userId: string;
   planId: string;
@@ -32,6 +35,41 @@ interface CreateSubscriptionRequest {
   }>;
 }
 
+interface SubscriptionPricing {
+  planVersion: number;
+  basePrice: number;
+  discountAmount: number;
+  finalPrice: number;
+  discountPercentage: number;
+  itemBreakdown: Array<{
+    buildId: number;
+    buildName: string;
+    category: string;
+    unitPrice: number;
+    quantity: number;
+    totalPrice: number;
+  }>;
+}
+
+interface BillingResult {
+  success: boolean;
+  orderId?: string;
+  paymentId?: string;
+  error?: string;
+  retrying?: boolean; // a charge for this period is awaiting payment or its dunning retry
+  awaitingPayment?: boolean; // a payment link was sent; the payment_link.paid webhook settles it
+}
+
+interface BillingRunResult {
+  processed: number;
+  successful: number;
+  failed: number;
+  retried: number;
+  awaitingPayment: number;
+  skipped?: boolean; // another run held the billing lock
+  errors: Array<{ subscriptionId: string; error: string }>;
+}
+
 interface SubscriptionAnalytics {
   totalSubscriptions: number;
   activeSubscriptions: number;
@@ -46,119 +84,237 @@ interface SubscriptionAnalytics {
   }>;
 }
 
+// Version 1 of each of these matches the terms subscriptions were sold on before plans were stored
+const DEFAULT_PLANS: InsertSubscriptionPlan[] = [
+  {
+    id: 'monthly_standard',
+    name: 'Monthly Standard',
+    billingCycle: 'monthly',
+    discountPercentage: 0,
+    description: 'Monthly delivery with standard pricing',
+    minimumItems: 1,
+    features: [
+      'Monthly PC delivery',
+      'Standard customer support',
+      'Flexible cancellation',
+      'Component upgrades available'
+    ],
+    priceRules: {}
+  },
+  {
+    id: 'monthly_premium',
+    name: 'Monthly Premium',
+    billingCycle: 'monthly',
+    discountPercentage: 5,
+    description: 'Monthly delivery with 5% discount',
+    minimumItems: 2,
+    features: [
+      'Monthly PC delivery',
+      'Priority customer support',
+      '5% discount on all orders',
+      'Free component upgrades',
+      'Express shipping included'
+    ],
+    priceRules: {}
+  },
+  {
+    id: 'quarterly_business',
+    name: 'Quarterly Business',
+    billingCycle: 'quarterly',
+    discountPercentage: 10,
+    description: 'Quarterly delivery for businesses with 10% discount',
+    minimumItems: 3,
+    features: [
+      'Quarterly PC delivery',
+      'Dedicated account manager',
+      '10% discount on all orders',
+      'Bulk pricing advantages',
+      'Custom configuration support',
+      'Extended warranty included'
+    ],
+    priceRules: {}
+  },
+  {
+    id: 'yearly_enterprise',
+    name: 'Yearly Enterprise',
+    billingCycle: 'yearly',
+    discountPercentage: 15,
+    description: 'Annual delivery for enterprises with maximum savings',
+    minimumItems: 5,
+    features: [
+      'Annual PC delivery',
+      '24/7 enterprise support',
+      '15% discount on all orders',
+      'Custom hardware sourcing',
+      'White-glove deployment service',
+      'Multi-year warranty',
+      'Volume licensing included'
+    ],
+    priceRules: {}
+  }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after the first failed charge on which it is retried, e.g. SUBSCRIPTION_DUNNING_DAYS=1,3,7
+function parseDunningSchedule(value: string | undefined): number[] {
+  const days = (value || '').split(',').map(Number).filter(day => Number.isFinite(day) && day > 0);
+  return days.length > 0 ? days.sort((a, b) => a - b) : [1, 3, 7];
+}
+
+const DUNNING_SCHEDULE_DAYS = parseDunningSchedule(process.env.SUBSCRIPTION_DUNNING_DAYS);
+
+// Where a subscription ends up once every retry has failed
+const DUNNING_FINAL_STATUS: 'paused' | 'expired' =
+  process.env.SUBSCRIPTION_DUNNING_FINAL_STATUS === 'expired' ? 'expired' : 'paused';
+
+// The payment link sent for a charge expires after this, and the charge then counts as failed and goes on
+// to the dunning schedule
+const CHARGE_CONFIRMATION_TIMEOUT_MS = 2 * DAY_MS;
+
+// One billing run at a time across all app instances; the TTL frees the lock if an instance dies mid-run
+const BILLING_LOCK = 'subscription-billing';
+const BILLING_LOCK_TTL_MS = 60 * 60 * 1000;
+const BILLING_INTERVAL_MS = DAY_MS;
+const BILLING_STARTUP_DELAY_MS = 5 * 60 * 1000;
+
+const TERM_FIELDS: Array<keyof SubscriptionPlanTerms> = [
+  'name', 'description', 'billingCycle', 'discountPercentage', 'minimumItems', 'features', 'priceRules'
+];
+
+// The customer confirmed a different amount than the change now comes to, e.g. after a day rolled over
+export class SubscriptionChangeMismatchError extends CustomError {
+  readonly code = 'PRORATION_CHANGED';
+
+  constructor(public expectedAdjustment: number, public preview: SubscriptionChangePreview) {
+    super('The price of this change has been updated, please review it again', 409);
+  }
+
+  toResponse() {
+    return {
+      error: this.message,
+      code: this.code,
+      expectedAdjustment: this.expectedAdjustment,
+      preview: this.preview
+    };
+  }
+}
+
+const sumAdjustments = (adjustments: SubscriptionAdjustment[] = []) =>
+  adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
 class SubscriptionManagementService {
-  private subscriptionPlans: Map<string, SubscriptionPlan> = new Map();
-
-  constructor() {
-    this.initializeSubscriptionPlans();
-  }
-
-  // Initialize default subscription plans
-  private initializeSubscriptionPlans() {
-    const plans: SubscriptionPlan[] = [
-      {
-        id: 'monthly_standard',
-        name: 'Monthly Standard',
-        billingCycle: 'monthly',
-        discountPercentage: 0,
-        description: 'Monthly delivery with standard pricing',
-        minimumItems: 1,
-        features: [
-          'Monthly PC delivery',
-          'Standard customer support',
-          'Flexible cancellation',
-          'Component upgrades available'
-        ]
-      },
-      {
-        id: 'monthly_premium',
-        name: 'Monthly Premium',
-        billingCycle: 'monthly',
-        discountPercentage: 5,
-        description: 'Monthly delivery with 5% discount',
-        minimumItems: 2,
-        features: [
-          'Monthly PC delivery',
-          'Priority customer support',
-          '5% discount on all orders',
-          'Free component upgrades',
-          'Express shipping included'
-        ]
-      },
-      {
-        id: 'quarterly_business',
-        name: 'Quarterly Business',
-        billingCycle: 'quarterly',
-        discountPercentage: 10,
-        description: 'Quarterly delivery for businesses with 10% discount',
-        minimumItems: 3,
-        features: [
-          'Quarterly PC delivery',
-          'Dedicated account manager',
-          '10% discount on all orders',
-          'Bulk pricing advantages',
-          'Custom configuration support',
-          'Extended warranty included'
-        ]
-      },
-      {
-        id: 'yearly_enterprise',
-        name: 'Yearly Enterprise',
-        billingCycle: 'yearly',
-        discountPercentage: 15,
-        description: 'Annual delivery for enterprises with maximum savings',
-        minimumItems: 5,
-        features: [
-          'Annual PC delivery',
-          '24/7 enterprise support',
-          '15% discount on all orders',
-          'Custom hardware sourcing',
-          'White-glove deployment service',
-          'Multi-year warranty',
-          'Volume licensing included'
-        ]
-      }
-    ];
+  private seeding: Promise<void> | null = null;
+  private billingTimer?: NodeJS.Timeout;
+
+  // Seed the original plans the first time storage has none
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seedDefaults().catch(error => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
 
-    plans.forEach(plan => {
-      this.subscriptionPlans.set(plan.id, plan);
-    });
+  private async seedDefaults(): Promise<void> {
+    const existing = await storage.getSubscriptionPlans();
+    if (existing.length > 0) return;
+
+    for (const plan of DEFAULT_PLANS) {
+      await storage.createSubscriptionPlan(plan, 'system');
+    }
+    logger.info(`Seeded ${DEFAULT_PLANS.length} subscription plans`);
+  }
+
+  // Plans open to new subscribers
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    return (await this.listPlans()).filter(plan => plan.status === 'active');
+  }
+
+  // Every plan, including retired ones, for the admin panel
+  async listPlans(): Promise<SubscriptionPlan[]> {
+    await this.ensureSeeded();
+    return storage.getSubscriptionPlans();
+  }
+
+  async getSubscriptionPlan(planId: string): Promise<SubscriptionPlan | undefined> {
+    await this.ensureSeeded();
+    return storage.getSubscriptionPlan(planId);
+  }
+
+  async createPlan(plan: InsertSubscriptionPlan, actor: string): Promise<SubscriptionPlan> {
+    await this.ensureSeeded();
+    const created = await storage.createSubscriptionPlan(plan, actor);
+    if (!created) throw new CustomError(`A plan with id ${plan.id} already exists`, 409);
+    logger.info(`Subscription plan ${plan.id} created by ${actor}`);
+    return created;
+  }
+
+  // Changing any term publishes a new version; subscribers on older versions are not affected
+  async updatePlan(planId: string, updates: SubscriptionPlanUpdate, actor: string): Promise<SubscriptionPlan> {
+    const current = await this.getSubscriptionPlan(planId);
+    if (!current) throw new CustomError('Subscription plan not found', 404);
+
+    const changed = TERM_FIELDS.some(field =>
+      updates[field] !== undefined && JSON.stringify(updates[field]) !== JSON.stringify(current[field])
+    );
+    if (!changed) return current;
+
+    const updated = await storage.updateSubscriptionPlan(planId, updates, actor);
+    if (!updated) throw new CustomError('Subscription plan not found', 404);
+    logger.info(`Subscription plan ${planId} updated to version ${updated.version} by ${actor}`);
+    return updated;
+  }
+
+  async retirePlan(planId: string, actor: string): Promise<SubscriptionPlan> {
+    const plan = await storage.setSubscriptionPlanStatus(planId, 'retired');
+    if (!plan) throw new CustomError('Subscription plan not found', 404);
+    logger.info(`Subscription plan ${planId} retired by ${actor}`);
+    return plan;
+  }
+
+  async restorePlan(planId: string, actor: string): Promise<SubscriptionPlan> {
+    const plan = await storage.setSubscriptionPlanStatus(planId, 'active');
+    if (!plan) throw new CustomError('Subscription plan not found', 404);
+    logger.info(`Subscription plan ${planId} restored by ${actor}`);
+    return plan;
   }
 
-  // Get all available subscription plans
-  getSubscriptionPlans(): SubscriptionPlan[] {
-    return Array.from(this.subscriptionPlans.values());
+  async getPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]> {
+    if (!(await this.getSubscriptionPlan(planId))) throw new CustomError('Subscription plan not found', 404);
+    return storage.getSubscriptionPlanVersions(planId);
   }
 
-  // Get specific subscription plan
-  getSubscriptionPlan(planId: string): SubscriptionPlan | undefined {
-    return this.subscriptionPlans.get(planId);
+  // The terms a subscription was sold on, whatever has happened to the plan since
+  async getSubscriptionTerms(subscription: Subscription): Promise<SubscriptionPlanVersion | undefined> {
+    await this.ensureSeeded();
+    return storage.getSubscriptionPlanVersion(subscription.planId, subscription.planVersion ?? 1);
   }
 
-  // Calculate subscription pricing with discounts
+  // Calculate subscription pricing with discounts; null when the plan does not exist
   async calculateSubscriptionPricing(
     planId: string, 
     items: Array<{ buildId: number; quantity: number }>
-  ): Promise<{
-    basePrice: number;
-    discountAmount: number;
-    finalPrice: number;
-    discountPercentage: number;
-    itemBreakdown: Array<{
-      buildId: number;
-      buildName: string;
-      unitPrice: number;
-      quantity: number;
-      totalPrice: number;
-    }>;
-  } | null> {
-    const plan = this.subscriptionPlans.get(planId);
+  ): Promise<SubscriptionPricing | null> {
+    const plan = await this.getSubscriptionPlan(planId);
     if (!plan) return null;
+    if (plan.status === 'retired') {
+      throw new CustomError(`${plan.name} is no longer available to new subscribers`, 400);
+    }
 
+    return { planVersion: plan.version, ...(await this.priceItems(plan, items)) };
+  }
+
+  private async priceItems(
+    terms: SubscriptionPlanTerms,
+    items: Array<{ buildId: number; quantity: number }>
+  ): Promise<Omit<SubscriptionPricing, 'planVersion'>> {
     // Validate minimum items requirement
     const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
-    if (totalQuantity < plan.minimumItems) {
-      throw new Error(`Plan requires minimum ${plan.minimumItems} items`);
+    if (totalQuantity < terms.minimumItems) {
+      throw new CustomError(`Plan requires minimum ${terms.minimumItems} items`, 400);
     }
 
     let basePrice = 0;
@@ -168,7 +324,7 @@ class SubscriptionManagementService {
     for (const item of items) {
       const build = await storage.getPcBuildById(item.buildId);
       if (!build) {
-        throw new Error(`Build with ID ${item.buildId} not found`);
+        throw new CustomError(`Build with ID ${item.buildId} not found`, 400);
       }
 
       const itemTotalPrice = build.totalPrice * item.quantity;
@@ -177,30 +333,37 @@ class SubscriptionManagementService {
       itemBreakdown.push({
         buildId: item.buildId,
         buildName: build.name,
+        category: build.category,
         unitPrice: build.totalPrice,
         quantity: item.quantity,
         totalPrice: itemTotalPrice
       });
     }
 
-    // Apply subscription discount
-    const discountAmount = basePrice * (plan.discountPercentage / 100);
+    const { minimumOrderValue, maximumDiscount } = terms.priceRules;
+    if (minimumOrderValue !== undefined && basePrice < minimumOrderValue) {
+      throw new CustomError(`Plan requires a minimum order of ₹${minimumOrderValue.toLocaleString('en-IN')}`, 400);
+    }
+
+    // Apply subscription discount, capped by the plan's price rules
+    const percentageDiscount = basePrice * (terms.discountPercentage / 100);
+    const discountAmount = maximumDiscount !== undefined ? Math.min(percentageDiscount, maximumDiscount) : percentageDiscount;
     const finalPrice = basePrice - discountAmount;
 
     return {
       basePrice,
       discountAmount,
       finalPrice,
-      discountPercentage: plan.discountPercentage,
+      discountPercentage: terms.discountPercentage,
       itemBreakdown
     };
   }
 
   // Create new subscription
   async createSubscription(request: CreateSubscriptionRequest): Promise<Subscription> {
-    const plan = this.subscriptionPlans.get(request.planId);
+    const plan = await this.getSubscriptionPlan(request.planId);
     if (!plan) {
-      throw new Error('Invalid subscription plan');
+      throw new CustomError('Invalid subscription plan', 400);
     }
 
     // Calculate pricing
@@ -229,6 +392,7 @@ class SubscriptionManagementService {
     const subscriptionData: InsertSubscription = {
       userId: request.userId,
       planId: request.planId,
+      planVersion: pricing.planVersion,
       planName: plan.name,
       status: 'pending',
       billingCycle: plan.billingCycle,
@@ -250,90 +414,441 @@ class SubscriptionManagementService {
     return subscription;
   }
 
-  // Process subscription billing
-  async processSubscriptionBilling(subscriptionId: string): Promise<{
-    success: boolean;
-    orderId?: string;
-    paymentId?: string;
-    error?: string;
-  }> {
-    try {
+  // Price a plan or item change against what is left of the current period. Proration is by whole
+  // days so a preview holds for up to a day after it is shown; the new terms are billed
+  // in full from the next billing date
+  async previewSubscriptionChange(
+    subscription: Subscription,
+    change: SubscriptionChange,
+    now: Date = new Date()
+  ): Promise<SubscriptionChangePreview> {
+    if (subscription.status !== 'active') {
+      throw new CustomError('Only active subscriptions can be changed', 400);
+    }
+    if (!change.planId && !change.items) {
+      throw new CustomError('Choose a new plan or new items', 400);
+    }
+
+    const planChanged = change.planId !== undefined && change.planId !== subscription.planId;
+    const items = change.items || subscription.items.map(item => ({ buildId: item.buildId, quantity: item.quantity }));
+
+    // A new plan is sold on its current terms; staying on the plan keeps the version subscribed to
+    let terms: SubscriptionPlanTerms & { planId: string; version: number };
+    if (planChanged) {
+      const plan = await this.getSubscriptionPlan(change.planId!);
+      if (!plan) throw new CustomError('Invalid subscription plan', 400);
+      if (plan.status === 'retired') {
+        throw new CustomError(`${plan.name} is no longer available to new subscribers`, 400);
+      }
+      terms = { ...plan, planId: plan.id };
+    } else {
+      const version = await this.getSubscriptionTerms(subscription);
+      if (!version) throw new CustomError('Subscription plan terms not found', 404);
+      terms = version;
+    }
+
+    const pricing = await this.priceItems(terms, items);
+
+    const periodStart = new Date(subscription.currentPeriodStart);
+    const periodEnd = new Date(subscription.currentPeriodEnd).getTime();
+    const periodDays = Math.max(1, Math.round((periodEnd - periodStart.getTime()) / DAY_MS));
+    const remainingDays = Math.min(periodDays, Math.max(0, Math.ceil((periodEnd - now.getTime()) / DAY_MS)));
+
+    // A plan on another billing cycle is charged at its own daily rate until the period ends
+    const newCycleDays = terms.billingCycle === subscription.billingCycle
+      ? periodDays
+      : Math.round((this.calculateNextBillingDate(terms.billingCycle, periodStart).getTime() - periodStart.getTime()) / DAY_MS);
+
+    const credit = Math.round(subscription.finalPrice * remainingDays / periodDays);
+    const charge = Math.round(pricing.finalPrice * remainingDays / newCycleDays);
+    const adjustment = charge - credit;
+    const pending = sumAdjustments(subscription.pendingAdjustments);
+
+    return {
+      planId: terms.planId,
+      planName: terms.name,
+      planVersion: terms.version,
+      billingCycle: terms.billingCycle,
+      basePrice: pricing.basePrice,
+      discountPercentage: pricing.discountPercentage,
+      finalPrice: pricing.finalPrice,
+      items: pricing.itemBreakdown.map(({ buildId, buildName, category, quantity, unitPrice }) => ({
+        buildId, buildName, category, quantity, unitPrice
+      })),
+      periodDays,
+      remainingDays,
+      credit,
+      charge,
+      adjustment,
+      nextBillingDate: new Date(subscription.nextBillingDate).getTime(),
+      nextOrderAmount: Math.max(0, pricing.finalPrice + pending + adjustment)
+    };
+  }
+
+  // Apply a previewed change; the prorated difference is added to the next subscription order
+  async changeSubscription(
+    subscriptionId: string,
+    change: SubscriptionChange,
+    expectedAdjustment: number
+  ): Promise<{ subscription: Subscription; preview: SubscriptionChangePreview }> {
+    // Holding the billing lock keeps a billing run from charging the old terms halfway through
+    const result = await this.withBillingLock(async () => {
+      const subscription = await storage.getSubscriptionById(subscriptionId);
+      if (!subscription) throw new CustomError('Subscription not found', 404);
+
+      const now = new Date();
+      const preview = await this.previewSubscriptionChange(subscription, change, now);
+      if (Math.round(expectedAdjustment) !== preview.adjustment) {
+        throw new SubscriptionChangeMismatchError(expectedAdjustment, preview);
+      }
+
+      const pendingAdjustments = [...(subscription.pendingAdjustments || [])];
+      if (preview.adjustment !== 0) {
+        const label = preview.planId !== subscription.planId ? `Change to ${preview.planName}` : 'Change of items';
+        pendingAdjustments.push({
+          id: randomUUID(),
+          description: `${label} with ${preview.remainingDays} of ${preview.periodDays} days left`,
+          amount: preview.adjustment,
+          createdAt: now.getTime()
+        });
+      }
+
+      const updated = await storage.updateSubscriptionBilling(subscriptionId, {
+        planId: preview.planId,
+        planVersion: preview.planVersion,
+        planName: preview.planName,
+        billingCycle: preview.billingCycle,
+        basePrice: preview.basePrice,
+        discountPercentage: preview.discountPercentage,
+        finalPrice: preview.finalPrice,
+        items: preview.items,
+        pendingAdjustments
+      });
+      if (!updated) throw new CustomError('Subscription not found', 404);
+
+      logger.info(`Subscription ${subscriptionId} changed to ${preview.planId} v${preview.planVersion} with adjustment ${preview.adjustment}`);
+      return { subscription: updated, preview };
+    });
+
+    if (!result) throw new CustomError('Billing is in progress for this subscription, please try again shortly', 409);
+    return result;
+  }
+
+  // Bill one subscription for its current period now, e.g. from the admin panel
+  async processSubscriptionBilling(subscriptionId: string): Promise<BillingResult> {
+    const result = await this.withBillingLock(async () => {
       const subscription = await storage.getSubscriptionById(subscriptionId);
       if (!subscription) {
         return { success: false, error: 'Subscription not found' };
       }
+      return this.billSubscription(subscription, new Date());
+    });
+    return result || { success: false, error: 'A billing run is in progress, please try again shortly' };
+  }
 
-      if (subscription.status !== 'active') {
-        return { success: false, error: 'Subscription is not active' };
-      }
+  // Runs fn while holding the billing lock; undefined when another run holds it
+  private async withBillingLock<T>(fn: () => Promise<T>): Promise<T | undefined> {
+    const holder = `${hostname()}:${process.pid}:${randomUUID()}`;
+    if (!(await storage.acquireJobLock(BILLING_LOCK, holder, BILLING_LOCK_TTL_MS))) {
+      return undefined;
+    }
 
-      // Create Razorpay order for billing
-      const orderData = {
-        amount: subscription.finalPrice,
-        currency: 'INR',
-        receipt: `sub_billing_${subscriptionId}_${Date.now()}`,
+    try {
+      return await fn();
+    } finally {
+      await storage.releaseJobLock(BILLING_LOCK, holder).catch(error => {
+        logger.error('Failed to release the subscription billing lock', error);
+      });
+    }
+  }
+
+  // Billing periods are keyed by due date, so a rerun never charges the same period twice
+  private getBillingPeriod(subscription: Subscription): string {
+    const due = new Date(subscription.nextBillingDate);
+    return `${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private async billSubscription(subscription: Subscription, now: Date): Promise<BillingResult> {
+    if (subscription.status !== 'active') {
+      return { success: false, error: 'Subscription is not active' };
+    }
+
+    const billingPeriod = this.getBillingPeriod(subscription);
+    const existing = (await storage.getSubscriptionOrders(subscription.id))
+      .find(order => order.billingPeriod === billingPeriod && order.status !== 'failed');
+
+    if (existing?.nextRetryAt !== undefined) {
+      return { success: false, orderId: existing.id, error: 'Payment is being retried', retrying: true };
+    }
+    if (existing && existing.status !== 'pending') {
+      // Charged on an earlier run that stopped before the subscription moved to its next period
+      await this.advanceBillingPeriod(subscription, existing, existing.paymentId, now);
+      return { success: true, orderId: existing.id, paymentId: existing.paymentId };
+    }
+
+    const order = existing || await this.createBillingOrder(subscription, billingPeriod, now);
+
+    return this.attemptCharge(subscription, order, now);
+  }
+
+  // Prorated adjustments from mid-cycle changes are billed on this order. Credit beyond the order
+  // total is balanced by a carry-forward line and credited again on the following order
+  private async createBillingOrder(subscription: Subscription, billingPeriod: string, now: Date): Promise<SubscriptionOrder> {
+    const orderNumber = `SUB${now.getTime()}`;
+    const adjustments = [...(subscription.pendingAdjustments || [])];
+    const total = subscription.finalPrice + sumAdjustments(adjustments);
+    if (total < 0) {
+      adjustments.push({
+        id: `carry_${orderNumber}`,
+        description: 'Unused credit carried forward to the next order',
+        amount: -total,
+        createdAt: now.getTime()
+      });
+    }
+
+    return storage.createSubscriptionOrder({
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      orderNumber,
+      status: 'pending',
+      amount: Math.max(0, total),
+      items: JSON.stringify(subscription.items),
+      billingPeriod,
+      ...(adjustments.length > 0 && { adjustments })
+    });
+  }
+
+  // Subscriptions hold no saved payment method, so each charge is collected by a Razorpay payment link
+  // that Razorpay emails to the customer. The order stays pending until the link is paid, or it expires
+  private async attemptCharge(subscription: Subscription, order: SubscriptionOrder, now: Date): Promise<BillingResult> {
+    const previousAttempts = order.attempts || [];
+    const attempt: SubscriptionBillingAttempt = {
+      attempt: previousAttempts.length + 1,
+      attemptedAt: now.getTime(),
+      success: false
+    };
+
+    if (order.amount <= 0) {
+      // Fully covered by credit; there is nothing to collect
+      attempt.success = true;
+      return this.recordPaidCharge(subscription, order, [...previousAttempts, attempt], now);
+    }
+
+    try {
+      const paymentLink = await razorpayService.createPaymentLink({
+        amount: order.amount,
+        referenceId: `${order.orderNumber}_${attempt.attempt}`,
+        description: `${subscription.planName} subscription, ${order.billingPeriod}`,
+        expireBy: new Date(now.getTime() + CHARGE_CONFIRMATION_TIMEOUT_MS),
+        customer: { name: subscription.customerName, email: subscription.customerEmail },
         notes: {
-          subscriptionId: subscriptionId,
-          billingCycle: subscription.billingCycle,
-          customerEmail: subscription.customerEmail
+          subscriptionId: subscription.id,
+          subscriptionOrderId: order.id,
+          billingCycle: subscription.billingCycle
         }
-      };
+      });
+      attempt.paymentLinkId = paymentLink.id;
+    } catch (error: any) {
+      attempt.error = error.message || 'Payment failed';
+      return this.recordFailedCharge(subscription, order, [...previousAttempts, attempt]);
+    }
 
-      const razorpayOrder = await razorpayService.createOrder(orderData);
-
-      // Create subscription order record
-      const subscriptionOrder: InsertSubscriptionOrder = {
-        subscriptionId: subscriptionId,
-        userId: subscription.userId,
-        orderNumber: `SUB${Date.now()}`,
-        status: 'pending',
-        amount: subscription.finalPrice,
-        items: JSON.stringify(subscription.items),
-        billingPeriod: `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`
-      };
+    await storage.updateSubscriptionOrderBilling(order.id, {
+      attempts: [...previousAttempts, attempt],
+      nextRetryAt: now.getTime() + CHARGE_CONFIRMATION_TIMEOUT_MS
+    });
+    return { success: true, orderId: order.id, awaitingPayment: true };
+  }
 
-      const order = await storage.createSubscriptionOrder(subscriptionOrder);
+  // payment_link.paid and payment_link.expired webhooks for a link sent by attemptCharge
+  async handleChargePaid(paymentLinkId: string, paymentId: string): Promise<boolean> {
+    const charge = await this.findAwaitingCharge(paymentLinkId);
+    if (!charge) {
+      logger.warn(`Payment ${paymentId} for link ${paymentLinkId} does not settle an open subscription charge`);
+      return false;
+    }
 
-      // Update subscription billing information
-      const nextBillingDate = this.calculateNextBillingDate(subscription.billingCycle);
-      // Note: Update subscription next billing date via status change
-      await storage.updateSubscriptionStatus(subscriptionId, 'active');
+    const attempts = charge.order.attempts!.map(attempt =>
+      attempt.paymentLinkId === paymentLinkId ? { ...attempt, success: true, paymentId } : attempt
+    );
+    await this.recordPaidCharge(charge.subscription, charge.order, attempts, new Date());
+    return true;
+  }
 
-      return {
-        success: true,
-        orderId: order.id,
-        paymentId: razorpayOrder.id
-      };
+  async handleChargeFailed(paymentLinkId: string, reason: string): Promise<boolean> {
+    const charge = await this.findAwaitingCharge(paymentLinkId);
+    if (!charge) return false;
 
-    } catch (error: any) {
-      console.error('Subscription billing failed:', error);
-      
-      // Handle failed payment - cancel subscription after multiple failures
-      const subscription = await storage.getSubscriptionById(subscriptionId);
-      if (subscription && subscription.failedPayments >= 2) {
-        await this.cancelSubscription(subscriptionId, 'Too many failed payments');
+    const attempts = charge.order.attempts!.map(attempt =>
+      attempt.paymentLinkId === paymentLinkId ? { ...attempt, error: reason } : attempt
+    );
+    await this.recordFailedCharge(charge.subscription, charge.order, attempts);
+    return true;
+  }
+
+  // The charge is found through the notes its link was sent with, and only while its latest attempt still awaits payment
+  private async findAwaitingCharge(paymentLinkId: string): Promise<{ subscription: Subscription; order: SubscriptionOrder } | undefined> {
+    const paymentLink = await razorpayService.getPaymentLink(paymentLinkId);
+    const { subscriptionId, subscriptionOrderId } = paymentLink?.notes || {};
+    if (!subscriptionId || !subscriptionOrderId) return undefined;
+
+    const subscription = await storage.getSubscriptionById(subscriptionId);
+    const order = (await storage.getSubscriptionOrders(subscriptionId)).find(candidate => candidate.id === subscriptionOrderId);
+    if (!subscription || !order || order.status !== 'pending') return undefined;
+
+    const latest = order.attempts?.[order.attempts.length - 1];
+    if (!latest || latest.paymentLinkId !== paymentLinkId || latest.success || latest.error) return undefined;
+    return { subscription, order };
+  }
+
+  // When the confirmation window closes before Razorpay reports on a link: a link paid in the meantime still
+  // settles its charge, and an unpaid one is cancelled so it cannot be paid after the attempt is given up
+  private async closePaymentLink(paymentLinkId: string): Promise<string | undefined> {
+    try {
+      const paymentLink = await razorpayService.getPaymentLink(paymentLinkId);
+      if (paymentLink.status === 'paid') return paymentLink.payments?.[0]?.payment_id;
+      if (paymentLink.status === 'created') await razorpayService.cancelPaymentLink(paymentLinkId);
+    } catch (error) {
+      logger.warn(`Could not close payment link ${paymentLinkId}: ${error instanceof Error ? error.message : error}`);
+    }
+    return undefined;
+  }
+
+  private async recordPaidCharge(
+    subscription: Subscription,
+    order: SubscriptionOrder,
+    attempts: SubscriptionBillingAttempt[],
+    now: Date
+  ): Promise<BillingResult> {
+    const attempt = attempts[attempts.length - 1];
+    await storage.updateSubscriptionOrderBilling(order.id, {
+      status: 'processing',
+      paymentId: attempt.paymentId,
+      attempts,
+      nextRetryAt: null
+    });
+    const updated = await this.advanceBillingPeriod(subscription, order, attempt.paymentId, now);
+    if (attempt.attempt > 1) {
+      await this.sendDunningEmail(updated, 'recovered', `Your payment of ₹${order.amount.toLocaleString('en-IN')} went through and your subscription is up to date.`);
+    }
+    return { success: true, orderId: order.id, paymentId: attempt.paymentId };
+  }
+
+  // Move the subscription along the dunning schedule after a failed attempt
+  private async recordFailedCharge(
+    subscription: Subscription,
+    order: SubscriptionOrder,
+    attempts: SubscriptionBillingAttempt[]
+  ): Promise<BillingResult> {
+    const attempt = attempts[attempts.length - 1];
+    logger.warn(`Subscription ${subscription.id} charge attempt ${attempt.attempt} failed: ${attempt.error}`);
+    const failedPayments = (subscription.failedPayments || 0) + 1;
+    const retriesUsed = attempts.length - 1;
+
+    if (retriesUsed < DUNNING_SCHEDULE_DAYS.length) {
+      const nextRetryAt = attempts[0].attemptedAt + DUNNING_SCHEDULE_DAYS[retriesUsed] * DAY_MS;
+      await storage.updateSubscriptionOrderBilling(order.id, { attempts, nextRetryAt });
+      await storage.updateSubscriptionBilling(subscription.id, { failedPayments });
+      await this.sendDunningEmail(
+        subscription,
+        'failed',
+        `We couldn't collect ₹${order.amount.toLocaleString('en-IN')} for your subscription. We'll send a new payment link on ${new Date(nextRetryAt).toLocaleDateString('en-IN')}.`
+      );
+      return { success: false, orderId: order.id, error: attempt.error };
+    }
+
+    // Out of retries
+    await storage.updateSubscriptionOrderBilling(order.id, {
+      status: 'failed',
+      attempts,
+      nextRetryAt: null,
+      notes: `Payment failed after ${attempts.length} attempts`
+    });
+    const updated = await storage.updateSubscriptionBilling(subscription.id, { failedPayments, status: DUNNING_FINAL_STATUS });
+    logger.warn(`Subscription ${subscription.id} ${DUNNING_FINAL_STATUS} after ${attempts.length} failed charges`);
+    await this.sendDunningEmail(
+      updated || subscription,
+      'final',
+      `We were unable to collect ₹${order.amount.toLocaleString('en-IN')} after ${attempts.length} attempts, so your subscription has been ${DUNNING_FINAL_STATUS}. Contact us to set it up again.`
+    );
+    return { success: false, orderId: order.id, error: attempt.error };
+  }
+
+  // Retry a charge that is in dunning; a subscription paused or cancelled in the meantime ends it
+  private async retryCharge(order: SubscriptionOrder, now: Date): Promise<BillingResult> {
+    const subscription = await storage.getSubscriptionById(order.subscriptionId);
+    if (!subscription || subscription.status !== 'active') {
+      await storage.updateSubscriptionOrderBilling(order.id, {
+        status: 'failed',
+        nextRetryAt: null,
+        notes: `Retries stopped: subscription is ${subscription?.status || 'missing'}`
+      });
+      return { success: false, orderId: order.id, error: 'Subscription is not active' };
+    }
+
+    // A charge still awaiting payment when its window closes counts as failed; a later attempt may be due already
+    const latest = order.attempts?.[order.attempts.length - 1];
+    if ((latest?.paymentLinkId || latest?.razorpayOrderId) && !latest.success && !latest.error) {
+      const paymentId = latest.paymentLinkId && await this.closePaymentLink(latest.paymentLinkId);
+      if (paymentId) {
+        return this.recordPaidCharge(subscription, order, [...order.attempts!.slice(0, -1), { ...latest, success: true, paymentId }], now);
       }
 
-      return { 
-        success: false, 
-        error: error.message || 'Billing processing failed' 
-      };
+      const attempts = [...order.attempts!.slice(0, -1), { ...latest, error: 'No payment confirmation received' }];
+      const outcome = await this.recordFailedCharge(subscription, order, attempts);
+      const refreshed = (await storage.getSubscriptionOrders(order.subscriptionId)).find(candidate => candidate.id === order.id);
+      if (!refreshed || refreshed.nextRetryAt === undefined || refreshed.nextRetryAt > now.getTime()) return outcome;
+      return this.attemptCharge(subscription, refreshed, now);
+    }
+    return this.attemptCharge(subscription, order, now);
+  }
+
+  private async advanceBillingPeriod(
+    subscription: Subscription,
+    order: SubscriptionOrder,
+    paymentId: string | undefined,
+    now: Date
+  ): Promise<Subscription> {
+    const periodStart = new Date(subscription.nextBillingDate);
+    const nextBillingDate = this.calculateNextBillingDate(subscription.billingCycle, periodStart);
+
+    // Adjustments made after the order was raised, e.g. during dunning, stay for the next one
+    const billed = new Set((order.adjustments || []).map(adjustment => adjustment.id));
+    const pendingAdjustments = (subscription.pendingAdjustments || []).filter(adjustment => !billed.has(adjustment.id));
+    const carried = order.adjustments?.find(adjustment => adjustment.id === `carry_${order.orderNumber}`);
+    if (carried) {
+      pendingAdjustments.push({
+        id: `credit_${order.orderNumber}`,
+        description: `Credit carried forward from order ${order.orderNumber}`,
+        amount: -carried.amount,
+        createdAt: now.getTime()
+      });
     }
+
+    const updated = await storage.updateSubscriptionBilling(subscription.id, {
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: nextBillingDate,
+      nextBillingDate,
+      lastPaymentDate: now,
+      lastPaymentId: paymentId,
+      successfulPayments: (subscription.successfulPayments || 0) + 1,
+      failedPayments: 0,
+      pendingAdjustments
+    });
+    return updated || subscription;
   }
 
   // Calculate next billing date based on cycle
-  private calculateNextBillingDate(billingCycle: 'monthly' | 'quarterly' | 'yearly'): Date {
-    const now = new Date();
-    
+  private calculateNextBillingDate(billingCycle: 'monthly' | 'quarterly' | 'yearly', from: Date = new Date()): Date {
     switch (billingCycle) {
       case 'monthly':
-        return new Date(now.getFullYear(), now.getMonth() + 1, now.getDate());
+        return new Date(from.getFullYear(), from.getMonth() + 1, from.getDate());
       case 'quarterly':
-        return new Date(now.getFullYear(), now.getMonth() + 3, now.getDate());
+        return new Date(from.getFullYear(), from.getMonth() + 3, from.getDate());
       case 'yearly':
-        return new Date(now.getFullYear() + 1, now.getMonth(), now.getDate());
+        return new Date(from.getFullYear() + 1, from.getMonth(), from.getDate());
       default:
-        return new Date(now.getFullYear(), now.getMonth() + 1, now.getDate());
+        return new Date(from.getFullYear(), from.getMonth() + 1, from.getDate());
     }
   }
 
@@ -372,47 +887,68 @@ class SubscriptionManagementService {
     return await storage.getSubscriptionsDueBilling(date);
   }
 
-  // Process all due subscriptions (for automated billing)
-  async processDueSubscriptions(): Promise<{
-    processed: number;
-    successful: number;
-    failed: number;
-    errors: Array<{ subscriptionId: string; error: string }>;
-  }> {
-    const dueSubscriptions = await this.getSubscriptionsDueForBilling();
-    
-    let successful = 0;
-    let failed = 0;
-    const errors: Array<{ subscriptionId: string; error: string }> = [];
-
-    for (const subscription of dueSubscriptions) {
-      try {
-        const result = await this.processSubscriptionBilling(subscription.id);
-        
-        if (result.success) {
-          successful++;
+  // Retry charges whose dunning date has come, then bill subscriptions that are due
+  async processDueSubscriptions(now: Date = new Date()): Promise<BillingRunResult> {
+    const result = await this.withBillingLock(async () => {
+      const run: BillingRunResult = { processed: 0, successful: 0, failed: 0, retried: 0, awaitingPayment: 0, errors: [] };
+      const record = (subscriptionId: string, outcome: BillingResult) => {
+        run.processed++;
+        if (outcome.awaitingPayment) {
+          run.awaitingPayment++;
+        } else if (outcome.success) {
+          run.successful++;
         } else {
-          failed++;
-          errors.push({
-            subscriptionId: subscription.id,
-            error: result.error || 'Unknown error'
-          });
+          run.failed++;
+          run.errors.push({ subscriptionId, error: outcome.error || 'Unknown error' });
+        }
+      };
+
+      for (const order of await storage.getSubscriptionOrdersAwaitingRetry(now.getTime())) {
+        try {
+          run.retried++;
+          record(order.subscriptionId, await this.retryCharge(order, now));
+        } catch (error: any) {
+          record(order.subscriptionId, { success: false, error: error.message || 'Retry failed' });
         }
-      } catch (error: any) {
-        failed++;
-        errors.push({
-          subscriptionId: subscription.id,
-          error: error.message || 'Processing failed'
-        });
       }
-    }
 
-    return {
-      processed: dueSubscriptions.length,
-      successful,
-      failed,
-      errors
+      for (const subscription of await this.getSubscriptionsDueForBilling(now)) {
+        try {
+          const outcome = await this.billSubscription(subscription, now);
+          // Subscriptions already in dunning are handled by their retry schedule
+          if (outcome.retrying) continue;
+          record(subscription.id, outcome);
+        } catch (error: any) {
+          record(subscription.id, { success: false, error: error.message || 'Processing failed' });
+        }
+      }
+
+      return run;
+    });
+
+    return result || { processed: 0, successful: 0, failed: 0, retried: 0, awaitingPayment: 0, skipped: true, errors: [] };
+  }
+
+  // Bill once a day. Runs are idempotent and hold the billing lock, so every app instance can run the scheduler
+  startBillingScheduler() {
+    if (this.billingTimer) return;
+
+    const run = async () => {
+      try {
+        const result = await this.processDueSubscriptions();
+        if (result.skipped) {
+          logger.info('Subscription billing skipped; another run holds the lock');
+        } else if (result.processed > 0) {
+          logger.info(`Subscription billing run: ${result.awaitingPayment} payment links sent, ${result.successful} settled, ${result.failed} failed, ${result.retried} retries`);
+        }
+      } catch (error) {
+        logger.error('Error running subscription billing', error);
+      }
     };
+
+    setTimeout(run, BILLING_STARTUP_DELAY_MS);
+    this.billingTimer = setInterval(run, BILLING_INTERVAL_MS);
+    logger.info(`Subscription billing scheduled daily; failed charges retried after ${DUNNING_SCHEDULE_DAYS.join('/')} days`);
   }
 
   // Get subscription analytics
@@ -551,12 +1087,41 @@ class SubscriptionManagementService {
     }
   }
 
-  private generateSubscriptionEmailHTML(subscription: Subscription, type: 'confirmation' | 'cancellation' | 'paused' | 'resumed'): string {
+  private async sendDunningEmail(subscription: Subscription, step: 'failed' | 'recovered' | 'final', message: string): Promise<void> {
+    const subject = {
+      failed: `Payment Failed - ${subscription.planName}`,
+      recovered: `Payment Received - ${subscription.planName}`,
+      final: `Subscription ${DUNNING_FINAL_STATUS === 'paused' ? 'Paused' : 'Ended'} - ${subscription.planName}`
+    }[step];
+
+    const emailData = {
+      to: subscription.customerEmail,
+      from: process.env.BUSINESS_EMAIL || 'noreply@fusionforgepc.com',
+      subject,
+      html: this.generateSubscriptionEmailHTML(subscription, step === 'recovered' ? 'payment_recovered' : 'payment_failed', message),
+      text: message
+    };
+
+    try {
+      await sendEmail(emailData);
+      console.log(`Subscription payment ${step} email sent to: ${subscription.customerEmail}`);
+    } catch (error) {
+      console.error(`Failed to send subscription payment ${step} email:`, error);
+    }
+  }
+
+  private generateSubscriptionEmailHTML(
+    subscription: Subscription,
+    type: 'confirmation' | 'cancellation' | 'paused' | 'resumed' | 'payment_failed' | 'payment_recovered',
+    message?: string
+  ): string {
     const headerText = {
       confirmation: '🎉 Subscription Confirmed!',
       cancellation: '❌ Subscription Cancelled',
       paused: '⏸️ Subscription Paused',
-      resumed: '▶️ Subscription Resumed'
+      resumed: '▶️ Subscription Resumed',
+      payment_failed: '⚠️ Payment Failed',
+      payment_recovered: '✅ Payment Received'
     }[type];
 
     const itemsHTML = subscription.items.map(item => `
@@ -576,6 +1141,7 @@ class SubscriptionManagementService {
         
         <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
           <h2 style="color: #1e3a8a; margin-top: 0;">${headerText}</h2>
+          ${message ? `<p>${message}</p>` : ''}
           <p><strong>Plan:</strong> ${subscription.planName}</p>
           <p><strong>Billing Cycle:</strong> ${subscription.billingCycle}</p>
           <p><strong>Amount:</strong> ₹${subscription.finalPrice.toLocaleString('en-IN')}</p>
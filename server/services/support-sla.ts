@@ -0,0 +1,288 @@
+// SLA targets for support tickets and the monitor that warns about and escalates missed deadlines
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { storage } from '../storage/index';
+import { sendEmail } from '../email-service';
+import { CustomError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { SUPPORT_TICKET_PRIORITIES } from '../../shared/schema';
+import type {
+  InsertSupportSlaPolicy,
+  SupportSlaPolicy,
+  SupportTicket,
+  SupportTicketPriority,
+  SupportTicketSla
+} from '../../shared/schema';
+
+export interface SlaSummary {
+  atRisk: number;
+  firstResponseBreaches: number;
+  resolutionBreaches: number;
+  openBreached: number;
+}
+
+type SlaTarget = 'firstResponse' | 'resolution';
+
+// A ticket is at risk once this share of its window is left
+const AT_RISK_FRACTION = 0.25;
+const MONITOR_INTERVAL_MS = 60 * 1000;
+// One instance checks at a time; the lock outlives a tick so a crashed holder only delays a few checks
+const MONITOR_LOCK = 'support-sla-monitor';
+const MONITOR_LOCK_TTL_MS = 5 * 60 * 1000;
+
+// Matches the response times promised in the ticket confirmation email
+const DEFAULT_POLICIES: InsertSupportSlaPolicy[] = [
+  { name: 'Urgent', category: 'any', priority: 'urgent', firstResponseMinutes: 60, resolutionMinutes: 8 * 60, isActive: true },
+  { name: 'High', category: 'any', priority: 'high', firstResponseMinutes: 4 * 60, resolutionMinutes: 24 * 60, isActive: true },
+  { name: 'Medium', category: 'any', priority: 'medium', firstResponseMinutes: 24 * 60, resolutionMinutes: 72 * 60, isActive: true },
+  { name: 'Low', category: 'any', priority: 'low', firstResponseMinutes: 48 * 60, resolutionMinutes: 120 * 60, isActive: true }
+];
+
+function isOpen(ticket: SupportTicket): boolean {
+  return ticket.status === 'open' || ticket.status === 'in_progress' || ticket.status === 'waiting_customer';
+}
+
+function nextPriority(priority: SupportTicketPriority): SupportTicketPriority {
+  const index = SUPPORT_TICKET_PRIORITIES.indexOf(priority);
+  return SUPPORT_TICKET_PRIORITIES[Math.min(index + 1, SUPPORT_TICKET_PRIORITIES.length - 1)];
+}
+
+class SupportSlaService {
+  private seeding: Promise<void> | null = null;
+  private monitorTimer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  // Seed one policy per priority the first time storage has none
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seedDefaults().catch(error => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private async seedDefaults(): Promise<void> {
+    const existing = await storage.getSupportSlaPolicies();
+    if (existing.length > 0) return;
+
+    for (const policy of DEFAULT_POLICIES) {
+      await storage.createSupportSlaPolicy(policy);
+    }
+    logger.info(`Seeded ${DEFAULT_POLICIES.length} support SLA policies`);
+  }
+
+  async listPolicies(): Promise<SupportSlaPolicy[]> {
+    await this.ensureSeeded();
+    return storage.getSupportSlaPolicies();
+  }
+
+  async createPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy> {
+    this.assertTargets(policy.firstResponseMinutes, policy.resolutionMinutes);
+    await this.ensureSeeded();
+    return storage.createSupportSlaPolicy(policy);
+  }
+
+  async updatePolicy(id: string, updates: Partial<InsertSupportSlaPolicy>): Promise<SupportSlaPolicy> {
+    const current = (await this.listPolicies()).find(policy => policy.id === id);
+    if (!current) throw new CustomError('SLA policy not found', 404);
+    this.assertTargets(
+      updates.firstResponseMinutes ?? current.firstResponseMinutes,
+      updates.resolutionMinutes ?? current.resolutionMinutes
+    );
+
+    const updated = await storage.updateSupportSlaPolicy(id, updates);
+    if (!updated) throw new CustomError('SLA policy not found', 404);
+    return updated;
+  }
+
+  async deletePolicy(id: string): Promise<void> {
+    const deleted = await storage.deleteSupportSlaPolicy(id);
+    if (!deleted) throw new CustomError('SLA policy not found', 404);
+  }
+
+  private assertTargets(firstResponseMinutes: number, resolutionMinutes: number) {
+    if (resolutionMinutes < firstResponseMinutes) {
+      throw new CustomError('Resolution target cannot be shorter than the first response target', 400);
+    }
+  }
+
+  // A policy for the ticket's own category wins over a catch-all one
+  async findPolicy(ticket: Pick<SupportTicket, 'category' | 'priority'>): Promise<SupportSlaPolicy | undefined> {
+    const policies = (await this.listPolicies()).filter(policy => policy.isActive && policy.priority === ticket.priority);
+    return policies.find(policy => policy.category === ticket.category)
+      || policies.find(policy => policy.category === 'any');
+  }
+
+  // Deadlines run from ticket creation; existing first-response and breach markers are kept
+  async computeSla(ticket: Pick<SupportTicket, 'category' | 'priority' | 'createdAt' | 'sla'>): Promise<SupportTicketSla | undefined> {
+    const policy = await this.findPolicy(ticket);
+    if (!policy) return undefined;
+
+    return {
+      ...ticket.sla,
+      policyId: policy.id,
+      firstResponseDueAt: ticket.createdAt + policy.firstResponseMinutes * 60 * 1000,
+      resolutionDueAt: ticket.createdAt + policy.resolutionMinutes * 60 * 1000,
+      firstResponseAtRiskAt: undefined,
+      resolutionAtRiskAt: undefined
+    };
+  }
+
+  summarize(tickets: SupportTicket[]): SlaSummary {
+    const summary: SlaSummary = { atRisk: 0, firstResponseBreaches: 0, resolutionBreaches: 0, openBreached: 0 };
+
+    for (const ticket of tickets) {
+      const sla = ticket.sla;
+      if (!sla) continue;
+      const breached = Boolean(sla.firstResponseBreachedAt || sla.resolutionBreachedAt);
+
+      if (sla.firstResponseBreachedAt) summary.firstResponseBreaches++;
+      if (sla.resolutionBreachedAt) summary.resolutionBreaches++;
+      if (isOpen(ticket) && breached) summary.openBreached++;
+      if (isOpen(ticket) && !breached && (sla.firstResponseAtRiskAt || sla.resolutionAtRiskAt)) summary.atRisk++;
+    }
+    return summary;
+  }
+
+  // Warn the assignee as a deadline nears; on a breach bump priority and hand over to the on-call agent
+  async checkTickets(now: number = Date.now()): Promise<number> {
+    const tickets = (await storage.getSupportTickets()).filter(isOpen);
+    let changed = 0;
+
+    for (const ticket of tickets) {
+      try {
+        if (await this.checkTicket(ticket, now)) changed++;
+      } catch (error) {
+        logger.error(`SLA check failed for ticket ${ticket.id}`, error);
+      }
+    }
+    return changed;
+  }
+
+  private async checkTicket(ticket: SupportTicket, now: number): Promise<boolean> {
+    // Tickets opened before SLAs existed get deadlines on their first check
+    const sla = ticket.sla || await this.computeSla(ticket);
+    if (!sla) return false;
+
+    const targets: SlaTarget[] = [];
+    if (!sla.firstRespondedAt) targets.push('firstResponse');
+    // Waiting on the customer does not count against the team
+    if (ticket.status !== 'waiting_customer') targets.push('resolution');
+
+    const next: SupportTicketSla = { ...sla };
+    let escalate = false;
+    const warnings: SlaTarget[] = [];
+
+    for (const target of targets) {
+      const dueAt = target === 'firstResponse' ? sla.firstResponseDueAt : sla.resolutionDueAt;
+      const breachedKey = target === 'firstResponse' ? 'firstResponseBreachedAt' : 'resolutionBreachedAt';
+      const atRiskKey = target === 'firstResponse' ? 'firstResponseAtRiskAt' : 'resolutionAtRiskAt';
+      if (sla[breachedKey]) continue;
+
+      if (now > dueAt) {
+        next[breachedKey] = now;
+        escalate = true;
+      } else if (!sla[atRiskKey] && now >= dueAt - (dueAt - ticket.createdAt) * AT_RISK_FRACTION) {
+        next[atRiskKey] = now;
+        warnings.push(target);
+      }
+    }
+
+    if (!escalate && warnings.length === 0 && ticket.sla) return false;
+
+    if (!escalate) {
+      const updated = await storage.updateSupportTicket(ticket.id, { sla: next });
+      for (const target of warnings) {
+        await this.notifyAssignee(updated || ticket, target, 'at_risk');
+      }
+      return true;
+    }
+
+    const onCallAgent = await this.getOnCallAgent(sla.policyId);
+    next.escalatedAt = now;
+    const updated = await storage.updateSupportTicket(ticket.id, {
+      sla: next,
+      priority: nextPriority(ticket.priority),
+      ...(onCallAgent && { assignedAgent: onCallAgent })
+    });
+
+    const breachedTarget: SlaTarget = next.firstResponseBreachedAt && !sla.firstResponseBreachedAt ? 'firstResponse' : 'resolution';
+    logger.warn(`SLA breached on ticket ${ticket.id} (${breachedTarget}); escalated to ${onCallAgent || 'unassigned'}`);
+    await this.notifyAssignee(updated || ticket, breachedTarget, 'breached');
+    return true;
+  }
+
+  private async getOnCallAgent(policyId: string): Promise<string | undefined> {
+    const policy = (await this.listPolicies()).find(candidate => candidate.id === policyId);
+    return policy?.onCallAgent || process.env.SUPPORT_ON_CALL_AGENT || process.env.ADMIN_EMAIL;
+  }
+
+  // Agents are identified by email where possible; ids without one fall back to the on-call address
+  private async notifyAssignee(ticket: SupportTicket, target: SlaTarget, kind: 'at_risk' | 'breached') {
+    const assignee = ticket.assignedAgent?.includes('@')
+      ? ticket.assignedAgent
+      : await this.getOnCallAgent(ticket.sla?.policyId || '');
+    if (!assignee) return;
+
+    const dueAt = target === 'firstResponse' ? ticket.sla?.firstResponseDueAt : ticket.sla?.resolutionDueAt;
+    const goal = target === 'firstResponse' ? 'first response' : 'resolution';
+    const headline = kind === 'breached'
+      ? `The ${goal} target for this ticket was missed. It has been escalated to ${ticket.priority} priority and assigned to you.`
+      : `The ${goal} target for this ticket is approaching.`;
+
+    try {
+      await sendEmail({
+        to: assignee,
+        from: 'support@fusionforgepc.com',
+        subject: `[${kind === 'breached' ? 'SLA breached' : 'SLA at risk'}] ${ticket.id} ${ticket.subject}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: ${kind === 'breached' ? '#dc2626' : '#f59e0b'};">${headline}</h2>
+            <p><strong>Ticket:</strong> ${ticket.id}</p>
+            <p><strong>Subject:</strong> ${ticket.subject}</p>
+            <p><strong>Customer:</strong> ${ticket.userName} (${ticket.userEmail})</p>
+            <p><strong>Category / priority:</strong> ${ticket.category} / ${ticket.priority}</p>
+            ${dueAt ? `<p><strong>Due:</strong> ${new Date(dueAt).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}</p>` : ''}
+          </div>
+        `
+      });
+    } catch (error) {
+      logger.error(`Failed to send SLA notification for ticket ${ticket.id}`, error);
+    }
+  }
+
+  // Check open tickets against their deadlines every minute
+  startMonitor() {
+    if (this.monitorTimer) return;
+
+    this.monitorTimer = setInterval(async () => {
+      // Skip a tick rather than overlap a slow run, here or on another instance
+      if (this.checking) return;
+      this.checking = true;
+      const holder = `${hostname()}:${process.pid}:${randomUUID()}`;
+      try {
+        if (!(await storage.acquireJobLock(MONITOR_LOCK, holder, MONITOR_LOCK_TTL_MS))) return;
+        try {
+          const changed = await this.checkTickets();
+          if (changed > 0) {
+            logger.info(`SLA monitor updated ${changed} ticket(s)`);
+          }
+        } finally {
+          await storage.releaseJobLock(MONITOR_LOCK, holder).catch(error => {
+            logger.error('Failed to release the SLA monitor lock', error);
+          });
+        }
+      } catch (error) {
+        logger.error('Error checking support SLAs', error);
+      } finally {
+        this.checking = false;
+      }
+    }, MONITOR_INTERVAL_MS);
+
+    logger.info('Support SLA monitor scheduled every minute');
+  }
+}
+
+export const supportSlaService = new SupportSlaService();
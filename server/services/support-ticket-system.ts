@@ -1,44 +1,41 @@
-import { firebaseRealtimeStorage as storage } from '../firebase-realtime-storage';
+import { storage } from '../storage/index';
 import { sendEmail } from '../email-service';
-
-interface SupportTicket {
-  id: string;
-  userId: string;
-  userEmail: string;
-  userName: string;
-  subject: string;
-  description: string;
-  category: 'technical' | 'billing' | 'sales' | 'warranty' | 'delivery' | 'general';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'open' | 'in_progress' | 'waiting_customer' | 'resolved' | 'closed';
-  assignedAgent?: string;
-  attachments: Array<{
-    fileName: string;
-    fileUrl: string;
-    fileSize: number;
-    uploadedAt: number;
-  }>;
-  responses: SupportResponse[];
-  tags: string[];
-  createdAt: number;
-  updatedAt: number;
-  resolvedAt?: number;
-  customerSatisfaction?: number;
-  internalNotes?: string;
+import { CustomError } from '../middleware/error-handler';
+import { ticketAttachmentService } from './ticket-attachments';
+import { supportSlaService, type SlaSummary } from './support-sla';
+import { logger } from '../utils/logger';
+import type { AttachmentFile } from './ticket-attachments';
+import type {
+  SupportTicket,
+  SupportTicketAttachment,
+  SupportTicketCategory,
+  SupportTicketPriority,
+  SupportTicketResponse,
+  SupportTicketStatus,
+  SupportTicketUpdate
+} from '../../shared/schema';
+
+export type { SupportTicket, SupportTicketResponse };
+
+export const TICKET_ID_PATTERN = /TKT-\d+-[A-Z0-9]+/i;
+
+// Inbound mail keeps only what the customer wrote above this line
+export const TICKET_REPLY_MARKER = '##- Please type your reply above this line -##';
+
+// support@example.com becomes support+TKT-...@example.com so replies carry the ticket id
+export function getTicketReplyAddress(ticketId: string): string | undefined {
+  const inbound = process.env.SUPPORT_INBOUND_ADDRESS;
+  if (!inbound?.includes('@')) return undefined;
+  const [local, domain] = inbound.split('@');
+  return `${local}+${ticketId}@${domain}`;
 }
 
-interface SupportResponse {
-  id: string;
-  authorId: string;
-  authorType: 'user' | 'admin' | 'system';
-  authorName: string;
-  message: string;
-  timestamp: number;
-  isInternal: boolean;
-  attachments?: Array<{
-    fileName: string;
-    fileUrl: string;
-  }>;
+export interface TicketFilters {
+  status?: SupportTicketStatus;
+  category?: SupportTicketCategory;
+  priority?: SupportTicketPriority;
+  assignedAgent?: string;
+  userId?: string;
 }
 
 interface TicketAnalytics {
@@ -49,6 +46,7 @@ interface TicketAnalytics {
   customerSatisfactionScore: number;
   ticketsByCategory: Record<string, number>;
   ticketsByPriority: Record<string, number>;
+  sla: SlaSummary;
   agentPerformance: Array<{
     agentId: string;
     ticketsHandled: number;
@@ -58,12 +56,10 @@ interface TicketAnalytics {
 }
 
 class SupportTicketSystem {
-  private tickets = new Map<string, SupportTicket>();
   private emailTemplates = new Map<string, string>();
 
   constructor() {
     this.initializeEmailTemplates();
-    this.loadExistingTickets();
   }
 
   // Initialize email templates for different ticket events
@@ -152,40 +148,45 @@ class SupportTicketSystem {
     userName: string;
     subject: string;
     description: string;
-    category: SupportTicket['category'];
-    priority?: SupportTicket['priority'];
-    attachments?: SupportTicket['attachments'];
+    category: SupportTicketCategory;
+    orderId?: number;
+    priority?: SupportTicketPriority;
+    attachments?: SupportTicketAttachment[];
+    sourceMessageId?: string;
+    replyToEmail?: string;
   }): Promise<SupportTicket> {
     const ticketId = `TKT-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
-    
-    const ticket: SupportTicket = {
+    const category = ticketData.category;
+    const priority = ticketData.priority || this.calculatePriority(ticketData.category, ticketData.description);
+
+    const ticket = await storage.createSupportTicket({
       id: ticketId,
       userId: ticketData.userId,
       userEmail: ticketData.userEmail,
       userName: ticketData.userName,
+      orderId: ticketData.orderId,
       subject: ticketData.subject,
       description: ticketData.description,
-      category: ticketData.category,
-      priority: ticketData.priority || this.calculatePriority(ticketData.category, ticketData.description),
+      category,
+      priority,
       status: 'open',
       attachments: ticketData.attachments || [],
-      responses: [],
       tags: this.generateTags(ticketData.subject, ticketData.description),
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    };
-
-    this.tickets.set(ticketId, ticket);
-    
-    // Persist to Firebase
-    await this.persistTicket(ticket);
+      sla: await supportSlaService.computeSla({ category, priority, createdAt: Date.now() }),
+      sourceMessageId: ticketData.sourceMessageId,
+      replyToEmail: ticketData.replyToEmail
+    });
 
     // Send confirmation email
     await this.sendTicketEmail('ticket_created', ticket);
 
     // Auto-assign based on category
-    await this.autoAssignTicket(ticketId);
+    return this.autoAssignTicket(ticket);
+  }
 
+  async getTicket(ticketId: string): Promise<SupportTicket> {
+    const ticket = await storage.getSupportTicket(ticketId);
+    if (!ticket) throw new CustomError('Ticket not found', 404);
     return ticket;
   }
 
@@ -196,44 +197,139 @@ class SupportTicketSystem {
     authorName: string;
     message: string;
     isInternal?: boolean;
-    attachments?: SupportResponse['attachments'];
-  }): Promise<SupportResponse> {
-    const ticket = this.tickets.get(ticketId);
-    if (!ticket) throw new Error('Ticket not found');
+    attachments?: SupportTicketResponse['attachments'];
+    sourceMessageId?: string;
+  }): Promise<SupportTicket> {
+    const ticket = await this.getTicket(ticketId);
+    if (response.authorType === 'user' && ticket.status === 'closed') {
+      throw new CustomError('This ticket is closed. Please open a new ticket.', 409);
+    }
 
-    const supportResponse: SupportResponse = {
-      id: `resp_${Date.now()}`,
+    const supportResponse: SupportTicketResponse = {
+      id: `resp_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
       authorId: response.authorId,
       authorType: response.authorType,
       authorName: response.authorName,
       message: response.message,
       timestamp: Date.now(),
-      isInternal: response.isInternal || false,
-      attachments: response.attachments
+      isInternal: response.authorType === 'admin' && (response.isInternal || false),
+      attachments: response.attachments,
+      sourceMessageId: response.sourceMessageId
     };
 
-    ticket.responses.push(supportResponse);
-    ticket.updatedAt = Date.now();
+    let updated = await storage.addSupportTicketResponse(ticketId, supportResponse);
+    if (!updated) throw new CustomError('Ticket not found', 404);
+
+    // A customer reply puts the ticket back in the queue; a public agent reply waits on the customer
+    const nextStatus = response.authorType === 'user'
+      ? (['waiting_customer', 'resolved'].includes(ticket.status) ? 'in_progress' : undefined)
+      : (!supportResponse.isInternal && ['open', 'in_progress'].includes(ticket.status) ? 'waiting_customer' : undefined);
+
+    // The first public agent reply meets the first-response target
+    const firstResponse = response.authorType === 'admin' && !supportResponse.isInternal
+      && ticket.sla && !ticket.sla.firstRespondedAt;
+
+    if (nextStatus || firstResponse) {
+      updated = await storage.updateSupportTicket(ticketId, {
+        ...(nextStatus && { status: nextStatus }),
+        ...(firstResponse && { sla: { ...ticket.sla!, firstRespondedAt: supportResponse.timestamp } })
+      }) || updated;
+    }
+
+    // Customers are emailed about agent replies only; internal notes never leave the admin view
+    if (response.authorType === 'admin' && !supportResponse.isInternal) {
+      await this.sendTicketEmail('ticket_response', updated, supportResponse);
+    }
+
+    return updated;
+  }
+
+  // Files go on the ticket itself, or on a new reply when a message is sent with them
+  async addAttachments(ticketId: string, upload: {
+    authorId: string;
+    authorType: 'user' | 'admin';
+    authorName: string;
+    files: AttachmentFile[];
+    message?: string;
+    isInternal?: boolean;
+    sourceMessageId?: string;
+  }): Promise<SupportTicket> {
+    const ticket = await this.getTicket(ticketId);
+    if (upload.authorType === 'user' && ticket.status === 'closed') {
+      throw new CustomError('This ticket is closed. Please open a new ticket.', 409);
+    }
+    // Without a note to hang them on, internal files would land on the customer-visible ticket
+    if (upload.isInternal && !upload.message) {
+      throw new CustomError('Add a note to attach files internally', 400);
+    }
+
+    const attachments = await ticketAttachmentService.storeFiles(ticket, upload.files, upload.authorType);
+    try {
+      if (upload.message) {
+        return await this.addResponse(ticketId, {
+          authorId: upload.authorId,
+          authorType: upload.authorType,
+          authorName: upload.authorName,
+          message: upload.message,
+          isInternal: upload.isInternal,
+          attachments,
+          sourceMessageId: upload.sourceMessageId
+        });
+      }
 
-    // Update status if customer responded
-    if (response.authorType === 'user' && ticket.status === 'waiting_customer') {
-      ticket.status = 'in_progress';
+      const updated = await storage.updateSupportTicket(ticketId, {
+        attachments: [...ticket.attachments, ...attachments]
+      });
+      if (!updated) throw new CustomError('Ticket not found', 404);
+      return updated;
+    } catch (error) {
+      await ticketAttachmentService.discardFiles(ticketId, attachments);
+      throw error;
     }
+  }
 
-    await this.persistTicket(ticket);
+  // Permanently delete a ticket, its thread and every stored attachment
+  async purgeTicket(ticketId: string): Promise<void> {
+    await this.getTicket(ticketId);
+
+    // Files first: if the record delete then fails the purge can simply be retried
+    await ticketAttachmentService.purgeFiles(ticketId);
+    const deleted = await storage.deleteSupportTicket(ticketId);
+    if (!deleted) throw new CustomError('Ticket not found', 404);
+    logger.info(`Support ticket purged: ${ticketId}`);
+  }
 
-    // Send email notification for non-internal responses
-    if (!supportResponse.isInternal) {
-      await this.sendTicketEmail('ticket_response', ticket, supportResponse);
+  // Assignment, priority, category and status changes made by agents
+  async updateTicket(ticketId: string, updates: SupportTicketUpdate): Promise<SupportTicket> {
+    const ticket = await this.getTicket(ticketId);
+    if (updates.status === 'resolved' && ticket.status !== 'resolved') {
+      updates = { ...updates, resolvedAt: Date.now() };
     }
 
-    return supportResponse;
+    // A new category or priority may fall under a different SLA policy
+    if ((updates.category && updates.category !== ticket.category) || (updates.priority && updates.priority !== ticket.priority)) {
+      updates = {
+        ...updates,
+        sla: await supportSlaService.computeSla({
+          category: updates.category || ticket.category,
+          priority: updates.priority || ticket.priority,
+          createdAt: ticket.createdAt,
+          sla: ticket.sla
+        })
+      };
+    }
+
+    const updated = await storage.updateSupportTicket(ticketId, updates);
+    if (!updated) throw new CustomError('Ticket not found', 404);
+    return updated;
   }
 
   // Resolve ticket
-  async resolveTicket(ticketId: string, resolutionMessage: string, agentId: string): Promise<void> {
-    const ticket = this.tickets.get(ticketId);
-    if (!ticket) throw new Error('Ticket not found');
+  async resolveTicket(ticketId: string, resolutionMessage: string, agentId: string): Promise<SupportTicket> {
+    const ticket = await this.getTicket(ticketId);
+    if (ticket.status === 'resolved' || ticket.status === 'closed') {
+      throw new CustomError(`Ticket is already ${ticket.status}`, 409);
+    }
 
     // Add resolution response
     await this.addResponse(ticketId, {
@@ -244,12 +340,18 @@ class SupportTicketSystem {
       isInternal: false
     });
 
-    ticket.status = 'resolved';
-    ticket.resolvedAt = Date.now();
-    ticket.updatedAt = Date.now();
+    const resolved = await this.updateTicket(ticketId, { status: 'resolved' });
+    await this.sendTicketEmail('ticket_resolved', resolved);
+    return resolved;
+  }
 
-    await this.persistTicket(ticket);
-    await this.sendTicketEmail('ticket_resolved', ticket);
+  // Customers see their thread without internal notes (or their attachments) and agent routing
+  toCustomerView(ticket: SupportTicket): SupportTicket {
+    const { assignedAgent, ...visible } = ticket;
+    return ticketAttachmentService.withDownloadUrls({
+      ...visible,
+      responses: ticket.responses.filter(response => !response.isInternal)
+    });
   }
 
   // Calculate priority based on category and content
@@ -301,10 +403,7 @@ class SupportTicketSystem {
   }
 
   // Auto-assign ticket to appropriate agent
-  private async autoAssignTicket(ticketId: string): Promise<void> {
-    const ticket = this.tickets.get(ticketId);
-    if (!ticket) return;
-
+  private async autoAssignTicket(ticket: SupportTicket): Promise<SupportTicket> {
     // Simple assignment logic (in production, would be more sophisticated)
     const agentAssignments = {
       'technical': 'agent_tech_001',
@@ -315,14 +414,15 @@ class SupportTicketSystem {
       'general': 'agent_support_002'
     };
 
-    ticket.assignedAgent = agentAssignments[ticket.category] || 'agent_support_001';
-    ticket.status = 'in_progress';
-    
-    await this.persistTicket(ticket);
+    const updated = await storage.updateSupportTicket(ticket.id, {
+      assignedAgent: agentAssignments[ticket.category] || 'agent_support_001',
+      status: 'in_progress'
+    });
+    return updated || ticket;
   }
 
   // Send ticket-related emails
-  private async sendTicketEmail(templateType: string, ticket: SupportTicket, response?: SupportResponse): Promise<void> {
+  private async sendTicketEmail(templateType: string, ticket: SupportTicket, response?: SupportTicketResponse): Promise<void> {
     try {
       const template = this.emailTemplates.get(templateType);
       if (!template) return;
@@ -349,11 +449,18 @@ class SupportTicketSystem {
       const feedbackUrl = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/feedback/${ticket.id}`;
       emailContent = emailContent.replace(/{{feedbackUrl}}/g, feedbackUrl);
 
+      // Replies are routed back to the ticket by the id in the subject or reply-to address
+      const replyTo = getTicketReplyAddress(ticket.id);
+      if (replyTo) {
+        emailContent = `<p style="color: #999; font-size: 12px;">${TICKET_REPLY_MARKER}</p>${emailContent}`;
+      }
+
       await sendEmail({
-        to: ticket.userEmail,
+        to: ticket.replyToEmail || ticket.userEmail,
         from: 'support@fusionforgepc.com',
         subject: `[${ticket.id}] ${ticket.subject}`,
-        html: emailContent
+        html: emailContent,
+        replyTo
       });
 
     } catch (error) {
@@ -363,7 +470,7 @@ class SupportTicketSystem {
 
   // Get ticket analytics
   async getTicketAnalytics(): Promise<TicketAnalytics> {
-    const allTickets = Array.from(this.tickets.values());
+    const allTickets = await storage.getSupportTickets();
     const openTickets = allTickets.filter(t => ['open', 'in_progress', 'waiting_customer'].includes(t.status));
     
     // Calculate average response time
@@ -411,6 +518,7 @@ class SupportTicketSystem {
       customerSatisfactionScore: Math.round(averageSatisfaction * 10) / 10,
       ticketsByCategory,
       ticketsByPriority,
+      sla: supportSlaService.summarize(allTickets),
       agentPerformance
     };
   }
@@ -464,55 +572,18 @@ class SupportTicketSystem {
   }
 
   // Get all tickets with filtering
-  getTickets(filters?: {
-    status?: string;
-    category?: string;
-    priority?: string;
-    assignedAgent?: string;
-    userId?: string;
-  }): SupportTicket[] {
-    let tickets = Array.from(this.tickets.values());
+  async getTickets(filters?: TicketFilters): Promise<SupportTicket[]> {
+    let tickets = await storage.getSupportTickets({ userId: filters?.userId });
 
     if (filters) {
       if (filters.status) tickets = tickets.filter(t => t.status === filters.status);
       if (filters.category) tickets = tickets.filter(t => t.category === filters.category);
       if (filters.priority) tickets = tickets.filter(t => t.priority === filters.priority);
       if (filters.assignedAgent) tickets = tickets.filter(t => t.assignedAgent === filters.assignedAgent);
-      if (filters.userId) tickets = tickets.filter(t => t.userId === filters.userId);
     }
 
     return tickets.sort((a, b) => b.updatedAt - a.updatedAt);
   }
-
-  // Persist ticket to storage
-  private async persistTicket(ticket: SupportTicket): Promise<void> {
-    try {
-      // In production, save to Firebase
-      localStorage.setItem(`support_ticket_${ticket.id}`, JSON.stringify(ticket));
-    } catch (error) {
-      console.error('Error persisting ticket:', error);
-    }
-  }
-
-  // Load existing tickets
-  private async loadExistingTickets(): Promise<void> {
-    try {
-      // In production, load from Firebase
-      // For now, use localStorage
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('support_ticket_')) {
-          const ticketData = localStorage.getItem(key);
-          if (ticketData) {
-            const ticket = JSON.parse(ticketData);
-            this.tickets.set(ticket.id, ticket);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error loading tickets:', error);
-    }
-  }
 }
 
 export const supportTicketSystem = new SupportTicketSystem();
\ No newline at end of file
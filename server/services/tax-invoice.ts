@@ -0,0 +1,255 @@
+import { storage } from '../storage/index';
+import { CustomError } from '../middleware/error-handler';
+import { GST_RATE } from './order-pricing';
+import { normalizeOrderStatus } from './order-lifecycle';
+import { getFinancialYear } from '../utils/financial-year';
+import {
+  DEFAULT_PC_HSN_CODE,
+  SHIPPING_SAC_CODE,
+  getIndianState,
+  isValidGstin,
+  normalizeGstin
+} from '../../shared/gst';
+import type { Order, TaxInvoice, TaxInvoiceLine, TaxInvoiceParty, InsertTaxInvoice } from '../../shared/schema';
+
+interface InvoiceItem {
+  description: string;
+  hsnCode: string;
+  quantity: number;
+  lineTotal: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Split an amount across weights, giving the rounding remainder to the last share
+function allocate(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let allocated = 0;
+
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return round2(amount - allocated);
+    const share = totalWeight > 0 ? round2((amount * weight) / totalWeight) : 0;
+    allocated += share;
+    return share;
+  });
+}
+
+// Intra-state tax is shared equally between the centre and the state; any odd paisa goes to SGST
+export function splitGst(tax: number, supplyType: TaxInvoice['supplyType']): { cgst: number; sgst: number; igst: number } {
+  const cgst = supplyType === 'intra_state' ? Math.floor(Math.round(tax * 100) / 2) / 100 : 0;
+  const sgst = supplyType === 'intra_state' ? round2(tax - cgst) : 0;
+  const igst = supplyType === 'inter_state' ? tax : 0;
+  return { cgst, sgst, igst };
+}
+
+class TaxInvoiceService {
+  async getInvoice(orderId: number): Promise<TaxInvoice | undefined> {
+    return storage.getTaxInvoiceByOrderId(orderId);
+  }
+
+  // Invoices are issued once per order; later calls return the same document and number
+  async getOrIssueInvoice(orderId: number): Promise<TaxInvoice> {
+    const existing = await storage.getTaxInvoiceByOrderId(orderId);
+    if (existing) return existing;
+
+    const order = await storage.getOrderById(orderId);
+    if (!order) {
+      throw new CustomError('Order not found', 404);
+    }
+
+    const status = normalizeOrderStatus(order.status);
+    if (status === 'pending' || (status === 'cancelled' && !order.razorpayPaymentId)) {
+      throw new CustomError('Tax invoices are only issued for paid or confirmed orders', 409);
+    }
+    // Online orders only carry a payment id once its signature or the capture webhook has been verified
+    if (order.paymentMethod === 'online_payment' && !order.razorpayPaymentId) {
+      throw new CustomError('Tax invoices are only issued once the online payment has been verified', 409);
+    }
+
+    const supplier = this.getSupplier();
+    const financialYear = getFinancialYear();
+
+    return storage.createTaxInvoice(this.buildInvoice(order, supplier, financialYear), {
+      sequence: `invoice-${financialYear}`,
+      prefix: `FF/${financialYear}/`
+    });
+  }
+
+  // Issued as soon as an order is settled. A failure is logged rather than failing the payment, and
+  // receipts then go out without tax rows
+  async issueOnSettlement(orderId: number): Promise<TaxInvoice | undefined> {
+    try {
+      return await this.getOrIssueInvoice(orderId);
+    } catch (error) {
+      console.error('Failed to issue tax invoice for order:', orderId, error);
+      return undefined;
+    }
+  }
+
+  // Credit notes reverse tax the same way the order's invoice charged it
+  async getSupplyType(order: Order): Promise<TaxInvoice['supplyType']> {
+    const invoice = await storage.getTaxInvoiceByOrderId(order.id);
+    if (invoice) return invoice.supplyType;
+
+    try {
+      return this.getPlaceOfSupply(order, this.getSupplier()).supplyType;
+    } catch (error) {
+      // Without a registered supplier state nothing can be inter-state
+      return 'intra_state';
+    }
+  }
+
+  private getPlaceOfSupply(order: Order, supplier: TaxInvoiceParty) {
+    // Orders placed before states were captured are treated as supplied within the seller's state
+    const placeOfSupply = getIndianState(order.shippingState) || getIndianState(supplier.stateCode)!;
+    const supplyType: TaxInvoice['supplyType'] = placeOfSupply.code === supplier.stateCode ? 'intra_state' : 'inter_state';
+    return { placeOfSupply, supplyType };
+  }
+
+  private getSupplier(): TaxInvoiceParty {
+    const gstin = process.env.BUSINESS_GST ? normalizeGstin(process.env.BUSINESS_GST) : '';
+    if (!isValidGstin(gstin)) {
+      throw new CustomError('BUSINESS_GST must be set to a valid GSTIN before tax invoices can be issued', 500);
+    }
+
+    // The first two digits of a GSTIN are the registered state
+    const state = getIndianState(gstin.slice(0, 2))!;
+    return {
+      name: 'FusionForge PCs',
+      address: process.env.BUSINESS_ADDRESS || '58,Post Office Street , Palladam , TamilNadu , India',
+      stateCode: state.code,
+      stateName: state.name,
+      gstin,
+      email: process.env.BUSINESS_EMAIL,
+      phone: process.env.BUSINESS_PHONE
+    };
+  }
+
+  private buildInvoice(
+    order: Order,
+    supplier: TaxInvoiceParty,
+    financialYear: string
+  ): InsertTaxInvoice {
+    const { placeOfSupply, supplyType } = this.getPlaceOfSupply(order, supplier);
+    const customerGstin = order.customerGstin ? normalizeGstin(order.customerGstin) : undefined;
+
+    const recipient: TaxInvoiceParty = {
+      name: order.customerName || 'Customer',
+      address: order.shippingAddress,
+      stateCode: placeOfSupply.code,
+      stateName: placeOfSupply.name,
+      gstin: customerGstin,
+      email: order.customerEmail
+    };
+
+    const items = this.getInvoiceItems(order);
+    const lineTotals = items.map(item => item.lineTotal);
+    const gstRate = Math.round(GST_RATE * 100);
+
+    // Orders priced by the server carry their tax breakdown; older ones charged GST-inclusive totals
+    const taxInclusive = order.gstAmount === undefined;
+    const shippingAmount = taxInclusive ? 0 : order.shippingAmount || 0;
+    const goodsTaxable = taxInclusive
+      ? round2(order.total / (1 + GST_RATE))
+      : round2((order.subtotal ?? lineTotals.reduce((sum, total) => sum + total, 0)) - (order.discountAmount || 0));
+    const goodsTax = taxInclusive ? round2(order.total - goodsTaxable) : order.gstAmount!;
+
+    const taxableValues = allocate(goodsTaxable, lineTotals);
+    const taxes = allocate(goodsTax, taxableValues);
+
+    const lines = items.map((item, index) => {
+      const taxableValue = taxableValues[index];
+      return this.buildLine({
+        description: item.description,
+        hsnCode: item.hsnCode,
+        quantity: item.quantity,
+        unitPrice: taxInclusive ? round2(taxableValue / item.quantity) : round2(item.lineTotal / item.quantity),
+        discount: taxInclusive ? 0 : round2(item.lineTotal - taxableValue),
+        taxableValue,
+        gstRate,
+        tax: taxes[index]
+      }, supplyType);
+    });
+
+    // Shipping is charged as a flat GST-inclusive fee, so its tax is backed out of the fee
+    if (shippingAmount > 0) {
+      const taxableValue = round2(shippingAmount / (1 + GST_RATE));
+      lines.push(this.buildLine({
+        description: 'Shipping & handling',
+        hsnCode: SHIPPING_SAC_CODE,
+        quantity: 1,
+        unitPrice: taxableValue,
+        discount: 0,
+        taxableValue,
+        gstRate,
+        tax: round2(shippingAmount - taxableValue)
+      }, supplyType));
+    }
+
+    const sum = (field: 'taxableValue' | 'cgst' | 'sgst' | 'igst') =>
+      round2(lines.reduce((total, line) => total + line[field], 0));
+    const taxableValue = sum('taxableValue');
+    const cgst = sum('cgst');
+    const sgst = sum('sgst');
+    const igst = sum('igst');
+    const totalTax = round2(cgst + sgst + igst);
+
+    return {
+      financialYear,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      supplier,
+      recipient,
+      placeOfSupply: placeOfSupply.code,
+      supplyType,
+      isB2B: Boolean(customerGstin),
+      lines,
+      taxableValue,
+      cgst,
+      sgst,
+      igst,
+      totalTax,
+      grandTotal: round2(taxableValue + totalTax)
+    };
+  }
+
+  private buildLine(
+    line: Omit<TaxInvoiceLine, 'cgst' | 'sgst' | 'igst' | 'total'> & { tax: number },
+    supplyType: TaxInvoice['supplyType']
+  ): TaxInvoiceLine {
+    const { tax, ...rest } = line;
+    return { ...rest, ...splitGst(tax, supplyType), total: round2(line.taxableValue + tax) };
+  }
+
+  private getInvoiceItems(order: Order): InvoiceItem[] {
+    let items: any[] = [];
+    try {
+      items = JSON.parse(order.items || '[]');
+    } catch (error) {
+      items = [];
+    }
+
+    const invoiceItems = items
+      .filter(item => item.build)
+      .map(item => {
+        const quantity = item.quantity || 1;
+        const unitPrice = Number(item.build.totalPrice ?? String(item.build.price ?? '0').replace(/[₹,]/g, '')) || 0;
+        return {
+          description: item.build.name || 'Custom PC build',
+          hsnCode: item.build.hsnCode || DEFAULT_PC_HSN_CODE,
+          quantity,
+          lineTotal: unitPrice * quantity
+        };
+      });
+
+    // Without readable line items the whole order is invoiced as one PC supply
+    if (invoiceItems.length === 0 || invoiceItems.every(item => item.lineTotal === 0)) {
+      return [{ description: `Order ${order.orderNumber}`, hsnCode: DEFAULT_PC_HSN_CODE, quantity: 1, lineTotal: order.total }];
+    }
+    return invoiceItems;
+  }
+}
+
+export const taxInvoiceService = new TaxInvoiceService();
@@ -0,0 +1,181 @@
+// Files attached to support tickets: validation, blob storage and retrieval
+import crypto from 'crypto';
+import path from 'path';
+import { blobStore } from './blob-store';
+import { CustomError } from '../middleware/error-handler';
+import { sniffMimeType } from '../utils/mime-sniff';
+import { logger } from '../utils/logger';
+import { SUPPORT_ATTACHMENT_LIMITS } from '../../shared/schema';
+import type { SupportTicket, SupportTicketAttachment } from '../../shared/schema';
+
+// An uploaded or emailed file before it is validated and stored; the client's content type is not trusted
+export interface AttachmentFile {
+  fileName: string;
+  content: Buffer;
+}
+
+export interface AttachmentDownload {
+  attachment: SupportTicketAttachment;
+  content: Buffer;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Keep the base name only, without control characters or quotes that would break a Content-Disposition header
+function sanitizeFileName(fileName: string): string {
+  const cleaned = path.basename(fileName.replace(/\\/g, '/'))
+    .replace(/[\u0000-\u001f\u007f"]/g, '')
+    .trim()
+    .slice(0, 200);
+  return cleaned || 'attachment';
+}
+
+function ticketPrefix(ticketId: string): string {
+  return `tickets/${ticketId}`;
+}
+
+function blobKey(ticketId: string, attachmentId: string): string {
+  return `${ticketPrefix(ticketId)}/${attachmentId}`;
+}
+
+// Customer download links are signed and short-lived, so a link only works for whoever was just shown
+// the ticket. Without a configured secret, links are signed with a per-process key and stop working
+// on restart or on another instance.
+const DOWNLOAD_URL_TTL_MS = 15 * 60 * 1000;
+const downloadUrlSecret = process.env.ATTACHMENT_URL_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.ATTACHMENT_URL_SECRET) {
+  logger.warn('ATTACHMENT_URL_SECRET is not set; attachment download links will not survive a restart');
+}
+
+function downloadSignature(ticketId: string, attachmentId: string, expires: number): string {
+  return crypto.createHmac('sha256', downloadUrlSecret)
+    .update(`${ticketId}:${attachmentId}:${expires}`)
+    .digest('base64url');
+}
+
+class TicketAttachmentService {
+  // Every file on the ticket, including those sent with replies
+  listAttachments(ticket: SupportTicket): SupportTicketAttachment[] {
+    return [
+      ...ticket.attachments,
+      ...ticket.responses.flatMap(response => response.attachments || [])
+    ];
+  }
+
+  // Validate the whole batch before writing anything, then store the bytes
+  async storeFiles(ticket: SupportTicket, files: AttachmentFile[], uploadedBy: 'user' | 'admin'): Promise<SupportTicketAttachment[]> {
+    if (files.length === 0) {
+      throw new CustomError('No files were uploaded', 400);
+    }
+    if (files.length > SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload) {
+      throw new CustomError(`At most ${SUPPORT_ATTACHMENT_LIMITS.maxFilesPerUpload} files can be uploaded at once`, 400);
+    }
+
+    const existingBytes = this.listAttachments(ticket).reduce((sum, attachment) => sum + attachment.fileSize, 0);
+    let totalBytes = existingBytes;
+
+    const attachments: Array<{ attachment: SupportTicketAttachment; content: Buffer }> = files.map(file => {
+      const fileName = sanitizeFileName(file.fileName);
+      if (file.content.length === 0) {
+        throw new CustomError(`${fileName} is empty`, 400);
+      }
+      if (file.content.length > SUPPORT_ATTACHMENT_LIMITS.maxFileBytes) {
+        throw new CustomError(`${fileName} is larger than ${formatMegabytes(SUPPORT_ATTACHMENT_LIMITS.maxFileBytes)}`, 413);
+      }
+
+      const contentType = sniffMimeType(file.content);
+      if (!contentType) {
+        throw new CustomError(`${fileName} is not a supported file type. Upload images, PDFs or plain text.`, 415);
+      }
+
+      totalBytes += file.content.length;
+      const id = `att_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      return {
+        content: file.content,
+        attachment: {
+          id,
+          fileName,
+          fileUrl: `/api/support/tickets/${ticket.id}/attachments/${id}`,
+          fileSize: file.content.length,
+          contentType,
+          uploadedBy,
+          uploadedAt: Date.now()
+        }
+      };
+    });
+
+    if (totalBytes > SUPPORT_ATTACHMENT_LIMITS.maxTicketBytes) {
+      throw new CustomError(`Attachments on a ticket are limited to ${formatMegabytes(SUPPORT_ATTACHMENT_LIMITS.maxTicketBytes)} in total`, 413);
+    }
+
+    const stored: string[] = [];
+    try {
+      for (const { attachment, content } of attachments) {
+        await blobStore.put(blobKey(ticket.id, attachment.id), content);
+        stored.push(attachment.id);
+      }
+    } catch (error) {
+      await Promise.all(stored.map(id => blobStore.delete(blobKey(ticket.id, id)).catch(() => undefined)));
+      throw error;
+    }
+
+    return attachments.map(({ attachment }) => attachment);
+  }
+
+  // The ticket with each attachment's fileUrl replaced by a signed download link
+  withDownloadUrls(ticket: SupportTicket): SupportTicket {
+    const expires = Date.now() + DOWNLOAD_URL_TTL_MS;
+    const sign = (attachment: SupportTicketAttachment): SupportTicketAttachment => ({
+      ...attachment,
+      fileUrl: `/api/support/tickets/${ticket.id}/attachments/${attachment.id}` +
+        `?expires=${expires}&signature=${downloadSignature(ticket.id, attachment.id, expires)}`
+    });
+
+    return {
+      ...ticket,
+      attachments: ticket.attachments.map(sign),
+      responses: ticket.responses.map(response =>
+        response.attachments ? { ...response, attachments: response.attachments.map(sign) } : response
+      )
+    };
+  }
+
+  verifyDownloadUrl(ticketId: string, attachmentId: string, expires: number, signature: string): void {
+    const expected = Buffer.from(downloadSignature(ticketId, attachmentId, expires));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new CustomError('Invalid download link', 403);
+    }
+    if (Date.now() > expires) {
+      throw new CustomError('This download link has expired; reopen the ticket to get a new one', 410);
+    }
+  }
+
+  // Remove stored bytes for attachments whose ticket record could not be updated
+  async discardFiles(ticketId: string, attachments: SupportTicketAttachment[]): Promise<void> {
+    await Promise.all(attachments.map(attachment => blobStore.delete(blobKey(ticketId, attachment.id))));
+  }
+
+  // The ticket passed in decides visibility: customers get a view without internal notes
+  async getFile(ticket: SupportTicket, attachmentId: string): Promise<AttachmentDownload> {
+    const attachment = this.listAttachments(ticket).find(candidate => candidate.id === attachmentId);
+    if (!attachment) {
+      throw new CustomError('Attachment not found', 404);
+    }
+
+    const content = await blobStore.get(blobKey(ticket.id, attachment.id));
+    if (!content) {
+      logger.warn(`Attachment ${attachment.id} on ticket ${ticket.id} has no stored content`);
+      throw new CustomError('Attachment not found', 404);
+    }
+    return { attachment, content };
+  }
+
+  async purgeFiles(ticketId: string): Promise<void> {
+    await blobStore.deletePrefix(ticketPrefix(ticketId));
+  }
+}
+
+export const ticketAttachmentService = new TicketAttachmentService();
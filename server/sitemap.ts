@@ -1,4 +1,4 @@
-import { firebaseRealtimeStorage as storage } from "./firebase-realtime-storage";
+import { storage } from "./storage/index";
 
 interface SitemapUrl {
   loc: string;
@@ -0,0 +1,730 @@
+/**
+ * Firebase → Prisma backfill
+ * Copies every Firebase node into its Prisma model, resumably and idempotently, then verifies both
+ * sides record by record so each DualWriteStorage read switch (STORAGE_READ_*) can be flipped on evidence.
+ * Run it through server/scripts/migrate-firebase-to-prisma.ts. The same mapping syncs single records in
+ * either direction for DualWriteStorage and the storage reconciler.
+ */
+
+import { createHash } from 'crypto';
+import { firebaseRealtimeStorage } from '../firebase-realtime-storage';
+import { getAllUserProfilesLocal, getUserProfileLocal, replaceUserProfileLocal } from '../user-profiles-storage';
+import { prismaStorage } from './prisma-storage';
+import { logger } from '../utils/logger';
+import type { StorageBackend } from '../../shared/schema';
+
+export interface MigrationField {
+  name: string;
+  type: string; // Prisma scalar type: Int, Float, String, Boolean, DateTime, Json
+  isList: boolean;
+  isRequired: boolean;
+  hasDefault: boolean;
+  defaultValue?: unknown;
+}
+
+export interface MigrationModel {
+  name: string;
+  fields: MigrationField[];
+  idFields: string[];
+}
+
+export interface MigrationFailure {
+  key: string;
+  error: string;
+}
+
+export interface MigrationCheckpoint {
+  entity: string;
+  status: 'running' | 'completed';
+  lastKey?: string;
+  copied: number;
+  failedKeys: MigrationFailure[];
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface MigrationRow {
+  sourceKey: string;
+  targetId: string;
+  where: Record<string, unknown>;
+  data: Record<string, unknown>;
+}
+
+export interface EntityCopyResult {
+  entity: string;
+  resumedFrom?: string;
+  scanned: number;
+  copied: number;
+  skipped: number;
+  reassignedIds: number;
+  failed: MigrationFailure[];
+}
+
+export interface FieldMismatch {
+  id: string;
+  field: string;
+  source: unknown;
+  target: unknown;
+}
+
+export interface EntityVerification {
+  entity: string;
+  model: string;
+  readSwitch: string;
+  sourceCount: number;
+  targetCount: number;
+  skipped: number;
+  sourceChecksum: string;
+  targetChecksum: string;
+  missingInTarget: string[];
+  extraInTarget: string[];
+  invalid: MigrationFailure[];
+  mismatchCount: number;
+  mismatches: FieldMismatch[];
+  unmappedFields: string[]; // present in Firebase but with no Prisma column, so not copied
+  ready: boolean;
+}
+
+export interface ReadSwitchReadiness {
+  name: string;
+  entities: string[];
+  ready: boolean;
+}
+
+export interface MigrationReport {
+  mode: 'copy' | 'verify';
+  startedAt: string;
+  finishedAt: string;
+  copy: EntityCopyResult[];
+  verification: EntityVerification[];
+  readSwitches: ReadSwitchReadiness[];
+}
+
+export interface MigrationOptions {
+  entities?: string[];
+  restart?: boolean;
+  batchSize?: number;
+}
+
+interface MigrationEntity {
+  name: string; // checkpoint and id-map key
+  model: string;
+  path: string;
+  readSwitch: string; // DualWriteStorage setting that decides where this entity is read from
+  parentField?: string; // `path/{parent}/{key}` layouts; the parent key fills this field
+  defaults?: Record<string, unknown>; // Firebase drops empty arrays and objects
+  keyField?: string; // Prisma column holding the Firebase key when it is not the id
+  load?: () => Promise<Array<[string, any]>>;
+  read?: (key: string) => Promise<any>; // single-record counterparts of load, for syncRecord
+  write?: (key: string, value: any) => Promise<void>;
+  transform?: (value: any, key: string) => any;
+  skip?: (value: any) => string | undefined;
+}
+
+type SourceRecord = [key: string, value: any];
+
+interface EntityComparison {
+  model: MigrationModel;
+  expected: Map<string, Record<string, unknown>>; // by Prisma id
+  actual: Map<string, Record<string, unknown>>;
+  sourceKeys: Map<string, string>; // Prisma id -> Firebase key
+  targetKeys: Map<string, string>;
+  unassigned: string[]; // Firebase keys whose id still has to be reassigned
+  invalid: MigrationFailure[];
+  skipped: number;
+  unmappedFields: string[];
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+const MAX_REPORTED_MISMATCHES = 50;
+const MAX_REPORTED_KEYS = 50;
+const MAX_INT = 2147483647; // Prisma Int columns are 32-bit; Date.now() ids from Firebase need reassigning
+
+// In foreign-key order, so parents always land before their children
+const MIGRATION_ENTITIES: MigrationEntity[] = [
+  { name: 'pcBuilds', model: 'PcBuild', path: 'pcBuilds', readSwitch: 'STORAGE_READ_PC_BUILDS' },
+  { name: 'components', model: 'Component', path: 'components', readSwitch: 'STORAGE_READ_COMPONENTS' },
+  { name: 'inquiries', model: 'Inquiry', path: 'inquiries', readSwitch: 'STORAGE_READ_INQUIRIES' },
+  {
+    name: 'userProfiles',
+    model: 'UserProfile',
+    path: 'userProfiles',
+    readSwitch: 'STORAGE_READ_USER_PROFILES',
+    keyField: 'uid',
+    // Profiles are created in the local profile store and read from there, so it wins over the Firebase node
+    load: async () => {
+      const profiles = await firebaseRealtimeStorage.exportNode('userProfiles');
+      for (const profile of await getAllUserProfilesLocal()) {
+        profiles[profile.uid] = profile;
+      }
+      return Object.entries(profiles);
+    },
+    read: async (uid) => (await getUserProfileLocal(uid)) ?? (await firebaseRealtimeStorage.readNode(`userProfiles/${uid}`)),
+    write: async (uid, profile) => {
+      await replaceUserProfileLocal(uid, profile ?? undefined);
+      await firebaseRealtimeStorage.writeNode(`userProfiles/${uid}`, profile);
+    },
+    skip: (profile) => (profile.mergedInto ? 'merged into another account' : undefined)
+  },
+  { name: 'orders', model: 'Order', path: 'orders', readSwitch: 'STORAGE_READ_ORDERS' },
+  { name: 'orderStatusEvents', model: 'OrderStatusEvent', path: 'orderStatusEvents', parentField: 'orderId', readSwitch: 'STORAGE_READ_ORDERS' },
+  { name: 'orderRefunds', model: 'OrderRefund', path: 'orderRefunds', parentField: 'orderId', readSwitch: 'STORAGE_READ_ORDERS', defaults: { restockItems: [] } },
+  { name: 'creditNotes', model: 'CreditNote', path: 'creditNotes', readSwitch: 'STORAGE_READ_ORDERS' },
+  { name: 'taxInvoices', model: 'TaxInvoice', path: 'taxInvoices', readSwitch: 'STORAGE_READ_ORDERS' },
+  { name: 'invoiceDocuments', model: 'InvoiceDocument', path: 'invoiceDocuments', readSwitch: 'STORAGE_READ_ORDERS' },
+  {
+    name: 'sequences',
+    model: 'DocumentSequence',
+    path: 'sequences',
+    readSwitch: 'STORAGE_READ_ORDERS',
+    transform: (value, key) => ({ name: key, value })
+  },
+  { name: 'savedBuilds', model: 'SavedBuild', path: 'savedBuilds', parentField: 'userId', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'userAddresses', model: 'UserAddress', path: 'userAddresses', parentField: 'userId', readSwitch: 'STORAGE_DRIVER' },
+  {
+    name: 'subscriptionPlans',
+    model: 'SubscriptionPlan',
+    path: 'subscriptionPlans',
+    readSwitch: 'STORAGE_DRIVER',
+    defaults: { features: [], priceRules: {} }
+  },
+  {
+    name: 'subscriptionPlanVersions',
+    model: 'SubscriptionPlanVersion',
+    path: 'subscriptionPlanVersions',
+    parentField: 'planId',
+    readSwitch: 'STORAGE_DRIVER',
+    defaults: { features: [], priceRules: {} }
+  },
+  { name: 'subscriptions', model: 'Subscription', path: 'subscriptions', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'subscriptionOrders', model: 'SubscriptionOrder', path: 'subscriptionOrders', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'discountCodes', model: 'DiscountCode', path: 'discountCodes', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'discountRedemptions', model: 'DiscountRedemption', path: 'discountRedemptions', parentField: 'discountId', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'bulkPricingTiers', model: 'BulkPricingTier', path: 'bulkPricingTiers', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'catalogComponents', model: 'CatalogComponent', path: 'catalogComponents', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'stockMovements', model: 'StockMovement', path: 'stockMovements', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'stockReservations', model: 'StockReservation', path: 'stockReservations', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'stockAlerts', model: 'StockAlert', path: 'stockAlerts', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'supportSlaPolicies', model: 'SupportSlaPolicy', path: 'supportSlaPolicies', readSwitch: 'STORAGE_DRIVER' },
+  {
+    name: 'supportTickets',
+    model: 'SupportTicket',
+    path: 'supportTickets',
+    readSwitch: 'STORAGE_DRIVER',
+    defaults: { attachments: [] },
+    transform: ({ responses, ...ticket }) => ticket // copied as supportTicketResponses
+  },
+  {
+    name: 'supportTicketResponses',
+    model: 'SupportTicketResponse',
+    path: 'supportTickets',
+    readSwitch: 'STORAGE_DRIVER',
+    // Responses live inside their ticket node in Firebase and in their own table in Prisma
+    load: async () => {
+      const tickets = await firebaseRealtimeStorage.exportNode('supportTickets');
+      return Object.entries(tickets).flatMap(([ticketId, ticket]: [string, any]) =>
+        Object.entries(ticket?.responses || {}).map(([id, response]): SourceRecord => [`${ticketId}/${id}`, { ...(response as any), ticketId }])
+      );
+    },
+    transform: ({ timestamp, ...response }) => ({ ...response, createdAt: timestamp })
+  },
+  { name: 'chatSessions', model: 'ChatSession', path: 'chatSessions', readSwitch: 'STORAGE_DRIVER' },
+  { name: 'chatMessages', model: 'ChatMessage', path: 'chatMessages', parentField: 'sessionId', readSwitch: 'STORAGE_DRIVER' }
+];
+
+// Numeric keys compare as numbers so resuming after "9" does not skip "10"
+function compareKeys(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) return Number(a) - Number(b);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toScalar(field: MigrationField, value: any): unknown {
+  switch (field.type) {
+    case 'DateTime': {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) throw new Error(`${field.name} is not a valid date: ${value}`);
+      return date;
+    }
+    case 'Int':
+    case 'Float': {
+      const number = Number(value);
+      if (!Number.isFinite(number) || (field.type === 'Int' && !Number.isInteger(number))) {
+        throw new Error(`${field.name} is not a valid ${field.type}: ${value}`);
+      }
+      return number;
+    }
+    case 'Boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      throw new Error(`${field.name} is not a boolean: ${value}`);
+    case 'String':
+      // Order and subscription order items are kept as JSON strings in Prisma
+      return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    default:
+      return value;
+  }
+}
+
+// Dates become ISO strings and object keys are sorted so both sides hash and compare the same way
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(key => (value as any)[key] !== undefined && (value as any)[key] !== null)
+        .map(key => [key, normalize((value as any)[key])])
+    );
+  }
+  return value ?? null;
+}
+
+function checksum(rows: Map<string, Record<string, unknown>>): string {
+  const hash = createHash('sha256');
+  Array.from(rows.keys()).sort(compareKeys).forEach(id => hash.update(JSON.stringify([id, rows.get(id)])));
+  return hash.digest('hex');
+}
+
+function toComparable(model: MigrationModel, row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(model.fields.map(field => [field.name, normalize(row[field.name])]));
+}
+
+export class FirebasePrismaMigration {
+  getEntityNames(): string[] {
+    return MIGRATION_ENTITIES.map(entity => entity.name);
+  }
+
+  async run(mode: 'copy' | 'verify', options: MigrationOptions = {}): Promise<MigrationReport> {
+    const startedAt = new Date().toISOString();
+    const entities = this.selectEntities(options.entities);
+    const copy: EntityCopyResult[] = [];
+
+    if (mode === 'copy') {
+      for (const entity of entities) {
+        copy.push(await this.copyEntity(entity, options));
+      }
+    }
+
+    const verification: EntityVerification[] = [];
+    for (const entity of entities) {
+      verification.push(await this.verifyEntity(entity));
+    }
+
+    return {
+      mode,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      copy,
+      verification,
+      readSwitches: this.summarizeReadSwitches(verification, options.entities === undefined)
+    };
+  }
+
+  private selectEntities(names?: string[]): MigrationEntity[] {
+    if (!names) return MIGRATION_ENTITIES;
+    const unknown = names.filter(name => !MIGRATION_ENTITIES.some(entity => entity.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown entities: ${unknown.join(', ')}. Known: ${this.getEntityNames().join(', ')}`);
+    }
+    return MIGRATION_ENTITIES.filter(entity => names.includes(entity.name));
+  }
+
+  // Copies everything after the checkpoint plus the keys that failed last time; upserts keep reruns safe
+  private async copyEntity(entity: MigrationEntity, options: MigrationOptions): Promise<EntityCopyResult> {
+    const model = prismaStorage.getMigrationModel(entity.model);
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+
+    if (options.restart) await prismaStorage.resetMigrationCheckpoint(entity.name);
+    const now = Date.now();
+    const checkpoint: MigrationCheckpoint = (await prismaStorage.getMigrationCheckpoint(entity.name)) || {
+      entity: entity.name,
+      status: 'running',
+      copied: 0,
+      failedKeys: [],
+      startedAt: now,
+      updatedAt: now
+    };
+    const resumedFrom = checkpoint.lastKey;
+    const retryKeys = new Set(checkpoint.failedKeys.map(failure => failure.key));
+
+    const records = await this.readSource(entity);
+    const pending = records.filter(([key]) =>
+      retryKeys.has(key) || checkpoint.lastKey === undefined || compareKeys(key, checkpoint.lastKey) > 0
+    );
+    const idMap = await prismaStorage.getMigrationIdMap(entity.name);
+    const allocateId = await this.createIdAllocator(entity, model, records);
+    let allocations = 0;
+    const countingAllocator = () => {
+      allocations++;
+      return allocateId();
+    };
+
+    const result: EntityCopyResult = { entity: entity.name, resumedFrom, scanned: records.length, copied: 0, skipped: 0, reassignedIds: 0, failed: [] };
+    const processed = new Set<string>();
+    checkpoint.status = 'running';
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      let copiedInBatch = 0;
+      for (const [key, value] of pending.slice(start, start + batchSize)) {
+        processed.add(key);
+        if (entity.skip?.(value)) {
+          result.skipped++;
+          continue;
+        }
+        try {
+          const allocatedBefore = allocations;
+          const row = this.toRow(entity, model, key, value, idMap, countingAllocator);
+          await prismaStorage.importMigrationRow(entity.name, model.name, row);
+          idMap.set(key, row.targetId);
+          if (allocations > allocatedBefore) result.reassignedIds++;
+          copiedInBatch++;
+        } catch (error) {
+          result.failed.push({ key, error: errorMessage(error) });
+        }
+        if (!checkpoint.lastKey || compareKeys(key, checkpoint.lastKey) > 0) checkpoint.lastKey = key;
+      }
+
+      result.copied += copiedInBatch;
+      checkpoint.copied += copiedInBatch;
+      checkpoint.failedKeys = [...checkpoint.failedKeys.filter(failure => !processed.has(failure.key)), ...result.failed];
+      checkpoint.updatedAt = Date.now();
+      await prismaStorage.saveMigrationCheckpoint(checkpoint);
+    }
+
+    checkpoint.status = 'completed';
+    checkpoint.completedAt = Date.now();
+    checkpoint.updatedAt = checkpoint.completedAt;
+    await prismaStorage.saveMigrationCheckpoint(checkpoint);
+
+    logger.info(
+      `Copied ${entity.name}: ${result.copied} copied, ${result.skipped} skipped, ${result.failed.length} failed` +
+        (resumedFrom ? ` (resumed after ${resumedFrom})` : ''),
+      { context: 'Migration' }
+    );
+    return result;
+  }
+
+  // Every Firebase key whose Prisma row is missing, extra or different; the reconciler repairs these
+  async diffKeys(name: string): Promise<{ keys: string[]; invalid: MigrationFailure[] }> {
+    const comparison = await this.compare(this.getEntity(name));
+    const keys = new Set(comparison.unassigned);
+    comparison.expected.forEach((row, id) => {
+      if (JSON.stringify(row) !== JSON.stringify(comparison.actual.get(id))) keys.add(comparison.sourceKeys.get(id)!);
+    });
+    comparison.actual.forEach((row, id) => {
+      if (!comparison.expected.has(id)) keys.add(comparison.targetKeys.get(id)!);
+    });
+    return { keys: Array.from(keys).sort(compareKeys), invalid: comparison.invalid };
+  }
+
+  // Copies one record into `target` from the other store, or deletes it there when the other store no longer has it
+  async syncRecord(name: string, key: string, target: StorageBackend): Promise<void> {
+    const entity = this.getEntity(name);
+    const model = prismaStorage.getMigrationModel(entity.model);
+    if (target === 'prisma') {
+      await this.copyRecord(entity, model, key);
+    } else {
+      await this.restoreRecord(entity, model, key);
+    }
+  }
+
+  private getEntity(name: string): MigrationEntity {
+    const entity = MIGRATION_ENTITIES.find(candidate => candidate.name === name);
+    if (!entity) throw new Error(`Unknown entity: ${name}`);
+    return entity;
+  }
+
+  private async verifyEntity(entity: MigrationEntity): Promise<EntityVerification> {
+    const { model, expected, actual, sourceKeys, unassigned, invalid, skipped, unmappedFields } = await this.compare(entity);
+
+    const missingInTarget = [
+      ...unassigned,
+      ...Array.from(expected.keys()).filter(id => !actual.has(id)).map(id => sourceKeys.get(id)!)
+    ];
+    const extraInTarget = Array.from(actual.keys()).filter(id => !expected.has(id));
+    const mismatches: FieldMismatch[] = [];
+    let mismatchCount = 0;
+
+    expected.forEach((sourceRow, id) => {
+      const targetRow = actual.get(id);
+      if (!targetRow) return;
+      for (const field of model.fields) {
+        if (JSON.stringify(sourceRow[field.name]) === JSON.stringify(targetRow[field.name])) continue;
+        mismatchCount++;
+        if (mismatches.length < MAX_REPORTED_MISMATCHES) {
+          mismatches.push({ id, field: field.name, source: sourceRow[field.name], target: targetRow[field.name] });
+        }
+      }
+    });
+
+    const sourceChecksum = checksum(expected);
+    const targetChecksum = checksum(actual);
+    return {
+      entity: entity.name,
+      model: entity.model,
+      readSwitch: entity.readSwitch,
+      sourceCount: expected.size + unassigned.length + invalid.length,
+      targetCount: actual.size,
+      skipped,
+      sourceChecksum,
+      targetChecksum,
+      missingInTarget: missingInTarget.slice(0, MAX_REPORTED_KEYS),
+      extraInTarget: extraInTarget.slice(0, MAX_REPORTED_KEYS),
+      invalid,
+      mismatchCount,
+      mismatches,
+      unmappedFields,
+      ready: invalid.length === 0 && unassigned.length === 0 && sourceChecksum === targetChecksum
+    };
+  }
+
+  private async compare(entity: MigrationEntity): Promise<EntityComparison> {
+    const model = prismaStorage.getMigrationModel(entity.model);
+    const [records, targetRows, idMap] = await Promise.all([
+      this.readSource(entity),
+      prismaStorage.getMigrationRows(entity.model),
+      prismaStorage.getMigrationIdMap(entity.name)
+    ]);
+    const columns = new Set(model.fields.map(field => field.name));
+
+    const expected = new Map<string, Record<string, unknown>>();
+    const sourceKeys = new Map<string, string>();
+    const unassigned: string[] = [];
+    const invalid: MigrationFailure[] = [];
+    const unmappedFields = new Set<string>();
+    let skipped = 0;
+
+    for (const [key, value] of records) {
+      if (entity.skip?.(value)) {
+        skipped++;
+        continue;
+      }
+      // Reassigned ids are only known once copied, so until then the record is simply missing
+      let needsId = false;
+      try {
+        Object.keys(this.prepare(entity, key, value)).forEach(field => {
+          if (!columns.has(field)) unmappedFields.add(field);
+        });
+        const row = this.toRow(entity, model, key, value, idMap, () => {
+          needsId = true;
+          return undefined;
+        });
+        expected.set(row.targetId, toComparable(model, this.withDefaults(model, row.data)));
+        sourceKeys.set(row.targetId, key);
+      } catch (error) {
+        if (needsId) unassigned.push(key);
+        else invalid.push({ key, error: errorMessage(error) });
+      }
+    }
+
+    const mappedKeys = new Map(Array.from(idMap.entries()).map(([key, id]) => [id, key]));
+    const actual = new Map<string, Record<string, unknown>>();
+    const targetKeys = new Map<string, string>();
+    for (const row of targetRows) {
+      const id = this.targetId(model, row);
+      actual.set(id, toComparable(model, row));
+      targetKeys.set(id, mappedKeys.get(id) ?? String(row[entity.keyField || model.idFields[0]]));
+    }
+
+    return { model, expected, actual, sourceKeys, targetKeys, unassigned, invalid, skipped, unmappedFields: Array.from(unmappedFields).sort() };
+  }
+
+  private async copyRecord(entity: MigrationEntity, model: MigrationModel, key: string): Promise<void> {
+    const value = await this.readRecord(entity, key);
+    if (value === null || entity.skip?.(value)) {
+      const where = await this.recordWhere(entity, model, key);
+      if (where) await prismaStorage.deleteMigrationRow(entity.name, model.name, key, where);
+      return;
+    }
+
+    const idMap = await prismaStorage.getMigrationIdMap(entity.name);
+    const allocateId = await this.createIdAllocator(entity, model, [[key, value]]);
+    await prismaStorage.importMigrationRow(entity.name, model.name, this.toRow(entity, model, key, value, idMap, allocateId));
+  }
+
+  // The reverse of toRow: Prisma columns overwrite the Firebase record, which keeps its own id and unmapped fields
+  private async restoreRecord(entity: MigrationEntity, model: MigrationModel, key: string): Promise<void> {
+    if (entity.transform || (entity.load && !entity.read)) {
+      throw new Error(`${entity.name} cannot be written back to Firebase`);
+    }
+    const [row, existing] = await Promise.all([
+      this.recordWhere(entity, model, key).then(where => where && prismaStorage.getMigrationRow(model.name, where)),
+      this.readRecord(entity, key)
+    ]);
+    if (!row) {
+      await this.writeRecord(entity, key, null);
+      return;
+    }
+
+    const record: Record<string, any> = { ...existing };
+    for (const field of model.fields) {
+      const value = row[field.name];
+      if (model.idFields.includes(field.name) && existing?.[field.name] !== undefined) continue;
+      if (value === null || value === undefined) {
+        delete record[field.name];
+      } else if (value instanceof Date) {
+        record[field.name] = typeof existing?.[field.name] === 'number' ? value.getTime() : value.toISOString();
+      } else if (field.type === 'String' && existing && typeof existing[field.name] === 'object') {
+        record[field.name] = JSON.parse(value as string);
+      } else {
+        record[field.name] = typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value; // Decimal and Json values
+      }
+    }
+    await this.writeRecord(entity, key, record);
+  }
+
+  private async readRecord(entity: MigrationEntity, key: string): Promise<any> {
+    if (entity.read) return (await entity.read(key)) ?? null;
+    if (entity.load) return (await entity.load()).find(([candidate]) => candidate === key)?.[1] ?? null;
+    return firebaseRealtimeStorage.readNode(`${entity.path}/${key}`);
+  }
+
+  private async writeRecord(entity: MigrationEntity, key: string, value: any): Promise<void> {
+    if (entity.write) return entity.write(key, value);
+    await firebaseRealtimeStorage.writeNode(`${entity.path}/${key}`, value);
+  }
+
+  // Where the Prisma row for a Firebase key lives: its mapped id, its key column, or the key itself as the id.
+  // Undefined when the key cannot have a row yet (an oversized id that was never copied)
+  private async recordWhere(entity: MigrationEntity, model: MigrationModel, key: string): Promise<Record<string, unknown> | undefined> {
+    if (model.idFields.length !== 1) throw new Error(`${model.name} records cannot be synced one at a time`);
+    const idField = model.fields.find(field => field.name === model.idFields[0])!;
+    const mapped = (await prismaStorage.getMigrationIdMap(entity.name)).get(key);
+    if (mapped !== undefined) return { [idField.name]: idField.type === 'Int' ? Number(mapped) : mapped };
+    if (entity.keyField) return { [entity.keyField]: key };
+
+    const id = key.slice(key.lastIndexOf('/') + 1);
+    if (idField.type !== 'Int') return { [idField.name]: id };
+    return Number.isInteger(Number(id)) && Number(id) > 0 && Number(id) <= MAX_INT ? { [idField.name]: Number(id) } : undefined;
+  }
+
+  // A switch can only be flipped once every entity it reads is clean; partial runs cannot vouch for a switch
+  private summarizeReadSwitches(verification: EntityVerification[], complete: boolean): ReadSwitchReadiness[] {
+    const switches = new Map<string, EntityVerification[]>();
+    verification.forEach(result => switches.set(result.readSwitch, [...(switches.get(result.readSwitch) || []), result]));
+
+    return Array.from(switches.entries()).map(([name, results]) => {
+      const covered = complete || MIGRATION_ENTITIES
+        .filter(entity => entity.readSwitch === name)
+        .every(entity => results.some(result => result.entity === entity.name));
+      return { name, entities: results.map(result => result.entity), ready: covered && results.every(result => result.ready) };
+    });
+  }
+
+  private async readSource(entity: MigrationEntity): Promise<SourceRecord[]> {
+    let records: SourceRecord[];
+    if (entity.load) {
+      records = await entity.load();
+    } else {
+      const node = await firebaseRealtimeStorage.exportNode(entity.path);
+      records = entity.parentField
+        ? Object.entries(node).flatMap(([parent, children]) =>
+            Object.entries(children || {}).map(([key, value]): SourceRecord => [`${parent}/${key}`, value])
+          )
+        : Object.entries(node);
+    }
+    return records.filter(([, value]) => value !== null && value !== undefined).sort(([a], [b]) => compareKeys(a, b));
+  }
+
+  private prepare(entity: MigrationEntity, key: string, value: any): Record<string, any> {
+    const record = entity.transform ? entity.transform(value, key) : value;
+    if (!entity.parentField) return { ...entity.defaults, ...record };
+
+    const parent = key.slice(0, key.indexOf('/'));
+    return { ...entity.defaults, ...record, [entity.parentField]: record[entity.parentField] ?? parent };
+  }
+
+  // The record's own id wins over its Firebase key; push-key children often only have the key
+  private sourceId(entity: MigrationEntity, model: MigrationModel, key: string, value: any): unknown {
+    const idField = model.idFields[0];
+    const record = entity.transform ? entity.transform(value, key) : value;
+    return record?.[idField] ?? key.slice(key.lastIndexOf('/') + 1);
+  }
+
+  private toRow(
+    entity: MigrationEntity,
+    model: MigrationModel,
+    key: string,
+    value: any,
+    idMap: Map<string, string>,
+    allocateId: () => number | undefined
+  ): MigrationRow {
+    const record = this.prepare(entity, key, value);
+
+    if (model.idFields.length === 1) {
+      const idField = model.fields.find(field => field.name === model.idFields[0])!;
+      record[idField.name] = this.resolveId(idField, this.sourceId(entity, model, key, value), idMap.get(key), allocateId);
+    }
+
+    const data: Record<string, unknown> = {};
+    for (const field of model.fields) {
+      const raw = record[field.name];
+      if (raw === undefined || raw === null) {
+        if (field.isList) data[field.name] = [];
+        else if (field.isRequired && !field.hasDefault) throw new Error(`Missing required field ${field.name}`);
+        continue;
+      }
+      // Firebase turns arrays with gaps into objects keyed by index
+      data[field.name] = field.isList
+        ? (Array.isArray(raw) ? raw : Object.values(raw)).map(item => toScalar(field, item))
+        : toScalar(field, raw);
+    }
+
+    const idValues = Object.fromEntries(model.idFields.map(field => [field, data[field]]));
+    return {
+      sourceKey: key,
+      targetId: this.targetId(model, data),
+      where: model.idFields.length === 1 ? idValues : { [model.idFields.join('_')]: idValues },
+      data
+    };
+  }
+
+  private resolveId(idField: MigrationField, sourceId: unknown, mapped: string | undefined, allocateId: () => number | undefined): unknown {
+    if (idField.type !== 'Int') return mapped ?? sourceId;
+    if (mapped !== undefined) return Number(mapped);
+
+    const id = Number(sourceId);
+    if (Number.isInteger(id) && id > 0 && id <= MAX_INT) return id;
+    const allocated = allocateId();
+    if (allocated === undefined) throw new Error(`Id ${sourceId} does not fit the Prisma column and has not been copied yet`);
+    return allocated;
+  }
+
+  // New ids start above both what Prisma holds and every id that will be kept, so they never collide
+  private async createIdAllocator(entity: MigrationEntity, model: MigrationModel, records: SourceRecord[]): Promise<() => number> {
+    const idField = model.fields.find(field => field.name === model.idFields[0]);
+    if (model.idFields.length !== 1 || idField?.type !== 'Int') {
+      return () => {
+        throw new Error(`${model.name} ids are not reassigned`);
+      };
+    }
+
+    let next = await prismaStorage.getMaxMigrationId(model.name);
+    for (const [key, value] of records) {
+      const id = Number(this.sourceId(entity, model, key, value));
+      if (Number.isInteger(id) && id <= MAX_INT) next = Math.max(next, id);
+    }
+    return () => ++next;
+  }
+
+  // Prisma fills these on insert, so the expected row carries them too
+  private withDefaults(model: MigrationModel, data: Record<string, unknown>): Record<string, unknown> {
+    const filled = { ...data };
+    model.fields.forEach(field => {
+      if (filled[field.name] === undefined && field.defaultValue !== undefined) filled[field.name] = field.defaultValue;
+    });
+    return filled;
+  }
+
+  private targetId(model: MigrationModel, row: Record<string, unknown>): string {
+    return model.idFields.map(field => String(row[field])).join(':');
+  }
+}
+
+export const firebasePrismaMigration = new FirebasePrismaMigration();
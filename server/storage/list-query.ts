@@ -0,0 +1,178 @@
+/**
+ * Cursor pagination for the admin list endpoints
+ * Firebase and MemoryStorage filter and page the loaded records here; PrismaStorage, and Firebase for the
+ * default createdAt listing, turn the same cursor into a query, so a cursor points at the same position
+ * whichever store serves it.
+ */
+
+import { CustomError } from '../middleware/error-handler';
+import type {
+  ListPage,
+  Order,
+  Inquiry,
+  UserProfile,
+  Subscription,
+  OrderListQuery,
+  InquiryListQuery,
+  UserListQuery,
+  SubscriptionListQuery
+} from '../../shared/schema';
+
+export type ListSortValue = number | string;
+
+// The sort and direction a page was read with; any list query carries these
+export interface ListOrdering {
+  limit: number;
+  cursor?: string;
+  sort: string;
+  order: 'asc' | 'desc';
+}
+
+// Sort value and record key of the last item on the previous page
+export interface ListCursor {
+  value: ListSortValue;
+  key: ListSortValue;
+}
+
+const DATE_SORTS = new Set(['createdAt', 'nextBillingDate']);
+const NUMERIC_SORTS = new Set(['id', 'total', 'finalPrice']);
+
+export function isDateSort(sort: string): boolean {
+  return DATE_SORTS.has(sort);
+}
+
+// Firebase records keep dates as ISO strings; anything unparseable sorts as the epoch
+function toTime(value: unknown): number {
+  const time = new Date(value as string | number | Date).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+// Dates are compared as epoch milliseconds so the cursor stays plain JSON; older Firebase orders
+// may hold the total as a string
+export function listSortValue(record: object, sort: string): ListSortValue {
+  const value = (record as Record<string, unknown>)[sort];
+  if (isDateSort(sort)) return toTime(value);
+  if (NUMERIC_SORTS.has(sort)) return Number(value) || 0;
+  return typeof value === 'string' ? value : '';
+}
+
+export function encodeListCursor(ordering: ListOrdering, cursor: ListCursor): string {
+  const payload = { s: ordering.sort, o: ordering.order, v: cursor.value, k: cursor.key };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// A cursor is only valid for the sort and direction it was issued with
+export function decodeListCursor(ordering: ListOrdering): ListCursor | undefined {
+  if (!ordering.cursor) return undefined;
+
+  try {
+    const payload = JSON.parse(Buffer.from(ordering.cursor, 'base64url').toString('utf8'));
+    if (payload?.s === ordering.sort && payload.o === ordering.order && isSortValue(payload.v) && isSortValue(payload.k)) {
+      return { value: payload.v, key: payload.k };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new CustomError('Invalid list cursor; start again from the first page', 400);
+}
+
+function isSortValue(value: unknown): value is ListSortValue {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function compareValues(a: ListSortValue, b: ListSortValue): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+// Sorts, then returns the page after the cursor; the record key breaks ties so no record is skipped or repeated
+export function paginateList<T extends object>(
+  records: T[],
+  ordering: ListOrdering,
+  keyOf: (record: T) => ListSortValue
+): ListPage<T> {
+  const direction = ordering.order === 'asc' ? 1 : -1;
+  const compare = (a: ListCursor, b: ListCursor) =>
+    direction * (compareValues(a.value, b.value) || compareValues(a.key, b.key));
+
+  const entries = records
+    .map(record => ({ record, position: { value: listSortValue(record, ordering.sort), key: keyOf(record) } }))
+    .sort((a, b) => compare(a.position, b.position));
+
+  const after = decodeListCursor(ordering);
+  const remaining = after ? entries.filter(entry => compare(entry.position, after) > 0) : entries;
+  return toListPage(remaining.map(entry => entry.record), ordering, keyOf, entries.length);
+}
+
+// Records from the cursor on, in page order; anything past the limit only says another page follows
+export function toListPage<T extends object>(
+  records: T[],
+  ordering: ListOrdering,
+  keyOf: (record: T) => ListSortValue,
+  total: number | null
+): ListPage<T> {
+  const items = records.slice(0, ordering.limit);
+  const last = items[items.length - 1];
+  const nextCursor = records.length > ordering.limit && last
+    ? encodeListCursor(ordering, { value: listSortValue(last, ordering.sort), key: keyOf(last) })
+    : null;
+
+  return { items, nextCursor, total };
+}
+
+function inDateRange(createdAt: unknown, query: { from?: Date; to?: Date }): boolean {
+  const time = toTime(createdAt);
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time > query.to.getTime()) return false;
+  return true;
+}
+
+function emailMatches(email: string | undefined, search?: string): boolean {
+  if (!search) return true;
+  return !!email && email.toLowerCase().includes(search.toLowerCase());
+}
+
+function inAmountRange(amount: number, query: { minAmount?: number; maxAmount?: number }): boolean {
+  if (query.minAmount !== undefined && amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && amount > query.maxAmount) return false;
+  return true;
+}
+
+export function pageOrders(orders: Order[], query: OrderListQuery): ListPage<Order> {
+  const matching = orders.filter(order =>
+    (!query.status || order.status === query.status) &&
+    inDateRange(order.createdAt, query) &&
+    emailMatches(order.customerEmail, query.email) &&
+    inAmountRange(Number(order.total) || 0, query)
+  );
+  return paginateList(matching, query, order => order.id);
+}
+
+// Inquiries saved before statuses existed count as uncompleted, as in the admin panel
+export function pageInquiries(inquiries: Inquiry[], query: InquiryListQuery): ListPage<Inquiry> {
+  const matching = inquiries.filter(inquiry =>
+    (!query.status || (inquiry.status || 'uncompleted') === query.status) &&
+    (!query.budget || inquiry.budget === query.budget) &&
+    inDateRange(inquiry.createdAt, query) &&
+    emailMatches(inquiry.email, query.email)
+  );
+  return paginateList(matching, query, inquiry => inquiry.id);
+}
+
+export function pageUserProfiles(profiles: UserProfile[], query: UserListQuery): ListPage<UserProfile> {
+  const matching = profiles.filter(profile =>
+    inDateRange(profile.createdAt, query) &&
+    emailMatches(profile.email, query.email)
+  );
+  return paginateList(matching, query, profile => profile.uid);
+}
+
+export function pageSubscriptions(subscriptions: Subscription[], query: SubscriptionListQuery): ListPage<Subscription> {
+  const matching = subscriptions.filter(subscription =>
+    (!query.status || subscription.status === query.status) &&
+    inDateRange(subscription.createdAt, query) &&
+    emailMatches(subscription.customerEmail, query.email) &&
+    inAmountRange(subscription.finalPrice, query)
+  );
+  return paginateList(matching, query, subscription => subscription.id);
+}
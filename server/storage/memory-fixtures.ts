@@ -0,0 +1,137 @@
+/**
+ * Seed data for MemoryStorage (STORAGE_DRIVER=memory)
+ * A small catalogue so the storefront, admin panel and checkout have something to work with offline.
+ * Plans, SLA policies, catalog parts and discount tiers are seeded by their own services on first use.
+ */
+
+import type { Component, Inquiry, PcBuild } from '../../shared/schema';
+
+const SEEDED_AT = new Date('2025-01-01T00:00:00.000Z');
+
+export const MEMORY_FIXTURE_BUILDS: PcBuild[] = [
+  {
+    id: 1,
+    name: 'Student Essentials',
+    category: 'budget',
+    buildType: 'CPU Only',
+    budgetRange: '₹30,000 - ₹40,000',
+    basePrice: 32000,
+    profitMargin: 3000,
+    totalPrice: 35000,
+    description: 'Everyday computing, online classes and light games.',
+    processor: 'AMD Ryzen 5 5600G',
+    motherboard: 'MSI B450M PRO-VDH MAX',
+    ram: '16GB DDR4 3200MHz',
+    storage: '512GB NVMe SSD',
+    casePsu: 'Ant Esports ICE-100 with 450W PSU',
+    hsnCode: '8471',
+    stockQuantity: 8,
+    lowStockThreshold: 2,
+    isActive: true,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  },
+  {
+    id: 2,
+    name: 'Esports Starter',
+    category: 'mid-range',
+    buildType: 'CPU Only',
+    budgetRange: '₹60,000 - ₹70,000',
+    basePrice: 58000,
+    profitMargin: 6000,
+    totalPrice: 64000,
+    description: 'High frame rates in competitive titles at 1080p.',
+    processor: 'Intel Core i5-12400F',
+    motherboard: 'Gigabyte B660M DS3H',
+    ram: '16GB DDR4 3600MHz',
+    storage: '1TB NVMe SSD',
+    gpu: 'NVIDIA RTX 3060 12GB',
+    casePsu: 'Deepcool CC560 with 650W 80+ Bronze PSU',
+    hsnCode: '8471',
+    stockQuantity: 5,
+    lowStockThreshold: 2,
+    isActive: true,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  },
+  {
+    id: 3,
+    name: 'Creator Pro',
+    category: 'high-end',
+    buildType: 'Full Set',
+    budgetRange: '₹1,50,000 - ₹1,75,000',
+    basePrice: 148000,
+    profitMargin: 14000,
+    totalPrice: 162000,
+    description: 'Video editing, 3D work and 1440p gaming, with monitor and peripherals.',
+    processor: 'AMD Ryzen 9 7900X',
+    motherboard: 'ASUS TUF Gaming B650-Plus',
+    ram: '32GB DDR5 6000MHz',
+    storage: '2TB NVMe Gen4 SSD',
+    gpu: 'NVIDIA RTX 4070 Super 12GB',
+    casePsu: 'Lian Li Lancool 216 with 850W 80+ Gold PSU',
+    monitor: 'LG 27GP850 27" 1440p 165Hz',
+    keyboardMouse: 'Logitech MK850',
+    mousePad: 'SteelSeries QcK Large',
+    hsnCode: '8471',
+    stockQuantity: 2,
+    lowStockThreshold: 2,
+    isActive: true,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  },
+  {
+    id: 4,
+    name: 'Workstation Ultra',
+    category: 'premium',
+    buildType: 'CPU Only',
+    budgetRange: '₹2,50,000+',
+    basePrice: 265000,
+    profitMargin: 25000,
+    totalPrice: 290000,
+    description: 'Rendering and simulation workloads that run for hours.',
+    processor: 'Intel Core i9-14900K',
+    motherboard: 'ASUS ProArt Z790-Creator',
+    ram: '64GB DDR5 5600MHz',
+    storage: '4TB NVMe Gen4 SSD',
+    gpu: 'NVIDIA RTX 4090 24GB',
+    casePsu: 'Fractal Design Define 7 with 1200W 80+ Platinum PSU',
+    hsnCode: '8471',
+    stockQuantity: 0,
+    lowStockThreshold: 1,
+    isActive: true,
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  }
+];
+
+export const MEMORY_FIXTURE_COMPONENTS: Component[] = [
+  { id: 1, buildId: 1, name: 'AMD Ryzen 5 5600G', specification: '6 cores, 12 threads, Radeon graphics', price: '₹13,500', type: 'cpu', sku: 'CPU-R5-5600G', hsnCode: '8542' },
+  { id: 2, buildId: 1, name: '16GB DDR4 3200MHz', specification: '2 x 8GB', price: '₹3,200', type: 'ram', sku: 'RAM-D4-16-3200', hsnCode: '8473' },
+  { id: 3, buildId: 2, name: 'Intel Core i5-12400F', specification: '6 cores, 12 threads', price: '₹11,000', type: 'cpu', sku: 'CPU-I5-12400F', hsnCode: '8542' },
+  { id: 4, buildId: 2, name: 'NVIDIA RTX 3060 12GB', specification: '12GB GDDR6', price: '₹26,000', type: 'gpu', sku: 'GPU-RTX3060-12', hsnCode: '8473' },
+  { id: 5, buildId: 3, name: 'AMD Ryzen 9 7900X', specification: '12 cores, 24 threads', price: '₹38,000', type: 'cpu', sku: 'CPU-R9-7900X', hsnCode: '8542' },
+  { id: 6, buildId: 3, name: 'NVIDIA RTX 4070 Super 12GB', specification: '12GB GDDR6X', price: '₹58,000', type: 'gpu', sku: 'GPU-RTX4070S-12', hsnCode: '8473' }
+].map(component => ({
+  ...component,
+  stockQuantity: 10,
+  lowStockThreshold: 5,
+  isActive: true,
+  createdAt: SEEDED_AT,
+  updatedAt: SEEDED_AT
+}));
+
+export const MEMORY_FIXTURE_INQUIRIES: Inquiry[] = [
+  {
+    id: 1,
+    name: 'Sample Customer',
+    email: 'customer@example.com',
+    phone: '9876543210',
+    budget: '₹70,000 - ₹80,000',
+    useCase: 'Gaming',
+    details: 'Looking for a quiet build for 1440p gaming.',
+    status: 'uncompleted',
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT
+  }
+];
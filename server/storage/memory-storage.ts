@@ -0,0 +1,1355 @@
+import { randomUUID } from 'crypto';
+import type { IStorage } from '../firebase-realtime-storage';
+import { logger } from '../utils/logger';
+import { formatDocumentNumber } from '../utils/financial-year';
+import { MEMORY_FIXTURE_BUILDS, MEMORY_FIXTURE_COMPONENTS, MEMORY_FIXTURE_INQUIRIES } from './memory-fixtures';
+import type {
+  PcBuild,
+  InsertPcBuild,
+  Component,
+  InsertComponent,
+  Inquiry,
+  InsertInquiry,
+  UserProfile,
+  InsertUserProfile,
+  Order,
+  InsertOrder,
+  SavedBuild,
+  InsertSavedBuild,
+  UserAddress,
+  InsertUserAddress,
+  AdminSetting,
+  Subscription,
+  InsertSubscription,
+  SubscriptionOrder,
+  InsertSubscriptionOrder,
+  SubscriptionBillingUpdate,
+  SubscriptionOrderBillingUpdate,
+  SubscriptionPlan,
+  SubscriptionPlanStatus,
+  SubscriptionPlanUpdate,
+  SubscriptionPlanVersion,
+  InsertSubscriptionPlan,
+  DiscountCode,
+  InsertDiscountCode,
+  BulkPricingTier,
+  DiscountRedemption,
+  DiscountRedemptionResult,
+  StockMovement,
+  InsertStockMovement,
+  StockReservation,
+  InsertStockReservation,
+  StockAlert,
+  OrderStatus,
+  OrderStatusEvent,
+  InsertOrderStatusEvent,
+  OrderRefund,
+  InsertOrderRefund,
+  OrderRefundStatus,
+  CreditNote,
+  InsertCreditNote,
+  TaxInvoice,
+  InsertTaxInvoice,
+  InvoiceDocument,
+  InsertInvoiceDocument,
+  CatalogComponent,
+  InsertCatalogComponent,
+  SupportTicket,
+  SupportTicketResponse,
+  SupportTicketUpdate,
+  InsertSupportTicket,
+  SupportSlaPolicy,
+  InsertSupportSlaPolicy,
+  ChatSession,
+  ChatSessionStatus,
+  ChatSessionUpdate,
+  InsertChatSession,
+  ChatMessage,
+  InsertChatMessage,
+  SyncOutboxEntry,
+  InsertSyncOutboxEntry,
+  ListPage,
+  OrderListQuery,
+  InquiryListQuery,
+  UserListQuery,
+  SubscriptionListQuery
+} from '../../shared/schema';
+import { pageOrders, pageInquiries, pageUserProfiles, pageSubscriptions } from './list-query';
+
+// Records are copied in and out so callers never hold a reference into the store,
+// the same as reading back from Firebase or Postgres
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Paging reads the stored records in place; only the page handed back is copied
+function clonePage<T>(page: ListPage<T>): ListPage<T> {
+  return { ...page, items: page.items.map(clone) };
+}
+
+// Same rules as a Firebase update: undefined leaves a field alone and null removes it
+function applyUpdates<T extends object>(record: T, updates: object): T {
+  const next = { ...record } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  }
+  return next as T;
+}
+
+function nextNumericId(records: Map<number, { id: number }>): number {
+  return Math.max(0, ...Array.from(records.keys())) + 1;
+}
+
+function randomKey(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+function addBillingCycle(date: Date, billingCycle: string): Date {
+  switch (billingCycle) {
+    case 'quarterly':
+      return new Date(date.getFullYear(), date.getMonth() + 3, date.getDate());
+    case 'yearly':
+      return new Date(date.getFullYear() + 1, date.getMonth(), date.getDate());
+    default:
+      return new Date(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+}
+
+function toPlanVersion(plan: SubscriptionPlan, createdBy?: string): SubscriptionPlanVersion {
+  return {
+    planId: plan.id,
+    version: plan.version,
+    name: plan.name,
+    description: plan.description,
+    billingCycle: plan.billingCycle,
+    discountPercentage: plan.discountPercentage,
+    minimumItems: plan.minimumItems,
+    features: plan.features,
+    priceRules: plan.priceRules,
+    createdAt: plan.updatedAt,
+    ...(createdBy !== undefined ? { createdBy } : {})
+  };
+}
+
+/**
+ * In-memory IStorage (STORAGE_DRIVER=memory)
+ * Lets the server boot and be exercised without Firebase or Postgres. Nothing survives a restart.
+ * Each method runs to completion without awaiting, so the compare-and-set operations that
+ * Firebase does in transactions are atomic here by construction.
+ */
+export class MemoryStorage implements IStorage {
+  private pcBuilds = new Map<number, PcBuild>();
+  private components = new Map<number, Component>();
+  private inquiries = new Map<number, Inquiry>();
+  private userProfiles = new Map<string, UserProfile>();
+  private orders = new Map<number, Order>();
+  private orderStatusEvents = new Map<string, OrderStatusEvent>();
+  private orderRefunds = new Map<string, OrderRefund>();
+  private creditNotes = new Map<string, CreditNote>();
+  private taxInvoices = new Map<number, TaxInvoice>(); // keyed by order
+  private invoiceDocuments = new Map<number, InvoiceDocument>(); // keyed by order
+  private sequences = new Map<string, number>();
+  private savedBuilds = new Map<number, SavedBuild>();
+  private userAddresses = new Map<string, UserAddress>();
+  private stockMovements = new Map<string, StockMovement>();
+  private stockAlerts = new Map<number, StockAlert>();
+  private stockReservations = new Map<string, StockReservation>();
+  private subscriptions = new Map<string, Subscription>();
+  private subscriptionOrders = new Map<string, SubscriptionOrder>();
+  private subscriptionPlans = new Map<string, SubscriptionPlan>();
+  private subscriptionPlanVersions = new Map<string, SubscriptionPlanVersion>(); // `${planId}:v${version}`
+  private discountCodes = new Map<string, DiscountCode>();
+  private discountCustomerUsage = new Map<string, number>(); // `${discountId}:${userId}`
+  private discountRedemptions = new Map<string, DiscountRedemption>();
+  private bulkPricingTiers = new Map<string, BulkPricingTier>();
+  private catalogComponents = new Map<string, CatalogComponent>();
+  private supportTickets = new Map<string, SupportTicket>();
+  private supportSlaPolicies = new Map<string, SupportSlaPolicy>();
+  private chatSessions = new Map<string, ChatSession>();
+  private chatMessages = new Map<string, ChatMessage>();
+  private adminSettings = new Map<string, AdminSetting>();
+  private jobLocks = new Map<string, { holder: string; acquiredAt: number; expiresAt: number }>();
+  private syncOutbox = new Map<string, SyncOutboxEntry>();
+
+  constructor(options: { seed?: boolean } = {}) {
+    if (options.seed !== false) this.seedSampleData();
+  }
+
+  // Replaces builds, components and inquiries with the fixtures; also used by POST /api/seed-firebase
+  seedSampleData(): void {
+    this.pcBuilds = new Map(MEMORY_FIXTURE_BUILDS.map(build => [build.id, clone(build)]));
+    this.components = new Map(MEMORY_FIXTURE_COMPONENTS.map(component => [component.id, clone(component)]));
+    this.inquiries = new Map(MEMORY_FIXTURE_INQUIRIES.map(inquiry => [inquiry.id, clone(inquiry)]));
+    logger.db(`Seeded in-memory storage with ${this.pcBuilds.size} PC builds`);
+  }
+
+  // PC Builds
+  async getPcBuilds(): Promise<PcBuild[]> {
+    return Array.from(this.pcBuilds.values()).map(clone);
+  }
+
+  async getPcBuildById(id: number): Promise<PcBuild | undefined> {
+    const build = this.pcBuilds.get(id);
+    return build && clone(build);
+  }
+
+  async getPcBuildsByCategory(category: string): Promise<PcBuild[]> {
+    const builds = await this.getPcBuilds();
+    return builds.filter(build => build.category === category);
+  }
+
+  async createPcBuild(build: InsertPcBuild): Promise<PcBuild> {
+    const newBuild: PcBuild = {
+      ...build,
+      id: nextNumericId(this.pcBuilds),
+      stockQuantity: build.stockQuantity || 0,
+      lowStockThreshold: build.lowStockThreshold || 2,
+      isActive: build.isActive !== false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.pcBuilds.set(newBuild.id, clone(newBuild));
+    return newBuild;
+  }
+
+  async updatePcBuild(id: number, buildData: Partial<InsertPcBuild>): Promise<PcBuild> {
+    const build = this.pcBuilds.get(id);
+    if (!build) throw new Error("Build not found");
+
+    const updated = applyUpdates(build, { ...buildData, updatedAt: new Date() });
+    this.pcBuilds.set(id, updated);
+    return clone(updated);
+  }
+
+  async updatePcBuildStock(id: number, stockQuantity: number): Promise<PcBuild> {
+    return this.updatePcBuild(id, { stockQuantity });
+  }
+
+  // Components
+  async getComponentsByBuildId(buildId: number): Promise<Component[]> {
+    return Array.from(this.components.values())
+      .filter(component => component.buildId === buildId)
+      .map(clone);
+  }
+
+  async createComponent(component: InsertComponent): Promise<Component> {
+    const newComponent: Component = {
+      ...component,
+      id: nextNumericId(this.components),
+      stockQuantity: component.stockQuantity || 0,
+      lowStockThreshold: component.lowStockThreshold || 5,
+      isActive: component.isActive !== false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.components.set(newComponent.id, clone(newComponent));
+    return newComponent;
+  }
+
+  async updateComponentStock(id: number, stockQuantity: number): Promise<Component> {
+    const component = this.components.get(id);
+    if (!component) throw new Error("Component not found");
+
+    const updated = { ...component, stockQuantity, updatedAt: new Date() };
+    this.components.set(id, updated);
+    return clone(updated);
+  }
+
+  // Inquiries
+  async createInquiry(inquiry: InsertInquiry): Promise<Inquiry> {
+    const now = new Date();
+    const newInquiry: Inquiry = {
+      ...inquiry,
+      id: nextNumericId(this.inquiries),
+      status: inquiry.status || "pending",
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.inquiries.set(newInquiry.id, clone(newInquiry));
+    return newInquiry;
+  }
+
+  async getInquiries(): Promise<Inquiry[]> {
+    return Array.from(this.inquiries.values()).map(clone);
+  }
+
+  async listInquiries(query: InquiryListQuery): Promise<ListPage<Inquiry>> {
+    return clonePage(pageInquiries(Array.from(this.inquiries.values()), query));
+  }
+
+  async updateInquiryStatus(id: number, status: string): Promise<Inquiry> {
+    const inquiry = this.inquiries.get(id);
+    if (!inquiry) throw new Error("Inquiry not found");
+
+    const updated = { ...inquiry, status, updatedAt: new Date() };
+    this.inquiries.set(id, updated);
+    return clone(updated);
+  }
+
+  async getInquiriesByStatus(status: string): Promise<Inquiry[]> {
+    const inquiries = await this.getInquiries();
+    return inquiries.filter(inquiry => inquiry.status === status);
+  }
+
+  async clearAllInquiries(): Promise<void> {
+    this.inquiries.clear();
+  }
+
+  // Inventory Management
+  async getLowStockItems(): Promise<{builds: PcBuild[], components: Component[]}> {
+    return {
+      builds: Array.from(this.pcBuilds.values())
+        .filter(build => build.stockQuantity <= build.lowStockThreshold)
+        .map(clone),
+      components: Array.from(this.components.values())
+        .filter(component => component.stockQuantity <= component.lowStockThreshold)
+        .map(clone)
+    };
+  }
+
+  async getStockMovements(itemId?: number, itemType?: 'build' | 'component'): Promise<any[]> {
+    return Array.from(this.stockMovements.values())
+      .filter(movement => !(itemId && itemType) || (movement.itemId === itemId && movement.itemType === itemType))
+      .map(clone);
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const newMovement: StockMovement = { ...movement, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.stockMovements.set(newMovement.id, clone(newMovement));
+    return newMovement;
+  }
+
+  async getStockAlerts(): Promise<StockAlert[]> {
+    return Array.from(this.stockAlerts.values()).map(clone);
+  }
+
+  async resolveStockAlert(alertId: number): Promise<void> {
+    this.stockAlerts.delete(alertId);
+  }
+
+  async reserveBuildStock(buildId: number, quantity: number): Promise<boolean> {
+    const build = this.pcBuilds.get(buildId);
+    if (!build) return false;
+
+    const reserved = build.reservedQuantity || 0;
+    if ((build.stockQuantity || 0) - reserved < quantity) return false;
+
+    this.pcBuilds.set(buildId, { ...build, reservedQuantity: reserved + quantity });
+    return true;
+  }
+
+  async releaseBuildStock(buildId: number, quantity: number): Promise<void> {
+    const build = this.pcBuilds.get(buildId);
+    if (!build) return;
+    this.pcBuilds.set(buildId, { ...build, reservedQuantity: Math.max(0, (build.reservedQuantity || 0) - quantity) });
+  }
+
+  async commitBuildStock(buildId: number, quantity: number): Promise<void> {
+    const build = this.pcBuilds.get(buildId);
+    if (!build) return;
+    this.pcBuilds.set(buildId, {
+      ...build,
+      stockQuantity: Math.max(0, (build.stockQuantity || 0) - quantity),
+      reservedQuantity: Math.max(0, (build.reservedQuantity || 0) - quantity)
+    });
+  }
+
+  async restockBuild(buildId: number, quantity: number): Promise<void> {
+    const build = this.pcBuilds.get(buildId);
+    if (!build) return;
+    this.pcBuilds.set(buildId, { ...build, stockQuantity: (build.stockQuantity || 0) + quantity });
+  }
+
+  // Stock Reservations
+  async createStockReservation(reservation: InsertStockReservation): Promise<StockReservation> {
+    const newReservation: StockReservation = {
+      ...reservation,
+      status: 'reserved',
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    this.stockReservations.set(reservation.id, clone(newReservation));
+    return newReservation;
+  }
+
+  async getStockReservation(id: string): Promise<StockReservation | undefined> {
+    const reservation = this.stockReservations.get(id);
+    return reservation && clone(reservation);
+  }
+
+  async getExpiredStockReservations(before: number): Promise<StockReservation[]> {
+    return Array.from(this.stockReservations.values())
+      .filter(reservation => reservation.status === 'reserved' && reservation.expiresAt < before)
+      .map(clone);
+  }
+
+  async transitionStockReservation(
+    id: string,
+    status: 'committed' | 'released',
+    updates: { orderId?: number; releaseReason?: string } = {}
+  ): Promise<StockReservation | undefined> {
+    const reservation = this.stockReservations.get(id);
+    if (!reservation || reservation.status !== 'reserved') return undefined;
+
+    const updated = applyUpdates(reservation, { ...updates, status, updatedAt: Date.now() });
+    this.stockReservations.set(id, updated);
+    return clone(updated);
+  }
+
+  // User Management
+  async getUserProfile(uid: string): Promise<UserProfile | undefined> {
+    const profile = this.userProfiles.get(uid);
+    return profile && clone(profile);
+  }
+
+  async createUserProfile(profile: InsertUserProfile): Promise<UserProfile> {
+    const existing = this.userProfiles.get(profile.uid);
+    const newProfile: UserProfile = {
+      ...profile,
+      id: existing?.id ?? Math.max(0, ...Array.from(this.userProfiles.values()).map(p => p.id)) + 1,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    };
+
+    this.userProfiles.set(profile.uid, clone(newProfile));
+    return newProfile;
+  }
+
+  async updateUserProfile(uid: string, profileUpdates: Partial<InsertUserProfile>): Promise<UserProfile> {
+    const profile = this.userProfiles.get(uid);
+    if (!profile) throw new Error("Profile not found");
+
+    const updated = applyUpdates(profile, { ...profileUpdates, updatedAt: new Date() });
+    this.userProfiles.set(uid, updated);
+    return clone(updated);
+  }
+
+  async getAllUserProfiles(): Promise<UserProfile[]> {
+    return Array.from(this.userProfiles.values())
+      .map(clone)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async listUserProfiles(query: UserListQuery): Promise<ListPage<UserProfile>> {
+    return clonePage(pageUserProfiles(Array.from(this.userProfiles.values()), query));
+  }
+
+  // Orders Management
+  // Guest orders placed with the account's email belong to it as well
+  async getUserOrders(userId: string): Promise<Order[]> {
+    const email = this.userProfiles.get(userId)?.email?.toLowerCase().trim();
+    return Array.from(this.orders.values())
+      .filter(order => order.userId === userId || (email && order.customerEmail?.toLowerCase().trim() === email))
+      .map(clone)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getAllOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .map(clone)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async listOrders(query: OrderListQuery): Promise<ListPage<Order>> {
+    return clonePage(pageOrders(Array.from(this.orders.values()), query));
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const now = new Date();
+    const newOrder: Order = {
+      ...order,
+      id: nextNumericId(this.orders),
+      status: order.status || "processing",
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.orders.set(newOrder.id, clone(newOrder));
+    logger.db(`Created order: ${newOrder.orderNumber || `Order #${newOrder.id}`} (Total: ₹${newOrder.total?.toLocaleString() || 'N/A'})`);
+    return newOrder;
+  }
+
+  async updateOrderStatus(id: number, status: string): Promise<Order> {
+    const order = this.orders.get(id);
+    if (!order) throw new Error("Order not found");
+
+    const updated = { ...order, status: status as OrderStatus, orderStatus: status, updatedAt: new Date() };
+    this.orders.set(id, updated);
+    return clone(updated);
+  }
+
+  async getOrderById(id: number): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    return order && clone(order);
+  }
+
+  async getOrderByRazorpayOrderId(razorpayOrderId: string): Promise<Order | undefined> {
+    const order = Array.from(this.orders.values()).find(candidate => candidate.razorpayOrderId === razorpayOrderId);
+    return order && clone(order);
+  }
+
+  async clearAllOrders(): Promise<void> {
+    this.orders.clear();
+  }
+
+  async transitionOrderStatus(
+    id: number,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    updates: { trackingNumber?: string; razorpayPaymentId?: string } = {}
+  ): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== fromStatus) return undefined;
+
+    const updated = applyUpdates(order, { ...updates, status: toStatus, orderStatus: toStatus, updatedAt: new Date() });
+    this.orders.set(id, updated);
+    return clone(updated);
+  }
+
+  async createOrderStatusEvent(event: InsertOrderStatusEvent): Promise<OrderStatusEvent> {
+    const newEvent: OrderStatusEvent = { ...event, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.orderStatusEvents.set(newEvent.id, clone(newEvent));
+    return newEvent;
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusEvent[]> {
+    return Array.from(this.orderStatusEvents.values())
+      .filter(event => event.orderId === orderId)
+      .map(clone)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addOrderRefundedAmount(id: number, amount: number): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const updated = { ...order, refundedAmount: (order.refundedAmount || 0) + amount, updatedAt: new Date() };
+    this.orders.set(id, updated);
+    return clone(updated);
+  }
+
+  async updateOrderRefundStatus(id: number, refundStatus: OrderRefundStatus): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const updated = { ...order, refundStatus, updatedAt: new Date() };
+    this.orders.set(id, updated);
+    return clone(updated);
+  }
+
+  // Refunds & Credit Notes
+  async createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund> {
+    const newRefund: OrderRefund = { ...refund, createdAt: new Date().toISOString() };
+    this.orderRefunds.set(refund.id, clone(newRefund));
+    return newRefund;
+  }
+
+  async claimOrderRefund(refund: InsertOrderRefund, orderTotal: number): Promise<OrderRefund | undefined> {
+    const claimed = Array.from(this.orderRefunds.values())
+      .filter(existing => existing.orderId === refund.orderId && existing.status !== 'failed')
+      .reduce((sum, existing) => sum + existing.amount, 0);
+    if (refund.amount > orderTotal - claimed) return undefined;
+
+    return this.createOrderRefund(refund);
+  }
+
+  async rekeyOrderRefund(id: string, refundId: string): Promise<OrderRefund | undefined> {
+    const refund = this.orderRefunds.get(id);
+    if (!refund || this.orderRefunds.has(refundId)) return undefined;
+
+    const updated = { ...refund, id: refundId };
+    this.orderRefunds.delete(id);
+    this.orderRefunds.set(refundId, updated);
+    return clone(updated);
+  }
+
+  async getOrderRefund(id: string): Promise<OrderRefund | undefined> {
+    const refund = this.orderRefunds.get(id);
+    return refund && clone(refund);
+  }
+
+  async getOrderRefunds(orderId: number): Promise<OrderRefund[]> {
+    return Array.from(this.orderRefunds.values())
+      .filter(refund => refund.orderId === orderId)
+      .map(clone)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async transitionOrderRefund(
+    id: string,
+    status: 'processed' | 'failed',
+    updates: { failureReason?: string } = {}
+  ): Promise<OrderRefund | undefined> {
+    const refund = this.orderRefunds.get(id);
+    if (!refund || refund.status !== 'pending') return undefined;
+
+    const updated = applyUpdates(refund, { ...updates, status, processedAt: new Date().toISOString() });
+    this.orderRefunds.set(id, updated);
+    return clone(updated);
+  }
+
+  async updateOrderRefund(id: string, updates: { creditNoteNumber?: string }): Promise<OrderRefund | undefined> {
+    const refund = this.orderRefunds.get(id);
+    if (!refund) return undefined;
+
+    const updated = applyUpdates(refund, updates);
+    this.orderRefunds.set(id, updated);
+    return clone(updated);
+  }
+
+  async createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote> {
+    const newCreditNote: CreditNote = { ...creditNote, id: randomUUID(), issuedAt: new Date().toISOString() };
+    this.creditNotes.set(newCreditNote.id, clone(newCreditNote));
+    return newCreditNote;
+  }
+
+  async getCreditNotes(orderId: number): Promise<CreditNote[]> {
+    return Array.from(this.creditNotes.values())
+      .filter(creditNote => creditNote.orderId === orderId)
+      .map(clone)
+      .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  }
+
+  // Tax Invoices
+  async createTaxInvoice(invoice: InsertTaxInvoice, numbering: { sequence: string; prefix: string }): Promise<TaxInvoice> {
+    if (!this.taxInvoices.has(invoice.orderId)) {
+      const invoiceNumber = formatDocumentNumber(numbering.prefix, await this.getNextSequenceValue(numbering.sequence));
+      this.taxInvoices.set(invoice.orderId, clone({ ...invoice, id: invoiceNumber, invoiceNumber, issuedAt: new Date().toISOString() }));
+    }
+    return clone(this.taxInvoices.get(invoice.orderId)!);
+  }
+
+  async getTaxInvoiceByOrderId(orderId: number): Promise<TaxInvoice | undefined> {
+    const invoice = this.taxInvoices.get(orderId);
+    return invoice && clone(invoice);
+  }
+
+  async saveInvoiceDocument(document: InsertInvoiceDocument): Promise<InvoiceDocument> {
+    if (!this.invoiceDocuments.has(document.orderId)) {
+      this.invoiceDocuments.set(document.orderId, clone({ ...document, createdAt: new Date().toISOString() }));
+    }
+    return clone(this.invoiceDocuments.get(document.orderId)!);
+  }
+
+  async getInvoiceDocument(orderId: number): Promise<InvoiceDocument | undefined> {
+    const document = this.invoiceDocuments.get(orderId);
+    return document && clone(document);
+  }
+
+  // Document Sequences
+  async getNextSequenceValue(sequence: string): Promise<number> {
+    const value = (this.sequences.get(sequence) || 0) + 1;
+    this.sequences.set(sequence, value);
+    return value;
+  }
+
+  // Saved Builds Management
+  async getUserSavedBuilds(userId: string): Promise<SavedBuild[]> {
+    return Array.from(this.savedBuilds.values())
+      .filter(savedBuild => savedBuild.userId === userId)
+      .map(clone);
+  }
+
+  async saveUserBuild(savedBuild: InsertSavedBuild): Promise<SavedBuild> {
+    const newSavedBuild: SavedBuild = { ...savedBuild, id: nextNumericId(this.savedBuilds), savedAt: new Date() };
+    this.savedBuilds.set(newSavedBuild.id, clone(newSavedBuild));
+    return newSavedBuild;
+  }
+
+  async removeSavedBuild(userId: string, buildId: number): Promise<void> {
+    const savedBuild = Array.from(this.savedBuilds.values())
+      .find(candidate => candidate.userId === userId && candidate.buildId === buildId);
+    if (savedBuild) this.savedBuilds.delete(savedBuild.id);
+  }
+
+  // Address Management
+  async getUserAddresses(userId: string): Promise<UserAddress[]> {
+    return Array.from(this.userAddresses.values())
+      .filter(address => address.userId === userId)
+      .map(clone);
+  }
+
+  async saveUserAddress(address: InsertUserAddress): Promise<UserAddress> {
+    const newAddress: UserAddress = {
+      ...address,
+      id: randomUUID(),
+      createdAt: new Date(),
+      isDefault: address.isDefault ?? false
+    };
+
+    if (newAddress.isDefault) this.clearDefaultAddress(address.userId);
+    this.userAddresses.set(newAddress.id, clone(newAddress));
+    return newAddress;
+  }
+
+  async updateUserAddress(addressId: string, addressUpdates: Partial<InsertUserAddress>): Promise<UserAddress> {
+    const address = this.userAddresses.get(addressId);
+    if (!address) throw new Error('Address not found');
+
+    if (addressUpdates.isDefault) this.clearDefaultAddress(address.userId);
+    const updated = applyUpdates(address, addressUpdates);
+    this.userAddresses.set(addressId, updated);
+    return clone(updated);
+  }
+
+  async deleteUserAddress(addressId: string): Promise<void> {
+    this.userAddresses.delete(addressId);
+  }
+
+  async setDefaultAddress(userId: string, addressId: string): Promise<void> {
+    this.clearDefaultAddress(userId);
+    const address = this.userAddresses.get(addressId);
+    if (address?.userId === userId) this.userAddresses.set(addressId, { ...address, isDefault: true });
+  }
+
+  // Account Linking Methods
+  async getUserProfilesByEmail(email: string): Promise<UserProfile[]> {
+    return Array.from(this.userProfiles.values())
+      .filter(profile => profile.email === email)
+      .map(clone);
+  }
+
+  async getOrdersByEmail(email: string): Promise<Order[]> {
+    const orders = await this.getAllOrders();
+    return orders.filter(order => order.customerEmail?.toLowerCase() === email.toLowerCase());
+  }
+
+  async getSavedBuildsByEmail(email: string): Promise<SavedBuild[]> {
+    const userIds = new Set((await this.getUserProfilesByEmail(email)).map(profile => profile.uid));
+    return Array.from(this.savedBuilds.values())
+      .filter(savedBuild => userIds.has(savedBuild.userId))
+      .map(clone);
+  }
+
+  // Like the Prisma store, the other profiles hand over everything they own and are then removed
+  async mergeUserAccounts(currentUserId: string, email: string, mergeData: {
+    profiles: UserProfile[];
+    orders: Order[];
+    savedBuilds: SavedBuild[];
+  }): Promise<void> {
+    const primaryProfile = mergeData.profiles.find(p => p.uid === currentUserId) || mergeData.profiles[0];
+    const otherUids = new Set(mergeData.profiles.map(p => p.uid).filter(uid => uid !== currentUserId));
+    const mergedOrderIds = new Set(mergeData.orders.map(order => order.id));
+    const now = new Date();
+
+    if (primaryProfile) {
+      const existing = this.userProfiles.get(currentUserId);
+      this.userProfiles.set(currentUserId, clone({
+        ...primaryProfile,
+        ...existing,
+        uid: currentUserId,
+        email,
+        displayName: primaryProfile.displayName || mergeData.profiles.find(p => p.displayName)?.displayName,
+        phone: primaryProfile.phone || mergeData.profiles.find(p => p.phone)?.phone,
+        address: primaryProfile.address || mergeData.profiles.find(p => p.address)?.address,
+        city: primaryProfile.city || mergeData.profiles.find(p => p.city)?.city,
+        zipCode: primaryProfile.zipCode || mergeData.profiles.find(p => p.zipCode)?.zipCode,
+        updatedAt: now
+      }));
+    }
+
+    this.orders.forEach((order, id) => {
+      if (otherUids.has(order.userId) || mergedOrderIds.has(id)) {
+        this.orders.set(id, { ...order, userId: currentUserId, updatedAt: now });
+      }
+    });
+
+    const alreadySaved = new Set(
+      Array.from(this.savedBuilds.values()).filter(savedBuild => savedBuild.userId === currentUserId).map(savedBuild => savedBuild.buildId)
+    );
+    this.savedBuilds.forEach((savedBuild, id) => {
+      if (!otherUids.has(savedBuild.userId)) return;
+      if (alreadySaved.has(savedBuild.buildId)) {
+        this.savedBuilds.delete(id);
+      } else {
+        alreadySaved.add(savedBuild.buildId);
+        this.savedBuilds.set(id, { ...savedBuild, userId: currentUserId });
+      }
+    });
+
+    this.userAddresses.forEach((address, id) => {
+      if (otherUids.has(address.userId)) this.userAddresses.set(id, { ...address, userId: currentUserId, isDefault: false });
+    });
+    this.subscriptions.forEach((subscription, id) => {
+      if (otherUids.has(subscription.userId)) this.subscriptions.set(id, { ...subscription, userId: currentUserId });
+    });
+    this.subscriptionOrders.forEach((order, id) => {
+      if (otherUids.has(order.userId)) this.subscriptionOrders.set(id, { ...order, userId: currentUserId });
+    });
+
+    otherUids.forEach(uid => this.userProfiles.delete(uid));
+  }
+
+  // Subscription Management
+  async getUserSubscriptions(userId: string): Promise<Subscription[]> {
+    const subscriptions = await this.getAllSubscriptions();
+    return subscriptions.filter(subscription => subscription.userId === userId);
+  }
+
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .map(clone)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async listSubscriptions(query: SubscriptionListQuery): Promise<ListPage<Subscription>> {
+    return clonePage(pageSubscriptions(Array.from(this.subscriptions.values()), query));
+  }
+
+  async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
+    const now = new Date();
+    const currentPeriodEnd = addBillingCycle(now, subscription.billingCycle);
+    const newSubscription: Subscription = {
+      ...subscription,
+      id: `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      currentPeriodStart: now,
+      currentPeriodEnd,
+      nextBillingDate: currentPeriodEnd,
+      totalDelivered: 0,
+      successfulPayments: 0,
+      failedPayments: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.subscriptions.set(newSubscription.id, clone(newSubscription));
+    return newSubscription;
+  }
+
+  async updateSubscription(id: string, subscription: Partial<InsertSubscription>): Promise<Subscription> {
+    return this.writeSubscription(id, { ...subscription, updatedAt: new Date() });
+  }
+
+  async updateSubscriptionStatus(id: string, status: 'active' | 'paused' | 'cancelled' | 'expired' | 'pending'): Promise<Subscription> {
+    return this.writeSubscription(id, {
+      status,
+      updatedAt: new Date(),
+      ...(status === 'cancelled' ? { cancelledAt: new Date() } : {})
+    });
+  }
+
+  async getSubscriptionById(id: string): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    return subscription && clone(subscription);
+  }
+
+  async cancelSubscription(id: string, reason?: string): Promise<Subscription> {
+    return this.writeSubscription(id, {
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancellationReason: reason,
+      updatedAt: new Date()
+    });
+  }
+
+  async pauseSubscription(id: string): Promise<Subscription> {
+    return this.updateSubscriptionStatus(id, 'paused');
+  }
+
+  async resumeSubscription(id: string): Promise<Subscription> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) throw new Error("Subscription not found");
+
+    const now = new Date();
+    const nextBillingDate = addBillingCycle(now, subscription.billingCycle);
+    return this.writeSubscription(id, {
+      status: 'active',
+      nextBillingDate,
+      currentPeriodStart: now,
+      currentPeriodEnd: nextBillingDate,
+      updatedAt: now
+    });
+  }
+
+  async getActiveSubscriptions(): Promise<Subscription[]> {
+    const subscriptions = await this.getAllSubscriptions();
+    return subscriptions.filter(subscription => subscription.status === 'active');
+  }
+
+  async getSubscriptionsDueBilling(date?: Date): Promise<Subscription[]> {
+    const targetDate = date || new Date();
+    const subscriptions = await this.getAllSubscriptions();
+    return subscriptions.filter(subscription =>
+      subscription.status === 'active' && new Date(subscription.nextBillingDate) <= targetDate
+    );
+  }
+
+  async updateSubscriptionBilling(id: string, updates: SubscriptionBillingUpdate): Promise<Subscription | undefined> {
+    if (!this.subscriptions.has(id)) return undefined;
+    return this.writeSubscription(id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Subscription Orders Management
+  async getSubscriptionOrders(subscriptionId: string): Promise<SubscriptionOrder[]> {
+    return this.listSubscriptionOrders(order => order.subscriptionId === subscriptionId);
+  }
+
+  async getUserSubscriptionOrders(userId: string): Promise<SubscriptionOrder[]> {
+    return this.listSubscriptionOrders(order => order.userId === userId);
+  }
+
+  async createSubscriptionOrder(order: InsertSubscriptionOrder): Promise<SubscriptionOrder> {
+    const newOrder: SubscriptionOrder = {
+      ...order,
+      id: `sub_order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.subscriptionOrders.set(newOrder.id, clone(newOrder));
+    return newOrder;
+  }
+
+  async updateSubscriptionOrderStatus(id: string, status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'failed'): Promise<SubscriptionOrder> {
+    const order = this.subscriptionOrders.get(id);
+    if (!order) throw new Error("Subscription order not found");
+
+    const updated = {
+      ...order,
+      status,
+      updatedAt: new Date(),
+      ...(status === 'delivered' ? { deliveryDate: new Date() } : {})
+    };
+    this.subscriptionOrders.set(id, updated);
+    return clone(updated);
+  }
+
+  async getSubscriptionOrderById(id: string): Promise<SubscriptionOrder | undefined> {
+    const order = this.subscriptionOrders.get(id);
+    return order && clone(order);
+  }
+
+  async updateSubscriptionOrderBilling(id: string, updates: SubscriptionOrderBillingUpdate): Promise<SubscriptionOrder | undefined> {
+    const order = this.subscriptionOrders.get(id);
+    if (!order) return undefined;
+
+    const updated = applyUpdates(order, { ...updates, updatedAt: new Date() });
+    this.subscriptionOrders.set(id, updated);
+    return clone(updated);
+  }
+
+  async getSubscriptionOrdersAwaitingRetry(before: number): Promise<SubscriptionOrder[]> {
+    return Array.from(this.subscriptionOrders.values())
+      .filter(order => order.status === 'pending' && order.nextRetryAt !== undefined && order.nextRetryAt <= before)
+      .map(clone)
+      .sort((a, b) => a.nextRetryAt! - b.nextRetryAt!);
+  }
+
+  // Subscription Plans
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    return Array.from(this.subscriptionPlans.values())
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async getSubscriptionPlan(id: string): Promise<SubscriptionPlan | undefined> {
+    const plan = this.subscriptionPlans.get(id);
+    return plan && clone(plan);
+  }
+
+  async createSubscriptionPlan(plan: InsertSubscriptionPlan, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    if (this.subscriptionPlans.has(plan.id)) return undefined;
+
+    const now = Date.now();
+    const newPlan: SubscriptionPlan = { ...plan, version: 1, status: 'active', createdAt: now, updatedAt: now };
+    this.subscriptionPlans.set(plan.id, clone(newPlan));
+    this.subscriptionPlanVersions.set(`${plan.id}:v1`, clone(toPlanVersion(newPlan, createdBy)));
+    return newPlan;
+  }
+
+  async updateSubscriptionPlan(id: string, updates: SubscriptionPlanUpdate, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    const plan = this.subscriptionPlans.get(id);
+    if (!plan) return undefined;
+
+    const updated = applyUpdates(plan, { ...updates, version: plan.version + 1, updatedAt: Date.now() });
+    this.subscriptionPlans.set(id, updated);
+    this.subscriptionPlanVersions.set(`${id}:v${updated.version}`, clone(toPlanVersion(updated, createdBy)));
+    return clone(updated);
+  }
+
+  async setSubscriptionPlanStatus(id: string, status: SubscriptionPlanStatus): Promise<SubscriptionPlan | undefined> {
+    const plan = this.subscriptionPlans.get(id);
+    if (!plan) return undefined;
+
+    const now = Date.now();
+    const updated = applyUpdates(plan, { status, updatedAt: now, retiredAt: status === 'retired' ? now : null });
+    this.subscriptionPlans.set(id, updated);
+    return clone(updated);
+  }
+
+  async getSubscriptionPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]> {
+    return Array.from(this.subscriptionPlanVersions.values())
+      .filter(version => version.planId === planId)
+      .map(clone)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getSubscriptionPlanVersion(planId: string, version: number): Promise<SubscriptionPlanVersion | undefined> {
+    const planVersion = this.subscriptionPlanVersions.get(`${planId}:v${version}`);
+    return planVersion && clone(planVersion);
+  }
+
+  // Discounts Management
+  async getDiscountCodes(): Promise<DiscountCode[]> {
+    return Array.from(this.discountCodes.values())
+      .map(clone)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined> {
+    const discounts = await this.getDiscountCodes();
+    return discounts.find(discount => discount.code === code.toUpperCase());
+  }
+
+  async createDiscountCode(discount: InsertDiscountCode): Promise<DiscountCode> {
+    const newDiscount: DiscountCode = {
+      ...discount,
+      id: randomKey('discount'),
+      code: discount.code.toUpperCase(),
+      usageCount: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    this.discountCodes.set(newDiscount.id, clone(newDiscount));
+    return newDiscount;
+  }
+
+  async updateDiscountCode(id: string, updates: Partial<InsertDiscountCode>): Promise<DiscountCode | undefined> {
+    const discount = this.discountCodes.get(id);
+    if (!discount) return undefined;
+
+    const updated = applyUpdates(discount, { ...updates, updatedAt: Date.now() });
+    this.discountCodes.set(id, updated);
+    return clone(updated);
+  }
+
+  async getBulkPricingTiers(): Promise<BulkPricingTier[]> {
+    return Array.from(this.bulkPricingTiers.values())
+      .map(clone)
+      .sort((a, b) => a.minimumQuantity - b.minimumQuantity);
+  }
+
+  async saveBulkPricingTier(tier: BulkPricingTier): Promise<BulkPricingTier> {
+    this.bulkPricingTiers.set(tier.id, clone(tier));
+    return tier;
+  }
+
+  async getDiscountRedemptions(discountId: string, userId?: string): Promise<DiscountRedemption[]> {
+    return Array.from(this.discountRedemptions.values())
+      .filter(redemption => redemption.discountId === discountId && (!userId || redemption.userId === userId))
+      .map(clone);
+  }
+
+  async redeemDiscountCode(discountId: string, userId: string, checkoutId: string): Promise<DiscountRedemptionResult> {
+    const discount = this.discountCodes.get(discountId);
+    if (!discount) return { success: false, reason: 'not_found' };
+
+    const existing = Array.from(this.discountRedemptions.values())
+      .find(redemption => redemption.discountId === discountId && redemption.checkoutId === checkoutId);
+    if (existing) return { success: true, redemption: clone(existing) };
+
+    const usageKey = `${discountId}:${userId}`;
+    const customerCount = this.discountCustomerUsage.get(usageKey) || 0;
+    if (discount.usageLimit && discount.usageCount >= discount.usageLimit) {
+      return { success: false, reason: 'usage_limit' };
+    }
+    if (discount.usagePerCustomer && customerCount >= discount.usagePerCustomer) {
+      return { success: false, reason: 'customer_limit' };
+    }
+
+    this.discountCodes.set(discountId, { ...discount, usageCount: discount.usageCount + 1, updatedAt: Date.now() });
+    this.discountCustomerUsage.set(usageKey, customerCount + 1);
+
+    const redemption: DiscountRedemption = {
+      id: randomUUID(),
+      discountId,
+      code: discount.code,
+      userId,
+      checkoutId,
+      redeemedAt: Date.now()
+    };
+    this.discountRedemptions.set(redemption.id, clone(redemption));
+    return { success: true, redemption };
+  }
+
+  async releaseDiscountRedemption(discountId: string, checkoutId: string): Promise<boolean> {
+    const held = Array.from(this.discountRedemptions.values())
+      .find(redemption => redemption.discountId === discountId && redemption.checkoutId === checkoutId);
+    if (!held) return false;
+
+    this.discountRedemptions.delete(held.id);
+    const usageKey = `${discountId}:${held.userId}`;
+    this.discountCustomerUsage.set(usageKey, Math.max(0, (this.discountCustomerUsage.get(usageKey) || 0) - 1));
+
+    const discount = this.discountCodes.get(discountId);
+    if (discount) {
+      this.discountCodes.set(discountId, { ...discount, usageCount: Math.max(0, discount.usageCount - 1), updatedAt: Date.now() });
+    }
+    return true;
+  }
+
+  // Component Catalog
+  async getCatalogComponents(): Promise<CatalogComponent[]> {
+    return Array.from(this.catalogComponents.values())
+      .map(clone)
+      .sort((a, b) => a.category.localeCompare(b.category) || a.price - b.price);
+  }
+
+  async getCatalogComponent(id: string): Promise<CatalogComponent | undefined> {
+    const component = this.catalogComponents.get(id);
+    return component && clone(component);
+  }
+
+  async createCatalogComponent(component: InsertCatalogComponent): Promise<CatalogComponent> {
+    const newComponent: CatalogComponent = {
+      ...component,
+      id: randomKey('catalog'),
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    this.catalogComponents.set(newComponent.id, clone(newComponent));
+    return newComponent;
+  }
+
+  async updateCatalogComponent(id: string, updates: Partial<InsertCatalogComponent>): Promise<CatalogComponent | undefined> {
+    const component = this.catalogComponents.get(id);
+    if (!component) return undefined;
+
+    const updated = applyUpdates(component, { ...updates, updatedAt: Date.now() });
+    this.catalogComponents.set(id, updated);
+    return clone(updated);
+  }
+
+  async deleteCatalogComponent(id: string): Promise<boolean> {
+    return this.catalogComponents.delete(id);
+  }
+
+  // Support Tickets
+  async createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const newTicket: SupportTicket = { ...ticket, responses: [], createdAt: Date.now(), updatedAt: Date.now() };
+    this.supportTickets.set(ticket.id, clone(newTicket));
+    return newTicket;
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
+    const ticket = this.supportTickets.get(id);
+    return ticket && clone(ticket);
+  }
+
+  async getSupportTickets(filters: { userId?: string } = {}): Promise<SupportTicket[]> {
+    return Array.from(this.supportTickets.values())
+      .filter(ticket => !filters.userId || ticket.userId === filters.userId)
+      .map(clone)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSupportTicketByMessageId(messageId: string): Promise<SupportTicket | undefined> {
+    const ticket = Array.from(this.supportTickets.values()).find(ticket => ticket.sourceMessageId === messageId
+      || ticket.responses.some(response => response.sourceMessageId === messageId));
+    return ticket && clone(ticket);
+  }
+
+  async updateSupportTicket(id: string, updates: SupportTicketUpdate): Promise<SupportTicket | undefined> {
+    const ticket = this.supportTickets.get(id);
+    if (!ticket) return undefined;
+
+    const updated = applyUpdates(ticket, { ...updates, updatedAt: Date.now() });
+    this.supportTickets.set(id, updated);
+    return clone(updated);
+  }
+
+  async addSupportTicketResponse(ticketId: string, response: SupportTicketResponse): Promise<SupportTicket | undefined> {
+    const ticket = this.supportTickets.get(ticketId);
+    if (!ticket) return undefined;
+
+    const responses = [...ticket.responses.filter(existing => existing.id !== response.id), clone(response)]
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const updated = { ...ticket, responses, updatedAt: response.timestamp };
+    this.supportTickets.set(ticketId, updated);
+    return clone(updated);
+  }
+
+  async deleteSupportTicket(id: string): Promise<boolean> {
+    return this.supportTickets.delete(id);
+  }
+
+  // Support SLA Policies
+  async getSupportSlaPolicies(): Promise<SupportSlaPolicy[]> {
+    return Array.from(this.supportSlaPolicies.values())
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy> {
+    const newPolicy: SupportSlaPolicy = { ...policy, id: randomKey('sla'), createdAt: Date.now(), updatedAt: Date.now() };
+    this.supportSlaPolicies.set(newPolicy.id, clone(newPolicy));
+    return newPolicy;
+  }
+
+  async updateSupportSlaPolicy(id: string, updates: Partial<InsertSupportSlaPolicy>): Promise<SupportSlaPolicy | undefined> {
+    const policy = this.supportSlaPolicies.get(id);
+    if (!policy) return undefined;
+
+    const updated = applyUpdates(policy, { ...updates, updatedAt: Date.now() });
+    this.supportSlaPolicies.set(id, updated);
+    return clone(updated);
+  }
+
+  async deleteSupportSlaPolicy(id: string): Promise<boolean> {
+    return this.supportSlaPolicies.delete(id);
+  }
+
+  // AI Chat Sessions
+  async createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    const newSession: ChatSession = { ...session, messageCount: 0, createdAt: Date.now(), updatedAt: Date.now() };
+    this.chatSessions.set(session.id, clone(newSession));
+    return newSession;
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | undefined> {
+    const session = this.chatSessions.get(id);
+    return session && clone(session);
+  }
+
+  async getChatSessions(filters: { status?: ChatSessionStatus; userId?: string } = {}): Promise<ChatSession[]> {
+    return Array.from(this.chatSessions.values())
+      .filter(session => !filters.status || session.status === filters.status)
+      .filter(session => !filters.userId || session.userId === filters.userId)
+      .map(clone)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async updateChatSession(id: string, updates: ChatSessionUpdate): Promise<ChatSession | undefined> {
+    const session = this.chatSessions.get(id);
+    if (!session) return undefined;
+
+    const updated = applyUpdates(session, { ...updates, updatedAt: Date.now() });
+    this.chatSessions.set(id, updated);
+    return clone(updated);
+  }
+
+  async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const newMessage: ChatMessage = { ...message, id: randomKey('msg'), createdAt: Date.now() };
+    this.chatMessages.set(newMessage.id, clone(newMessage));
+
+    const session = this.chatSessions.get(message.sessionId);
+    if (session) {
+      this.chatSessions.set(session.id, { ...session, messageCount: session.messageCount + 1, updatedAt: newMessage.createdAt });
+    }
+    return newMessage;
+  }
+
+  async getChatMessages(sessionId: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter(message => message.sessionId === sessionId)
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+  }
+
+  // Admin Settings
+  async getAdminSetting(key: string): Promise<AdminSetting | undefined> {
+    const setting = this.adminSettings.get(key);
+    return setting && clone(setting);
+  }
+
+  async setAdminSetting(key: string, value: string): Promise<AdminSetting> {
+    const existing = this.adminSettings.get(key);
+    const setting: AdminSetting = {
+      id: existing?.id ?? this.adminSettings.size + 1,
+      key,
+      value,
+      updatedAt: new Date()
+    };
+    this.adminSettings.set(key, setting);
+    return clone(setting);
+  }
+
+  async getAllAdminSettings(): Promise<AdminSetting[]> {
+    return Array.from(this.adminSettings.values())
+      .map(clone)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  // Job Locks
+  async acquireJobLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lock = this.jobLocks.get(name);
+    if (lock && lock.holder !== holder && lock.expiresAt > now) return false;
+
+    this.jobLocks.set(name, { holder, acquiredAt: now, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async releaseJobLock(name: string, holder: string): Promise<void> {
+    if (this.jobLocks.get(name)?.holder === holder) this.jobLocks.delete(name);
+  }
+
+  // Sync Outbox; only DualWriteStorage queues entries, but the contract is kept for tests
+  async enqueueSyncOutboxEntry(entry: InsertSyncOutboxEntry): Promise<SyncOutboxEntry> {
+    const id = `${entry.entity}:${entry.key}:${entry.target}`;
+    const existing = this.syncOutbox.get(id);
+    const now = Date.now();
+    const queued: SyncOutboxEntry = {
+      ...entry,
+      id,
+      status: 'pending',
+      attempts: existing?.attempts || 0,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.syncOutbox.set(id, clone(queued));
+    return queued;
+  }
+
+  async getSyncOutboxEntries(): Promise<SyncOutboxEntry[]> {
+    return Array.from(this.syncOutbox.values())
+      .map(clone)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async updateSyncOutboxEntry(
+    id: string,
+    updates: Partial<Pick<SyncOutboxEntry, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt'>>
+  ): Promise<SyncOutboxEntry | undefined> {
+    const entry = this.syncOutbox.get(id);
+    if (!entry) return undefined;
+
+    const updated = applyUpdates(entry, { ...updates, updatedAt: Date.now() });
+    this.syncOutbox.set(id, updated);
+    return clone(updated);
+  }
+
+  async deleteSyncOutboxEntry(id: string): Promise<void> {
+    this.syncOutbox.delete(id);
+  }
+
+  private clearDefaultAddress(userId: string): void {
+    this.userAddresses.forEach((address, id) => {
+      if (address.userId === userId && address.isDefault) this.userAddresses.set(id, { ...address, isDefault: false });
+    });
+  }
+
+  private writeSubscription(id: string, updates: object): Subscription {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) throw new Error("Subscription not found");
+
+    const updated = applyUpdates(subscription, updates);
+    this.subscriptions.set(id, updated);
+    return clone(updated);
+  }
+
+  private listSubscriptionOrders(predicate: (order: SubscriptionOrder) => boolean): SubscriptionOrder[] {
+    return Array.from(this.subscriptionOrders.values())
+      .filter(predicate)
+      .map(clone)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+}
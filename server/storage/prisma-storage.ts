@@ -1,5 +1,27 @@
-import { PrismaClient } from '../../generated/prisma';
+import {
+  PrismaClient,
+  Prisma,
+  type OrderStatusEvent as OrderStatusEventRow,
+  type OrderRefund as OrderRefundRow,
+  type CreditNote as CreditNoteRow,
+  type TaxInvoice as TaxInvoiceRow,
+  type StockMovement as StockMovementRow,
+  type StockReservation as StockReservationRow,
+  type StockAlert as StockAlertRow,
+  type AdminSetting as AdminSettingRow,
+  type SyncOutboxEntry as SyncOutboxEntryRow,
+  type CatalogComponent as CatalogComponentRow,
+  type SubscriptionPlan as SubscriptionPlanRow,
+  type SubscriptionPlanVersion as SubscriptionPlanVersionRow,
+  type SupportSlaPolicy as SupportSlaPolicyRow,
+  type ChatSession as ChatSessionRow,
+  type ChatMessage as ChatMessageRow,
+  type DiscountCode as DiscountCodeRow,
+  type DiscountRedemption as DiscountRedemptionRow,
+  type MigrationIdMap as MigrationIdMapRow
+} from '../../generated/prisma';
 import type { IStorage } from '../firebase-realtime-storage';
+import type { MigrationCheckpoint, MigrationFailure, MigrationModel, MigrationRow } from './firebase-prisma-migration';
 import type {
   PcBuild,
   InsertPcBuild,
@@ -20,11 +42,129 @@ import type {
   Subscription,
   InsertSubscription,
   SubscriptionOrder,
-  InsertSubscriptionOrder
+  InsertSubscriptionOrder,
+  DiscountCode,
+  InsertDiscountCode,
+  BulkPricingTier,
+  DiscountRedemption,
+  DiscountRedemptionResult,
+  StockMovement,
+  InsertStockMovement,
+  StockReservation,
+  InsertStockReservation,
+  OrderStatus,
+  OrderStatusEvent,
+  InsertOrderStatusEvent,
+  OrderRefund,
+  InsertOrderRefund,
+  OrderRefundStatus,
+  CreditNote,
+  InsertCreditNote,
+  TaxInvoice,
+  InsertTaxInvoice,
+  InvoiceDocument,
+  InsertInvoiceDocument,
+  CatalogComponent,
+  InsertCatalogComponent,
+  SupportTicket,
+  SupportTicketResponse,
+  SupportTicketUpdate,
+  InsertSupportTicket,
+  SupportSlaPolicy,
+  InsertSupportSlaPolicy,
+  ChatSession,
+  ChatSessionStatus,
+  ChatSessionUpdate,
+  InsertChatSession,
+  ChatMessage,
+  InsertChatMessage,
+  SubscriptionBillingUpdate,
+  SubscriptionOrderBillingUpdate,
+  SubscriptionPlan,
+  SubscriptionPlanStatus,
+  SubscriptionPlanUpdate,
+  SubscriptionPlanVersion,
+  InsertSubscriptionPlan,
+  SyncOutboxEntry,
+  InsertSyncOutboxEntry,
+  StockAlert,
+  ListPage,
+  OrderListQuery,
+  InquiryListQuery,
+  UserListQuery,
+  SubscriptionListQuery
 } from '../../shared/schema';
+import { decodeListCursor, isDateSort, toListPage, type ListOrdering } from './list-query';
+import { formatDocumentNumber } from '../utils/financial-year';
 
 const prisma = new PrismaClient();
 
+type SupportTicketRow = Prisma.SupportTicketGetPayload<{ include: { responses: true } }>;
+
+// What the Firebase backfill calls on a model looked up by name
+interface MigrationDelegate {
+  findMany(): Prisma.PrismaPromise<Record<string, unknown>[]>;
+  findFirst(args: { where: Record<string, unknown> }): Prisma.PrismaPromise<Record<string, unknown> | null>;
+  aggregate(args: { _max: { id: true } }): Prisma.PrismaPromise<{ _max: { id: number | null } }>;
+  upsert(args: { where: Record<string, unknown>; create: Record<string, unknown>; update: Record<string, unknown> }): Prisma.PrismaPromise<unknown>;
+  deleteMany(args: { where: Record<string, unknown> }): Prisma.PrismaPromise<Prisma.BatchPayload>;
+}
+
+// Json columns hold the shapes declared in shared/schema.ts, which Prisma only knows as JSON values
+function fromJson<T>(value: Prisma.JsonValue): T {
+  return value as unknown as T;
+}
+
+function toJson<T>(value: T): Prisma.InputJsonValue | undefined {
+  return value === undefined ? undefined : value as unknown as Prisma.InputJsonValue;
+}
+
+// P2002: a unique constraint rejected the write
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && (error as { code?: string }).code === 'P2002';
+}
+
+// Thrown inside a transaction to roll back a redemption that breaks a per-customer limit
+class DiscountRedemptionRejected extends Error {
+  constructor(public reason: 'customer_limit') {
+    super(reason);
+  }
+}
+
+// Rows after the cursor: past it on the sort field, or level with it and past it on the key
+function keysetWhere(query: ListOrdering, keyField: string): Record<string, unknown> {
+  const cursor = decodeListCursor(query);
+  if (!cursor) return {};
+
+  const value = isDateSort(query.sort) ? new Date(cursor.value) : cursor.value;
+  const past = query.order === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [
+      { [query.sort]: { [past]: value } },
+      { [query.sort]: value, [keyField]: { [past]: cursor.key } }
+    ]
+  };
+}
+
+// The key is the second sort column so rows sharing a sort value keep a stable order
+function keysetOrderBy(query: ListOrdering, keyField: string) {
+  return [{ [query.sort]: query.order }, { [keyField]: query.order }];
+}
+
+function createdAtRange(query: { from?: Date; to?: Date }) {
+  if (!query.from && !query.to) return {};
+  return { createdAt: { gte: query.from, lte: query.to } };
+}
+
+function amountRange(field: string, query: { minAmount?: number; maxAmount?: number }) {
+  if (query.minAmount === undefined && query.maxAmount === undefined) return {};
+  return { [field]: { gte: query.minAmount, lte: query.maxAmount } };
+}
+
+function emailContains(field: string, email?: string) {
+  return email ? { [field]: { contains: email, mode: 'insensitive' as const } } : {};
+}
+
 export class PrismaStorage implements IStorage {
   
   // PC Builds Management
@@ -149,6 +289,25 @@ export class PrismaStorage implements IStorage {
     });
   }
 
+  async getComponentsByBuildId(buildId: number): Promise<Component[]> {
+    const components = await prisma.component.findMany({
+      where: { buildId },
+      orderBy: { id: 'asc' }
+    });
+    return components.map(this.mapComponentFromPrisma);
+  }
+
+  async updateComponentStock(id: number, stockQuantity: number): Promise<Component> {
+    const updated = await prisma.component.update({
+      where: { id },
+      data: {
+        stockQuantity,
+        updatedAt: new Date()
+      }
+    });
+    return this.mapComponentFromPrisma(updated);
+  }
+
   // Inquiries Management
   async getInquiries(): Promise<Inquiry[]> {
     const inquiries = await prisma.inquiry.findMany({
@@ -175,6 +334,25 @@ export class PrismaStorage implements IStorage {
     return this.mapInquiryFromPrisma(created);
   }
 
+  // One row past the limit is read to tell whether another page follows
+  async listInquiries(query: InquiryListQuery): Promise<ListPage<Inquiry>> {
+    const where: Prisma.InquiryWhereInput = {
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.budget ? { budget: query.budget } : {}),
+      ...createdAtRange(query),
+      ...emailContains('email', query.email)
+    };
+    const [rows, total] = await Promise.all([
+      prisma.inquiry.findMany({
+        where: { AND: [where, keysetWhere(query, 'id')] },
+        orderBy: keysetOrderBy(query, 'id'),
+        take: query.limit + 1
+      }),
+      prisma.inquiry.count({ where })
+    ]);
+    return toListPage(rows.map(this.mapInquiryFromPrisma), query, inquiry => inquiry.id, total);
+  }
+
   async updateInquiryStatus(id: number, status: string): Promise<Inquiry> {
     const updated = await prisma.inquiry.update({
       where: { id },
@@ -194,6 +372,10 @@ export class PrismaStorage implements IStorage {
     return inquiries.map(this.mapInquiryFromPrisma);
   }
 
+  async clearAllInquiries(): Promise<void> {
+    await prisma.inquiry.deleteMany();
+  }
+
   // User Management
   async getUserProfile(uid: string): Promise<UserProfile | undefined> {
     const profile = await prisma.userProfile.findUnique({
@@ -237,13 +419,33 @@ export class PrismaStorage implements IStorage {
     return profiles.map(this.mapUserProfileFromPrisma);
   }
 
+  async listUserProfiles(query: UserListQuery): Promise<ListPage<UserProfile>> {
+    const where: Prisma.UserProfileWhereInput = {
+      ...createdAtRange(query),
+      ...emailContains('email', query.email)
+    };
+    const [rows, total] = await Promise.all([
+      prisma.userProfile.findMany({
+        where: { AND: [where, keysetWhere(query, 'uid')] },
+        orderBy: keysetOrderBy(query, 'uid'),
+        take: query.limit + 1
+      }),
+      prisma.userProfile.count({ where })
+    ]);
+    return toListPage(rows.map(this.mapUserProfileFromPrisma), query, profile => profile.uid, total);
+  }
+
   // Orders Management
+  // Guest orders placed with the account's email belong to it as well
   async getUserOrders(userId: string): Promise<Order[]> {
+    const profile = await prisma.userProfile.findUnique({
+      where: { uid: userId }
+    });
     const orders = await prisma.order.findMany({
       where: {
         OR: [
           { userId },
-          { customerEmail: { not: null } } // Will need to filter by email separately
+          ...(profile?.email ? [{ customerEmail: { equals: profile.email.trim(), mode: 'insensitive' as const } }] : [])
         ]
       },
       orderBy: { id: 'desc' }
@@ -258,6 +460,43 @@ export class PrismaStorage implements IStorage {
     return orders.map(this.mapOrderFromPrisma);
   }
 
+  async getOrderById(id: number): Promise<Order | undefined> {
+    const order = await prisma.order.findUnique({
+      where: { id }
+    });
+    return order ? this.mapOrderFromPrisma(order) : undefined;
+  }
+
+  async getOrderByRazorpayOrderId(razorpayOrderId: string): Promise<Order | undefined> {
+    const order = await prisma.order.findFirst({
+      where: { razorpayOrderId }
+    });
+    return order ? this.mapOrderFromPrisma(order) : undefined;
+  }
+
+  // Status events, refunds, credit notes and invoices cascade with their orders
+  async clearAllOrders(): Promise<void> {
+    await prisma.order.deleteMany();
+  }
+
+  async listOrders(query: OrderListQuery): Promise<ListPage<Order>> {
+    const where: Prisma.OrderWhereInput = {
+      ...(query.status ? { status: query.status } : {}),
+      ...createdAtRange(query),
+      ...emailContains('customerEmail', query.email),
+      ...amountRange('total', query)
+    };
+    const [rows, total] = await Promise.all([
+      prisma.order.findMany({
+        where: { AND: [where, keysetWhere(query, 'id')] },
+        orderBy: keysetOrderBy(query, 'id'),
+        take: query.limit + 1
+      }),
+      prisma.order.count({ where })
+    ]);
+    return toListPage(rows.map(this.mapOrderFromPrisma), query, order => order.id, total);
+  }
+
   async createOrder(order: InsertOrder): Promise<Order> {
     const lastOrder = await prisma.order.findFirst({
       orderBy: { id: 'desc' }
@@ -287,6 +526,65 @@ export class PrismaStorage implements IStorage {
     return this.mapOrderFromPrisma(updated);
   }
 
+  async transitionOrderStatus(
+    id: number,
+    fromStatus: OrderStatus,
+    toStatus: OrderStatus,
+    updates: { trackingNumber?: string; razorpayPaymentId?: string } = {}
+  ): Promise<Order | undefined> {
+    // Compare-and-set so two concurrent transitions cannot both start from the same status
+    const { count } = await prisma.order.updateMany({
+      where: { id, status: fromStatus },
+      data: { ...updates, status: toStatus, updatedAt: new Date() }
+    });
+    if (count === 0) return undefined;
+
+    const order = await prisma.order.findUnique({ where: { id } });
+    return order ? this.mapOrderFromPrisma(order) : undefined;
+  }
+
+  async createOrderStatusEvent(event: InsertOrderStatusEvent): Promise<OrderStatusEvent> {
+    const created = await prisma.orderStatusEvent.create({
+      data: {
+        id: crypto.randomUUID(),
+        ...event,
+        createdAt: new Date()
+      }
+    });
+    return this.mapOrderStatusEventFromPrisma(created);
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusEvent[]> {
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return events.map(this.mapOrderStatusEventFromPrisma);
+  }
+
+  async addOrderRefundedAmount(id: number, amount: number): Promise<Order | undefined> {
+    const updated = await prisma.$executeRaw`
+      UPDATE "orders"
+      SET "refundedAmount" = COALESCE("refundedAmount", 0) + ${amount}, "updatedAt" = NOW()
+      WHERE "id" = ${id}
+    `;
+    if (updated === 0) return undefined;
+
+    const order = await prisma.order.findUnique({ where: { id } });
+    return order ? this.mapOrderFromPrisma(order) : undefined;
+  }
+
+  async updateOrderRefundStatus(id: number, refundStatus: OrderRefundStatus): Promise<Order | undefined> {
+    const { count } = await prisma.order.updateMany({
+      where: { id },
+      data: { refundStatus, updatedAt: new Date() }
+    });
+    if (count === 0) return undefined;
+
+    const order = await prisma.order.findUnique({ where: { id } });
+    return order ? this.mapOrderFromPrisma(order) : undefined;
+  }
+
   // Saved Builds Management
   async getUserSavedBuilds(userId: string): Promise<SavedBuild[]> {
     const savedBuilds = await prisma.savedBuild.findMany({
@@ -407,14 +705,69 @@ export class PrismaStorage implements IStorage {
     return savedBuilds.map(this.mapSavedBuildFromPrisma);
   }
 
+  // Emails are unique here, so instead of being marked as merged the other profiles hand over
+  // their orders, saved builds, addresses and subscriptions and are then removed
   async mergeUserAccounts(currentUserId: string, email: string, mergeData: {
     profiles: UserProfile[];
     orders: Order[];
     savedBuilds: SavedBuild[];
   }): Promise<void> {
-    // Implementation would involve complex data merging
-    // For now, this is a placeholder
-    console.log(`Merging accounts for ${currentUserId} with email ${email}`);
+    const primaryProfile = mergeData.profiles.find(p => p.uid === currentUserId) || mergeData.profiles[0];
+    const otherUids = mergeData.profiles.map(p => p.uid).filter(uid => uid !== currentUserId);
+    const alreadySaved = new Set((await this.getUserSavedBuilds(currentUserId)).map(savedBuild => savedBuild.buildId));
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Free the email before the primary profile takes it over
+      await tx.userProfile.updateMany({
+        where: { uid: { in: otherUids }, email },
+        data: { email: `${currentUserId}:merged:${email}` }
+      });
+
+      if (primaryProfile) {
+        const merged = {
+          email,
+          displayName: primaryProfile.displayName || mergeData.profiles.find(p => p.displayName)?.displayName || null,
+          phone: primaryProfile.phone || mergeData.profiles.find(p => p.phone)?.phone || null,
+          address: primaryProfile.address || mergeData.profiles.find(p => p.address)?.address || null,
+          city: primaryProfile.city || mergeData.profiles.find(p => p.city)?.city || null,
+          zipCode: primaryProfile.zipCode || mergeData.profiles.find(p => p.zipCode)?.zipCode || null,
+          updatedAt: new Date()
+        };
+        const existing = await tx.userProfile.findUnique({ where: { uid: currentUserId } });
+        if (existing) {
+          await tx.userProfile.update({ where: { uid: currentUserId }, data: merged });
+        } else {
+          const lastProfile = await tx.userProfile.findFirst({ orderBy: { id: 'desc' } });
+          await tx.userProfile.create({
+            data: {
+              ...merged,
+              id: (lastProfile?.id || 0) + 1,
+              uid: currentUserId,
+              preferences: primaryProfile.preferences || null,
+              createdAt: new Date(primaryProfile.createdAt || Date.now())
+            }
+          });
+        }
+      }
+
+      await tx.order.updateMany({
+        where: { OR: [{ userId: { in: otherUids } }, { id: { in: mergeData.orders.map(order => order.id) } }] },
+        data: { userId: currentUserId, updatedAt: new Date() }
+      });
+
+      const movedBuilds = await tx.savedBuild.findMany({ where: { userId: { in: otherUids } } });
+      for (const savedBuild of movedBuilds) {
+        if (alreadySaved.has(savedBuild.buildId)) continue;
+        alreadySaved.add(savedBuild.buildId);
+        await tx.savedBuild.update({ where: { id: savedBuild.id }, data: { userId: currentUserId } });
+      }
+      await tx.userAddress.updateMany({ where: { userId: { in: otherUids } }, data: { userId: currentUserId, isDefault: false } });
+      await tx.subscription.updateMany({ where: { userId: { in: otherUids } }, data: { userId: currentUserId } });
+      await tx.subscriptionOrder.updateMany({ where: { userId: { in: otherUids } }, data: { userId: currentUserId } });
+
+      // Whatever is still attached (duplicate saved builds) goes with the old profile
+      await tx.userProfile.deleteMany({ where: { uid: { in: otherUids } } });
+    });
   }
 
   // Subscription Management (placeholder implementations)
@@ -433,6 +786,24 @@ export class PrismaStorage implements IStorage {
     return subscriptions.map(this.mapSubscriptionFromPrisma);
   }
 
+  async listSubscriptions(query: SubscriptionListQuery): Promise<ListPage<Subscription>> {
+    const where: Prisma.SubscriptionWhereInput = {
+      ...(query.status ? { status: query.status } : {}),
+      ...createdAtRange(query),
+      ...emailContains('customerEmail', query.email),
+      ...amountRange('finalPrice', query)
+    };
+    const [rows, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where: { AND: [where, keysetWhere(query, 'id')] },
+        orderBy: keysetOrderBy(query, 'id'),
+        take: query.limit + 1
+      }),
+      prisma.subscription.count({ where })
+    ]);
+    return toListPage(rows.map(this.mapSubscriptionFromPrisma), query, subscription => subscription.id, total);
+  }
+
   async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
     const created = await prisma.subscription.create({
       data: {
@@ -520,6 +891,14 @@ export class PrismaStorage implements IStorage {
     return subscriptions.map(this.mapSubscriptionFromPrisma);
   }
 
+  async updateSubscriptionBilling(id: string, updates: SubscriptionBillingUpdate): Promise<Subscription | undefined> {
+    const { count } = await prisma.subscription.updateMany({
+      where: { id },
+      data: { ...updates, updatedAt: new Date() }
+    });
+    return count > 0 ? this.getSubscriptionById(id) : undefined;
+  }
+
   // Subscription Orders Management
   async getSubscriptionOrders(subscriptionId: string): Promise<SubscriptionOrder[]> {
     const orders = await prisma.subscriptionOrder.findMany({
@@ -568,6 +947,970 @@ export class PrismaStorage implements IStorage {
     return order ? this.mapSubscriptionOrderFromPrisma(order) : undefined;
   }
 
+  async updateSubscriptionOrderBilling(id: string, updates: SubscriptionOrderBillingUpdate): Promise<SubscriptionOrder | undefined> {
+    const { nextRetryAt, ...rest } = updates;
+    const { count } = await prisma.subscriptionOrder.updateMany({
+      where: { id },
+      data: {
+        ...rest,
+        ...(nextRetryAt !== undefined && { nextRetryAt: nextRetryAt === null ? null : new Date(nextRetryAt) }),
+        updatedAt: new Date()
+      }
+    });
+    return count > 0 ? this.getSubscriptionOrderById(id) : undefined;
+  }
+
+  async getSubscriptionOrdersAwaitingRetry(before: number): Promise<SubscriptionOrder[]> {
+    const orders = await prisma.subscriptionOrder.findMany({
+      where: { status: 'pending', nextRetryAt: { lte: new Date(before) } },
+      orderBy: { nextRetryAt: 'asc' }
+    });
+    return orders.map(this.mapSubscriptionOrderFromPrisma);
+  }
+
+  // Subscription Plans
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    const plans = await prisma.subscriptionPlan.findMany({ orderBy: { createdAt: 'asc' } });
+    return plans.map(this.mapSubscriptionPlanFromPrisma);
+  }
+
+  async getSubscriptionPlan(id: string): Promise<SubscriptionPlan | undefined> {
+    const plan = await prisma.subscriptionPlan.findUnique({ where: { id } });
+    return plan ? this.mapSubscriptionPlanFromPrisma(plan) : undefined;
+  }
+
+  async createSubscriptionPlan(plan: InsertSubscriptionPlan, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    const now = new Date();
+    const { id, ...terms } = plan;
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (await tx.subscriptionPlan.findUnique({ where: { id } })) return undefined;
+
+      const created = await tx.subscriptionPlan.create({
+        data: { id, ...terms, version: 1, status: 'active', createdAt: now, updatedAt: now }
+      });
+      await tx.subscriptionPlanVersion.create({
+        data: { planId: id, version: 1, ...terms, createdBy, createdAt: now }
+      });
+      return this.mapSubscriptionPlanFromPrisma(created);
+    });
+  }
+
+  async updateSubscriptionPlan(id: string, updates: SubscriptionPlanUpdate, createdBy?: string): Promise<SubscriptionPlan | undefined> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const current = await tx.subscriptionPlan.findUnique({ where: { id } });
+      if (!current) return undefined;
+
+      const now = new Date();
+      const updated = await tx.subscriptionPlan.update({
+        where: { id },
+        data: { ...updates, version: { increment: 1 }, updatedAt: now }
+      });
+      // The version primary key rejects a concurrent edit that read the same version
+      await tx.subscriptionPlanVersion.create({
+        data: {
+          planId: id,
+          version: updated.version,
+          name: updated.name,
+          description: updated.description,
+          billingCycle: updated.billingCycle,
+          discountPercentage: updated.discountPercentage,
+          minimumItems: updated.minimumItems,
+          features: updated.features,
+          priceRules: updated.priceRules,
+          createdBy,
+          createdAt: now
+        }
+      });
+      return this.mapSubscriptionPlanFromPrisma(updated);
+    });
+  }
+
+  async setSubscriptionPlanStatus(id: string, status: SubscriptionPlanStatus): Promise<SubscriptionPlan | undefined> {
+    const now = new Date();
+    const { count } = await prisma.subscriptionPlan.updateMany({
+      where: { id },
+      data: { status, updatedAt: now, retiredAt: status === 'retired' ? now : null }
+    });
+    if (count === 0) return undefined;
+    return this.getSubscriptionPlan(id);
+  }
+
+  async getSubscriptionPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]> {
+    const versions = await prisma.subscriptionPlanVersion.findMany({
+      where: { planId },
+      orderBy: { version: 'asc' }
+    });
+    return versions.map(this.mapSubscriptionPlanVersionFromPrisma);
+  }
+
+  async getSubscriptionPlanVersion(planId: string, version: number): Promise<SubscriptionPlanVersion | undefined> {
+    const found = await prisma.subscriptionPlanVersion.findUnique({
+      where: { planId_version: { planId, version } }
+    });
+    return found ? this.mapSubscriptionPlanVersionFromPrisma(found) : undefined;
+  }
+
+  // Inventory Management
+  async getStockMovements(itemId?: number, itemType?: 'build' | 'component'): Promise<StockMovement[]> {
+    const movements = await prisma.stockMovement.findMany({
+      where: itemId && itemType ? { itemId, itemType } : {},
+      orderBy: { createdAt: 'desc' }
+    });
+    return movements.map(this.mapStockMovementFromPrisma);
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const created = await prisma.stockMovement.create({
+      data: {
+        id: crypto.randomUUID(),
+        ...movement,
+        createdAt: new Date()
+      }
+    });
+    return this.mapStockMovementFromPrisma(created);
+  }
+
+  async getLowStockItems(): Promise<{builds: PcBuild[], components: Component[]}> {
+    const [builds, components] = await Promise.all([
+      prisma.pcBuild.findMany({
+        where: { stockQuantity: { lte: prisma.pcBuild.fields.lowStockThreshold } },
+        orderBy: { id: 'asc' }
+      }),
+      prisma.component.findMany({
+        where: { stockQuantity: { lte: prisma.component.fields.lowStockThreshold } },
+        orderBy: { id: 'asc' }
+      })
+    ]);
+    return { builds: builds.map(this.mapPcBuildFromPrisma), components: components.map(this.mapComponentFromPrisma) };
+  }
+
+  async getStockAlerts(): Promise<StockAlert[]> {
+    const alerts = await prisma.stockAlert.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+    return alerts.map(this.mapStockAlertFromPrisma);
+  }
+
+  // Resolving an alert removes it, as in Firebase
+  async resolveStockAlert(alertId: number): Promise<void> {
+    await prisma.stockAlert.deleteMany({
+      where: { id: alertId }
+    });
+  }
+
+  async reserveBuildStock(buildId: number, quantity: number): Promise<boolean> {
+    // Conditional update so concurrent checkouts can never hold more than is on hand
+    const reserved = await prisma.$executeRaw`
+      UPDATE "pc_builds"
+      SET "reservedQuantity" = "reservedQuantity" + ${quantity}
+      WHERE "id" = ${buildId} AND "stockQuantity" - "reservedQuantity" >= ${quantity}
+    `;
+    return reserved > 0;
+  }
+
+  async releaseBuildStock(buildId: number, quantity: number): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE "pc_builds"
+      SET "reservedQuantity" = GREATEST("reservedQuantity" - ${quantity}, 0)
+      WHERE "id" = ${buildId}
+    `;
+  }
+
+  async commitBuildStock(buildId: number, quantity: number): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE "pc_builds"
+      SET "stockQuantity" = GREATEST("stockQuantity" - ${quantity}, 0),
+          "reservedQuantity" = GREATEST("reservedQuantity" - ${quantity}, 0),
+          "updatedAt" = NOW()
+      WHERE "id" = ${buildId}
+    `;
+  }
+
+  async restockBuild(buildId: number, quantity: number): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE "pc_builds"
+      SET "stockQuantity" = "stockQuantity" + ${quantity}, "updatedAt" = NOW()
+      WHERE "id" = ${buildId}
+    `;
+  }
+
+  // Stock Reservations
+  async createStockReservation(reservation: InsertStockReservation): Promise<StockReservation> {
+    const created = await prisma.stockReservation.create({
+      data: {
+        ...reservation,
+        status: 'reserved',
+        expiresAt: new Date(reservation.expiresAt),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapStockReservationFromPrisma(created);
+  }
+
+  async getStockReservation(id: string): Promise<StockReservation | undefined> {
+    const reservation = await prisma.stockReservation.findUnique({
+      where: { id }
+    });
+    return reservation ? this.mapStockReservationFromPrisma(reservation) : undefined;
+  }
+
+  async getExpiredStockReservations(before: number): Promise<StockReservation[]> {
+    const reservations = await prisma.stockReservation.findMany({
+      where: { status: 'reserved', expiresAt: { lt: new Date(before) } }
+    });
+    return reservations.map(this.mapStockReservationFromPrisma);
+  }
+
+  async transitionStockReservation(
+    id: string,
+    status: 'committed' | 'released',
+    updates: { orderId?: number; releaseReason?: string } = {}
+  ): Promise<StockReservation | undefined> {
+    // Only a reservation that is still held can move on, so commit and release never both win
+    const { count } = await prisma.stockReservation.updateMany({
+      where: { id, status: 'reserved' },
+      data: { ...updates, status, updatedAt: new Date() }
+    });
+    return count > 0 ? this.getStockReservation(id) : undefined;
+  }
+
+  // Refunds & Credit Notes
+  async createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund> {
+    const created = await prisma.orderRefund.create({
+      data: {
+        ...refund,
+        createdAt: new Date()
+      }
+    });
+    return this.mapOrderRefundFromPrisma(created);
+  }
+
+  async claimOrderRefund(refund: InsertOrderRefund, orderTotal: number): Promise<OrderRefund | undefined> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // The order's row lock queues concurrent claims, so each one sees the refunds committed before it
+      const locked = await tx.$queryRaw<Array<{ id: number }>>`
+        SELECT "id" FROM "orders" WHERE "id" = ${refund.orderId} FOR UPDATE
+      `;
+      if (locked.length === 0) return undefined;
+
+      const { _sum } = await tx.orderRefund.aggregate({
+        where: { orderId: refund.orderId, status: { not: 'failed' } },
+        _sum: { amount: true }
+      });
+      if (refund.amount > orderTotal - (_sum.amount || 0)) return undefined;
+
+      const created = await tx.orderRefund.create({
+        data: {
+          ...refund,
+          createdAt: new Date()
+        }
+      });
+      return this.mapOrderRefundFromPrisma(created);
+    });
+  }
+
+  async rekeyOrderRefund(id: string, refundId: string): Promise<OrderRefund | undefined> {
+    try {
+      const { count } = await prisma.orderRefund.updateMany({
+        where: { id },
+        data: { id: refundId }
+      });
+      return count > 0 ? this.getOrderRefund(refundId) : undefined;
+    } catch (error) {
+      // The other caller already moved the claim to this id
+      if (isUniqueViolation(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async getOrderRefund(id: string): Promise<OrderRefund | undefined> {
+    const refund = await prisma.orderRefund.findUnique({
+      where: { id }
+    });
+    return refund ? this.mapOrderRefundFromPrisma(refund) : undefined;
+  }
+
+  async getOrderRefunds(orderId: number): Promise<OrderRefund[]> {
+    const refunds = await prisma.orderRefund.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return refunds.map(this.mapOrderRefundFromPrisma);
+  }
+
+  async transitionOrderRefund(
+    id: string,
+    status: 'processed' | 'failed',
+    updates: { failureReason?: string } = {}
+  ): Promise<OrderRefund | undefined> {
+    // Razorpay can deliver a webhook more than once; only the first one settles the refund
+    const { count } = await prisma.orderRefund.updateMany({
+      where: { id, status: 'pending' },
+      data: { ...updates, status, processedAt: new Date() }
+    });
+    return count > 0 ? this.getOrderRefund(id) : undefined;
+  }
+
+  async updateOrderRefund(id: string, updates: { creditNoteNumber?: string }): Promise<OrderRefund | undefined> {
+    const { count } = await prisma.orderRefund.updateMany({
+      where: { id },
+      data: updates
+    });
+    return count > 0 ? this.getOrderRefund(id) : undefined;
+  }
+
+  async createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote> {
+    const created = await prisma.creditNote.create({
+      data: {
+        id: crypto.randomUUID(),
+        ...creditNote,
+        issuedAt: new Date()
+      }
+    });
+    return this.mapCreditNoteFromPrisma(created);
+  }
+
+  async getCreditNotes(orderId: number): Promise<CreditNote[]> {
+    const creditNotes = await prisma.creditNote.findMany({
+      where: { orderId },
+      orderBy: { issuedAt: 'asc' }
+    });
+    return creditNotes.map(this.mapCreditNoteFromPrisma);
+  }
+
+  // Tax Invoices
+  async createTaxInvoice(invoice: InsertTaxInvoice, numbering: { sequence: string; prefix: string }): Promise<TaxInvoice> {
+    try {
+      return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const existing = await tx.taxInvoice.findUnique({ where: { orderId: invoice.orderId } });
+        if (existing) return this.mapTaxInvoiceFromPrisma(existing);
+
+        // The number is taken in the same transaction as the insert, so it is given back if the insert fails
+        const rows = await tx.$queryRaw<{ value: number }[]>`
+          INSERT INTO "document_sequences" ("name", "value")
+          VALUES (${numbering.sequence}, 1)
+          ON CONFLICT ("name") DO UPDATE SET "value" = "document_sequences"."value" + 1
+          RETURNING "value"
+        `;
+        const invoiceNumber = formatDocumentNumber(numbering.prefix, Number(rows[0].value));
+        const created = await tx.taxInvoice.create({
+          data: {
+            ...invoice,
+            id: invoiceNumber,
+            invoiceNumber,
+            issuedAt: new Date()
+          }
+        });
+        return this.mapTaxInvoiceFromPrisma(created);
+      });
+    } catch (error) {
+      // orderId is unique, so a concurrent issue for the same order keeps the first invoice
+      if (isUniqueViolation(error)) {
+        const existing = await this.getTaxInvoiceByOrderId(invoice.orderId);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  async getTaxInvoiceByOrderId(orderId: number): Promise<TaxInvoice | undefined> {
+    const invoice = await prisma.taxInvoice.findUnique({ where: { orderId } });
+    return invoice ? this.mapTaxInvoiceFromPrisma(invoice) : undefined;
+  }
+
+  async saveInvoiceDocument(document: InsertInvoiceDocument): Promise<InvoiceDocument> {
+    // The first rendering wins so later downloads stay byte-identical
+    await prisma.invoiceDocument.upsert({
+      where: { orderId: document.orderId },
+      create: { ...document, createdAt: new Date() },
+      update: {}
+    });
+    return (await this.getInvoiceDocument(document.orderId))!;
+  }
+
+  async getInvoiceDocument(orderId: number): Promise<InvoiceDocument | undefined> {
+    const document = await prisma.invoiceDocument.findUnique({ where: { orderId } });
+    return document
+      ? { ...document, createdAt: new Date(document.createdAt).toISOString() }
+      : undefined;
+  }
+
+  // Document Sequences
+  async getNextSequenceValue(sequence: string): Promise<number> {
+    // Single upsert statement keeps document numbers gap-free and unique across instances
+    const rows = await prisma.$queryRaw<{ value: number }[]>`
+      INSERT INTO "document_sequences" ("name", "value")
+      VALUES (${sequence}, 1)
+      ON CONFLICT ("name") DO UPDATE SET "value" = "document_sequences"."value" + 1
+      RETURNING "value"
+    `;
+    return Number(rows[0].value);
+  }
+
+  // Discounts Management
+  async getDiscountCodes(): Promise<DiscountCode[]> {
+    const discounts = await prisma.discountCode.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+    return discounts.map(this.mapDiscountCodeFromPrisma);
+  }
+
+  async getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined> {
+    const discount = await prisma.discountCode.findUnique({
+      where: { code: code.toUpperCase() }
+    });
+    return discount ? this.mapDiscountCodeFromPrisma(discount) : undefined;
+  }
+
+  async createDiscountCode(discount: InsertDiscountCode): Promise<DiscountCode> {
+    const created = await prisma.discountCode.create({
+      data: {
+        id: `discount_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        ...discount,
+        code: discount.code.toUpperCase(),
+        usageCount: 0,
+        validFrom: new Date(discount.validFrom),
+        validUntil: new Date(discount.validUntil),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapDiscountCodeFromPrisma(created);
+  }
+
+  async updateDiscountCode(id: string, updates: Partial<InsertDiscountCode>): Promise<DiscountCode | undefined> {
+    const existing = await prisma.discountCode.findUnique({ where: { id } });
+    if (!existing) return undefined;
+
+    const updated = await prisma.discountCode.update({
+      where: { id },
+      data: {
+        ...updates,
+        ...(updates.validFrom !== undefined ? { validFrom: new Date(updates.validFrom) } : {}),
+        ...(updates.validUntil !== undefined ? { validUntil: new Date(updates.validUntil) } : {}),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapDiscountCodeFromPrisma(updated);
+  }
+
+  async getBulkPricingTiers(): Promise<BulkPricingTier[]> {
+    return prisma.bulkPricingTier.findMany({
+      orderBy: { minimumQuantity: 'asc' }
+    });
+  }
+
+  async saveBulkPricingTier(tier: BulkPricingTier): Promise<BulkPricingTier> {
+    return prisma.bulkPricingTier.upsert({
+      where: { id: tier.id },
+      create: tier,
+      update: tier
+    });
+  }
+
+  async getDiscountRedemptions(discountId: string, userId?: string): Promise<DiscountRedemption[]> {
+    const redemptions = await prisma.discountRedemption.findMany({
+      where: { discountId, ...(userId ? { userId } : {}) },
+      orderBy: { redeemedAt: 'asc' }
+    });
+    return redemptions.map(this.mapDiscountRedemptionFromPrisma);
+  }
+
+  async redeemDiscountCode(discountId: string, userId: string, checkoutId: string): Promise<DiscountRedemptionResult> {
+    try {
+      return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Lock the code's row first, so concurrent redemptions queue here and the checkout check below
+        // sees any redemption committed ahead of this one
+        const locked = await tx.$queryRaw<Array<{ id: string }>>`
+          SELECT "id" FROM "discount_codes" WHERE "id" = ${discountId} FOR UPDATE
+        `;
+        if (locked.length === 0) {
+          return { success: false, reason: 'not_found' } as const;
+        }
+
+        const existing = await tx.discountRedemption.findFirst({ where: { discountId, checkoutId } });
+        if (existing) {
+          return { success: true, redemption: this.mapDiscountRedemptionFromPrisma(existing) } as const;
+        }
+
+        const claimed = await tx.$executeRaw`
+          UPDATE "discount_codes"
+          SET "usageCount" = "usageCount" + 1, "updatedAt" = NOW()
+          WHERE "id" = ${discountId} AND ("usageLimit" IS NULL OR "usageCount" < "usageLimit")
+        `;
+        if (claimed === 0) {
+          return { success: false, reason: 'usage_limit' } as const;
+        }
+
+        const discount = await tx.discountCode.findUniqueOrThrow({ where: { id: discountId } });
+
+        if (discount.usagePerCustomer) {
+          const customerCount = await tx.discountRedemption.count({ where: { discountId, userId } });
+          if (customerCount >= discount.usagePerCustomer) {
+            throw new DiscountRedemptionRejected('customer_limit');
+          }
+        }
+
+        const redemption = await tx.discountRedemption.create({
+          data: {
+            id: crypto.randomUUID(),
+            discountId,
+            code: discount.code,
+            userId,
+            checkoutId,
+            redeemedAt: new Date()
+          }
+        });
+        return { success: true, redemption: this.mapDiscountRedemptionFromPrisma(redemption) } as const;
+      });
+    } catch (error) {
+      if (error instanceof DiscountRedemptionRejected) {
+        return { success: false, reason: error.reason };
+      }
+      throw error;
+    }
+  }
+
+  async releaseDiscountRedemption(discountId: string, checkoutId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Deleting the claim decides which caller gives the use back, so it is only returned once
+      const { count } = await tx.discountRedemption.deleteMany({ where: { discountId, checkoutId } });
+      if (count === 0) return false;
+
+      await tx.$executeRaw`
+        UPDATE "discount_codes"
+        SET "usageCount" = GREATEST("usageCount" - 1, 0), "updatedAt" = NOW()
+        WHERE "id" = ${discountId}
+      `;
+      return true;
+    });
+  }
+
+  // Component Catalog
+  async getCatalogComponents(): Promise<CatalogComponent[]> {
+    const components = await prisma.catalogComponent.findMany({
+      orderBy: [{ category: 'asc' }, { price: 'asc' }]
+    });
+    return components.map(this.mapCatalogComponentFromPrisma);
+  }
+
+  async getCatalogComponent(id: string): Promise<CatalogComponent | undefined> {
+    const component = await prisma.catalogComponent.findUnique({ where: { id } });
+    return component ? this.mapCatalogComponentFromPrisma(component) : undefined;
+  }
+
+  async createCatalogComponent(component: InsertCatalogComponent): Promise<CatalogComponent> {
+    const created = await prisma.catalogComponent.create({
+      data: {
+        id: `catalog_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        ...component,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapCatalogComponentFromPrisma(created);
+  }
+
+  async updateCatalogComponent(id: string, updates: Partial<InsertCatalogComponent>): Promise<CatalogComponent | undefined> {
+    const { count } = await prisma.catalogComponent.updateMany({
+      where: { id },
+      data: { ...updates, updatedAt: new Date() }
+    });
+    return count > 0 ? this.getCatalogComponent(id) : undefined;
+  }
+
+  async deleteCatalogComponent(id: string): Promise<boolean> {
+    const { count } = await prisma.catalogComponent.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  // Support Tickets
+  async createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const created = await prisma.supportTicket.create({
+      data: {
+        ...ticket,
+        resolvedAt: ticket.resolvedAt ? new Date(ticket.resolvedAt) : null,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      include: { responses: true }
+    });
+    return this.mapSupportTicketFromPrisma(created);
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
+    const ticket = await prisma.supportTicket.findUnique({
+      where: { id },
+      include: { responses: { orderBy: { createdAt: 'asc' } } }
+    });
+    return ticket ? this.mapSupportTicketFromPrisma(ticket) : undefined;
+  }
+
+  async getSupportTickets(filters: { userId?: string } = {}): Promise<SupportTicket[]> {
+    const tickets = await prisma.supportTicket.findMany({
+      where: filters.userId ? { userId: filters.userId } : undefined,
+      include: { responses: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { updatedAt: 'desc' }
+    });
+    return tickets.map((ticket: SupportTicketRow) => this.mapSupportTicketFromPrisma(ticket));
+  }
+
+  async getSupportTicketByMessageId(messageId: string): Promise<SupportTicket | undefined> {
+    const ticket = await prisma.supportTicket.findFirst({
+      where: {
+        OR: [
+          { sourceMessageId: messageId },
+          { responses: { some: { sourceMessageId: messageId } } }
+        ]
+      },
+      include: { responses: { orderBy: { createdAt: 'asc' } } }
+    });
+    return ticket ? this.mapSupportTicketFromPrisma(ticket) : undefined;
+  }
+
+  async updateSupportTicket(id: string, updates: SupportTicketUpdate): Promise<SupportTicket | undefined> {
+    const { resolvedAt, ...fields } = updates;
+    const { count } = await prisma.supportTicket.updateMany({
+      where: { id },
+      data: {
+        ...fields,
+        ...(resolvedAt !== undefined && { resolvedAt: new Date(resolvedAt) }),
+        updatedAt: new Date()
+      }
+    });
+    return count > 0 ? this.getSupportTicket(id) : undefined;
+  }
+
+  async addSupportTicketResponse(ticketId: string, response: SupportTicketResponse): Promise<SupportTicket | undefined> {
+    const ticket = await prisma.supportTicket.findUnique({ where: { id: ticketId } });
+    if (!ticket) return undefined;
+
+    const { timestamp, ...fields } = response;
+    await prisma.$transaction([
+      prisma.supportTicketResponse.create({
+        data: { ...fields, ticketId, createdAt: new Date(timestamp) }
+      }),
+      prisma.supportTicket.update({
+        where: { id: ticketId },
+        data: { updatedAt: new Date(timestamp) }
+      })
+    ]);
+    return this.getSupportTicket(ticketId);
+  }
+
+  async deleteSupportTicket(id: string): Promise<boolean> {
+    // Responses are removed by the cascade on support_ticket_responses
+    const { count } = await prisma.supportTicket.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  // Support SLA Policies
+  async getSupportSlaPolicies(): Promise<SupportSlaPolicy[]> {
+    const policies = await prisma.supportSlaPolicy.findMany({ orderBy: { createdAt: 'asc' } });
+    return policies.map(this.mapSupportSlaPolicyFromPrisma);
+  }
+
+  async createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy> {
+    const created = await prisma.supportSlaPolicy.create({
+      data: {
+        id: `sla_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        ...policy,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapSupportSlaPolicyFromPrisma(created);
+  }
+
+  async updateSupportSlaPolicy(id: string, updates: Partial<InsertSupportSlaPolicy>): Promise<SupportSlaPolicy | undefined> {
+    const { count } = await prisma.supportSlaPolicy.updateMany({
+      where: { id },
+      data: { ...updates, updatedAt: new Date() }
+    });
+    if (count === 0) return undefined;
+
+    const policy = await prisma.supportSlaPolicy.findUnique({ where: { id } });
+    return policy ? this.mapSupportSlaPolicyFromPrisma(policy) : undefined;
+  }
+
+  async deleteSupportSlaPolicy(id: string): Promise<boolean> {
+    const { count } = await prisma.supportSlaPolicy.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  // AI Chat Sessions
+  async createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    const created = await prisma.chatSession.create({
+      data: {
+        ...session,
+        escalation: toJson(session.escalation),
+        messageCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    });
+    return this.mapChatSessionFromPrisma(created);
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | undefined> {
+    const session = await prisma.chatSession.findUnique({ where: { id } });
+    return session ? this.mapChatSessionFromPrisma(session) : undefined;
+  }
+
+  async getChatSessions(filters: { status?: ChatSessionStatus; userId?: string } = {}): Promise<ChatSession[]> {
+    const sessions = await prisma.chatSession.findMany({
+      where: { status: filters.status, userId: filters.userId },
+      orderBy: { updatedAt: 'desc' }
+    });
+    return sessions.map(this.mapChatSessionFromPrisma);
+  }
+
+  async updateChatSession(id: string, updates: ChatSessionUpdate): Promise<ChatSession | undefined> {
+    const { count } = await prisma.chatSession.updateMany({
+      where: { id },
+      data: { ...updates, escalation: toJson(updates.escalation), updatedAt: new Date() }
+    });
+    if (count === 0) return undefined;
+    return this.getChatSession(id);
+  }
+
+  async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const createdAt = new Date();
+    const [created] = await prisma.$transaction([
+      prisma.chatMessage.create({
+        data: {
+          ...message,
+          id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+          createdAt
+        }
+      }),
+      prisma.chatSession.update({
+        where: { id: message.sessionId },
+        data: { messageCount: { increment: 1 }, updatedAt: createdAt }
+      })
+    ]);
+    return this.mapChatMessageFromPrisma(created);
+  }
+
+  async getChatMessages(sessionId: string): Promise<ChatMessage[]> {
+    const messages = await prisma.chatMessage.findMany({
+      where: { sessionId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+    return messages.map(this.mapChatMessageFromPrisma);
+  }
+
+  // Admin Settings
+  async getAdminSetting(key: string): Promise<AdminSetting | undefined> {
+    const setting = await prisma.adminSetting.findUnique({
+      where: { key }
+    });
+    return setting ? this.mapAdminSettingFromPrisma(setting) : undefined;
+  }
+
+  async setAdminSetting(key: string, value: string): Promise<AdminSetting> {
+    const existing = await prisma.adminSetting.findUnique({ where: { key } });
+    if (existing) {
+      const updated = await prisma.adminSetting.update({
+        where: { key },
+        data: { value, updatedAt: new Date() }
+      });
+      return this.mapAdminSettingFromPrisma(updated);
+    }
+
+    const lastSetting = await prisma.adminSetting.findFirst({
+      orderBy: { id: 'desc' }
+    });
+    const created = await prisma.adminSetting.create({
+      data: {
+        id: (lastSetting?.id || 0) + 1,
+        key,
+        value,
+        updatedAt: new Date()
+      }
+    });
+    return this.mapAdminSettingFromPrisma(created);
+  }
+
+  async getAllAdminSettings(): Promise<AdminSetting[]> {
+    const settings = await prisma.adminSetting.findMany({
+      orderBy: { key: 'asc' }
+    });
+    return settings.map(this.mapAdminSettingFromPrisma);
+  }
+
+  // Job Locks
+  async acquireJobLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    // Take over the lock if we already hold it or it has expired
+    const { count } = await prisma.jobLock.updateMany({
+      where: { name, OR: [{ holder }, { expiresAt: { lte: now } }] },
+      data: { holder, acquiredAt: now, expiresAt }
+    });
+    if (count > 0) return true;
+
+    try {
+      await prisma.jobLock.create({ data: { name, holder, acquiredAt: now, expiresAt } });
+      return true;
+    } catch (error) {
+      if (isUniqueViolation(error)) return false; // created by another instance in the meantime
+      throw error;
+    }
+  }
+
+  async releaseJobLock(name: string, holder: string): Promise<void> {
+    await prisma.jobLock.deleteMany({ where: { name, holder } });
+  }
+
+  // Sync Outbox
+  async enqueueSyncOutboxEntry(entry: InsertSyncOutboxEntry): Promise<SyncOutboxEntry> {
+    const id = `${entry.entity}:${entry.key}:${entry.target}`;
+    const now = new Date();
+    const data = {
+      operation: entry.operation,
+      status: 'pending',
+      lastError: entry.lastError,
+      nextAttemptAt: new Date(entry.nextAttemptAt),
+      updatedAt: now
+    };
+    const saved = await prisma.syncOutboxEntry.upsert({
+      where: { id },
+      create: { ...data, id, entity: entry.entity, key: entry.key, target: entry.target, attempts: 0, createdAt: now },
+      update: data
+    });
+    return this.mapSyncOutboxEntryFromPrisma(saved);
+  }
+
+  async getSyncOutboxEntries(): Promise<SyncOutboxEntry[]> {
+    const entries = await prisma.syncOutboxEntry.findMany({ orderBy: { createdAt: 'asc' } });
+    return entries.map(this.mapSyncOutboxEntryFromPrisma);
+  }
+
+  async updateSyncOutboxEntry(
+    id: string,
+    updates: Partial<Pick<SyncOutboxEntry, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt'>>
+  ): Promise<SyncOutboxEntry | undefined> {
+    const { count } = await prisma.syncOutboxEntry.updateMany({
+      where: { id },
+      data: {
+        ...updates,
+        nextAttemptAt: updates.nextAttemptAt !== undefined ? new Date(updates.nextAttemptAt) : undefined,
+        updatedAt: new Date()
+      }
+    });
+    if (count === 0) return undefined;
+    const entry = await prisma.syncOutboxEntry.findUnique({ where: { id } });
+    return entry ? this.mapSyncOutboxEntryFromPrisma(entry) : undefined;
+  }
+
+  async deleteSyncOutboxEntry(id: string): Promise<void> {
+    await prisma.syncOutboxEntry.deleteMany({ where: { id } });
+  }
+
+  // Firebase backfill (see firebase-prisma-migration.ts); these sit outside IStorage
+  getMigrationModel(name: string): MigrationModel {
+    const model = Prisma.dmmf.datamodel.models.find((candidate: Prisma.DMMF.Model) => candidate.name === name);
+    if (!model) throw new Error(`Unknown Prisma model: ${name}`);
+
+    const fields = model.fields
+      .filter((field: Prisma.DMMF.Field) => field.kind === 'scalar')
+      .map((field: Prisma.DMMF.Field) => ({
+        name: field.name,
+        type: field.type,
+        isList: field.isList,
+        isRequired: field.isRequired,
+        hasDefault: field.hasDefaultValue,
+        // Only literal defaults can be predicted; none of the migrated models use now() or autoincrement()
+        defaultValue: field.default !== null && typeof field.default !== 'object' ? field.default : undefined
+      }));
+    const idFields = model.primaryKey?.fields || model.fields.filter((field: Prisma.DMMF.Field) => field.isId).map((field: Prisma.DMMF.Field) => field.name);
+    return { name, fields, idFields };
+  }
+
+  async getMigrationRows(model: string): Promise<Record<string, unknown>[]> {
+    return this.migrationDelegate(model).findMany();
+  }
+
+  async getMigrationRow(model: string, where: Record<string, unknown>): Promise<Record<string, unknown> | undefined> {
+    return (await this.migrationDelegate(model).findFirst({ where })) ?? undefined;
+  }
+
+  async getMaxMigrationId(model: string): Promise<number> {
+    const result = await this.migrationDelegate(model).aggregate({ _max: { id: true } });
+    return result._max.id || 0;
+  }
+
+  // The row and its id mapping land together so a rerun never sees one without the other
+  async importMigrationRow(entity: string, model: string, row: MigrationRow): Promise<void> {
+    const now = new Date();
+    await prisma.$transaction([
+      this.migrationDelegate(model).upsert({ where: row.where, create: row.data, update: row.data }),
+      prisma.migrationIdMap.upsert({
+        where: { entity_sourceKey: { entity, sourceKey: row.sourceKey } },
+        create: { entity, sourceKey: row.sourceKey, targetId: row.targetId, migratedAt: now },
+        update: { targetId: row.targetId, migratedAt: now }
+      })
+    ]);
+  }
+
+  // Drops a record the source no longer has, along with its id mapping
+  async deleteMigrationRow(entity: string, model: string, sourceKey: string, where: Record<string, unknown>): Promise<void> {
+    await prisma.$transaction([
+      this.migrationDelegate(model).deleteMany({ where }),
+      prisma.migrationIdMap.deleteMany({ where: { entity, sourceKey } })
+    ]);
+  }
+
+  async getMigrationIdMap(entity: string): Promise<Map<string, string>> {
+    const mappings = await prisma.migrationIdMap.findMany({ where: { entity } });
+    return new Map(mappings.map((mapping: MigrationIdMapRow) => [mapping.sourceKey, mapping.targetId]));
+  }
+
+  async getMigrationCheckpoint(entity: string): Promise<MigrationCheckpoint | undefined> {
+    const checkpoint = await prisma.migrationCheckpoint.findUnique({ where: { entity } });
+    if (!checkpoint) return undefined;
+    return {
+      ...checkpoint,
+      lastKey: checkpoint.lastKey ?? undefined,
+      failedKeys: fromJson<MigrationFailure[]>(checkpoint.failedKeys) ?? [],
+      startedAt: new Date(checkpoint.startedAt).getTime(),
+      updatedAt: new Date(checkpoint.updatedAt).getTime(),
+      completedAt: checkpoint.completedAt ? new Date(checkpoint.completedAt).getTime() : undefined
+    };
+  }
+
+  async saveMigrationCheckpoint(checkpoint: MigrationCheckpoint): Promise<void> {
+    const data = {
+      status: checkpoint.status,
+      lastKey: checkpoint.lastKey ?? null,
+      copied: checkpoint.copied,
+      failedKeys: toJson(checkpoint.failedKeys),
+      startedAt: new Date(checkpoint.startedAt),
+      updatedAt: new Date(checkpoint.updatedAt),
+      completedAt: checkpoint.completedAt ? new Date(checkpoint.completedAt) : null
+    };
+    await prisma.migrationCheckpoint.upsert({
+      where: { entity: checkpoint.entity },
+      create: { entity: checkpoint.entity, ...data },
+      update: data
+    });
+  }
+
+  // Forgets progress only; the id map is kept so reassigned ids stay stable on a full re-copy
+  async resetMigrationCheckpoint(entity: string): Promise<void> {
+    await prisma.migrationCheckpoint.deleteMany({ where: { entity } });
+  }
+
+  // Each model has its own delegate type, so the backfill goes through the methods they share
+  private migrationDelegate(model: string): MigrationDelegate {
+    const delegates = prisma as unknown as Record<string, MigrationDelegate>;
+    return delegates[model.charAt(0).toLowerCase() + model.slice(1)];
+  }
+
   // Mapper functions to convert Prisma types to shared types
   private mapPcBuildFromPrisma(build: any): PcBuild {
     return {
@@ -636,10 +1979,230 @@ export class PrismaStorage implements IStorage {
       currentPeriodStart: new Date(subscription.currentPeriodStart),
       currentPeriodEnd: new Date(subscription.currentPeriodEnd),
       nextBillingDate: new Date(subscription.nextBillingDate),
+      planVersion: subscription.planVersion ?? undefined,
       lastPaymentDate: subscription.lastPaymentDate ? new Date(subscription.lastPaymentDate) : undefined,
       createdAt: new Date(subscription.createdAt),
       updatedAt: new Date(subscription.updatedAt),
-      cancelledAt: subscription.cancelledAt ? new Date(subscription.cancelledAt) : undefined
+      cancelledAt: subscription.cancelledAt ? new Date(subscription.cancelledAt) : undefined,
+      pendingAdjustments: subscription.pendingAdjustments ?? undefined
+    };
+  }
+
+  private mapOrderStatusEventFromPrisma(event: OrderStatusEventRow): OrderStatusEvent {
+    return {
+      ...event,
+      fromStatus: event.fromStatus as OrderStatus | null,
+      toStatus: event.toStatus as OrderStatus,
+      note: event.note ?? undefined,
+      createdAt: new Date(event.createdAt).toISOString()
+    };
+  }
+
+  private mapOrderRefundFromPrisma(refund: OrderRefundRow): OrderRefund {
+    return {
+      ...refund,
+      status: refund.status as OrderRefund['status'],
+      reason: refund.reason ?? undefined,
+      restockItems: fromJson<OrderRefund['restockItems'] | null>(refund.restockItems) || [],
+      failureReason: refund.failureReason ?? undefined,
+      creditNoteNumber: refund.creditNoteNumber ?? undefined,
+      createdAt: new Date(refund.createdAt).toISOString(),
+      processedAt: refund.processedAt ? new Date(refund.processedAt).toISOString() : undefined
+    };
+  }
+
+  private mapCreditNoteFromPrisma(creditNote: CreditNoteRow): CreditNote {
+    return {
+      ...creditNote,
+      customerName: creditNote.customerName ?? undefined,
+      customerEmail: creditNote.customerEmail ?? undefined,
+      reason: creditNote.reason ?? undefined,
+      issuedAt: new Date(creditNote.issuedAt).toISOString()
+    };
+  }
+
+  private mapTaxInvoiceFromPrisma(invoice: TaxInvoiceRow): TaxInvoice {
+    return {
+      ...invoice,
+      supplier: fromJson<TaxInvoice['supplier']>(invoice.supplier),
+      recipient: fromJson<TaxInvoice['recipient']>(invoice.recipient),
+      supplyType: invoice.supplyType as TaxInvoice['supplyType'],
+      lines: fromJson<TaxInvoice['lines']>(invoice.lines),
+      issuedAt: new Date(invoice.issuedAt).toISOString()
+    };
+  }
+
+  private mapStockMovementFromPrisma(movement: StockMovementRow): StockMovement {
+    return {
+      ...movement,
+      itemType: movement.itemType as StockMovement['itemType'],
+      movementType: movement.movementType as StockMovement['movementType'],
+      referenceId: movement.referenceId ?? undefined,
+      notes: movement.notes ?? undefined,
+      createdBy: movement.createdBy ?? undefined,
+      createdAt: new Date(movement.createdAt).toISOString()
+    };
+  }
+
+  private mapStockReservationFromPrisma(reservation: StockReservationRow): StockReservation {
+    return {
+      ...reservation,
+      items: fromJson<StockReservation['items']>(reservation.items),
+      discountId: reservation.discountId ?? undefined,
+      status: reservation.status as StockReservation['status'],
+      orderId: reservation.orderId ?? undefined,
+      releaseReason: reservation.releaseReason ?? undefined,
+      expiresAt: new Date(reservation.expiresAt).getTime(),
+      createdAt: new Date(reservation.createdAt).getTime(),
+      updatedAt: new Date(reservation.updatedAt).getTime()
+    };
+  }
+
+  private mapStockAlertFromPrisma(alert: StockAlertRow): StockAlert {
+    return {
+      ...alert,
+      itemType: alert.itemType as StockAlert['itemType'],
+      alertType: alert.alertType as StockAlert['alertType'],
+      createdAt: new Date(alert.createdAt).toISOString()
+    };
+  }
+
+  private mapAdminSettingFromPrisma(setting: AdminSettingRow): AdminSetting {
+    return {
+      ...setting,
+      updatedAt: new Date(setting.updatedAt)
+    };
+  }
+
+  private mapSyncOutboxEntryFromPrisma(entry: SyncOutboxEntryRow): SyncOutboxEntry {
+    return {
+      ...entry,
+      entity: entry.entity as SyncOutboxEntry['entity'],
+      target: entry.target as SyncOutboxEntry['target'],
+      status: entry.status as SyncOutboxEntry['status'],
+      nextAttemptAt: new Date(entry.nextAttemptAt).getTime(),
+      createdAt: new Date(entry.createdAt).getTime(),
+      updatedAt: new Date(entry.updatedAt).getTime()
+    };
+  }
+
+  private mapCatalogComponentFromPrisma(component: CatalogComponentRow): CatalogComponent {
+    // Optional attributes come back as null and are dropped to match the Firebase shape
+    const attributes = Object.fromEntries(Object.entries(component).filter(([, value]) => value !== null));
+    return {
+      ...attributes,
+      createdAt: new Date(component.createdAt).getTime(),
+      updatedAt: new Date(component.updatedAt).getTime()
+    } as unknown as CatalogComponent;
+  }
+
+  private mapSupportTicketFromPrisma(ticket: SupportTicketRow): SupportTicket {
+    return {
+      ...ticket,
+      category: ticket.category as SupportTicket['category'],
+      priority: ticket.priority as SupportTicket['priority'],
+      status: ticket.status as SupportTicket['status'],
+      orderId: ticket.orderId ?? undefined,
+      assignedAgent: ticket.assignedAgent ?? undefined,
+      customerSatisfaction: ticket.customerSatisfaction ?? undefined,
+      sla: fromJson<SupportTicket['sla'] | null>(ticket.sla) ?? undefined,
+      sourceMessageId: ticket.sourceMessageId ?? undefined,
+      replyToEmail: ticket.replyToEmail ?? undefined,
+      attachments: fromJson<SupportTicket['attachments'] | null>(ticket.attachments) || [],
+      tags: ticket.tags || [],
+      responses: (ticket.responses || []).map(({ ticketId, createdAt, ...response }: SupportTicketRow['responses'][number]) => ({
+        ...response,
+        authorType: response.authorType as SupportTicketResponse['authorType'],
+        attachments: fromJson<SupportTicketResponse['attachments'] | null>(response.attachments) || [],
+        sourceMessageId: response.sourceMessageId ?? undefined,
+        timestamp: new Date(createdAt).getTime()
+      })),
+      createdAt: new Date(ticket.createdAt).getTime(),
+      updatedAt: new Date(ticket.updatedAt).getTime(),
+      resolvedAt: ticket.resolvedAt ? new Date(ticket.resolvedAt).getTime() : undefined
+    };
+  }
+
+  private mapSubscriptionPlanFromPrisma(plan: SubscriptionPlanRow): SubscriptionPlan {
+    return {
+      ...plan,
+      billingCycle: plan.billingCycle as SubscriptionPlan['billingCycle'],
+      features: fromJson<SubscriptionPlan['features'] | null>(plan.features) ?? [],
+      priceRules: fromJson<SubscriptionPlan['priceRules'] | null>(plan.priceRules) ?? {},
+      status: plan.status as SubscriptionPlan['status'],
+      createdAt: new Date(plan.createdAt).getTime(),
+      updatedAt: new Date(plan.updatedAt).getTime(),
+      retiredAt: plan.retiredAt ? new Date(plan.retiredAt).getTime() : undefined
+    };
+  }
+
+  private mapSubscriptionPlanVersionFromPrisma(version: SubscriptionPlanVersionRow): SubscriptionPlanVersion {
+    return {
+      ...version,
+      billingCycle: version.billingCycle as SubscriptionPlanVersion['billingCycle'],
+      features: fromJson<SubscriptionPlanVersion['features'] | null>(version.features) ?? [],
+      priceRules: fromJson<SubscriptionPlanVersion['priceRules'] | null>(version.priceRules) ?? {},
+      createdBy: version.createdBy ?? undefined,
+      createdAt: new Date(version.createdAt).getTime()
+    };
+  }
+
+  private mapSupportSlaPolicyFromPrisma(policy: SupportSlaPolicyRow): SupportSlaPolicy {
+    return {
+      ...policy,
+      category: policy.category as SupportSlaPolicy['category'],
+      priority: policy.priority as SupportSlaPolicy['priority'],
+      onCallAgent: policy.onCallAgent ?? undefined,
+      createdAt: new Date(policy.createdAt).getTime(),
+      updatedAt: new Date(policy.updatedAt).getTime()
+    };
+  }
+
+  private mapChatSessionFromPrisma(session: ChatSessionRow): ChatSession {
+    return {
+      ...session,
+      userId: session.userId ?? undefined,
+      userEmail: session.userEmail ?? undefined,
+      userName: session.userName ?? undefined,
+      status: session.status as ChatSession['status'],
+      provider: session.provider ?? undefined,
+      escalation: fromJson<ChatSession['escalation'] | null>(session.escalation) ?? undefined,
+      assignedAgent: session.assignedAgent ?? undefined,
+      createdAt: new Date(session.createdAt).getTime(),
+      updatedAt: new Date(session.updatedAt).getTime()
+    };
+  }
+
+  private mapChatMessageFromPrisma(message: ChatMessageRow): ChatMessage {
+    return {
+      ...message,
+      role: message.role as ChatMessage['role'],
+      provider: message.provider ?? undefined,
+      createdAt: new Date(message.createdAt).getTime()
+    };
+  }
+
+  private mapDiscountCodeFromPrisma(discount: DiscountCodeRow): DiscountCode {
+    return {
+      ...discount,
+      type: discount.type as DiscountCode['type'],
+      minimumOrderValue: discount.minimumOrderValue ?? undefined,
+      maximumDiscount: discount.maximumDiscount ?? undefined,
+      usageLimit: discount.usageLimit ?? undefined,
+      usagePerCustomer: discount.usagePerCustomer ?? undefined,
+      validFrom: new Date(discount.validFrom).getTime(),
+      validUntil: new Date(discount.validUntil).getTime(),
+      createdAt: new Date(discount.createdAt).getTime(),
+      updatedAt: new Date(discount.updatedAt).getTime()
+    };
+  }
+
+  private mapDiscountRedemptionFromPrisma(redemption: DiscountRedemptionRow): DiscountRedemption {
+    return {
+      ...redemption,
+      checkoutId: redemption.checkoutId ?? undefined,
+      orderId: redemption.orderId ?? undefined,
+      redeemedAt: new Date(redemption.redeemedAt).getTime()
     };
   }
 
@@ -648,6 +2211,9 @@ export class PrismaStorage implements IStorage {
       ...order,
       amount: Number(order.amount),
       deliveryDate: order.deliveryDate ? new Date(order.deliveryDate) : undefined,
+      adjustments: order.adjustments ?? undefined,
+      attempts: order.attempts ?? undefined,
+      nextRetryAt: order.nextRetryAt ? new Date(order.nextRetryAt).getTime() : undefined,
       createdAt: new Date(order.createdAt),
       updatedAt: new Date(order.updatedAt)
     };
@@ -0,0 +1,339 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import type { IStorage } from '../firebase-realtime-storage';
+import { MemoryStorage } from './memory-storage';
+import {
+  insertComponentSchema,
+  insertDiscountCodeSchema,
+  insertOrderSchema,
+  insertPcBuildSchema,
+  orderListQuerySchema
+} from '../../shared/schema';
+
+// The same IStorage behaviour is checked against every store. Prisma and Firebase keep their data,
+// so every record is created with a fresh key and nothing is cleared afterwards.
+interface ContractBackend {
+  name: string;
+  skip?: string; // why the store is unavailable in this environment
+  create: () => Promise<IStorage>;
+}
+
+const emulatorHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+const backends: ContractBackend[] = [
+  {
+    name: 'MemoryStorage',
+    create: async () => new MemoryStorage({ seed: false })
+  },
+  {
+    name: 'PrismaStorage',
+    skip: testDatabaseUrl ? undefined : 'set TEST_DATABASE_URL to a disposable Postgres database',
+    create: async () => {
+      vi.stubEnv('DATABASE_URL', testDatabaseUrl!);
+      const { prismaStorage } = await import('./prisma-storage');
+      return prismaStorage;
+    }
+  },
+  {
+    name: 'FirebaseRealtimeStorage',
+    skip: emulatorHost ? undefined : 'set FIREBASE_DATABASE_EMULATOR_HOST to a running database emulator',
+    create: async () => {
+      const projectId = 'fusionforge-contract';
+      vi.stubEnv('VITE_FIREBASE_API_KEY', 'contract-test');
+      vi.stubEnv('VITE_FIREBASE_PROJECT_ID', projectId);
+      vi.stubEnv('VITE_FIREBASE_APP_ID', 'contract-test');
+      vi.stubEnv('VITE_FIREBASE_DATABASE_URL', `http://${emulatorHost}?ns=${projectId}`);
+      const { firebaseRealtimeStorage } = await import('../firebase-realtime-storage');
+      return firebaseRealtimeStorage;
+    }
+  }
+];
+
+function unique(prefix: string): string {
+  return `${prefix}-${randomUUID().slice(0, 8)}`;
+}
+
+function buildFixture(overrides: { stockQuantity?: number; lowStockThreshold?: number } = {}) {
+  return insertPcBuildSchema.parse({
+    name: unique('Contract Build'),
+    category: 'Gaming',
+    buildType: 'CPU Only',
+    budgetRange: '₹50,000',
+    basePrice: 45000,
+    profitMargin: 5000,
+    totalPrice: 50000,
+    processor: 'Ryzen 5 7600',
+    motherboard: 'B650',
+    ram: '32GB DDR5',
+    storage: '1TB NVMe',
+    casePsu: 'Mid tower, 650W',
+    ...overrides
+  });
+}
+
+for (const backend of backends) {
+  describe.skipIf(!!backend.skip)(`${backend.name} storage contract`, () => {
+    let storage: IStorage;
+
+    beforeAll(async () => {
+      vi.resetModules();
+      storage = await backend.create();
+    });
+
+    afterAll(() => {
+      vi.unstubAllEnvs();
+    });
+
+    async function createCustomerOrder(total = 10000) {
+      const uid = unique('contract-user');
+      const email = `${uid}@example.com`;
+      await storage.createUserProfile({ uid, email });
+      return storage.createOrder(insertOrderSchema.parse({
+        userId: uid,
+        orderNumber: unique('ORD'),
+        total,
+        items: JSON.stringify([{ buildId: 1, quantity: 1 }]),
+        customerEmail: email,
+        paymentMethod: 'online_payment',
+        razorpayOrderId: unique('order')
+      }));
+    }
+
+    describe('catalogue and inventory', () => {
+      it('reads back a created build and its stock changes', async () => {
+        const build = await storage.createPcBuild(buildFixture({ stockQuantity: 4 }));
+
+        expect(await storage.getPcBuildById(build.id)).toMatchObject({ id: build.id, name: build.name, stockQuantity: 4 });
+        await storage.updatePcBuildStock(build.id, 9);
+        expect((await storage.getPcBuildById(build.id))?.stockQuantity).toBe(9);
+      });
+
+      it('lists components by build and updates their stock', async () => {
+        const build = await storage.createPcBuild(buildFixture());
+        const component = await storage.createComponent(insertComponentSchema.parse({
+          buildId: build.id,
+          name: 'Ryzen 5 7600',
+          specification: '6 cores, AM5',
+          price: '18000',
+          type: 'cpu',
+          stockQuantity: 3
+        }));
+
+        await storage.updateComponentStock(component.id, 7);
+        const components = await storage.getComponentsByBuildId(build.id);
+        expect(components.map(item => item.id)).toEqual([component.id]);
+        expect(components[0].stockQuantity).toBe(7);
+      });
+
+      it('reports builds at or below their low stock threshold', async () => {
+        const low = await storage.createPcBuild(buildFixture({ stockQuantity: 1, lowStockThreshold: 3 }));
+        const stocked = await storage.createPcBuild(buildFixture({ stockQuantity: 10, lowStockThreshold: 3 }));
+
+        const ids = (await storage.getLowStockItems()).builds.map(build => build.id);
+        expect(ids).toContain(low.id);
+        expect(ids).not.toContain(stocked.id);
+      });
+
+      it('only reserves stock that is on hand', async () => {
+        const build = await storage.createPcBuild(buildFixture({ stockQuantity: 2 }));
+
+        expect(await storage.reserveBuildStock(build.id, 3)).toBe(false);
+        expect(await storage.reserveBuildStock(build.id, 2)).toBe(true);
+        expect(await storage.reserveBuildStock(build.id, 1)).toBe(false);
+
+        await storage.commitBuildStock(build.id, 2);
+        expect(await storage.getPcBuildById(build.id)).toMatchObject({ stockQuantity: 0, reservedQuantity: 0 });
+      });
+
+      it('filters stock movements by item', async () => {
+        const build = await storage.createPcBuild(buildFixture());
+        const movement = await storage.createStockMovement({
+          itemId: build.id,
+          itemType: 'build',
+          movementType: 'in',
+          quantity: 5,
+          reason: 'Restock'
+        });
+        await storage.createStockMovement({
+          itemId: build.id,
+          itemType: 'component',
+          movementType: 'out',
+          quantity: 1,
+          reason: 'Same id, other item type'
+        });
+
+        const movements = await storage.getStockMovements(build.id, 'build');
+        expect(movements.map(item => item.id)).toEqual([movement.id]);
+        expect(movements[0]).toMatchObject({ quantity: 5, movementType: 'in' });
+      });
+
+      it('ignores resolving an alert that does not exist', async () => {
+        await expect(storage.resolveStockAlert(2_000_000_000)).resolves.toBeUndefined();
+      });
+    });
+
+    describe('orders', () => {
+      it('finds an order by id, Razorpay order and customer', async () => {
+        const order = await createCustomerOrder();
+
+        expect(await storage.getOrderById(order.id)).toMatchObject({ orderNumber: order.orderNumber, status: 'pending', total: 10000 });
+        expect((await storage.getOrderByRazorpayOrderId(order.razorpayOrderId!))?.id).toBe(order.id);
+        expect((await storage.getUserOrders(order.userId)).map(item => item.id)).toEqual([order.id]);
+      });
+
+      it('pages the newest orders first', async () => {
+        const created = [await createCustomerOrder(), await createCustomerOrder(), await createCustomerOrder()];
+
+        const first = await storage.listOrders(orderListQuerySchema.parse({ limit: 2 }));
+        expect(first.items.map(order => order.id)).toEqual([created[2].id, created[1].id]);
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = await storage.listOrders(orderListQuerySchema.parse({ limit: 2, cursor: first.nextCursor }));
+        expect(second.items[0].id).toBe(created[0].id);
+      });
+
+      it('moves an order on only from the expected status', async () => {
+        const order = await createCustomerOrder();
+
+        expect(await storage.transitionOrderStatus(order.id, 'pending', 'paid', { razorpayPaymentId: 'pay_contract' }))
+          .toMatchObject({ status: 'paid', razorpayPaymentId: 'pay_contract' });
+        expect(await storage.transitionOrderStatus(order.id, 'pending', 'paid')).toBeUndefined();
+      });
+
+      it('never claims refunds beyond the order total', async () => {
+        const order = await createCustomerOrder(10000);
+        const refund = (amount: number) => ({
+          id: unique('claim'),
+          orderId: order.id,
+          paymentId: unique('pay'),
+          amount,
+          status: 'pending' as const,
+          restockItems: [],
+          requestedBy: 'admin@example.com'
+        });
+
+        expect(await storage.claimOrderRefund(refund(6000), order.total)).toMatchObject({ amount: 6000 });
+        expect(await storage.claimOrderRefund(refund(5000), order.total)).toBeUndefined();
+        expect(await storage.claimOrderRefund(refund(4000), order.total)).toMatchObject({ amount: 4000 });
+      });
+
+      it('moves a refund claim to the Razorpay id only once', async () => {
+        const order = await createCustomerOrder(10000);
+        const claim = await storage.claimOrderRefund({
+          id: unique('claim'),
+          orderId: order.id,
+          paymentId: unique('pay'),
+          amount: 2500,
+          status: 'pending',
+          restockItems: [],
+          requestedBy: 'admin@example.com'
+        }, order.total);
+        const refundId = unique('rfnd');
+
+        expect(await storage.rekeyOrderRefund(claim!.id, refundId)).toMatchObject({ id: refundId, amount: 2500 });
+        expect(await storage.transitionOrderRefund(refundId, 'processed')).toMatchObject({ status: 'processed' });
+        expect(await storage.rekeyOrderRefund(claim!.id, refundId)).toBeUndefined();
+        expect(await storage.getOrderRefund(refundId)).toMatchObject({ status: 'processed' });
+        expect(await storage.getOrderRefunds(order.id)).toHaveLength(1);
+      });
+    });
+
+    describe('discounts', () => {
+      function createDiscount(usageLimit: number) {
+        return storage.createDiscountCode(insertDiscountCodeSchema.parse({
+          code: unique('SAVE').replace(/-/g, ''),
+          name: 'Contract discount',
+          type: 'percentage',
+          value: 10,
+          usageLimit,
+          validFrom: Date.now() - 60_000,
+          validUntil: Date.now() + 60_000
+        }));
+      }
+
+      it('redeems a code once per checkout', async () => {
+        const discount = await createDiscount(5);
+        const checkoutId = unique('order');
+
+        const first = await storage.redeemDiscountCode(discount.id, unique('contract-user'), checkoutId);
+        const replay = await storage.redeemDiscountCode(discount.id, unique('contract-user'), checkoutId);
+
+        expect(first.success).toBe(true);
+        expect(replay).toEqual(first);
+        expect((await storage.getDiscountCodeByCode(discount.code))?.usageCount).toBe(1);
+      });
+
+      it('gives the last use to one checkout until it is released', async () => {
+        const discount = await createDiscount(1);
+        const [winner, loser] = [unique('order'), unique('order')];
+
+        expect((await storage.redeemDiscountCode(discount.id, unique('contract-user'), winner)).success).toBe(true);
+        expect(await storage.redeemDiscountCode(discount.id, unique('contract-user'), loser))
+          .toEqual({ success: false, reason: 'usage_limit' });
+
+        expect(await storage.releaseDiscountRedemption(discount.id, winner)).toBe(true);
+        expect(await storage.releaseDiscountRedemption(discount.id, winner)).toBe(false);
+        expect((await storage.getDiscountCodeByCode(discount.code))?.usageCount).toBe(0);
+        expect((await storage.redeemDiscountCode(discount.id, unique('contract-user'), loser)).success).toBe(true);
+      });
+    });
+
+    describe('support tickets', () => {
+      it('finds a ticket by the Message-ID of the email that opened it or replied to it', async () => {
+        const opened = `<${unique('open')}@mail.example.com>`;
+        const replied = `<${unique('reply')}@mail.example.com>`;
+        const ticket = await storage.createSupportTicket({
+          id: unique('TKT'),
+          userId: unique('contract-user'),
+          userEmail: 'customer@example.com',
+          userName: 'Customer',
+          subject: 'Contract ticket',
+          description: 'Opened by email',
+          category: 'general',
+          priority: 'low',
+          status: 'open',
+          attachments: [],
+          tags: [],
+          sourceMessageId: opened
+        });
+        await storage.addSupportTicketResponse(ticket.id, {
+          id: unique('response'),
+          authorId: ticket.userId,
+          authorType: 'user',
+          authorName: 'Customer',
+          message: 'Replied by email',
+          timestamp: Date.now(),
+          isInternal: false,
+          sourceMessageId: replied
+        });
+
+        expect(await storage.getSupportTicketByMessageId(opened)).toMatchObject({ id: ticket.id });
+        expect(await storage.getSupportTicketByMessageId(replied)).toMatchObject({ id: ticket.id });
+        expect(await storage.getSupportTicketByMessageId(`<${unique('other')}@mail.example.com>`)).toBeUndefined();
+      });
+    });
+
+    describe('settings and job locks', () => {
+      it('overwrites an admin setting in place', async () => {
+        const key = unique('contract-setting');
+        const first = await storage.setAdminSetting(key, 'one');
+        const second = await storage.setAdminSetting(key, 'two');
+
+        expect(second.id).toBe(first.id);
+        expect(await storage.getAdminSetting(key)).toMatchObject({ key, value: 'two' });
+        expect((await storage.getAllAdminSettings()).filter(setting => setting.key === key)).toHaveLength(1);
+      });
+
+      it('holds a job lock for one holder until it is released', async () => {
+        const name = unique('contract-lock');
+
+        expect(await storage.acquireJobLock(name, 'first', 60_000)).toBe(true);
+        expect(await storage.acquireJobLock(name, 'second', 60_000)).toBe(false);
+        await storage.releaseJobLock(name, 'first');
+        expect(await storage.acquireJobLock(name, 'second', 60_000)).toBe(true);
+        await storage.releaseJobLock(name, 'second');
+      });
+    });
+  });
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Each test loads the factory afresh, since the driver is read when the module is first imported
+async function loadFactory(env: Record<string, string>) {
+  vi.resetModules();
+  for (const [key, value] of Object.entries(env)) {
+    vi.stubEnv(key, value);
+  }
+  return import('./storage-factory');
+}
+
+describe('storage factory', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('boots the memory driver without Firebase or a generated Prisma client', async () => {
+    const { storage, getStorageConfig, getDualWriteBackends } = await loadFactory({ STORAGE_DRIVER: 'memory' });
+    const { MemoryStorage } = await import('./memory-storage');
+
+    expect(storage).toBeInstanceOf(MemoryStorage);
+    expect(getStorageConfig().dualWrite).toBe(false);
+    expect(getDualWriteBackends()).toBeUndefined();
+  });
+
+  it('never dual-writes the memory driver', async () => {
+    const { storage, getStorageConfig } = await loadFactory({ STORAGE_DRIVER: 'memory', STORAGE_DUAL_WRITE: 'true' });
+    const { MemoryStorage } = await import('./memory-storage');
+
+    expect(storage).toBeInstanceOf(MemoryStorage);
+    expect(getStorageConfig().dualWrite).toBe(false);
+  });
+
+  it('seeds the sample catalogue unless told not to', async () => {
+    const seeded = await loadFactory({ STORAGE_DRIVER: 'memory' });
+    expect((await seeded.storage.getPcBuilds()).length).toBeGreaterThan(0);
+
+    const empty = await loadFactory({ STORAGE_DRIVER: 'memory', STORAGE_MEMORY_SEED: 'false' });
+    expect(await empty.storage.getPcBuilds()).toEqual([]);
+  });
+});
+
+describe('storage reconciler on the memory driver', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('has no outbox to drain', async () => {
+    await loadFactory({ STORAGE_DRIVER: 'memory' });
+    const { storageReconciler } = await import('../services/storage-reconciler');
+
+    const result = await storageReconciler.processOutbox();
+    expect(result).toEqual({ processed: 0, synced: 0, failed: 0, dead: 0 });
+  });
+
+  it('refuses to reconcile without both stores', async () => {
+    await loadFactory({ STORAGE_DRIVER: 'memory' });
+    const { storageReconciler } = await import('../services/storage-reconciler');
+
+    await expect(storageReconciler.reconcile()).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -1,9 +1,19 @@
-import type { IStorage } from '../firebase-realtime-storage';
-import { FirebaseRealtimeStorage } from '../firebase-realtime-storage';
-import { PrismaStorage } from './prisma-storage';
+import type { IStorage, FirebaseRealtimeStorage } from '../firebase-realtime-storage';
+import type { PrismaStorage } from './prisma-storage';
+import type { FirebasePrismaMigration } from './firebase-prisma-migration';
+import { MemoryStorage } from './memory-storage';
+import { logger } from '../utils/logger';
+import type {
+  DualWriteEntity,
+  StorageBackend,
+  OrderListQuery,
+  InquiryListQuery,
+  UserListQuery,
+  SubscriptionListQuery
+} from '../../shared/schema';
 
 // Environment configuration for storage driver selection
-const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'firebase'; // 'firebase' | 'prisma'
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'firebase'; // 'firebase' | 'prisma' | 'memory'
 const STORAGE_DUAL_WRITE = process.env.STORAGE_DUAL_WRITE === 'true';
 
 // Per-entity read configuration
@@ -13,20 +23,50 @@ const STORAGE_READ_USER_PROFILES = process.env.STORAGE_READ_USER_PROFILES || STO
 const STORAGE_READ_INQUIRIES = process.env.STORAGE_READ_INQUIRIES || STORAGE_DRIVER;
 const STORAGE_READ_COMPONENTS = process.env.STORAGE_READ_COMPONENTS || STORAGE_DRIVER;
 
+// Dual-written entities are written to the store they are read from first, then copied to the other one
+const DUAL_WRITE_PRIMARY: Record<DualWriteEntity, StorageBackend> = {
+  pcBuilds: STORAGE_READ_PC_BUILDS === 'prisma' ? 'prisma' : 'firebase',
+  components: STORAGE_READ_COMPONENTS === 'prisma' ? 'prisma' : 'firebase',
+  inquiries: STORAGE_READ_INQUIRIES === 'prisma' ? 'prisma' : 'firebase',
+  userProfiles: STORAGE_READ_USER_PROFILES === 'prisma' ? 'prisma' : 'firebase',
+  orders: STORAGE_READ_ORDERS === 'prisma' ? 'prisma' : 'firebase'
+};
+
+export function getStorageConfig() {
+  return { driver: STORAGE_DRIVER, dualWrite: STORAGE_DUAL_WRITE && STORAGE_DRIVER !== 'memory', primary: DUAL_WRITE_PRIMARY };
+}
+
+// The stores behind DualWriteStorage and the copier between them, for the reconciler
+export interface DualWriteBackends {
+  firebase: FirebaseRealtimeStorage;
+  prisma: PrismaStorage;
+  migration: FirebasePrismaMigration;
+}
+
+let dualWriteBackends: DualWriteBackends | undefined;
+
+// Undefined while a single store is in use
+export function getDualWriteBackends(): DualWriteBackends | undefined {
+  return dualWriteBackends;
+}
+
 // Storage configuration loaded
 
 /**
  * Dual-Write Storage Wrapper
  * Writes to both Firebase and Prisma when dual-write is enabled
  * Reads from the configured primary source per entity
+ * A write that misses the second store is queued in the sync outbox (see storage-reconciler.ts)
  */
 class DualWriteStorage implements IStorage {
   private firebaseStorage: FirebaseRealtimeStorage;
   private prismaStorage: PrismaStorage;
+  private migration: FirebasePrismaMigration;
 
-  constructor() {
-    this.firebaseStorage = new FirebaseRealtimeStorage();
-    this.prismaStorage = new PrismaStorage();
+  constructor(backends: DualWriteBackends) {
+    this.firebaseStorage = backends.firebase;
+    this.prismaStorage = backends.prisma;
+    this.migration = backends.migration;
   }
 
   // PC Builds Management
@@ -46,58 +86,19 @@ class DualWriteStorage implements IStorage {
   }
 
   async createPcBuild(build: any) {
-    if (STORAGE_DUAL_WRITE) {
-      // Write to both, but return from primary
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.createPcBuild(build),
-        this.prismaStorage.createPcBuild(build)
-      ]);
-      
-      
-      // Return from the read source
-      const source = STORAGE_READ_PC_BUILDS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-      return source.getPcBuildById((firebaseResult.status === 'fulfilled' ? firebaseResult.value.id : (prismaResult as any).value.id));
-    } else {
-      // Single write
-      const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-      return source.createPcBuild(build);
-    }
+    return this.dualWrite('pcBuilds', 'createPcBuild', source => source.createPcBuild(build), created => created.id);
   }
 
   async updatePcBuild(id: number, buildData: any) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.updatePcBuild(id, buildData),
-        this.prismaStorage.updatePcBuild(id, buildData)
-      ]);
-    }
-    
-    const source = STORAGE_READ_PC_BUILDS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updatePcBuild(id, buildData);
+    return this.dualWrite('pcBuilds', 'updatePcBuild', source => source.updatePcBuild(id, buildData), () => id);
   }
 
   async updatePcBuildStock(id: number, stockQuantity: number) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.updatePcBuildStock(id, stockQuantity),
-        this.prismaStorage.updatePcBuildStock(id, stockQuantity)
-      ]);
-    }
-    
-    const source = STORAGE_READ_PC_BUILDS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updatePcBuildStock(id, stockQuantity);
+    return this.dualWrite('pcBuilds', 'updatePcBuildStock', source => source.updatePcBuildStock(id, stockQuantity), () => id);
   }
 
   async deleteAllPcBuilds() {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.deleteAllPcBuilds(),
-        this.prismaStorage.deleteAllPcBuilds()
-      ]);
-    } else {
-      const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-      return source.deleteAllPcBuilds();
-    }
+    return this.clearBoth('pcBuilds', 'deleteAllPcBuilds', source => source.deleteAllPcBuilds());
   }
 
   // Components Management
@@ -112,39 +113,24 @@ class DualWriteStorage implements IStorage {
   }
 
   async createComponent(component: any) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.createComponent(component),
-        this.prismaStorage.createComponent(component)
-      ]);
-    }
-    
-    const source = STORAGE_READ_COMPONENTS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.createComponent(component);
+    return this.dualWrite('components', 'createComponent', source => source.createComponent(component), created => created.id);
   }
 
   async updateComponent(id: number, componentData: any) {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.updateComponent(id, componentData),
-        this.prismaStorage.updateComponent(id, componentData)
-      ]);
-    }
-    
-    const source = STORAGE_READ_COMPONENTS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updateComponent(id, componentData);
+    return this.dualWrite('components', 'updateComponent', source => source.updateComponent(id, componentData), () => id);
   }
 
   async deleteComponent(id: number) {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.deleteComponent(id),
-        this.prismaStorage.deleteComponent(id)
-      ]);
-    } else {
-      const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-      return source.deleteComponent(id);
-    }
+    return this.dualWrite('components', 'deleteComponent', source => source.deleteComponent(id), () => id);
+  }
+
+  async getComponentsByBuildId(buildId: number) {
+    const source = STORAGE_READ_COMPONENTS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getComponentsByBuildId(buildId);
+  }
+
+  async updateComponentStock(id: number, stockQuantity: number) {
+    return this.dualWrite('components', 'updateComponentStock', source => source.updateComponentStock(id, stockQuantity), () => id);
   }
 
   // User Management
@@ -154,27 +140,11 @@ class DualWriteStorage implements IStorage {
   }
 
   async createUserProfile(profile: any) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.createUserProfile(profile),
-        this.prismaStorage.createUserProfile(profile)
-      ]);
-    }
-    
-    const source = STORAGE_READ_USER_PROFILES === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.createUserProfile(profile);
+    return this.dualWrite('userProfiles', 'createUserProfile', source => source.createUserProfile(profile), created => created.uid);
   }
 
   async updateUserProfile(uid: string, profileUpdates: any) {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.updateUserProfile(uid, profileUpdates),
-        this.prismaStorage.updateUserProfile(uid, profileUpdates)
-      ]);
-    }
-    
-    const source = STORAGE_READ_USER_PROFILES === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updateUserProfile(uid, profileUpdates);
+    return this.dualWrite('userProfiles', 'updateUserProfile', source => source.updateUserProfile(uid, profileUpdates), () => uid);
   }
 
   async getAllUserProfiles() {
@@ -182,6 +152,11 @@ class DualWriteStorage implements IStorage {
     return source.getAllUserProfiles();
   }
 
+  async listUserProfiles(query: UserListQuery) {
+    const source = STORAGE_READ_USER_PROFILES === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.listUserProfiles(query);
+  }
+
   // Orders Management
   async getUserOrders(userId: string) {
     const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
@@ -193,28 +168,130 @@ class DualWriteStorage implements IStorage {
     return source.getAllOrders();
   }
 
-  async createOrder(order: any) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.createOrder(order),
-        this.prismaStorage.createOrder(order)
-      ]);
-    }
-    
+  async listOrders(query: OrderListQuery) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.listOrders(query);
+  }
+
+  async getOrderById(id: number) {
     const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.createOrder(order);
+    return source.getOrderById(id);
+  }
+
+  async getOrderByRazorpayOrderId(razorpayOrderId: string) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getOrderByRazorpayOrderId(razorpayOrderId);
+  }
+
+  async clearAllOrders() {
+    return this.clearBoth('orders', 'clearAllOrders', source => source.clearAllOrders());
+  }
+
+  async createOrder(order: any) {
+    return this.dualWrite('orders', 'createOrder', source => source.createOrder(order), created => created.id);
   }
 
   async updateOrderStatus(id: number, status: string) {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.updateOrderStatus(id, status),
-        this.prismaStorage.updateOrderStatus(id, status)
-      ]);
-    }
-    
+    return this.dualWrite('orders', 'updateOrderStatus', source => source.updateOrderStatus(id, status), () => id);
+  }
+
+  // Status transitions are compare-and-set, so they run against the store orders are read from
+  async transitionOrderStatus(id: number, fromStatus: any, toStatus: any, updates?: { trackingNumber?: string; razorpayPaymentId?: string }) {
+    return this.dualWrite(
+      'orders',
+      'transitionOrderStatus',
+      source => source.transitionOrderStatus(id, fromStatus, toStatus, updates),
+      order => order?.id
+    );
+  }
+
+  async createOrderStatusEvent(event: any) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createOrderStatusEvent(event);
+  }
+
+  async getOrderStatusHistory(orderId: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getOrderStatusHistory(orderId);
+  }
+
+  async addOrderRefundedAmount(id: number, amount: number) {
+    return this.dualWrite('orders', 'addOrderRefundedAmount', source => source.addOrderRefundedAmount(id, amount), order => order?.id);
+  }
+
+  async updateOrderRefundStatus(id: number, refundStatus: any) {
+    return this.dualWrite('orders', 'updateOrderRefundStatus', source => source.updateOrderRefundStatus(id, refundStatus), order => order?.id);
+  }
+
+  // Refunds & Credit Notes follow the orders they belong to
+  async createOrderRefund(refund: any) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createOrderRefund(refund);
+  }
+
+  async claimOrderRefund(refund: any, orderTotal: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.claimOrderRefund(refund, orderTotal);
+  }
+
+  async rekeyOrderRefund(id: string, refundId: string) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.rekeyOrderRefund(id, refundId);
+  }
+
+  async getOrderRefund(id: string) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getOrderRefund(id);
+  }
+
+  async getOrderRefunds(orderId: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getOrderRefunds(orderId);
+  }
+
+  async transitionOrderRefund(id: string, status: 'processed' | 'failed', updates?: { failureReason?: string }) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.transitionOrderRefund(id, status, updates);
+  }
+
+  async updateOrderRefund(id: string, updates: { creditNoteNumber?: string }) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateOrderRefund(id, updates);
+  }
+
+  async createCreditNote(creditNote: any) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createCreditNote(creditNote);
+  }
+
+  async getCreditNotes(orderId: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getCreditNotes(orderId);
+  }
+
+  async createTaxInvoice(invoice: any, numbering: { sequence: string; prefix: string }) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createTaxInvoice(invoice, numbering);
+  }
+
+  async getTaxInvoiceByOrderId(orderId: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getTaxInvoiceByOrderId(orderId);
+  }
+
+  async saveInvoiceDocument(document: any) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.saveInvoiceDocument(document);
+  }
+
+  async getInvoiceDocument(orderId: number) {
+    const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getInvoiceDocument(orderId);
+  }
+
+  async getNextSequenceValue(sequence: string) {
     const source = STORAGE_READ_ORDERS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updateOrderStatus(id, status);
+    return source.getNextSequenceValue(sequence);
   }
 
   // Inquiries Management
@@ -223,28 +300,17 @@ class DualWriteStorage implements IStorage {
     return source.getInquiries();
   }
 
-  async createInquiry(inquiry: any) {
-    if (STORAGE_DUAL_WRITE) {
-      const [firebaseResult, prismaResult] = await Promise.allSettled([
-        this.firebaseStorage.createInquiry(inquiry),
-        this.prismaStorage.createInquiry(inquiry)
-      ]);
-    }
-    
+  async listInquiries(query: InquiryListQuery) {
     const source = STORAGE_READ_INQUIRIES === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.createInquiry(inquiry);
+    return source.listInquiries(query);
+  }
+
+  async createInquiry(inquiry: any) {
+    return this.dualWrite('inquiries', 'createInquiry', source => source.createInquiry(inquiry), created => created.id);
   }
 
   async updateInquiryStatus(id: number, status: string) {
-    if (STORAGE_DUAL_WRITE) {
-      await Promise.allSettled([
-        this.firebaseStorage.updateInquiryStatus(id, status),
-        this.prismaStorage.updateInquiryStatus(id, status)
-      ]);
-    }
-    
-    const source = STORAGE_READ_INQUIRIES === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.updateInquiryStatus(id, status);
+    return this.dualWrite('inquiries', 'updateInquiryStatus', source => source.updateInquiryStatus(id, status), () => id);
   }
 
   async getInquiriesByStatus(status: string) {
@@ -252,15 +318,37 @@ class DualWriteStorage implements IStorage {
     return source.getInquiriesByStatus(status);
   }
 
+  async clearAllInquiries() {
+    return this.clearBoth('inquiries', 'clearAllInquiries', source => source.clearAllInquiries());
+  }
+
+  // Builds and components can be read from different stores
+  async getLowStockItems() {
+    const buildSource = STORAGE_READ_PC_BUILDS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    const componentSource = STORAGE_READ_COMPONENTS === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    const [{ builds }, { components }] = await Promise.all([buildSource.getLowStockItems(), componentSource.getLowStockItems()]);
+    return { builds, components };
+  }
+
+  async getStockAlerts() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getStockAlerts();
+  }
+
+  async resolveStockAlert(alertId: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.resolveStockAlert(alertId);
+  }
+
   // Delegate all other methods to the primary storage for now
   async getUserSavedBuilds(userId: string) {
     const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
     return source.getUserSavedBuilds(userId);
   }
 
-  async saveUserBuild(userId: string, buildId: number) {
+  async saveUserBuild(savedBuild: any) {
     const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
-    return source.saveUserBuild(userId, buildId);
+    return source.saveUserBuild(savedBuild);
   }
 
   async removeSavedBuild(userId: string, buildId: number) {
@@ -323,6 +411,11 @@ class DualWriteStorage implements IStorage {
     return source.getAllSubscriptions();
   }
 
+  async listSubscriptions(query: SubscriptionListQuery) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.listSubscriptions(query);
+  }
+
   async createSubscription(subscription: any) {
     const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
     return source.createSubscription(subscription);
@@ -368,6 +461,11 @@ class DualWriteStorage implements IStorage {
     return source.getSubscriptionsDueBilling(date);
   }
 
+  async updateSubscriptionBilling(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSubscriptionBilling(id, updates);
+  }
+
   async getSubscriptionOrders(subscriptionId: string) {
     const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
     return source.getSubscriptionOrders(subscriptionId);
@@ -392,15 +490,377 @@ class DualWriteStorage implements IStorage {
     const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
     return source.getSubscriptionOrderById(id);
   }
+
+  async updateSubscriptionOrderBilling(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSubscriptionOrderBilling(id, updates);
+  }
+
+  async getSubscriptionOrdersAwaitingRetry(before: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSubscriptionOrdersAwaitingRetry(before);
+  }
+
+  async getSubscriptionPlans() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSubscriptionPlans();
+  }
+
+  async getSubscriptionPlan(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSubscriptionPlan(id);
+  }
+
+  async createSubscriptionPlan(plan: any, createdBy?: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createSubscriptionPlan(plan, createdBy);
+  }
+
+  async updateSubscriptionPlan(id: string, updates: any, createdBy?: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSubscriptionPlan(id, updates, createdBy);
+  }
+
+  async setSubscriptionPlanStatus(id: string, status: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.setSubscriptionPlanStatus(id, status);
+  }
+
+  async getSubscriptionPlanVersions(planId: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSubscriptionPlanVersions(planId);
+  }
+
+  async getSubscriptionPlanVersion(planId: string, version: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSubscriptionPlanVersion(planId, version);
+  }
+
+  // Stock counters and reservations are updated atomically, so they live only in the primary store
+  async getStockMovements(itemId?: number, itemType?: 'build' | 'component') {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getStockMovements(itemId, itemType);
+  }
+
+  async createStockMovement(movement: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createStockMovement(movement);
+  }
+
+  async reserveBuildStock(buildId: number, quantity: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.reserveBuildStock(buildId, quantity);
+  }
+
+  async releaseBuildStock(buildId: number, quantity: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.releaseBuildStock(buildId, quantity);
+  }
+
+  async commitBuildStock(buildId: number, quantity: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.commitBuildStock(buildId, quantity);
+  }
+
+  async restockBuild(buildId: number, quantity: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.restockBuild(buildId, quantity);
+  }
+
+  async createStockReservation(reservation: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createStockReservation(reservation);
+  }
+
+  async getStockReservation(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getStockReservation(id);
+  }
+
+  async getExpiredStockReservations(before: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getExpiredStockReservations(before);
+  }
+
+  async transitionStockReservation(id: string, status: 'committed' | 'released', updates?: { orderId?: number; releaseReason?: string }) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.transitionStockReservation(id, status, updates);
+  }
+
+  // Discount counters are enforced atomically, so they live only in the primary store
+  async getDiscountCodes() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getDiscountCodes();
+  }
+
+  async getDiscountCodeByCode(code: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getDiscountCodeByCode(code);
+  }
+
+  async createDiscountCode(discount: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createDiscountCode(discount);
+  }
+
+  async updateDiscountCode(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateDiscountCode(id, updates);
+  }
+
+  async getBulkPricingTiers() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getBulkPricingTiers();
+  }
+
+  async saveBulkPricingTier(tier: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.saveBulkPricingTier(tier);
+  }
+
+  async getDiscountRedemptions(discountId: string, userId?: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getDiscountRedemptions(discountId, userId);
+  }
+
+  async redeemDiscountCode(discountId: string, userId: string, checkoutId: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.redeemDiscountCode(discountId, userId, checkoutId);
+  }
+
+  async releaseDiscountRedemption(discountId: string, checkoutId: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.releaseDiscountRedemption(discountId, checkoutId);
+  }
+
+  // Catalog prices and stock are edited in one place, so they follow the primary store
+  async getCatalogComponents() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getCatalogComponents();
+  }
+
+  async getCatalogComponent(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getCatalogComponent(id);
+  }
+
+  async createCatalogComponent(component: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createCatalogComponent(component);
+  }
+
+  async updateCatalogComponent(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateCatalogComponent(id, updates);
+  }
+
+  async deleteCatalogComponent(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.deleteCatalogComponent(id);
+  }
+
+  // Ticket threads are read back right after each reply, so they follow the primary store
+  async createSupportTicket(ticket: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createSupportTicket(ticket);
+  }
+
+  async getSupportTicket(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSupportTicket(id);
+  }
+
+  async getSupportTickets(filters?: { userId?: string }) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSupportTickets(filters);
+  }
+
+  async getSupportTicketByMessageId(messageId: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSupportTicketByMessageId(messageId);
+  }
+
+  async updateSupportTicket(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSupportTicket(id, updates);
+  }
+
+  async addSupportTicketResponse(ticketId: string, response: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.addSupportTicketResponse(ticketId, response);
+  }
+
+  async deleteSupportTicket(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.deleteSupportTicket(id);
+  }
+
+  async getSupportSlaPolicies() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSupportSlaPolicies();
+  }
+
+  async createSupportSlaPolicy(policy: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createSupportSlaPolicy(policy);
+  }
+
+  async updateSupportSlaPolicy(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSupportSlaPolicy(id, updates);
+  }
+
+  async deleteSupportSlaPolicy(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.deleteSupportSlaPolicy(id);
+  }
+
+  async createChatSession(session: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.createChatSession(session);
+  }
+
+  async getChatSession(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getChatSession(id);
+  }
+
+  async getChatSessions(filters?: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getChatSessions(filters);
+  }
+
+  async updateChatSession(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateChatSession(id, updates);
+  }
+
+  async addChatMessage(message: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.addChatMessage(message);
+  }
+
+  async getChatMessages(sessionId: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getChatMessages(sessionId);
+  }
+
+  async getAdminSetting(key: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getAdminSetting(key);
+  }
+
+  async setAdminSetting(key: string, value: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.setAdminSetting(key, value);
+  }
+
+  async getAllAdminSettings() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getAllAdminSettings();
+  }
+
+  async acquireJobLock(name: string, holder: string, ttlMs: number) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.acquireJobLock(name, holder, ttlMs);
+  }
+
+  async releaseJobLock(name: string, holder: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.releaseJobLock(name, holder);
+  }
+
+  // Dual writes queue into the store that took the write; the reconciler drains both outboxes itself
+  async enqueueSyncOutboxEntry(entry: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.enqueueSyncOutboxEntry(entry);
+  }
+
+  async getSyncOutboxEntries() {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.getSyncOutboxEntries();
+  }
+
+  async updateSyncOutboxEntry(id: string, updates: any) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.updateSyncOutboxEntry(id, updates);
+  }
+
+  async deleteSyncOutboxEntry(id: string) {
+    const source = STORAGE_DRIVER === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+    return source.deleteSyncOutboxEntry(id);
+  }
+
+  private backend(name: StorageBackend) {
+    return name === 'prisma' ? this.prismaStorage : this.firebaseStorage;
+  }
+
+  // Bulk deletes have no single record to queue, so a failure on the other store is left to the reconciler
+  private async clearBoth(
+    entity: DualWriteEntity,
+    operation: string,
+    clear: (source: FirebaseRealtimeStorage | PrismaStorage) => Promise<void>
+  ): Promise<void> {
+    const primary = DUAL_WRITE_PRIMARY[entity];
+    await clear(this.backend(primary));
+    if (!STORAGE_DUAL_WRITE) return;
+
+    try {
+      await clear(this.backend(primary === 'prisma' ? 'firebase' : 'prisma'));
+    } catch (error) {
+      logger.error(`Dual write of ${operation} failed; the reconciler will remove the rest`, error, { context: 'Storage' });
+    }
+  }
+
+  // Writes the entity's primary store and returns its result; a failure there fails the call as before.
+  // With dual-write on, the written record is then copied across, and a failed copy is logged and queued
+  private async dualWrite<T>(
+    entity: DualWriteEntity,
+    operation: string,
+    write: (source: FirebaseRealtimeStorage | PrismaStorage) => Promise<T>,
+    keyOf: (result: T) => string | number | undefined
+  ): Promise<T> {
+    const primary = DUAL_WRITE_PRIMARY[entity];
+    const result = await write(this.backend(primary));
+    const key = STORAGE_DUAL_WRITE ? keyOf(result) : undefined;
+    if (key === undefined) return result;
+
+    const target: StorageBackend = primary === 'prisma' ? 'firebase' : 'prisma';
+    try {
+      await this.migration.syncRecord(entity, String(key), target);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      logger.error(`Dual write of ${entity} ${key} to ${target} failed; queued for retry`, error, { context: 'Storage' });
+      try {
+        await this.backend(primary).enqueueSyncOutboxEntry({ entity, key: String(key), target, operation, lastError, nextAttemptAt: Date.now() });
+      } catch (outboxError) {
+        logger.error(`Could not queue ${entity} ${key}; the reconciler will repair it`, outboxError, { context: 'Storage' });
+      }
+    }
+    return result;
+  }
 }
 
-// Create and export the storage instance
-function createStorage(): IStorage {
+// Create and export the storage instance. Firebase and Prisma are only imported once selected, so the
+// memory driver starts without Firebase settings or a generated Prisma client
+async function createStorage(): Promise<IStorage> {
+  // Offline driver for tests and local development; never dual-written and seeded unless STORAGE_MEMORY_SEED=false
+  if (STORAGE_DRIVER === 'memory') {
+    logger.warn('Using in-memory storage; data is lost on restart', { context: 'Storage' });
+    return new MemoryStorage({ seed: process.env.STORAGE_MEMORY_SEED !== 'false' });
+  }
   if (STORAGE_DUAL_WRITE || STORAGE_DRIVER === 'prisma') {
-    return new DualWriteStorage();
+    const [{ firebaseRealtimeStorage }, { prismaStorage }, { firebasePrismaMigration }] = await Promise.all([
+      import('../firebase-realtime-storage'),
+      import('./prisma-storage'),
+      import('./firebase-prisma-migration')
+    ]);
+    dualWriteBackends = { firebase: firebaseRealtimeStorage, prisma: prismaStorage, migration: firebasePrismaMigration };
+    return new DualWriteStorage(dualWriteBackends);
   } else {
-    return new FirebaseRealtimeStorage();
+    const { firebaseRealtimeStorage } = await import('../firebase-realtime-storage');
+    return firebaseRealtimeStorage;
   }
 }
 
-export const storage = createStorage();
\ No newline at end of file
+export const storage = await createStorage();
\ No newline at end of file
@@ -82,6 +82,17 @@ export async function updateUserProfileLocal(uid: string, updates: Partial<Inser
   return updatedProfile;
 }
 
+// Overwrites (or with undefined, removes) a whole profile; used when repairing it from Prisma
+export async function replaceUserProfileLocal(uid: string, profile: UserProfile | undefined): Promise<void> {
+  const profiles = await loadUserProfiles();
+  if (profile) {
+    profiles[uid] = profile;
+  } else {
+    delete profiles[uid];
+  }
+  await saveUserProfiles(profiles);
+}
+
 export async function getAllUserProfilesLocal(): Promise<UserProfile[]> {
   const profiles = await loadUserProfiles();
   return Object.values(profiles).sort((a, b) => {
@@ -0,0 +1,14 @@
+// Indian financial years run April to March, labelled like "2025-26"
+export function getFinancialYear(date: Date = new Date()): string {
+  // Evaluate the date in IST so documents issued just after midnight on 1 April land in the new year
+  const ist = new Date(date.getTime() + 5.5 * 60 * 60 * 1000);
+  const year = ist.getUTCFullYear();
+  const startYear = ist.getUTCMonth() >= 3 ? year : year - 1;
+
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// Document numbers run per series, e.g. "FF/2025-26/00042"
+export function formatDocumentNumber(prefix: string, value: number): string {
+  return `${prefix}${String(value).padStart(5, '0')}`;
+}
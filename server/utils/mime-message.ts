@@ -0,0 +1,219 @@
+// RFC 822 / MIME message parser for inbound mail. Decodes the headers, bodies and attachments
+// that mail providers forward from real clients; it does not try to validate the message.
+
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface MailAttachment {
+  fileName: string;
+  declaredType: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  headers: Record<string, string>; // lower-cased names; repeated headers are joined with ", "
+  from?: MailAddress;
+  to: MailAddress[];
+  cc: MailAddress[];
+  replyTo?: MailAddress;
+  subject: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  text: string;
+  attachments: MailAttachment[];
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+const HEADER_END = /\r?\n\r?\n/;
+
+function splitHeaderBlock(raw: Buffer): MimePart {
+  // Headers are ASCII, so searching a latin1 view keeps byte offsets intact
+  const view = raw.toString('latin1');
+  const match = HEADER_END.exec(view);
+  const headerText = match ? view.slice(0, match.index) : view;
+  const body = match ? raw.subarray(match.index + match[0].length) : Buffer.alloc(0);
+
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8');
+    headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+  }
+  return { headers, body };
+}
+
+function headerParam(value: string | undefined, name: string): string | undefined {
+  if (!value) return undefined;
+  // RFC 2231 extended form, e.g. filename*=UTF-8''r%C3%A9sum%C3%A9.pdf
+  const extended = new RegExp(`(?:^|;)\\s*${name}\\*=([^']*)'[^']*'([^;]+)`, 'i').exec(value);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      return extended[2].trim();
+    }
+  }
+  const match = new RegExp(`(?:^|;)\\s*${name}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))`, 'i').exec(value);
+  if (!match) return undefined;
+  return decodeWords((match[1] ?? match[2]).replace(/\\(.)/g, '$1'));
+}
+
+function mediaType(value: string | undefined): string {
+  return (value || 'text/plain').split(';')[0].trim().toLowerCase();
+}
+
+function decodeCharset(content: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(content);
+  } catch {
+    return content.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, ''); // soft line breaks
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransfer(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?= or =?iso-8859-1?Q?...?=
+export function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BQbq]\?[^?]*\?=)\s+(?==\?)/g, '$1') // whitespace between encoded words is dropped
+    .replace(/=\?([^?]+)\?([BQbq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+export function parseAddressList(value: string | undefined): MailAddress[] {
+  if (!value) return [];
+  const addresses: MailAddress[] = [];
+  // Split on commas that are not inside quotes or angle brackets
+  for (const entry of value.match(/(?:"(?:[^"\\]|\\.)*"|<[^>]*>|[^,])+/g) || []) {
+    const angle = /<([^>]+)>/.exec(entry);
+    const address = (angle ? angle[1] : entry).trim().toLowerCase();
+    if (!address.includes('@')) continue;
+    const name = angle ? decodeWords(entry.slice(0, angle.index).trim().replace(/^"|"$/g, '')) : undefined;
+    addresses.push({ address, ...(name && { name }) });
+  }
+  return addresses;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '') // quoted history in HTML replies
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// Walk the part tree collecting the first plain and HTML bodies plus every attachment
+function collectParts(part: MimePart, result: { plain?: string; html?: string; attachments: MailAttachment[] }, depth = 0) {
+  const contentType = part.headers['content-type'];
+  const type = mediaType(contentType);
+  const disposition = part.headers['content-disposition'] || '';
+
+  if (type.startsWith('multipart/') && depth < 10) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return;
+    const view = part.body.toString('latin1');
+    const delimiter = `--${boundary}`;
+    const closing = view.indexOf(`${delimiter}--`);
+    const escaped = delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Drop the epilogue after the closing delimiter; the first segment is the preamble
+    const segments = (closing === -1 ? view : view.slice(0, closing).replace(/\r?\n$/, '')).split(new RegExp(`\\r?\\n?${escaped}[ \\t]*\\r?\\n`));
+    for (const segment of segments.slice(1)) {
+      if (!segment.trim()) continue;
+      collectParts(splitHeaderBlock(Buffer.from(segment, 'latin1')), result, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeTransfer(part.body, part.headers['content-transfer-encoding']);
+  const fileName = headerParam(disposition, 'filename') || headerParam(contentType, 'name');
+  const isAttachment = /^attachment/i.test(disposition) || (fileName !== undefined && !type.startsWith('text/'));
+
+  if (isAttachment || (!type.startsWith('text/') && type !== 'message/rfc822')) {
+    if (content.length > 0) {
+      result.attachments.push({ fileName: fileName || 'attachment', declaredType: type, content });
+    }
+    return;
+  }
+
+  const text = decodeCharset(content, headerParam(contentType, 'charset'));
+  if (type === 'text/html') {
+    result.html ??= text;
+  } else if (type === 'text/plain') {
+    result.plain ??= text;
+  }
+}
+
+function messageIds(value: string | undefined): string[] {
+  return (value?.match(/<[^>]+>/g) || []).map(id => id.slice(1, -1));
+}
+
+export function parseMail(raw: Buffer): ParsedMail {
+  const root = splitHeaderBlock(raw);
+  const headers = root.headers;
+  const collected: { plain?: string; html?: string; attachments: MailAttachment[] } = { attachments: [] };
+  collectParts(root, collected);
+
+  return {
+    headers,
+    from: parseAddressList(headers['from'])[0],
+    to: [
+      ...parseAddressList(headers['to']),
+      ...parseAddressList(headers['delivered-to']),
+      ...parseAddressList(headers['x-original-to'])
+    ],
+    cc: parseAddressList(headers['cc']),
+    replyTo: parseAddressList(headers['reply-to'])[0],
+    subject: decodeWords(headers['subject'] || '').trim(),
+    messageId: messageIds(headers['message-id'])[0],
+    inReplyTo: messageIds(headers['in-reply-to'])[0],
+    references: messageIds(headers['references']),
+    text: (collected.plain ?? (collected.html ? stripHtml(collected.html) : '')).replace(/\r\n/g, '\n'),
+    attachments: collected.attachments
+  };
+}
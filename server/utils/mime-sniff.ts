@@ -0,0 +1,47 @@
+// Content type detection from file signatures. Only the formats accepted as uploads are recognised;
+// anything else returns undefined so callers can reject it.
+import type { SupportAttachmentType } from '../../shared/schema';
+
+const TEXT_SAMPLE_BYTES = 8192;
+
+function startsWith(content: Buffer, signature: number[], offset = 0): boolean {
+  return content.length >= offset + signature.length
+    && signature.every((byte, index) => content[offset + index] === byte);
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+// Plain text: no NUL or other binary control bytes, and the sample decodes as UTF-8
+function looksLikeText(content: Buffer): boolean {
+  if (content.length === 0) return false;
+
+  // Trim the sample back to a character boundary so a multi-byte sequence is not cut in half
+  let sampleEnd = Math.min(content.length, TEXT_SAMPLE_BYTES);
+  if (sampleEnd < content.length) {
+    while (sampleEnd > 0 && (content[sampleEnd] & 0xc0) === 0x80) sampleEnd--;
+  }
+  const sample = content.subarray(0, sampleEnd);
+
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function sniffMimeType(content: Buffer): SupportAttachmentType | undefined {
+  if (startsWith(content, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(content, ascii('GIF87a')) || startsWith(content, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(content, ascii('RIFF')) && startsWith(content, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(content, ascii('%PDF-'))) return 'application/pdf';
+  if (looksLikeText(content)) return 'text/plain';
+  return undefined;
+}
@@ -0,0 +1,180 @@
+// Minimal PDF 1.4 writer for server-rendered documents such as invoices.
+// It only uses the standard Helvetica fonts, so no font files are embedded and text is limited to
+// the WinAnsi character set. Output is deterministic: the same drawing calls give the same bytes.
+
+type Rgb = [number, number, number];
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'right' | 'center';
+  width?: number; // box width used for right and centre alignment
+}
+
+// Advance widths (per 1000 units) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatColor(color: Rgb): string {
+  return color.map(component => formatNumber(component / 255)).join(' ');
+}
+
+// PDF dates look like D:20250401093000Z
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+// Keep printable Latin-1 text and escape the string delimiters
+function encodeText(text: string): string {
+  return text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+export class PdfDocument {
+  static readonly PAGE_WIDTH = 595.28; // A4 in points
+  static readonly PAGE_HEIGHT = 841.89;
+
+  private pages: string[][] = [];
+
+  constructor(private info: { title?: string; author?: string; creationDate?: Date } = {}) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  widthOfText(text: string, size: number = 10, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of text.replace(/₹/g, 'Rs.')) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (units * size) / 1000;
+  }
+
+  // Break text into lines that fit within maxWidth, splitting on spaces
+  wrapText(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.widthOfText(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+  }
+
+  // Coordinates are measured from the top-left corner of the page; y is the text baseline
+  text(text: string, x: number, y: number, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    let left = x;
+    if (options.width !== undefined && options.align && options.align !== 'left') {
+      const free = options.width - this.widthOfText(text, size, bold);
+      left = options.align === 'right' ? x + free : x + free / 2;
+    }
+
+    this.currentPage.push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(options.color ?? [0, 0, 0])} rg ` +
+      `${formatNumber(left)} ${formatNumber(PdfDocument.PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: Rgb; width?: number } = {}): void {
+    this.currentPage.push(
+      `${formatColor(options.color ?? [0, 0, 0])} RG ${formatNumber(options.width ?? 0.5)} w ` +
+      `${formatNumber(x1)} ${formatNumber(PdfDocument.PAGE_HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(PdfDocument.PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill: Rgb }): void {
+    this.currentPage.push(
+      `${formatColor(options.fill)} rg ${formatNumber(x)} ${formatNumber(PdfDocument.PAGE_HEIGHT - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page and content stream per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = [
+      '<<',
+      this.info.title ? `/Title (${encodeText(this.info.title)})` : '',
+      this.info.author ? `/Author (${encodeText(this.info.author)})` : '',
+      '/Producer (FusionForge PCs)',
+      this.info.creationDate ? `/CreationDate (${formatPdfDate(this.info.creationDate)})` : '',
+      '>>'
+    ].filter(Boolean).join(' ');
+
+    this.pages.forEach((operations, index) => {
+      const pageId = 6 + index * 2;
+      const content = operations.join('\n');
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PdfDocument.PAGE_WIDTH} ${PdfDocument.PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -1,30 +1,16 @@
 import { Request, Response } from 'express';
-import crypto from 'crypto';
 import { razorpayService } from '../payment/razorpay-service';
 import { sendAutomatedReceipt, ReceiptData } from '../services/receipt-generator';
-import { firebaseRealtimeStorage as storage } from '../firebase-realtime-storage';
-
-// Razorpay webhook secret - set this in your environment
-const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+import { storage } from '../storage/index';
+import { stockReservationService } from '../services/stock-reservation';
+import { orderLifecycleService } from '../services/order-lifecycle';
+import { orderPaymentService } from '../services/order-payment';
+import { refundService } from '../services/refund-service';
+import { subscriptionManagementService } from '../services/subscription-management-service';
 
+// The route verifies the X-Razorpay-Signature over the raw body before this runs
 export async function handleRazorpayWebhook(req: Request, res: Response) {
   try {
-    // Verify webhook signature (skip in development/test mode)
-    const receivedSignature = req.headers['x-razorpay-signature'] as string;
-    
-    if (WEBHOOK_SECRET && receivedSignature) {
-      const body = JSON.stringify(req.body);
-      
-      const expectedSignature = crypto
-        .createHmac('sha256', WEBHOOK_SECRET)
-        .update(body)
-        .digest('hex');
-      
-      if (receivedSignature !== expectedSignature) {
-        return res.status(400).json({ error: 'Invalid signature' });
-      }
-    }
-    
     const event = req.body;
     
     // Handle different webhook events
@@ -41,6 +27,23 @@ export async function handleRazorpayWebhook(req: Request, res: Response) {
         await handleOrderPaid(event.payload.order.entity, event.payload.payment.entity);
         break;
         
+      // Subscription charges are collected through payment links; a failed payment leaves the link open to try again
+      case 'payment_link.paid':
+        await subscriptionManagementService.handleChargePaid(event.payload.payment_link.entity.id, event.payload.payment.entity.id);
+        break;
+
+      case 'payment_link.expired':
+        await subscriptionManagementService.handleChargeFailed(event.payload.payment_link.entity.id, 'Payment link expired unpaid');
+        break;
+        
+      case 'refund.processed':
+        await refundService.handleRefundProcessed(event.payload.refund.entity);
+        break;
+        
+      case 'refund.failed':
+        await refundService.handleRefundFailed(event.payload.refund.entity);
+        break;
+        
       // Subscription webhook events
       case 'subscription.activated':
         await handleSubscriptionActivated(event.payload.subscription.entity);
@@ -79,19 +82,15 @@ export async function handleRazorpayWebhook(req: Request, res: Response) {
 
 async function handlePaymentCaptured(payment: any) {
   try {
-    // Find the order associated with this payment
-    const orders = await storage.getAllOrders();
-    const matchingOrder = orders.find(order => 
-      order.paymentMethod === 'online_payment' && 
-      order.status === 'pending'
-    );
+    const matchingOrder = await orderPaymentService.findOrderForPayment(payment.order_id);
+    if (!matchingOrder && payment.order_id) {
+      // The checkout may not have placed its order yet; the order picks up the committed stock when it is
+      await orderPaymentService.commitStock(payment.order_id);
+      return;
+    }
     
     if (matchingOrder) {
-      // Update order status
-      await storage.updateOrderStatus(matchingOrder.id, 'paid');
-      
-      // Generate and send receipt
-      await generateAndSendReceipt(payment, matchingOrder);
+      await orderPaymentService.settle(matchingOrder, payment, `Payment ${payment.id} captured`);
     }
     
   } catch (error) {
@@ -102,15 +101,17 @@ async function handlePaymentCaptured(payment: any) {
 
 async function handlePaymentFailed(payment: any) {
   try {
-    // Find and update the order
-    const orders = await storage.getAllOrders();
-    const matchingOrder = orders.find(order => 
-      order.paymentMethod === 'online_payment' && 
-      order.status === 'pending'
-    );
-    
-    if (matchingOrder) {
-      await storage.updateOrderStatus(matchingOrder.id, 'payment_failed');
+    if (payment.order_id) {
+      await stockReservationService.release(payment.order_id, 'Payment failed');
+    }
+
+    // Only the order placed for this Razorpay order is cancelled
+    const matchingOrder = await orderPaymentService.findOrderForPayment(payment.order_id);
+    if (matchingOrder && matchingOrder.status === 'pending') {
+      await orderLifecycleService.transition(matchingOrder.id, 'cancelled', {
+        actor: 'razorpay',
+        note: payment.error_description || 'Payment failed'
+      });
     }
     
   } catch (error) {
@@ -122,91 +123,20 @@ async function handlePaymentFailed(payment: any) {
 async function handleOrderPaid(order: any, payment: any) {
   try {
     // This is triggered when the entire order amount is paid
-    // Generate receipt for the complete order
-    const orders = await storage.getAllOrders();
-    const matchingOrder = orders.find(o => 
-      o.paymentMethod === 'online_payment' && 
-      (o.status === 'pending' || o.status === 'paid')
-    );
-    
-    if (matchingOrder) {
-      await storage.updateOrderStatus(matchingOrder.id, 'paid');
-      await generateAndSendReceipt(payment, matchingOrder);
+    const matchingOrder = await orderPaymentService.findOrderForPayment(order.id);
+    if (!matchingOrder) {
+      await orderPaymentService.commitStock(order.id);
+      return;
     }
     
+    await orderPaymentService.settle(matchingOrder, payment, `Order ${order.id} paid`);
+    
   } catch (error) {
     console.error('Critical payment capture error:', error);
     // TODO: Add proper error notification system for payment failures
   }
 }
 
-async function generateAndSendReceipt(payment: any, order: any) {
-  try {
-    // Fetch build components if buildId is available
-    let buildComponents: any[] = [];
-    if (order.buildId) {
-      try {
-        buildComponents = await storage.getComponentsByBuildId(order.buildId);
-      } catch (error) {
-        console.error('Failed to fetch build components for receipt:', error);
-      }
-    }
-
-    const receiptData: ReceiptData = {
-      orderNumber: `FF${order.id.toString().padStart(8, '0')}`,
-      paymentId: payment.id,
-      orderId: payment.order_id,
-      customerName: order.customerName,
-      customerEmail: order.customerEmail,
-      customerPhone: order.customerPhone,
-      amount: payment.amount / 100, // Convert from paisa to rupees
-      paymentMethod: 'online_payment',
-      paymentStatus: 'completed',
-      items: [{
-        build: {
-          id: order.buildId || 0,
-          name: order.buildName,
-          category: 'custom',
-          price: (payment.amount / 100).toString(),
-          components: buildComponents.map(component => ({
-            id: component.id,
-            name: component.name,
-            type: component.type,
-            specification: component.specification,
-            price: component.price
-          }))
-        },
-        quantity: 1
-      }],
-      shippingAddress: order.shippingAddress,
-      transactionDate: new Date(payment.created_at * 1000).toLocaleString('en-IN', {
-        day: '2-digit',
-        month: '2-digit', 
-        year: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        timeZone: 'Asia/Kolkata'
-      }),
-      companyDetails: {
-        name: 'Fusion Forge PCs',
-        address: process.env.BUSINESS_ADDRESS || '58,Post Office Street , Palladam , TamilNadu , India',
-        phone: process.env.BUSINESS_PHONE || '+91 9363599577',
-        email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
-        website: 'www.fusionforge.com',
-        gst: process.env.BUSINESS_GST || 'GST-NUMBER'
-      }
-    };
-    
-    const receiptSent = await sendAutomatedReceipt(receiptData);
-    
-    return receiptSent;
-    
-  } catch (error) {
-    console.error('Critical receipt generation failure:', error);
-    return false;
-  }
-}
-
 // Subscription webhook handlers
 async function handleSubscriptionActivated(subscription: any) {
   try {
@@ -347,7 +277,7 @@ async function generateSubscriptionReceipt(payment: any, subscription: any, subs
         phone: process.env.BUSINESS_PHONE || '+91 9363599577',
         email: process.env.BUSINESS_EMAIL || 'fusionforgepcs@gmail.com',
         website: 'www.fusionforge.com',
-        gst: process.env.BUSINESS_GST || 'GST-NUMBER'
+        gst: process.env.BUSINESS_GST
       }
     };
     
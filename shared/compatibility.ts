@@ -0,0 +1,262 @@
+// Build compatibility rules shared by the configurator and the API.
+// Pure functions only: no storage or network access, so both sides reach the same verdict for the same parts.
+import type { CatalogCategory, CatalogComponent } from "./schema";
+
+export type CompatibilityIssueType = "error" | "warning" | "info";
+
+export interface CompatibilityIssue {
+  type: CompatibilityIssueType;
+  code: string; // stable identifier for API consumers, e.g. "socket_mismatch"
+  message: string;
+}
+
+export interface CompatibilityCheck {
+  issues: CompatibilityIssue[];
+  overallCompatible: boolean;
+  compatibilityScore: number;
+  assessmentLevel?: string;
+  hasErrors?: boolean;
+  warningCount?: number;
+  infoCount?: number;
+  totalIssues?: number;
+}
+
+// The attributes the rules read; catalog components satisfy this directly
+export type CompatibilityPart = Pick<CatalogComponent, "name"> & Partial<Pick<CatalogComponent,
+  | "performance"
+  | "powerConsumption"
+  | "tier"
+  | "socket"
+  | "memoryType"
+  | "formFactor"
+  | "wattage"
+  | "maxTdp"
+  | "lengthMm"
+  | "heightMm"
+  | "maxGpuLengthMm"
+  | "maxCoolerHeightMm"
+  | "pcieSlots"
+  | "m2Slots"
+  | "capacity"
+  | "vram"
+  | "storageType"
+  | "efficiency"
+>>;
+
+// GPUs, memory kits and drives may be listed more than once; the rest are single parts
+export type CompatibilityBuild = Partial<Record<CatalogCategory, CompatibilityPart | CompatibilityPart[] | null>>;
+
+export interface CompatibilityOptions {
+  useCase?: string;
+}
+
+// Larger numbers are physically bigger boards; a case accepts its own size and anything smaller
+const FORM_FACTOR_SIZES: Record<string, number> = {
+  "mini-itx": 1,
+  "itx": 1,
+  "matx": 2,
+  "micro-atx": 2,
+  "atx": 3,
+  "e-atx": 4,
+  "eatx": 4,
+};
+
+const GPU_CLEARANCE_MARGIN_MM = 10;
+
+function partsOf(build: CompatibilityBuild, category: CatalogCategory): CompatibilityPart[] {
+  const value = build[category];
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(Boolean);
+}
+
+function formFactorSize(formFactor: string | undefined): number | undefined {
+  return formFactor ? FORM_FACTOR_SIZES[formFactor.toLowerCase()] : undefined;
+}
+
+export function isM2Drive(part: CompatibilityPart): boolean {
+  return /nvme|m\.2/i.test(part.storageType || "");
+}
+
+export function getBuildPowerDraw(build: CompatibilityBuild): number {
+  return (Object.keys(build) as CatalogCategory[])
+    .flatMap(category => partsOf(build, category))
+    .reduce((sum, part) => sum + (part.powerConsumption || 0), 0);
+}
+
+export function checkBuildCompatibility(build: CompatibilityBuild, options: CompatibilityOptions = {}): CompatibilityCheck {
+  const issues: CompatibilityIssue[] = [];
+  let compatibilityScore = 100;
+
+  const addIssue = (type: CompatibilityIssueType, code: string, message: string, penalty: number) => {
+    issues.push({ type, code, message });
+    compatibilityScore -= penalty;
+  };
+
+  const [cpu] = partsOf(build, "cpu");
+  const [motherboard] = partsOf(build, "motherboard");
+  const [psu] = partsOf(build, "psu");
+  const [pcCase] = partsOf(build, "case");
+  const [cooler] = partsOf(build, "cooler");
+  const gpus = partsOf(build, "gpu");
+  const ramKits = partsOf(build, "ram");
+  const drives = partsOf(build, "storage");
+  const [gpu] = gpus;
+
+  // CPU-Motherboard compatibility
+  if (cpu && motherboard && cpu.socket !== motherboard.socket) {
+    addIssue("error", "socket_mismatch",
+      `CPU socket (${cpu.socket}) incompatible with motherboard socket (${motherboard.socket})`, 30);
+  }
+
+  // RAM-Motherboard compatibility
+  if (motherboard) {
+    const mismatched = ramKits.find(ram => ram.memoryType !== motherboard.memoryType);
+    if (mismatched) {
+      addIssue("error", "memory_type_mismatch",
+        `RAM type (${mismatched.memoryType}) incompatible with motherboard (${motherboard.memoryType})`, 25);
+    }
+  }
+
+  // Power supply validation
+  const totalPower = getBuildPowerDraw(build);
+  if (psu) {
+    const psuWattage = psu.wattage || 0;
+    const recommendedWattage = totalPower * 1.3;
+
+    if (psuWattage < totalPower) {
+      addIssue("error", "psu_insufficient",
+        `PSU (${psuWattage}W) insufficient for system power draw (${totalPower}W)`, 40);
+    } else if (psuWattage < recommendedWattage) {
+      addIssue("warning", "psu_headroom",
+        `PSU has minimal headroom. Recommend ${Math.ceil(recommendedWattage)}W+ for optimal efficiency`, 10);
+    }
+  }
+
+  // Performance bottleneck detection
+  if (cpu && gpu) {
+    const cpuPerf = cpu.performance || 0;
+    const gpuPerf = gpu.performance || 0;
+
+    if (Math.abs(cpuPerf - gpuPerf) > 20) {
+      addIssue("warning", "performance_imbalance", cpuPerf > gpuPerf
+        ? "CPU significantly outperforms GPU - consider upgrading GPU for balanced performance"
+        : "GPU significantly outperforms CPU - potential CPU bottleneck in demanding games", 10);
+    }
+  }
+
+  // Motherboard form factor against the case
+  if (pcCase && motherboard) {
+    const boardSize = formFactorSize(motherboard.formFactor);
+    const caseSize = formFactorSize(pcCase.formFactor);
+    if (boardSize !== undefined && caseSize !== undefined && boardSize > caseSize) {
+      addIssue("error", "form_factor_mismatch",
+        `${motherboard.formFactor} motherboard won't fit in ${pcCase.formFactor} case`, 20);
+    }
+  }
+
+  // Graphics card length against case clearance
+  if (pcCase?.maxGpuLengthMm) {
+    const clearance = pcCase.maxGpuLengthMm;
+    const longest = gpus.reduce<CompatibilityPart | undefined>(
+      (longest, card) => ((card.lengthMm || 0) > (longest?.lengthMm || 0) ? card : longest), undefined);
+
+    if (longest?.lengthMm && longest.lengthMm > clearance) {
+      addIssue("error", "gpu_too_long",
+        `${longest.name} is ${longest.lengthMm}mm long but the case only fits cards up to ${clearance}mm`, 20);
+    } else if (longest?.lengthMm && clearance - longest.lengthMm < GPU_CLEARANCE_MARGIN_MM) {
+      addIssue("warning", "gpu_tight_fit",
+        `${longest.name} leaves less than ${GPU_CLEARANCE_MARGIN_MM}mm of clearance - front fans or cables may get in the way`, 5);
+    }
+  }
+
+  // Air cooler height against case clearance
+  if (pcCase?.maxCoolerHeightMm && cooler?.heightMm && cooler.heightMm > pcCase.maxCoolerHeightMm) {
+    addIssue("error", "cooler_too_tall",
+      `${cooler.name} is ${cooler.heightMm}mm tall but the case only fits coolers up to ${pcCase.maxCoolerHeightMm}mm`, 15);
+  }
+
+  // Expansion slots on the motherboard
+  if (motherboard?.pcieSlots !== undefined && gpus.length > motherboard.pcieSlots) {
+    addIssue("error", "pcie_slots_exceeded",
+      `${gpus.length} graphics cards selected but the motherboard has ${motherboard.pcieSlots} PCIe x16 slot${motherboard.pcieSlots === 1 ? "" : "s"}`, 20);
+  }
+
+  const m2Drives = drives.filter(isM2Drive);
+  if (motherboard?.m2Slots !== undefined && m2Drives.length > motherboard.m2Slots) {
+    addIssue("error", "m2_slots_exceeded",
+      `${m2Drives.length} M.2 drives selected but the motherboard has ${motherboard.m2Slots} M.2 slot${motherboard.m2Slots === 1 ? "" : "s"}`, 15);
+  }
+
+  // RAM capacity recommendations
+  const ramCapacity = ramKits.reduce((sum, ram) => sum + (ram.capacity || 0), 0);
+  if (ramKits.length > 0 && gpu) {
+    if (ramCapacity < 16 && (gpu.vram || 0) >= 12) {
+      addIssue("warning", "ram_below_gpu_class", "High-end GPU with less than 16GB RAM may cause performance issues", 5);
+    }
+  }
+
+  // Cooling adequacy
+  if (cpu && cooler) {
+    const cpuTdp = cpu.powerConsumption || 0;
+    const coolerTdp = cooler.maxTdp || 0;
+
+    if (coolerTdp > 0 && coolerTdp < cpuTdp) {
+      addIssue("warning", "cooler_underrated",
+        `Cooler rated for ${coolerTdp}W, but CPU generates ${cpuTdp}W - thermal throttling possible`, 15);
+    } else if (cpuTdp > 100 && (cooler.performance || 0) < 80) {
+      addIssue("warning", "cooler_marginal",
+        "High-TDP CPU may require better cooling solution for sustained performance", 8);
+    } else if (coolerTdp === 0 && cpuTdp > 65) {
+      addIssue("info", "stock_cooler",
+        "Stock cooler adequate for basic use, upgrade recommended for overclocking", 3);
+    }
+  }
+
+  // Use case specific recommendations
+  if (ramCapacity > 0) {
+    if (options.useCase === "content-creation" && ramCapacity < 32) {
+      addIssue("info", "ram_for_use_case", `Content creation benefits from 32GB+ RAM (current: ${ramCapacity}GB)`, 3);
+    } else if (options.useCase === "ai-ml" && ramCapacity < 64) {
+      addIssue("warning", "ram_for_use_case", `AI/ML workloads often require 64GB+ RAM (current: ${ramCapacity}GB)`, 8);
+    } else if (options.useCase === "workstation" && ramCapacity < 32) {
+      addIssue("info", "ram_for_use_case", `Workstation use typically benefits from 32GB+ RAM (current: ${ramCapacity}GB)`, 2);
+    }
+  }
+
+  // Storage type recommendations
+  if (drives.length > 0 && drives.every(drive => drive.storageType === "HDD")
+    && (options.useCase === "gaming" || options.useCase === "content-creation")) {
+    addIssue("info", "hdd_only", `SSD recommended for faster ${options.useCase} performance and shorter load times`, 2);
+  }
+
+  // High-end component balance
+  if (cpu?.tier === "enthusiast" && motherboard?.tier === "budget") {
+    addIssue("warning", "motherboard_tier",
+      "High-end CPU with budget motherboard may limit overclocking potential", 5);
+  }
+
+  // PSU efficiency for high-power systems
+  if (psu && totalPower > 400 && !(psu.efficiency || "").includes("Gold")) {
+    addIssue("info", "psu_efficiency", "High-power system benefits from 80+ Gold or better PSU efficiency", 2);
+  }
+
+  const errorCount = issues.filter(issue => issue.type === "error").length;
+  const warningCount = issues.filter(issue => issue.type === "warning").length;
+  const infoCount = issues.filter(issue => issue.type === "info").length;
+
+  let assessmentLevel = "Excellent";
+  if (compatibilityScore < 70) assessmentLevel = "Poor";
+  else if (compatibilityScore < 80) assessmentLevel = "Fair";
+  else if (compatibilityScore < 90) assessmentLevel = "Good";
+
+  return {
+    issues,
+    overallCompatible: errorCount === 0,
+    compatibilityScore: Math.max(0, compatibilityScore),
+    assessmentLevel,
+    hasErrors: errorCount > 0,
+    warningCount,
+    infoCount,
+    totalIssues: errorCount + warningCount + infoCount
+  };
+}
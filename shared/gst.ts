@@ -0,0 +1,79 @@
+// Indian GST reference data shared by checkout and invoicing
+
+export interface IndianState {
+  code: string; // two-digit GST state code, also the first two digits of a GSTIN
+  name: string;
+}
+
+export const INDIAN_STATES: IndianState[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+// Default classification when a build or component has no code of its own
+export const DEFAULT_PC_HSN_CODE = "8471"; // automatic data processing machines
+export const SHIPPING_SAC_CODE = "9965"; // goods transport services
+
+export const HSN_CODE_PATTERN = /^\d{4,8}$/;
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export function getIndianState(code: string | undefined): IndianState | undefined {
+  return INDIAN_STATES.find(state => state.code === code);
+}
+
+export function normalizeGstin(gstin: string): string {
+  return gstin.replace(/\s+/g, "").toUpperCase();
+}
+
+// Checks the format, the state prefix and the mod-36 check character
+export function isValidGstin(gstin: string): boolean {
+  const value = normalizeGstin(gstin);
+  if (!GSTIN_PATTERN.test(value) || !getIndianState(value.slice(0, 2))) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  const checkChar = GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+
+  return value[14] === checkChar;
+}
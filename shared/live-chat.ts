@@ -0,0 +1,35 @@
+// Messages exchanged over the live chat socket at /ws/chat between customers, support agents and the server.
+// Agents are recognised by their admin session cookie; everyone else is treated as a customer.
+import { z } from "zod";
+import type { ChatMessage, ChatSession, ChatSessionStatus } from "./schema";
+
+export const LIVE_CHAT_PATH = "/ws/chat";
+
+const sessionIdSchema = z.string().regex(/^[A-Za-z0-9_-]{8,100}$/, "Invalid chat session id");
+
+export const liveChatClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), sessionId: sessionIdSchema }),
+  z.object({ type: z.literal("leave"), sessionId: sessionIdSchema }),
+  z.object({ type: z.literal("typing"), sessionId: sessionIdSchema, isTyping: z.boolean() }),
+  z.object({ type: z.literal("ping") }),
+  // Agent only
+  z.object({ type: z.literal("subscribe_queue") }),
+  z.object({ type: z.literal("claim"), sessionId: sessionIdSchema }),
+  z.object({ type: z.literal("release"), sessionId: sessionIdSchema }),
+  z.object({ type: z.literal("close"), sessionId: sessionIdSchema }),
+  z.object({ type: z.literal("agent_message"), sessionId: sessionIdSchema, content: z.string().trim().min(1).max(2000) }),
+]);
+
+export type LiveChatClientMessage = z.infer<typeof liveChatClientMessageSchema>;
+
+export type LiveChatServerMessage =
+  // Sent on join; customers get their own view of the transcript, agents also get the session
+  | { type: "history"; sessionId: string; status?: ChatSessionStatus; messages: ChatMessage[]; session?: ChatSession }
+  | { type: "new_message"; sessionId: string; message: ChatMessage }
+  | { type: "session_update"; sessionId: string; status: ChatSessionStatus }
+  | { type: "agent_typing"; sessionId: string; isTyping: boolean }
+  | { type: "customer_typing"; sessionId: string; isTyping: boolean }
+  | { type: "queue"; sessions: ChatSession[]; agentEmail: string }
+  | { type: "queue_update"; session: ChatSession }
+  | { type: "error"; message: string; sessionId?: string }
+  | { type: "pong" };
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { HSN_CODE_PATTERN } from "./gst";
 
 // Base types for Firebase Realtime Database
 export interface PcBuild {
@@ -23,8 +24,10 @@ export interface PcBuild {
   monitor?: string;
   keyboardMouse?: string;
   mousePad?: string;
+  hsnCode?: string; // HSN code printed on tax invoices
   // Meta fields
   stockQuantity: number;
+  reservedQuantity?: number; // held by checkouts awaiting payment
   lowStockThreshold: number;
   isActive: boolean;
   createdAt: Date;
@@ -42,6 +45,7 @@ export interface Component {
   lowStockThreshold: number;
   isActive: boolean;
   sku?: string;
+  hsnCode?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -74,23 +78,69 @@ export interface UserProfile {
   updatedAt: Date;
 }
 
+// Order lifecycle. Cash on delivery orders move from pending straight to processing.
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'processing',
+  'assembled',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'returned'
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'processing', 'cancelled'],
+  paid: ['processing', 'cancelled', 'refunded'],
+  processing: ['assembled', 'cancelled', 'refunded'],
+  assembled: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned', 'refunded'],
+  cancelled: ['refunded'],
+  refunded: [],
+  returned: ['refunded']
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
 export interface Order {
   id: number;
   userId: string;
   orderNumber: string;
-  status: string;
+  status: OrderStatus;
   total: number;
   items: string;
   customerName?: string;
   customerEmail?: string;
   shippingAddress?: string;
+  shippingState?: string; // GST state code, determines the place of supply
+  customerGstin?: string; // present for B2B orders
   billingAddress?: string;
   paymentMethod?: string;
   trackingNumber?: string;
+  // Pricing breakdown (server-computed)
+  subtotal?: number;
+  discountCode?: string;
+  discountAmount?: number;
+  gstAmount?: number;
+  shippingAmount?: number;
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  // Refund state
+  refundedAmount?: number;
+  refundStatus?: OrderRefundStatus;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type OrderRefundStatus = 'pending' | 'partial' | 'full' | 'failed';
+
 export interface SavedBuild {
   id: number;
   userId: string;
@@ -117,10 +167,51 @@ export interface AdminSetting {
   updatedAt: Date;
 }
 
+export const SUBSCRIPTION_BILLING_CYCLES = ['monthly', 'quarterly', 'yearly'] as const;
+export type SubscriptionBillingCycle = typeof SUBSCRIPTION_BILLING_CYCLES[number];
+
+export const SUBSCRIPTION_PLAN_STATUSES = ['active', 'retired'] as const;
+export type SubscriptionPlanStatus = typeof SUBSCRIPTION_PLAN_STATUSES[number];
+
+// Limits applied on top of the plan discount, in rupees
+export interface SubscriptionPriceRules {
+  minimumOrderValue?: number; // basket total before discount
+  maximumDiscount?: number; // cap on the discount per billing cycle
+}
+
+// What a subscriber signs up to. Editing a plan creates a new version; earlier versions never change.
+export interface SubscriptionPlanTerms {
+  name: string;
+  description: string;
+  billingCycle: SubscriptionBillingCycle;
+  discountPercentage: number;
+  minimumItems: number;
+  features: string[];
+  priceRules: SubscriptionPriceRules;
+}
+
+// Retired plans take no new subscribers; existing subscribers keep the version they signed up to
+export interface SubscriptionPlan extends SubscriptionPlanTerms {
+  id: string; // stable slug, e.g. monthly_standard
+  version: number; // terms new subscriptions get
+  status: SubscriptionPlanStatus;
+  createdAt: number;
+  updatedAt: number;
+  retiredAt?: number;
+}
+
+export interface SubscriptionPlanVersion extends SubscriptionPlanTerms {
+  planId: string;
+  version: number;
+  createdAt: number;
+  createdBy?: string; // admin who made the change
+}
+
 export interface Subscription {
   id: string;
   userId: string;
   planId: string;
+  planVersion?: number; // unset on subscriptions created before plans were versioned, which are on version 1
   planName: string;
   status: 'active' | 'paused' | 'cancelled' | 'expired' | 'pending';
   billingCycle: 'monthly' | 'quarterly' | 'yearly';
@@ -151,6 +242,25 @@ export interface Subscription {
   updatedAt: Date;
   cancelledAt?: Date;
   cancellationReason?: string;
+  pendingAdjustments?: SubscriptionAdjustment[]; // billed on the next subscription order
+}
+
+// A prorated credit or charge from a mid-cycle change
+export interface SubscriptionAdjustment {
+  id: string;
+  description: string;
+  amount: number; // positive charges, negative credits
+  createdAt: number;
+}
+
+export interface SubscriptionBillingAttempt {
+  attempt: number; // 1 for the scheduled charge, then one per dunning retry
+  attemptedAt: number;
+  success: boolean; // only once Razorpay confirms the payment
+  paymentLinkId?: string; // the Razorpay payment link sent to the customer for this attempt
+  razorpayOrderId?: string; // the Razorpay order raised by attempts made before charges were sent as payment links
+  paymentId?: string;
+  error?: string;
 }
 
 export interface SubscriptionOrder {
@@ -166,10 +276,432 @@ export interface SubscriptionOrder {
   deliveryDate?: Date;
   trackingNumber?: string;
   notes?: string;
+  adjustments?: SubscriptionAdjustment[]; // already included in amount
+  attempts?: SubscriptionBillingAttempt[];
+  nextRetryAt?: number; // set while a charge awaits confirmation or a failed one waits for its next dunning retry
   createdAt: Date;
   updatedAt: Date;
 }
 
+// What billing runs and mid-cycle plan or item changes write to a subscription
+export type SubscriptionBillingUpdate = Partial<Pick<Subscription,
+  'status' | 'currentPeriodStart' | 'currentPeriodEnd' | 'nextBillingDate' | 'lastPaymentDate' | 'lastPaymentId' | 'successfulPayments' | 'failedPayments'
+  | 'planId' | 'planVersion' | 'planName' | 'billingCycle' | 'basePrice' | 'discountPercentage' | 'finalPrice' | 'items' | 'pendingAdjustments'
+>>;
+
+// nextRetryAt: null ends dunning for the order
+export type SubscriptionOrderBillingUpdate = Partial<Pick<SubscriptionOrder, 'status' | 'paymentId' | 'attempts' | 'notes'>> & {
+  nextRetryAt?: number | null;
+};
+
+// What a plan or item change would cost for the rest of the current period
+export interface SubscriptionChangePreview {
+  planId: string;
+  planName: string;
+  planVersion: number;
+  billingCycle: Subscription['billingCycle'];
+  basePrice: number;
+  discountPercentage: number;
+  finalPrice: number;
+  items: Subscription['items'];
+  periodDays: number;
+  remainingDays: number;
+  credit: number; // unused share of the current price
+  charge: number; // share of the new price for the rest of the period
+  adjustment: number; // charge - credit, added to the next order
+  nextBillingDate: number; // the new terms are billed in full from here on
+  nextOrderAmount: number;
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  orderId: number;
+  fromStatus: OrderStatus | null; // null for the status the order was created with
+  toStatus: OrderStatus;
+  actor: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface OrderRefund {
+  id: string; // Razorpay refund ID
+  orderId: number;
+  paymentId: string;
+  amount: number;
+  status: 'pending' | 'processed' | 'failed';
+  reason?: string;
+  restockItems: { buildId: number; quantity: number }[];
+  requestedBy: string;
+  failureReason?: string;
+  creditNoteNumber?: string;
+  createdAt: string;
+  processedAt?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  orderId: number;
+  orderNumber: string;
+  refundId: string;
+  customerName?: string;
+  customerEmail?: string;
+  reason?: string;
+  taxableAmount: number;
+  gstAmount: number;
+  cgst: number; // gstAmount split the way the order's invoice charged it
+  sgst: number;
+  igst: number;
+  totalAmount: number;
+  issuedAt: string;
+}
+
+export interface TaxInvoiceParty {
+  name: string;
+  address?: string;
+  stateCode: string;
+  stateName: string;
+  gstin?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface TaxInvoiceLine {
+  description: string;
+  hsnCode: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxableValue: number;
+  gstRate: number; // percentage, e.g. 18
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  orderId: number;
+  orderNumber: string;
+  supplier: TaxInvoiceParty;
+  recipient: TaxInvoiceParty;
+  placeOfSupply: string; // state code
+  supplyType: 'intra_state' | 'inter_state';
+  isB2B: boolean;
+  lines: TaxInvoiceLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  grandTotal: number;
+  issuedAt: string;
+}
+
+// Rendered copy of a tax invoice, stored so every download returns the same bytes
+export interface InvoiceDocument {
+  orderId: number;
+  invoiceNumber: string;
+  contentType: 'application/pdf';
+  content: string; // base64
+  sha256: string;
+  size: number;
+  createdAt: string;
+}
+
+export interface StockMovement {
+  id: string;
+  itemId: number;
+  itemType: 'build' | 'component';
+  movementType: 'in' | 'out' | 'adjustment' | 'reserve' | 'release';
+  quantity: number;
+  reason: string;
+  referenceId?: string; // reservation or order the movement belongs to
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface StockAlert {
+  id: number;
+  itemId: number;
+  itemType: 'build' | 'component';
+  alertType: 'low_stock' | 'out_of_stock';
+  currentStock: number;
+  threshold: number;
+  itemName: string;
+  createdAt: string;
+}
+
+export interface StockReservation {
+  id: string; // Razorpay order ID for online checkouts
+  items: Array<{ buildId: number; quantity: number }>;
+  discountId?: string; // discount code whose use is held with the stock
+  status: 'reserved' | 'committed' | 'released';
+  orderId?: number;
+  releaseReason?: string;
+  expiresAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type StorageBackend = 'firebase' | 'prisma';
+
+// Entities DualWriteStorage keeps in both Firebase and Prisma
+export const DUAL_WRITE_ENTITIES = ['pcBuilds', 'components', 'inquiries', 'userProfiles', 'orders'] as const;
+export type DualWriteEntity = typeof DUAL_WRITE_ENTITIES[number];
+
+// A record that reached one store but not the other; one entry per record and target store
+export interface SyncOutboxEntry {
+  id: string; // `${entity}:${key}:${target}`
+  entity: DualWriteEntity;
+  key: string; // Firebase key of the record: its id, or the uid for user profiles
+  target: StorageBackend; // the store that missed the write
+  operation: string; // the storage method that was writing
+  status: 'pending' | 'dead';
+  attempts: number;
+  lastError: string;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  name: string;
+  description: string;
+  type: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+  value: number; // percentage (10 = 10%) or fixed amount
+  minimumOrderValue?: number;
+  maximumDiscount?: number;
+  applicableCategories: string[];
+  applicableProducts: number[];
+  usageLimit?: number;
+  usageCount: number;
+  usagePerCustomer?: number;
+  validFrom: number;
+  validUntil: number;
+  isActive: boolean;
+  stackable: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BulkPricingTier {
+  id: string;
+  name: string;
+  minimumQuantity: number;
+  discountPercentage: number;
+  applicableCategories: string[];
+  isActive: boolean;
+}
+
+export interface DiscountRedemption {
+  id: string;
+  discountId: string;
+  code: string;
+  userId: string;
+  checkoutId?: string; // stock reservation the use is held under until payment
+  orderId?: number;
+  redeemedAt: number;
+}
+
+// Configurator parts catalog
+export const CATALOG_CATEGORIES = ["cpu", "gpu", "ram", "storage", "motherboard", "psu", "case", "cooler"] as const;
+export type CatalogCategory = typeof CATALOG_CATEGORIES[number];
+
+export const CATALOG_TIERS = ["budget", "mid-range", "high-end", "enthusiast"] as const;
+export type CatalogTier = typeof CATALOG_TIERS[number];
+
+export interface CatalogComponent {
+  id: string;
+  category: CatalogCategory;
+  name: string;
+  brand?: string;
+  sku?: string;
+  price: number;
+  tier: CatalogTier;
+  performance: number; // relative score 0-100 used to rank parts
+  powerConsumption: number; // watts drawn under load
+  // Compatibility attributes
+  socket?: string; // cpu, motherboard
+  memoryType?: string; // ram, motherboard
+  formFactor?: string; // motherboard, case
+  wattage?: number; // psu output
+  maxTdp?: number; // cooler rating
+  lengthMm?: number; // gpu card length
+  heightMm?: number; // air cooler height
+  maxGpuLengthMm?: number; // case clearance
+  maxCoolerHeightMm?: number; // case clearance
+  pcieSlots?: number; // motherboard x16 slots
+  m2Slots?: number; // motherboard M.2 slots
+  // Specs shown to customers
+  cores?: number;
+  clockSpeed?: number;
+  vram?: number;
+  capacity?: number;
+  speed?: number;
+  storageType?: string;
+  efficiency?: string;
+  airflow?: string;
+  coolerType?: string;
+  hsnCode?: string;
+  stockQuantity: number;
+  lowStockThreshold: number;
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Support tickets
+export const SUPPORT_TICKET_CATEGORIES = ["technical", "billing", "sales", "warranty", "delivery", "general"] as const;
+export type SupportTicketCategory = typeof SUPPORT_TICKET_CATEGORIES[number];
+
+export const SUPPORT_TICKET_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+export type SupportTicketPriority = typeof SUPPORT_TICKET_PRIORITIES[number];
+
+export const SUPPORT_TICKET_STATUSES = ["open", "in_progress", "waiting_customer", "resolved", "closed"] as const;
+export type SupportTicketStatus = typeof SUPPORT_TICKET_STATUSES[number];
+
+// Limits enforced on upload; the content type is sniffed from the bytes, never taken from the client
+export const SUPPORT_ATTACHMENT_LIMITS = {
+  maxFileBytes: 10 * 1024 * 1024,
+  maxTicketBytes: 25 * 1024 * 1024,
+  maxFilesPerUpload: 5,
+} as const;
+
+export const SUPPORT_ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf", "text/plain"] as const;
+export type SupportAttachmentType = typeof SUPPORT_ATTACHMENT_TYPES[number];
+
+export interface SupportTicketAttachment {
+  id: string;
+  fileName: string;
+  fileUrl: string; // customer views carry a signed, expiring link; admins use /api/support/admin/tickets/:id/attachments/:attachmentId
+  fileSize: number;
+  contentType: SupportAttachmentType;
+  uploadedBy: 'user' | 'admin';
+  uploadedAt: number;
+}
+
+export interface SupportTicketResponse {
+  id: string;
+  authorId: string;
+  authorType: 'user' | 'admin' | 'system';
+  authorName: string;
+  message: string;
+  timestamp: number;
+  isInternal: boolean; // internal notes are only shown to admins
+  attachments?: SupportTicketAttachment[];
+  sourceMessageId?: string; // Message-ID when the reply arrived by email
+}
+
+export interface SupportTicket {
+  id: string; // TKT-<timestamp>-<suffix>
+  userId: string;
+  userEmail: string;
+  userName: string;
+  orderId?: number;
+  subject: string;
+  description: string;
+  category: SupportTicketCategory;
+  priority: SupportTicketPriority;
+  status: SupportTicketStatus;
+  assignedAgent?: string;
+  attachments: SupportTicketAttachment[];
+  responses: SupportTicketResponse[];
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  resolvedAt?: number;
+  customerSatisfaction?: number; // 1-5
+  sla?: SupportTicketSla;
+  sourceMessageId?: string; // Message-ID when the ticket was opened by email
+  replyToEmail?: string; // Reply-To of that email, where notifications go instead of userEmail
+}
+
+export type SupportTicketUpdate = Partial<Pick<SupportTicket,
+  'status' | 'priority' | 'category' | 'assignedAgent' | 'resolvedAt' | 'customerSatisfaction' | 'tags' | 'attachments' | 'sla'
+>>;
+
+// Response and resolution targets; a category-specific policy wins over an 'any' policy of the same priority
+export interface SupportSlaPolicy {
+  id: string;
+  name: string;
+  category: SupportTicketCategory | 'any';
+  priority: SupportTicketPriority;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+  onCallAgent?: string; // escalation target; SUPPORT_ON_CALL_AGENT is used when unset
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Deadlines stamped on a ticket from its policy, plus when each warning or breach was recorded
+export interface SupportTicketSla {
+  policyId: string;
+  firstResponseDueAt: number;
+  resolutionDueAt: number;
+  firstRespondedAt?: number;
+  firstResponseAtRiskAt?: number;
+  firstResponseBreachedAt?: number;
+  resolutionAtRiskAt?: number;
+  resolutionBreachedAt?: number;
+  escalatedAt?: number;
+}
+
+// AI chat sessions; the transcript is stored as separate messages so long chats stay cheap to list.
+// 'with_agent' means a support agent has taken the chat over and the AI stays quiet.
+export const CHAT_SESSION_STATUSES = ['active', 'escalated', 'with_agent', 'closed'] as const;
+export type ChatSessionStatus = typeof CHAT_SESSION_STATUSES[number];
+
+export const CHAT_MESSAGE_ROLES = ['user', 'assistant', 'agent', 'system'] as const;
+export type ChatMessageRole = typeof CHAT_MESSAGE_ROLES[number];
+
+export interface ChatEscalation {
+  reason: string;
+  urgency: SupportTicketPriority;
+  escalatedAt: number;
+}
+
+export interface ChatSession {
+  id: string;
+  userId?: string;
+  userEmail?: string;
+  userName?: string;
+  status: ChatSessionStatus;
+  provider?: string; // provider that produced the latest AI reply
+  escalation?: ChatEscalation;
+  assignedAgent?: string; // email of the agent handling a 'with_agent' chat
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  sessionId: string;
+  role: ChatMessageRole;
+  content: string;
+  provider?: string; // set on assistant messages
+  createdAt: number;
+}
+
+// assignedAgent: null releases the chat from its agent
+export type ChatSessionUpdate = Partial<Pick<ChatSession,
+  'userId' | 'userEmail' | 'userName' | 'status' | 'provider' | 'escalation'
+>> & { assignedAgent?: string | null };
+
+// Outcome of atomically claiming one use of a discount code
+export type DiscountRedemptionResult =
+  | { success: true; redemption: DiscountRedemption }
+  | { success: false; reason: 'not_found' | 'usage_limit' | 'customer_limit' };
+
 // Zod schemas for validation
 export const insertPcBuildSchema = z.object({
   name: z.string().min(1),
@@ -190,6 +722,7 @@ export const insertPcBuildSchema = z.object({
   monitor: z.string().optional(),
   keyboardMouse: z.string().optional(),
   mousePad: z.string().optional(),
+  hsnCode: z.string().regex(HSN_CODE_PATTERN, "HSN code must be 4 to 8 digits").optional(),
   stockQuantity: z.number().min(0).default(0),
   lowStockThreshold: z.number().min(0).default(2),
   isActive: z.boolean().default(true),
@@ -205,6 +738,7 @@ export const insertComponentSchema = z.object({
   lowStockThreshold: z.number().min(0).default(5),
   isActive: z.boolean().default(true),
   sku: z.string().optional(),
+  hsnCode: z.string().regex(HSN_CODE_PATTERN, "HSN code must be 4 to 8 digits").optional(),
 });
 
 export const insertInquirySchema = z.object({
@@ -237,15 +771,24 @@ export const insertUserProfileSchema = z.object({
 export const insertOrderSchema = z.object({
   userId: z.string().min(1),
   orderNumber: z.string().min(1),
-  status: z.string().default("processing"),
+  status: z.enum(ORDER_STATUSES).default("pending"),
   total: z.number().min(0),
   items: z.string().min(1),
   customerName: z.string().optional(),
   customerEmail: z.string().optional(),
   shippingAddress: z.string().optional(),
+  shippingState: z.string().optional(),
+  customerGstin: z.string().optional(),
   billingAddress: z.string().optional(),
   paymentMethod: z.string().optional(),
   trackingNumber: z.string().optional(),
+  subtotal: z.number().min(0).optional(),
+  discountCode: z.string().optional(),
+  discountAmount: z.number().min(0).optional(),
+  gstAmount: z.number().min(0).optional(),
+  shippingAmount: z.number().min(0).optional(),
+  razorpayOrderId: z.string().optional(),
+  razorpayPaymentId: z.string().optional(),
 });
 
 export const insertSavedBuildSchema = z.object({
@@ -272,6 +815,7 @@ export const insertAdminSettingSchema = z.object({
 export const insertSubscriptionSchema = z.object({
   userId: z.string().min(1),
   planId: z.string().min(1),
+  planVersion: z.number().int().positive().optional(),
   planName: z.string().min(1),
   status: z.enum(['active', 'paused', 'cancelled', 'expired', 'pending']).default('pending'),
   billingCycle: z.enum(['monthly', 'quarterly', 'yearly']),
@@ -292,6 +836,38 @@ export const insertSubscriptionSchema = z.object({
   razorpaySubscriptionId: z.string().optional(),
 });
 
+export const subscriptionPriceRulesSchema = z.object({
+  minimumOrderValue: z.number().nonnegative().optional(),
+  maximumDiscount: z.number().nonnegative().optional(),
+});
+
+export const insertSubscriptionPlanSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{3,50}$/, 'Use 3-50 lowercase letters, digits or underscores'),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).default(''),
+  billingCycle: z.enum(SUBSCRIPTION_BILLING_CYCLES),
+  discountPercentage: z.number().min(0).max(100).default(0),
+  minimumItems: z.number().int().min(1).default(1),
+  features: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+  priceRules: subscriptionPriceRulesSchema.default({}),
+});
+
+export const updateSubscriptionPlanSchema = insertSubscriptionPlanSchema.omit({ id: true }).partial();
+
+// Either or both of a new plan and a new set of items
+export const subscriptionChangeSchema = z.object({
+  planId: z.string().min(1).optional(),
+  items: z.array(z.object({
+    buildId: z.number().int().positive(),
+    quantity: z.number().int().min(1).max(100),
+  })).min(1).max(20).optional(),
+});
+
+// The adjustment the customer was shown; confirming fails if it has changed since
+export const confirmSubscriptionChangeSchema = subscriptionChangeSchema.extend({
+  expectedAdjustment: z.number(),
+});
+
 export const insertSubscriptionOrderSchema = z.object({
   subscriptionId: z.string().min(1),
   userId: z.string().min(1),
@@ -304,6 +880,169 @@ export const insertSubscriptionOrderSchema = z.object({
   deliveryDate: z.date().optional(),
   trackingNumber: z.string().optional(),
   notes: z.string().optional(),
+  adjustments: z.array(z.object({
+    id: z.string(),
+    description: z.string(),
+    amount: z.number(),
+    createdAt: z.number(),
+  })).optional(),
+});
+
+export const insertDiscountCodeSchema = z.object({
+  code: z.string().min(3).transform(code => code.toUpperCase()),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']),
+  value: z.number().min(0),
+  minimumOrderValue: z.number().min(0).optional(),
+  maximumDiscount: z.number().min(0).optional(),
+  applicableCategories: z.array(z.string()).default([]),
+  applicableProducts: z.array(z.number()).default([]),
+  usageLimit: z.number().int().min(1).optional(),
+  usagePerCustomer: z.number().int().min(1).optional(),
+  validFrom: z.number(),
+  validUntil: z.number(),
+  isActive: z.boolean().default(true),
+  stackable: z.boolean().default(false),
+  createdBy: z.string().default('admin'),
+});
+
+export const bulkPricingTierSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  minimumQuantity: z.number().int().min(1),
+  discountPercentage: z.number().min(0).max(100),
+  applicableCategories: z.array(z.string()).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export const insertCatalogComponentSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  name: z.string().min(1),
+  brand: z.string().optional(),
+  sku: z.string().optional(),
+  price: z.number().min(0),
+  tier: z.enum(CATALOG_TIERS),
+  performance: z.number().min(0).max(100),
+  powerConsumption: z.number().min(0),
+  socket: z.string().optional(),
+  memoryType: z.string().optional(),
+  formFactor: z.string().optional(),
+  wattage: z.number().int().positive().optional(),
+  maxTdp: z.number().int().positive().optional(),
+  lengthMm: z.number().int().positive().optional(),
+  heightMm: z.number().int().positive().optional(),
+  maxGpuLengthMm: z.number().int().positive().optional(),
+  maxCoolerHeightMm: z.number().int().positive().optional(),
+  pcieSlots: z.number().int().min(0).optional(),
+  m2Slots: z.number().int().min(0).optional(),
+  cores: z.number().int().positive().optional(),
+  clockSpeed: z.number().positive().optional(),
+  vram: z.number().int().positive().optional(),
+  capacity: z.number().int().positive().optional(),
+  speed: z.number().int().positive().optional(),
+  storageType: z.string().optional(),
+  efficiency: z.string().optional(),
+  airflow: z.string().optional(),
+  coolerType: z.string().optional(),
+  hsnCode: z.string().regex(HSN_CODE_PATTERN, "HSN code must be 4 to 8 digits").optional(),
+  stockQuantity: z.number().int().min(0).default(0),
+  lowStockThreshold: z.number().int().min(0).default(3),
+  isActive: z.boolean().default(true),
+});
+
+export const insertSupportTicketSchema = z.object({
+  subject: z.string().trim().min(3).max(200),
+  description: z.string().trim().min(10).max(5000),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES),
+  orderId: z.number().int().positive().optional(),
+});
+
+export const supportTicketReplySchema = z.object({
+  message: z.string().trim().min(1).max(5000),
+});
+
+export const insertSupportSlaPolicySchema = z.object({
+  name: z.string().trim().min(1),
+  category: z.enum([...SUPPORT_TICKET_CATEGORIES, 'any']).default('any'),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+  firstResponseMinutes: z.number().int().positive(),
+  resolutionMinutes: z.number().int().positive(),
+  onCallAgent: z.string().trim().min(1).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const chatMessageRequestSchema = z.object({
+  sessionId: z.string().regex(/^[A-Za-z0-9_-]{8,100}$/),
+  message: z.string().trim().min(1).max(2000),
+  // Not verified: it only labels the session for the support team and never grants access to data
+  userId: z.string().min(1).optional(),
+  userEmail: z.string().email().optional(),
+  userName: z.string().trim().min(1).max(100).optional(),
+});
+
+// Catalog ids per category; GPUs, memory and drives may be given as lists
+const catalogSelectionValue = z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(8)]);
+
+export const catalogBuildSelectionSchema = z.object({
+  cpu: z.string().min(1),
+  gpu: catalogSelectionValue,
+  ram: catalogSelectionValue,
+  storage: catalogSelectionValue,
+  motherboard: z.string().min(1),
+  psu: z.string().min(1),
+  case: z.string().min(1),
+  cooler: z.string().min(1),
+}).partial();
+
+// Admin list endpoints; a page of records plus an opaque cursor for the next one
+export interface ListPage<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+  total: number | null; // records matching the filters, across all pages; null when the store cannot count them without reading every record
+}
+
+export const LIST_PAGE_SIZE_DEFAULT = 25;
+export const LIST_PAGE_SIZE_MAX = 100;
+
+export const ORDER_LIST_SORTS = ['createdAt', 'total', 'id'] as const;
+export const INQUIRY_LIST_SORTS = ['createdAt', 'id'] as const;
+export const USER_LIST_SORTS = ['createdAt', 'email'] as const;
+export const SUBSCRIPTION_LIST_SORTS = ['createdAt', 'nextBillingDate', 'finalPrice'] as const;
+
+// Dates are inclusive; email matches any part of the address, ignoring case
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(LIST_PAGE_SIZE_MAX).default(LIST_PAGE_SIZE_DEFAULT),
+  cursor: z.string().min(1).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  status: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  email: z.string().trim().min(1).optional()
+});
+
+// Amount is the order total or the subscription's final price per cycle
+const amountRangeSchema = z.object({
+  minAmount: z.coerce.number().min(0).optional(),
+  maxAmount: z.coerce.number().min(0).optional()
+});
+
+export const orderListQuerySchema = listQuerySchema.merge(amountRangeSchema).extend({
+  sort: z.enum(ORDER_LIST_SORTS).default('createdAt')
+});
+
+export const inquiryListQuerySchema = listQuerySchema.extend({
+  budget: z.string().min(1).optional(),
+  sort: z.enum(INQUIRY_LIST_SORTS).default('createdAt')
+});
+
+// Profiles have no status to filter on
+export const userListQuerySchema = listQuerySchema.omit({ status: true }).extend({
+  sort: z.enum(USER_LIST_SORTS).default('createdAt')
+});
+
+export const subscriptionListQuerySchema = listQuerySchema.merge(amountRangeSchema).extend({
+  sort: z.enum(SUBSCRIPTION_LIST_SORTS).default('createdAt')
 });
 
 // Type exports
@@ -316,4 +1055,25 @@ export type InsertSavedBuild = z.infer<typeof insertSavedBuildSchema>;
 export type InsertUserAddress = z.infer<typeof insertUserAddressSchema>;
 export type InsertAdminSetting = z.infer<typeof insertAdminSettingSchema>;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
-export type InsertSubscriptionOrder = z.infer<typeof insertSubscriptionOrderSchema>;
\ No newline at end of file
+export type InsertSubscriptionOrder = z.infer<typeof insertSubscriptionOrderSchema>;
+export type SubscriptionChange = z.infer<typeof subscriptionChangeSchema>;
+export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
+export type SubscriptionPlanUpdate = z.infer<typeof updateSubscriptionPlanSchema>;
+export type InsertDiscountCode = z.infer<typeof insertDiscountCodeSchema>;
+export type InsertCatalogComponent = z.infer<typeof insertCatalogComponentSchema>;
+export type CatalogBuildSelection = z.infer<typeof catalogBuildSelectionSchema>;
+export type InsertOrderStatusEvent = Omit<OrderStatusEvent, 'id' | 'createdAt'>;
+export type InsertOrderRefund = Omit<OrderRefund, 'createdAt' | 'processedAt' | 'creditNoteNumber' | 'failureReason'>;
+export type InsertCreditNote = Omit<CreditNote, 'id' | 'issuedAt'>;
+export type InsertSupportTicket = Omit<SupportTicket, 'responses' | 'createdAt' | 'updatedAt'>;
+export type InsertSupportSlaPolicy = z.infer<typeof insertSupportSlaPolicySchema>;
+export type InsertChatSession = Omit<ChatSession, 'messageCount' | 'createdAt' | 'updatedAt'>;
+export type InsertChatMessage = Omit<ChatMessage, 'id' | 'createdAt'>;
+export type InsertTaxInvoice = Omit<TaxInvoice, 'id' | 'invoiceNumber' | 'issuedAt'>;
+export type InsertInvoiceDocument = Omit<InvoiceDocument, 'createdAt'>;
+export type InsertStockMovement = Omit<StockMovement, 'id' | 'createdAt'>;
+export type InsertStockReservation = Omit<StockReservation, 'status' | 'createdAt' | 'updatedAt'>;
+export type InsertSyncOutboxEntry = Pick<SyncOutboxEntry, 'entity' | 'key' | 'target' | 'operation' | 'lastError' | 'nextAttemptAt'>;export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+export type InquiryListQuery = z.infer<typeof inquiryListQuerySchema>;
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+export type SubscriptionListQuery = z.infer<typeof subscriptionListQuerySchema>;